@@ -0,0 +1,38 @@
+/**
+ * Admin API: Credit Reservations Worker
+ *
+ * GET/POST: Rilascia le prenotazioni crediti scadute (job interrotti senza capture/release).
+ * Invocabile da admin o da cron con header Authorization: Bearer CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { creditService, requireAdmin } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+async function releaseExpired(_req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron =
+    Boolean(cronSecret) && _req.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+  if (!isCron) {
+    const userOrError = await requireAdmin();
+    if (userOrError instanceof NextResponse) {
+      return userOrError;
+    }
+  }
+
+  try {
+    const released = await creditService.releaseExpiredReservations();
+
+    return NextResponse.json({ success: true, released });
+  } catch (error: unknown) {
+    logError('Errore nel rilascio delle prenotazioni scadute', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export const GET = releaseExpired;
+export const POST = releaseExpired;
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@onecoach/lib-core';
+import {
+  FoodDumpImportService,
+  type FoodDumpFormat,
+} from '@onecoach/lib-food/food-dump-import.service';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/foods/import/dump?runId=... - Report di un run di import
+ */
+export async function GET(_req: NextRequest) {
+  const userOrError = await requireAdmin();
+  if (userOrError instanceof NextResponse) return userOrError;
+
+  try {
+    const runId = new URL(_req.url).searchParams.get('runId');
+    if (!runId) {
+      return NextResponse.json({ error: 'runId obbligatorio' }, { status: 400 });
+    }
+
+    const report = await FoodDumpImportService.getRun(runId);
+    if (!report) {
+      return NextResponse.json({ error: 'Run non trovato' }, { status: 404 });
+    }
+
+    return NextResponse.json({ report });
+  } catch (error: unknown) {
+    logError('Errore lettura run import', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * POST /api/admin/foods/import/dump - Import di un dump Open Food Facts (CSV/TSV o JSONL)
+ *
+ * Body: contenuto del dump. Query: format, runId (ripresa), chunkSize, maxChunks,
+ * mergeExisting, locale. Per riprendere un run PAUSED/FAILED si reinvia lo stesso dump
+ * con il runId: i record prima del cursore vengono saltati.
+ */
+export async function POST(_req: NextRequest) {
+  const userOrError = await requireAdmin();
+  if (userOrError instanceof NextResponse) return userOrError;
+
+  try {
+    const params = new URL(_req.url).searchParams;
+    const contentType = _req.headers.get('content-type') || '';
+    const format: FoodDumpFormat | null =
+      (params.get('format') as FoodDumpFormat | null) ??
+      (contentType.includes('ndjson') || contentType.includes('jsonl')
+        ? 'jsonl'
+        : contentType.includes('csv') || contentType.includes('tab-separated')
+          ? 'csv'
+          : null);
+
+    if (format !== 'csv' && format !== 'jsonl') {
+      return NextResponse.json(
+        { error: 'Formato non supportato (usa csv o jsonl)' },
+        { status: 400 }
+      );
+    }
+
+    if (!_req.body) {
+      return NextResponse.json({ error: 'Dump mancante' }, { status: 400 });
+    }
+
+    const chunkSize = parseInt(params.get('chunkSize') || '', 10);
+    const maxChunks = parseInt(params.get('maxChunks') || '', 10);
+
+    // Il dump può pesare centinaia di MB: viene letto in streaming, non con req.text()
+    const report = await FoodDumpImportService.importStream(_req.body, {
+      format,
+      runId: params.get('runId') || undefined,
+      chunkSize: Number.isNaN(chunkSize) ? undefined : chunkSize,
+      maxChunks: Number.isNaN(maxChunks) ? undefined : maxChunks,
+      mergeExisting: params.get('mergeExisting') !== 'false',
+      locale: params.get('locale') || undefined,
+      userId: userOrError.id,
+    });
+
+    return NextResponse.json({ report });
+  } catch (error: unknown) {
+    logError('Errore import dump alimenti', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Admin API: Replay Stripe Webhook Event
+ *
+ * POST: Rimette in coda l'evento e lo rielabora subito.
+ * Body opzionale: { force: true } per rielaborare un evento già PROCESSED.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, stripeWebhookInboxService } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userOrError = await requireAdmin();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await _req.json().catch(() => ({}));
+    const status = await stripeWebhookInboxService.replay(id, { force: body?.force === true });
+    const event = await stripeWebhookInboxService.getById(id);
+
+    return NextResponse.json({ success: status === 'PROCESSED', status, event });
+  } catch (error: unknown) {
+    logError("Errore nel replay dell'evento webhook", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
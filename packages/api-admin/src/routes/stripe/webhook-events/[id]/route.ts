@@ -0,0 +1,34 @@
+/**
+ * Admin API: Stripe Webhook Event
+ *
+ * GET: Dettaglio evento con payload, tentativi e ultimo errore
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, stripeWebhookInboxService } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const userOrError = await requireAdmin();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { id } = await params;
+    const event = await stripeWebhookInboxService.getById(id);
+
+    if (!event) {
+      return NextResponse.json({ error: 'Evento non trovato' }, { status: 404 });
+    }
+
+    return NextResponse.json({ event });
+  } catch (error: unknown) {
+    logError("Errore nel recupero dell'evento webhook", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Admin API: Stripe Webhook Worker
+ *
+ * GET/POST: Elabora gli eventi dovuti dell'inbox (nuovi e retry con backoff).
+ * Invocabile da admin o da cron con header Authorization: Bearer CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, stripeWebhookInboxService } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+async function processDue(_req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron =
+    Boolean(cronSecret) && _req.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+  if (!isCron) {
+    const userOrError = await requireAdmin();
+    if (userOrError instanceof NextResponse) {
+      return userOrError;
+    }
+  }
+
+  try {
+    const limit = parseInt(new URL(_req.url).searchParams.get('limit') || '25', 10);
+    const summary = await stripeWebhookInboxService.processDue(
+      Math.min(Math.max(limit || 25, 1), 100)
+    );
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: unknown) {
+    logError("Errore nell'elaborazione degli eventi webhook", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export const GET = processDue;
+export const POST = processDue;
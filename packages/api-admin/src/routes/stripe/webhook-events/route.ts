@@ -0,0 +1,57 @@
+/**
+ * Admin API: Stripe Webhook Events
+ *
+ * GET: Lista eventi dell'inbox con filtri (status, type) e conteggi per stato
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  stripeWebhookInboxService,
+  type StripeWebhookEventStatus,
+} from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: StripeWebhookEventStatus[] = [
+  'PENDING',
+  'PROCESSING',
+  'PROCESSED',
+  'FAILED',
+  'DEAD',
+  'UNHANDLED',
+];
+
+export async function GET(_req: NextRequest) {
+  const userOrError = await requireAdmin();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const params = new URL(_req.url).searchParams;
+    const status = params.get('status')?.toUpperCase() as StripeWebhookEventStatus | undefined;
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Status non valido' }, { status: 400 });
+    }
+
+    const [events, stats] = await Promise.all([
+      stripeWebhookInboxService.list({
+        status,
+        type: params.get('type') || undefined,
+        page: parseInt(params.get('page') || '1', 10) || 1,
+        pageSize: parseInt(params.get('pageSize') || '50', 10) || 50,
+      }),
+      stripeWebhookInboxService.getStats(),
+    ]);
+
+    return NextResponse.json({ ...events, stats });
+  } catch (error: unknown) {
+    logError('Errore nel recupero degli eventi webhook', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
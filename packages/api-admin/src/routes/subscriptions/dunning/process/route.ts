@@ -0,0 +1,38 @@
+/**
+ * Admin API: Dunning Worker
+ *
+ * GET/POST: Invia i promemoria dovuti, rileva i rinnovi IAP mancati e applica i downgrade
+ * a grazia scaduta. Invocabile da admin o da cron con header Authorization: Bearer CRON_SECRET.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dunningService, requireAdmin } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+async function processDue(_req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron =
+    Boolean(cronSecret) && _req.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+  if (!isCron) {
+    const userOrError = await requireAdmin();
+    if (userOrError instanceof NextResponse) {
+      return userOrError;
+    }
+  }
+
+  try {
+    const summary = await dunningService.processDue();
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: unknown) {
+    logError("Errore nell'elaborazione del dunning", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export const GET = processDue;
+export const POST = processDue;
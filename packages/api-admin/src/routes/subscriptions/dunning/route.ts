@@ -0,0 +1,42 @@
+/**
+ * Admin API: Subscription Dunning
+ *
+ * GET: Lista casi di dunning (pagamenti falliti) con filtri (status, userId)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { dunningService, requireAdmin, type DunningCaseStatus } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: DunningCaseStatus[] = ['OPEN', 'RECOVERED', 'DOWNGRADED'];
+
+export async function GET(_req: NextRequest) {
+  const userOrError = await requireAdmin();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const params = new URL(_req.url).searchParams;
+    const status = params.get('status')?.toUpperCase() as DunningCaseStatus | undefined;
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Status non valido' }, { status: 400 });
+    }
+
+    const cases = await dunningService.listCases({
+      status,
+      userId: params.get('userId') || undefined,
+      limit: parseInt(params.get('limit') || '50', 10) || 50,
+    });
+
+    return NextResponse.json({ cases, config: dunningService.getConfig() });
+  } catch (error: unknown) {
+    logError('Errore nel recupero dei casi di dunning', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
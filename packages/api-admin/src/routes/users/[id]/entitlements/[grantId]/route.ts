@@ -0,0 +1,39 @@
+/**
+ * Admin User Entitlement Grant API Route
+ *
+ * DELETE: Revoca un grant manuale (solo admin)
+ */
+
+import { NextResponse } from 'next/server';
+import { entitlementService, requireAdmin } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; grantId: string }> }
+) {
+  const adminOrError = await requireAdmin();
+
+  if (adminOrError instanceof NextResponse) {
+    return adminOrError;
+  }
+
+  try {
+    const { id: userId, grantId } = await params;
+    const grants = await entitlementService.listGrants(userId);
+
+    if (!grants.some((grant) => grant.id === grantId)) {
+      return NextResponse.json({ error: 'Grant non trovato' }, { status: 404 });
+    }
+
+    const grant = await entitlementService.revokeGrant(grantId, adminOrError.id);
+
+    return NextResponse.json({ success: true, grant });
+  } catch (error: unknown) {
+    logError('Errore nella revoca del grant', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Admin User Entitlements API Route
+ *
+ * GET: Entitlement correnti, grant e storico variazioni dell'utente
+ * POST: Crea un grant manuale (piano, feature, crediti illimitati) (solo admin)
+ */
+
+import { NextResponse } from 'next/server';
+import { entitlementService, requireAdmin } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const grantSchema = z.object({
+  plan: z.enum(['PLUS', 'PRO']).optional(),
+  features: z
+    .array(z.enum(['ai_chat', 'ai_generation', 'ai_import', 'advanced_analytics', 'coach_tools']))
+    .optional(),
+  unlimitedCredits: z.boolean().optional(),
+  reason: z.string().min(1),
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const adminOrError = await requireAdmin();
+
+  if (adminOrError instanceof NextResponse) {
+    return adminOrError;
+  }
+
+  try {
+    const { id: userId } = await params;
+    const [entitlements, grants, history] = await Promise.all([
+      entitlementService.refresh(userId, 'ADMIN_VIEW'),
+      entitlementService.listGrants(userId),
+      entitlementService.getChanges(userId),
+    ]);
+
+    return NextResponse.json({ entitlements, grants, history });
+  } catch (error: unknown) {
+    logError('Errore nel recupero degli entitlement', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const adminOrError = await requireAdmin();
+
+  if (adminOrError instanceof NextResponse) {
+    return adminOrError;
+  }
+
+  try {
+    const { id: userId } = await params;
+    const parsed = grantSchema.safeParse(await _req.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Dati non validi', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const grant = await entitlementService.grant({
+      ...parsed.data,
+      userId,
+      grantedBy: adminOrError.id,
+    });
+
+    return NextResponse.json({ success: true, grant }, { status: 201 });
+  } catch (error: unknown) {
+    logError('Errore nella creazione del grant', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -20,3 +20,8 @@ export {
   GET as analyticsSnapshotsGET,
   POST as analyticsSnapshotsPOST,
 } from './routes/analytics/snapshots/route';
+export {
+  GET as analyticsPersonalRecordsGET,
+  POST as analyticsPersonalRecordsPOST,
+} from './routes/analytics/personal-records/route';
+export { GET as analyticsEngagementGET } from './routes/analytics/engagement/route';
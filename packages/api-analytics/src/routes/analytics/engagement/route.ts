@@ -0,0 +1,86 @@
+/**
+ * Engagement API
+ *
+ * GET /api/analytics/engagement - DAU/WAU/MAU, retention per coorte e adozione funzionalità
+ *
+ * Admin: intera piattaforma (o gli atleti di un coach con ?coachId=).
+ * Coach: solo gli atleti del proprio roster.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { isAdminRole, isCoachRole } from '@onecoach/lib-core/auth';
+import { coachAthleteService } from '@onecoach/lib-coach';
+import {
+  getEngagementReport,
+  type EngagementScope,
+} from '@onecoach/lib-analytics/engagement.service';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(7).max(90).default(30),
+  cohortWeeks: z.coerce.number().int().min(1).max(26).default(8),
+  coachId: z.string().optional(),
+});
+
+/**
+ * GET /api/analytics/engagement
+ *
+ * Query params:
+ * - days: finestra per serie DAU e adozione (optional, default 30)
+ * - cohortWeeks: numero di coorti settimanali (optional, default 8)
+ * - coachId: solo admin, limita agli atleti del coach (optional)
+ */
+export async function GET(_request: NextRequest): Promise<NextResponse> {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { searchParams } = new URL(_request.url);
+    const query = querySchema.parse({
+      days: searchParams.get('days') || undefined,
+      cohortWeeks: searchParams.get('cohortWeeks') || undefined,
+      coachId: searchParams.get('coachId') || undefined,
+    });
+
+    let scope: EngagementScope;
+    if (isAdminRole(userOrError.role)) {
+      scope = query.coachId
+        ? { userIds: await coachAthleteService.listAthleteIds(query.coachId) }
+        : {};
+    } else if (isCoachRole(userOrError.role)) {
+      if (query.coachId && query.coachId !== userOrError.id) {
+        return NextResponse.json({ error: 'Accesso negato' }, { status: 403 });
+      }
+      scope = { userIds: await coachAthleteService.listAthleteIds(userOrError.id) };
+    } else {
+      return NextResponse.json({ error: 'Coach role required' }, { status: 403 });
+    }
+
+    const report = await getEngagementReport(scope, {
+      days: query.days,
+      cohortWeeks: query.cohortWeeks,
+    });
+
+    return NextResponse.json({
+      success: true,
+      scope: scope.userIds ? 'ATHLETES' : 'PLATFORM',
+      report,
+    });
+  } catch (_error: unknown) {
+    if (_error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: _error.issues },
+        { status: 400 }
+      );
+    }
+
+    const message = _error instanceof Error ? _error.message : 'Error fetching engagement';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,12 +1,13 @@
 /**
  * Analytics Overview API
  *
- * GET /api/analytics/overview - Get comprehensive analytics report
+ * GET /api/analytics/overview - Get comprehensive analytics report and today's readiness
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@onecoach/lib-core';
+import { requireAuth, logger } from '@onecoach/lib-core';
 import { generateAnalyticsReport } from '@onecoach/lib-analytics/analytics.service';
+import { getDailyReadiness } from '@onecoach/lib-analytics/readiness.service';
 import { z } from 'zod';
 
 export const dynamic = 'force-dynamic';
@@ -19,7 +20,8 @@ const querySchema = z.object({
 /**
  * GET /api/analytics/overview
  *
- * Get comprehensive analytics report for the authenticated user.
+ * Get comprehensive analytics report for the authenticated user,
+ * plus the daily readiness score (HRV, resting HR, sleep, training load; null if unavailable).
  *
  * Query params:
  * - startDate: ISO date string (optional)
@@ -63,12 +65,20 @@ export async function GET(_request: NextRequest): Promise<NextResponse> {
       endDate = new Date(query.endDate);
     }
 
-    // Generate analytics report
-    const report = await generateAnalyticsReport(userOrError.id, startDate, endDate);
+    // Generate analytics report and today's readiness score
+    // (readiness is optional: its failure must not break the report)
+    const [report, readiness] = await Promise.all([
+      generateAnalyticsReport(userOrError.id, startDate, endDate),
+      getDailyReadiness(userOrError.id).catch((error: unknown) => {
+        logger.error('[Analytics] Readiness unavailable', error, { userId: userOrError.id });
+        return null;
+      }),
+    ]);
 
     return NextResponse.json({
       success: true,
       report,
+      readiness,
     });
   } catch (_error: unknown) {
     if (_error instanceof z.ZodError) {
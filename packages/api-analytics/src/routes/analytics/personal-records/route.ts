@@ -0,0 +1,123 @@
+/**
+ * Personal Records API
+ *
+ * GET  /api/analytics/personal-records - Storico dei record o best attuali
+ * POST /api/analytics/personal-records - Valuta una sessione completata
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import {
+  evaluateSessionPersonalRecords,
+  getCurrentPersonalRecords,
+  getPersonalRecordHistory,
+} from '@onecoach/lib-analytics/personal-records.service';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const querySchema = z.object({
+  view: z.enum(['history', 'current']).default('history'),
+  exerciseId: z.string().optional(),
+  since: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+const evaluateSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+/**
+ * GET /api/analytics/personal-records
+ *
+ * Query params:
+ * - view: 'history' (record battuti, dal più recente) | 'current' (best per esercizio)
+ * - exerciseId: filtra per esercizio del catalogo (optional)
+ * - since: ISO date string, solo per history (optional)
+ * - limit: numero massimo di record, solo per history (optional, default 50)
+ */
+export async function GET(_request: NextRequest): Promise<NextResponse> {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { searchParams } = new URL(_request.url);
+    const query = querySchema.parse({
+      view: searchParams.get('view') || undefined,
+      exerciseId: searchParams.get('exerciseId') || undefined,
+      since: searchParams.get('since') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const records =
+      query.view === 'current'
+        ? await getCurrentPersonalRecords(userOrError.id, query.exerciseId)
+        : await getPersonalRecordHistory(userOrError.id, {
+            exerciseId: query.exerciseId,
+            since: query.since ? new Date(query.since) : undefined,
+            limit: query.limit,
+          });
+
+    return NextResponse.json({
+      success: true,
+      records,
+    });
+  } catch (_error: unknown) {
+    if (_error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: _error.issues },
+        { status: 400 }
+      );
+    }
+
+    const message = _error instanceof Error ? _error.message : 'Error fetching personal records';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/analytics/personal-records
+ *
+ * Da chiamare al completamento della sessione; idempotente (record salvati e notificati
+ * solo alla prima valutazione).
+ *
+ * Body:
+ * - sessionId: ID della workout session completata
+ */
+export async function POST(_request: NextRequest): Promise<NextResponse> {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const body = await _request.json();
+    const validated = evaluateSchema.parse(body);
+
+    const evaluation = await evaluateSessionPersonalRecords(userOrError.id, validated.sessionId);
+    if (!evaluation) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const { records } = evaluation;
+
+    return NextResponse.json({
+      success: true,
+      records,
+      count: records.length,
+    });
+  } catch (_error: unknown) {
+    if (_error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: _error.issues },
+        { status: 400 }
+      );
+    }
+
+    const message = _error instanceof Error ? _error.message : 'Error evaluating personal records';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -9,7 +9,7 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { AI_REASONING_CONFIG } from '@onecoach/constants';
 import { logger, logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
-import { requireAuth, userProfileService } from '@onecoach/lib-core';
+import { requireAuth, userProfileService, activityEventService } from '@onecoach/lib-core';
 import { getChatAgent, type ChatCallOptions } from '@onecoach/one-agent';
 
 export const dynamic = 'force-dynamic';
@@ -105,6 +105,8 @@ export async function POST(_req: Request) {
       .map((msg) => `${msg.role.toUpperCase()}: ${msg.content}`)
       .join('\n');
 
+    await activityEventService.record(userOrError.id, 'CHAT_TURN', { tier: input.tier });
+
     const agent = getChatAgent();
     const streamResult = await agent.stream({
       prompt: transcript,
@@ -30,3 +30,26 @@ export { GET as coachAnalyticsTopPlansGET } from './routes/coach/analytics/top-p
 
 // Coach clients routes
 export { GET as coachClientsGET } from './routes/coach/clients/route';
+
+// Coach athlete roster routes
+export { GET as coachAthletesGET, POST as coachAthletesPOST } from './routes/coach/athletes/route';
+export { GET as coachRelationshipsGET } from './routes/coach/relationships/route';
+export {
+  POST as coachRelationshipPOST,
+  PATCH as coachRelationshipPATCH,
+  DELETE as coachRelationshipDELETE,
+} from './routes/coach/relationships/[relationshipId]/route';
+export {
+  GET as coachAthleteNutrientTargetsGET,
+  PUT as coachAthleteNutrientTargetsPUT,
+} from './routes/coach/athletes/[athleteId]/nutrient-targets/route';
+
+// Coach plan assignment routes
+export {
+  GET as coachAssignmentsGET,
+  POST as coachAssignmentsPOST,
+} from './routes/coach/assignments/route';
+export {
+  GET as coachAssignmentsSyncGET,
+  POST as coachAssignmentsSyncPOST,
+} from './routes/coach/assignments/sync/route';
@@ -0,0 +1,89 @@
+/**
+ * Coach Plan Assignments API
+ * GET /api/coach/assignments - List plan copies assigned by the coach
+ * POST /api/coach/assignments - Assign a template to an athlete (linked copy)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { coachAthleteService, planAssignmentService } from '@onecoach/lib-coach';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const assignPlanSchema = z.object({
+  athleteId: z.string(),
+  planType: z.enum(['NUTRITION', 'WORKOUT']),
+  planId: z.string(),
+});
+
+/**
+ * GET /api/coach/assignments
+ * List assignments, optionally filtered by templateId or athleteId
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const assignments = await planAssignmentService.listAssignments(session.user.id, {
+      templateId: searchParams.get('templateId') ?? undefined,
+      athleteId: searchParams.get('athleteId') ?? undefined,
+    });
+
+    return NextResponse.json({ assignments, total: assignments.length });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * POST /api/coach/assignments
+ * Assign a template to an athlete in the roster
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = assignPlanSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !(await coachAthleteService.hasPermission(
+        session.user.id,
+        parsed.data.athleteId,
+        'editPlans'
+      ))
+    ) {
+      return NextResponse.json({ error: 'Athlete not in roster or permission denied' }, { status: 403 });
+    }
+
+    const result = await planAssignmentService.assignPlan({
+      coachId: session.user.id,
+      ...parsed.data,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Coach Plan Sync API
+ * GET /api/coach/assignments/sync - Drift of the athlete copies from a template
+ * POST /api/coach/assignments/sync - Push the current template version to chosen athletes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { coachAthleteService, planAssignmentService } from '@onecoach/lib-coach';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const planTypeSchema = z.enum(['NUTRITION', 'WORKOUT']);
+
+const pushUpdateSchema = z.object({
+  planType: planTypeSchema,
+  templateId: z.string(),
+  athleteIds: z.array(z.string()).optional(),
+  changeLog: z.string().max(500).optional(),
+  overwriteModified: z.boolean().optional(),
+});
+
+/**
+ * GET /api/coach/assignments/sync?planType=WORKOUT&templateId=...
+ * Get drift of every athlete copy of the template
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const planType = planTypeSchema.safeParse(searchParams.get('planType'));
+    const templateId = searchParams.get('templateId');
+
+    if (!planType.success || !templateId) {
+      return NextResponse.json({ error: 'planType and templateId required' }, { status: 400 });
+    }
+
+    const drifts = await planAssignmentService.getDrift(
+      session.user.id,
+      planType.data,
+      templateId
+    );
+
+    return NextResponse.json({ drifts });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * POST /api/coach/assignments/sync
+ * Push template updates to the athletes copies
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = pushUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const coachId = session.user.id;
+    for (const athleteId of parsed.data.athleteIds ?? []) {
+      if (!(await coachAthleteService.hasPermission(coachId, athleteId, 'editPlans'))) {
+        return NextResponse.json(
+          { error: `Athlete ${athleteId} not in roster or permission denied` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const result = await planAssignmentService.pushTemplateUpdate({
+      coachId,
+      ...parsed.data,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Coach Athlete Nutrient Targets API
+ * GET /api/coach/athletes/[athleteId]/nutrient-targets - Athlete daily micronutrient references
+ * PUT /api/coach/athletes/[athleteId]/nutrient-targets - Set medical overrides (requires editProfile)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { coachAthleteService, type CoachAthletePermission } from '@onecoach/lib-coach';
+import { NutrientTargetService } from '@onecoach/lib-food/nutrient-target.service';
+import { NUTRIENT_DEFINITIONS } from '@onecoach/lib-food/nutrients';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ athleteId: string }>;
+};
+
+const updateSchema = z.object({
+  targets: z.record(z.string().min(1).max(50), z.number().min(0).max(100000).nullable()),
+  replace: z.boolean().optional(),
+});
+
+async function checkAccess(
+  coachId: string,
+  athleteId: string,
+  permission?: CoachAthletePermission
+): Promise<NextResponse | null> {
+  try {
+    await coachAthleteService.assertAccess(coachId, athleteId, permission);
+    return null;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Forbidden';
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+}
+
+/**
+ * GET /api/coach/athletes/[athleteId]/nutrient-targets
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { athleteId } = await context.params;
+    const denied = await checkAccess(session.user.id, athleteId);
+    if (denied) return denied;
+
+    const targets = await NutrientTargetService.getTargets(athleteId);
+    return NextResponse.json({ ...targets, definitions: NUTRIENT_DEFINITIONS });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * PUT /api/coach/athletes/[athleteId]/nutrient-targets
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { athleteId } = await context.params;
+    const denied = await checkAccess(session.user.id, athleteId, 'editProfile');
+    if (denied) return denied;
+
+    const parsed = updateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const targets = await NutrientTargetService.updateTargets(athleteId, parsed.data.targets, {
+      replace: parsed.data.replace,
+    });
+    return NextResponse.json(targets);
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
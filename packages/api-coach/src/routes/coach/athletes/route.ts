@@ -0,0 +1,114 @@
+/**
+ * Coach Athletes API
+ * GET /api/coach/athletes - Get coach roster (athletes with an active or pending relationship)
+ * POST /api/coach/athletes - Invite an athlete to the roster
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, roleSatisfies } from '@onecoach/lib-core/auth';
+import { prisma } from '@onecoach/lib-core';
+import { coachAthleteService } from '@onecoach/lib-coach';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const inviteAthleteSchema = z
+  .object({
+    athleteId: z.string().optional(),
+    athleteEmail: z.string().email().optional(),
+    message: z.string().max(500).optional(),
+    permissions: z
+      .object({
+        readMaxes: z.boolean().optional(),
+        editMaxes: z.boolean().optional(),
+        editPlans: z.boolean().optional(),
+        editProfile: z.boolean().optional(),
+        viewBodyMeasurements: z.boolean().optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.athleteId || data.athleteEmail, {
+    message: 'athleteId or athleteEmail required',
+  });
+
+const listStatusSchema = z.enum(['ACTIVE', 'PENDING', 'ALL']).catch('ACTIVE');
+
+async function requireCoach(userId: string): Promise<boolean> {
+  const user = await prisma.users.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  return !!user && roleSatisfies('COACH', user.role);
+}
+
+/**
+ * GET /api/coach/athletes
+ * Get coach roster
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await requireCoach(session.user.id))) {
+      return NextResponse.json({ error: 'Coach role required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = listStatusSchema.parse(searchParams.get('status') ?? undefined);
+
+    const athletes = await coachAthleteService.listAthletes(session.user.id, { status });
+
+    return NextResponse.json({
+      athletes,
+      total: athletes.length,
+    });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * POST /api/coach/athletes
+ * Invite an athlete to the roster
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await requireCoach(session.user.id))) {
+      return NextResponse.json({ error: 'Coach role required' }, { status: 403 });
+    }
+
+    const parsed = inviteAthleteSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const relationship = await coachAthleteService.invite({
+      coachId: session.user.id,
+      ...parsed.data,
+    });
+
+    return NextResponse.json(relationship, { status: 201 });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
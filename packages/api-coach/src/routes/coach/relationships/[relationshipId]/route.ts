@@ -0,0 +1,124 @@
+/**
+ * Coach Athlete Relationship API
+ * POST /api/coach/relationships/[relationshipId] - Accept or decline an invitation (athlete)
+ * PATCH /api/coach/relationships/[relationshipId] - Update coach permissions (athlete)
+ * DELETE /api/coach/relationships/[relationshipId] - Revoke relationship (coach or athlete)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { coachAthleteService } from '@onecoach/lib-coach';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ relationshipId: string }>;
+};
+
+const respondSchema = z.object({
+  action: z.enum(['accept', 'decline']),
+});
+
+const permissionsSchema = z.object({
+  readMaxes: z.boolean().optional(),
+  editMaxes: z.boolean().optional(),
+  editPlans: z.boolean().optional(),
+  editProfile: z.boolean().optional(),
+  viewBodyMeasurements: z.boolean().optional(),
+});
+
+/**
+ * POST /api/coach/relationships/[relationshipId]
+ * Accept or decline a pending invitation
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { relationshipId } = await context.params;
+    const parsed = respondSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const relationship =
+      parsed.data.action === 'accept'
+        ? await coachAthleteService.accept(relationshipId, session.user.id)
+        : await coachAthleteService.decline(relationshipId, session.user.id);
+
+    return NextResponse.json(relationship);
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * PATCH /api/coach/relationships/[relationshipId]
+ * Update the permissions granted to the coach
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { relationshipId } = await context.params;
+    const parsed = permissionsSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const relationship = await coachAthleteService.updatePermissions(
+      relationshipId,
+      session.user.id,
+      parsed.data
+    );
+
+    return NextResponse.json(relationship);
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * DELETE /api/coach/relationships/[relationshipId]
+ * Revoke the relationship
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { relationshipId } = await context.params;
+    const relationship = await coachAthleteService.revoke(relationshipId, session.user.id);
+
+    return NextResponse.json(relationship);
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Athlete Coaches API
+ * GET /api/coach/relationships - Get current user's coaches and pending invitations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { coachAthleteService } from '@onecoach/lib-coach';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/coach/relationships
+ * Get current user's coaches (athlete side)
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const relationships = await coachAthleteService.listCoaches(session.user.id);
+
+    return NextResponse.json({
+      relationships,
+      pending: relationships.filter((r) => r.status === 'PENDING').length,
+    });
+  } catch (error: unknown) {
+    logError('Internal server error', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * @onecoach/api-core
  *
- * API routes per il dominio core (auth, profile, onboarding, payments, subscriptions, credits, invitations, policies, health, iap)
+ * API routes per il dominio core (auth, profile, onboarding, payments, subscriptions, webhooks, credits, entitlements, invitations, policies, health, iap)
  * Esporta route handlers che possono essere usati in apps/next/app/api/*
  */
 
@@ -18,6 +18,19 @@ export {
   DELETE as profileMaxesByExerciseDELETE,
 } from './routes/profile/maxes/[catalogExerciseId]/route';
 export { GET as profileMaxesVersionsGET } from './routes/profile/maxes/[catalogExerciseId]/versions/route';
+export {
+  GET as profileMaxesProposalsGET,
+  POST as profileMaxesProposalsPOST,
+} from './routes/profile/maxes/proposals/route';
+export {
+  POST as profileMaxesProposalAcceptPOST,
+  DELETE as profileMaxesProposalDismissDELETE,
+} from './routes/profile/maxes/proposals/[proposalId]/route';
+export { GET as profileMaxesStandardsGET } from './routes/profile/maxes/standards/route';
+export {
+  GET as profileNutrientTargetsGET,
+  PUT as profileNutrientTargetsPUT,
+} from './routes/profile/nutrient-targets/route';
 export {
   GET as profileTaxInfoGET,
   PUT as profileTaxInfoPUT,
@@ -43,10 +56,16 @@ export {
 } from './routes/subscriptions/manage/route';
 export { POST as subscriptionsSetupIntentPOST } from './routes/subscriptions/setup-intent/route';
 
+// Webhooks routes
+export { POST as webhooksStripePOST } from './routes/webhooks/stripe/route';
+
 // Credits routes
 export { GET as creditsBalanceGET } from './routes/credits/balance/route';
 export { GET as creditsHistoryGET } from './routes/credits/history/route';
 
+// Entitlements routes
+export { GET as entitlementsGET } from './routes/entitlements/route';
+
 // Invitations routes
 export { POST as invitationsValidatePOST } from './routes/invitations/validate/route';
 
@@ -61,3 +80,5 @@ export { POST as healthSyncPOST } from './routes/health/sync/route';
 export { GET as iapSubscriptionStatusGET } from './routes/iap/subscription-status/route';
 export { POST as iapVerifyReceiptPOST } from './routes/iap/verify-receipt/route';
 export { POST as iapRestorePurchasesPOST } from './routes/iap/restore-purchases/route';
+export { POST as iapNotificationsApplePOST } from './routes/iap/notifications/apple/route';
+export { POST as iapNotificationsGooglePOST } from './routes/iap/notifications/google/route';
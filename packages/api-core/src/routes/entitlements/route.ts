@@ -0,0 +1,34 @@
+/**
+ * Entitlements API Route
+ *
+ * GET: Entitlement correnti dell'utente (piano, feature, crediti, scadenza).
+ * Con ?history=true include lo storico delle variazioni.
+ */
+
+import { NextResponse } from 'next/server';
+import { entitlementService, requireAuth } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_req: Request) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const includeHistory = new URL(_req.url).searchParams.get('history') === 'true';
+    const [entitlements, history] = await Promise.all([
+      entitlementService.get(userOrError.id),
+      includeHistory ? entitlementService.getChanges(userOrError.id, 20) : undefined,
+    ]);
+
+    return NextResponse.json({ entitlements, ...(history && { history }) });
+  } catch (error: unknown) {
+    logError('Errore nel recupero degli entitlement', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -1,13 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth/config';
-import { prisma as db } from '@onecoach/lib-core';
-import { logError, getErrorMessage, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { prisma as db, healthIngestionService } from '@onecoach/lib-core';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
 
 export const dynamic = 'force-dynamic';
 
+const isoDateSchema = z.string().refine((value) => !isNaN(Date.parse(value)), 'Data non valida');
+
+const healthSampleSchema = z.object({
+  sourceId: z.string().optional(),
+  source: z.string().optional(),
+  value: z.number().optional(),
+  date: z.string().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  stage: z.string().optional(),
+  activityType: z.string().optional(),
+  duration: z.number().optional(),
+  distance: z.number().optional(),
+  calories: z.number().optional(),
+});
+
+// I tipi di dato sconosciuti sono ammessi: il servizio li ignora e li riporta in skippedDataTypes
+const syncSchema = z.object({
+  userId: z.string().min(1),
+  platform: z.enum(['ios', 'android']),
+  dataRequests: z.array(
+    z.object({
+      dataType: z.string().min(1),
+      data: z.array(healthSampleSchema),
+    })
+  ),
+  syncTimestamp: isoDateSchema,
+});
+
 /**
  * POST /api/health/sync
- * Sync health data from mobile device
+ * Sync health data from mobile device.
+ * Re-syncing the same samples is idempotent; the response includes per-type cursors.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -17,55 +48,22 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { userId, platform, dataRequests, syncTimestamp } = body;
+    const parsed = syncSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Dati non validi', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { userId, platform, dataRequests, syncTimestamp } = parsed.data;
 
     // Verify userId matches session
     if (userId !== session.user.id) {
       return NextResponse.json({ error: 'User mismatch' }, { status: 403 });
     }
 
-    const syncedDataTypes: string[] = [];
-    const errors: string[] = [];
-
-    // Process each data type
-    for (const dataRequest of dataRequests) {
-      const { dataType, data } = dataRequest;
-
-      try {
-        switch (dataType) {
-          case 'steps':
-            await syncStepsData(userId, data);
-            syncedDataTypes.push('steps');
-            break;
-
-          case 'heartRate':
-            await syncHeartRateData(userId, data);
-            syncedDataTypes.push('heartRate');
-            break;
-
-          case 'activeCalories':
-            await syncActiveCaloriesData(userId, data);
-            syncedDataTypes.push('activeCalories');
-            break;
-
-          case 'weight':
-            await syncWeightData(userId, data);
-            syncedDataTypes.push('weight');
-            break;
-
-          case 'workout':
-            await syncWorkoutData(userId, data);
-            syncedDataTypes.push('workout');
-            break;
-
-          default:
-            errors.push(`Unknown data type: ${dataType}`);
-        }
-      } catch (error: unknown) {
-        const errorMessage = getErrorMessage(error);
-        errors.push(`Error syncing ${dataType}: ${errorMessage}`);
-      }
-    }
+    // Upsert idempotente per campione, fusione tra sorgenti e avanzamento dei cursori
+    const result = await healthIngestionService.ingest(userId, dataRequests);
 
     // Update last sync time
     await db.users.update({
@@ -77,9 +75,12 @@ export async function POST(request: NextRequest) {
     });
 
     return NextResponse.json({
-      success: errors.length === 0,
-      syncedDataTypes,
-      errors: errors.length > 0 ? errors : undefined,
+      success: result.errors.length === 0,
+      syncedDataTypes: result.syncedDataTypes,
+      skippedDataTypes: result.skippedDataTypes.length > 0 ? result.skippedDataTypes : undefined,
+      results: result.results,
+      cursors: result.cursors,
+      errors: result.errors.length > 0 ? result.errors : undefined,
     });
   } catch (error: unknown) {
     logError('Internal server error', error);
@@ -87,122 +88,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(response, { status });
   }
 }
-
-interface StepsDataItem {
-  value: number;
-  startDate: string;
-  endDate: string;
-  source?: string;
-}
-
-async function syncStepsData(userId: string, data: StepsDataItem[]) {
-  if (!data || data.length === 0) return;
-
-  for (const item of data) {
-    const { value, startDate, endDate, source } = item;
-
-    await db.health_steps.create({
-      data: {
-        userId,
-        steps: value,
-        date: new Date(startDate),
-        endDate: new Date(endDate),
-        source: source || 'unknown',
-        updatedAt: new Date(),
-      },
-    });
-  }
-}
-
-interface HeartRateDataItem {
-  value: number;
-  date: string;
-  source?: string;
-}
-
-async function syncHeartRateData(userId: string, data: HeartRateDataItem[]) {
-  if (!data || data.length === 0) return;
-
-  // Keep only latest readings (limit to prevent DB bloat)
-  const recentData = data.slice(-100);
-
-  for (const item of recentData) {
-    const { value, date, source } = item;
-
-    await db.health_heart_rate.create({
-      data: {
-        userId,
-        bpm: value,
-        recordedAt: new Date(date),
-        source: source || 'unknown',
-      },
-    });
-  }
-}
-
-async function syncActiveCaloriesData(userId: string, data: StepsDataItem[]) {
-  if (!data || data.length === 0) return;
-
-  for (const item of data) {
-    const { value, startDate, endDate, source } = item;
-
-    await db.health_active_calories.create({
-      data: {
-        userId,
-        calories: value,
-        date: new Date(startDate),
-        endDate: new Date(endDate),
-        source: source || 'unknown',
-        updatedAt: new Date(),
-      },
-    });
-  }
-}
-
-async function syncWeightData(userId: string, data: HeartRateDataItem[]) {
-  if (!data || data.length === 0) return;
-
-  for (const item of data) {
-    const { value, date, source } = item;
-
-    await db.health_weight.create({
-      data: {
-        userId,
-        weight: value,
-        recordedAt: new Date(date),
-        source: source || 'unknown',
-      },
-    });
-  }
-}
-
-interface WorkoutDataItem {
-  activityType: string;
-  duration: number;
-  distance?: number;
-  calories?: number;
-  startDate: string;
-  endDate: string;
-  source?: string;
-}
-
-async function syncWorkoutData(userId: string, data: WorkoutDataItem[]) {
-  if (!data || data.length === 0) return;
-
-  for (const item of data) {
-    const { activityType, duration, distance, calories, startDate, endDate, source } = item;
-
-    await db.health_workout.create({
-      data: {
-        userId,
-        activityType,
-        duration,
-        distance: distance || null,
-        calories: calories || null,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
-        source: source || 'unknown',
-      },
-    });
-  }
-}
@@ -0,0 +1,37 @@
+/**
+ * App Store Server Notifications v2
+ *
+ * POST: Riceve il signedPayload (JWS) dell'App Store, ne verifica la catena di certificati
+ * e applica l'evento all'abbonamento collegato. Una risposta diversa da 200 fa ritentare
+ * la consegna ad Apple.
+ */
+
+import { NextResponse } from 'next/server';
+import { iapNotificationService } from '@onecoach/lib-core';
+import { logError } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as { signedPayload?: string } | null;
+
+  if (!body?.signedPayload) {
+    return NextResponse.json({ error: 'signedPayload mancante' }, { status: 400 });
+  }
+
+  let event;
+  try {
+    event = iapNotificationService.decodeAppleNotification(body.signedPayload);
+  } catch (error: unknown) {
+    logError('Notifica App Store non valida', error);
+    return NextResponse.json({ error: 'Firma notifica non valida' }, { status: 401 });
+  }
+
+  try {
+    const result = await iapNotificationService.handle(event);
+    return NextResponse.json({ received: true, ...result });
+  } catch (error: unknown) {
+    logError("Errore nell'elaborazione della notifica App Store", error);
+    return NextResponse.json({ error: 'Errore nella elaborazione notifica' }, { status: 500 });
+  }
+}
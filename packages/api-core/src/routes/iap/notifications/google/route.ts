@@ -0,0 +1,44 @@
+/**
+ * Google Play Real-time Developer Notifications
+ *
+ * POST: Endpoint push della subscription Pub/Sub. Verifica il token OIDC di Google,
+ * legge lo stato aggiornato dalla Play Developer API e lo applica all'abbonamento collegato.
+ * Una risposta diversa da 2xx fa ritentare la consegna a Pub/Sub.
+ */
+
+import { NextResponse } from 'next/server';
+import { iapNotificationService, type GooglePubSubPushBody } from '@onecoach/lib-core';
+import { logError } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as GooglePubSubPushBody | null;
+
+  if (!body?.message?.data || !body.message.messageId) {
+    return NextResponse.json({ error: 'Messaggio Pub/Sub non valido' }, { status: 400 });
+  }
+
+  let notification;
+  try {
+    notification = await iapNotificationService.decodeGoogleNotification(
+      req.headers.get('authorization'),
+      body
+    );
+  } catch (error: unknown) {
+    logError('Notifica Google Play non valida', error);
+    return NextResponse.json({ error: 'Firma notifica non valida' }, { status: 401 });
+  }
+
+  try {
+    const event = await iapNotificationService.resolveGoogleNotification(
+      notification,
+      body.message.messageId
+    );
+    const result = await iapNotificationService.handle(event);
+    return NextResponse.json({ received: true, ...result });
+  } catch (error: unknown) {
+    logError("Errore nell'elaborazione della notifica Google Play", error);
+    return NextResponse.json({ error: 'Errore nella elaborazione notifica' }, { status: 500 });
+  }
+}
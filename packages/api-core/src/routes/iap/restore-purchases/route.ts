@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth/config';
-import { prisma as db } from '@onecoach/lib-core';
+import { prisma as db, entitlementService } from '@onecoach/lib-core';
 import {
   verifyAppleReceipt,
   verifyGoogleReceipt,
@@ -55,6 +55,7 @@ export async function POST(request: NextRequest) {
         activeSubscription = {
           ...verificationResult.subscription,
           platform: platform.toUpperCase(),
+          storePlatform: platform === 'ios' ? 'APPLE' : 'GOOGLE',
           platformSubscriptionId:
             platform === 'ios'
               ? verificationResult.subscription.originalTransactionId
@@ -83,6 +84,8 @@ export async function POST(request: NextRequest) {
             currentPeriodStart: new Date(activeSubscription.purchaseDate),
             currentPeriodEnd: new Date(activeSubscription.expirationDate),
             cancelAtPeriodEnd: !activeSubscription.willAutoRenew,
+            storePlatform: activeSubscription.storePlatform,
+            storeTransactionId: activeSubscription.platformSubscriptionId,
             updatedAt: new Date(),
           },
         });
@@ -96,15 +99,23 @@ export async function POST(request: NextRequest) {
             currentPeriodStart: new Date(activeSubscription.purchaseDate),
             currentPeriodEnd: new Date(activeSubscription.expirationDate),
             cancelAtPeriodEnd: !activeSubscription.willAutoRenew,
+            storePlatform: activeSubscription.storePlatform,
+            storeTransactionId: activeSubscription.platformSubscriptionId,
             createdAt: new Date(),
             updatedAt: new Date(),
           },
         });
       }
 
+      const entitlements = await entitlementService.refresh(
+        session.user.id,
+        'IAP_PURCHASES_RESTORED'
+      );
+
       return NextResponse.json({
         success: true,
         restored: true,
+        entitlements,
         subscription: {
           productId: activeSubscription.productId,
           expirationDate: activeSubscription.expirationDate,
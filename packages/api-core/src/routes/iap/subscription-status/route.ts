@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth/config';
-import { prisma as db } from '@onecoach/lib-core';
+import { prisma as db, entitlementService } from '@onecoach/lib-core';
 import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
 
 export const dynamic = 'force-dynamic';
@@ -16,6 +16,12 @@ export async function GET(_request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Accesso dagli entitlement (include grazia del dunning e grant admin)
+    const entitlements = await entitlementService.get(session.user.id);
+    const isActive = entitlements.tier !== 'FREE';
+    const inGracePeriod = entitlements.status === 'GRACE_PERIOD';
+    const graceUntil = entitlements.graceUntil?.getTime() ?? null;
+
     // Get user's subscription
     const subscription = await db.subscriptions.findFirst({
       where: {
@@ -26,19 +32,19 @@ export async function GET(_request: NextRequest) {
     if (!subscription) {
       return NextResponse.json({
         subscription: {
-          isActive: false,
+          isActive,
           productId: null,
           expirationDate: null,
           isInTrialPeriod: false,
           willAutoRenew: false,
+          inGracePeriod,
+          graceUntil,
           platform: null,
         },
+        entitlements,
       });
     }
 
-    const now = new Date();
-    const isActive = subscription.status === 'ACTIVE' && subscription.currentPeriodEnd > now;
-
     return NextResponse.json({
       subscription: {
         isActive,
@@ -46,8 +52,16 @@ export async function GET(_request: NextRequest) {
         expirationDate: subscription.currentPeriodEnd.getTime(),
         isInTrialPeriod: false, // trialEnd non esiste nel schema
         willAutoRenew: subscription.cancelAtPeriodEnd !== true,
-        platform: null, // platform non esiste nel schema
+        inGracePeriod,
+        graceUntil,
+        platform:
+          subscription.storePlatform === 'APPLE'
+            ? 'ios'
+            : subscription.storePlatform === 'GOOGLE'
+              ? 'android'
+              : null,
       },
+      entitlements,
     });
   } catch (error: unknown) {
     logError('Internal server error', error);
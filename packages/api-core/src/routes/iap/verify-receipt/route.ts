@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth/config';
-import { prisma as db } from '@onecoach/lib-core';
+import { prisma as db, dunningService, entitlementService } from '@onecoach/lib-core';
 import {
   verifyAppleReceipt,
   verifyGoogleReceipt,
@@ -43,6 +43,35 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid platform' }, { status: 400 });
     }
 
+    const storePlatform = platform === 'ios' ? 'APPLE' : 'GOOGLE';
+    // Solo l'abbonamento dello stesso store: una ricevuta Apple non deve toccare quello Stripe
+    const existingSubscription = await db.subscriptions.findFirst({
+      where: { userId: session.user.id, storePlatform },
+    });
+
+    // Rinnovo fallito: lo store sta ritentando l'addebito, si entra nel periodo di grazia
+    if (existingSubscription && verificationResult.subscription?.hasBillingIssue) {
+      const dunningCase = await dunningService.recordPaymentFailure({
+        subscriptionId: existingSubscription.id,
+        provider: storePlatform,
+        reference: verificationResult.subscription.originalTransactionId,
+      });
+      const inGracePeriod = !!dunningCase && dunningCase.graceUntil > new Date();
+
+      return NextResponse.json({
+        valid: false,
+        error: 'Billing issue',
+        subscription: {
+          productId: verificationResult.subscription.productId,
+          expirationDate: verificationResult.subscription.expirationDate,
+          isActive: inGracePeriod,
+          inGracePeriod,
+          graceUntil: dunningCase?.graceUntil.getTime() ?? null,
+          billingIssue: true,
+        },
+      });
+    }
+
     if (!verificationResult.valid) {
       return NextResponse.json({
         valid: false,
@@ -52,14 +81,18 @@ export async function POST(request: NextRequest) {
 
     // Store/update subscription in database
     const { createId } = await import('@onecoach/lib-shared/id-generator');
-    const existingSubscription = await db.subscriptions.findFirst({
-      where: { userId: session.user.id },
-    });
 
     // Map productId to SubscriptionPlan enum
     const plan: SubscriptionPlan =
       verificationResult.subscription!.productId === 'PRO' ? 'PRO' : 'PLUS';
 
+    // Collegamento per le notifiche server-to-server degli store
+    const storeLink = {
+      storePlatform,
+      storeTransactionId:
+        platform === 'ios' ? verificationResult.subscription!.originalTransactionId : purchaseToken,
+    };
+
     if (existingSubscription) {
       await db.subscriptions.update({
         where: { id: existingSubscription.id },
@@ -69,9 +102,16 @@ export async function POST(request: NextRequest) {
           currentPeriodStart: new Date(verificationResult.subscription!.purchaseDate),
           currentPeriodEnd: new Date(verificationResult.subscription!.expirationDate),
           cancelAtPeriodEnd: !verificationResult.subscription!.willAutoRenew,
+          ...storeLink,
+          graceUntil: null,
           updatedAt: new Date(),
         },
       });
+
+      // Rinnovo riuscito dopo un fallimento: chiude il dunning e ripristina i crediti
+      await dunningService.recover(existingSubscription.id, {
+        transactionId: verificationResult.subscription!.transactionId,
+      });
     } else {
       await db.subscriptions.create({
         data: {
@@ -82,14 +122,18 @@ export async function POST(request: NextRequest) {
           currentPeriodStart: new Date(verificationResult.subscription!.purchaseDate),
           currentPeriodEnd: new Date(verificationResult.subscription!.expirationDate),
           cancelAtPeriodEnd: !verificationResult.subscription!.willAutoRenew,
+          ...storeLink,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
       });
     }
 
+    const entitlements = await entitlementService.refresh(session.user.id, 'IAP_RECEIPT_VERIFIED');
+
     return NextResponse.json({
       valid: true,
+      entitlements,
       subscription: {
         productId: verificationResult.subscription!.productId,
         expirationDate: verificationResult.subscription!.expirationDate,
@@ -0,0 +1,103 @@
+/**
+ * API Route: One Rep Max Proposal
+ *
+ * Accetta o rifiuta una proposta di aggiornamento del massimale
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { OneRepMaxEstimatorService } from '@onecoach/lib-exercise/one-rep-max-estimator.service';
+import { updateProgramWeightsForExerciseId } from '@onecoach/one-workout';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+import { logger } from '@onecoach/lib-core';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/profile/maxes/proposals/[proposalId]
+ * Accetta la proposta: aggiorna il massimale creando una nuova versione
+ */
+export async function POST(
+  _req: NextRequest,
+  context: { params: Promise<{ proposalId: string }> }
+) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  if (!('id' in userOrError) || typeof userOrError.id !== 'string') {
+    logger.error(
+      '[API] POST /api/profile/maxes/proposals/[proposalId]: User ID non valido',
+      userOrError
+    );
+    return NextResponse.json(
+      { error: 'Errore di autenticazione: ID utente non valido' },
+      { status: 401 }
+    );
+  }
+
+  const userId = userOrError.id;
+
+  try {
+    const { proposalId } = await context.params;
+    const result = await OneRepMaxEstimatorService.acceptProposal(userId, proposalId);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    // Recalculate weights in active programs
+    await updateProgramWeightsForExerciseId(userId, result.data.exerciseId);
+
+    return NextResponse.json({ max: result.data });
+  } catch (error: unknown) {
+    logError("Errore nell'accettazione della proposta", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * DELETE /api/profile/maxes/proposals/[proposalId]
+ * Rifiuta la proposta
+ */
+export async function DELETE(
+  _req: NextRequest,
+  context: { params: Promise<{ proposalId: string }> }
+) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  if (!('id' in userOrError) || typeof userOrError.id !== 'string') {
+    logger.error(
+      '[API] DELETE /api/profile/maxes/proposals/[proposalId]: User ID non valido',
+      userOrError
+    );
+    return NextResponse.json(
+      { error: 'Errore di autenticazione: ID utente non valido' },
+      { status: 401 }
+    );
+  }
+
+  const userId = userOrError.id;
+
+  try {
+    const { proposalId } = await context.params;
+    const result = await OneRepMaxEstimatorService.dismissProposal(userId, proposalId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logError('Errore nel rifiuto della proposta', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * API Route: One Rep Max Proposals
+ *
+ * Proposte di aggiornamento dei massimali dai set registrati (e1RM)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { OneRepMaxEstimatorService } from '@onecoach/lib-exercise/one-rep-max-estimator.service';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+import { logger } from '@onecoach/lib-core';
+export const dynamic = 'force-dynamic';
+
+const detectSchema = z.object({
+  catalogExerciseIds: z.array(z.string().min(1)).optional(),
+  formula: z.enum(['AUTO', 'EPLEY', 'BRZYCKI', 'RPE']).optional(),
+});
+
+/**
+ * GET /api/profile/maxes/proposals
+ * Proposte pendenti (la ricerca di nuovi best avviene con POST)
+ */
+export async function GET() {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  // Verifica che userOrError abbia un id valido
+  if (!('id' in userOrError) || typeof userOrError.id !== 'string') {
+    logger.error('[API] GET /api/profile/maxes/proposals: User ID non valido', userOrError);
+    return NextResponse.json(
+      { error: 'Errore di autenticazione: ID utente non valido' },
+      { status: 401 }
+    );
+  }
+
+  const userId = userOrError.id;
+
+  try {
+    const result = await OneRepMaxEstimatorService.getPendingProposals(userId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ proposals: result.data ?? [] });
+  } catch (error: unknown) {
+    logError('Errore nel recupero delle proposte', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * POST /api/profile/maxes/proposals
+ * Forza la ricerca di nuovi best (es. a fine sessione), con formula selezionabile
+ */
+export async function POST(req: NextRequest) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  if (!('id' in userOrError) || typeof userOrError.id !== 'string') {
+    logger.error('[API] POST /api/profile/maxes/proposals: User ID non valido', userOrError);
+    return NextResponse.json(
+      { error: 'Errore di autenticazione: ID utente non valido' },
+      { status: 401 }
+    );
+  }
+
+  const userId = userOrError.id;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const parsed = detectSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Dati non validi',
+          details: parsed.error.flatten(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await OneRepMaxEstimatorService.detectNewBests(userId, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ proposals: result.data ?? [] });
+  } catch (error: unknown) {
+    logError('Errore nella stima dei massimali', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
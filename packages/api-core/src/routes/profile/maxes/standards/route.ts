@@ -0,0 +1,52 @@
+/**
+ * API Route: Strength Standards
+ *
+ * Classificazione dei lift principali rispetto al peso corporeo
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { OneRepMaxEstimatorService } from '@onecoach/lib-exercise/one-rep-max-estimator.service';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+import { logger } from '@onecoach/lib-core';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/profile/maxes/standards?sex=MALE|FEMALE
+ * Il sesso è letto dal profilo se non indicato
+ */
+export async function GET(req: NextRequest) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  if (!('id' in userOrError) || typeof userOrError.id !== 'string') {
+    logger.error('[API] GET /api/profile/maxes/standards: User ID non valido', userOrError);
+    return NextResponse.json(
+      { error: 'Errore di autenticazione: ID utente non valido' },
+      { status: 401 }
+    );
+  }
+
+  const userId = userOrError.id;
+
+  try {
+    const sexParam = req.nextUrl.searchParams.get('sex');
+    const sex = sexParam === 'MALE' || sexParam === 'FEMALE' ? sexParam : undefined;
+
+    const result = await OneRepMaxEstimatorService.getStrengthStandards(userId, { sex });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ standards: result.data ?? [] });
+  } catch (error: unknown) {
+    logError('Errore nel calcolo degli standard di forza', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * API Route: Nutrient Targets
+ *
+ * Riferimenti giornalieri di micronutrienti dell'utente autenticato
+ * (default per sesso + override del profilo)
+ */
+
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { NutrientTargetService } from '@onecoach/lib-food/nutrient-target.service';
+import { NUTRIENT_DEFINITIONS } from '@onecoach/lib-food/nutrients';
+import { z } from 'zod';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+const updateSchema = z.object({
+  /** Valore = override, null = torna al default */
+  targets: z.record(z.string().min(1).max(50), z.number().min(0).max(100000).nullable()),
+  replace: z.boolean().optional(),
+});
+
+/**
+ * GET /api/profile/nutrient-targets
+ */
+export async function GET() {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const targets = await NutrientTargetService.getTargets(userOrError.id);
+    return NextResponse.json({ ...targets, definitions: NUTRIENT_DEFINITIONS });
+  } catch (error: unknown) {
+    logError('Errore nel recupero dei riferimenti nutrienti', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+/**
+ * PUT /api/profile/nutrient-targets
+ */
+export async function PUT(_req: Request) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const body = await _req.json();
+    const parsed = updateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Dati non validi', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const targets = await NutrientTargetService.updateTargets(
+      userOrError.id,
+      parsed.data.targets,
+      { replace: parsed.data.replace }
+    );
+    return NextResponse.json(targets);
+  } catch (error: unknown) {
+    logError('Errore nel salvataggio dei riferimenti nutrienti', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
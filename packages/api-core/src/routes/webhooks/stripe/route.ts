@@ -0,0 +1,46 @@
+/**
+ * Stripe Webhook API Route
+ *
+ * POST: Riceve gli eventi Stripe, verifica la firma e li registra nell'inbox.
+ * L'evento viene elaborato subito; in caso di errore risponde comunque 200
+ * e il worker dell'inbox lo ritenta con backoff.
+ */
+
+import { NextResponse } from 'next/server';
+import { getStripe, stripeWebhookInboxService } from '@onecoach/lib-core';
+import { logError } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: Request) {
+  const signature = req.headers.get('stripe-signature');
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!signature || !secret) {
+    return NextResponse.json({ error: 'Firma webhook mancante' }, { status: 400 });
+  }
+
+  const payload = await req.text();
+  let event;
+  try {
+    event = getStripe().webhooks.constructEvent(payload, signature, secret);
+  } catch (error: unknown) {
+    logError('Firma webhook Stripe non valida', error);
+    return NextResponse.json({ error: 'Firma webhook non valida' }, { status: 400 });
+  }
+
+  try {
+    const { duplicate, status } = await stripeWebhookInboxService.receive(event);
+
+    if (!duplicate && status === 'PENDING') {
+      const processed = await stripeWebhookInboxService.processEvent(event.id);
+      return NextResponse.json({ received: true, status: processed ?? status });
+    }
+
+    return NextResponse.json({ received: true, duplicate, status });
+  } catch (error: unknown) {
+    // Evento non registrato: Stripe lo riconsegnerà
+    logError('Errore nella registrazione del webhook Stripe', error);
+    return NextResponse.json({ error: 'Errore nella registrazione evento' }, { status: 500 });
+  }
+}
@@ -7,7 +7,8 @@ export const dynamic = 'force-dynamic';
 
 /**
  * Autocomplete endpoint for exercise search
- * Optimized for real-time search with BM25 ranking and locale prioritization
+ * Optimized for real-time search with locale-aware ranking, synonyms and typo tolerance
+ * (results carry highlighted name/description in `highlight`)
  *
  * Query parameters:
  * - q: search term (required, min 2 characters)
@@ -48,7 +49,7 @@ export async function GET(_req: Request) {
     const equipmentIds = url.searchParams.get('equipmentIds')?.split(',').filter(Boolean);
     const equipments = url.searchParams.get('equipments')?.split(',').filter(Boolean);
 
-    // Perform search with BM25 ranking
+    // Perform search (full-text + fuzzy fallback)
     const results = await ExerciseService.search(query, {
       locale,
       page: 1,
@@ -61,8 +62,8 @@ export async function GET(_req: Request) {
     });
 
     return NextResponse.json({
-      data: results,
-      total: results.length,
+      data: results.data,
+      total: results.total,
       query,
       locale,
     });
@@ -10,4 +10,12 @@
 // Le routes complete saranno migrate quando aggiorniamo gli import
 
 export { GET as foodGET, POST as foodPOST } from './routes/food/route';
+export { GET as foodBarcodeGET } from './routes/food/barcode/[barcode]/route';
+export { GET as recipesGET, POST as recipesPOST } from './routes/recipes/route';
+export {
+  GET as recipeGET,
+  PUT as recipePUT,
+  DELETE as recipeDELETE,
+} from './routes/recipes/[id]/route';
+export { POST as recipesImportPOST } from './routes/recipes/import/route';
 // Altre routes da aggiungere quando migrate
@@ -0,0 +1,48 @@
+/**
+ * Food Barcode API Route
+ *
+ * GET /api/food/barcode/[barcode] - Lookup alimento per EAN-8, UPC-A, EAN-13 o GTIN-14
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { FoodService, normalizeBarcode } from '@onecoach/lib-food';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ barcode: string }> }
+) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { barcode } = await params;
+    const canonical = normalizeBarcode(barcode);
+
+    if (!canonical) {
+      return NextResponse.json({ error: 'Barcode non valido' }, { status: 400 });
+    }
+
+    const locale = new URL(_req.url).searchParams.get('locale') || undefined;
+    const foodItem = await FoodService.getFoodByBarcode(canonical, locale);
+
+    if (!foodItem) {
+      return NextResponse.json(
+        { error: 'Alimento non trovato', barcode: canonical },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ foodItem, barcode: canonical });
+  } catch (error: unknown) {
+    logError('Errore nella ricerca per barcode', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
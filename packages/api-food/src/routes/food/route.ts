@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin, requireAuth } from '@onecoach/lib-core';
-import { FoodService } from '@onecoach/lib-food';
+import { FoodService, foodPortionsSchema } from '@onecoach/lib-food';
 import { prisma } from '@onecoach/lib-core';
 import { Prisma } from '@onecoach/types';
 import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
@@ -34,6 +34,8 @@ export async function POST(_req: NextRequest) {
       brandId,
       brandName,
       categoryIds,
+      portions,
+      densityGPerMl,
     } = body;
 
     // Validazione base
@@ -52,6 +54,18 @@ export async function POST(_req: NextRequest) {
       return NextResponse.json({ error: 'macrosPer100g deve essere un oggetto' }, { status: 400 });
     }
 
+    const parsedPortions = foodPortionsSchema.optional().safeParse(portions);
+    if (!parsedPortions.success) {
+      return NextResponse.json({ error: 'Porzioni non valide' }, { status: 400 });
+    }
+
+    if (
+      densityGPerMl !== undefined &&
+      (typeof densityGPerMl !== 'number' || densityGPerMl <= 0 || densityGPerMl > 5)
+    ) {
+      return NextResponse.json({ error: 'densityGPerMl deve essere tra 0 e 5' }, { status: 400 });
+    }
+
     const newFood = await FoodService.createFood({
       name,
       description: description.trim(), // REQUIRED
@@ -64,6 +78,8 @@ export async function POST(_req: NextRequest) {
       brandId,
       brandName,
       categoryIds,
+      portions: parsedPortions.data,
+      densityGPerMl,
     });
 
     return NextResponse.json({ foodItem: newFood }, { status: 201 });
@@ -0,0 +1,86 @@
+/**
+ * Recipe API Route
+ *
+ * GET /api/recipes/[id] - Dettaglio ricetta con macro per porzione
+ * PUT /api/recipes/[id] - Aggiorna ricetta (solo proprietario)
+ * DELETE /api/recipes/[id] - Elimina ricetta (solo proprietario)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { RecipeService, recipeUpdateSchema } from '@onecoach/lib-food';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { id } = await params;
+    const recipe = await RecipeService.getAccessible(id, userOrError.id);
+
+    if (!recipe) {
+      return NextResponse.json({ error: 'Ricetta non trovata' }, { status: 404 });
+    }
+
+    return NextResponse.json({ recipe });
+  } catch (error: unknown) {
+    logError('Errore nel recupero della ricetta', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export async function PUT(_req: NextRequest, { params }: RouteContext) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { id } = await params;
+    const parsed = recipeUpdateSchema.safeParse(await _req.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Dati non validi', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await RecipeService.update(id, userOrError.id, parsed.data);
+    return NextResponse.json({ recipe });
+  } catch (error: unknown) {
+    logError("Errore nell'aggiornamento della ricetta", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const { id } = await params;
+    await RecipeService.delete(id, userOrError.id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logError("Errore nell'eliminazione della ricetta", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
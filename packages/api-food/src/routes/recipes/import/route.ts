@@ -0,0 +1,77 @@
+/**
+ * Recipe Import API Route
+ *
+ * POST /api/recipes/import - Importa ricetta da testo libero o URL
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import {
+  RecipeImportService,
+  createRecipeAIContext,
+  fetchRecipeImportFile,
+  recipeTextToImportFile,
+} from '@onecoach/lib-food/recipe-import.service';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+const importSchema = z
+  .object({
+    text: z.string().min(1).max(50000).optional(),
+    url: z.string().url().optional(),
+    locale: z.string().optional(),
+  })
+  .refine((data) => Boolean(data.text) !== Boolean(data.url), {
+    message: 'Specificare text oppure url',
+  });
+
+export async function POST(_req: NextRequest) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const parsed = importSchema.safeParse(await _req.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Dati non validi', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { text, url, locale } = parsed.data;
+    const file = url ? await fetchRecipeImportFile(url) : recipeTextToImportFile(text ?? '');
+
+    const importService = new RecipeImportService({
+      aiContext: createRecipeAIContext(url),
+      context: { userId: userOrError.id, requestId: randomUUID() },
+    });
+    const result = await importService.import([file], userOrError.id, { locale });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.errors?.join('\n') || 'Import fallito' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        recipe: result.recipe,
+        unmatchedIngredients: result.unmatchedIngredients,
+        warnings: result.warnings,
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    logError("Errore nell'import della ricetta", error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
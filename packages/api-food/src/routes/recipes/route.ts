@@ -0,0 +1,61 @@
+/**
+ * Recipes API Route
+ *
+ * GET /api/recipes - Ricerca ricette proprie e pubbliche
+ * POST /api/recipes - Crea ricetta da ingredienti del catalogo
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@onecoach/lib-core';
+import { RecipeService, recipeInputSchema } from '@onecoach/lib-food';
+import { logError, mapErrorToApiResponse } from '@onecoach/lib-shared';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_req: NextRequest) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const url = new URL(_req.url);
+    const search = url.searchParams.get('search')?.trim() || '';
+    const limitRaw = parseInt(url.searchParams.get('limit') || '20', 10);
+    const limit = Math.min(Math.max(limitRaw || 20, 1), 100);
+
+    const recipes = await RecipeService.search(search, { userId: userOrError.id, limit });
+    return NextResponse.json({ data: recipes });
+  } catch (error: unknown) {
+    logError('Errore nel recupero ricette', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
+
+export async function POST(_req: NextRequest) {
+  const userOrError = await requireAuth();
+
+  if (userOrError instanceof NextResponse) {
+    return userOrError;
+  }
+
+  try {
+    const parsed = recipeInputSchema.safeParse(await _req.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Dati non validi', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const recipe = await RecipeService.create(userOrError.id, parsed.data);
+    return NextResponse.json({ recipe }, { status: 201 });
+  } catch (error: unknown) {
+    logError('Errore nella creazione della ricetta', error);
+    const { response, status } = mapErrorToApiResponse(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -50,3 +50,10 @@ export {
   GET as oneagendaCalendarSyncGET,
   POST as oneagendaCalendarSyncPOST,
 } from './routes/oneagenda/calendar/sync/route';
+export {
+  GET as oneagendaCalendarFeedGET,
+  POST as oneagendaCalendarFeedPOST,
+  DELETE as oneagendaCalendarFeedDELETE,
+} from './routes/oneagenda/calendar/feed/route';
+export { GET as oneagendaCalendarFeedTokenGET } from './routes/oneagenda/calendar/feed/[token]/route';
+export { POST as oneagendaCalendarImportPOST } from './routes/oneagenda/calendar/import/route';
@@ -0,0 +1,39 @@
+/**
+ * Calendar Feed Subscription Route
+ *
+ * GET /api/oneagenda/calendar/feed/[token].ics - Public iCalendar feed.
+ * Authenticated by the token only: calendar apps cannot send session cookies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { icalendarService } from '@onecoach/lib-core';
+import { logger } from '@onecoach/lib-shared';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  void request;
+  const { token } = await context.params;
+
+  try {
+    const ics = await icalendarService.renderFeed(token.replace(/\.ics$/i, ''));
+
+    if (!ics) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="onecoach.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('Render calendar feed error', { error });
+    return NextResponse.json({ error: 'Failed to render calendar feed' }, { status: 500 });
+  }
+}
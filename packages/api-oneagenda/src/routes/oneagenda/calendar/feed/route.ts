@@ -0,0 +1,77 @@
+/**
+ * Calendar Feed API Route
+ *
+ * GET /api/oneagenda/calendar/feed - Get the personal .ics subscription URL
+ * POST /api/oneagenda/calendar/feed - Rotate the feed token (old URL stops working)
+ * DELETE /api/oneagenda/calendar/feed - Revoke the feed
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { icalendarService } from '@onecoach/lib-core';
+import { logger } from '@onecoach/lib-shared';
+
+function feedUrls(token: string) {
+  const url = `${process.env.NEXTAUTH_URL}/api/oneagenda/calendar/feed/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') };
+}
+
+/**
+ * GET /api/oneagenda/calendar/feed
+ * Get the personal .ics subscription URL
+ */
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const token = await icalendarService.getFeedToken(session.user.id);
+    return NextResponse.json(feedUrls(token));
+  } catch (error: unknown) {
+    logger.error('Get calendar feed error', { error, userId: session.user.id });
+    return NextResponse.json({ error: 'Failed to get calendar feed' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/oneagenda/calendar/feed
+ * Rotate the feed token
+ */
+export async function POST() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const token = await icalendarService.rotateFeedToken(session.user.id);
+    return NextResponse.json(feedUrls(token));
+  } catch (error: unknown) {
+    logger.error('Rotate calendar feed error', { error, userId: session.user.id });
+    return NextResponse.json({ error: 'Failed to rotate calendar feed' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/oneagenda/calendar/feed
+ * Revoke the feed
+ */
+export async function DELETE() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await icalendarService.revokeFeedToken(session.user.id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('Revoke calendar feed error', { error, userId: session.user.id });
+    return NextResponse.json({ error: 'Failed to revoke calendar feed' }, { status: 500 });
+  }
+}
@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth';
+import {
+  CALENDAR_OAUTH_STATE_COOKIE_OPTIONS,
+  createCalendarOAuthState,
+  getCalendarOAuthStateCookieName,
+} from '@onecoach/lib-core';
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || '';
 const GOOGLE_REDIRECT_URI = process.env.NEXTAUTH_URL + '/api/oneagenda/calendar/google/callback';
@@ -18,7 +23,15 @@ export async function GET() {
   authUrl.searchParams.append('scope', 'https://www.googleapis.com/auth/calendar');
   authUrl.searchParams.append('access_type', 'offline');
   authUrl.searchParams.append('prompt', 'consent');
-  authUrl.searchParams.append('state', session.user.id);
+  // Nonce monouso: la callback lo confronta con il cookie
+  const state = createCalendarOAuthState();
+  authUrl.searchParams.append('state', state);
 
-  return NextResponse.redirect(authUrl.toString());
+  const response = NextResponse.redirect(authUrl.toString());
+  response.cookies.set(
+    getCalendarOAuthStateCookieName('GOOGLE'),
+    state,
+    CALENDAR_OAUTH_STATE_COOKIE_OPTIONS
+  );
+  return response;
 }
@@ -0,0 +1,56 @@
+/**
+ * Calendar Import API Route
+ *
+ * POST /api/oneagenda/calendar/import - Import an .ics file as calendar assignments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import { icalendarService } from '@onecoach/lib-core';
+import { logger } from '@onecoach/lib-shared';
+
+const PLAN_TYPES = ['WORKOUT', 'NUTRITION'] as const;
+
+/**
+ * POST /api/oneagenda/calendar/import
+ * Body: { content: string; planType?: 'WORKOUT' | 'NUTRITION'; planId?: string }
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as { content?: string; planType?: string; planId?: string };
+
+    if (!body.content) {
+      return NextResponse.json({ error: 'iCalendar content is required' }, { status: 400 });
+    }
+
+    const planType = PLAN_TYPES.find((type) => type === body.planType);
+    if (body.planType && !planType) {
+      return NextResponse.json({ error: 'Invalid plan type' }, { status: 400 });
+    }
+
+    const result = await icalendarService.importICalendar(session.user.id, body.content, {
+      planType,
+      planId: body.planId,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Import failed';
+    const isClientError =
+      message.startsWith('Invalid iCalendar') ||
+      message.startsWith('planType and planId') ||
+      message.startsWith('Plan not found');
+
+    if (!isClientError) {
+      logger.error('Calendar import error', { error, userId: session.user.id });
+    }
+
+    return NextResponse.json({ error: message }, { status: isClientError ? 400 : 500 });
+  }
+}
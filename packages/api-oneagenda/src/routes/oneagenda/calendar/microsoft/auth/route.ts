@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth';
+import {
+  CALENDAR_OAUTH_STATE_COOKIE_OPTIONS,
+  createCalendarOAuthState,
+  getCalendarOAuthStateCookieName,
+} from '@onecoach/lib-core';
 
 const MICROSOFT_CLIENT_ID = process.env.MICROSOFT_CLIENT_ID || '';
 const MICROSOFT_REDIRECT_URI =
@@ -18,7 +23,15 @@ export async function GET() {
   authUrl.searchParams.append('response_type', 'code');
   authUrl.searchParams.append('scope', 'Calendars.ReadWrite offline_access');
   authUrl.searchParams.append('response_mode', 'query');
-  authUrl.searchParams.append('state', session.user.id);
+  // Nonce monouso: la callback lo confronta con il cookie
+  const state = createCalendarOAuthState();
+  authUrl.searchParams.append('state', state);
 
-  return NextResponse.redirect(authUrl.toString());
+  const response = NextResponse.redirect(authUrl.toString());
+  response.cookies.set(
+    getCalendarOAuthStateCookieName('MICROSOFT'),
+    state,
+    CALENDAR_OAUTH_STATE_COOKIE_OPTIONS
+  );
+  return response;
 }
@@ -1,51 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@onecoach/lib-core/auth';
+import {
+  CALENDAR_OAUTH_STATE_COOKIE_OPTIONS,
+  calendarSyncService,
+  exchangeCalendarAuthCode,
+  getCalendarOAuthStateCookieName,
+  verifyCalendarOAuthState,
+} from '@onecoach/lib-core';
 import { logger } from '@onecoach/lib-shared';
 
-const MICROSOFT_CLIENT_ID = process.env.MICROSOFT_CLIENT_ID || '';
-const MICROSOFT_CLIENT_SECRET = process.env.MICROSOFT_CLIENT_SECRET || '';
-const MICROSOFT_REDIRECT_URI =
-  process.env.NEXTAUTH_URL + '/api/oneagenda/calendar/microsoft/callback';
+const STATE_COOKIE = getCalendarOAuthStateCookieName('MICROSOFT');
+
+/**
+ * Redirect che consuma sempre il nonce: lo state è monouso anche se il flusso fallisce
+ */
+function redirect(url: string) {
+  const response = NextResponse.redirect(url);
+  response.cookies.delete({ name: STATE_COOKIE, path: CALENDAR_OAUTH_STATE_COOKIE_OPTIONS.path });
+  return response;
+}
 
 export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl;
   const code = searchParams.get('code');
-  const userId = searchParams.get('state');
+  const state = searchParams.get('state');
 
-  if (!code || !userId) {
-    return NextResponse.redirect('/oneagenda?error=invalid_request');
+  if (!code || !verifyCalendarOAuthState(request.cookies.get(STATE_COOKIE)?.value, state)) {
+    return redirect('/oneagenda?error=invalid_request');
   }
 
-  try {
-    // Exchange code for tokens
-    const tokenResponse = await fetch(
-      'https://login.microsoftonline.com/common/oauth2/v2.0/token',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          code,
-          client_id: MICROSOFT_CLIENT_ID,
-          client_secret: MICROSOFT_CLIENT_SECRET,
-          redirect_uri: MICROSOFT_REDIRECT_URI,
-          grant_type: 'authorization_code',
-        }),
-      }
-    );
-
-    if (!tokenResponse.ok) {
-      throw new Error('Failed to exchange code for tokens');
-    }
-
-    await tokenResponse.json();
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return redirect('/oneagenda?error=invalid_request');
+  }
 
-    // Store tokens in database (placeholder - requires CalendarProvider model)
-    // await prisma.calendarProvider.upsert(...tokens)
+  try {
+    const tokens = await exchangeCalendarAuthCode('MICROSOFT', code);
+    await calendarSyncService.connect(userId, 'MICROSOFT', tokens);
 
-    return NextResponse.redirect('/oneagenda?success=microsoft_connected');
+    return redirect('/oneagenda?success=microsoft_connected');
   } catch (error: unknown) {
     logger.error('Microsoft Calendar auth error', { error, userId });
-    return NextResponse.redirect('/oneagenda?error=auth_failed');
+    return redirect('/oneagenda?error=auth_failed');
   }
 }
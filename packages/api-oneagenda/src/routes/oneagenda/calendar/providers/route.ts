@@ -8,10 +8,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth';
-import { CalendarSyncService } from '@onecoach/oneagenda-core';
+import { calendarSyncService, type CalendarSyncProvider } from '@onecoach/lib-core';
 import { logger } from '@onecoach/lib-shared';
 
-const syncService = new CalendarSyncService();
+const PROVIDERS: Record<string, CalendarSyncProvider> = {
+  google: 'GOOGLE',
+  microsoft: 'MICROSOFT',
+  ical: 'ICAL',
+};
 
 /**
  * GET /api/oneagenda/calendar/providers
@@ -25,21 +29,15 @@ export async function GET() {
   }
 
   try {
-    type UserProvider = {
-      provider: string;
-      syncEnabled: boolean;
-      lastSyncAt?: string | Date | null;
-      accessToken?: string | null;
-    };
-
-    const providers = syncService.getUserProviders(session.user.id) as UserProvider[];
+    const connections = await calendarSyncService.listConnections(session.user.id);
 
     return NextResponse.json({
-      providers: providers.map((p: unknown) => ({
-        provider: (p as UserProvider).provider,
-        syncEnabled: (p as UserProvider).syncEnabled,
-        lastSyncAt: (p as UserProvider).lastSyncAt,
-        hasToken: !!(p as UserProvider).accessToken,
+      providers: connections.map((c) => ({
+        provider: c.provider.toLowerCase(),
+        syncEnabled: c.syncEnabled,
+        lastSyncAt: c.lastSyncAt,
+        hasToken: !!c.accessToken,
+        ...(c.calendarUrl && { calendarUrl: c.calendarUrl }),
       })),
     });
   } catch (error: unknown) {
@@ -60,22 +58,20 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const body = await request.json();
+    const body = (await request.json()) as { calendarUrl?: string };
     const { calendarUrl } = body;
 
     if (!calendarUrl) {
       return NextResponse.json({ error: 'Calendar URL is required' }, { status: 400 });
     }
 
-    syncService.registerProvider({
-      provider: 'ical',
-      userId: session.user.id,
-      calendarUrl,
-      syncEnabled: true,
-    });
+    await calendarSyncService.connectICalendar(session.user.id, calendarUrl);
 
     return NextResponse.json({ success: true, provider: 'ical' });
   } catch (error: unknown) {
+    if (error instanceof Error && /calendar URL/i.test(error.message)) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     logger.error('Add provider error', { error, userId: session.user.id });
     return NextResponse.json({ error: 'Failed to add provider' }, { status: 500 });
   }
@@ -96,12 +92,12 @@ export async function DELETE(request: NextRequest) {
   const provider = searchParams.get('provider');
 
   try {
-
-    if (!provider || !['google', 'microsoft', 'ical'].includes(provider)) {
+    const syncProvider = provider ? PROVIDERS[provider] : undefined;
+    if (!syncProvider) {
       return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
     }
 
-    syncService.removeProvider(session.user.id, provider as 'google' | 'microsoft' | 'ical');
+    await calendarSyncService.disconnect(session.user.id, syncProvider);
 
     return NextResponse.json({ success: true });
   } catch (error: unknown) {
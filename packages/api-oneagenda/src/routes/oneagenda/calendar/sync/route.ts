@@ -2,15 +2,19 @@
  * Calendar Sync API Route
  *
  * POST /api/oneagenda/calendar/sync - Trigger manual sync with external calendars
- * GET /api/oneagenda/calendar/sync - Get last sync status
+ * GET /api/oneagenda/calendar/sync - Get last sync status and per-item errors
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@onecoach/lib-core/auth';
-import { CalendarSyncService, type CalendarProvider } from '@onecoach/oneagenda-core';
+import { calendarSyncService, type CalendarSyncProvider } from '@onecoach/lib-core';
 import { logger } from '@onecoach/lib-shared';
 
-const syncService = new CalendarSyncService();
+const PROVIDERS: Record<string, CalendarSyncProvider> = {
+  google: 'GOOGLE',
+  microsoft: 'MICROSOFT',
+  ical: 'ICAL',
+};
 
 /**
  * POST /api/oneagenda/calendar/sync
@@ -23,34 +27,30 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  let provider: CalendarProvider | undefined;
+  let provider: CalendarSyncProvider | undefined;
 
   try {
     const body = (await request.json()) as { provider?: string; startDate?: string; endDate?: string };
 
-    const rawProvider = body.provider;
-    if (rawProvider !== 'google' && rawProvider !== 'microsoft' && rawProvider !== 'ical') {
+    provider = body.provider ? PROVIDERS[body.provider] : undefined;
+    if (!provider) {
       return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
     }
 
-    provider = rawProvider;
-    const { startDate, endDate } = body as { startDate?: string; endDate?: string };
+    const start = body.startDate ? new Date(body.startDate) : undefined;
+    const end = body.endDate ? new Date(body.endDate) : undefined;
 
-    // provider is validated above
+    if ((start && Number.isNaN(start.getTime())) || (end && Number.isNaN(end.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
 
-    const start = startDate ? new Date(startDate) : new Date();
-    const end = endDate ? new Date(endDate) : new Date(start.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
+    const result = await calendarSyncService.sync(session.user.id, provider, { start, end });
 
-    // Perform sync
-    const result = await syncService.bidirectionalSync(
-      session.user.id,
-      provider,
-      [], // Would fetch from DB in real implementation
-      start,
-      end
-    );
+    if (result.status === 'FAILED') {
+      logger.warn('Calendar sync failed', { userId: session.user.id, provider, error: result.error });
+    }
 
-    return NextResponse.json(result);
+    return NextResponse.json(result, { status: result.status === 'FAILED' ? 502 : 200 });
   } catch (error: unknown) {
     logger.error('Calendar sync error', { error, userId: session.user.id, provider });
     return NextResponse.json(
@@ -72,19 +72,12 @@ export async function GET() {
   }
 
   try {
-    type UserProvider = {
-      provider: string;
-      syncEnabled: boolean;
-      lastSyncAt?: string | Date | null;
-    };
-
-    const providers = syncService.getUserProviders(session.user.id) as UserProvider[];
+    const providers = await calendarSyncService.getSyncStatus(session.user.id);
 
     return NextResponse.json({
       providers: providers.map((p) => ({
-        provider: p.provider,
-        syncEnabled: p.syncEnabled,
-        lastSyncAt: p.lastSyncAt,
+        ...p,
+        provider: p.provider.toLowerCase(),
       })),
     });
   } catch (error: unknown) {
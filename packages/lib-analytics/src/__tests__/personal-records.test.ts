@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleMemoryEvent, timelineService } from '@onecoach/lib-core';
+import { evaluateSessionPersonalRecords } from '../personal-records.service';
+
+const { prismaMock } = vi.hoisted(() => {
+  const prismaMock = {
+    workout_sessions: { findFirst: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    personal_records: { findMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prismaMock.$transaction.mockImplementation((callback) => callback(prismaMock));
+  return { prismaMock };
+});
+
+vi.mock('@onecoach/lib-core', () => ({
+  prisma: prismaMock,
+  logger: { warn: vi.fn() },
+  handleMemoryEvent: vi.fn(),
+  timelineService: { trackPersonalRecords: vi.fn() },
+}));
+vi.mock('@onecoach/one-workout', () => ({
+  getExerciseSets: (exercise: { sets?: unknown[] }) => exercise.sets ?? [],
+}));
+vi.mock('@onecoach/lib-shared/id-generator', () => ({ createId: () => 'pr-id' }));
+vi.mock('@onecoach/lib-shared/prisma-type-guards', () => ({
+  toExerciseArrayTyped: (value: unknown) => (Array.isArray(value) ? value : []),
+}));
+
+function benchSession(id: string, startedAt: string, weight: number) {
+  return {
+    id,
+    startedAt: new Date(startedAt),
+    completedAt: new Date(new Date(startedAt).getTime() + 60 * 60 * 1000),
+    exercises: [
+      {
+        exerciseId: 'bench',
+        name: 'Panca piana',
+        sets: [
+          { done: true, weightDone: weight, repsDone: 5 },
+          // I set non completati non contano
+          { done: false, weight: weight + 20, reps: 5 },
+        ],
+      },
+    ],
+  };
+}
+
+const current = benchSession('session-3', '2026-01-15T10:00:00Z', 100);
+
+describe('evaluateSessionPersonalRecords', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.workout_sessions.findFirst.mockResolvedValue(current);
+    prismaMock.workout_sessions.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.workout_sessions.findMany.mockResolvedValue([]);
+    prismaMock.personal_records.findMany.mockResolvedValue([]);
+  });
+
+  it("ricostruisce lo storico dell'esercizio prima di valutare la sessione", async () => {
+    prismaMock.workout_sessions.findMany.mockResolvedValue([
+      benchSession('session-1', '2026-01-01T10:00:00Z', 90),
+      benchSession('session-2', '2026-01-08T10:00:00Z', 95),
+    ]);
+
+    const result = await evaluateSessionPersonalRecords('user-1', 'session-3');
+
+    expect(prismaMock.workout_sessions.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          completedAt: { not: null },
+          startedAt: { lt: current.startedAt },
+        },
+      })
+    );
+    const [backfill, evaluated] = prismaMock.personal_records.createMany.mock.calls.map(
+      ([args]) => args.data
+    );
+    // Baseline della prima sessione, record battuti nella seconda
+    expect(backfill.filter((row: any) => row.sessionId === 'session-1')).toHaveLength(6);
+    expect(
+      backfill
+        .filter((row: any) => row.sessionId === 'session-2')
+        .every((row: any) => row.previousValue !== null)
+    ).toBe(true);
+    expect(evaluated.every((row: any) => row.sessionId === 'session-3')).toBe(true);
+
+    expect(result?.newlyEvaluated).toBe(true);
+    expect(result?.records).toHaveLength(6);
+    expect(
+      result?.records.find((record) => record.recordType === 'REP_MAX' && record.reps === 5)
+    ).toMatchObject({ value: 100, previousValue: 95, achievedAt: current.completedAt });
+    expect(handleMemoryEvent).toHaveBeenCalledTimes(1);
+    expect(timelineService.trackPersonalRecords).toHaveBeenCalledTimes(1);
+  });
+
+  it('legge lo storico a pagine fuori dalla transazione', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) =>
+      benchSession(`old-${i}`, new Date(Date.UTC(2025, 0, 1 + i, 10)).toISOString(), 60 + i / 10)
+    );
+    prismaMock.workout_sessions.findMany
+      .mockResolvedValueOnce(firstPage)
+      .mockResolvedValueOnce([benchSession('session-2', '2026-01-08T10:00:00Z', 95)]);
+    prismaMock.$transaction.mockImplementationOnce((callback) => {
+      expect(prismaMock.workout_sessions.findMany).toHaveBeenCalledTimes(2);
+      return callback(prismaMock);
+    });
+
+    const result = await evaluateSessionPersonalRecords('user-1', 'session-3');
+
+    expect(prismaMock.workout_sessions.findMany.mock.calls.map(([args]) => args)).toEqual([
+      expect.objectContaining({ take: 100 }),
+      expect.objectContaining({ take: 100, cursor: { id: 'old-99' }, skip: 1 }),
+    ]);
+    expect(
+      result?.records.find((record) => record.recordType === 'REP_MAX' && record.reps === 5)
+    ).toMatchObject({ value: 100, previousValue: 95 });
+  });
+
+  it('restituisce null per sessioni inesistenti o di un altro utente', async () => {
+    prismaMock.workout_sessions.findFirst.mockResolvedValue(null);
+
+    await expect(evaluateSessionPersonalRecords('user-1', 'session-3')).resolves.toBeNull();
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('salva solo le baseline alla prima sessione, senza notifiche', async () => {
+    const result = await evaluateSessionPersonalRecords('user-1', 'session-3');
+
+    expect(prismaMock.personal_records.createMany).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ records: [], newlyEvaluated: true });
+    expect(handleMemoryEvent).not.toHaveBeenCalled();
+  });
+
+  it('non ricostruisce lo storico per gli esercizi che hanno già record', async () => {
+    prismaMock.personal_records.findMany.mockImplementation(async ({ where }) =>
+      where.sessionId ? [] : [{ exerciseId: 'bench', recordType: 'REP_MAX', reps: 5, value: 97.5 }]
+    );
+
+    const result = await evaluateSessionPersonalRecords('user-1', 'session-3');
+
+    expect(prismaMock.workout_sessions.findMany).not.toHaveBeenCalled();
+    expect(result?.records).toEqual([
+      expect.objectContaining({ recordType: 'REP_MAX', reps: 5, previousValue: 97.5 }),
+    ]);
+  });
+
+  it('restituisce i record salvati senza duplicarli né notificarli se già valutata', async () => {
+    prismaMock.workout_sessions.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.personal_records.findMany.mockResolvedValue([
+      {
+        id: 'pr-1',
+        exerciseId: 'bench',
+        exerciseName: 'Panca piana',
+        recordType: 'REP_MAX',
+        reps: 5,
+        value: 100,
+        weight: 100,
+        setReps: 5,
+        previousValue: 95,
+        sessionId: 'session-3',
+        achievedAt: current.completedAt,
+      },
+    ]);
+
+    const result = await evaluateSessionPersonalRecords('user-1', 'session-3');
+
+    expect(prismaMock.personal_records.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', sessionId: 'session-3', previousValue: { not: null } },
+      orderBy: { achievedAt: 'asc' },
+    });
+    expect(prismaMock.personal_records.createMany).not.toHaveBeenCalled();
+    expect(handleMemoryEvent).not.toHaveBeenCalled();
+    expect(result?.newlyEvaluated).toBe(false);
+    expect(result?.records).toEqual([expect.objectContaining({ id: 'pr-1', previousValue: 95 })]);
+  });
+
+  it('non notifica i record di una sessione già coperta dalla ricostruzione', async () => {
+    prismaMock.personal_records.findMany.mockResolvedValue([
+      {
+        id: 'pr-1',
+        exerciseId: 'bench',
+        exerciseName: 'Panca piana',
+        recordType: 'SET_VOLUME',
+        reps: null,
+        value: 500,
+        weight: 100,
+        setReps: 5,
+        previousValue: 475,
+        sessionId: 'session-3',
+        achievedAt: current.completedAt,
+      },
+    ]);
+
+    const result = await evaluateSessionPersonalRecords('user-1', 'session-3');
+
+    expect(prismaMock.personal_records.createMany).not.toHaveBeenCalled();
+    expect(handleMemoryEvent).not.toHaveBeenCalled();
+    expect(result?.newlyEvaluated).toBe(true);
+    expect(result?.records).toHaveLength(1);
+  });
+
+  it('rifiuta le sessioni non completate', async () => {
+    prismaMock.workout_sessions.findFirst.mockResolvedValue({ ...current, completedAt: null });
+
+    await expect(evaluateSessionPersonalRecords('user-1', 'session-3')).rejects.toThrow(
+      'La sessione non è ancora completata'
+    );
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { scoreAcuteChronicRatio, scoreAgainstBaseline, scoreSleep } from '../readiness.service';
+
+vi.mock('@onecoach/lib-core', () => ({ prisma: {} }));
+vi.mock('../analytics.service', () => ({ calculateSessionVolume: vi.fn() }));
+
+const REFERENCE = new Date('2026-03-01T08:00:00Z');
+
+/** Un campione al giorno dal 22 al 28 febbraio, più quello delle ultime 24 ore */
+function dailySamples(baseline: number[], recent: number) {
+  return [
+    ...baseline.map((value, i) => ({
+      value,
+      startDate: new Date(Date.UTC(2026, 1, 22 + i, 6)),
+    })),
+    { value: recent, startDate: new Date('2026-03-01T06:00:00Z') },
+  ];
+}
+
+function sleepStage(stage: string | null, start: string, minutes: number) {
+  const startDate = new Date(start);
+  return { stage, startDate, endDate: new Date(startDate.getTime() + minutes * 60000) };
+}
+
+describe('scoreAgainstBaseline', () => {
+  const hrvBaseline = [50, 52, 48, 50, 50, 52, 48];
+
+  it('assegna 75 a un valore pari alla baseline', () => {
+    const result = scoreAgainstBaseline(dailySamples(hrvBaseline, 50), REFERENCE, true);
+
+    expect(result).toEqual({ score: 75, value: 50, baseline: 50 });
+  });
+
+  it('usa una deviazione minima del 5% della baseline', () => {
+    // Deviazione reale ~1.5 < 2.5 (5% di 50): -2.5 corrisponde a z = -1
+    const result = scoreAgainstBaseline(dailySamples(hrvBaseline, 47.5), REFERENCE, true);
+
+    expect(result.score).toBe(50);
+  });
+
+  it('inverte il segno quando un valore più basso è migliore e limita a 0-100', () => {
+    const resting = dailySamples([60, 60, 60, 60, 60, 60, 60], 63);
+
+    expect(scoreAgainstBaseline(resting, REFERENCE, false).score).toBe(50);
+    expect(scoreAgainstBaseline(dailySamples(hrvBaseline, 70), REFERENCE, true).score).toBe(100);
+  });
+
+  it('non assegna un punteggio con meno di 5 giorni di baseline', () => {
+    const result = scoreAgainstBaseline(dailySamples([50, 52, 48, 50], 50), REFERENCE, true);
+
+    expect(result).toEqual({ score: null, value: 50, baseline: 50 });
+  });
+
+  it('non assegna un punteggio senza campioni nelle ultime 24 ore', () => {
+    const samples = dailySamples(hrvBaseline, 50).slice(0, -1);
+
+    expect(scoreAgainstBaseline(samples, REFERENCE, true)).toEqual({
+      score: null,
+      value: null,
+      baseline: 50,
+    });
+  });
+});
+
+describe('scoreSleep', () => {
+  it('somma le fasi di sonno rispetto al target di 8 ore', () => {
+    const result = scoreSleep([
+      sleepStage('IN_BED', '2026-02-28T22:00:00Z', 480),
+      sleepStage('DEEP', '2026-02-28T23:00:00Z', 60),
+      sleepStage('REM', '2026-03-01T00:00:00Z', 300),
+      sleepStage('AWAKE', '2026-03-01T05:00:00Z', 30),
+    ]);
+
+    expect(result).toEqual({ score: 75, minutesAsleep: 360 });
+  });
+
+  it('usa il tempo a letto quando mancano le fasi', () => {
+    const result = scoreSleep([sleepStage('IN_BED', '2026-02-28T23:00:00Z', 420)]);
+
+    expect(result).toEqual({ score: 88, minutesAsleep: 420 });
+  });
+
+  it('limita il punteggio a 100 e ignora le notti senza sonno registrato', () => {
+    expect(scoreSleep([sleepStage('ASLEEP', '2026-02-28T21:00:00Z', 600)]).score).toBe(100);
+    expect(scoreSleep([sleepStage('AWAKE', '2026-03-01T02:00:00Z', 60)])).toEqual({
+      score: null,
+      minutesAsleep: null,
+    });
+  });
+});
+
+describe('scoreAcuteChronicRatio', () => {
+  it('premia la fascia sostenibile 0.8-1.3', () => {
+    expect(scoreAcuteChronicRatio(0.8)).toBe(100);
+    expect(scoreAcuteChronicRatio(1.3)).toBe(100);
+  });
+
+  it('penalizza poco il carico ridotto e molto i picchi di carico', () => {
+    expect(scoreAcuteChronicRatio(0.5)).toBe(90);
+    expect(scoreAcuteChronicRatio(1.5)).toBe(70);
+    expect(scoreAcuteChronicRatio(2.2)).toBe(0);
+  });
+
+  it('restituisce null senza carico cronico', () => {
+    expect(scoreAcuteChronicRatio(null)).toBeNull();
+  });
+});
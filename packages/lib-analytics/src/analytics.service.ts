@@ -23,6 +23,8 @@ import {
 } from '@onecoach/lib-shared/prisma-type-guards';
 import type { body_measurements, user_goals } from '@prisma/client';
 import { Prisma } from '@prisma/client';
+import type { OneRepMaxFormula } from '@onecoach/lib-exercise/strength-estimation';
+import { summarizeEstimatedStrength } from './estimated-strength';
 
 const MAX_RANGE_DAYS = 365;
 const MAX_RANGE_MS = MAX_RANGE_DAYS * 24 * 60 * 60 * 1000;
@@ -161,6 +163,21 @@ export async function getBodyMetricsChange(userId: string, startDate: Date, endD
 // WORKOUT ANALYTICS
 // ============================================
 
+/**
+ * Volume totale (kg) degli esercizi di una sessione
+ */
+export function calculateSessionVolume(exercisesJson: Prisma.JsonValue): number {
+  const exercises = toExerciseArrayTyped(exercisesJson);
+  // SSOT: usa getExerciseSets() invece di exercise.sets
+  return exercises.reduce((sum: number, exercise) => {
+    const sets = getExerciseSets(exercise);
+    const exerciseVolume = sets.reduce((setSum: number, set) => {
+      return setSum + calculateSetVolume({ ...set, weight: set.weight ?? 0 } as any);
+    }, 0);
+    return sum + exerciseVolume;
+  }, 0);
+}
+
 export async function getWorkoutVolumeTimeSeries(
   userId: string,
   startDate: Date,
@@ -179,29 +196,21 @@ export async function getWorkoutVolumeTimeSeries(
     orderBy: { startedAt: 'asc' },
   });
 
-  return sessions.map((session: any) => {
-    const exercises = toExerciseArrayTyped(session.exercises);
-    // SSOT: usa getExerciseSets() invece di exercise.sets
-    const totalVolume = exercises.reduce((sum: number, exercise) => {
-      const sets = getExerciseSets(exercise);
-      const exerciseVolume = sets.reduce((setSum: number, set) => {
-        return setSum + calculateSetVolume({ ...set, weight: set.weight ?? 0 } as any);
-      }, 0);
-      return sum + exerciseVolume;
-    }, 0);
-
-    return {
-      date: session.startedAt,
-      value: totalVolume,
-    };
-  });
+  return sessions.map((session: any) => ({
+    date: session.startedAt,
+    value: calculateSessionVolume(session.exercises),
+  }));
 }
 
+/**
+ * Andamento della forza su e1RM (miglior set stimato per giorno)
+ */
 export async function getStrengthProgress(
   userId: string,
   exerciseId: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  formula: OneRepMaxFormula = 'AUTO'
 ) {
   const { start: startRange, end: endRange } = clampDateRange(startDate, endDate);
   const records = await prisma.exercise_performance_records.findMany({
@@ -216,32 +225,33 @@ export async function getStrengthProgress(
     orderBy: { date: 'asc' },
   });
 
-  if (records.length === 0) return null;
-
-  const firstRecord = records[0];
-  const lastRecord = records[records.length - 1];
+  const [summary] = summarizeEstimatedStrength(records, { formula });
+  const firstPoint = summary?.points[0];
+  const lastPoint = summary?.points[summary.points.length - 1];
 
-  if (!firstRecord || !lastRecord) {
+  if (!summary || !firstPoint || !lastPoint) {
     return null;
   }
 
-  const startMax = Number(firstRecord!.weight);
-  const endMax = Number(lastRecord!.weight);
-  const percentChange = ((endMax - startMax) / startMax) * 100;
-
   return {
     exerciseId,
-    startDate: firstRecord.date,
-    endDate: lastRecord.date,
-    startWeight: startMax,
-    endWeight: endMax,
-    percentChange,
-    records: records.map((r: any) => ({
+    formula,
+    startDate: firstPoint.date,
+    endDate: lastPoint.date,
+    startOneRepMax: summary.startOneRepMax,
+    endOneRepMax: summary.endOneRepMax,
+    peakOneRepMax: summary.peakOneRepMax,
+    percentChange: summary.percentChange,
+    records: records.map((r) => ({
       date: r.date,
       weight: Number(r.weight),
       reps: r.reps,
       volume: Number(r.volume),
     })),
+    estimatedOneRepMax: summary.points.map((p) => ({
+      date: p.date,
+      value: p.estimatedOneRepMax,
+    })),
   };
 }
 
@@ -259,18 +269,10 @@ export async function calculateWorkoutMetrics(userId: string, startDate: Date, e
 
   const completedSessions = sessions.filter((s: any) => s.completedAt !== null);
 
-  const totalVolume = completedSessions.reduce((sum: number, session) => {
-    const exercises = toExerciseArrayTyped(session.exercises);
-    // SSOT: usa getExerciseSets() invece di exercise.sets
-    const sessionVolume = exercises.reduce((exSum: number, exercise) => {
-      const sets = getExerciseSets(exercise);
-      const exerciseVolume = sets.reduce((setSum: number, set) => {
-        return setSum + calculateSetVolume({ ...set, weight: set.weight ?? 0 } as any);
-      }, 0);
-      return exSum + exerciseVolume;
-    }, 0);
-    return sum + sessionVolume;
-  }, 0);
+  const totalVolume = completedSessions.reduce(
+    (sum: number, session) => sum + calculateSessionVolume(session.exercises),
+    0
+  );
 
   return {
     totalSessions: sessions.length,
@@ -437,45 +439,16 @@ export async function generateAnalyticsReport(
     orderBy: { date: 'asc' },
   });
 
-  // Group by exercise and calculate gains
-  type PerformanceRecord = (typeof performanceRecords)[number];
-  const exerciseMap = new Map<string, PerformanceRecord[]>();
-  performanceRecords.forEach((record: any) => {
-    if (!exerciseMap.has(record.exerciseId)) {
-      exerciseMap.set(record.exerciseId, []);
-    }
-    exerciseMap.get(record.exerciseId)!.push(record);
-  });
-
-  const strengthGains = Array.from(exerciseMap.entries())
-    .map(([exerciseId, records]) => {
-      if (records.length < 2) return null;
-
-      const firstRecord = records[0]!;
-      const lastRecord = records[records.length - 1]!;
-      const percentChange =
-        ((Number(lastRecord.weight) - Number(firstRecord.weight)) / Number(firstRecord.weight)) *
-        100;
-
-      return {
-        exerciseId,
-        exerciseName: exerciseId, // Will be resolved below
-        percentChange,
-        previousMax: Number(firstRecord.weight),
-        currentMax: Number(lastRecord.weight),
-      };
+  // Gains su e1RM: servono almeno due giorni con set stimabili
+  const strengthGains = summarizeEstimatedStrength(performanceRecords, { minPoints: 2 }).map(
+    (summary) => ({
+      exerciseId: summary.exerciseId,
+      exerciseName: summary.exerciseId, // Will be resolved below
+      percentChange: summary.percentChange,
+      previousMax: summary.startOneRepMax,
+      currentMax: summary.endOneRepMax,
     })
-    .filter(
-      (
-        g
-      ): g is {
-        exerciseId: string;
-        exerciseName: string;
-        percentChange: number;
-        previousMax: number;
-        currentMax: number;
-      } => g !== null
-    );
+  );
 
   // Lookup nome esercizio dalle traduzioni (locale it), fallback exerciseId
   if (strengthGains.length > 0) {
@@ -845,6 +818,7 @@ export const analyticsService = {
   getBodyMetricsTimeSeries,
   getBodyMetricsChange,
   getWorkoutVolumeTimeSeries,
+  calculateSessionVolume,
   getStrengthProgress,
   calculateWorkoutMetrics,
   calculateNutritionAdherence,
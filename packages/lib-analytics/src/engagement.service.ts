@@ -0,0 +1,300 @@
+/**
+ * Engagement Service
+ *
+ * Metriche di utilizzo calcolate sul log append-only user_activity_events:
+ * - DAU/WAU/MAU su finestre mobili (1/7/30 giorni) e stickiness (DAU medio / MAU)
+ * - retention per coorte settimanale di registrazione (settimana 0 = settimana di signup)
+ * - adozione delle funzionalità e funnel cumulativo sugli utenti attivi
+ *
+ * Lo scope è l'intera piattaforma (admin) o un elenco di utenti (es. atleti di un coach).
+ * Le aggregazioni avvengono in SQL per non caricare gli eventi in memoria.
+ */
+
+import { prisma, ACTIVITY_EVENT_TYPES, type ActivityEventType } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const STICKINESS_WINDOW_DAYS = 30;
+
+/** Ordine di default del funnel: dalle azioni più leggere all'acquisto */
+export const DEFAULT_ADOPTION_FUNNEL: ActivityEventType[] = [
+  'CHAT_TURN',
+  'WORKOUT_SESSION_LOGGED',
+  'MEAL_LOGGED',
+  'HABIT_TOGGLED',
+  'PLAN_PURCHASED',
+];
+
+export interface EngagementScope {
+  /** Utenti inclusi; undefined = tutta la piattaforma */
+  userIds?: string[];
+}
+
+export interface DailyActiveUsersPoint {
+  /** YYYY-MM-DD */
+  date: string;
+  activeUsers: number;
+}
+
+export interface ActiveUsersMetrics {
+  dau: number;
+  wau: number;
+  mau: number;
+  /** DAU medio degli ultimi 30 giorni / MAU, in % */
+  stickiness: number;
+  daily: DailyActiveUsersPoint[];
+}
+
+export interface CohortRetention {
+  /** Lunedì della settimana di registrazione (YYYY-MM-DD) */
+  cohortWeek: string;
+  size: number;
+  /** % di utenti attivi nella settimana N dalla registrazione (indice = N) */
+  retention: number[];
+}
+
+export interface FeatureAdoption {
+  eventType: ActivityEventType;
+  users: number;
+  /** % sugli utenti attivi nel periodo */
+  adoptionRate: number;
+}
+
+export interface FunnelStep extends FeatureAdoption {
+  /** % rispetto allo step precedente (100 per il primo) */
+  conversionRate: number;
+}
+
+export interface EngagementReport {
+  reference: Date;
+  days: number;
+  activeUsers: ActiveUsersMetrics;
+  cohorts: CohortRetention[];
+  features: FeatureAdoption[];
+  funnel: FunnelStep[];
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Lunedì 00:00 UTC della settimana (allineato a date_trunc('week'))
+ */
+function startOfUtcWeek(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+function eventUserFilter(scope: EngagementScope): Prisma.Sql {
+  return scope.userIds
+    ? Prisma.sql`AND "userId" = ANY(${scope.userIds}::uuid[])`
+    : Prisma.empty;
+}
+
+/**
+ * DAU/WAU/MAU, stickiness e serie giornaliera degli ultimi `days` giorni
+ */
+export async function getActiveUsersMetrics(
+  scope: EngagementScope = {},
+  reference: Date = new Date(),
+  days: number = 30
+): Promise<ActiveUsersMetrics> {
+  const seriesDays = Math.max(days, STICKINESS_WINDOW_DAYS);
+  const seriesFrom = new Date(reference.getTime() - seriesDays * DAY_MS);
+  const dayFrom = new Date(reference.getTime() - DAY_MS);
+  const weekFrom = new Date(reference.getTime() - 7 * DAY_MS);
+  const monthFrom = new Date(reference.getTime() - STICKINESS_WINDOW_DAYS * DAY_MS);
+  const filter = eventUserFilter(scope);
+
+  const [totals, dailyRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ dau: bigint; wau: bigint; mau: bigint }>>`
+      SELECT
+        COUNT(DISTINCT "userId") FILTER (WHERE "occurredAt" > ${dayFrom}) AS dau,
+        COUNT(DISTINCT "userId") FILTER (WHERE "occurredAt" > ${weekFrom}) AS wau,
+        COUNT(DISTINCT "userId") AS mau
+      FROM user_activity_events
+      WHERE "occurredAt" > ${monthFrom}
+        AND "occurredAt" <= ${reference}
+        ${filter}
+    `,
+    prisma.$queryRaw<Array<{ day: Date; users: bigint }>>`
+      SELECT date_trunc('day', "occurredAt") AS day, COUNT(DISTINCT "userId") AS users
+      FROM user_activity_events
+      WHERE "occurredAt" > ${seriesFrom}
+        AND "occurredAt" <= ${reference}
+        ${filter}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+  ]);
+
+  const usersByDay = new Map(dailyRows.map((row) => [toDateKey(row.day), Number(row.users)]));
+  const series: DailyActiveUsersPoint[] = [];
+  for (let offset = seriesDays - 1; offset >= 0; offset--) {
+    const date = toDateKey(new Date(reference.getTime() - offset * DAY_MS));
+    series.push({ date, activeUsers: usersByDay.get(date) ?? 0 });
+  }
+
+  const mau = Number(totals[0]?.mau ?? 0);
+  const stickinessWindow = series.slice(-STICKINESS_WINDOW_DAYS);
+  const averageDau =
+    stickinessWindow.reduce((sum, point) => sum + point.activeUsers, 0) / stickinessWindow.length;
+
+  return {
+    dau: Number(totals[0]?.dau ?? 0),
+    wau: Number(totals[0]?.wau ?? 0),
+    mau,
+    stickiness: percentage(averageDau, mau),
+    daily: series.slice(-days),
+  };
+}
+
+/**
+ * Retention delle ultime `weeks` coorti settimanali di registrazione
+ */
+export async function getCohortRetention(
+  scope: EngagementScope = {},
+  reference: Date = new Date(),
+  weeks: number = 8
+): Promise<CohortRetention[]> {
+  const currentWeek = startOfUtcWeek(reference);
+  const cohortFrom = new Date(currentWeek.getTime() - (weeks - 1) * WEEK_MS);
+  const filter = scope.userIds
+    ? Prisma.sql`AND u.id = ANY(${scope.userIds}::uuid[])`
+    : Prisma.empty;
+
+  const [sizes, activity] = await Promise.all([
+    prisma.$queryRaw<Array<{ cohort: Date; size: bigint }>>`
+      SELECT date_trunc('week', u."createdAt") AS cohort, COUNT(*) AS size
+      FROM users u
+      WHERE u."createdAt" >= ${cohortFrom}
+        AND u."createdAt" <= ${reference}
+        ${filter}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+    prisma.$queryRaw<Array<{ cohort: Date; week: number; users: bigint }>>`
+      SELECT
+        date_trunc('week', u."createdAt") AS cohort,
+        FLOOR(
+          EXTRACT(EPOCH FROM (e."occurredAt" - date_trunc('week', u."createdAt"))) / 604800
+        )::int AS week,
+        COUNT(DISTINCT e."userId") AS users
+      FROM users u
+      JOIN user_activity_events e ON e."userId" = u.id
+      WHERE u."createdAt" >= ${cohortFrom}
+        AND u."createdAt" <= ${reference}
+        AND e."occurredAt" >= date_trunc('week', u."createdAt")
+        AND e."occurredAt" <= ${reference}
+        ${filter}
+      GROUP BY 1, 2
+    `,
+  ]);
+
+  const activeByCohort = new Map<string, Map<number, number>>();
+  for (const row of activity) {
+    const key = toDateKey(row.cohort);
+    const byWeek = activeByCohort.get(key) ?? new Map<number, number>();
+    byWeek.set(Number(row.week), Number(row.users));
+    activeByCohort.set(key, byWeek);
+  }
+
+  return sizes.map((row) => {
+    const cohortWeek = toDateKey(row.cohort);
+    const size = Number(row.size);
+    const elapsedWeeks = Math.round((currentWeek.getTime() - row.cohort.getTime()) / WEEK_MS) + 1;
+    const byWeek = activeByCohort.get(cohortWeek);
+
+    return {
+      cohortWeek,
+      size,
+      retention: Array.from({ length: elapsedWeeks }, (_, week) =>
+        percentage(byWeek?.get(week) ?? 0, size)
+      ),
+    };
+  });
+}
+
+/**
+ * Adozione di ogni funzionalità e funnel cumulativo (utenti che hanno fatto
+ * tutti gli step fino a quello corrente) sugli utenti attivi negli ultimi `days` giorni
+ */
+export async function getFeatureAdoption(
+  scope: EngagementScope = {},
+  reference: Date = new Date(),
+  days: number = 30,
+  funnelSteps: ActivityEventType[] = DEFAULT_ADOPTION_FUNNEL
+): Promise<{ activeUsers: number; features: FeatureAdoption[]; funnel: FunnelStep[] }> {
+  const rows = await prisma.$queryRaw<Array<{ userId: string; eventTypes: string[] }>>`
+    SELECT "userId", array_agg(DISTINCT "eventType") AS "eventTypes"
+    FROM user_activity_events
+    WHERE "occurredAt" > ${new Date(reference.getTime() - days * DAY_MS)}
+      AND "occurredAt" <= ${reference}
+      ${eventUserFilter(scope)}
+    GROUP BY "userId"
+  `;
+
+  const activeUsers = rows.length;
+  const userEventTypes = rows.map((row) => new Set(row.eventTypes));
+
+  const features = ACTIVITY_EVENT_TYPES.map((eventType) => {
+    const users = userEventTypes.filter((types) => types.has(eventType)).length;
+    return { eventType, users, adoptionRate: percentage(users, activeUsers) };
+  });
+
+  let remaining = userEventTypes;
+  let previousUsers = activeUsers;
+  const funnel = funnelSteps.map((eventType) => {
+    remaining = remaining.filter((types) => types.has(eventType));
+    const step: FunnelStep = {
+      eventType,
+      users: remaining.length,
+      adoptionRate: percentage(remaining.length, activeUsers),
+      conversionRate: percentage(remaining.length, previousUsers),
+    };
+    previousUsers = remaining.length;
+    return step;
+  });
+
+  return { activeUsers, features, funnel };
+}
+
+/**
+ * Report completo di engagement per lo scope indicato
+ */
+export async function getEngagementReport(
+  scope: EngagementScope = {},
+  options: { reference?: Date; days?: number; cohortWeeks?: number } = {}
+): Promise<EngagementReport> {
+  const reference = options.reference ?? new Date();
+  const days = options.days ?? 30;
+
+  const [activeUsers, cohorts, adoption] = await Promise.all([
+    getActiveUsersMetrics(scope, reference, days),
+    getCohortRetention(scope, reference, options.cohortWeeks ?? 8),
+    getFeatureAdoption(scope, reference, days),
+  ]);
+
+  return {
+    reference,
+    days,
+    activeUsers,
+    cohorts,
+    features: adoption.features,
+    funnel: adoption.funnel,
+  };
+}
+
+export const engagementService = {
+  getActiveUsersMetrics,
+  getCohortRetention,
+  getFeatureAdoption,
+  getEngagementReport,
+};
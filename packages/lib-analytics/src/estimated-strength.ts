@@ -0,0 +1,104 @@
+/**
+ * Estimated Strength
+ *
+ * Andamento della forza basato sul massimale stimato (e1RM) dei set registrati
+ * in exercise_performance_records, invece del peso più alto sollevato.
+ * Per ogni giorno si considera il set con la stima migliore.
+ */
+
+import {
+  estimateOneRepMax,
+  type OneRepMaxFormula,
+} from '@onecoach/lib-exercise/strength-estimation';
+
+export interface PerformanceRecordInput {
+  exerciseId: string;
+  date: Date;
+  weight: unknown;
+  reps: number;
+  rpe?: unknown;
+  volume?: unknown;
+}
+
+export interface EstimatedStrengthPoint {
+  date: Date;
+  weight: number;
+  reps: number;
+  rpe: number | null;
+  estimatedOneRepMax: number;
+}
+
+export interface EstimatedStrengthSummary {
+  exerciseId: string;
+  startOneRepMax: number;
+  endOneRepMax: number;
+  peakOneRepMax: number;
+  percentChange: number;
+  points: EstimatedStrengthPoint[];
+}
+
+/**
+ * Miglior e1RM per giorno, in ordine cronologico
+ */
+export function dailyEstimatedOneRepMax(
+  records: PerformanceRecordInput[],
+  formula: OneRepMaxFormula = 'AUTO'
+): EstimatedStrengthPoint[] {
+  const byDay = new Map<string, EstimatedStrengthPoint>();
+
+  for (const record of records) {
+    const weight = Number(record.weight);
+    const rpe = record.rpe !== null && record.rpe !== undefined ? Number(record.rpe) : null;
+    const estimate = estimateOneRepMax({ weight, reps: record.reps, rpe }, formula);
+    if (!estimate) continue;
+
+    const key = record.date.toISOString().slice(0, 10);
+    const current = byDay.get(key);
+    if (!current || estimate.oneRepMax > current.estimatedOneRepMax) {
+      byDay.set(key, {
+        date: record.date,
+        weight,
+        reps: record.reps,
+        rpe,
+        estimatedOneRepMax: estimate.oneRepMax,
+      });
+    }
+  }
+
+  return Array.from(byDay.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Riepilogo per esercizio; servono almeno `minPoints` giorni con set stimabili
+ */
+export function summarizeEstimatedStrength(
+  records: PerformanceRecordInput[],
+  options: { formula?: OneRepMaxFormula; minPoints?: number } = {}
+): EstimatedStrengthSummary[] {
+  const byExercise = new Map<string, PerformanceRecordInput[]>();
+  for (const record of records) {
+    const list = byExercise.get(record.exerciseId) ?? [];
+    list.push(record);
+    byExercise.set(record.exerciseId, list);
+  }
+
+  const summaries: EstimatedStrengthSummary[] = [];
+  for (const [exerciseId, exerciseRecords] of byExercise) {
+    const points = dailyEstimatedOneRepMax(exerciseRecords, options.formula);
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (!first || !last || points.length < (options.minPoints ?? 1)) continue;
+
+    summaries.push({
+      exerciseId,
+      startOneRepMax: first.estimatedOneRepMax,
+      endOneRepMax: last.estimatedOneRepMax,
+      peakOneRepMax: Math.max(...points.map((p) => p.estimatedOneRepMax)),
+      percentChange:
+        ((last.estimatedOneRepMax - first.estimatedOneRepMax) / first.estimatedOneRepMax) * 100,
+      points,
+    });
+  }
+
+  return summaries;
+}
@@ -9,3 +9,7 @@ export * from './analytics.service';
 export * from './body-measurements.service';
 export * from './progress-snapshot.service';
 export * from './coach-analytics.service';
+export * from './readiness.service';
+export * from './personal-records.service';
+export * from './engagement.service';
+export * from './estimated-strength';
@@ -0,0 +1,483 @@
+/**
+ * Personal Records Service
+ *
+ * Valuta una sessione completata contro lo storico dell'utente e salva i record
+ * in personal_records (rep max 1/3/5/10, e1RM, volume del set e della sessione).
+ *
+ * - Ogni riga è un best raggiunto in una sessione; previousValue null = baseline
+ *   (primo valore per quella chiave), non celebrata
+ * - Per gli esercizi senza record lo storico viene ricostruito una sola volta
+ *   dalle sessioni completate precedenti, letto a pagine fuori dalla transazione
+ * - I nuovi record emettono PERSONAL_RECORD nella memoria utente e un
+ *   milestone nella timeline
+ * - La valutazione è idempotente: la sessione viene reclamata (personalRecordsEvaluatedAt)
+ *   nella stessa transazione che salva i record, quindi richieste concorrenti o ripetute
+ *   restituiscono i record salvati senza duplicarli né notificarli di nuovo
+ */
+
+import { prisma, logger, handleMemoryEvent, timelineService } from '@onecoach/lib-core';
+import { getExerciseSets } from '@onecoach/one-workout';
+import type { Prisma } from '@prisma/client';
+import type { Exercise } from '@onecoach/types';
+import { createId } from '@onecoach/lib-shared/id-generator';
+import { toExerciseArrayTyped } from '@onecoach/lib-shared/prisma-type-guards';
+import type { EstimationSet } from '@onecoach/lib-exercise/strength-estimation';
+import {
+  detectPersonalRecords,
+  personalRecordKey,
+  personalRecordLabel,
+  type DetectedPersonalRecord,
+  type PersonalRecordBest,
+  type PersonalRecordType,
+} from '@onecoach/lib-exercise/personal-records';
+
+export interface PersonalRecord {
+  id: string;
+  exerciseId: string;
+  exerciseName: string;
+  recordType: PersonalRecordType;
+  reps: number | null;
+  value: number;
+  weight: number | null;
+  setReps: number | null;
+  previousValue: number | null;
+  sessionId: string;
+  achievedAt: Date;
+}
+
+export interface GetPersonalRecordsOptions {
+  exerciseId?: string;
+  since?: Date;
+  limit?: number;
+}
+
+export interface SessionPersonalRecordsEvaluation {
+  /** Record che battono un best precedente */
+  records: PersonalRecord[];
+  /** false se la sessione era già stata valutata (es. richiesta ripetuta) */
+  newlyEvaluated: boolean;
+}
+
+interface PersonalRecordRow {
+  id: string;
+  exerciseId: string;
+  exerciseName: string;
+  recordType: string;
+  reps: number | null;
+  value: unknown;
+  weight: unknown;
+  setReps: number | null;
+  previousValue: unknown;
+  sessionId: string;
+  achievedAt: Date;
+}
+
+interface ExercisePerformance {
+  exerciseName: string;
+  sets: EstimationSet[];
+}
+
+interface ClaimedEvaluation {
+  rows: PersonalRecordRow[];
+  /** false per i record già ricostruiti dallo storico */
+  notify: boolean;
+}
+
+/** Set di una sessione come restituito da getExerciseSets() */
+type SessionSet = ReturnType<typeof getExerciseSets>[number];
+
+function toPersonalRecord(row: PersonalRecordRow): PersonalRecord {
+  return {
+    id: row.id,
+    exerciseId: row.exerciseId,
+    exerciseName: row.exerciseName,
+    recordType: row.recordType as PersonalRecordType,
+    reps: row.reps,
+    value: Number(row.value),
+    weight: row.weight !== null ? Number(row.weight) : null,
+    setReps: row.setReps,
+    previousValue: row.previousValue !== null ? Number(row.previousValue) : null,
+    sessionId: row.sessionId,
+    achievedAt: row.achievedAt,
+  };
+}
+
+/**
+ * Set completati con carico per esercizio (gli esercizi ripetuti vengono uniti)
+ */
+function performedSetsByExercise(exercisesJson: unknown): Map<string, ExercisePerformance> {
+  const byExercise = new Map<string, ExercisePerformance>();
+
+  for (const exercise of toExerciseArrayTyped(exercisesJson) as Exercise[]) {
+    if (!exercise.exerciseId) continue;
+
+    // SSOT: usa getExerciseSets() invece di exercise.sets
+    const sets = getExerciseSets(exercise).flatMap((set: SessionSet): EstimationSet[] => {
+      if (!set.done) return [];
+      const weight = Number(set.weightDone ?? set.weight ?? 0);
+      const reps = Number(set.repsDone ?? set.reps ?? 0);
+      if (weight <= 0 || reps <= 0) return [];
+      return [{ weight, reps, rpe: set.rpe ?? null }];
+    });
+    if (sets.length === 0) continue;
+
+    const current = byExercise.get(exercise.exerciseId);
+    byExercise.set(exercise.exerciseId, {
+      exerciseName: current?.exerciseName ?? exercise.name ?? exercise.exerciseId,
+      sets: [...(current?.sets ?? []), ...sets],
+    });
+  }
+
+  return byExercise;
+}
+
+function toCreateData(
+  userId: string,
+  exerciseId: string,
+  exerciseName: string,
+  sessionId: string,
+  achievedAt: Date,
+  record: DetectedPersonalRecord
+) {
+  return {
+    id: createId(),
+    userId,
+    exerciseId,
+    exerciseName,
+    sessionId,
+    achievedAt,
+    recordType: record.recordType,
+    reps: record.reps,
+    value: record.value,
+    weight: record.weight,
+    setReps: record.setReps,
+    previousValue: record.previousValue,
+  };
+}
+
+/** Sessioni lette per pagina durante la ricostruzione dello storico */
+const HISTORY_PAGE_SIZE = 100;
+
+interface RebuiltHistory {
+  /** Righe da salvare per esercizio (baseline e record delle sessioni precedenti) */
+  rows: Map<string, ReturnType<typeof toCreateData>[]>;
+  bests: Map<string, PersonalRecordBest[]>;
+}
+
+/**
+ * Ricostruisce i record dalle sessioni completate prima di `before` per gli esercizi
+ * indicati. Sola lettura e a pagine: gira fuori dalla transazione di valutazione,
+ * che salva poi le righe solo per gli esercizi ancora senza record.
+ */
+async function rebuildPersonalRecordHistory(
+  userId: string,
+  exerciseIds: string[],
+  before: Date
+): Promise<RebuiltHistory> {
+  const history: RebuiltHistory = {
+    rows: new Map(exerciseIds.map((id) => [id, []])),
+    bests: new Map(exerciseIds.map((id) => [id, []])),
+  };
+  if (exerciseIds.length === 0) return history;
+
+  let cursor: string | undefined;
+  for (;;) {
+    const sessions = await prisma.workout_sessions.findMany({
+      where: { userId, completedAt: { not: null }, startedAt: { lt: before } },
+      select: { id: true, startedAt: true, completedAt: true, exercises: true },
+      orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+      take: HISTORY_PAGE_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const session of sessions) {
+      for (const [exerciseId, performance] of performedSetsByExercise(session.exercises)) {
+        const previous = history.bests.get(exerciseId);
+        const rows = history.rows.get(exerciseId);
+        if (!previous || !rows) continue;
+
+        for (const record of detectPersonalRecords(performance.sets, previous)) {
+          rows.push(
+            toCreateData(
+              userId,
+              exerciseId,
+              performance.exerciseName,
+              session.id,
+              session.completedAt ?? session.startedAt,
+              record
+            )
+          );
+          previous.push(record);
+        }
+      }
+    }
+
+    if (sessions.length < HISTORY_PAGE_SIZE) break;
+    cursor = sessions[sessions.length - 1]!.id;
+  }
+
+  return history;
+}
+
+async function findExercisesWithRecords(
+  db: Prisma.TransactionClient,
+  userId: string,
+  exerciseIds: string[]
+) {
+  return db.personal_records.findMany({
+    where: { userId, exerciseId: { in: exerciseIds } },
+    select: { exerciseId: true, recordType: true, reps: true, value: true },
+  });
+}
+
+/**
+ * Righe da salvare per la sessione (baseline incluse), confrontate con i best salvati
+ * e con lo storico ricostruito per gli esercizi che non ne hanno. Le righe dello storico
+ * vengono salvate qui, dentro la transazione di valutazione.
+ */
+async function detectSessionRecords(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  sessionId: string,
+  performances: Map<string, ExercisePerformance>,
+  history: RebuiltHistory,
+  achievedAt: Date
+): Promise<ReturnType<typeof toCreateData>[]> {
+  const existing = await findExercisesWithRecords(tx, userId, [...performances.keys()]);
+
+  const bestsByExercise = new Map<string, PersonalRecordBest[]>();
+  for (const row of existing) {
+    const list = bestsByExercise.get(row.exerciseId) ?? [];
+    list.push({
+      recordType: row.recordType as PersonalRecordType,
+      reps: row.reps,
+      value: Number(row.value),
+    });
+    bestsByExercise.set(row.exerciseId, list);
+  }
+
+  // Storico ricostruito solo per gli esercizi ancora senza record (un'altra valutazione
+  // potrebbe averlo salvato nel frattempo)
+  const historyRows: ReturnType<typeof toCreateData>[] = [];
+  for (const [exerciseId, bests] of history.bests) {
+    if (bestsByExercise.has(exerciseId)) continue;
+    bestsByExercise.set(exerciseId, bests);
+    historyRows.push(...history.rows.get(exerciseId)!);
+  }
+  if (historyRows.length > 0) {
+    await tx.personal_records.createMany({ data: historyRows });
+  }
+
+  const rows: ReturnType<typeof toCreateData>[] = [];
+  for (const [exerciseId, performance] of performances) {
+    for (const record of detectPersonalRecords(
+      performance.sets,
+      bestsByExercise.get(exerciseId) ?? []
+    )) {
+      rows.push(
+        toCreateData(userId, exerciseId, performance.exerciseName, sessionId, achievedAt, record)
+      );
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Valuta una sessione completata: salva i record e notifica quelli nuovi.
+ * Restituisce solo i record che battono un best precedente; null se la sessione
+ * non esiste o non appartiene all'utente.
+ */
+export async function evaluateSessionPersonalRecords(
+  userId: string,
+  sessionId: string
+): Promise<SessionPersonalRecordsEvaluation | null> {
+  const session = await prisma.workout_sessions.findFirst({
+    where: { id: sessionId, userId },
+    select: {
+      id: true,
+      startedAt: true,
+      completedAt: true,
+      exercises: true,
+      personalRecordsEvaluatedAt: true,
+    },
+  });
+
+  if (!session) {
+    return null;
+  }
+  const { completedAt } = session;
+  if (!completedAt) {
+    throw new Error('La sessione non è ancora completata');
+  }
+
+  const performances = performedSetsByExercise(session.exercises);
+  let history: RebuiltHistory = { rows: new Map(), bests: new Map() };
+  if (!session.personalRecordsEvaluatedAt && performances.size > 0) {
+    const exerciseIds = [...performances.keys()];
+    const withRecords = new Set(
+      (await findExercisesWithRecords(prisma, userId, exerciseIds)).map((row) => row.exerciseId)
+    );
+    history = await rebuildPersonalRecordHistory(
+      userId,
+      exerciseIds.filter((id) => !withRecords.has(id)),
+      session.startedAt
+    );
+  }
+
+  const evaluation = await prisma.$transaction(async (tx): Promise<ClaimedEvaluation | null> => {
+    // Claim: solo la prima valutazione salva e notifica i record
+    const { count } = await tx.workout_sessions.updateMany({
+      where: { id: session.id, userId, personalRecordsEvaluatedAt: null },
+      data: { personalRecordsEvaluatedAt: new Date() },
+    });
+    if (count === 0) return null;
+
+    // Sessione già coperta dallo storico ricostruito: record presenti, niente notifiche
+    const backfilled: PersonalRecordRow[] = await tx.personal_records.findMany({
+      where: { userId, sessionId: session.id },
+      orderBy: { achievedAt: 'asc' },
+    });
+    if (backfilled.length > 0) {
+      return { rows: backfilled, notify: false };
+    }
+    if (performances.size === 0) {
+      return { rows: [], notify: true };
+    }
+
+    const rows = await detectSessionRecords(
+      tx,
+      userId,
+      session.id,
+      performances,
+      history,
+      completedAt
+    );
+    if (rows.length > 0) {
+      await tx.personal_records.createMany({ data: rows });
+    }
+    return { rows, notify: true };
+  });
+
+  if (!evaluation) {
+    const evaluated = await prisma.personal_records.findMany({
+      where: { userId, sessionId: session.id, previousValue: { not: null } },
+      orderBy: { achievedAt: 'asc' },
+    });
+    return { records: evaluated.map(toPersonalRecord), newlyEvaluated: false };
+  }
+
+  const records = evaluation.rows
+    .filter((row) => row.previousValue !== null)
+    .map((row) => toPersonalRecord(row));
+
+  if (evaluation.notify) {
+    await notifyPersonalRecords(userId, session.id, completedAt, records);
+  }
+
+  return { records, newlyEvaluated: true };
+}
+
+/**
+ * Eventi di memoria e timeline, uno per esercizio
+ */
+async function notifyPersonalRecords(
+  userId: string,
+  sessionId: string,
+  achievedAt: Date,
+  records: PersonalRecord[]
+): Promise<void> {
+  const byExercise = new Map<string, PersonalRecord[]>();
+  for (const record of records) {
+    byExercise.set(record.exerciseId, [...(byExercise.get(record.exerciseId) ?? []), record]);
+  }
+
+  for (const [exerciseId, exerciseRecords] of byExercise) {
+    const exerciseName = exerciseRecords[0]!.exerciseName;
+
+    await handleMemoryEvent({
+      type: 'PERSONAL_RECORD',
+      userId,
+      data: {
+        sessionId,
+        exerciseId,
+        exerciseName,
+        records: exerciseRecords.map((record) => ({
+          recordType: record.recordType,
+          reps: record.reps,
+          value: record.value,
+          previousValue: record.previousValue,
+        })),
+      },
+    });
+
+    try {
+      await timelineService.trackPersonalRecords(userId, {
+        sessionId,
+        exerciseId,
+        exerciseName,
+        date: achievedAt,
+        records: exerciseRecords.map((record) => ({
+          label: personalRecordLabel(record.recordType, record.reps),
+          value: record.value,
+          unit: 'kg',
+          previousValue: record.previousValue,
+        })),
+      });
+    } catch (error) {
+      // La timeline non deve bloccare il salvataggio dei record
+      logger.warn('[PersonalRecords] Timeline event not created', { error, sessionId });
+    }
+  }
+}
+
+/**
+ * Storico dei record battuti (esclude le baseline), dal più recente
+ */
+export async function getPersonalRecordHistory(
+  userId: string,
+  options: GetPersonalRecordsOptions = {}
+): Promise<PersonalRecord[]> {
+  const rows = await prisma.personal_records.findMany({
+    where: {
+      userId,
+      previousValue: { not: null },
+      ...(options.exerciseId && { exerciseId: options.exerciseId }),
+      ...(options.since && { achievedAt: { gte: options.since } }),
+    },
+    orderBy: { achievedAt: 'desc' },
+    take: options.limit ?? 50,
+  });
+
+  return rows.map(toPersonalRecord);
+}
+
+/**
+ * Best attuale per esercizio e tipo di record (baseline incluse)
+ */
+export async function getCurrentPersonalRecords(
+  userId: string,
+  exerciseId?: string
+): Promise<PersonalRecord[]> {
+  const rows = await prisma.personal_records.findMany({
+    where: { userId, ...(exerciseId && { exerciseId }) },
+    orderBy: [{ value: 'desc' }, { achievedAt: 'asc' }],
+  });
+
+  const current = new Map<string, PersonalRecord>();
+  for (const row of rows) {
+    const recordKey = personalRecordKey(row.recordType as PersonalRecordType, row.reps);
+    const key = `${row.exerciseId}:${recordKey}`;
+    if (!current.has(key)) {
+      current.set(key, toPersonalRecord(row));
+    }
+  }
+
+  return [...current.values()];
+}
+
+export const personalRecordsService = {
+  evaluateSessionPersonalRecords,
+  getPersonalRecordHistory,
+  getCurrentPersonalRecords,
+};
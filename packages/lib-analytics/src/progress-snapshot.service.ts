@@ -10,6 +10,7 @@ import { prisma } from '@onecoach/lib-core';
 import { getExerciseSets } from '@onecoach/one-workout';
 import type { Exercise } from '@onecoach/types';
 import { Prisma } from '@prisma/client';
+import { summarizeEstimatedStrength } from './estimated-strength';
 
 import { logger } from '@onecoach/lib-core';
 // ============================================
@@ -94,34 +95,18 @@ export async function generateProgressSnapshot(userId: string, date: Date) {
     orderBy: { date: 'asc' },
   });
 
-  // Group by exercise and calculate progress
-  type PerformanceRecord = (typeof performanceRecords)[number];
-  const exerciseMap = new Map<string, PerformanceRecord[]>();
-  performanceRecords.forEach((record: any) => {
-    if (!exerciseMap.has(record.exerciseId)) {
-      exerciseMap.set(record.exerciseId, []);
-    }
-    exerciseMap.get(record.exerciseId)!.push(record);
-  });
-
+  // Progress su e1RM (miglior set stimato per giorno)
   const strengthProgress: Record<
     string,
-    { startWeight: number; endWeight: number; percentChange: number }
+    { startOneRepMax: number; endOneRepMax: number; percentChange: number }
   > = {};
-  exerciseMap.forEach((records, exerciseId) => {
-    if (records.length >= 2) {
-      const first = records[0]!;
-      const last = records[records.length - 1]!;
-      const percentChange =
-        ((Number(last.weight) - Number(first.weight)) / Number(first.weight)) * 100;
-
-      strengthProgress[exerciseId] = {
-        startWeight: Number(first.weight),
-        endWeight: Number(last.weight),
-        percentChange,
-      };
-    }
-  });
+  for (const summary of summarizeEstimatedStrength(performanceRecords, { minPoints: 2 })) {
+    strengthProgress[summary.exerciseId] = {
+      startOneRepMax: summary.startOneRepMax,
+      endOneRepMax: summary.endOneRepMax,
+      percentChange: summary.percentChange,
+    };
+  }
 
   // Calculate nutrition metrics
   const nutritionLogs7d = await prisma.nutrition_day_logs.count({
@@ -0,0 +1,290 @@
+/**
+ * Readiness Service
+ *
+ * Punteggio giornaliero di prontezza/recupero (0-100) che combina:
+ * - HRV e frequenza cardiaca a riposo rispetto alla baseline personale (28 giorni)
+ * - sonno della notte precedente
+ * - carico di allenamento: rapporto acuto/cronico (ACWR) sul volume di workout_sessions
+ *
+ * I componenti senza dati sufficienti vengono esclusi e i pesi rinormalizzati.
+ */
+
+import { prisma } from '@onecoach/lib-core';
+import { calculateSessionVolume } from './analytics.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BASELINE_DAYS = 28;
+const MIN_BASELINE_DAYS = 5;
+const ACUTE_DAYS = 7;
+const SLEEP_TARGET_MINUTES = 8 * 60;
+const ASLEEP_STAGES = ['ASLEEP', 'LIGHT', 'DEEP', 'REM'];
+
+const COMPONENT_WEIGHTS = {
+  hrv: 0.35,
+  restingHeartRate: 0.2,
+  sleep: 0.25,
+  trainingLoad: 0.2,
+} as const;
+
+export type ReadinessStatus = 'GOOD' | 'MODERATE' | 'POOR' | 'UNKNOWN';
+
+export interface ReadinessBaselineComponent {
+  score: number | null;
+  /** Media delle ultime 24 ore */
+  value: number | null;
+  /** Media giornaliera dei 28 giorni precedenti */
+  baseline: number | null;
+}
+
+export interface ReadinessSleepComponent {
+  score: number | null;
+  minutesAsleep: number | null;
+}
+
+export interface ReadinessTrainingLoadComponent {
+  score: number | null;
+  /** Volume degli ultimi 7 giorni */
+  acuteLoad: number;
+  /** Volume medio settimanale degli ultimi 28 giorni */
+  chronicLoad: number;
+  ratio: number | null;
+}
+
+export interface DailyReadiness {
+  /** YYYY-MM-DD */
+  date: string;
+  score: number | null;
+  status: ReadinessStatus;
+  /** Moltiplicatore suggerito per i carichi di oggi (1 = invariato) */
+  loadMultiplier: number;
+  recommendation: string;
+  components: {
+    hrv: ReadinessBaselineComponent;
+    restingHeartRate: ReadinessBaselineComponent;
+    sleep: ReadinessSleepComponent;
+    trainingLoad: ReadinessTrainingLoadComponent;
+  };
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[], avg: number): number {
+  return Math.sqrt(mean(values.map((value) => (value - avg) ** 2)));
+}
+
+/**
+ * Confronta il valore delle ultime 24 ore con la baseline giornaliera.
+ * higherIsBetter: true per HRV, false per la frequenza a riposo.
+ */
+export function scoreAgainstBaseline(
+  samples: Array<{ value: number; startDate: Date }>,
+  reference: Date,
+  higherIsBetter: boolean
+): ReadinessBaselineComponent {
+  const recentFrom = reference.getTime() - DAY_MS;
+  const recent = samples.filter((s) => s.startDate.getTime() > recentFrom).map((s) => s.value);
+
+  const dailyValues = new Map<string, number[]>();
+  for (const sample of samples) {
+    if (sample.startDate.getTime() > recentFrom) continue;
+    const day = sample.startDate.toISOString().split('T')[0]!;
+    dailyValues.set(day, [...(dailyValues.get(day) ?? []), sample.value]);
+  }
+  const baselineDays = [...dailyValues.values()].map(mean);
+
+  const value = recent.length > 0 ? mean(recent) : null;
+  const baseline = baselineDays.length > 0 ? mean(baselineDays) : null;
+
+  if (value === null || baseline === null || baselineDays.length < MIN_BASELINE_DAYS) {
+    return { score: null, value, baseline };
+  }
+
+  // Deviazione minima del 5% per non amplificare baseline molto stabili
+  const deviation = Math.max(standardDeviation(baselineDays, baseline), baseline * 0.05);
+  const z = (value - baseline) / deviation;
+
+  return {
+    score: clampScore(75 + 25 * (higherIsBetter ? z : -z)),
+    value,
+    baseline,
+  };
+}
+
+/**
+ * Minuti dormiti nelle ultime 24 ore rispetto al target di 8 ore
+ */
+export function scoreSleep(
+  samples: Array<{ stage: string | null; startDate: Date; endDate: Date }>
+): ReadinessSleepComponent {
+  const minutesFor = (stages: string[]) =>
+    samples
+      .filter((s) => s.stage && stages.includes(s.stage))
+      .reduce((sum, s) => sum + (s.endDate.getTime() - s.startDate.getTime()) / 60000, 0);
+
+  // Senza fasi registrate si usa il tempo a letto
+  const minutesAsleep = minutesFor(ASLEEP_STAGES) || minutesFor(['IN_BED']);
+  if (minutesAsleep === 0) {
+    return { score: null, minutesAsleep: null };
+  }
+
+  return {
+    score: clampScore((minutesAsleep / SLEEP_TARGET_MINUTES) * 100),
+    minutesAsleep: Math.round(minutesAsleep),
+  };
+}
+
+/**
+ * ACWR nella fascia 0.8-1.3 = carico sostenibile; oltre cresce il rischio di affaticamento
+ */
+export function scoreAcuteChronicRatio(ratio: number | null): number | null {
+  if (ratio === null) return null;
+  if (ratio > 1.3) return clampScore(100 - (ratio - 1.3) * 150);
+  if (ratio < 0.8) return 90;
+  return 100;
+}
+
+async function getTrainingLoad(
+  userId: string,
+  reference: Date
+): Promise<ReadinessTrainingLoadComponent> {
+  const sessions = await prisma.workout_sessions.findMany({
+    where: {
+      userId,
+      startedAt: {
+        gte: new Date(reference.getTime() - BASELINE_DAYS * DAY_MS),
+        lte: reference,
+      },
+      completedAt: { not: null },
+    },
+    select: { startedAt: true, exercises: true },
+  });
+
+  const acuteFrom = reference.getTime() - ACUTE_DAYS * DAY_MS;
+  let acuteLoad = 0;
+  let totalLoad = 0;
+
+  for (const session of sessions) {
+    const volume = calculateSessionVolume(session.exercises);
+    totalLoad += volume;
+    if (session.startedAt.getTime() >= acuteFrom) {
+      acuteLoad += volume;
+    }
+  }
+
+  const chronicLoad = totalLoad / (BASELINE_DAYS / ACUTE_DAYS);
+  const ratio = chronicLoad > 0 ? Math.round((acuteLoad / chronicLoad) * 100) / 100 : null;
+
+  return {
+    score: scoreAcuteChronicRatio(ratio),
+    acuteLoad: Math.round(acuteLoad),
+    chronicLoad: Math.round(chronicLoad),
+    ratio,
+  };
+}
+
+function toStatus(score: number | null): ReadinessStatus {
+  if (score === null) return 'UNKNOWN';
+  if (score >= 70) return 'GOOD';
+  if (score >= 50) return 'MODERATE';
+  return 'POOR';
+}
+
+const STATUS_ADVICE: Record<ReadinessStatus, { loadMultiplier: number; recommendation: string }> = {
+  GOOD: {
+    loadMultiplier: 1,
+    recommendation: 'Recupero buono: puoi allenarti come da programma.',
+  },
+  MODERATE: {
+    loadMultiplier: 0.95,
+    recommendation: 'Recupero parziale: riduci leggermente i carichi e limita i set a cedimento.',
+  },
+  POOR: {
+    loadMultiplier: 0.85,
+    recommendation:
+      'Recupero scarso: riduci i carichi del 10-15% o prediligi una sessione leggera.',
+  },
+  UNKNOWN: {
+    loadMultiplier: 1,
+    recommendation: 'Dati insufficienti: sincronizza HRV, sonno e frequenza a riposo.',
+  },
+};
+
+/**
+ * Calcola la readiness del giorno di riferimento (default: ora)
+ */
+export async function getDailyReadiness(
+  userId: string,
+  reference: Date = new Date()
+): Promise<DailyReadiness> {
+  const baselineFrom = new Date(reference.getTime() - BASELINE_DAYS * DAY_MS);
+
+  const [hrvSamples, restingSamples, sleepSamples, trainingLoad] = await Promise.all([
+    prisma.health_samples.findMany({
+      where: { userId, dataType: 'hrv', startDate: { gte: baselineFrom, lte: reference } },
+      select: { value: true, startDate: true },
+    }),
+    prisma.health_samples.findMany({
+      where: {
+        userId,
+        dataType: 'restingHeartRate',
+        startDate: { gte: baselineFrom, lte: reference },
+      },
+      select: { value: true, startDate: true },
+    }),
+    prisma.health_samples.findMany({
+      where: {
+        userId,
+        dataType: 'sleep',
+        startDate: { gte: new Date(reference.getTime() - DAY_MS), lte: reference },
+      },
+      select: { stage: true, startDate: true, endDate: true },
+    }),
+    getTrainingLoad(userId, reference),
+  ]);
+
+  const components = {
+    hrv: scoreAgainstBaseline(hrvSamples, reference, true),
+    restingHeartRate: scoreAgainstBaseline(restingSamples, reference, false),
+    sleep: scoreSleep(sleepSamples),
+    trainingLoad,
+  };
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const key of Object.keys(COMPONENT_WEIGHTS) as Array<keyof typeof COMPONENT_WEIGHTS>) {
+    const { score } = components[key];
+    if (score !== null) {
+      weightedSum += score * COMPONENT_WEIGHTS[key];
+      totalWeight += COMPONENT_WEIGHTS[key];
+    }
+  }
+
+  // Il solo carico di allenamento non basta a stimare il recupero
+  const hasRecoveryData =
+    components.hrv.score !== null ||
+    components.restingHeartRate.score !== null ||
+    components.sleep.score !== null;
+  const score = hasRecoveryData && totalWeight > 0 ? clampScore(weightedSum / totalWeight) : null;
+  const status = toStatus(score);
+
+  return {
+    date: reference.toISOString().split('T')[0]!,
+    score,
+    status,
+    ...STATUS_ADVICE[status],
+    components,
+  };
+}
+
+export const readinessService = {
+  getDailyReadiness,
+  scoreAgainstBaseline,
+  scoreSleep,
+  scoreAcuteChronicRatio,
+};
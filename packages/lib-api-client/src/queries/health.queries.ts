@@ -10,7 +10,16 @@ import type { HealthSummary, HealthPlatform } from '@onecoach/lib-stores';
 /**
  * Health data type
  */
-export type HealthDataType = 'steps' | 'heartRate' | 'activeCalories' | 'weight' | 'workout';
+export type HealthDataType =
+  | 'steps'
+  | 'heartRate'
+  | 'activeCalories'
+  | 'weight'
+  | 'workout'
+  | 'sleep'
+  | 'hrv'
+  | 'restingHeartRate'
+  | 'vo2Max';
 
 /**
  * Health data request interface
@@ -32,12 +41,27 @@ export interface HealthSyncRequest {
   syncTimestamp: string; // ISO string
 }
 
+/**
+ * Per-type sync outcome
+ */
+export interface HealthSyncTypeResult {
+  received: number;
+  stored: number;
+  merged: number;
+  rejected: number;
+}
+
 /**
  * Health sync response interface
  */
 export interface HealthSyncResponse {
   success: boolean;
   syncedDataTypes: HealthDataType[];
+  /** Data types not supported by the server (ignored) */
+  skippedDataTypes?: string[];
+  results: Partial<Record<HealthDataType, HealthSyncTypeResult>>;
+  /** Per-type ISO cursor: next sync should only send samples ending after it */
+  cursors: Partial<Record<HealthDataType, string>>;
   errors?: string[];
 }
 
@@ -10,6 +10,7 @@ export interface AnalyticsOverviewParams {
 }
 export interface AnalyticsOverviewResponse {
     report: unknown;
+    readiness: unknown;
 }
 export interface ChartDataParams {
     type: string;
@@ -17,6 +18,26 @@ export interface ChartDataParams {
     endDate?: string;
     period?: string;
 }
+export type PersonalRecordType = 'REP_MAX' | 'ESTIMATED_ONE_REP_MAX' | 'SET_VOLUME' | 'SESSION_VOLUME';
+export interface PersonalRecord {
+    id: string;
+    exerciseId: string;
+    exerciseName: string;
+    recordType: PersonalRecordType;
+    reps: number | null;
+    value: number;
+    weight: number | null;
+    setReps: number | null;
+    previousValue: number | null;
+    sessionId: string;
+    achievedAt: string;
+}
+export interface PersonalRecordsParams {
+    view?: 'history' | 'current';
+    exerciseId?: string;
+    since?: string;
+    limit?: number;
+}
 export declare const analyticsApi: {
     /**
      * Get analytics overview
@@ -26,6 +47,21 @@ export declare const analyticsApi: {
      * Get chart data
      */
     getChartData(params: ChartDataParams): Promise<unknown[]>;
+    /**
+     * Get personal records (history or current bests)
+     */
+    getPersonalRecords(params?: PersonalRecordsParams): Promise<{
+        success: boolean;
+        records: PersonalRecord[];
+    }>;
+    /**
+     * Evaluate personal records of a completed workout session
+     */
+    evaluateSessionPersonalRecords(sessionId: string): Promise<{
+        success: boolean;
+        records: PersonalRecord[];
+        count: number;
+    }>;
     /**
      * Get AI insights
      */
@@ -14,6 +14,7 @@ export interface AnalyticsOverviewParams {
 
 export interface AnalyticsOverviewResponse {
   report: unknown;
+  readiness: unknown;
 }
 
 export interface ChartDataParams {
@@ -23,6 +24,33 @@ export interface ChartDataParams {
   period?: string;
 }
 
+export type PersonalRecordType =
+  | 'REP_MAX'
+  | 'ESTIMATED_ONE_REP_MAX'
+  | 'SET_VOLUME'
+  | 'SESSION_VOLUME';
+
+export interface PersonalRecord {
+  id: string;
+  exerciseId: string;
+  exerciseName: string;
+  recordType: PersonalRecordType;
+  reps: number | null;
+  value: number;
+  weight: number | null;
+  setReps: number | null;
+  previousValue: number | null;
+  sessionId: string;
+  achievedAt: string;
+}
+
+export interface PersonalRecordsParams {
+  view?: 'history' | 'current';
+  exerciseId?: string;
+  since?: string;
+  limit?: number;
+}
+
 export const analyticsApi = {
   /**
    * Get analytics overview
@@ -53,6 +81,36 @@ export const analyticsApi = {
     return apiClient.get<unknown[]>(`/api/analytics/charts?${query}`);
   },
 
+  /**
+   * Get personal records (history or current bests)
+   */
+  async getPersonalRecords(
+    params?: PersonalRecordsParams
+  ): Promise<{ success: boolean; records: PersonalRecord[] }> {
+    const searchParams = new URLSearchParams();
+    if (params?.view) searchParams.set('view', params.view);
+    if (params?.exerciseId) searchParams.set('exerciseId', params.exerciseId);
+    if (params?.since) searchParams.set('since', params.since);
+    if (params?.limit) searchParams.set('limit', String(params.limit));
+
+    const query = searchParams.toString();
+    return apiClient.get<{ success: boolean; records: PersonalRecord[] }>(
+      `/api/analytics/personal-records${query ? `?${query}` : ''}`
+    );
+  },
+
+  /**
+   * Evaluate personal records of a completed workout session
+   */
+  async evaluateSessionPersonalRecords(
+    sessionId: string
+  ): Promise<{ success: boolean; records: PersonalRecord[]; count: number }> {
+    return apiClient.post<{ success: boolean; records: PersonalRecord[]; count: number }>(
+      '/api/analytics/personal-records',
+      { sessionId }
+    );
+  },
+
   /**
    * Get AI insights
    */
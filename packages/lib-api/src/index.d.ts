@@ -19,7 +19,7 @@ export type { ExerciseResponse, ExercisesResponse, ExerciseListParams } from './
 export type { Food, FoodResponse, FoodsResponse, FoodListParams } from './food';
 export type { CoachProfileResponse, PublicCoachProfileResponse, CoachProfile, PublicCoachProfile, } from './coach';
 export type { OneRepMaxResponse } from './profile';
-export type { AnalyticsOverviewParams, AnalyticsOverviewResponse, ChartDataParams, } from './analytics';
+export type { AnalyticsOverviewParams, AnalyticsOverviewResponse, ChartDataParams, PersonalRecord, PersonalRecordType, PersonalRecordsParams, } from './analytics';
 export type { TemplateResponse, TemplatesResponse } from './templates';
 export type { MarketplacePlan, MarketplacePlansResponse, MarketplacePlanResponse, } from './marketplace';
 //# sourceMappingURL=index.d.ts.map
\ No newline at end of file
@@ -36,6 +36,9 @@ export type {
   AnalyticsOverviewParams,
   AnalyticsOverviewResponse,
   ChartDataParams,
+  PersonalRecord,
+  PersonalRecordType,
+  PersonalRecordsParams,
 } from './analytics';
 export type { TemplateResponse, TemplatesResponse } from './templates';
 export type {
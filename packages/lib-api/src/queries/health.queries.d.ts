@@ -7,7 +7,7 @@ import type { HealthSummary, HealthPlatform } from '@onecoach/lib-stores/health.
 /**
  * Health data type
  */
-export type HealthDataType = 'steps' | 'heartRate' | 'activeCalories' | 'weight' | 'workout';
+export type HealthDataType = 'steps' | 'heartRate' | 'activeCalories' | 'weight' | 'workout' | 'sleep' | 'hrv' | 'restingHeartRate' | 'vo2Max';
 /**
  * Health data request interface
  */
@@ -26,12 +26,24 @@ export interface HealthSyncRequest {
     dataRequests: HealthDataRequest[];
     syncTimestamp: string;
 }
+/**
+ * Per-type sync outcome
+ */
+export interface HealthSyncTypeResult {
+    received: number;
+    stored: number;
+    merged: number;
+    rejected: number;
+}
 /**
  * Health sync response interface
  */
 export interface HealthSyncResponse {
     success: boolean;
     syncedDataTypes: HealthDataType[];
+    skippedDataTypes?: string[];
+    results: Partial<Record<HealthDataType, HealthSyncTypeResult>>;
+    cursors: Partial<Record<HealthDataType, string>>;
     errors?: string[];
 }
 /**
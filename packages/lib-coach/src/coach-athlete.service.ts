@@ -0,0 +1,439 @@
+/**
+ * Coach Athlete Service
+ *
+ * Roster coach–atleta: inviti, accettazione, revoca e permessi per relazione.
+ * Ogni accesso di un coach ai dati di un atleta passa da `assertAccess`.
+ */
+
+import { prisma } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+import type { CoachAthleteStatus, coach_athlete_relationships } from '@prisma/client';
+
+/**
+ * Permessi concessi dall'atleta al coach per una singola relazione
+ */
+export interface CoachAthletePermissions {
+  readMaxes: boolean;
+  editMaxes: boolean;
+  editPlans: boolean;
+  editProfile: boolean;
+  viewBodyMeasurements: boolean;
+}
+
+export type CoachAthletePermission = keyof CoachAthletePermissions;
+
+export const DEFAULT_COACH_ATHLETE_PERMISSIONS: CoachAthletePermissions = {
+  readMaxes: true,
+  editMaxes: false,
+  editPlans: true,
+  editProfile: false,
+  viewBodyMeasurements: false,
+};
+
+const INVITATION_TTL_DAYS = 14;
+
+/**
+ * Input types
+ */
+export interface InviteAthleteInput {
+  coachId: string;
+  athleteId?: string;
+  athleteEmail?: string;
+  permissions?: Partial<CoachAthletePermissions>;
+  message?: string;
+}
+
+export interface ListRosterOptions {
+  /** 'ALL' = relazioni aperte (ACTIVE e PENDING), senza quelle revocate o rifiutate */
+  status?: CoachAthleteStatus | 'ALL';
+  limit?: number;
+  offset?: number;
+}
+
+export type CoachAthleteRelationship = Omit<coach_athlete_relationships, 'permissions'> & {
+  permissions: CoachAthletePermissions;
+};
+
+export interface RosterAthlete {
+  relationshipId: string;
+  status: CoachAthleteStatus;
+  permissions: CoachAthletePermissions;
+  acceptedAt: Date | null;
+  athlete: {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+    status: string;
+  };
+}
+
+/**
+ * Interface for Coach Athlete Service
+ */
+export interface ICoachAthleteService {
+  // Invitations
+  invite(input: InviteAthleteInput): Promise<CoachAthleteRelationship>;
+  accept(relationshipId: string, athleteId: string): Promise<CoachAthleteRelationship>;
+  decline(relationshipId: string, athleteId: string): Promise<CoachAthleteRelationship>;
+  revoke(relationshipId: string, actorId: string): Promise<CoachAthleteRelationship>;
+
+  // Permissions
+  updatePermissions(
+    relationshipId: string,
+    athleteId: string,
+    permissions: Partial<CoachAthletePermissions>
+  ): Promise<CoachAthleteRelationship>;
+
+  // Roster
+  listAthletes(coachId: string, options?: ListRosterOptions): Promise<RosterAthlete[]>;
+  listAthleteIds(coachId: string): Promise<string[]>;
+  listCoaches(athleteId: string): Promise<CoachAthleteRelationship[]>;
+  getActiveRelationship(coachId: string, athleteId: string): Promise<CoachAthleteRelationship | null>;
+  getOpenRelationship(coachId: string, athleteId: string): Promise<CoachAthleteRelationship | null>;
+
+  // Access control
+  assertAccess(
+    coachId: string,
+    athleteId: string,
+    permission?: CoachAthletePermission
+  ): Promise<CoachAthleteRelationship>;
+  hasPermission(coachId: string, athleteId: string, permission: CoachAthletePermission): Promise<boolean>;
+}
+
+/**
+ * Normalizza il JSON dei permessi applicando i default per le chiavi mancanti
+ */
+export function normalizeCoachAthletePermissions(value: unknown): CoachAthletePermissions {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const permissions = { ...DEFAULT_COACH_ATHLETE_PERMISSIONS };
+
+  for (const key of Object.keys(permissions) as CoachAthletePermission[]) {
+    if (typeof raw[key] === 'boolean') {
+      permissions[key] = raw[key] as boolean;
+    }
+  }
+
+  return permissions;
+}
+
+function toRelationship(row: coach_athlete_relationships): CoachAthleteRelationship {
+  return { ...row, permissions: normalizeCoachAthletePermissions(row.permissions) };
+}
+
+/**
+ * Implementation Coach Athlete Service
+ */
+class CoachAthleteService implements ICoachAthleteService {
+  /**
+   * Invite an athlete (by id or email) to the coach roster
+   */
+  async invite(input: InviteAthleteInput): Promise<CoachAthleteRelationship> {
+    if (!input.athleteId && !input.athleteEmail) {
+      throw new Error('athleteId or athleteEmail required');
+    }
+
+    const athlete = await prisma.users.findFirst({
+      where: input.athleteId ? { id: input.athleteId } : { email: input.athleteEmail },
+      select: { id: true },
+    });
+
+    if (!athlete) {
+      throw new Error('Athlete not found');
+    }
+
+    if (athlete.id === input.coachId) {
+      throw new Error('A coach cannot invite themselves');
+    }
+
+    const existing = await prisma.coach_athlete_relationships.findFirst({
+      where: {
+        coachId: input.coachId,
+        athleteId: athlete.id,
+        status: { in: ['PENDING', 'ACTIVE'] },
+      },
+    });
+
+    if (existing?.status === 'ACTIVE') {
+      throw new Error('Athlete is already in the roster');
+    }
+
+    const permissions = {
+      ...DEFAULT_COACH_ATHLETE_PERMISSIONS,
+      ...input.permissions,
+    };
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + INVITATION_TTL_DAYS);
+
+    // Un nuovo invito sostituisce quello pendente rinnovandone scadenza e permessi
+    if (existing) {
+      const renewed = await prisma.coach_athlete_relationships.update({
+        where: { id: existing.id },
+        data: {
+          permissions: permissions as unknown as Prisma.InputJsonValue,
+          message: input.message,
+          invitedAt: new Date(),
+          expiresAt,
+          updatedAt: new Date(),
+        },
+      });
+      return toRelationship(renewed);
+    }
+
+    const created = await prisma.coach_athlete_relationships.create({
+      data: {
+        coachId: input.coachId,
+        athleteId: athlete.id,
+        status: 'PENDING',
+        permissions: permissions as unknown as Prisma.InputJsonValue,
+        message: input.message,
+        invitedAt: new Date(),
+        expiresAt,
+        updatedAt: new Date(),
+      },
+    });
+
+    return toRelationship(created);
+  }
+
+  /**
+   * Accept a pending invitation (athlete side)
+   */
+  async accept(relationshipId: string, athleteId: string): Promise<CoachAthleteRelationship> {
+    const relationship = await this.getPendingForAthlete(relationshipId, athleteId);
+
+    if (relationship.expiresAt && relationship.expiresAt < new Date()) {
+      await prisma.coach_athlete_relationships.update({
+        where: { id: relationship.id },
+        data: { status: 'EXPIRED', updatedAt: new Date() },
+      });
+      throw new Error('Invitation has expired');
+    }
+
+    const updated = await prisma.coach_athlete_relationships.update({
+      where: { id: relationship.id },
+      data: {
+        status: 'ACTIVE',
+        acceptedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    return toRelationship(updated);
+  }
+
+  /**
+   * Decline a pending invitation (athlete side)
+   */
+  async decline(relationshipId: string, athleteId: string): Promise<CoachAthleteRelationship> {
+    const relationship = await this.getPendingForAthlete(relationshipId, athleteId);
+
+    const updated = await prisma.coach_athlete_relationships.update({
+      where: { id: relationship.id },
+      data: { status: 'DECLINED', updatedAt: new Date() },
+    });
+
+    return toRelationship(updated);
+  }
+
+  /**
+   * Revoke a relationship. Both the coach and the athlete can revoke.
+   */
+  async revoke(relationshipId: string, actorId: string): Promise<CoachAthleteRelationship> {
+    const relationship = await prisma.coach_athlete_relationships.findUnique({
+      where: { id: relationshipId },
+    });
+
+    if (
+      !relationship ||
+      (relationship.coachId !== actorId && relationship.athleteId !== actorId)
+    ) {
+      throw new Error('Relationship not found');
+    }
+
+    if (relationship.status !== 'ACTIVE' && relationship.status !== 'PENDING') {
+      throw new Error(`Relationship is ${relationship.status.toLowerCase()}`);
+    }
+
+    const updated = await prisma.coach_athlete_relationships.update({
+      where: { id: relationship.id },
+      data: {
+        status: 'REVOKED',
+        revokedAt: new Date(),
+        revokedById: actorId,
+        updatedAt: new Date(),
+      },
+    });
+
+    return toRelationship(updated);
+  }
+
+  /**
+   * Update permissions. Only the athlete grants permissions on their own data.
+   */
+  async updatePermissions(
+    relationshipId: string,
+    athleteId: string,
+    permissions: Partial<CoachAthletePermissions>
+  ): Promise<CoachAthleteRelationship> {
+    const relationship = await prisma.coach_athlete_relationships.findUnique({
+      where: { id: relationshipId },
+    });
+
+    if (!relationship || relationship.athleteId !== athleteId) {
+      throw new Error('Relationship not found');
+    }
+
+    const merged = {
+      ...normalizeCoachAthletePermissions(relationship.permissions),
+      ...permissions,
+    };
+
+    const updated = await prisma.coach_athlete_relationships.update({
+      where: { id: relationship.id },
+      data: {
+        permissions: merged as unknown as Prisma.InputJsonValue,
+        updatedAt: new Date(),
+      },
+    });
+
+    return toRelationship(updated);
+  }
+
+  /**
+   * List the athletes in a coach roster
+   */
+  async listAthletes(coachId: string, options: ListRosterOptions = {}): Promise<RosterAthlete[]> {
+    const status = options.status ?? 'ACTIVE';
+
+    const relationships = await prisma.coach_athlete_relationships.findMany({
+      where: {
+        coachId,
+        status: status === 'ALL' ? { in: ['PENDING', 'ACTIVE'] } : status,
+      },
+      include: {
+        athlete: {
+          select: { id: true, name: true, email: true, image: true, status: true },
+        },
+      },
+      orderBy: { invitedAt: 'desc' },
+      take: options.limit,
+      skip: options.offset,
+    });
+
+    return relationships.map((r) => ({
+      relationshipId: r.id,
+      status: r.status,
+      permissions: normalizeCoachAthletePermissions(r.permissions),
+      acceptedAt: r.acceptedAt,
+      athlete: r.athlete,
+    }));
+  }
+
+  /**
+   * IDs of the athletes with an active relationship (for scoped aggregate queries)
+   */
+  async listAthleteIds(coachId: string): Promise<string[]> {
+    const relationships = await prisma.coach_athlete_relationships.findMany({
+      where: { coachId, status: 'ACTIVE' },
+      select: { athleteId: true },
+    });
+
+    return relationships.map((r) => r.athleteId);
+  }
+
+  /**
+   * List the coaches of an athlete, including pending invitations
+   */
+  async listCoaches(athleteId: string): Promise<CoachAthleteRelationship[]> {
+    const relationships = await prisma.coach_athlete_relationships.findMany({
+      where: {
+        athleteId,
+        status: { in: ['PENDING', 'ACTIVE'] },
+      },
+      orderBy: { invitedAt: 'desc' },
+    });
+
+    return relationships.map(toRelationship);
+  }
+
+  async getActiveRelationship(
+    coachId: string,
+    athleteId: string
+  ): Promise<CoachAthleteRelationship | null> {
+    const relationship = await prisma.coach_athlete_relationships.findFirst({
+      where: { coachId, athleteId, status: 'ACTIVE' },
+    });
+
+    return relationship ? toRelationship(relationship) : null;
+  }
+
+  /**
+   * Active or pending relationship between coach and athlete
+   */
+  async getOpenRelationship(
+    coachId: string,
+    athleteId: string
+  ): Promise<CoachAthleteRelationship | null> {
+    const relationship = await prisma.coach_athlete_relationships.findFirst({
+      where: { coachId, athleteId, status: { in: ['PENDING', 'ACTIVE'] } },
+    });
+
+    return relationship ? toRelationship(relationship) : null;
+  }
+
+  /**
+   * Throws if the coach has no active relationship with the athlete
+   * or the relationship lacks the requested permission
+   */
+  async assertAccess(
+    coachId: string,
+    athleteId: string,
+    permission?: CoachAthletePermission
+  ): Promise<CoachAthleteRelationship> {
+    const relationship = await this.getActiveRelationship(coachId, athleteId);
+
+    if (!relationship) {
+      throw new Error(`Unauthorized: athlete ${athleteId} is not in the coach roster`);
+    }
+
+    if (permission && !relationship.permissions[permission]) {
+      throw new Error(`Unauthorized: missing "${permission}" permission for athlete ${athleteId}`);
+    }
+
+    return relationship;
+  }
+
+  async hasPermission(
+    coachId: string,
+    athleteId: string,
+    permission: CoachAthletePermission
+  ): Promise<boolean> {
+    const relationship = await this.getActiveRelationship(coachId, athleteId);
+    return relationship?.permissions[permission] ?? false;
+  }
+
+  private async getPendingForAthlete(
+    relationshipId: string,
+    athleteId: string
+  ): Promise<coach_athlete_relationships> {
+    const relationship = await prisma.coach_athlete_relationships.findUnique({
+      where: { id: relationshipId },
+    });
+
+    if (!relationship || relationship.athleteId !== athleteId) {
+      throw new Error('Invitation not found');
+    }
+
+    if (relationship.status !== 'PENDING') {
+      throw new Error(`Invitation is ${relationship.status.toLowerCase()}`);
+    }
+
+    return relationship;
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const coachAthleteService = new CoachAthleteService();
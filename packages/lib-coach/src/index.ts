@@ -6,3 +6,5 @@
  */
 
 export * from './coach.service';
+export * from './coach-athlete.service';
+export * from './plan-assignment.service';
@@ -0,0 +1,529 @@
+/**
+ * Plan Assignment Service
+ *
+ * Consegna dei piani coach → atleta con copia-su-assegnazione.
+ * Il piano del coach resta un template versionato; l'atleta riceve una copia
+ * collegata (plan_assignments) che registra piano sorgente e versione.
+ * Il coach può confrontare la copia con il template e propagare gli aggiornamenti.
+ */
+
+import { createId, prisma, saveVersion, type VersioningConfig } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+import type { PlanAssignmentType, plan_assignments } from '@prisma/client';
+import { coachAthleteService } from './coach-athlete.service';
+
+/**
+ * Contenuto del piano soggetto a versioning e confronto
+ */
+export interface NutritionPlanContent {
+  name: string;
+  description: string | null;
+  durationWeeks: number;
+  targetMacros: unknown;
+  restrictions: string[];
+  preferences: string[];
+  goals: unknown;
+  weeks: unknown;
+}
+
+export interface WorkoutProgramContent {
+  name: string;
+  description: string | null;
+  difficulty: unknown;
+  durationWeeks: number;
+  goals: unknown;
+  weeks: unknown;
+}
+
+export type PlanContent = NutritionPlanContent | WorkoutProgramContent;
+
+export interface PlanDiffEntry {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+}
+
+export interface AssignPlanInput {
+  coachId: string;
+  athleteId: string;
+  planType: PlanAssignmentType;
+  planId: string;
+}
+
+export interface PlanAssignmentResult {
+  assignment: plan_assignments;
+  assignedPlanId: string;
+}
+
+export interface PlanDrift {
+  assignmentId: string;
+  athleteId: string;
+  assignedPlanId: string;
+  sourceVersion: number;
+  latestVersion: number;
+  /** Il template ha versioni più recenti di quella consegnata */
+  templateUpdated: boolean;
+  /** L'atleta (o il coach sulla copia) ha modificato il piano rispetto alla versione consegnata */
+  athleteModified: boolean;
+  /** Differenze tra la copia dell'atleta e il template attuale */
+  changes: PlanDiffEntry[];
+}
+
+export interface PushTemplateUpdateInput {
+  coachId: string;
+  planType: PlanAssignmentType;
+  templateId: string;
+  athleteIds?: string[];
+  changeLog?: string;
+  /** Sovrascrive anche le copie modificate dall'atleta */
+  overwriteModified?: boolean;
+}
+
+export interface PushTemplateUpdateResult {
+  version: number;
+  updated: string[];
+  skipped: Array<{ athleteId: string; reason: 'athlete_modified' | 'up_to_date' | 'no_access' }>;
+}
+
+const MAX_DIFF_ENTRIES = 50;
+
+const nutritionVersioning: VersioningConfig<NutritionPlanContent> = {
+  tableName: 'nutrition_plan_versions',
+  entityIdField: 'planId',
+  maxVersions: 20,
+  stateToCreateInput: (state, planId, version, changeLog, userId) => ({
+    id: createId(),
+    planId,
+    version,
+    changeLog,
+    createdBy: userId,
+    snapshot: state as unknown as Prisma.InputJsonValue,
+  }),
+  recordToSnapshot: (record) => ({
+    timestamp: new Date(record.createdAt as string).getTime(),
+    description: String(record.changeLog ?? ''),
+    state: record.snapshot as NutritionPlanContent,
+  }),
+};
+
+const workoutVersioning: VersioningConfig<WorkoutProgramContent> = {
+  tableName: 'workout_program_versions',
+  entityIdField: 'programId',
+  maxVersions: 20,
+  stateToCreateInput: (state, programId, version, changeLog, userId) => ({
+    id: createId(),
+    programId,
+    version,
+    changeLog,
+    createdBy: userId,
+    snapshot: state as unknown as Prisma.InputJsonValue,
+  }),
+  recordToSnapshot: (record) => ({
+    timestamp: new Date(record.createdAt as string).getTime(),
+    description: String(record.changeLog ?? ''),
+    state: record.snapshot as WorkoutProgramContent,
+  }),
+};
+
+/**
+ * Confronto strutturale tra due contenuti di piano (JSON).
+ * Ritorna i path che differiscono, limitati a MAX_DIFF_ENTRIES.
+ */
+export function diffPlanContent(source: unknown, target: unknown, path = ''): PlanDiffEntry[] {
+  const entries: PlanDiffEntry[] = [];
+
+  const walk = (a: unknown, b: unknown, current: string) => {
+    if (entries.length >= MAX_DIFF_ENTRIES) return;
+
+    if (a === undefined && b !== undefined) {
+      entries.push({ path: current, kind: 'added' });
+      return;
+    }
+    if (a !== undefined && b === undefined) {
+      entries.push({ path: current, kind: 'removed' });
+      return;
+    }
+
+    const aIsObject = a !== null && typeof a === 'object';
+    const bIsObject = b !== null && typeof b === 'object';
+
+    if (!aIsObject || !bIsObject || Array.isArray(a) !== Array.isArray(b)) {
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        entries.push({ path: current, kind: 'changed' });
+      }
+      return;
+    }
+
+    const keys = new Set([...Object.keys(a as object), ...Object.keys(b as object)]);
+    for (const key of keys) {
+      walk(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+        current ? `${current}.${key}` : key
+      );
+    }
+  };
+
+  walk(source, target, path);
+  return entries;
+}
+
+/**
+ * Implementation Plan Assignment Service
+ */
+class PlanAssignmentService {
+  /**
+   * Assign a coach plan to an athlete creating a linked copy
+   */
+  async assignPlan(input: AssignPlanInput): Promise<PlanAssignmentResult> {
+    const content = await this.getContent(input.planType, input.planId, input.coachId);
+
+    if (!content) {
+      throw new Error('Plan not found');
+    }
+
+    const sourceVersion = await this.ensureVersion(
+      input.planType,
+      input.planId,
+      content,
+      input.coachId
+    );
+
+    // Copia e assegnazione insieme: nessuna copia orfana se il collegamento fallisce
+    return await prisma.$transaction(async (tx) => {
+      const assignedPlanId = await this.createCopy(tx, input.planType, content, input.athleteId);
+
+      const assignment = await tx.plan_assignments.create({
+        data: {
+          id: createId(),
+          coachId: input.coachId,
+          athleteId: input.athleteId,
+          planType: input.planType,
+          sourcePlanId: input.planId,
+          sourceVersion,
+          assignedPlanId,
+          assignedAt: new Date(),
+          lastSyncedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+
+      return { assignment, assignedPlanId };
+    });
+  }
+
+  /**
+   * List assignments of a template (optionally filtered by athlete)
+   */
+  async listAssignments(
+    coachId: string,
+    filter: { templateId?: string; athleteId?: string } = {}
+  ): Promise<plan_assignments[]> {
+    return await prisma.plan_assignments.findMany({
+      where: {
+        coachId,
+        ...(filter.templateId && { sourcePlanId: filter.templateId }),
+        ...(filter.athleteId && { athleteId: filter.athleteId }),
+      },
+      orderBy: { assignedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Compare every athlete copy of a template with the delivered version and the current template
+   */
+  async getDrift(
+    coachId: string,
+    planType: PlanAssignmentType,
+    templateId: string
+  ): Promise<PlanDrift[]> {
+    const template = await this.getContent(planType, templateId, coachId);
+
+    if (!template) {
+      throw new Error('Plan not found');
+    }
+
+    const [assignments, latestVersion] = await Promise.all([
+      this.listAssignments(coachId, { templateId }),
+      this.getLatestVersion(planType, templateId),
+    ]);
+
+    const drifts: PlanDrift[] = [];
+
+    for (const assignment of assignments) {
+      const copy = await this.getContent(planType, assignment.assignedPlanId);
+      if (!copy) continue;
+
+      const delivered = await this.getVersionSnapshot(
+        planType,
+        templateId,
+        assignment.sourceVersion
+      );
+
+      drifts.push({
+        assignmentId: assignment.id,
+        athleteId: assignment.athleteId,
+        assignedPlanId: assignment.assignedPlanId,
+        sourceVersion: assignment.sourceVersion,
+        latestVersion,
+        templateUpdated:
+          latestVersion > assignment.sourceVersion ||
+          diffPlanContent(delivered ?? template, template).length > 0,
+        // Snapshot consegnato rimosso dal pruning delle versioni: senza riferimento,
+        // qualsiasi differenza dal template va trattata come modifica dell'atleta
+        athleteModified: diffPlanContent(delivered ?? template, copy).length > 0,
+        changes: diffPlanContent(template, copy),
+      });
+    }
+
+    return drifts;
+  }
+
+  /**
+   * Snapshot the template as a new version and push it to the chosen athletes
+   */
+  async pushTemplateUpdate(input: PushTemplateUpdateInput): Promise<PushTemplateUpdateResult> {
+    const template = await this.getContent(input.planType, input.templateId, input.coachId);
+
+    if (!template) {
+      throw new Error('Plan not found');
+    }
+
+    const drifts = await this.getDrift(input.coachId, input.planType, input.templateId);
+    const targets = input.athleteIds
+      ? drifts.filter((d) => input.athleteIds!.includes(d.athleteId))
+      : drifts;
+
+    const version = await this.ensureVersion(
+      input.planType,
+      input.templateId,
+      template,
+      input.coachId,
+      input.changeLog ?? 'Template update pushed to athletes'
+    );
+
+    const result: PushTemplateUpdateResult = { version, updated: [], skipped: [] };
+
+    for (const drift of targets) {
+      // Le copie di atleti usciti dal roster non ricevono più aggiornamenti
+      if (!(await coachAthleteService.hasPermission(input.coachId, drift.athleteId, 'editPlans'))) {
+        result.skipped.push({ athleteId: drift.athleteId, reason: 'no_access' });
+        continue;
+      }
+
+      if (drift.changes.length === 0 && drift.sourceVersion === version) {
+        result.skipped.push({ athleteId: drift.athleteId, reason: 'up_to_date' });
+        continue;
+      }
+
+      if (drift.athleteModified && !input.overwriteModified) {
+        result.skipped.push({ athleteId: drift.athleteId, reason: 'athlete_modified' });
+        continue;
+      }
+
+      await prisma.$transaction(async (tx) => {
+        if (input.planType === 'NUTRITION') {
+          await tx.nutrition_plans.update({
+            where: { id: drift.assignedPlanId },
+            data: toNutritionData(template as NutritionPlanContent),
+          });
+        } else {
+          await tx.workout_programs.update({
+            where: { id: drift.assignedPlanId },
+            data: toWorkoutData(template as WorkoutProgramContent),
+          });
+        }
+
+        await tx.plan_assignments.update({
+          where: { id: drift.assignmentId },
+          data: { sourceVersion: version, lastSyncedAt: new Date(), updatedAt: new Date() },
+        });
+      });
+
+      result.updated.push(drift.athleteId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Latest saved version, or a new one if the template changed since then
+   */
+  private async ensureVersion(
+    planType: PlanAssignmentType,
+    planId: string,
+    content: PlanContent,
+    userId: string,
+    changeLog = 'Snapshot on assignment'
+  ): Promise<number> {
+    const latestVersion = await this.getLatestVersion(planType, planId);
+
+    if (latestVersion > 0) {
+      const latest = await this.getVersionSnapshot(planType, planId, latestVersion);
+      if (latest && diffPlanContent(latest, content).length === 0) {
+        return latestVersion;
+      }
+    }
+
+    const saved =
+      planType === 'NUTRITION'
+        ? await saveVersion(
+            nutritionVersioning,
+            planId,
+            content as NutritionPlanContent,
+            changeLog,
+            userId
+          )
+        : await saveVersion(
+            workoutVersioning,
+            planId,
+            content as WorkoutProgramContent,
+            changeLog,
+            userId
+          );
+
+    if (!saved.success || !saved.version) {
+      throw new Error(saved.error ?? 'Failed to save plan version');
+    }
+
+    return saved.version;
+  }
+
+  private async getLatestVersion(planType: PlanAssignmentType, planId: string): Promise<number> {
+    const latest =
+      planType === 'NUTRITION'
+        ? await prisma.nutrition_plan_versions.findFirst({
+            where: { planId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          })
+        : await prisma.workout_program_versions.findFirst({
+            where: { programId: planId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+
+    return latest?.version ?? 0;
+  }
+
+  private async getVersionSnapshot(
+    planType: PlanAssignmentType,
+    planId: string,
+    version: number
+  ): Promise<PlanContent | null> {
+    const record =
+      planType === 'NUTRITION'
+        ? await prisma.nutrition_plan_versions.findFirst({
+            where: { planId, version },
+            select: { snapshot: true },
+          })
+        : await prisma.workout_program_versions.findFirst({
+            where: { programId: planId, version },
+            select: { snapshot: true },
+          });
+
+    return (record?.snapshot as PlanContent | undefined) ?? null;
+  }
+
+  private async getContent(
+    planType: PlanAssignmentType,
+    planId: string,
+    ownerId?: string
+  ): Promise<PlanContent | null> {
+    if (planType === 'NUTRITION') {
+      const plan = await prisma.nutrition_plans.findFirst({
+        where: { id: planId, ...(ownerId && { userId: ownerId }) },
+      });
+
+      return plan
+        ? {
+            name: plan.name,
+            description: plan.description,
+            durationWeeks: plan.durationWeeks,
+            targetMacros: plan.targetMacros,
+            restrictions: plan.restrictions,
+            preferences: plan.preferences,
+            goals: plan.goals,
+            weeks: plan.weeks,
+          }
+        : null;
+    }
+
+    const program = await prisma.workout_programs.findFirst({
+      where: { id: planId, ...(ownerId && { userId: ownerId }) },
+    });
+
+    return program
+      ? {
+          name: program.name,
+          description: program.description,
+          difficulty: program.difficulty,
+          durationWeeks: program.durationWeeks,
+          goals: program.goals,
+          weeks: program.weeks,
+        }
+      : null;
+  }
+
+  private async createCopy(
+    tx: Prisma.TransactionClient,
+    planType: PlanAssignmentType,
+    content: PlanContent,
+    athleteId: string
+  ): Promise<string> {
+    const id = createId();
+
+    if (planType === 'NUTRITION') {
+      await tx.nutrition_plans.create({
+        data: {
+          id,
+          ...toNutritionData(content as NutritionPlanContent),
+          status: 'ACTIVE',
+          userProfile: {},
+          userId: athleteId,
+        },
+      });
+    } else {
+      await tx.workout_programs.create({
+        data: {
+          id,
+          ...toWorkoutData(content as WorkoutProgramContent),
+          status: 'ACTIVE',
+          userId: athleteId,
+        },
+      });
+    }
+
+    return id;
+  }
+}
+
+function toNutritionData(content: NutritionPlanContent) {
+  return {
+    name: content.name,
+    description: content.description,
+    durationWeeks: content.durationWeeks,
+    targetMacros: (content.targetMacros ?? {}) as Prisma.InputJsonValue,
+    restrictions: content.restrictions,
+    preferences: content.preferences,
+    goals: content.goals as Prisma.nutrition_plansCreateInput['goals'],
+    weeks: (content.weeks ?? []) as Prisma.InputJsonValue,
+    updatedAt: new Date(),
+  };
+}
+
+function toWorkoutData(content: WorkoutProgramContent) {
+  return {
+    name: content.name,
+    description: content.description,
+    difficulty: content.difficulty as Prisma.workout_programsCreateInput['difficulty'],
+    durationWeeks: content.durationWeeks,
+    goals: content.goals as Prisma.workout_programsCreateInput['goals'],
+    weeks: (content.weeks ?? []) as Prisma.InputJsonValue,
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Export singleton instance
+ */
+export const planAssignmentService = new PlanAssignmentService();
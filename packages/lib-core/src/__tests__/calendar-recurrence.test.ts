@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandRecurrence,
+  fromRecurrenceDateKey,
+  hasRemainingOccurrences,
+  isRecurrenceOccurrence,
+  toRecurrenceDateKey,
+  validateRecurrenceRule,
+} from '../calendar-recurrence';
+import type { RecurrenceRule } from '../calendar.service';
+
+const day = (key: string) => fromRecurrenceDateKey(key);
+
+const keys = (dtstart: string, rule: RecurrenceRule, from: string, to: string) =>
+  expandRecurrence(day(dtstart), rule, day(from), day(to)).map((o) => toRecurrenceDateKey(o.date));
+
+describe('date keys', () => {
+  it('usa la mezzanotte UTC indipendentemente dal fuso del server', () => {
+    expect(day('2026-03-29').toISOString()).toBe('2026-03-29T00:00:00.000Z');
+    expect(toRecurrenceDateKey(new Date('2026-03-29T23:30:00Z'))).toBe('2026-03-29');
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('espande un range giornaliero fino a UNTIL', () => {
+    const rule: RecurrenceRule = { frequency: 'DAILY', interval: 1, endDate: '2026-01-07' };
+
+    expect(keys('2026-01-05', rule, '2026-01-01', '2026-01-31')).toEqual([
+      '2026-01-05',
+      '2026-01-06',
+      '2026-01-07',
+    ]);
+  });
+
+  it('restituisce le occorrenze successive alla data base dentro la finestra', () => {
+    const rule: RecurrenceRule = { frequency: 'DAILY', interval: 2 };
+
+    expect(keys('2026-01-01', rule, '2026-01-10', '2026-01-14')).toEqual([
+      '2026-01-11',
+      '2026-01-13',
+    ]);
+  });
+
+  it('applica BYDAY settimanale con INTERVAL', () => {
+    const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'] };
+
+    expect(keys('2026-01-05', rule, '2026-01-05', '2026-01-25')).toEqual([
+      '2026-01-05',
+      '2026-01-08',
+      '2026-01-19',
+      '2026-01-22',
+    ]);
+  });
+
+  it('gestisce BYDAY ordinale e BYMONTHDAY negativo nel mensile', () => {
+    const lastFriday: RecurrenceRule = { frequency: 'MONTHLY', interval: 1, byDay: ['-1FR'] };
+    const lastDay: RecurrenceRule = { frequency: 'MONTHLY', interval: 1, byMonthDay: [-1] };
+
+    expect(keys('2026-01-01', lastFriday, '2026-01-01', '2026-03-31')).toEqual([
+      '2026-01-30',
+      '2026-02-27',
+      '2026-03-27',
+    ]);
+    expect(keys('2026-01-01', lastDay, '2026-01-01', '2026-03-31')).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+    ]);
+  });
+
+  it('conta COUNT dalla data base anche fuori finestra', () => {
+    const rule: RecurrenceRule = { frequency: 'DAILY', interval: 1, count: 5 };
+
+    expect(keys('2026-01-01', rule, '2026-01-04', '2026-01-31')).toEqual([
+      '2026-01-04',
+      '2026-01-05',
+    ]);
+  });
+
+  it('applica EXDATE e override di data e piano', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'DAILY',
+      interval: 1,
+      endDate: '2026-01-05',
+      exDates: ['2026-01-02'],
+      overrides: [{ occurrenceDate: '2026-01-03', date: '2026-01-10', planId: 'plan-b' }],
+    };
+
+    const occurrences = expandRecurrence(
+      day('2026-01-01'),
+      rule,
+      day('2026-01-01'),
+      day('2026-01-10')
+    );
+
+    expect(occurrences.map((o) => toRecurrenceDateKey(o.date))).toEqual([
+      '2026-01-01',
+      '2026-01-04',
+      '2026-01-05',
+      '2026-01-10',
+    ]);
+    expect(toRecurrenceDateKey(occurrences[3]!.occurrenceDate)).toBe('2026-01-03');
+    expect(occurrences[3]!.override?.planId).toBe('plan-b');
+  });
+
+  it("porta nella finestra un'occorrenza spostata da una data successiva", () => {
+    const rule: RecurrenceRule = {
+      frequency: 'WEEKLY',
+      interval: 1,
+      overrides: [{ occurrenceDate: '2026-02-02', date: '2026-01-07' }],
+    };
+
+    expect(keys('2026-01-05', rule, '2026-01-06', '2026-01-08')).toEqual(['2026-01-07']);
+  });
+});
+
+describe('isRecurrenceOccurrence', () => {
+  it('riconosce solo i giorni generati dalla regola', () => {
+    const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 1, byDay: ['WE'] };
+
+    expect(isRecurrenceOccurrence(day('2026-01-05'), rule, day('2026-01-14'))).toBe(true);
+    expect(isRecurrenceOccurrence(day('2026-01-05'), rule, day('2026-01-15'))).toBe(false);
+  });
+});
+
+describe('hasRemainingOccurrences', () => {
+  it('è falso quando tutte le occorrenze sono escluse', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'DAILY',
+      interval: 1,
+      endDate: '2026-01-02',
+      exDates: ['2026-01-01', '2026-01-02'],
+    };
+
+    expect(hasRemainingOccurrences(day('2026-01-01'), rule)).toBe(false);
+    expect(hasRemainingOccurrences(day('2026-01-01'), { ...rule, exDates: ['2026-01-01'] })).toBe(
+      true
+    );
+  });
+
+  it('considera infinite le regole senza UNTIL né COUNT', () => {
+    expect(
+      hasRemainingOccurrences(day('2026-01-01'), {
+        frequency: 'DAILY',
+        interval: 1,
+        exDates: ['2026-01-01'],
+      })
+    ).toBe(true);
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  it('rifiuta BYDAY ordinale fuori dal mensile', () => {
+    expect(() =>
+      validateRecurrenceRule({ frequency: 'WEEKLY', interval: 1, byDay: ['1MO'] })
+    ).toThrow('Ordinal byDay values are only allowed for monthly recurrences');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandSearchTerms,
+  getTextSearchConfig,
+  prepareSearchTerm,
+  toHighlightHtml,
+  toSearchHighlight,
+} from '../db/full-text-search';
+
+const START = '\uE000';
+const STOP = '\uE001';
+
+describe('getTextSearchConfig', () => {
+  it('mappa il locale sulla configurazione PostgreSQL della lingua', () => {
+    expect(getTextSearchConfig('it')).toBe('italian');
+    expect(getTextSearchConfig('it-IT')).toBe('italian');
+    expect(getTextSearchConfig('EN_us')).toBe('english');
+    expect(getTextSearchConfig('pt-BR')).toBe('portuguese');
+    expect(getTextSearchConfig('de')).toBe('german');
+  });
+
+  it("usa 'simple' per i locale non mappati o assenti", () => {
+    expect(getTextSearchConfig('ja')).toBe('simple');
+    expect(getTextSearchConfig('')).toBe('simple');
+    expect(getTextSearchConfig(null)).toBe('simple');
+    expect(getTextSearchConfig(undefined)).toBe('simple');
+  });
+});
+
+describe('prepareSearchTerm', () => {
+  it('rimuove gli operatori tsquery e normalizza gli spazi', () => {
+    expect(prepareSearchTerm("  pollo & (riso) | !olio:* 'evo'  ")).toBe('pollo riso olio evo');
+  });
+});
+
+describe('expandSearchTerms', () => {
+  const synonyms = [
+    ['petto di pollo', 'pollo petto', 'chicken breast'],
+    ['uovo', 'uova', 'egg'],
+  ];
+
+  it('sostituisce le frasi dei gruppi di sinonimi mantenendo per prima la query originale', () => {
+    expect(expandSearchTerms('Petto di Pollo alla griglia', synonyms)).toEqual([
+      'Petto di Pollo alla griglia',
+      'pollo petto alla griglia',
+      'chicken breast alla griglia',
+    ]);
+  });
+
+  it('confronta parole intere, senza accenti', () => {
+    expect(expandSearchTerms('uovò sodo', synonyms)).toEqual([
+      'uovò sodo',
+      'uova sodo',
+      'egg sodo',
+    ]);
+    expect(expandSearchTerms('uovoo', synonyms)).toEqual(['uovoo']);
+  });
+
+  it('limita il numero di varianti generate', () => {
+    const many = [Array.from({ length: 12 }, (_, i) => `alias${i}`)];
+
+    expect(expandSearchTerms('alias0', many)).toHaveLength(8);
+  });
+});
+
+describe('toHighlightHtml', () => {
+  it("fa l'escape dell'HTML e converte i delimitatori in <mark>", () => {
+    expect(toHighlightHtml(`${START}<b>Pollo</b>${STOP} & "riso" d'oro`)).toBe(
+      '<mark>&lt;b&gt;Pollo&lt;/b&gt;</mark> &amp; &quot;riso&quot; d&#39;oro'
+    );
+  });
+});
+
+describe('toSearchHighlight', () => {
+  it('mappa locale, campi evidenziati e match fuzzy', () => {
+    expect(
+      toSearchHighlight({
+        id: 'food-1',
+        rank: 1.2,
+        has_locale: true,
+        fuzzy: false,
+        matched_locale: 'it',
+        highlight_name: `Petto di ${START}pollo${STOP}`,
+        highlight_description: null,
+      })
+    ).toEqual({
+      locale: 'it',
+      name: 'Petto di <mark>pollo</mark>',
+      description: undefined,
+      fuzzy: false,
+    });
+  });
+});
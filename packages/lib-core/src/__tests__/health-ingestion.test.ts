@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  HealthIngestionService,
+  getSourcePriority,
+  normalizeHealthSample,
+  planHealthSampleMerge,
+  type HealthSample,
+  type HealthSampleInput,
+  type StoredHealthSample,
+} from '../health-ingestion.service';
+import { prisma } from '../prisma';
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    health_heart_rate: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    health_sync_cursors: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+}));
+vi.mock('../logger.service', () => ({ logger: { error: vi.fn() } }));
+
+const WATCH = 'Apple Watch';
+const PHONE = 'iPhone';
+
+function heartRate(input: HealthSampleInput): HealthSample {
+  return normalizeHealthSample('heartRate', { value: 60, ...input })!;
+}
+
+function steps(input: HealthSampleInput): HealthSample {
+  return normalizeHealthSample('steps', { value: 500, ...input })!;
+}
+
+function stored(sample: HealthSample): StoredHealthSample {
+  const { dedupeKey, source, startDate, endDate } = sample;
+  return { dedupeKey, source, startDate, endDate };
+}
+
+describe('normalizeHealthSample', () => {
+  it('usa il sourceId nella dedupeKey quando presente', () => {
+    const sample = heartRate({ source: WATCH, sourceId: 'hk-1', date: '2026-03-01T08:00:00Z' });
+
+    expect(sample.dedupeKey).toBe(`heartRate:${WATCH}:hk-1`);
+  });
+
+  it("senza sourceId ricava la dedupeKey dall'intervallo e dalla fase", () => {
+    const sample = normalizeHealthSample('sleep', {
+      source: WATCH,
+      stage: 'deep',
+      startDate: '2026-03-01T01:00:00Z',
+      endDate: '2026-03-01T01:30:00Z',
+    });
+
+    expect(sample?.dedupeKey).toBe(
+      `sleep:${WATCH}:2026-03-01T01:00:00.000Z:2026-03-01T01:30:00.000Z:DEEP`
+    );
+    expect(sample?.value).toBe(30);
+  });
+
+  it('produce la stessa dedupeKey per lo stesso campione risincronizzato', () => {
+    const input = {
+      source: PHONE,
+      startDate: '2026-03-01T08:00:00Z',
+      endDate: '2026-03-01T09:00:00Z',
+    };
+
+    expect(steps(input).dedupeKey).toBe(steps({ ...input, value: 800 }).dedupeKey);
+  });
+
+  it('scarta intervalli invertiti e valori negativi', () => {
+    expect(
+      normalizeHealthSample('steps', {
+        value: 10,
+        startDate: '2026-03-01T09:00:00Z',
+        endDate: '2026-03-01T08:00:00Z',
+      })
+    ).toBeNull();
+    expect(
+      normalizeHealthSample('weight', { value: -1, date: '2026-03-01T08:00:00Z' })
+    ).toBeNull();
+  });
+});
+
+describe('getSourcePriority', () => {
+  it('preferisce gli indossabili al telefono e il telefono alle sorgenti sconosciute', () => {
+    expect(getSourcePriority(WATCH)).toBe(2);
+    expect(getSourcePriority('Garmin Connect')).toBe(2);
+    expect(getSourcePriority(PHONE)).toBe(1);
+    expect(getSourcePriority('MyFitnessApp')).toBe(0);
+  });
+});
+
+describe('planHealthSampleMerge', () => {
+  it('sostituisce il campione salvato del telefono con quello dello smartwatch', () => {
+    const phone = heartRate({ source: PHONE, date: '2026-03-01T08:00:00Z' });
+    const watch = heartRate({ source: WATCH, date: '2026-03-01T08:00:30Z' });
+
+    const plan = planHealthSampleMerge('heartRate', [watch], [stored(phone)]);
+
+    expect(plan.upserts).toEqual([watch]);
+    expect(plan.deletions).toEqual([phone.dedupeKey]);
+    expect(plan.merged).toBe(0);
+  });
+
+  it('scarta il campione meno affidabile anche quando arriva nello stesso batch', () => {
+    const phone = steps({
+      source: PHONE,
+      startDate: '2026-03-01T08:00:00Z',
+      endDate: '2026-03-01T09:00:00Z',
+    });
+    const watch = steps({
+      source: WATCH,
+      startDate: '2026-03-01T08:30:00Z',
+      endDate: '2026-03-01T09:30:00Z',
+    });
+
+    const plan = planHealthSampleMerge('steps', [phone, watch], []);
+
+    expect(plan.upserts).toEqual([watch]);
+    expect(plan.deletions).toEqual([]);
+    expect(plan.merged).toBe(1);
+  });
+
+  it('a parità di affidabilità mantiene il campione già salvato', () => {
+    const existing = heartRate({ source: WATCH, date: '2026-03-01T08:00:00Z' });
+    const incoming = heartRate({ source: 'Garmin Venu', date: '2026-03-01T08:00:20Z' });
+
+    const plan = planHealthSampleMerge('heartRate', [incoming], [stored(existing)]);
+
+    expect(plan.upserts).toEqual([]);
+    expect(plan.merged).toBe(1);
+  });
+
+  it('non fonde campioni fuori dalla finestra o intervalli solo adiacenti', () => {
+    const phone = heartRate({ source: PHONE, date: '2026-03-01T08:00:00Z' });
+    const watch = heartRate({ source: WATCH, date: '2026-03-01T08:02:00Z' });
+    const morning = steps({
+      source: PHONE,
+      startDate: '2026-03-01T08:00:00Z',
+      endDate: '2026-03-01T09:00:00Z',
+    });
+    const next = steps({
+      source: WATCH,
+      startDate: '2026-03-01T09:00:00Z',
+      endDate: '2026-03-01T10:00:00Z',
+    });
+
+    expect(planHealthSampleMerge('heartRate', [watch], [stored(phone)]).deletions).toEqual([]);
+    expect(planHealthSampleMerge('steps', [next], [stored(morning)]).deletions).toEqual([]);
+  });
+
+  it('aggiorna il campione della stessa sorgente invece di fonderlo', () => {
+    const previous = heartRate({ source: WATCH, sourceId: 'hk-1', date: '2026-03-01T08:00:00Z' });
+    const resynced = heartRate({
+      source: WATCH,
+      sourceId: 'hk-1',
+      value: 62,
+      date: '2026-03-01T08:00:00Z',
+    });
+
+    const plan = planHealthSampleMerge('heartRate', [resynced], [stored(previous)]);
+
+    expect(plan.upserts).toEqual([resynced]);
+    expect(plan.deletions).toEqual([]);
+  });
+});
+
+describe('HealthIngestionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.health_heart_rate.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.health_sync_cursors.findMany).mockResolvedValue([]);
+  });
+
+  it('carica i candidati alla fusione una volta per blocco di campioni', async () => {
+    const data = Array.from({ length: 250 }, (_, i) => ({
+      source: WATCH,
+      value: 70,
+      date: new Date(Date.UTC(2026, 2, 1, 8, 0, i * 5)).toISOString(),
+    }));
+
+    const result = await new HealthIngestionService().ingest('user-1', [
+      { dataType: 'heartRate', data },
+    ]);
+
+    expect(prisma.health_heart_rate.findMany).toHaveBeenCalledTimes(2);
+    expect(prisma.health_heart_rate.upsert).toHaveBeenCalledTimes(250);
+    // Una transazione per blocco: 200 + 50 upsert
+    const transactions = vi.mocked(prisma.$transaction).mock.calls;
+    expect(transactions.map(([operations]) => (operations as unknown[]).length)).toEqual([200, 50]);
+    expect(result.results.heartRate).toEqual({
+      received: 250,
+      stored: 250,
+      merged: 0,
+      rejected: 0,
+    });
+    expect(result.cursors.heartRate).toBe(data[249]!.date);
+  });
+
+  it('rifiuta i batch oltre il limite senza avanzare il cursore', async () => {
+    const data = Array.from({ length: 5001 }, () => ({
+      source: WATCH,
+      value: 70,
+      date: '2026-03-01T08:00:00Z',
+    }));
+
+    const result = await new HealthIngestionService().ingest('user-1', [
+      { dataType: 'heartRate', data },
+    ]);
+
+    expect(prisma.health_heart_rate.findMany).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([
+      'Error syncing heartRate: Troppi campioni (5001): massimo 5000 per tipo',
+    ]);
+    expect(result.cursors.heartRate).toBeUndefined();
+  });
+});
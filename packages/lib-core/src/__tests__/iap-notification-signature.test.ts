@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  X509Certificate,
+  createPrivateKey,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from 'crypto';
+import { verifyAppleJws } from '../iap-notification-signature.server';
+import appleChains from './fixtures/iap/apple-x5c-chains.json';
+
+const AUDIENCE = 'https://api.onecoach.app/api/iap/notifications/google';
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+type VerifyGoogleOidcToken =
+  typeof import('../iap-notification-signature.server').verifyGoogleOidcToken;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function signOidcToken(kid: string, key: KeyObject = privateKey): string {
+  const iat = Math.floor(NOW.getTime() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'RS256', kid, typ: 'JWT' })}.${encode({
+    iss: 'https://accounts.google.com',
+    aud: AUDIENCE,
+    iat,
+    exp: iat + 3600,
+    email: 'play-rtdn@onecoach-prod.iam.gserviceaccount.com',
+    email_verified: true,
+  })}`;
+  return `${unsigned}.${sign('RSA-SHA256', Buffer.from(unsigned), key).toString('base64url')}`;
+}
+
+function certsResponse(kid: string): Response {
+  return new Response(
+    JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256' }] }),
+    { headers: { 'cache-control': 'public, max-age=20000' } }
+  );
+}
+
+describe('verifyGoogleOidcToken', () => {
+  let verifyGoogleOidcToken: VerifyGoogleOidcToken;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    fetchMock = vi.fn().mockImplementation(async () => certsResponse('key-1'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    // Cache delle chiavi a livello di modulo: un'istanza nuova per ogni test
+    vi.resetModules();
+    ({ verifyGoogleOidcToken } = await import('../iap-notification-signature.server'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('verifica firma, issuer e audience con le chiavi pubblicate', async () => {
+    const claims = await verifyGoogleOidcToken(signOidcToken('key-1'), {
+      audience: AUDIENCE,
+      serviceAccountEmail: 'play-rtdn@onecoach-prod.iam.gserviceaccount.com',
+      now: NOW,
+    });
+
+    expect(claims.aud).toBe(AUDIENCE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rifiuta token firmati con una chiave diversa', async () => {
+    const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    await expect(
+      verifyGoogleOidcToken(signOidcToken('key-1', otherKey), { audience: AUDIENCE, now: NOW })
+    ).rejects.toThrow('Firma del token OIDC non valida');
+  });
+
+  it('rifiuta audience diverse', async () => {
+    await expect(
+      verifyGoogleOidcToken(signOidcToken('key-1'), { audience: 'https://other.app', now: NOW })
+    ).rejects.toThrow('Audience del token OIDC non valida');
+  });
+
+  it('non riscarica le chiavi per ogni kid sconosciuto durante il cooldown', async () => {
+    const options = { audience: AUDIENCE, now: NOW };
+
+    await expect(verifyGoogleOidcToken(signOidcToken('forged-1'), options)).rejects.toThrow(
+      'Chiave di firma Google sconosciuta: forged-1'
+    );
+    await expect(verifyGoogleOidcToken(signOidcToken('forged-2'), options)).rejects.toThrow(
+      'Chiave di firma Google sconosciuta: forged-2'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Dopo il cooldown un kid nuovo (rotazione delle chiavi) provoca un nuovo download
+    fetchMock.mockImplementation(async () => certsResponse('key-2'));
+    vi.setSystemTime(new Date(NOW.getTime() + 61_000));
+
+    const claims = await verifyGoogleOidcToken(signOidcToken('key-2'), options);
+    expect(claims.aud).toBe(AUDIENCE);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+/**
+ * Catene generate per i test: root di prova, intermedio WWDR e leaf con le estensioni Apple,
+ * più varianti prive di un requisito ciascuna
+ */
+const certificates = appleChains.certificates;
+const leafKey = createPrivateKey(appleChains.leafPrivateKey);
+const rootFingerprints = [
+  new X509Certificate(Buffer.from(certificates.root, 'base64')).fingerprint256,
+];
+// Il leaf di prova è valido per tutto il 2026
+const SIGNED_DATE = Date.parse('2026-03-01T00:00:00Z');
+
+function signAppleJws(
+  x5c: string[],
+  payload: object = { notificationType: 'DID_RENEW', signedDate: SIGNED_DATE }
+): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'ES256', x5c })}.${encode(payload)}`;
+  const signature = sign('sha256', Buffer.from(unsigned), {
+    key: leafKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `${unsigned}.${signature.toString('base64url')}`;
+}
+
+describe('verifyAppleJws', () => {
+  const validChain = [certificates.leaf, certificates.intermediate, certificates.root];
+
+  it('accetta una catena Apple completa e restituisce il payload', () => {
+    expect(verifyAppleJws(signAppleJws(validChain), { rootFingerprints })).toEqual({
+      notificationType: 'DID_RENEW',
+      signedDate: SIGNED_DATE,
+    });
+  });
+
+  it('rifiuta una radice non riconosciuta', () => {
+    expect(() => verifyAppleJws(signAppleJws(validChain))).toThrow(
+      'Certificato radice non riconosciuto'
+    );
+  });
+
+  it('rifiuta catene senza intermedio', () => {
+    const token = signAppleJws([certificates.leaf, certificates.root]);
+
+    expect(() => verifyAppleJws(token, { rootFingerprints })).toThrow(
+      'Catena di certificati x5c mancante o incompleta'
+    );
+  });
+
+  it("rifiuta un leaf senza l'estensione Apple di firma", () => {
+    const token = signAppleJws([
+      certificates.leafWithoutOid,
+      certificates.intermediate,
+      certificates.root,
+    ]);
+
+    expect(() => verifyAppleJws(token, { rootFingerprints })).toThrow(
+      'Certificato di firma senza estensione Apple'
+    );
+  });
+
+  it("rifiuta un intermedio senza l'estensione Apple WWDR", () => {
+    const token = signAppleJws([
+      certificates.leaf,
+      certificates.intermediateWithoutOid,
+      certificates.root,
+    ]);
+
+    expect(() => verifyAppleJws(token, { rootFingerprints })).toThrow(
+      'Certificato intermedio senza estensione Apple WWDR'
+    );
+  });
+
+  it('rifiuta un intermedio senza CA:true', () => {
+    const token = signAppleJws([
+      certificates.leaf,
+      certificates.intermediateNotCa,
+      certificates.root,
+    ]);
+
+    expect(() => verifyAppleJws(token, { rootFingerprints })).toThrow(
+      'Certificato intermedio non autorizzato a firmare certificati'
+    );
+  });
+
+  it('rifiuta un intermedio senza keyCertSign', () => {
+    const token = signAppleJws([
+      certificates.leaf,
+      certificates.intermediateWithoutKeyCertSign,
+      certificates.root,
+    ]);
+
+    expect(() => verifyAppleJws(token, { rootFingerprints })).toThrow(
+      'Certificato intermedio non autorizzato a firmare certificati'
+    );
+  });
+
+  it('valuta la validità della catena al signedDate del payload', () => {
+    const expired = signAppleJws(validChain, { signedDate: Date.parse('2027-06-01T00:00:00Z') });
+
+    expect(() => verifyAppleJws(expired, { rootFingerprints })).toThrow(
+      'Certificato della catena x5c scaduto o non ancora valido'
+    );
+    // Firmato quando il leaf era valido: accettato anche se verificato dopo la scadenza
+    expect(() =>
+      verifyAppleJws(signAppleJws(validChain), {
+        rootFingerprints,
+        now: new Date('2027-06-01T00:00:00Z'),
+      })
+    ).not.toThrow();
+  });
+
+  it('rifiuta payload alterati dopo la firma', () => {
+    const [header, , signature] = signAppleJws(validChain).split('.');
+    const forged = Buffer.from(JSON.stringify({ signedDate: SIGNED_DATE, price: 0 })).toString(
+      'base64url'
+    );
+
+    expect(() => verifyAppleJws(`${header}.${forged}.${signature}`, { rootFingerprints })).toThrow(
+      'Firma JWS non valida'
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  IapNotificationService,
+  type GooglePubSubPushBody,
+  type IapNotificationVerifier,
+  type IapStoreEvent,
+} from '../iap-notification.service';
+import appleDidRenew from './fixtures/iap/apple-did-renew.json';
+import appleDidFailToRenew from './fixtures/iap/apple-did-fail-to-renew.json';
+import appleRenewalStatus from './fixtures/iap/apple-did-change-renewal-status.json';
+import googleRenewed from './fixtures/iap/google-rtdn-renewed.json';
+import googleVoided from './fixtures/iap/google-rtdn-voided.json';
+import googleTest from './fixtures/iap/google-rtdn-test.json';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    iap_notifications: {
+      createMany: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../prisma', () => ({ prisma }));
+vi.mock('../logger.service', () => ({ logger: { warn: vi.fn(), error: vi.fn() } }));
+vi.mock('../credit.service', () => ({ creditService: {} }));
+vi.mock('../dunning.service', () => ({ dunningService: {} }));
+vi.mock('../entitlement.service', () => ({ entitlementService: {} }));
+vi.mock('../iap-verification.server', () => ({ verifyGoogleReceipt: vi.fn() }));
+
+const PURCHASE_TOKEN =
+  'kgbhnkdpnlhigmhjkfmknmbj.AO-J1OzX4kqW0pZ8yR3nQe7TbVd5sLm2Hc9FgJa6UiWoXp1KrEt';
+
+/**
+ * Verifier dei test: le firme dei fixture non sono verificabili, si decodifica solo il payload
+ */
+function createVerifier(): IapNotificationVerifier {
+  return {
+    verifyAppleJws: <T>(token: string) =>
+      JSON.parse(Buffer.from(token.split('.')[1]!, 'base64url').toString('utf8')) as T,
+    verifyGoogleToken: vi.fn().mockResolvedValue({
+      iss: 'https://accounts.google.com',
+      aud: 'https://api.onecoach.app/api/iap/notifications/google',
+      exp: 1772326805,
+      iat: 1772323205,
+      email: 'play-rtdn@onecoach-prod.iam.gserviceaccount.com',
+      email_verified: true,
+    }),
+    fetchGoogleSubscription: vi.fn().mockResolvedValue({
+      productId: 'PLUS',
+      originalTransactionId: 'GPA.3345-1234-5678-90123..1',
+      transactionId: 'GPA.3345-1234-5678-90123..1',
+      purchaseDate: 1772323200000,
+      expirationDate: 1774915200000,
+      isInTrial: false,
+      willAutoRenew: true,
+      isCancelled: false,
+      hasBillingIssue: false,
+    }),
+  };
+}
+
+describe('IapNotificationService - App Store', () => {
+  let service: IapNotificationService;
+
+  beforeEach(() => {
+    vi.stubEnv('APPLE_BUNDLE_ID', 'app.onecoach.ios');
+    service = new IapNotificationService(createVerifier());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('normalizza DID_RENEW con transazione e stato del rinnovo', () => {
+    const event = service.decodeAppleNotification(appleDidRenew.signedPayload);
+
+    expect(event).toEqual({
+      platform: 'APPLE',
+      notificationId: '5f3c2a1e-8d7b-4c9a-b1e2-3f4a5b6c7d8e',
+      type: 'DID_RENEW',
+      subtype: null,
+      action: 'RENEW',
+      storeTransactionId: '2000000512345678',
+      transactionId: '2000000598765432',
+      productId: 'PLUS',
+      periodStart: new Date(1772323200000),
+      periodEnd: new Date(1774915200000),
+      willAutoRenew: true,
+      occurredAt: new Date(1772323203000),
+    });
+  });
+
+  it('mappa DID_FAIL_TO_RENEW in periodo di grazia come problema di pagamento', () => {
+    const event = service.decodeAppleNotification(appleDidFailToRenew.signedPayload);
+
+    expect(event.action).toBe('BILLING_ISSUE');
+    expect(event.subtype).toBe('GRACE_PERIOD');
+    expect(event.storeTransactionId).toBe('2000000512345678');
+  });
+
+  it('usa il subtype per il cambio di rinnovo automatico', () => {
+    const event = service.decodeAppleNotification(appleRenewalStatus.signedPayload);
+
+    expect(event.action).toBe('AUTO_RENEW_CHANGED');
+    expect(event.willAutoRenew).toBe(false);
+  });
+
+  it("rifiuta le notifiche di un'altra app", () => {
+    vi.stubEnv('APPLE_BUNDLE_ID', 'app.other.ios');
+
+    expect(() => service.decodeAppleNotification(appleDidRenew.signedPayload)).toThrow(
+      'Bundle id della notifica non valido: app.onecoach.ios'
+    );
+  });
+
+  it('rifiuta le notifiche se APPLE_BUNDLE_ID non è configurato', () => {
+    vi.stubEnv('APPLE_BUNDLE_ID', '');
+
+    expect(() => service.decodeAppleNotification(appleDidRenew.signedPayload)).toThrow(
+      'APPLE_BUNDLE_ID non configurato'
+    );
+  });
+
+  it("rifiuta le notifiche Sandbox sull'ambiente di produzione", () => {
+    vi.stubEnv('APPLE_IAP_ENVIRONMENT', 'Production');
+
+    expect(() => service.decodeAppleNotification(appleDidRenew.signedPayload)).toThrow(
+      'Ambiente della notifica non valido: Sandbox (atteso Production)'
+    );
+  });
+});
+
+describe('IapNotificationService - claim', () => {
+  const event: IapStoreEvent = {
+    platform: 'APPLE',
+    notificationId: '5f3c2a1e-8d7b-4c9a-b1e2-3f4a5b6c7d8e',
+    type: 'TEST',
+    subtype: null,
+    action: 'IGNORE',
+    storeTransactionId: null,
+    transactionId: null,
+    productId: null,
+    periodStart: null,
+    periodEnd: null,
+    willAutoRenew: null,
+    occurredAt: new Date(1772323203000),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    prisma.iap_notifications.createMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('riprende notifiche fallite o PROCESSING oltre il lock, contando il tentativo', async () => {
+    prisma.iap_notifications.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await new IapNotificationService(createVerifier()).handle(event);
+
+    expect(result).toEqual({ duplicate: false, status: 'IGNORED', action: 'IGNORE' });
+    expect(prisma.iap_notifications.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: `APPLE:${event.notificationId}`,
+        OR: [
+          { status: 'FAILED' },
+          { status: 'PROCESSING', updatedAt: { lt: new Date('2026-03-01T11:50:00Z') } },
+        ],
+      },
+      data: { status: 'PROCESSING', attempts: { increment: 1 }, updatedAt: new Date() },
+    });
+  });
+
+  it('ignora le riconsegne di notifiche in elaborazione', async () => {
+    prisma.iap_notifications.updateMany.mockResolvedValue({ count: 0 });
+    prisma.iap_notifications.findUnique.mockResolvedValue({ status: 'PROCESSING' });
+
+    const result = await new IapNotificationService(createVerifier()).handle(event);
+
+    expect(result).toEqual({ duplicate: true, status: 'PROCESSING', action: 'IGNORE' });
+    expect(prisma.iap_notifications.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('IapNotificationService - Google Play RTDN', () => {
+  let verifier: IapNotificationVerifier;
+  let service: IapNotificationService;
+
+  beforeEach(() => {
+    verifier = createVerifier();
+    service = new IapNotificationService(verifier);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('verifica il token OIDC e risolve il rinnovo con lo stato dello store', async () => {
+    const body = googleRenewed as GooglePubSubPushBody;
+    const notification = await service.decodeGoogleNotification('Bearer oidc-token', body);
+    const event = await service.resolveGoogleNotification(notification, body.message.messageId);
+
+    expect(verifier.verifyGoogleToken).toHaveBeenCalledWith('oidc-token');
+    expect(verifier.fetchGoogleSubscription).toHaveBeenCalledWith('PLUS', PURCHASE_TOKEN);
+    expect(event).toEqual({
+      platform: 'GOOGLE',
+      notificationId: '10123456789012345',
+      type: 'SUBSCRIPTION_RENEWED',
+      subtype: null,
+      action: 'RENEW',
+      storeTransactionId: PURCHASE_TOKEN,
+      transactionId: 'GPA.3345-1234-5678-90123..1',
+      productId: 'PLUS',
+      periodStart: new Date(1772323200000),
+      periodEnd: new Date(1774915200000),
+      willAutoRenew: true,
+      occurredAt: new Date(1772323205123),
+    });
+  });
+
+  it('revoca gli abbonamenti rimborsati senza interrogare lo store', async () => {
+    const body = googleVoided as GooglePubSubPushBody;
+    const notification = await service.decodeGoogleNotification('Bearer oidc-token', body);
+    const event = await service.resolveGoogleNotification(notification, body.message.messageId);
+
+    expect(verifier.fetchGoogleSubscription).not.toHaveBeenCalled();
+    expect(event.action).toBe('REVOKE');
+    expect(event.storeTransactionId).toBe(PURCHASE_TOKEN);
+    expect(event.transactionId).toBe('GPA.3345-1234-5678-90123..0');
+  });
+
+  it('ignora le notifiche di test', async () => {
+    const body = googleTest as GooglePubSubPushBody;
+    const notification = await service.decodeGoogleNotification('Bearer oidc-token', body);
+    const event = await service.resolveGoogleNotification(notification, body.message.messageId);
+
+    expect(event.type).toBe('TEST_NOTIFICATION');
+    expect(event.action).toBe('IGNORE');
+  });
+
+  it('rifiuta le push senza token OIDC', async () => {
+    await expect(
+      service.decodeGoogleNotification(null, googleRenewed as GooglePubSubPushBody)
+    ).rejects.toThrow('Token OIDC mancante');
+    expect(verifier.verifyGoogleToken).not.toHaveBeenCalled();
+  });
+
+  it('rifiuta le notifiche di un altro package', async () => {
+    vi.stubEnv('GOOGLE_PLAY_PACKAGE_NAME', 'app.other.android');
+
+    await expect(
+      service.decodeGoogleNotification('Bearer oidc-token', googleRenewed as GooglePubSubPushBody)
+    ).rejects.toThrow('Package della notifica non valido: app.onecoach.android');
+  });
+});
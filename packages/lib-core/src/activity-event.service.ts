@@ -0,0 +1,58 @@
+/**
+ * Activity Event Service
+ *
+ * Log append-only delle azioni chiave degli utenti (user_activity_events),
+ * base delle metriche di engagement (DAU/WAU/MAU, retention per coorte, adozione).
+ * A differenza di users.updatedAt misura l'utilizzo reale, non le modifiche al profilo.
+ *
+ * La scrittura non deve mai bloccare il flusso principale: gli errori vengono solo loggati.
+ */
+
+import { createId } from '@paralleldrive/cuid2';
+import type { Prisma } from '@prisma/client';
+import { logger } from './logger.service';
+import { prisma } from './prisma';
+
+export type ActivityEventType =
+  // Registrato da @onecoach/one-workout quando la sessione viene completata e salvata
+  | 'WORKOUT_SESSION_LOGGED'
+  | 'MEAL_LOGGED'
+  | 'CHAT_TURN'
+  | 'HABIT_TOGGLED'
+  | 'PLAN_PURCHASED';
+
+export const ACTIVITY_EVENT_TYPES: ActivityEventType[] = [
+  'WORKOUT_SESSION_LOGGED',
+  'MEAL_LOGGED',
+  'CHAT_TURN',
+  'HABIT_TOGGLED',
+  'PLAN_PURCHASED',
+];
+
+export class ActivityEventService {
+  /**
+   * Registra un evento; non lancia mai eccezioni
+   */
+  async record(
+    userId: string,
+    eventType: ActivityEventType,
+    metadata?: Record<string, unknown>,
+    occurredAt: Date = new Date()
+  ): Promise<void> {
+    try {
+      await prisma.user_activity_events.create({
+        data: {
+          id: createId(),
+          userId,
+          eventType,
+          metadata: metadata as Prisma.InputJsonValue | undefined,
+          occurredAt,
+        },
+      });
+    } catch (error: unknown) {
+      logger.warn('[ActivityEventService] Event not recorded', { error, userId, eventType });
+    }
+  }
+}
+
+export const activityEventService: ActivityEventService = new ActivityEventService();
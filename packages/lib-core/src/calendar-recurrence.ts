@@ -0,0 +1,292 @@
+/**
+ * Calendar Recurrence
+ *
+ * Espansione pura delle RecurrenceRule (sottoinsieme di RFC 5545 RRULE) in
+ * occorrenze giornaliere. Le date sono giorni di calendario a mezzanotte UTC,
+ * come le colonne date di calendar_assignments, il feed iCal e il sync: il
+ * risultato non dipende dal fuso orario del server.
+ *
+ * - FREQ DAILY/WEEKLY/MONTHLY con INTERVAL, COUNT, UNTIL
+ * - BYDAY (anche con ordinale nel mensile: 1MO, -1FR) e BYMONTHDAY (anche negativo)
+ * - EXDATE e override per singola occorrenza (spostamento o cambio piano)
+ */
+
+import type { RecurrenceOverride, RecurrenceRule } from './calendar.service';
+
+/** Limite di sicurezza sui periodi generati per una singola espansione */
+const MAX_PERIODS = 10_000;
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** Ordine di Date.getUTCDay(): 0 = domenica */
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface RecurrenceOccurrence {
+  /** Giorno generato dalla regola */
+  occurrenceDate: Date;
+  /** Giorno effettivo (diverso se l'occorrenza è stata spostata) */
+  date: Date;
+  override: RecurrenceOverride | null;
+}
+
+// ================================
+// DATE HELPERS
+// ================================
+
+function utcDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function startOfDay(date: Date): Date {
+  return utcDay(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return utcDay(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return utcDay(year, month + 1, 0).getUTCDate();
+}
+
+/**
+ * Chiave YYYY-MM-DD del giorno (UTC)
+ */
+export function toRecurrenceDateKey(date: Date): string {
+  return startOfDay(date).toISOString().slice(0, 10);
+}
+
+export function fromRecurrenceDateKey(key: string): Date {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    throw new Error(`Invalid date "${key}", expected YYYY-MM-DD`);
+  }
+  return utcDay(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+// ================================
+// VALIDATION
+// ================================
+
+function parseByDay(value: string): { ordinal: number | null; weekday: number } | null {
+  const match = value.toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!match) return null;
+  const ordinal = match[1] ? Number(match[1]) : null;
+  if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) return null;
+  return { ordinal, weekday: RECURRENCE_WEEKDAYS.indexOf(match[2] as RecurrenceWeekday) };
+}
+
+/**
+ * Verifica la regola prima del salvataggio; lancia un errore descrittivo
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): void {
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(rule.frequency)) {
+    throw new Error(`Invalid recurrence frequency "${rule.frequency}"`);
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new Error('Recurrence interval must be a positive integer');
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    throw new Error('Recurrence count must be a positive integer');
+  }
+  if (rule.endDate) fromRecurrenceDateKey(rule.endDate);
+
+  for (const value of rule.byDay ?? []) {
+    const parsed = parseByDay(value);
+    if (!parsed) {
+      throw new Error(`Invalid byDay value "${value}"`);
+    }
+    if (parsed.ordinal !== null && rule.frequency !== 'MONTHLY') {
+      throw new Error('Ordinal byDay values are only allowed for monthly recurrences');
+    }
+  }
+
+  for (const day of rule.byMonthDay ?? []) {
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+      throw new Error(`Invalid byMonthDay value "${day}"`);
+    }
+  }
+  if (rule.byMonthDay?.length && rule.frequency === 'WEEKLY') {
+    throw new Error('byMonthDay is not allowed for weekly recurrences');
+  }
+
+  for (const key of rule.exDates ?? []) fromRecurrenceDateKey(key);
+  for (const override of rule.overrides ?? []) {
+    fromRecurrenceDateKey(override.occurrenceDate);
+    if (override.date) fromRecurrenceDateKey(override.date);
+  }
+}
+
+// ================================
+// EXPANSION
+// ================================
+
+/**
+ * Giorni candidati di un periodo (giorno, settimana o mese), in ordine
+ */
+function periodCandidates(rule: RecurrenceRule, dtstart: Date, index: number): Date[] {
+  const byDay = (rule.byDay ?? [])
+    .map(parseByDay)
+    .filter((d): d is NonNullable<ReturnType<typeof parseByDay>> => d !== null);
+  const weekdays = new Set(byDay.map((d) => d.weekday));
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const day = periodStart(rule, dtstart, index);
+      if (weekdays.size && !weekdays.has(day.getUTCDay())) return [];
+      if (rule.byMonthDay?.length && !matchesMonthDay(day, rule.byMonthDay)) return [];
+      return [day];
+    }
+
+    case 'WEEKLY': {
+      const monday = periodStart(rule, dtstart, index);
+      const days = weekdays.size ? weekdays : new Set([dtstart.getUTCDay()]);
+      return [0, 1, 2, 3, 4, 5, 6]
+        .map((offset) => addDays(monday, offset))
+        .filter((day) => days.has(day.getUTCDay()));
+    }
+
+    case 'MONTHLY': {
+      const first = periodStart(rule, dtstart, index);
+      const year = first.getUTCFullYear();
+      const month = first.getUTCMonth();
+      const length = daysInMonth(year, month);
+      const days: Date[] = [];
+
+      for (let d = 1; d <= length; d++) {
+        const day = utcDay(year, month, d);
+        const monthDayOk = rule.byMonthDay?.length
+          ? matchesMonthDay(day, rule.byMonthDay)
+          : byDay.length > 0 || d === dtstart.getUTCDate();
+        const weekdayOk =
+          byDay.length === 0 ||
+          byDay.some((entry) => matchesMonthlyByDay(day, entry.weekday, entry.ordinal, length));
+        if (monthDayOk && weekdayOk) days.push(day);
+      }
+      return days;
+    }
+  }
+}
+
+function matchesMonthDay(day: Date, byMonthDay: number[]): boolean {
+  const length = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+  return byMonthDay.some((value) =>
+    value > 0 ? day.getUTCDate() === value : day.getUTCDate() === length + value + 1
+  );
+}
+
+function matchesMonthlyByDay(
+  day: Date,
+  weekday: number,
+  ordinal: number | null,
+  monthLength: number
+): boolean {
+  if (day.getUTCDay() !== weekday) return false;
+  if (ordinal === null) return true;
+  const date = day.getUTCDate();
+  return ordinal > 0
+    ? Math.ceil(date / 7) === ordinal
+    : Math.ceil((monthLength - date + 1) / 7) === -ordinal;
+}
+
+/**
+ * Primo giorno del periodo `index` (settimane da lunedì, come WKST=MO)
+ */
+function periodStart(rule: RecurrenceRule, dtstart: Date, index: number): Date {
+  const interval = Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case 'DAILY':
+      return addDays(dtstart, index * interval);
+    case 'WEEKLY':
+      return addDays(dtstart, -((dtstart.getUTCDay() + 6) % 7) + index * interval * 7);
+    case 'MONTHLY':
+      return utcDay(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + index * interval, 1);
+  }
+}
+
+/**
+ * Giorni generati dalla regola (prima di EXDATE e override) fino a `until` incluso.
+ * COUNT conta dal primo giorno, anche se precede la finestra richiesta.
+ */
+function generateOccurrenceDays(dtstart: Date, rule: RecurrenceRule, until: Date): Date[] {
+  const start = startOfDay(dtstart);
+  const ruleEnd = rule.endDate ? fromRecurrenceDateKey(rule.endDate) : null;
+  const last = ruleEnd && ruleEnd < until ? ruleEnd : until;
+  const days: Date[] = [];
+
+  for (let index = 0; index < MAX_PERIODS && periodStart(rule, start, index) <= last; index++) {
+    for (const day of periodCandidates(rule, start, index)) {
+      if (day < start) continue;
+      if (day > last) return days;
+      days.push(day);
+      if (rule.count && days.length >= rule.count) return days;
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Occorrenze con giorno effettivo in [rangeStart, rangeEnd], con EXDATE e override applicati
+ */
+export function expandRecurrence(
+  dtstart: Date,
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date
+): RecurrenceOccurrence[] {
+  const from = startOfDay(rangeStart);
+  const to = startOfDay(rangeEnd);
+  if (to < from) return [];
+
+  const exDates = new Set(rule.exDates ?? []);
+  const overrides = new Map((rule.overrides ?? []).map((o) => [o.occurrenceDate, o]));
+
+  // Un override può portare nella finestra un'occorrenza generata più avanti
+  let until = to;
+  for (const override of overrides.values()) {
+    const original = fromRecurrenceDateKey(override.occurrenceDate);
+    if (original > until) until = original;
+  }
+
+  const occurrences: RecurrenceOccurrence[] = [];
+  for (const day of generateOccurrenceDays(dtstart, rule, until)) {
+    const key = toRecurrenceDateKey(day);
+    if (exDates.has(key)) continue;
+
+    const override = overrides.get(key) ?? null;
+    const date = override?.date ? fromRecurrenceDateKey(override.date) : day;
+    if (date < from || date > to) continue;
+
+    occurrences.push({ occurrenceDate: day, date, override });
+  }
+
+  return occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Verifica che il giorno sia un'occorrenza generata dalla regola (ignorando EXDATE)
+ */
+export function isRecurrenceOccurrence(dtstart: Date, rule: RecurrenceRule, day: Date): boolean {
+  const target = startOfDay(day);
+  const days = generateOccurrenceDays(dtstart, rule, target);
+  return days.some((d) => d.getTime() === target.getTime());
+}
+
+/**
+ * true se la regola genera ancora almeno un'occorrenza non esclusa da EXDATE.
+ * Le regole senza UNTIL né COUNT non terminano mai.
+ */
+export function hasRemainingOccurrences(dtstart: Date, rule: RecurrenceRule): boolean {
+  if (!rule.endDate && !rule.count) return true;
+
+  // Con solo COUNT la generazione si ferma comunque all'ultima occorrenza
+  const until = rule.endDate
+    ? fromRecurrenceDateKey(rule.endDate)
+    : addDays(startOfDay(dtstart), rule.count! * Math.max(1, rule.interval || 1) * 366);
+  const exDates = new Set(rule.exDates ?? []);
+
+  return generateOccurrenceDays(dtstart, rule, until).some(
+    (day) => !exDates.has(toRecurrenceDateKey(day))
+  );
+}
@@ -0,0 +1,678 @@
+/**
+ * Calendar Sync Service
+ *
+ * Sync bidirezionale tra OneCoach (task OneAgenda con dueDate e calendar_assignments
+ * workout/nutrition) e i calendari Google/Microsoft collegati.
+ *
+ * - calendar_connections: token OAuth e stato dell'ultimo sync per provider
+ * - calendar_event_mappings: elemento locale ↔ evento remoto, con i timestamp
+ *   dell'ultima sincronizzazione usati per capire chi è cambiato
+ *
+ * Conflitti (modificato da entrambe le parti dall'ultimo sync): vince la modifica più recente.
+ * ICAL è in sola lettura: il feed remoto viene importato in calendar_assignments.
+ */
+
+import { prisma } from '../prisma';
+import { assertPublicUrl, fetchPublicUrl } from '../public-fetch.server';
+import {
+  getCalendarAssignments,
+  overrideCalendarOccurrence,
+  type RecurrenceRule,
+} from '../calendar.service';
+import {
+  fromRecurrenceDateKey,
+  isRecurrenceOccurrence,
+  toRecurrenceDateKey,
+} from '../calendar-recurrence';
+import { Prisma } from '@prisma/client';
+import type { calendar_connections, calendar_event_mappings } from '@prisma/client';
+import { createCalendarClient, refreshCalendarTokens } from './providers';
+import { icalendarService } from './ical-feed.service';
+import type {
+  CalendarSyncItemError,
+  CalendarSyncItemType,
+  CalendarSyncOperation,
+  CalendarSyncProvider,
+  CalendarSyncResult,
+  CalendarSyncStats,
+  CalendarTokens,
+  LocalSyncItem,
+  RemoteCalendarClient,
+  RemoteCalendarEvent,
+  WritableCalendarProvider,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SYNC_WINDOW_DAYS = 30;
+/** Margine per il rinnovo anticipato dell'access token */
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const MAX_ICAL_FEED_BYTES = 2 * 1024 * 1024;
+
+export type CalendarConnection = calendar_connections;
+
+export interface CalendarConnectionStatus {
+  provider: CalendarSyncProvider;
+  syncEnabled: boolean;
+  calendarId: string | null;
+  calendarUrl: string | null;
+  lastSyncAt: Date | null;
+  lastSyncStatus: string | null;
+  lastSyncError: string | null;
+  lastSyncStats: CalendarSyncStats | null;
+  errors: CalendarSyncItemError[];
+}
+
+function isWritable(provider: CalendarSyncProvider): provider is WritableCalendarProvider {
+  return provider === 'GOOGLE' || provider === 'MICROSOFT';
+}
+
+/**
+ * webcal:// è lo schema usato dai link di sottoscrizione, equivalente a https://.
+ * Il feed viene scaricato dal server: sono ammessi solo host pubblici in https.
+ */
+async function normalizeCalendarUrl(calendarUrl: string): Promise<string> {
+  const normalized = calendarUrl.trim().replace(/^webcals?:\/\//i, 'https://');
+  try {
+    const url = await assertPublicUrl(normalized);
+    return url.toString();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid calendar URL: ${reason}`);
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function mappingKey(type: CalendarSyncItemType, id: string): string {
+  return `${type}:${id}`;
+}
+
+/**
+ * Le occorrenze di un assignment ricorrente sono elementi distinti: "<id>:<YYYY-MM-DD>"
+ */
+function occurrenceItemId(assignmentId: string, occurrenceDate: Date): string {
+  return `${assignmentId}:${toRecurrenceDateKey(occurrenceDate)}`;
+}
+
+function parseAssignmentItemId(itemId: string): {
+  assignmentId: string;
+  occurrenceKey: string | null;
+} {
+  const match = itemId.match(/^(.+):(\d{4}-\d{2}-\d{2})$/);
+  return match
+    ? { assignmentId: match[1]!, occurrenceKey: match[2]! }
+    : { assignmentId: itemId, occurrenceKey: null };
+}
+
+export class CalendarSyncService {
+  /**
+   * Salva (o aggiorna) la connessione dopo il flusso OAuth
+   */
+  async connect(
+    userId: string,
+    provider: WritableCalendarProvider,
+    tokens: CalendarTokens,
+    calendarId?: string
+  ): Promise<CalendarConnection> {
+    return await prisma.calendar_connections.upsert({
+      where: { userId_provider: { userId, provider } },
+      create: {
+        userId,
+        provider,
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? null,
+        expiresAt: tokens.expiresAt ?? null,
+        calendarId: calendarId ?? null,
+        syncEnabled: true,
+      },
+      update: {
+        accessToken: tokens.accessToken,
+        // Alcuni provider non rimandano il refresh token su riconnessione
+        ...(tokens.refreshToken && { refreshToken: tokens.refreshToken }),
+        expiresAt: tokens.expiresAt ?? null,
+        ...(calendarId && { calendarId }),
+        syncEnabled: true,
+      },
+    });
+  }
+
+  /**
+   * Sottoscrizione a un calendario .ics remoto (sola lettura)
+   */
+  async connectICalendar(userId: string, calendarUrl: string): Promise<CalendarConnection> {
+    const url = await normalizeCalendarUrl(calendarUrl);
+
+    return await prisma.calendar_connections.upsert({
+      where: { userId_provider: { userId, provider: 'ICAL' } },
+      create: { userId, provider: 'ICAL', calendarUrl: url, syncEnabled: true },
+      update: { calendarUrl: url, syncEnabled: true },
+    });
+  }
+
+  /**
+   * Rimuove la connessione e le mappature (gli eventi remoti restano nel calendario)
+   */
+  async disconnect(userId: string, provider: CalendarSyncProvider): Promise<boolean> {
+    const connection = await prisma.calendar_connections.findUnique({
+      where: { userId_provider: { userId, provider } },
+    });
+
+    if (!connection) {
+      return false;
+    }
+
+    await prisma.$transaction([
+      prisma.calendar_event_mappings.deleteMany({ where: { connectionId: connection.id } }),
+      prisma.calendar_connections.delete({ where: { id: connection.id } }),
+    ]);
+
+    return true;
+  }
+
+  async listConnections(userId: string): Promise<CalendarConnection[]> {
+    return await prisma.calendar_connections.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Stato dell'ultimo sync per ogni provider collegato, con errori per elemento
+   */
+  async getSyncStatus(userId: string): Promise<CalendarConnectionStatus[]> {
+    const connections = await this.listConnections(userId);
+
+    return connections.map((connection) => ({
+      provider: connection.provider,
+      syncEnabled: connection.syncEnabled,
+      calendarId: connection.calendarId,
+      calendarUrl: connection.calendarUrl,
+      lastSyncAt: connection.lastSyncAt,
+      lastSyncStatus: connection.lastSyncStatus,
+      lastSyncError: connection.lastSyncError,
+      lastSyncStats: connection.lastSyncStats as unknown as CalendarSyncStats | null,
+      errors: (connection.lastSyncErrors as unknown as CalendarSyncItemError[] | null) ?? [],
+    }));
+  }
+
+  /**
+   * Sync bidirezionale per un provider nella finestra [start, end].
+   * Per ICAL importa l'intero feed remoto (la finestra non si applica).
+   */
+  async sync(
+    userId: string,
+    provider: CalendarSyncProvider,
+    options: { start?: Date; end?: Date } = {}
+  ): Promise<CalendarSyncResult> {
+    const connection = await prisma.calendar_connections.findUnique({
+      where: { userId_provider: { userId, provider } },
+    });
+
+    if (!connection) {
+      throw new Error(`No ${provider.toLowerCase()} calendar connected`);
+    }
+
+    if (!connection.syncEnabled) {
+      throw new Error(`Sync is disabled for ${provider.toLowerCase()} calendar`);
+    }
+
+    const start = startOfUtcDay(options.start ?? new Date());
+    const end = options.end ?? new Date(start.getTime() + DEFAULT_SYNC_WINDOW_DAYS * DAY_MS);
+
+    const result: CalendarSyncResult = {
+      provider,
+      status: 'SUCCESS',
+      pushed: { created: 0, updated: 0, deleted: 0 },
+      pulled: { created: 0, updated: 0, deleted: 0 },
+      conflicts: 0,
+      errors: [],
+      syncedAt: new Date(),
+    };
+
+    try {
+      if (isWritable(provider)) {
+        const accessToken = await this.getValidAccessToken(connection, provider);
+        const client = createCalendarClient(provider, accessToken, connection.calendarId);
+        await this.syncItems(userId, connection, client, start, end, result);
+      } else {
+        await this.importRemoteICalendar(userId, connection, result);
+      }
+      result.status = result.errors.length > 0 ? 'PARTIAL' : 'SUCCESS';
+    } catch (error: unknown) {
+      result.status = 'FAILED';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await prisma.calendar_connections.update({
+      where: { id: connection.id },
+      data: {
+        lastSyncAt: result.syncedAt,
+        lastSyncStatus: result.status,
+        lastSyncError: result.error ?? null,
+        lastSyncStats: {
+          pushed: result.pushed,
+          pulled: result.pulled,
+          conflicts: result.conflicts,
+        } as unknown as Prisma.InputJsonValue,
+        lastSyncErrors: result.errors as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return result;
+  }
+
+  // ================================
+  // SYNC
+  // ================================
+
+  private async importRemoteICalendar(
+    userId: string,
+    connection: CalendarConnection,
+    result: CalendarSyncResult
+  ): Promise<void> {
+    if (!connection.calendarUrl) {
+      throw new Error('iCal calendar URL is missing, please reconnect');
+    }
+
+    // Rivalidato a ogni sync: il DNS dell'host può cambiare dopo la connessione
+    const response = await fetchPublicUrl(connection.calendarUrl, {
+      headers: { Accept: 'text/calendar' },
+      maxBytes: MAX_ICAL_FEED_BYTES,
+    });
+
+    if (!response.ok) {
+      throw new Error(`iCal feed request failed (${response.status})`);
+    }
+
+    const imported = await icalendarService.importICalendar(userId, response.text, {
+      connectionId: connection.id,
+    });
+
+    result.pulled.created += imported.created;
+    result.pulled.updated += imported.updated;
+  }
+
+  private async syncItems(
+    userId: string,
+    connection: CalendarConnection,
+    client: RemoteCalendarClient,
+    start: Date,
+    end: Date,
+    result: CalendarSyncResult
+  ): Promise<void> {
+    const [localItems, mappings, remoteEvents] = await Promise.all([
+      this.collectLocalItems(userId, start, end),
+      prisma.calendar_event_mappings.findMany({ where: { connectionId: connection.id } }),
+      client.listEvents(start, new Date(end.getTime() + DAY_MS)),
+    ]);
+
+    const mappingsByItem = new Map(mappings.map((m) => [mappingKey(m.itemType, m.itemId), m]));
+    const remoteById = new Map(remoteEvents.map((event) => [event.id, event]));
+    const localKeys = new Set(localItems.map((item) => mappingKey(item.type, item.id)));
+
+    for (const item of localItems) {
+      const mapping = mappingsByItem.get(mappingKey(item.type, item.id));
+      const operation = mapping ? 'push_update' : 'push_create';
+      await this.runItem(result, connection.id, item.type, item.id, operation, () =>
+        this.syncItem(userId, connection, client, item, mapping, remoteById, result)
+      );
+    }
+
+    // Mappature senza elemento locale nella finestra: elimina l'evento se l'elemento non esiste più
+    const orphaned = mappings.filter((m) => !localKeys.has(mappingKey(m.itemType, m.itemId)));
+    const stillExisting = await this.findExistingItems(userId, orphaned);
+
+    for (const mapping of orphaned) {
+      if (stillExisting.has(mappingKey(mapping.itemType, mapping.itemId))) continue;
+
+      await this.runItem(
+        result,
+        connection.id,
+        mapping.itemType,
+        mapping.itemId,
+        'push_delete',
+        async () => {
+          if (!mapping.remoteDeleted) {
+            await client.deleteEvent(mapping.remoteEventId);
+            result.pushed.deleted++;
+          }
+          await prisma.calendar_event_mappings.delete({ where: { id: mapping.id } });
+        }
+      );
+    }
+  }
+
+  private async syncItem(
+    userId: string,
+    connection: CalendarConnection,
+    client: RemoteCalendarClient,
+    item: LocalSyncItem,
+    mapping: calendar_event_mappings | undefined,
+    remoteById: Map<string, RemoteCalendarEvent>,
+    result: CalendarSyncResult
+  ): Promise<void> {
+    if (!mapping) {
+      const created = await client.createEvent(item);
+      await prisma.calendar_event_mappings.create({
+        data: {
+          connectionId: connection.id,
+          userId,
+          itemType: item.type,
+          itemId: item.id,
+          remoteEventId: created.id,
+          localUpdatedAt: item.updatedAt,
+          remoteUpdatedAt: created.updatedAt,
+          lastSyncedAt: new Date(),
+        },
+      });
+      result.pushed.created++;
+      return;
+    }
+
+    const localChanged = item.updatedAt.getTime() > mapping.localUpdatedAt.getTime();
+    const remote =
+      remoteById.get(mapping.remoteEventId) ??
+      (mapping.remoteDeleted ? null : await client.getEvent(mapping.remoteEventId));
+
+    // Evento rimosso dal calendario remoto
+    if (!remote || remote.cancelled) {
+      if (localChanged) {
+        // Modificato in OneCoach dopo la cancellazione remota: ricrea l'evento
+        const created = await client.createEvent(item);
+        await this.saveMapping(mapping.id, item.updatedAt, created.updatedAt, {
+          remoteEventId: created.id,
+          remoteDeleted: false,
+        });
+        result.pushed.created++;
+      } else if (!mapping.remoteDeleted) {
+        // Non cancelliamo dati dell'utente: l'elemento viene scollegato dal calendario
+        await this.saveMapping(mapping.id, mapping.localUpdatedAt, mapping.remoteUpdatedAt, {
+          remoteDeleted: true,
+        });
+        result.pulled.deleted++;
+      }
+      return;
+    }
+
+    const remoteChanged = remote.updatedAt.getTime() > mapping.remoteUpdatedAt.getTime();
+
+    if (!localChanged && !remoteChanged) {
+      return;
+    }
+
+    if (localChanged && remoteChanged) {
+      result.conflicts++;
+    }
+
+    const localWins =
+      localChanged && (!remoteChanged || item.updatedAt.getTime() >= remote.updatedAt.getTime());
+
+    if (localWins) {
+      const updated = await client.updateEvent(remote.id, item);
+      await this.saveMapping(mapping.id, item.updatedAt, updated.updatedAt);
+      result.pushed.updated++;
+      return;
+    }
+
+    const localUpdatedAt = await this.applyRemoteChange(userId, item, remote);
+    await this.saveMapping(mapping.id, localUpdatedAt, remote.updatedAt);
+    result.pulled.updated++;
+  }
+
+  /**
+   * Applica la modifica remota all'elemento locale e ritorna il nuovo updatedAt locale
+   */
+  private async applyRemoteChange(
+    userId: string,
+    item: LocalSyncItem,
+    remote: RemoteCalendarEvent
+  ): Promise<Date> {
+    if (item.type === 'TASK') {
+      const task = await prisma.agenda_tasks.update({
+        where: { id: item.id, userId },
+        data: {
+          title: remote.title.replace(/^✓\s*/, '') || item.title,
+          description: remote.description ?? item.description,
+          dueDate: remote.start,
+        },
+        select: { updatedAt: true },
+      });
+      return task.updatedAt;
+    }
+
+    // Per gli assignment si sincronizza solo lo spostamento di giorno
+    const { assignmentId, occurrenceKey } = parseAssignmentItemId(item.id);
+    if (occurrenceKey) {
+      // Occorrenza di un ricorrente: lo spostamento diventa un override della singola data
+      const assignment = await overrideCalendarOccurrence(assignmentId, userId, occurrenceKey, {
+        date: toRecurrenceDateKey(remote.start),
+      });
+      return assignment.updatedAt;
+    }
+
+    const assignment = await prisma.calendar_assignments.update({
+      where: { id: assignmentId, userId },
+      data: { date: startOfUtcDay(remote.start) },
+      select: { updatedAt: true },
+    });
+    return assignment.updatedAt;
+  }
+
+  private async saveMapping(
+    mappingId: string,
+    localUpdatedAt: Date,
+    remoteUpdatedAt: Date,
+    extra: Partial<Pick<calendar_event_mappings, 'remoteEventId' | 'remoteDeleted'>> = {}
+  ): Promise<void> {
+    await prisma.calendar_event_mappings.update({
+      where: { id: mappingId },
+      data: {
+        localUpdatedAt,
+        remoteUpdatedAt,
+        lastSyncedAt: new Date(),
+        lastError: null,
+        ...extra,
+      },
+    });
+  }
+
+  /**
+   * Esegue un'operazione su un singolo elemento, registrando l'errore senza interrompere il sync
+   */
+  private async runItem(
+    result: CalendarSyncResult,
+    connectionId: string,
+    itemType: CalendarSyncItemType,
+    itemId: string,
+    operation: CalendarSyncOperation,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await fn();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push({ itemType, itemId, operation, error: message });
+
+      await prisma.calendar_event_mappings
+        .updateMany({
+          where: { connectionId, itemType, itemId },
+          data: { lastError: message },
+        })
+        .catch(() => undefined);
+    }
+  }
+
+  // ================================
+  // LOCAL ITEMS
+  // ================================
+
+  /**
+   * Task OneAgenda con dueDate e calendar_assignments (workout/nutrition) nella finestra
+   */
+  private async collectLocalItems(userId: string, start: Date, end: Date): Promise<LocalSyncItem[]> {
+    const [tasks, assignments] = await Promise.all([
+      prisma.agenda_tasks.findMany({
+        where: {
+          userId,
+          dueDate: { gte: start, lte: end },
+          status: { not: 'CANCELLED' },
+        },
+      }),
+      // Come nel feed iCal, i ricorrenti vengono espansi: un evento remoto per occorrenza
+      getCalendarAssignments({ userId, startDate: start, endDate: end }),
+    ]);
+
+    const planNames = await this.getPlanNames(assignments);
+
+    const taskItems: LocalSyncItem[] = tasks
+      .filter((task) => task.dueDate)
+      .map((task) => {
+        const day = startOfUtcDay(task.dueDate!);
+        return {
+          type: 'TASK' as const,
+          id: task.id,
+          title: task.status === 'COMPLETED' ? `✓ ${task.title}` : task.title,
+          description: task.description,
+          start: day,
+          end: new Date(day.getTime() + DAY_MS),
+          allDay: true,
+          updatedAt: task.updatedAt,
+        };
+      });
+
+    const assignmentItems: LocalSyncItem[] = assignments.map((assignment) => {
+      const day = startOfUtcDay(assignment.date);
+      const label = assignment.planType === 'WORKOUT' ? 'Allenamento' : 'Nutrizione';
+      const name = assignment.planId ? planNames.get(assignment.planId) : undefined;
+      return {
+        type: 'CALENDAR_ASSIGNMENT' as const,
+        id:
+          assignment.isRecurring && assignment.recurrenceRule
+            ? occurrenceItemId(assignment.id, assignment.occurrenceDate)
+            : assignment.id,
+        title: name ? `${label}: ${name}` : label,
+        description: null,
+        start: day,
+        end: new Date(day.getTime() + DAY_MS),
+        allDay: true,
+        updatedAt: assignment.updatedAt,
+      };
+    });
+
+    return [...taskItems, ...assignmentItems];
+  }
+
+  private async getPlanNames(
+    assignments: Array<{ planType: string; planId: string | null }>
+  ): Promise<Map<string, string>> {
+    const ids = (type: string) =>
+      [...new Set(assignments.filter((a) => a.planType === type && a.planId).map((a) => a.planId!))];
+
+    const [programs, plans] = await Promise.all([
+      prisma.workout_programs.findMany({
+        where: { id: { in: ids('WORKOUT') } },
+        select: { id: true, name: true },
+      }),
+      prisma.nutrition_plans.findMany({
+        where: { id: { in: ids('NUTRITION') } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return new Map([...programs, ...plans].map((p) => [p.id, p.name]));
+  }
+
+  /**
+   * Elementi mappati che esistono ancora in OneCoach (anche se fuori dalla finestra)
+   */
+  private async findExistingItems(
+    userId: string,
+    mappings: calendar_event_mappings[]
+  ): Promise<Set<string>> {
+    const taskIds = mappings.filter((m) => m.itemType === 'TASK').map((m) => m.itemId);
+    const assignmentItems = mappings
+      .filter((m) => m.itemType === 'CALENDAR_ASSIGNMENT')
+      .map((m) => ({ itemId: m.itemId, ...parseAssignmentItemId(m.itemId) }));
+    const assignmentIds = [...new Set(assignmentItems.map((item) => item.assignmentId))];
+
+    const [tasks, assignments] = await Promise.all([
+      taskIds.length
+        ? prisma.agenda_tasks.findMany({
+            where: {
+              id: { in: taskIds },
+              userId,
+              dueDate: { not: null },
+              status: { not: 'CANCELLED' },
+            },
+            select: { id: true },
+          })
+        : [],
+      assignmentIds.length
+        ? prisma.calendar_assignments.findMany({
+            where: { id: { in: assignmentIds }, userId },
+            select: { id: true, date: true, isRecurring: true, recurrenceRule: true },
+          })
+        : [],
+    ]);
+
+    const assignmentsById = new Map(assignments.map((a) => [a.id, a]));
+    const existingAssignments = assignmentItems.filter(({ assignmentId, occurrenceKey }) => {
+      const assignment = assignmentsById.get(assignmentId);
+      if (!assignment) return false;
+
+      const rule = assignment.isRecurring
+        ? (assignment.recurrenceRule as unknown as RecurrenceRule | null)
+        : null;
+      // Evento del solo giorno base di un assignment ora ricorrente: sostituito dalle occorrenze
+      if (!occurrenceKey) return rule === null;
+
+      // Occorrenza ancora generata dalla regola e non esclusa
+      return (
+        rule !== null &&
+        !rule.exDates?.includes(occurrenceKey) &&
+        isRecurrenceOccurrence(assignment.date, rule, fromRecurrenceDateKey(occurrenceKey))
+      );
+    });
+
+    return new Set([
+      ...tasks.map((t) => mappingKey('TASK', t.id)),
+      ...existingAssignments.map((a) => mappingKey('CALENDAR_ASSIGNMENT', a.itemId)),
+    ]);
+  }
+
+  private async getValidAccessToken(
+    connection: CalendarConnection,
+    provider: WritableCalendarProvider
+  ): Promise<string> {
+    if (!connection.accessToken) {
+      throw new Error(`${provider} calendar is not authorized`);
+    }
+
+    const expiresSoon =
+      connection.expiresAt && connection.expiresAt.getTime() - TOKEN_REFRESH_MARGIN_MS < Date.now();
+
+    if (!expiresSoon) {
+      return connection.accessToken;
+    }
+
+    if (!connection.refreshToken) {
+      throw new Error(`${provider} calendar token expired, please reconnect`);
+    }
+
+    const tokens = await refreshCalendarTokens(provider, connection.refreshToken);
+    await prisma.calendar_connections.update({
+      where: { id: connection.id },
+      data: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? connection.refreshToken,
+        expiresAt: tokens.expiresAt ?? null,
+      },
+    });
+
+    return tokens.accessToken;
+  }
+}
+
+export const calendarSyncService = new CalendarSyncService();
@@ -0,0 +1,514 @@
+/**
+ * iCalendar Feed & Import Service
+ *
+ * - Feed .ics per utente, protetto da token (calendar_feed_tokens), con
+ *   calendar_assignments (RRULE per i ricorrenti) e task OneAgenda con dueDate
+ * - Import .ics → calendar_assignments, da file o da URL (provider ICAL)
+ */
+
+import { randomBytes } from 'crypto';
+import { prisma } from '../prisma';
+import type { CalendarPlanType } from '@prisma/client';
+import {
+  cancelCalendarOccurrence,
+  createCalendarAssignment,
+  overrideCalendarOccurrence,
+  updateCalendarAssignment,
+  type RecurrenceRule,
+} from '../calendar.service';
+import { generateICalendar, parseICalendar, type ICalEventInput, type ParsedICalEvent } from './ical';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Finestra del feed: passato recente e prossimi mesi */
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+const UID_DOMAIN = 'onecoach';
+
+const PLAN_LABELS: Record<CalendarPlanType, string> = {
+  WORKOUT: 'Allenamento',
+  NUTRITION: 'Nutrizione',
+};
+
+export interface ICalImportOptions {
+  /** Assegna tutti gli eventi a questo piano invece di riconoscerlo dal titolo */
+  planType?: CalendarPlanType;
+  planId?: string;
+  /** Connessione ICAL: abilita aggiornamenti incrementali tramite calendar_event_mappings */
+  connectionId?: string;
+}
+
+export type ICalImportSkipReason =
+  | 'cancelled'
+  | 'task_event'
+  | 'no_matching_plan'
+  | 'duplicate'
+  | 'up_to_date'
+  | 'deleted_locally'
+  | 'no_recurring_master'
+  | 'invalid_occurrence';
+
+export interface ICalImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: Array<{ uid: string; title: string; reason: ICalImportSkipReason }>;
+}
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function dateKeyToUtc(key: string): Date {
+  return new Date(`${key.slice(0, 10)}T00:00:00.000Z`);
+}
+
+function utcDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Nome del piano senza il prefisso aggiunto dal feed ("Allenamento: ...")
+ */
+function stripPlanLabel(title: string): string {
+  const labels = Object.values(PLAN_LABELS).join('|');
+  return title.replace(new RegExp(`^(${labels}):\\s*`, 'i'), '').trim();
+}
+
+export class ICalendarService {
+  // ================================
+  // FEED TOKEN
+  // ================================
+
+  async getFeedToken(userId: string): Promise<string> {
+    const existing = await prisma.calendar_feed_tokens.findUnique({
+      where: { userId },
+    });
+
+    if (existing) {
+      return existing.token;
+    }
+
+    const created = await prisma.calendar_feed_tokens.create({
+      data: { userId, token: generateFeedToken() },
+    });
+    return created.token;
+  }
+
+  /**
+   * Invalida il vecchio URL (es. condiviso per errore)
+   */
+  async rotateFeedToken(userId: string): Promise<string> {
+    const token = generateFeedToken();
+    await prisma.calendar_feed_tokens.upsert({
+      where: { userId },
+      create: { userId, token },
+      update: { token, lastAccessedAt: null },
+    });
+    return token;
+  }
+
+  async revokeFeedToken(userId: string): Promise<void> {
+    await prisma.calendar_feed_tokens.deleteMany({ where: { userId } });
+  }
+
+  // ================================
+  // FEED
+  // ================================
+
+  /**
+   * Rende il feed .ics associato al token; null se il token non esiste
+   */
+  async renderFeed(token: string): Promise<string | null> {
+    const feedToken = await prisma.calendar_feed_tokens.findUnique({
+      where: { token },
+    });
+
+    if (!feedToken) {
+      return null;
+    }
+
+    await prisma.calendar_feed_tokens.update({
+      where: { id: feedToken.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    const events = await this.collectFeedEvents(feedToken.userId);
+    return generateICalendar({ name: 'OneCoach', events });
+  }
+
+  private async collectFeedEvents(userId: string): Promise<ICalEventInput[]> {
+    const today = startOfUtcDay(new Date());
+    const from = new Date(today.getTime() - FEED_PAST_DAYS * DAY_MS);
+    const to = new Date(today.getTime() + FEED_FUTURE_DAYS * DAY_MS);
+
+    const [assignments, tasks] = await Promise.all([
+      prisma.calendar_assignments.findMany({
+        where: {
+          userId,
+          // I ricorrenti partono da una data base che può precedere la finestra
+          OR: [{ date: { gte: from, lte: to } }, { isRecurring: true, date: { lte: to } }],
+        },
+        orderBy: { date: 'asc' },
+      }),
+      prisma.agenda_tasks.findMany({
+        where: {
+          userId,
+          dueDate: { gte: from, lte: to },
+          status: { not: 'CANCELLED' },
+        },
+      }),
+    ]);
+
+    const rules = new Map(
+      assignments.map((a) => [
+        a.id,
+        a.isRecurring ? (a.recurrenceRule as unknown as RecurrenceRule | null) : null,
+      ])
+    );
+    const planNames = await this.getPlanNames([
+      ...assignments,
+      ...assignments.flatMap((a) =>
+        (rules.get(a.id)?.overrides ?? []).map((o) => ({
+          planType: a.planType,
+          planId: o.planId ?? null,
+        }))
+      ),
+    ]);
+
+    const titleFor = (planType: CalendarPlanType, planId: string | null) => {
+      const name = planId ? planNames.get(planId) : undefined;
+      return name ? `${PLAN_LABELS[planType]}: ${name}` : PLAN_LABELS[planType];
+    };
+
+    const assignmentEvents = assignments.map((assignment): ICalEventInput => {
+      const recurrenceRule = rules.get(assignment.id) ?? null;
+      return {
+        uid: `assignment-${assignment.id}@${UID_DOMAIN}`,
+        title: titleFor(assignment.planType, assignment.planId),
+        start: startOfUtcDay(assignment.date),
+        allDay: true,
+        updatedAt: assignment.updatedAt,
+        recurrenceRule,
+        exceptions: recurrenceRule?.overrides?.map((override) => {
+          const planId = override.planId ?? assignment.planId;
+          return {
+            recurrenceId: dateKeyToUtc(override.occurrenceDate),
+            start: dateKeyToUtc(override.date ?? override.occurrenceDate),
+            title: titleFor(assignment.planType, planId),
+            properties: {
+              'plan-type': assignment.planType,
+              ...(planId && { 'plan-id': planId }),
+            },
+          };
+        }),
+        properties: {
+          'plan-type': assignment.planType,
+          ...(assignment.planId && { 'plan-id': assignment.planId }),
+        },
+      };
+    });
+
+    const taskEvents = tasks
+      .filter((task) => task.dueDate)
+      .map(
+        (task): ICalEventInput => ({
+          uid: `task-${task.id}@${UID_DOMAIN}`,
+          title: task.status === 'COMPLETED' ? `✓ ${task.title}` : task.title,
+          description: task.description,
+          start: startOfUtcDay(task.dueDate!),
+          allDay: true,
+          updatedAt: task.updatedAt,
+        })
+      );
+
+    return [...assignmentEvents, ...taskEvents];
+  }
+
+  private async getPlanNames(
+    assignments: Array<{ planType: CalendarPlanType; planId: string | null }>
+  ): Promise<Map<string, string>> {
+    const ids = (type: CalendarPlanType) => [
+      ...new Set(assignments.filter((a) => a.planType === type && a.planId).map((a) => a.planId!)),
+    ];
+
+    const [programs, plans] = await Promise.all([
+      prisma.workout_programs.findMany({
+        where: { id: { in: ids('WORKOUT') } },
+        select: { id: true, name: true },
+      }),
+      prisma.nutrition_plans.findMany({
+        where: { id: { in: ids('NUTRITION') } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return new Map([...programs, ...plans].map((p) => [p.id, p.name]));
+  }
+
+  // ================================
+  // IMPORT
+  // ================================
+
+  /**
+   * Importa un file .ics creando calendar_assignments.
+   * Il piano di ogni evento è (in ordine): options.planType/planId, le proprietà
+   * X-ONECOACH-PLAN-* del nostro feed, oppure un piano dell'utente con lo stesso nome.
+   */
+  async importICalendar(
+    userId: string,
+    content: string,
+    options: ICalImportOptions = {}
+  ): Promise<ICalImportResult> {
+    if (!/BEGIN:VCALENDAR/i.test(content)) {
+      throw new Error('Invalid iCalendar file');
+    }
+
+    if ((options.planType && !options.planId) || (!options.planType && options.planId)) {
+      throw new Error('planType and planId must be provided together');
+    }
+
+    const parsed = parseICalendar(content);
+    const events = parsed.filter((event) => !event.recurrenceId);
+    const exceptions = parsed.filter((event) => event.recurrenceId);
+    const result: ICalImportResult = { total: parsed.length, created: 0, updated: 0, skipped: [] };
+    const assignmentIdsByUid = new Map<string, string>();
+    const resolvePlan = await this.createPlanResolver(userId, options);
+
+    const mappings = options.connectionId
+      ? await prisma.calendar_event_mappings.findMany({
+          where: { connectionId: options.connectionId, itemType: 'CALENDAR_ASSIGNMENT' },
+        })
+      : [];
+    const mappingsByUid = new Map(mappings.map((m) => [m.remoteEventId, m]));
+
+    for (const event of events) {
+      const skip = (reason: ICalImportSkipReason) =>
+        result.skipped.push({ uid: event.uid, title: event.title, reason });
+
+      if (event.cancelled) {
+        skip('cancelled');
+        continue;
+      }
+
+      if (event.uid.startsWith('task-') && event.uid.endsWith(`@${UID_DOMAIN}`)) {
+        skip('task_event');
+        continue;
+      }
+
+      const remoteUpdatedAt = event.updatedAt ?? new Date();
+      const mapping = mappingsByUid.get(event.uid);
+      const existingId = mapping?.itemId ?? (await this.findOwnAssignmentId(userId, event.uid));
+
+      if (existingId) {
+        if (mapping && remoteUpdatedAt.getTime() <= mapping.remoteUpdatedAt.getTime()) {
+          assignmentIdsByUid.set(event.uid, existingId);
+          skip('up_to_date');
+          continue;
+        }
+
+        const updated = await this.updateFromEvent(userId, existingId, event);
+        if (updated) {
+          assignmentIdsByUid.set(event.uid, existingId);
+          if (mapping) {
+            await prisma.calendar_event_mappings.update({
+              where: { id: mapping.id },
+              data: {
+                localUpdatedAt: updated.updatedAt,
+                remoteUpdatedAt,
+                lastSyncedAt: new Date(),
+                lastError: null,
+              },
+            });
+          }
+          result.updated++;
+          continue;
+        }
+
+        if (mapping) {
+          // Eliminato in OneCoach dopo l'import: non va ricreato
+          skip('deleted_locally');
+          continue;
+        }
+      }
+
+      const plan = resolvePlan(event);
+      if (!plan) {
+        skip('no_matching_plan');
+        continue;
+      }
+
+      const date = startOfUtcDay(event.start);
+      const duplicate = await prisma.calendar_assignments.findFirst({
+        where: { userId, date, planType: plan.planType, planId: plan.planId },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        skip('duplicate');
+        continue;
+      }
+
+      const created = await createCalendarAssignment({
+        userId,
+        date,
+        planType: plan.planType,
+        planId: plan.planId,
+        isRecurring: !!event.recurrenceRule,
+        recurrenceRule: event.recurrenceRule ?? undefined,
+      });
+      assignmentIdsByUid.set(event.uid, created.id);
+
+      if (options.connectionId) {
+        await prisma.calendar_event_mappings.create({
+          data: {
+            connectionId: options.connectionId,
+            userId,
+            itemType: 'CALENDAR_ASSIGNMENT',
+            itemId: created.id,
+            remoteEventId: event.uid,
+            localUpdatedAt: created.updatedAt,
+            remoteUpdatedAt,
+            lastSyncedAt: new Date(),
+          },
+        });
+      }
+
+      result.created++;
+    }
+
+    for (const exception of exceptions) {
+      const applied = await this.applyException(
+        userId,
+        assignmentIdsByUid.get(exception.uid),
+        exception,
+        resolvePlan
+      );
+      if (applied === true) {
+        result.updated++;
+      } else {
+        result.skipped.push({ uid: exception.uid, title: exception.title, reason: applied });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Occorrenza modificata (RECURRENCE-ID): override o esclusione sull'assignment importato
+   */
+  private async applyException(
+    userId: string,
+    assignmentId: string | undefined,
+    event: ParsedICalEvent,
+    resolvePlan: (event: ParsedICalEvent) => { planType: CalendarPlanType; planId: string } | null
+  ): Promise<true | ICalImportSkipReason> {
+    if (!assignmentId || !event.recurrenceId) {
+      return 'no_recurring_master';
+    }
+
+    const occurrenceDate = utcDateKey(event.recurrenceId);
+
+    try {
+      if (event.cancelled) {
+        await cancelCalendarOccurrence(assignmentId, userId, occurrenceDate);
+      } else {
+        await overrideCalendarOccurrence(assignmentId, userId, occurrenceDate, {
+          date: utcDateKey(event.start),
+          planId: resolvePlan(event)?.planId,
+        });
+      }
+      return true;
+    } catch {
+      // Master non ricorrente o RECURRENCE-ID che non è un'occorrenza della regola
+      return 'invalid_occurrence';
+    }
+  }
+
+  /**
+   * Eventi del nostro feed reimportati: UID assignment-<id>@onecoach
+   */
+  private async findOwnAssignmentId(userId: string, uid: string): Promise<string | null> {
+    const match = uid.match(new RegExp(`^assignment-(.+)@${UID_DOMAIN}$`));
+    if (!match?.[1]) return null;
+
+    const assignment = await prisma.calendar_assignments.findFirst({
+      where: { id: match[1], userId },
+      select: { id: true },
+    });
+    return assignment?.id ?? null;
+  }
+
+  private async updateFromEvent(userId: string, assignmentId: string, event: ParsedICalEvent) {
+    try {
+      return await updateCalendarAssignment(assignmentId, userId, {
+        date: startOfUtcDay(event.start),
+        isRecurring: !!event.recurrenceRule,
+        recurrenceRule: event.recurrenceRule,
+      });
+    } catch {
+      // Assignment eliminato in OneCoach
+      return null;
+    }
+  }
+
+  private async createPlanResolver(
+    userId: string,
+    options: ICalImportOptions
+  ): Promise<(event: ParsedICalEvent) => { planType: CalendarPlanType; planId: string } | null> {
+    if (options.planType && options.planId) {
+      await this.assertPlanOwnership(userId, options.planType, options.planId);
+      const plan = { planType: options.planType, planId: options.planId };
+      return () => plan;
+    }
+
+    const [programs, plans] = await Promise.all([
+      prisma.workout_programs.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      }),
+      prisma.nutrition_plans.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const byId = new Map<string, CalendarPlanType>([
+      ...programs.map((p) => [p.id, 'WORKOUT'] as const),
+      ...plans.map((p) => [p.id, 'NUTRITION'] as const),
+    ]);
+    const byName = new Map<string, { planType: CalendarPlanType; planId: string }>();
+    for (const p of programs) byName.set(p.name.toLowerCase(), { planType: 'WORKOUT', planId: p.id });
+    for (const p of plans) byName.set(p.name.toLowerCase(), { planType: 'NUTRITION', planId: p.id });
+
+    return (event) => {
+      const planId = event.properties['plan-id'];
+      const planType = planId ? byId.get(planId) : undefined;
+      if (planId && planType) {
+        return { planType, planId };
+      }
+      return byName.get(stripPlanLabel(event.title).toLowerCase()) ?? null;
+    };
+  }
+
+  private async assertPlanOwnership(
+    userId: string,
+    planType: CalendarPlanType,
+    planId: string
+  ): Promise<void> {
+    const where = { id: planId, userId };
+    const plan =
+      planType === 'WORKOUT'
+        ? await prisma.workout_programs.findFirst({ where, select: { id: true } })
+        : await prisma.nutrition_plans.findFirst({ where, select: { id: true } });
+
+    if (!plan) {
+      throw new Error('Plan not found or access denied');
+    }
+  }
+}
+
+export const icalendarService = new ICalendarService();
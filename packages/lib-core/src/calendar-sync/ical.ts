@@ -0,0 +1,374 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * Serializzazione e parsing minimali di VCALENDAR/VEVENT per il feed .ics
+ * e l'import. Gli eventi OneCoach sono giornalieri (VALUE=DATE).
+ */
+
+import type { RecurrenceRule } from '../calendar.service';
+
+const PRODID = '-//OneCoach//Calendar Feed//IT';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Evento da esportare nel feed
+ */
+export interface ICalEventInput {
+  uid: string;
+  title: string;
+  description?: string | null;
+  /** Giorno dell'evento (all-day) oppure inizio se allDay = false */
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  updatedAt: Date;
+  recurrenceRule?: RecurrenceRule | null;
+  /** Occorrenze modificate: VEVENT con lo stesso UID e RECURRENCE-ID */
+  exceptions?: Array<{
+    recurrenceId: Date;
+    start: Date;
+    title: string;
+    properties?: Record<string, string>;
+  }>;
+  /** Proprietà X-ONECOACH-* per il round-trip dell'import */
+  properties?: Record<string, string>;
+}
+
+/**
+ * Evento letto da un file .ics
+ */
+export interface ParsedICalEvent {
+  uid: string;
+  title: string;
+  description: string | null;
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+  updatedAt: Date | null;
+  cancelled: boolean;
+  recurrenceRule: RecurrenceRule | null;
+  /** RRULE non rappresentabile con RecurrenceRule (es. BYSETPOS): conservato grezzo */
+  rawRRule: string | null;
+  /** Valorizzato per le occorrenze modificate di un evento ricorrente */
+  recurrenceId: Date | null;
+  properties: Record<string, string>;
+}
+
+// ================================
+// SERIALIZATION
+// ================================
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Piega le righe oltre 75 ottetti (RFC 5545 §3.1) senza spezzare caratteri multi-byte
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Converte la RecurrenceRule di calendar.service in RRULE
+ */
+export function recurrenceRuleToRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.endDate) {
+    parts.push(`UNTIL=${formatDate(new Date(rule.endDate))}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Chiave YYYY-MM-DD → valore DATE
+ */
+function formatDateKey(key: string): string {
+  return key.slice(0, 10).replace(/-/g, '');
+}
+
+function eventDateLines(start: Date, allDay: boolean, end?: Date): string[] {
+  if (allDay) {
+    const allDayEnd = end ?? new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return [`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${formatDate(allDayEnd)}`];
+  }
+  return [`DTSTART:${formatDateTime(start)}`, ...(end ? [`DTEND:${formatDateTime(end)}`] : [])];
+}
+
+function propertyLines(properties: Record<string, string> = {}): string[] {
+  return Object.entries(properties).map(
+    ([key, value]) => `X-ONECOACH-${key.toUpperCase()}:${escapeText(value)}`
+  );
+}
+
+export function generateICalendar(params: { name: string; events: ICalEventInput[] }): string {
+  const now = formatDateTime(new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(params.name)}`,
+  ];
+
+  for (const event of params.events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${now}`);
+    lines.push(...eventDateLines(event.start, event.allDay, event.end));
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+
+    if (event.recurrenceRule) {
+      lines.push(`RRULE:${recurrenceRuleToRRule(event.recurrenceRule)}`);
+      for (const exDate of event.recurrenceRule.exDates ?? []) {
+        lines.push(`EXDATE;VALUE=DATE:${formatDateKey(exDate)}`);
+      }
+    }
+
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.updatedAt)}`);
+    lines.push(...propertyLines(event.properties));
+    lines.push('END:VEVENT');
+
+    for (const exception of event.exceptions ?? []) {
+      lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${now}`);
+      lines.push(
+        event.allDay
+          ? `RECURRENCE-ID;VALUE=DATE:${formatDate(exception.recurrenceId)}`
+          : `RECURRENCE-ID:${formatDateTime(exception.recurrenceId)}`
+      );
+      lines.push(...eventDateLines(exception.start, event.allDay));
+      lines.push(`SUMMARY:${escapeText(exception.title)}`);
+      lines.push(`LAST-MODIFIED:${formatDateTime(event.updatedAt)}`);
+      lines.push(...propertyLines(exception.properties));
+      lines.push('END:VEVENT');
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ================================
+// PARSING
+// ================================
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * DATE (YYYYMMDD) o DATE-TIME (YYYYMMDDTHHMMSS[Z]). I DATE-TIME con TZID
+ * vengono trattati come UTC: per eventi giornalieri conta solo il giorno.
+ */
+function parseICalDate(value: string): { date: Date; allDay: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm, ss] = match;
+  const date = new Date(
+    Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh ?? 0), Number(mm ?? 0), Number(ss ?? 0))
+  );
+  return Number.isNaN(date.getTime()) ? null : { date, allDay: hh === undefined };
+}
+
+/**
+ * Converte una RRULE in RecurrenceRule se esprimibile
+ * (FREQ DAILY/WEEKLY/MONTHLY, solo BYDAY e BYMONTHDAY tra le regole BY*)
+ */
+export function rruleToRecurrenceRule(rrule: string): RecurrenceRule | null {
+  const parts = Object.fromEntries(
+    rrule.split(';').map((part) => {
+      const [key, value] = part.split('=');
+      return [key?.toUpperCase() ?? '', value ?? ''];
+    })
+  );
+
+  const frequency = parts.FREQ;
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY') return null;
+  if (
+    Object.keys(parts).some(
+      (key) => key.startsWith('BY') && key !== 'BYDAY' && key !== 'BYMONTHDAY'
+    )
+  ) {
+    return null;
+  }
+
+  const until = parts.UNTIL ? parseICalDate(parts.UNTIL) : null;
+  const byDay = parts.BYDAY ? parts.BYDAY.toUpperCase().split(',') : [];
+  const byMonthDay = parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',').map(Number) : [];
+
+  return {
+    frequency,
+    interval: parts.INTERVAL ? Math.max(1, Number(parts.INTERVAL)) : 1,
+    ...(parts.COUNT && { count: Number(parts.COUNT) }),
+    ...(until && { endDate: until.date.toISOString().slice(0, 10) }),
+    ...(byDay.length > 0 && { byDay }),
+    ...(byMonthDay.length > 0 && { byMonthDay }),
+  };
+}
+
+/**
+ * Righe logiche: ricompone le righe piegate (CRLF seguito da spazio o tab)
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+function parseContentLine(
+  line: string
+): { name: string; params: Record<string, string>; value: string } | null {
+  // Primo ':' fuori dai parametri quotati (es. TZID="Europe/Rome")
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name = '', ...rawParams] = line.slice(0, colon).split(';');
+  const params = Object.fromEntries(
+    rawParams.map((param) => {
+      const [key, value] = param.split('=');
+      return [key?.toUpperCase() ?? '', (value ?? '').replace(/^"|"$/g, '')];
+    })
+  );
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+export function parseICalendar(text: string): ParsedICalEvent[] {
+  const events: ParsedICalEvent[] = [];
+  let current: Record<string, { params: Record<string, string>; value: string }> | null = null;
+  let depth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+
+    if (parsed.name === 'BEGIN') {
+      if (parsed.value.toUpperCase() === 'VEVENT') {
+        current = {};
+        depth = 0;
+      } else if (current) {
+        // Componenti annidati (VALARM): ignorati
+        depth++;
+      }
+      continue;
+    }
+
+    if (parsed.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && parsed.value.toUpperCase() === 'VEVENT') {
+        const event = toParsedEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0 && parsed.name === 'EXDATE') {
+      // EXDATE può ripetersi: i valori vengono accumulati
+      const previous = current.EXDATE?.value;
+      current.EXDATE = {
+        params: parsed.params,
+        value: previous ? `${previous},${parsed.value}` : parsed.value,
+      };
+    } else if (current && depth === 0 && !(parsed.name in current)) {
+      current[parsed.name] = { params: parsed.params, value: parsed.value };
+    }
+  }
+
+  return events;
+}
+
+function toParsedEvent(
+  props: Record<string, { params: Record<string, string>; value: string }>
+): ParsedICalEvent | null {
+  const uid = props.UID?.value;
+  const start = props.DTSTART ? parseICalDate(props.DTSTART.value) : null;
+  if (!uid || !start) return null;
+
+  const end = props.DTEND ? parseICalDate(props.DTEND.value) : null;
+  const updated = props['LAST-MODIFIED'] ?? props.DTSTAMP;
+  const rawRRule = props.RRULE?.value ?? null;
+  const recurrenceRule = rawRRule ? rruleToRecurrenceRule(rawRRule) : null;
+  const recurrenceId = props['RECURRENCE-ID'] ? parseICalDate(props['RECURRENCE-ID'].value) : null;
+
+  const exDates: string[] = [];
+  for (const value of props.EXDATE?.value.split(',') ?? []) {
+    const exDate = parseICalDate(value.trim());
+    if (exDate) exDates.push(exDate.date.toISOString().slice(0, 10));
+  }
+  if (recurrenceRule && exDates.length > 0) {
+    recurrenceRule.exDates = exDates;
+  }
+
+  const properties: Record<string, string> = {};
+  for (const [name, prop] of Object.entries(props)) {
+    if (name.startsWith('X-ONECOACH-')) {
+      properties[name.slice('X-ONECOACH-'.length).toLowerCase()] = unescapeText(prop.value);
+    }
+  }
+
+  return {
+    uid,
+    title: unescapeText(props.SUMMARY?.value ?? ''),
+    description: props.DESCRIPTION ? unescapeText(props.DESCRIPTION.value) : null,
+    start: start.date,
+    end: end?.date ?? null,
+    allDay: start.allDay || props.DTSTART?.params.VALUE === 'DATE',
+    updatedAt: updated ? (parseICalDate(updated.value)?.date ?? null) : null,
+    cancelled: props.STATUS?.value.toUpperCase() === 'CANCELLED',
+    recurrenceRule,
+    rawRRule,
+    recurrenceId: recurrenceId?.date ?? null,
+    properties,
+  };
+}
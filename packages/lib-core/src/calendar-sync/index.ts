@@ -0,0 +1,13 @@
+/**
+ * Calendar Sync
+ *
+ * Sync bidirezionale con Google Calendar e Microsoft Outlook,
+ * feed e import iCalendar (.ics)
+ */
+
+export * from './types';
+export * from './providers';
+export * from './oauth-state';
+export * from './calendar-sync.service';
+export * from './ical';
+export * from './ical-feed.service';
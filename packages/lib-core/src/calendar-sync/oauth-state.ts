@@ -0,0 +1,53 @@
+/**
+ * Calendar OAuth State
+ *
+ * Nonce casuale monouso per il parametro `state` del flusso OAuth Google/Microsoft.
+ * La route auth lo salva in un cookie httpOnly e lo invia al provider; la callback
+ * accetta la risposta solo se lo state coincide con il cookie, poi lo cancella.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { WritableCalendarProvider } from './types';
+
+/** Validità del nonce: tempo massimo per completare il consenso sul provider */
+export const CALENDAR_OAUTH_STATE_MAX_AGE_S = 10 * 60;
+
+/**
+ * Opzioni del cookie: limitato alle route calendar, inviato nel redirect top-level del provider
+ */
+export const CALENDAR_OAUTH_STATE_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/api/oneagenda/calendar',
+  maxAge: CALENDAR_OAUTH_STATE_MAX_AGE_S,
+};
+
+/**
+ * Nome del cookie per provider: flussi paralleli non si sovrascrivono lo state
+ */
+export function getCalendarOAuthStateCookieName(provider: WritableCalendarProvider): string {
+  return `calendar_oauth_state_${provider.toLowerCase()}`;
+}
+
+export function createCalendarOAuthState(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Confronto a tempo costante tra lo state ricevuto dal provider e quello del cookie
+ */
+export function verifyCalendarOAuthState(
+  expected: string | null | undefined,
+  received: string | null | undefined
+): boolean {
+  if (!expected || !received) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
@@ -0,0 +1,374 @@
+/**
+ * Calendar Provider Clients
+ *
+ * Client minimali per Google Calendar API v3 e Microsoft Graph.
+ * Gli eventi creati da OneCoach sono all-day quando l'elemento locale non ha orario.
+ */
+
+import type {
+  CalendarEventInput,
+  CalendarTokens,
+  RemoteCalendarClient,
+  RemoteCalendarEvent,
+  WritableCalendarProvider,
+} from './types';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_API_URL = 'https://www.googleapis.com/calendar/v3';
+const MICROSOFT_TOKEN_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/token';
+const MICROSOFT_API_URL = 'https://graph.microsoft.com/v1.0';
+const MICROSOFT_SCOPE = 'Calendars.ReadWrite offline_access';
+
+/**
+ * Redirect URI registrati per il flusso OAuth (devono coincidere con le route auth)
+ */
+export function getCalendarRedirectUri(provider: WritableCalendarProvider): string {
+  const path = provider === 'GOOGLE' ? 'google' : 'microsoft';
+  return `${process.env.NEXTAUTH_URL}/api/oneagenda/calendar/${path}/callback`;
+}
+
+function getClientCredentials(provider: WritableCalendarProvider) {
+  return provider === 'GOOGLE'
+    ? {
+        tokenUrl: GOOGLE_TOKEN_URL,
+        clientId: process.env.GOOGLE_CLIENT_ID || '',
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+      }
+    : {
+        tokenUrl: MICROSOFT_TOKEN_URL,
+        clientId: process.env.MICROSOFT_CLIENT_ID || '',
+        clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
+      };
+}
+
+async function requestTokens(
+  provider: WritableCalendarProvider,
+  params: Record<string, string>
+): Promise<CalendarTokens> {
+  const { tokenUrl, clientId, clientSecret } = getClientCredentials(provider);
+
+  const response = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      ...(provider === 'MICROSOFT' && { scope: MICROSOFT_SCOPE }),
+      ...params,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token request to ${provider} failed (${response.status})`);
+  }
+
+  const data = (await response.json()) as {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+  };
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? null,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null,
+  };
+}
+
+/**
+ * Scambia il codice OAuth ricevuto nella callback con i token
+ */
+export async function exchangeCalendarAuthCode(
+  provider: WritableCalendarProvider,
+  code: string
+): Promise<CalendarTokens> {
+  return requestTokens(provider, {
+    code,
+    redirect_uri: getCalendarRedirectUri(provider),
+    grant_type: 'authorization_code',
+  });
+}
+
+/**
+ * Rinnova l'access token. Il refresh token viene mantenuto se il provider non ne emette uno nuovo.
+ */
+export async function refreshCalendarTokens(
+  provider: WritableCalendarProvider,
+  refreshToken: string
+): Promise<CalendarTokens> {
+  const tokens = await requestTokens(provider, {
+    refresh_token: refreshToken,
+    grant_type: 'refresh_token',
+  });
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+}
+
+/**
+ * Giorno di calendario (YYYY-MM-DD) per eventi all-day
+ */
+function toDateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+async function callApi<T>(
+  url: string,
+  accessToken: string,
+  init: RequestInit = {}
+): Promise<T | null> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  // Evento già rimosso lato provider
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Calendar API error ${response.status}: ${body.slice(0, 200)}`);
+  }
+
+  return response.status === 204 ? null : ((await response.json()) as T);
+}
+
+// ================================
+// GOOGLE
+// ================================
+
+interface GoogleEvent {
+  id: string;
+  status?: string;
+  summary?: string;
+  description?: string;
+  start?: { date?: string; dateTime?: string };
+  end?: { date?: string; dateTime?: string };
+  updated?: string;
+}
+
+function fromGoogleEvent(event: GoogleEvent): RemoteCalendarEvent {
+  const allDay = !!event.start?.date;
+  const start = new Date(event.start?.dateTime ?? `${event.start?.date}T00:00:00.000Z`);
+  const end = new Date(event.end?.dateTime ?? `${event.end?.date ?? event.start?.date}T00:00:00.000Z`);
+
+  return {
+    id: event.id,
+    title: event.summary ?? '',
+    description: event.description ?? null,
+    start,
+    end,
+    allDay,
+    updatedAt: new Date(event.updated ?? Date.now()),
+    cancelled: event.status === 'cancelled',
+  };
+}
+
+function toGoogleEvent(event: CalendarEventInput) {
+  return {
+    summary: event.title,
+    description: event.description ?? undefined,
+    start: event.allDay ? { date: toDateOnly(event.start) } : { dateTime: event.start.toISOString() },
+    end: event.allDay ? { date: toDateOnly(event.end) } : { dateTime: event.end.toISOString() },
+  };
+}
+
+export class GoogleCalendarClient implements RemoteCalendarClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly accessToken: string,
+    calendarId = 'primary'
+  ) {
+    this.baseUrl = `${GOOGLE_API_URL}/calendars/${encodeURIComponent(calendarId)}/events`;
+  }
+
+  async listEvents(start: Date, end: Date): Promise<RemoteCalendarEvent[]> {
+    const events: RemoteCalendarEvent[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const url = new URL(this.baseUrl);
+      url.searchParams.set('timeMin', start.toISOString());
+      url.searchParams.set('timeMax', end.toISOString());
+      url.searchParams.set('singleEvents', 'true');
+      url.searchParams.set('showDeleted', 'true');
+      url.searchParams.set('maxResults', '250');
+      if (pageToken) url.searchParams.set('pageToken', pageToken);
+
+      const page = await callApi<{ items?: GoogleEvent[]; nextPageToken?: string }>(
+        url.toString(),
+        this.accessToken
+      );
+      events.push(...(page?.items ?? []).map(fromGoogleEvent));
+      pageToken = page?.nextPageToken;
+    } while (pageToken);
+
+    return events;
+  }
+
+  async getEvent(eventId: string): Promise<RemoteCalendarEvent | null> {
+    const event = await callApi<GoogleEvent>(
+      `${this.baseUrl}/${encodeURIComponent(eventId)}`,
+      this.accessToken
+    );
+    return event ? fromGoogleEvent(event) : null;
+  }
+
+  async createEvent(event: CalendarEventInput): Promise<RemoteCalendarEvent> {
+    const created = await callApi<GoogleEvent>(this.baseUrl, this.accessToken, {
+      method: 'POST',
+      body: JSON.stringify(toGoogleEvent(event)),
+    });
+    if (!created) throw new Error('Google Calendar did not return the created event');
+    return fromGoogleEvent(created);
+  }
+
+  async updateEvent(eventId: string, event: CalendarEventInput): Promise<RemoteCalendarEvent> {
+    const updated = await callApi<GoogleEvent>(
+      `${this.baseUrl}/${encodeURIComponent(eventId)}`,
+      this.accessToken,
+      { method: 'PATCH', body: JSON.stringify(toGoogleEvent(event)) }
+    );
+    if (!updated) throw new Error(`Google Calendar event ${eventId} not found`);
+    return fromGoogleEvent(updated);
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    await callApi(`${this.baseUrl}/${encodeURIComponent(eventId)}`, this.accessToken, {
+      method: 'DELETE',
+    });
+  }
+}
+
+// ================================
+// MICROSOFT
+// ================================
+
+interface MicrosoftEvent {
+  id: string;
+  subject?: string;
+  body?: { content?: string };
+  start?: { dateTime: string };
+  end?: { dateTime: string };
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  lastModifiedDateTime?: string;
+}
+
+/**
+ * Graph restituisce dateTime senza offset: con Prefer outlook.timezone="UTC" sono in UTC
+ */
+function parseGraphDate(value?: string): Date {
+  if (!value) return new Date(NaN);
+  return new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value}Z`);
+}
+
+function fromMicrosoftEvent(event: MicrosoftEvent): RemoteCalendarEvent {
+  return {
+    id: event.id,
+    title: event.subject ?? '',
+    description: event.body?.content ?? null,
+    start: parseGraphDate(event.start?.dateTime),
+    end: parseGraphDate(event.end?.dateTime),
+    allDay: !!event.isAllDay,
+    updatedAt: new Date(event.lastModifiedDateTime ?? Date.now()),
+    cancelled: !!event.isCancelled,
+  };
+}
+
+function toMicrosoftEvent(event: CalendarEventInput) {
+  const format = (date: Date) =>
+    event.allDay ? `${toDateOnly(date)}T00:00:00` : date.toISOString().replace('Z', '');
+
+  return {
+    subject: event.title,
+    body: { contentType: 'text', content: event.description ?? '' },
+    start: { dateTime: format(event.start), timeZone: 'UTC' },
+    end: { dateTime: format(event.end), timeZone: 'UTC' },
+    isAllDay: event.allDay,
+  };
+}
+
+export class MicrosoftCalendarClient implements RemoteCalendarClient {
+  private readonly calendarPath: string;
+
+  constructor(
+    private readonly accessToken: string,
+    calendarId?: string | null
+  ) {
+    this.calendarPath = calendarId
+      ? `${MICROSOFT_API_URL}/me/calendars/${encodeURIComponent(calendarId)}`
+      : `${MICROSOFT_API_URL}/me/calendar`;
+  }
+
+  private request<T>(url: string, init: RequestInit = {}) {
+    return callApi<T>(url, this.accessToken, {
+      ...init,
+      headers: { Prefer: 'outlook.timezone="UTC"', ...init.headers },
+    });
+  }
+
+  async listEvents(start: Date, end: Date): Promise<RemoteCalendarEvent[]> {
+    const events: RemoteCalendarEvent[] = [];
+    const url = new URL(`${this.calendarPath}/calendarView`);
+    url.searchParams.set('startDateTime', start.toISOString());
+    url.searchParams.set('endDateTime', end.toISOString());
+    url.searchParams.set('$top', '250');
+    let next: string | undefined = url.toString();
+
+    while (next) {
+      const page: { value?: MicrosoftEvent[]; '@odata.nextLink'?: string } | null =
+        await this.request(next);
+      events.push(...(page?.value ?? []).map(fromMicrosoftEvent));
+      next = page?.['@odata.nextLink'];
+    }
+
+    return events;
+  }
+
+  async getEvent(eventId: string): Promise<RemoteCalendarEvent | null> {
+    const event = await this.request<MicrosoftEvent>(
+      `${MICROSOFT_API_URL}/me/events/${encodeURIComponent(eventId)}`
+    );
+    return event ? fromMicrosoftEvent(event) : null;
+  }
+
+  async createEvent(event: CalendarEventInput): Promise<RemoteCalendarEvent> {
+    const created = await this.request<MicrosoftEvent>(`${this.calendarPath}/events`, {
+      method: 'POST',
+      body: JSON.stringify(toMicrosoftEvent(event)),
+    });
+    if (!created) throw new Error('Microsoft Graph did not return the created event');
+    return fromMicrosoftEvent(created);
+  }
+
+  async updateEvent(eventId: string, event: CalendarEventInput): Promise<RemoteCalendarEvent> {
+    const updated = await this.request<MicrosoftEvent>(
+      `${MICROSOFT_API_URL}/me/events/${encodeURIComponent(eventId)}`,
+      { method: 'PATCH', body: JSON.stringify(toMicrosoftEvent(event)) }
+    );
+    if (!updated) throw new Error(`Microsoft event ${eventId} not found`);
+    return fromMicrosoftEvent(updated);
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    await this.request(`${MICROSOFT_API_URL}/me/events/${encodeURIComponent(eventId)}`, {
+      method: 'DELETE',
+    });
+  }
+}
+
+export function createCalendarClient(
+  provider: WritableCalendarProvider,
+  accessToken: string,
+  calendarId?: string | null
+): RemoteCalendarClient {
+  return provider === 'GOOGLE'
+    ? new GoogleCalendarClient(accessToken, calendarId ?? 'primary')
+    : new MicrosoftCalendarClient(accessToken, calendarId);
+}
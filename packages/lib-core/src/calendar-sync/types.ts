@@ -0,0 +1,98 @@
+/**
+ * Calendar Sync Types
+ *
+ * Tipi condivisi tra client dei provider (Google/Microsoft) e servizio di sync.
+ */
+
+import type { CalendarSyncItemType, CalendarSyncProvider } from '@prisma/client';
+
+export type { CalendarSyncItemType, CalendarSyncProvider };
+
+/**
+ * Provider con API di scrittura (iCal è solo lettura)
+ */
+export type WritableCalendarProvider = Extract<CalendarSyncProvider, 'GOOGLE' | 'MICROSOFT'>;
+
+/**
+ * Token OAuth di una connessione
+ */
+export interface CalendarTokens {
+  accessToken: string;
+  refreshToken?: string | null;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Evento remoto normalizzato
+ */
+export interface RemoteCalendarEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  updatedAt: Date;
+  cancelled?: boolean;
+}
+
+/**
+ * Payload per creare/aggiornare un evento remoto
+ */
+export interface CalendarEventInput {
+  title: string;
+  description?: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+/**
+ * Elemento locale sincronizzabile (task OneAgenda o calendar assignment)
+ */
+export interface LocalSyncItem extends CalendarEventInput {
+  type: CalendarSyncItemType;
+  id: string;
+  updatedAt: Date;
+}
+
+export type CalendarSyncOperation =
+  | 'push_create'
+  | 'push_update'
+  | 'push_delete'
+  | 'pull_update'
+  | 'pull_delete';
+
+export interface CalendarSyncItemError {
+  itemType: CalendarSyncItemType;
+  itemId: string;
+  operation: CalendarSyncOperation;
+  error: string;
+}
+
+export interface CalendarSyncStats {
+  pushed: { created: number; updated: number; deleted: number };
+  pulled: { created: number; updated: number; deleted: number };
+  conflicts: number;
+}
+
+export interface CalendarSyncResult extends CalendarSyncStats {
+  provider: CalendarSyncProvider;
+  status: 'SUCCESS' | 'PARTIAL' | 'FAILED';
+  /** Errore bloccante (token, API non raggiungibile) */
+  error?: string;
+  /** Errori per singolo elemento: il sync degli altri elementi prosegue */
+  errors: CalendarSyncItemError[];
+  syncedAt: Date;
+}
+
+/**
+ * Client verso le API di un calendario esterno
+ */
+export interface RemoteCalendarClient {
+  listEvents(start: Date, end: Date): Promise<RemoteCalendarEvent[]>;
+  getEvent(eventId: string): Promise<RemoteCalendarEvent | null>;
+  createEvent(event: CalendarEventInput): Promise<RemoteCalendarEvent>;
+  updateEvent(eventId: string, event: CalendarEventInput): Promise<RemoteCalendarEvent>;
+  deleteEvent(eventId: string): Promise<void>;
+}
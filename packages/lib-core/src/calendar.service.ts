@@ -10,6 +10,14 @@
 import { prisma } from './prisma';
 import { Prisma } from '@prisma/client';
 import type { CalendarPlanType } from '@prisma/client';
+import {
+  expandRecurrence,
+  fromRecurrenceDateKey,
+  hasRemainingOccurrences,
+  isRecurrenceOccurrence,
+  toRecurrenceDateKey,
+  validateRecurrenceRule,
+} from './calendar-recurrence';
 
 /**
  * Calendar Assignment type definition
@@ -27,13 +35,36 @@ export interface CalendarAssignment {
 }
 
 /**
- * Recurrence rule for repeating assignments
+ * Occurrence of an assignment in a queried range.
+ * Recurring assignments are expanded lazily: every occurrence shares the row id.
+ */
+export interface CalendarAssignmentOccurrence extends CalendarAssignment {
+  /** Day generated by the recurrence rule (equal to date unless moved) */
+  occurrenceDate: Date;
+  isOverridden: boolean;
+}
+
+/**
+ * Recurrence rule for repeating assignments (subset of RFC 5545 RRULE)
  */
 export interface RecurrenceRule {
   frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY';
   interval: number; // Every N days/weeks/months
   endDate?: string; // ISO date string
   count?: number; // Number of occurrences
+  byDay?: string[]; // 'MO' | 'TU' ...; monthly also '1MO', '-1FR'
+  byMonthDay?: number[]; // Negative values count from month end
+  exDates?: string[]; // Excluded occurrences (YYYY-MM-DD)
+  overrides?: RecurrenceOverride[];
+}
+
+/**
+ * Change applied to a single occurrence of a recurring assignment
+ */
+export interface RecurrenceOverride {
+  occurrenceDate: string; // Original occurrence (YYYY-MM-DD)
+  date?: string; // Moved to this day (YYYY-MM-DD)
+  planId?: string; // Different plan for this occurrence only
 }
 
 /**
@@ -74,27 +105,30 @@ export interface QueryCalendarAssignmentsRequest {
  */
 export interface DayPlanView {
   date: Date;
-  nutritionAssignments: CalendarAssignment[];
-  workoutAssignments: CalendarAssignment[];
+  nutritionAssignments: CalendarAssignmentOccurrence[];
+  workoutAssignments: CalendarAssignmentOccurrence[];
   hasNutrition: boolean;
   hasWorkout: boolean;
 }
 
 /**
- * Get calendar assignments for a date range
+ * Get calendar assignments for a date range, expanding recurring assignments
  */
 export async function getCalendarAssignments(
   params: QueryCalendarAssignmentsRequest
-): Promise<CalendarAssignment[]> {
+): Promise<CalendarAssignmentOccurrence[]> {
   const { userId, startDate, endDate, planType } = params;
+  const start = new Date(startDate);
+  const end = new Date(endDate);
 
   const assignments = await prisma.calendar_assignments.findMany({
     where: {
       userId,
-      date: {
-        gte: new Date(startDate),
-        lte: new Date(endDate),
-      },
+      // Recurring assignments start on their base date, possibly before the range
+      OR: [
+        { isRecurring: false, date: { gte: start, lte: end } },
+        { isRecurring: true, date: { lte: end } },
+      ],
       ...(planType && { planType }),
     },
     orderBy: {
@@ -102,7 +136,9 @@ export async function getCalendarAssignments(
     },
   });
 
-  return assignments.map(mapToCalendarAssignment);
+  return assignments
+    .flatMap((assignment) => expandAssignment(mapToCalendarAssignment(assignment), start, end))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
 }
 
 /**
@@ -127,21 +163,14 @@ export async function getCalendarAssignmentById(
  */
 export async function getDayPlan(userId: string, date: Date | string): Promise<DayPlanView> {
   const targetDate = new Date(date);
-  targetDate.setHours(0, 0, 0, 0);
+  targetDate.setUTCHours(0, 0, 0, 0);
 
-  const assignments = await prisma.calendar_assignments.findMany({
-    where: {
-      userId,
-      date: targetDate,
-    },
-  });
-
-  const mapped = assignments.map(mapToCalendarAssignment);
+  const mapped = await getCalendarAssignments({ userId, startDate: targetDate, endDate: targetDate });
 
   return {
     date: targetDate,
-    nutritionAssignments: mapped.filter((a: CalendarAssignment) => a.planType === 'NUTRITION'),
-    workoutAssignments: mapped.filter((a: CalendarAssignment) => a.planType === 'WORKOUT'),
+    nutritionAssignments: mapped.filter((a) => a.planType === 'NUTRITION'),
+    workoutAssignments: mapped.filter((a) => a.planType === 'WORKOUT'),
     hasNutrition: mapped.some((a) => a.planType === 'NUTRITION'),
     hasWorkout: mapped.some((a) => a.planType === 'WORKOUT'),
   };
@@ -154,7 +183,14 @@ export async function createCalendarAssignment(
   data: CreateCalendarAssignmentRequest
 ): Promise<CalendarAssignment> {
   const targetDate = new Date(data.date);
-  targetDate.setHours(0, 0, 0, 0);
+  targetDate.setUTCHours(0, 0, 0, 0);
+
+  if (data.isRecurring) {
+    if (!data.recurrenceRule) {
+      throw new Error('Recurrence rule is required for recurring assignments');
+    }
+    validateRecurrenceRule(data.recurrenceRule);
+  }
 
   const assignment = await prisma.calendar_assignments.create({
     data: {
@@ -171,7 +207,8 @@ export async function createCalendarAssignment(
 }
 
 /**
- * Create multiple assignments (for date ranges) - optimized with batch operations
+ * Assign a plan to every day of a range.
+ * Stored as a single daily recurring assignment, expanded on read.
  */
 export async function createCalendarAssignmentRange(
   userId: string,
@@ -179,29 +216,30 @@ export async function createCalendarAssignmentRange(
   endDate: Date | string,
   planType: CalendarPlanType,
   planId: string
-): Promise<CalendarAssignment[]> {
+): Promise<CalendarAssignmentOccurrence[]> {
   const start = new Date(startDate);
   const end = new Date(endDate);
-  start.setHours(0, 0, 0, 0);
-  end.setHours(0, 0, 0, 0);
-
-  const dates: Date[] = [];
-  const current = new Date(start);
+  start.setUTCHours(0, 0, 0, 0);
+  end.setUTCHours(0, 0, 0, 0);
 
-  while (current <= end) {
-    dates.push(new Date(current));
-    current.setDate(current.getDate() + 1);
+  if (end < start) {
+    throw new Error('End date must be on or after start date');
   }
 
-  // Use transaction with deleteMany + createMany for better performance
-  // This is more efficient than N individual upserts
-  const assignments = await prisma.$transaction(async (tx) => {
-    // First, delete any existing assignments for this range
+  const recurrenceRule: RecurrenceRule = {
+    frequency: 'DAILY',
+    interval: 1,
+    endDate: toRecurrenceDateKey(end),
+  };
+
+  const assignment = await prisma.$transaction(async (tx) => {
+    // Replace single-day assignments of the same plan in the range
     await tx.calendar_assignments.deleteMany({
       where: {
         userId,
         planType,
         planId,
+        isRecurring: false,
         date: {
           gte: start,
           lte: end,
@@ -209,33 +247,19 @@ export async function createCalendarAssignmentRange(
       },
     });
 
-    // Then create all new assignments in a single batch
-    await tx.calendar_assignments.createMany({
-      data: dates.map((date: Date) => ({
-        userId,
-        date,
-        planType,
-        planId,
-        isRecurring: false,
-      })),
-    });
-
-    // Fetch the created assignments to return them
-    return tx.calendar_assignments.findMany({
-      where: {
+    return tx.calendar_assignments.create({
+      data: {
         userId,
+        date: start,
         planType,
         planId,
-        date: {
-          gte: start,
-          lte: end,
-        },
+        isRecurring: true,
+        recurrenceRule: recurrenceRule as unknown as Prisma.InputJsonValue,
       },
-      orderBy: { date: 'asc' },
     });
   });
 
-  return assignments.map(mapToCalendarAssignment);
+  return expandAssignment(mapToCalendarAssignment(assignment), start, end);
 }
 
 /**
@@ -259,13 +283,14 @@ export async function updateCalendarAssignment(
 
   if (data.date !== undefined) {
     const targetDate = new Date(data.date);
-    targetDate.setHours(0, 0, 0, 0);
+    targetDate.setUTCHours(0, 0, 0, 0);
     updateData.date = targetDate;
   }
   if (data.planType !== undefined) updateData.planType = data.planType;
   if (data.planId !== undefined) updateData.planId = data.planId;
   if (data.isRecurring !== undefined) updateData.isRecurring = data.isRecurring;
   if (data.recurrenceRule !== undefined) {
+    if (data.recurrenceRule) validateRecurrenceRule(data.recurrenceRule);
     updateData.recurrenceRule = data.recurrenceRule as unknown as Prisma.InputJsonValue;
   }
 
@@ -277,6 +302,59 @@ export async function updateCalendarAssignment(
   return mapToCalendarAssignment(assignment);
 }
 
+/**
+ * Move a single occurrence of a recurring assignment or change its plan
+ */
+export async function overrideCalendarOccurrence(
+  id: string,
+  userId: string,
+  occurrenceDate: Date | string,
+  change: { date?: Date | string; planId?: string }
+): Promise<CalendarAssignment> {
+  return updateOccurrences(id, userId, occurrenceDate, (rule, key) => ({
+    ...rule,
+    exDates: rule.exDates?.filter((d) => d !== key),
+    overrides: [
+      ...(rule.overrides ?? []).filter((o) => o.occurrenceDate !== key),
+      {
+        occurrenceDate: key,
+        ...(change.date !== undefined && { date: toDateKey(change.date) }),
+        ...(change.planId && { planId: change.planId }),
+      },
+    ],
+  }));
+}
+
+/**
+ * Skip a single occurrence of a recurring assignment (EXDATE)
+ */
+export async function cancelCalendarOccurrence(
+  id: string,
+  userId: string,
+  occurrenceDate: Date | string
+): Promise<CalendarAssignment> {
+  return updateOccurrences(id, userId, occurrenceDate, (rule, key) => ({
+    ...rule,
+    exDates: [...new Set([...(rule.exDates ?? []), key])],
+    overrides: rule.overrides?.filter((o) => o.occurrenceDate !== key),
+  }));
+}
+
+/**
+ * Drop exclusions and overrides of a single occurrence
+ */
+export async function restoreCalendarOccurrence(
+  id: string,
+  userId: string,
+  occurrenceDate: Date | string
+): Promise<CalendarAssignment> {
+  return updateOccurrences(id, userId, occurrenceDate, (rule, key) => ({
+    ...rule,
+    exDates: rule.exDates?.filter((d) => d !== key),
+    overrides: rule.overrides?.filter((o) => o.occurrenceDate !== key),
+  }));
+}
+
 /**
  * Delete a calendar assignment
  */
@@ -315,7 +393,9 @@ export async function deleteAssignmentsByPlanId(
 }
 
 /**
- * Delete assignments for a date range
+ * Delete assignments for a date range.
+ * Recurring assignments only lose their occurrences in the range (EXDATE);
+ * the row is deleted once no occurrence is left. Returns the removed occurrences.
  */
 export async function deleteAssignmentsInRange(
   userId: string,
@@ -325,21 +405,132 @@ export async function deleteAssignmentsInRange(
 ): Promise<number> {
   const start = new Date(startDate);
   const end = new Date(endDate);
-  start.setHours(0, 0, 0, 0);
-  end.setHours(0, 0, 0, 0);
+  start.setUTCHours(0, 0, 0, 0);
+  end.setUTCHours(0, 0, 0, 0);
 
-  const result = await prisma.calendar_assignments.deleteMany({
-    where: {
-      userId,
-      date: {
-        gte: start,
-        lte: end,
+  return await prisma.$transaction(async (tx) => {
+    const assignments = await tx.calendar_assignments.findMany({
+      where: {
+        userId,
+        OR: [
+          { isRecurring: false, date: { gte: start, lte: end } },
+          { isRecurring: true, date: { lte: end } },
+        ],
+        ...(planType && { planType }),
       },
-      ...(planType && { planType }),
-    },
+    });
+
+    const toDelete: string[] = [];
+    let removed = 0;
+
+    for (const row of assignments) {
+      const assignment = mapToCalendarAssignment(row);
+      const rule = assignment.isRecurring ? assignment.recurrenceRule : null;
+
+      if (!rule) {
+        if (assignment.date >= start && assignment.date <= end) {
+          toDelete.push(assignment.id);
+          removed++;
+        }
+        continue;
+      }
+
+      const occurrences = expandRecurrence(assignment.date, rule, start, end);
+      if (occurrences.length === 0) continue;
+
+      const keys = new Set(occurrences.map((o) => toRecurrenceDateKey(o.occurrenceDate)));
+      const updatedRule: RecurrenceRule = {
+        ...rule,
+        exDates: [...new Set([...(rule.exDates ?? []), ...keys])],
+        overrides: rule.overrides?.filter((o) => !keys.has(o.occurrenceDate)),
+      };
+      removed += occurrences.length;
+
+      if (!hasRemainingOccurrences(assignment.date, updatedRule)) {
+        toDelete.push(assignment.id);
+        continue;
+      }
+
+      await tx.calendar_assignments.update({
+        where: { id: assignment.id },
+        data: { recurrenceRule: updatedRule as unknown as Prisma.InputJsonValue },
+      });
+    }
+
+    if (toDelete.length > 0) {
+      await tx.calendar_assignments.deleteMany({ where: { id: { in: toDelete } } });
+    }
+
+    return removed;
   });
+}
 
-  return result.count;
+/**
+ * YYYY-MM-DD strings are calendar days, not UTC instants
+ */
+function toDateKey(value: Date | string): string {
+  return toRecurrenceDateKey(typeof value === 'string' ? fromRecurrenceDateKey(value) : value);
+}
+
+async function updateOccurrences(
+  id: string,
+  userId: string,
+  occurrenceDate: Date | string,
+  apply: (rule: RecurrenceRule, key: string) => RecurrenceRule
+): Promise<CalendarAssignment> {
+  const existing = await prisma.calendar_assignments.findFirst({
+    where: { id, userId },
+  });
+
+  if (!existing) {
+    throw new Error('Calendar assignment not found or access denied');
+  }
+
+  const rule = existing.recurrenceRule as unknown as RecurrenceRule | null;
+  if (!existing.isRecurring || !rule) {
+    throw new Error('Calendar assignment is not recurring');
+  }
+
+  const key = toDateKey(occurrenceDate);
+
+  if (!isRecurrenceOccurrence(existing.date, rule, fromRecurrenceDateKey(key))) {
+    throw new Error(`${key} is not an occurrence of this assignment`);
+  }
+
+  const updatedRule = apply(rule, key);
+  validateRecurrenceRule(updatedRule);
+
+  const assignment = await prisma.calendar_assignments.update({
+    where: { id },
+    data: { recurrenceRule: updatedRule as unknown as Prisma.InputJsonValue },
+  });
+
+  return mapToCalendarAssignment(assignment);
+}
+
+/**
+ * Expand an assignment into its occurrences in [start, end]
+ */
+function expandAssignment(
+  assignment: CalendarAssignment,
+  start: Date,
+  end: Date
+): CalendarAssignmentOccurrence[] {
+  if (!assignment.isRecurring || !assignment.recurrenceRule) {
+    return assignment.date >= start && assignment.date <= end
+      ? [{ ...assignment, occurrenceDate: assignment.date, isOverridden: false }]
+      : [];
+  }
+
+  return expandRecurrence(assignment.date, assignment.recurrenceRule, start, end).map(
+    (occurrence) => ({
+      ...assignment,
+      date: occurrence.date,
+      planId: occurrence.override?.planId ?? assignment.planId,
+      occurrenceDate: occurrence.occurrenceDate,
+      isOverridden: occurrence.override !== null,
+    })
+  );
 }
 
 /**
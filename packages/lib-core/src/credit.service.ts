@@ -7,8 +7,23 @@
 
 import { prisma } from './prisma';
 import { Prisma } from '@prisma/client';
-import type { TransactionType } from '@prisma/client';
+import type { TransactionType, credit_reservations } from '@prisma/client';
 import type { ICreditService } from '@onecoach/contracts';
+import { entitlementService } from './entitlement.service';
+
+/**
+ * Durata di default di una prenotazione: oltre questa soglia viene rilasciata
+ * da releaseExpiredReservations
+ */
+const DEFAULT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+const RESERVATION_TRANSACTION_TYPES: TransactionType[] = [
+  'RESERVATION_HOLD',
+  'RESERVATION_CAPTURE',
+  'RESERVATION_RELEASE',
+];
+
+export type CreditReservation = credit_reservations;
 
 /**
  * Implementazione Credit Service
@@ -45,19 +60,23 @@ export class CreditService implements ICreditService {
       return true;
     }
 
-    const hasEnough = await this.checkCredits(params.userId, params.amount);
-    if (!hasEnough) {
-      return false;
-    }
-
-    await prisma.$transaction(async (tx) => {
-      const updatedUser = await tx.users.update({
-        where: { id: params.userId },
+    // Decremento condizionale: due consumi concorrenti non possono portare il saldo sotto zero
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.users.updateMany({
+        where: { id: params.userId, credits: { gte: params.amount } },
         data: {
           credits: {
             decrement: params.amount,
           },
         },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      const updatedUser = await tx.users.findUniqueOrThrow({
+        where: { id: params.userId },
         select: { credits: true },
       });
 
@@ -71,9 +90,231 @@ export class CreditService implements ICreditService {
           balanceAfter: updatedUser.credits,
         },
       });
+
+      return true;
+    });
+  }
+
+  /**
+   * Prenota crediti prima di un job AI lungo.
+   * L'importo stimato viene scalato subito dal saldo (atomicamente) e registrato
+   * come RESERVATION_HOLD; va poi chiuso con captureReservation o releaseReservation.
+   * Ritorna null se il saldo non è sufficiente.
+   */
+  async reserveCredits(params: {
+    userId: string;
+    amount: number;
+    description: string;
+    metadata?: Record<string, unknown>;
+    ttlMs?: number;
+  }): Promise<CreditReservation | null> {
+    if (params.amount < 0) {
+      throw new Error('Reservation amount must be non-negative');
+    }
+
+    const expiresAt = new Date(Date.now() + (params.ttlMs ?? DEFAULT_RESERVATION_TTL_MS));
+
+    if (await this.hasUnlimitedCredits(params.userId)) {
+      return await prisma.credit_reservations.create({
+        data: {
+          userId: params.userId,
+          amount: 0,
+          unlimited: true,
+          status: 'HELD',
+          description: params.description,
+          metadata: params.metadata as Prisma.InputJsonValue,
+          expiresAt,
+        },
+      });
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.users.updateMany({
+        where: { id: params.userId, credits: { gte: params.amount } },
+        data: {
+          credits: {
+            decrement: params.amount,
+          },
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const updatedUser = await tx.users.findUniqueOrThrow({
+        where: { id: params.userId },
+        select: { credits: true },
+      });
+
+      const reservation = await tx.credit_reservations.create({
+        data: {
+          userId: params.userId,
+          amount: params.amount,
+          unlimited: false,
+          status: 'HELD',
+          description: params.description,
+          metadata: params.metadata as Prisma.InputJsonValue,
+          expiresAt,
+        },
+      });
+
+      await tx.credit_transactions.create({
+        data: {
+          userId: params.userId,
+          amount: -params.amount,
+          type: 'RESERVATION_HOLD',
+          description: params.description,
+          metadata: {
+            ...params.metadata,
+            reservationId: reservation.id,
+          } as Prisma.InputJsonValue,
+          balanceAfter: updatedUser.credits,
+        },
+      });
+
+      return reservation;
+    });
+  }
+
+  /**
+   * Chiude una prenotazione addebitando il costo effettivo (default: l'intero importo
+   * prenotato). La differenza rispetto alla stima viene restituita al saldo.
+   */
+  async captureReservation(
+    reservationId: string,
+    actualAmount?: number
+  ): Promise<CreditReservation> {
+    return await prisma.$transaction(async (tx) => {
+      const reservation = await this.claimHeldReservation(tx, reservationId);
+      const captured = reservation.unlimited ? 0 : (actualAmount ?? reservation.amount);
+
+      if (captured < 0 || captured > reservation.amount) {
+        throw new Error(
+          `Capture amount ${captured} must be between 0 and the reserved ${reservation.amount}`
+        );
+      }
+
+      if (!reservation.unlimited) {
+        await this.settleReservation(tx, reservation, {
+          refund: reservation.amount - captured,
+          type: 'RESERVATION_CAPTURE',
+          description: `${reservation.description} (addebito ${captured}/${reservation.amount})`,
+        });
+      }
+
+      return await tx.credit_reservations.update({
+        where: { id: reservation.id },
+        data: {
+          status: 'CAPTURED',
+          capturedAmount: captured,
+          settledAt: new Date(),
+        },
+      });
     });
+  }
+
+  /**
+   * Annulla una prenotazione restituendo l'intero importo (job fallito)
+   */
+  async releaseReservation(reservationId: string, reason?: string): Promise<CreditReservation> {
+    return await this.releaseHeld(reservationId, 'RELEASED', reason ?? 'Rilascio prenotazione');
+  }
+
+  /**
+   * Rilascia le prenotazioni scadute (job interrotti senza capture/release).
+   * Invocato dal cron /api/admin/credits/reservations/process.
+   */
+  async releaseExpiredReservations(now = new Date()): Promise<number> {
+    const expired = await prisma.credit_reservations.findMany({
+      where: { status: 'HELD', expiresAt: { lt: now } },
+      select: { id: true },
+    });
+
+    let released = 0;
+    for (const { id } of expired) {
+      try {
+        await this.releaseHeld(id, 'EXPIRED', 'Prenotazione scaduta');
+        released++;
+      } catch {
+        // Già chiusa da capture/release concorrente
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Esegue un job tra reserve e capture/release.
+   * `job` può ritornare il costo effettivo tramite `actualCost`, altrimenti si addebita la stima.
+   */
+  async withReservation<T>(
+    params: {
+      userId: string;
+      amount: number;
+      description: string;
+      metadata?: Record<string, unknown>;
+      ttlMs?: number;
+      actualCost?: (result: T) => number;
+    },
+    job: (reservation: CreditReservation) => Promise<T>
+  ): Promise<T> {
+    const reservation = await this.reserveCredits(params);
+    if (!reservation) {
+      throw new Error(`Crediti insufficienti. Richiesti: ${params.amount}`);
+    }
+
+    const stopRenewal = this.keepReservationAlive(reservation.id, params.ttlMs);
+    let result: T;
+    try {
+      result = await job(reservation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.releaseReservation(reservation.id, `Job fallito: ${message}`);
+      throw error;
+    } finally {
+      stopRenewal();
+    }
+
+    await this.captureReservation(reservation.id, params.actualCost?.(result));
+    return result;
+  }
+
+  /**
+   * Sposta in avanti la scadenza di una prenotazione ancora HELD.
+   * Ritorna false se la prenotazione è già stata chiusa (anche dal cron di scadenza).
+   */
+  async extendReservation(
+    reservationId: string,
+    ttlMs = DEFAULT_RESERVATION_TTL_MS
+  ): Promise<boolean> {
+    const { count } = await prisma.credit_reservations.updateMany({
+      where: { id: reservationId, status: 'HELD' },
+      data: { expiresAt: new Date(Date.now() + ttlMs) },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Rinnova periodicamente la prenotazione finché il job è in corso, così che
+   * releaseExpiredReservations non la chiuda prima del capture.
+   * Ritorna la funzione che ferma il rinnovo.
+   */
+  keepReservationAlive(reservationId: string, ttlMs = DEFAULT_RESERVATION_TTL_MS): () => void {
+    const timer = setInterval(() => {
+      this.extendReservation(reservationId, ttlMs).catch(() => {
+        // Riprova al giro successivo: la scadenza corrente copre ancora il job
+      });
+    }, Math.max(Math.floor(ttlMs / 3), 1000));
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
 
-    return true;
+  async getReservation(reservationId: string): Promise<CreditReservation | null> {
+    return await prisma.credit_reservations.findUnique({
+      where: { id: reservationId },
+    });
   }
 
   async addCredits(params: {
@@ -150,53 +391,47 @@ export class CreditService implements ICreditService {
     } | null;
   }> {
     // Optimized: Use aggregate queries instead of fetching all transactions
-    const [user, transactions, addedResult, consumedResult] = await Promise.all([
-      prisma.users.findUnique({
-        where: { id: userId },
-        select: {
-          credits: true,
-          subscriptions: {
-            select: {
-              status: true,
-              plan: true,
-            },
-            where: {
-              status: 'ACTIVE',
-            },
-            take: 1,
+    const [user, hasUnlimitedCredits, transactions, addedResult, consumedResult, refundedResult] =
+      await Promise.all([
+        prisma.users.findUnique({
+          where: { id: userId },
+          select: { credits: true },
+        }),
+        this.hasUnlimitedCredits(userId),
+        prisma.credit_transactions.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: {
+            id: true,
+            amount: true,
+            type: true,
+            createdAt: true,
           },
-        },
-      }),
-      prisma.credit_transactions.findMany({
-        where: { userId },
-        orderBy: { createdAt: 'desc' },
-        take: 1,
-        select: {
-          id: true,
-          amount: true,
-          type: true,
-          createdAt: true,
-        },
-      }),
-      // Aggregate query for total added credits
-      prisma.credit_transactions.aggregate({
-        where: { userId, amount: { gt: 0 } },
-        _sum: { amount: true },
-      }),
-      // Aggregate query for total consumed credits
-      prisma.credit_transactions.aggregate({
-        where: { userId, amount: { lt: 0 } },
-        _sum: { amount: true },
-      }),
-    ]);
+        }),
+        // Aggregate query for total added credits
+        prisma.credit_transactions.aggregate({
+          where: { userId, amount: { gt: 0 }, type: { notIn: RESERVATION_TRANSACTION_TYPES } },
+          _sum: { amount: true },
+        }),
+        // Aggregate query for total consumed credits
+        prisma.credit_transactions.aggregate({
+          where: { userId, amount: { lt: 0 } },
+          _sum: { amount: true },
+        }),
+        // Credits returned by reservations (captured below the estimate or released)
+        prisma.credit_transactions.aggregate({
+          where: { userId, amount: { gt: 0 }, type: { in: RESERVATION_TRANSACTION_TYPES } },
+          _sum: { amount: true },
+        }),
+      ]);
 
     const balance = user?.credits ?? 0;
-    const hasUnlimitedCredits =
-      user?.subscriptions?.[0]?.status === 'ACTIVE' && user?.subscriptions?.[0]?.plan === 'PRO';
 
     // Totals calculated via aggregate queries (more efficient than fetching all records)
     const totalAdded = Number(addedResult._sum.amount ?? 0);
-    const totalConsumed = Math.abs(Number(consumedResult._sum.amount ?? 0));
+    const totalConsumed =
+      Math.abs(Number(consumedResult._sum.amount ?? 0)) - Number(refundedResult._sum.amount ?? 0);
 
     const lastTransaction = transactions[0]
       ? {
@@ -241,24 +476,91 @@ export class CreditService implements ICreditService {
   }
 
   private async hasUnlimitedCredits(userId: string): Promise<boolean> {
-    const user = await prisma.users.findUnique({
-      where: { id: userId },
-      select: {
-        subscriptions: {
-          select: {
-            status: true,
-            plan: true,
-          },
-          where: {
-            status: 'ACTIVE',
-          },
-          take: 1,
+    return entitlementService.hasUnlimitedCredits(userId);
+  }
+
+  /**
+   * Porta atomicamente una prenotazione da HELD a chiusa: evita doppi capture/release concorrenti
+   */
+  private async claimHeldReservation(
+    tx: Prisma.TransactionClient,
+    reservationId: string
+  ): Promise<CreditReservation> {
+    const reservation = await tx.credit_reservations.findUnique({
+      where: { id: reservationId },
+    });
+
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+
+    const { count } = await tx.credit_reservations.updateMany({
+      where: { id: reservationId, status: 'HELD' },
+      data: { settledAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error(`Reservation is already ${reservation.status.toLowerCase()}`);
+    }
+
+    return reservation;
+  }
+
+  private async settleReservation(
+    tx: Prisma.TransactionClient,
+    reservation: CreditReservation,
+    params: { refund: number; type: TransactionType; description: string }
+  ): Promise<void> {
+    const updatedUser = await tx.users.update({
+      where: { id: reservation.userId },
+      data: {
+        credits: {
+          increment: params.refund,
         },
       },
+      select: { credits: true },
+    });
+
+    await tx.credit_transactions.create({
+      data: {
+        userId: reservation.userId,
+        amount: params.refund,
+        type: params.type,
+        description: params.description,
+        metadata: {
+          ...(reservation.metadata as Record<string, unknown> | null),
+          reservationId: reservation.id,
+        } as Prisma.InputJsonValue,
+        balanceAfter: updatedUser.credits,
+      },
     });
+  }
+
+  private async releaseHeld(
+    reservationId: string,
+    status: 'RELEASED' | 'EXPIRED',
+    reason: string
+  ): Promise<CreditReservation> {
+    return await prisma.$transaction(async (tx) => {
+      const reservation = await this.claimHeldReservation(tx, reservationId);
+
+      if (!reservation.unlimited) {
+        await this.settleReservation(tx, reservation, {
+          refund: reservation.amount,
+          type: 'RESERVATION_RELEASE',
+          description: `${reservation.description} (${reason})`,
+        });
+      }
 
-    const activeSubscription = user?.subscriptions?.[0];
-    return activeSubscription?.status === 'ACTIVE' && activeSubscription.plan === 'PRO';
+      return await tx.credit_reservations.update({
+        where: { id: reservation.id },
+        data: {
+          status,
+          capturedAmount: 0,
+          settledAt: new Date(),
+        },
+      });
+    });
   }
 
   async getCreditHistory(userId: string, limit = 100) {
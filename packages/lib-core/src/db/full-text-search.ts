@@ -0,0 +1,240 @@
+/**
+ * Full-Text Search Helpers
+ *
+ * Frammenti SQL condivisi dalle ricerche su tabelle di traduzioni (alimenti, esercizi):
+ * - configurazione text search per locale della traduzione
+ * - espansione sinonimi/alias della query
+ * - fallback fuzzy con trigrammi (richiede l'estensione pg_trgm)
+ * - evidenziazione dei campi con ts_headline
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Configurazioni PostgreSQL per lingua; i locale non mappati usano 'simple'
+ */
+export const TEXT_SEARCH_CONFIGS: Readonly<Record<string, string>> = {
+  it: 'italian',
+  en: 'english',
+  es: 'spanish',
+  fr: 'french',
+  de: 'german',
+  pt: 'portuguese',
+  nl: 'dutch',
+};
+
+/** Soglia word_similarity (pg_trgm) sotto cui un risultato fuzzy viene scartato */
+export const FUZZY_SIMILARITY_THRESHOLD = 0.4;
+
+/** Numero massimo di varianti della query generate dai sinonimi */
+const MAX_EXPANDED_TERMS = 8;
+
+/**
+ * ts_headline delimita i match con caratteri Unicode ad uso privato: il testo della
+ * traduzione viene escapato e solo dopo i delimitatori diventano <mark>
+ */
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_STOP = '\uE001';
+const NAME_HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const DESCRIPTION_HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=20, MinWords=5`;
+
+const HTML_ESCAPES: Readonly<Record<string, string>> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Gruppi di termini equivalenti (anche tra lingue diverse)
+ */
+export type SearchSynonymGroups = ReadonlyArray<ReadonlyArray<string>>;
+
+/**
+ * Campi evidenziati della traduzione che ha prodotto il match: HTML escapato,
+ * con i soli tag <mark> attorno ai termini trovati
+ */
+export interface SearchHighlight {
+  locale: string;
+  name: string;
+  description?: string;
+  /** true se il match deriva solo dalla similarità (errori di battitura) */
+  fuzzy: boolean;
+}
+
+/**
+ * Riga restituita dalle query di ricerca full-text
+ */
+export interface FullTextSearchRow {
+  id: string;
+  rank: number;
+  has_locale: boolean;
+  fuzzy: boolean;
+  matched_locale: string;
+  highlight_name: string | null;
+  highlight_description: string | null;
+}
+
+/**
+ * Colonne della traduzione su cui costruire la ricerca
+ */
+export interface FullTextSearchColumns {
+  locale: Prisma.Sql;
+  name: Prisma.Sql;
+  description: Prisma.Sql;
+  /** Alias aggiuntivi (es. searchTerms), già concatenati in testo */
+  aliases?: Prisma.Sql;
+}
+
+/**
+ * Frammenti SQL di match, ranking ed evidenziazione per una query
+ */
+export interface FullTextSearchSql {
+  match: Prisma.Sql;
+  /** true se la riga soddisfa la ricerca testuale (non solo fuzzy) */
+  textMatch: Prisma.Sql;
+  rank: Prisma.Sql;
+  highlightName: Prisma.Sql;
+  highlightDescription: Prisma.Sql;
+}
+
+function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Configurazione text search per locale (it-IT -> italian)
+ */
+export function getTextSearchConfig(locale?: string | null): string {
+  const language = locale?.toLowerCase().split(/[-_]/)[0];
+  return (language && TEXT_SEARCH_CONFIGS[language]) || 'simple';
+}
+
+/**
+ * Espressione regconfig calcolata dalla colonna locale della traduzione
+ */
+export function textSearchConfigSql(localeColumn: Prisma.Sql): Prisma.Sql {
+  const cases = Object.entries(TEXT_SEARCH_CONFIGS).map(
+    ([language, config]) => Prisma.sql`WHEN ${language} THEN ${config}::regconfig`
+  );
+  return Prisma.sql`(CASE lower(split_part(${localeColumn}, '-', 1)) ${Prisma.join(
+    cases,
+    ' '
+  )} ELSE 'simple'::regconfig END)`;
+}
+
+/**
+ * Rimuove gli operatori tsquery e normalizza gli spazi
+ */
+export function prepareSearchTerm(term: string): string {
+  return term
+    .replace(/[:!&|'()<>*\\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Varianti della query ottenute sostituendo le frasi presenti nei gruppi di sinonimi
+ * (es. "panca piana manubri" -> "bench press manubri"); la query originale è sempre la prima
+ */
+export function expandSearchTerms(term: string, synonymGroups: SearchSynonymGroups): string[] {
+  const prepared = prepareSearchTerm(term);
+  const normalized = normalizeSearchText(prepared);
+  const terms = new Set<string>([prepared]);
+
+  for (const group of synonymGroups) {
+    const aliases = group.map((alias) => normalizeSearchText(prepareSearchTerm(alias)));
+    const matched = aliases.find((alias) =>
+      new RegExp(`(^|\\s)${escapeRegExp(alias)}(\\s|$)`).test(normalized)
+    );
+    if (!matched) continue;
+
+    for (const alias of aliases) {
+      if (alias === matched) continue;
+      terms.add(normalized.replace(matched, alias));
+      if (terms.size >= MAX_EXPANDED_TERMS) return [...terms];
+    }
+  }
+
+  return [...terms];
+}
+
+/**
+ * Costruisce match, rank ed evidenziazione sulle colonne indicate.
+ * Il match testuale usa la configurazione del locale di ogni traduzione; se fallisce,
+ * la similarità a trigrammi sul nome (e alias) recupera le query con errori di battitura.
+ * Il rank mette sempre i match testuali davanti a quelli solo fuzzy.
+ */
+export function buildFullTextSearchSql(
+  term: string,
+  terms: string[],
+  columns: FullTextSearchColumns
+): FullTextSearchSql {
+  const config = textSearchConfigSql(columns.locale);
+  const baseDocument = Prisma.sql`${columns.name} || ' ' || COALESCE(${columns.description}, '')`;
+  const document = columns.aliases
+    ? Prisma.sql`${baseDocument} || ' ' || COALESCE(${columns.aliases}, '')`
+    : baseDocument;
+  const fuzzyField = columns.aliases
+    ? Prisma.sql`${columns.name} || ' ' || COALESCE(${columns.aliases}, '')`
+    : columns.name;
+
+  const queries = (terms.length > 0 ? terms : [term]).map(
+    (t) => Prisma.sql`plainto_tsquery(${config}, ${t})`
+  );
+  const tsQuery = Prisma.sql`(${Prisma.join(queries, ' || ')})`;
+  const vector = Prisma.sql`to_tsvector(${config}, ${document})`;
+  const textMatch = Prisma.sql`(${vector} @@ ${tsQuery})`;
+  const similarity = Prisma.sql`word_similarity(${term}, ${fuzzyField})`;
+
+  return {
+    match: Prisma.sql`(${textMatch} OR ${similarity} >= ${FUZZY_SIMILARITY_THRESHOLD})`,
+    textMatch,
+    rank: Prisma.sql`(
+      CASE WHEN ${textMatch} THEN 1.0 + ts_rank_cd(${vector}, ${tsQuery})
+      ELSE ${similarity} * 0.5 END
+    )`,
+    highlightName: Prisma.sql`ts_headline(
+      ${config}, ${columns.name}, ${tsQuery}, ${NAME_HEADLINE_OPTIONS}
+    )`,
+    highlightDescription: Prisma.sql`ts_headline(
+      ${config}, COALESCE(${columns.description}, ''), ${tsQuery}, ${DESCRIPTION_HEADLINE_OPTIONS}
+    )`,
+  };
+}
+
+/**
+ * Escape HTML dell'output di ts_headline e delimitatori sostituiti con <mark>
+ */
+export function toHighlightHtml(headline: string): string {
+  return headline
+    .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char)
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_STOP, '</mark>');
+}
+
+/**
+ * Mappa i campi evidenziati di una riga di ricerca
+ */
+export function toSearchHighlight(row: FullTextSearchRow): SearchHighlight {
+  return {
+    locale: row.matched_locale,
+    name: toHighlightHtml(row.highlight_name ?? ''),
+    description: row.highlight_description
+      ? toHighlightHtml(row.highlight_description)
+      : undefined,
+    fuzzy: row.fuzzy,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Dunning Notifier
+ *
+ * Consegna in-app delle notifiche di dunning tramite la timeline utente
+ * (timelineService), lo stesso canale usato per le notifiche dei record personali.
+ *
+ * Collegato come notifier di default di dunningService.
+ */
+
+import type {
+  DunningNotification,
+  DunningNotificationKind,
+  DunningNotifier,
+} from './dunning.service';
+import { timelineService } from './user-memory/timeline.service';
+
+const TITLES: Record<DunningNotificationKind, string> = {
+  PAYMENT_FAILED: 'Pagamento del tuo abbonamento non riuscito',
+  REMINDER: 'Promemoria: aggiorna il metodo di pagamento',
+  FINAL_NOTICE: 'Ultimo avviso: il tuo abbonamento sta per scadere',
+  DOWNGRADED: 'Il tuo abbonamento è stato disattivato',
+  RECOVERED: 'Pagamento ricevuto: abbonamento riattivato',
+};
+
+function paymentInstructions(notification: DunningNotification): string {
+  return notification.provider === 'STRIPE'
+    ? "Aggiorna il metodo di pagamento dalla sezione Abbonamento dell'app."
+    : `Aggiorna il metodo di pagamento dalle impostazioni abbonamenti di ${
+        notification.provider === 'APPLE' ? 'App Store' : 'Google Play'
+      }.`;
+}
+
+/**
+ * Testo della notifica
+ */
+export function buildDunningNotificationText(notification: DunningNotification): string {
+  const graceUntil = notification.graceUntil?.toLocaleDateString('it-IT', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+  const access = graceUntil
+    ? `Manterrai l'accesso al piano ${notification.plan} fino al ${graceUntil}.`
+    : '';
+
+  const body: Record<DunningNotificationKind, string[]> = {
+    PAYMENT_FAILED: [
+      `Non siamo riusciti a rinnovare il tuo abbonamento ${notification.plan}.`,
+      access,
+      paymentInstructions(notification),
+    ],
+    REMINDER: [
+      `Il pagamento del tuo abbonamento ${notification.plan} non è ancora andato a buon fine.`,
+      access,
+      paymentInstructions(notification),
+    ],
+    FINAL_NOTICE: [
+      `È l'ultimo promemoria per il pagamento del tuo abbonamento ${notification.plan}.`,
+      access,
+      paymentInstructions(notification),
+    ],
+    DOWNGRADED: [
+      `Il pagamento del tuo abbonamento ${notification.plan} non è stato completato:`,
+      'il piano è stato disattivato.',
+      "Puoi riattivarlo in qualsiasi momento dall'app.",
+    ],
+    RECOVERED: [
+      `Abbiamo ricevuto il pagamento: il tuo abbonamento ${notification.plan} è di nuovo attivo.`,
+    ],
+  };
+
+  return body[notification.kind].filter(Boolean).join(' ');
+}
+
+/**
+ * Notifier in-app: un evento di timeline per notifica
+ */
+export function createTimelineDunningNotifier(): DunningNotifier {
+  return async (notification) => {
+    await timelineService.createEvent(notification.userId, {
+      eventType: 'note',
+      title: TITLES[notification.kind],
+      description: buildDunningNotificationText(notification),
+      data: {
+        type: 'billing',
+        kind: notification.kind,
+        caseId: notification.caseId,
+        subscriptionId: notification.subscriptionId,
+        provider: notification.provider,
+        ...(notification.reminderNumber !== undefined && {
+          reminderNumber: notification.reminderNumber,
+        }),
+      },
+      date: new Date().toISOString().split('T')[0]!,
+    });
+  };
+}
@@ -0,0 +1,475 @@
+/**
+ * Dunning Service
+ *
+ * Gestione dei pagamenti falliti degli abbonamenti (Stripe e IAP):
+ * - periodo di grazia configurabile durante il quale l'abbonamento PAST_DUE resta attivo
+ *   (subscriptions.graceUntil)
+ * - promemoria programmati tramite notifier iniettabile (default: timeline in-app,
+ *   dunning-notifier.server)
+ * - downgrade automatico quando lo store rinuncia all'addebito o la grazia IAP scade
+ * - ripristino di accesso e crediti al recupero del pagamento
+ *
+ * Ogni episodio di mancato pagamento è un caso in subscription_dunning_cases.
+ */
+
+import { createId } from '@paralleldrive/cuid2';
+import type { Prisma, SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+import { creditService } from './credit.service';
+import { createTimelineDunningNotifier } from './dunning-notifier.server';
+import { entitlementService } from './entitlement.service';
+import { logger } from './logger.service';
+import { prisma } from './prisma';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type DunningProvider = 'STRIPE' | 'APPLE' | 'GOOGLE';
+
+type IapDunningProvider = Extract<DunningProvider, 'APPLE' | 'GOOGLE'>;
+
+export type DunningCaseStatus = 'OPEN' | 'RECOVERED' | 'DOWNGRADED';
+
+export type DunningNotificationKind =
+  | 'PAYMENT_FAILED'
+  | 'REMINDER'
+  | 'FINAL_NOTICE'
+  | 'DOWNGRADED'
+  | 'RECOVERED';
+
+export interface DunningNotification {
+  kind: DunningNotificationKind;
+  caseId: string;
+  userId: string;
+  subscriptionId: string;
+  provider: DunningProvider;
+  plan: SubscriptionPlan;
+  graceUntil: Date | null;
+  /** Numero del promemoria (solo REMINDER/FINAL_NOTICE) */
+  reminderNumber?: number;
+}
+
+/**
+ * Consegna delle notifiche (email, push, in-app) fornita dall'applicazione
+ */
+export type DunningNotifier = (notification: DunningNotification) => Promise<void>;
+
+export interface DunningConfig {
+  /** Giorni di accesso mantenuto dal primo pagamento fallito */
+  graceDays: number;
+  /** Giorni dall'apertura del caso in cui inviare i promemoria */
+  reminderOffsetsDays: number[];
+  /** Crediti mensili ripristinati al recupero di un abbonamento IAP per piano */
+  recoveryCredits: Partial<Record<SubscriptionPlan, number>>;
+  /**
+   * Ore di tolleranza oltre currentPeriodEnd prima di considerare mancato un rinnovo IAP:
+   * le notifiche degli store possono arrivare in ritardo rispetto all'addebito
+   */
+  renewalBufferHours: Record<IapDunningProvider, number>;
+}
+
+export interface DunningCase {
+  id: string;
+  subscriptionId: string;
+  userId: string;
+  provider: DunningProvider;
+  status: DunningCaseStatus;
+  plan: SubscriptionPlan;
+  /**
+   * Riferimento del segnale di mancato addebito (transazione/ordine dello store).
+   * null per i casi aperti da processDue su un rinnovo non arrivato.
+   */
+  reference: string | null;
+  failureCount: number;
+  remindersSent: number;
+  startedAt: Date;
+  lastFailureAt: Date;
+  graceUntil: Date;
+  nextReminderAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+export interface DunningProcessSummary {
+  remindersSent: number;
+  casesOpened: number;
+  downgraded: number;
+  expired: number;
+}
+
+const DEFAULT_CONFIG: DunningConfig = {
+  graceDays: parseInt(process.env.DUNNING_GRACE_DAYS || '', 10) || 7,
+  reminderOffsetsDays: [1, 3, 6],
+  recoveryCredits: { PLUS: 500 },
+  // Apple ritenta le notifiche server-to-server fino a 24h dopo il primo invio
+  renewalBufferHours: { APPLE: 24, GOOGLE: 12 },
+};
+
+type DunningCaseRow = Prisma.subscription_dunning_casesGetPayload<{}>;
+
+export class DunningService {
+  private config: DunningConfig = DEFAULT_CONFIG;
+  private notifier: DunningNotifier = createTimelineDunningNotifier();
+
+  configure(config: Partial<DunningConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): DunningConfig {
+    return this.config;
+  }
+
+  /**
+   * Inject notification delivery (default: timeline in-app)
+   */
+  setNotifier(notifier: DunningNotifier) {
+    this.notifier = notifier;
+  }
+
+  /**
+   * Registra un pagamento fallito: apre il caso (PAST_DUE + grazia) o aggiorna quello aperto
+   */
+  async recordPaymentFailure(params: {
+    subscriptionId: string;
+    provider: DunningProvider;
+    reference?: string;
+    occurredAt?: Date;
+  }): Promise<DunningCase | null> {
+    const occurredAt = params.occurredAt ?? new Date();
+    const subscription = await prisma.subscriptions.findUnique({
+      where: { id: params.subscriptionId },
+      select: { id: true, userId: true, plan: true, status: true },
+    });
+
+    if (!subscription?.userId) {
+      logger.warn('[Dunning] Subscription not found for payment failure', params);
+      return null;
+    }
+    if (subscription.status !== 'ACTIVE' && subscription.status !== 'PAST_DUE') {
+      // Abbonamento già chiuso: nessun periodo di grazia da aprire
+      return null;
+    }
+
+    const open = await this.getOpenCase(subscription.id);
+    if (open) {
+      const updated = await prisma.subscription_dunning_cases.update({
+        where: { id: open.id },
+        data: {
+          failureCount: { increment: 1 },
+          lastFailureAt: occurredAt,
+          reference: params.reference ?? open.reference,
+          updatedAt: new Date(),
+        },
+      });
+      return this.mapToCase(updated);
+    }
+
+    const graceUntil = new Date(occurredAt.getTime() + this.config.graceDays * DAY_MS);
+    const created = await prisma.$transaction(async (tx) => {
+      await tx.subscriptions.update({
+        where: { id: subscription.id },
+        data: { status: 'PAST_DUE', graceUntil, updatedAt: new Date() },
+      });
+
+      return tx.subscription_dunning_cases.create({
+        data: {
+          id: createId(),
+          subscriptionId: subscription.id,
+          userId: subscription.userId!,
+          provider: params.provider,
+          status: 'OPEN',
+          plan: subscription.plan,
+          reference: params.reference ?? null,
+          failureCount: 1,
+          remindersSent: 0,
+          startedAt: occurredAt,
+          lastFailureAt: occurredAt,
+          graceUntil,
+          nextReminderAt: this.getNextReminderAt(occurredAt, 0, graceUntil),
+          updatedAt: new Date(),
+        },
+      });
+    });
+
+    const dunningCase = this.mapToCase(created);
+    await entitlementService.refreshSafely(dunningCase.userId, 'PAYMENT_FAILED');
+    await this.notify('PAYMENT_FAILED', dunningCase);
+    return dunningCase;
+  }
+
+  /**
+   * Pagamento recuperato: riattiva l'abbonamento, chiude il caso e ripristina i crediti IAP.
+   * Vale anche per casi già in downgrade (es. l'utente salda la fattura dopo la scadenza).
+   * I crediti si ripristinano solo per casi aperti da un segnale di mancato addebito e una
+   * sola volta per `transactionId` (l'addebito che ha recuperato il pagamento).
+   */
+  async recover(
+    subscriptionId: string,
+    options: { currentPeriodEnd?: Date; transactionId?: string | null } = {}
+  ): Promise<DunningCase | null> {
+    const dunningCase = await prisma.subscription_dunning_cases.findFirst({
+      where: { subscriptionId, status: { in: ['OPEN', 'DOWNGRADED'] } },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (!dunningCase) {
+      return null;
+    }
+
+    const resolved = await prisma.$transaction(async (tx) => {
+      await tx.subscriptions.update({
+        where: { id: subscriptionId },
+        data: {
+          status: 'ACTIVE',
+          graceUntil: null,
+          ...(options.currentPeriodEnd && { currentPeriodEnd: options.currentPeriodEnd }),
+          updatedAt: new Date(),
+        },
+      });
+
+      return tx.subscription_dunning_cases.update({
+        where: { id: dunningCase.id },
+        data: {
+          status: 'RECOVERED',
+          nextReminderAt: null,
+          resolvedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+    });
+
+    const recovered = this.mapToCase(resolved);
+
+    // Stripe accredita i crediti con invoice.paid; per IAP li ripristiniamo qui
+    if (recovered.provider !== 'STRIPE' && recovered.reference && options.transactionId) {
+      await this.grantRecoveryCredits(recovered, options.transactionId);
+    }
+
+    await entitlementService.refreshSafely(recovered.userId, 'PAYMENT_RECOVERED');
+    await this.notify('RECOVERED', recovered);
+    return recovered;
+  }
+
+  /**
+   * Downgrade definitivo: lo store ha rinunciato all'addebito o la grazia IAP è scaduta
+   */
+  async downgrade(
+    subscriptionId: string,
+    reason: string,
+    status: Extract<SubscriptionStatus, 'EXPIRED' | 'CANCELLED'> = 'EXPIRED'
+  ): Promise<DunningCase | null> {
+    const open = await this.getOpenCase(subscriptionId);
+
+    const { userId } = await prisma.subscriptions.update({
+      where: { id: subscriptionId },
+      data: { status, graceUntil: null, updatedAt: new Date() },
+      select: { userId: true },
+    });
+    await entitlementService.refreshSafely(userId, `SUBSCRIPTION_${status}`);
+
+    if (!open) {
+      return null;
+    }
+
+    const updated = await prisma.subscription_dunning_cases.update({
+      where: { id: open.id },
+      data: {
+        status: 'DOWNGRADED',
+        nextReminderAt: null,
+        resolvedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+    logger.warn(`[Dunning] Subscription ${subscriptionId} downgraded: ${reason}`);
+
+    const downgraded = this.mapToCase(updated);
+    await this.notify('DOWNGRADED', downgraded);
+    return downgraded;
+  }
+
+  /**
+   * Worker periodico: promemoria dovuti, rinnovi IAP mancati, scadenza della grazia IAP
+   */
+  async processDue(now: Date = new Date()): Promise<DunningProcessSummary> {
+    const summary: DunningProcessSummary = {
+      remindersSent: 0,
+      casesOpened: 0,
+      downgraded: 0,
+      expired: 0,
+    };
+
+    // 1. Rinnovi IAP non arrivati entro la scadenza del periodo più la tolleranza dello store
+    //    (gli abbonamenti senza store, es. grant admin, non hanno rinnovi da attendere)
+    const iapProviders: IapDunningProvider[] = ['APPLE', 'GOOGLE'];
+    const lapsed = await prisma.subscriptions.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: iapProviders.map((storePlatform) => ({
+          storePlatform,
+          currentPeriodEnd: {
+            lt: new Date(now.getTime() - this.config.renewalBufferHours[storePlatform] * HOUR_MS),
+          },
+        })),
+      },
+      select: { id: true, userId: true, cancelAtPeriodEnd: true, storePlatform: true },
+    });
+
+    for (const subscription of lapsed) {
+      if (subscription.cancelAtPeriodEnd) {
+        // Rinnovo disattivato dall'utente: nessun dunning
+        await prisma.subscriptions.update({
+          where: { id: subscription.id },
+          data: { status: 'EXPIRED', updatedAt: new Date() },
+        });
+        await entitlementService.refreshSafely(subscription.userId, 'SUBSCRIPTION_EXPIRED');
+        summary.expired++;
+        continue;
+      }
+
+      await this.recordPaymentFailure({
+        subscriptionId: subscription.id,
+        provider: subscription.storePlatform as IapDunningProvider,
+        occurredAt: now,
+      });
+      summary.casesOpened++;
+    }
+
+    // 2. Promemoria programmati
+    const dueReminders = await prisma.subscription_dunning_cases.findMany({
+      where: { status: 'OPEN', nextReminderAt: { lte: now } },
+    });
+
+    for (const row of dueReminders) {
+      const remindersSent = row.remindersSent + 1;
+      const nextReminderAt = this.getNextReminderAt(row.startedAt, remindersSent, row.graceUntil);
+      const updated = await prisma.subscription_dunning_cases.update({
+        where: { id: row.id },
+        data: { remindersSent, nextReminderAt, updatedAt: new Date() },
+      });
+
+      await this.notify(nextReminderAt ? 'REMINDER' : 'FINAL_NOTICE', this.mapToCase(updated), {
+        reminderNumber: remindersSent,
+      });
+      summary.remindersSent++;
+    }
+
+    // 3. Grazia scaduta: per IAP downgrade; per Stripe l'accesso decade (graceUntil passato)
+    //    e il downgrade arriva quando Stripe chiude l'abbonamento
+    const expiredIap = await prisma.subscription_dunning_cases.findMany({
+      where: { status: 'OPEN', provider: { not: 'STRIPE' }, graceUntil: { lte: now } },
+      select: { subscriptionId: true },
+    });
+
+    for (const { subscriptionId } of expiredIap) {
+      await this.downgrade(subscriptionId, 'Periodo di grazia IAP scaduto');
+      summary.downgraded++;
+    }
+
+    return summary;
+  }
+
+  async getOpenCase(subscriptionId: string): Promise<DunningCase | null> {
+    const row = await prisma.subscription_dunning_cases.findFirst({
+      where: { subscriptionId, status: 'OPEN' },
+      orderBy: { startedAt: 'desc' },
+    });
+    return row ? this.mapToCase(row) : null;
+  }
+
+  async listCases(
+    options: { status?: DunningCaseStatus; userId?: string; limit?: number } = {}
+  ): Promise<DunningCase[]> {
+    const rows = await prisma.subscription_dunning_cases.findMany({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(options.userId && { userId: options.userId }),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(options.limit ?? 50, 200),
+    });
+    return rows.map((row) => this.mapToCase(row));
+  }
+
+  /**
+   * Crediti del periodo recuperato; la chiave iapTransactionId è la stessa dei rinnovi
+   * (iap-notification.service), quindi un addebito non viene mai accreditato due volte
+   */
+  private async grantRecoveryCredits(dunningCase: DunningCase, transactionId: string) {
+    const credits = this.config.recoveryCredits[dunningCase.plan] ?? 0;
+    if (credits <= 0) return;
+
+    const alreadyCredited = await prisma.credit_transactions.findFirst({
+      where: {
+        userId: dunningCase.userId,
+        type: 'SUBSCRIPTION_RENEWAL',
+        metadata: { path: ['iapTransactionId'], equals: transactionId },
+      },
+      select: { id: true },
+    });
+    if (alreadyCredited) return;
+
+    await creditService.addCredits({
+      userId: dunningCase.userId,
+      amount: credits,
+      type: 'SUBSCRIPTION_RENEWAL',
+      description: `Ripristino crediti ${dunningCase.plan} dopo recupero pagamento`,
+      metadata: {
+        dunningCaseId: dunningCase.id,
+        iapPlatform: dunningCase.provider,
+        iapTransactionId: transactionId,
+      },
+    });
+  }
+
+  private getNextReminderAt(startedAt: Date, remindersSent: number, graceUntil: Date): Date | null {
+    const offset = [...this.config.reminderOffsetsDays].sort((a, b) => a - b)[remindersSent];
+    if (offset === undefined) return null;
+
+    const reminderAt = new Date(startedAt.getTime() + offset * DAY_MS);
+    return reminderAt < graceUntil ? reminderAt : null;
+  }
+
+  private async notify(
+    kind: DunningNotificationKind,
+    dunningCase: DunningCase,
+    extra: { reminderNumber?: number } = {}
+  ): Promise<void> {
+    try {
+      await this.notifier({
+        kind,
+        caseId: dunningCase.id,
+        userId: dunningCase.userId,
+        subscriptionId: dunningCase.subscriptionId,
+        provider: dunningCase.provider,
+        plan: dunningCase.plan,
+        graceUntil: dunningCase.status === 'OPEN' ? dunningCase.graceUntil : null,
+        ...extra,
+      });
+    } catch (error: unknown) {
+      // Una notifica fallita non deve bloccare il dunning
+      logger.error('[Dunning] Notification delivery failed', error);
+    }
+  }
+
+  private mapToCase(row: DunningCaseRow): DunningCase {
+    return {
+      id: row.id,
+      subscriptionId: row.subscriptionId,
+      userId: row.userId,
+      provider: row.provider as DunningProvider,
+      status: row.status as DunningCaseStatus,
+      plan: row.plan,
+      reference: row.reference,
+      failureCount: row.failureCount,
+      remindersSent: row.remindersSent,
+      startedAt: row.startedAt,
+      lastFailureAt: row.lastFailureAt,
+      graceUntil: row.graceUntil,
+      nextReminderAt: row.nextReminderAt,
+      resolvedAt: row.resolvedAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const dunningService: DunningService = new DunningService();
@@ -0,0 +1,458 @@
+/**
+ * Entitlement Service
+ *
+ * Unico punto che risponde a "cosa può fare questo utente adesso", combinando:
+ * - abbonamento Stripe o IAP (incluso il periodo di grazia del dunning)
+ * - grant manuali degli admin (entitlement_grants)
+ * - crediti bonus delle promozioni
+ *
+ * La lettura (get) calcola dalle sorgenti senza scrivere. Chi modifica una sorgente chiama
+ * refresh(): la variazione rispetto all'ultimo snapshot persistito (user_entitlements) viene
+ * registrata in entitlement_changes con il motivo.
+ */
+
+import { createId } from '@paralleldrive/cuid2';
+import { Prisma, type SubscriptionPlan } from '@prisma/client';
+import { logger } from './logger.service';
+import { prisma } from './prisma';
+
+export type EntitlementTier = 'FREE' | SubscriptionPlan;
+
+export type EntitlementSource = 'FREE' | 'STRIPE' | 'IAP' | 'ADMIN_GRANT';
+
+export type EntitlementStatus = 'ACTIVE' | 'GRACE_PERIOD' | 'NONE';
+
+export type EntitlementFeature =
+  | 'ai_chat'
+  | 'ai_generation'
+  | 'ai_import'
+  | 'advanced_analytics'
+  | 'coach_tools';
+
+export interface EntitlementPlanLimits {
+  features: EntitlementFeature[];
+  /** Crediti accreditati a ogni rinnovo */
+  monthlyCredits: number;
+  unlimitedCredits: boolean;
+}
+
+export interface EntitlementCredits {
+  unlimited: boolean;
+  monthlyAllowance: number;
+  /** Totale crediti bonus ottenuti da promozioni */
+  promotionalBonus: number;
+}
+
+/**
+ * Sorgente che contribuisce agli entitlement correnti
+ */
+export interface EntitlementGrantSource {
+  source: Exclude<EntitlementSource, 'FREE'>;
+  tier: EntitlementTier;
+  referenceId: string;
+  expiresAt: Date | null;
+  inGracePeriod: boolean;
+}
+
+export interface UserEntitlements {
+  userId: string;
+  tier: EntitlementTier;
+  source: EntitlementSource;
+  status: EntitlementStatus;
+  /** Fine dell'accesso corrente (null = senza scadenza) */
+  expiresAt: Date | null;
+  graceUntil: Date | null;
+  features: EntitlementFeature[];
+  credits: EntitlementCredits;
+  sources: EntitlementGrantSource[];
+  resolvedAt: Date;
+}
+
+export interface EntitlementChange {
+  id: string;
+  userId: string;
+  reason: string;
+  previousTier: EntitlementTier | null;
+  tier: EntitlementTier;
+  previousSource: EntitlementSource | null;
+  source: EntitlementSource;
+  previous: UserEntitlements | null;
+  current: UserEntitlements;
+  createdAt: Date;
+}
+
+export interface EntitlementGrant {
+  id: string;
+  userId: string;
+  plan: SubscriptionPlan | null;
+  features: EntitlementFeature[];
+  unlimitedCredits: boolean;
+  reason: string;
+  grantedBy: string;
+  startsAt: Date;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  revokedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Limiti per piano
+ */
+export const PLAN_ENTITLEMENTS: Readonly<Record<EntitlementTier, EntitlementPlanLimits>> = {
+  FREE: { features: ['ai_chat'], monthlyCredits: 0, unlimitedCredits: false },
+  PLUS: {
+    features: ['ai_chat', 'ai_generation', 'ai_import', 'advanced_analytics'],
+    monthlyCredits: 500,
+    unlimitedCredits: false,
+  },
+  PRO: {
+    features: ['ai_chat', 'ai_generation', 'ai_import', 'advanced_analytics', 'coach_tools'],
+    monthlyCredits: 0,
+    unlimitedCredits: true,
+  },
+};
+
+const TIER_RANK: Record<EntitlementTier, number> = { FREE: 0, PLUS: 1, PRO: 2 };
+
+type GrantRow = Prisma.entitlement_grantsGetPayload<{}>;
+type ChangeRow = Prisma.entitlement_changesGetPayload<{}>;
+
+/**
+ * Serializzazione stabile dei campi che definiscono l'accesso (esclusi timestamp di calcolo)
+ */
+function fingerprint(entitlements: UserEntitlements): string {
+  return JSON.stringify({
+    tier: entitlements.tier,
+    source: entitlements.source,
+    status: entitlements.status,
+    expiresAt: entitlements.expiresAt?.toISOString() ?? null,
+    graceUntil: entitlements.graceUntil?.toISOString() ?? null,
+    features: [...entitlements.features].sort(),
+    credits: entitlements.credits,
+  });
+}
+
+function reviveEntitlements(value: Prisma.JsonValue | null): UserEntitlements | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as unknown as UserEntitlements;
+  const toDate = (date: Date | string | null) => (date ? new Date(date) : null);
+
+  return {
+    ...raw,
+    expiresAt: toDate(raw.expiresAt),
+    graceUntil: toDate(raw.graceUntil),
+    resolvedAt: new Date(raw.resolvedAt),
+    sources: raw.sources.map((source) => ({ ...source, expiresAt: toDate(source.expiresAt) })),
+  };
+}
+
+export class EntitlementService {
+  /**
+   * Entitlement correnti, calcolati dalle sorgenti. Sola lettura: è sul percorso di
+   * consumo dei crediti e non deve fallire per una scrittura concorrente dello snapshot
+   */
+  async get(userId: string): Promise<UserEntitlements> {
+    return this.resolve(userId);
+  }
+
+  /**
+   * Da chiamare dopo la modifica di una sorgente: registra l'eventuale variazione
+   */
+  async refresh(userId: string, reason: string): Promise<UserEntitlements> {
+    return this.resolveAndRecord(userId, reason);
+  }
+
+  /**
+   * Come refresh, ma un errore non interrompe l'operazione chiamante
+   */
+  async refreshSafely(userId: string | null | undefined, reason: string): Promise<void> {
+    if (!userId) return;
+    try {
+      await this.refresh(userId, reason);
+    } catch (error: unknown) {
+      logger.error(`[Entitlement] Refresh failed for user ${userId}`, error);
+    }
+  }
+
+  async hasFeature(userId: string, feature: EntitlementFeature): Promise<boolean> {
+    const entitlements = await this.get(userId);
+    return entitlements.features.includes(feature);
+  }
+
+  async hasUnlimitedCredits(userId: string): Promise<boolean> {
+    const entitlements = await this.get(userId);
+    return entitlements.credits.unlimited;
+  }
+
+  /**
+   * Calcola gli entitlement dalle sorgenti, senza change log
+   */
+  async resolve(userId: string, now: Date = new Date()): Promise<UserEntitlements> {
+    const [subscriptions, grants, promotional] = await Promise.all([
+      prisma.subscriptions.findMany({
+        where: {
+          userId,
+          OR: [{ status: 'ACTIVE' }, { status: 'PAST_DUE', graceUntil: { gt: now } }],
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.entitlement_grants.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          startsAt: { lte: now },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+      }),
+      prisma.credit_transactions.aggregate({
+        where: { userId, type: 'PROMOTION', amount: { gt: 0 } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const sources: EntitlementGrantSource[] = [];
+
+    for (const subscription of subscriptions) {
+      const isStripe = Boolean(subscription.stripeSubscriptionId);
+      const inGracePeriod = subscription.status === 'PAST_DUE';
+      // Stripe aggiorna il periodo via webhook: per gli IAP il rinnovo mancato è scadenza
+      if (!inGracePeriod && !isStripe && subscription.currentPeriodEnd <= now) continue;
+
+      sources.push({
+        source: isStripe ? 'STRIPE' : 'IAP',
+        tier: subscription.plan,
+        referenceId: subscription.id,
+        expiresAt: inGracePeriod ? subscription.graceUntil : subscription.currentPeriodEnd,
+        inGracePeriod,
+      });
+    }
+
+    for (const grant of grants) {
+      sources.push({
+        source: 'ADMIN_GRANT',
+        tier: grant.plan ?? 'FREE',
+        referenceId: grant.id,
+        expiresAt: grant.expiresAt,
+        inGracePeriod: false,
+      });
+    }
+
+    // Vince il piano più alto; a parità, l'accesso che dura di più (null = senza scadenza)
+    const endOf = (source: EntitlementGrantSource) =>
+      source.expiresAt?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    const primary = [...sources].sort(
+      (a, b) => TIER_RANK[b.tier] - TIER_RANK[a.tier] || endOf(b) - endOf(a)
+    )[0];
+
+    const tier: EntitlementTier = primary?.tier ?? 'FREE';
+    const limits = PLAN_ENTITLEMENTS[tier];
+    const features = new Set<EntitlementFeature>(limits.features);
+    let unlimited = limits.unlimitedCredits;
+
+    for (const grant of grants) {
+      for (const feature of this.parseFeatures(grant.features)) features.add(feature);
+      unlimited ||= grant.unlimitedCredits;
+    }
+
+    return {
+      userId,
+      tier,
+      source: primary?.source ?? 'FREE',
+      status: !primary ? 'NONE' : primary.inGracePeriod ? 'GRACE_PERIOD' : 'ACTIVE',
+      expiresAt: primary?.expiresAt ?? null,
+      graceUntil: primary?.inGracePeriod ? primary.expiresAt : null,
+      features: [...features],
+      credits: {
+        unlimited,
+        monthlyAllowance: limits.monthlyCredits,
+        promotionalBonus: Number(promotional._sum.amount ?? 0),
+      },
+      sources,
+      resolvedAt: now,
+    };
+  }
+
+  async getChanges(userId: string, limit = 50): Promise<EntitlementChange[]> {
+    const rows = await prisma.entitlement_changes.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(limit, 200),
+    });
+    return rows.map((row) => this.mapToChange(row));
+  }
+
+  /**
+   * Grant manuale di un admin (piano, feature aggiuntive, crediti illimitati)
+   */
+  async grant(params: {
+    userId: string;
+    plan?: SubscriptionPlan;
+    features?: EntitlementFeature[];
+    unlimitedCredits?: boolean;
+    reason: string;
+    grantedBy: string;
+    startsAt?: Date;
+    expiresAt?: Date;
+  }): Promise<EntitlementGrant> {
+    if (!params.plan && !params.features?.length && !params.unlimitedCredits) {
+      throw new Error('Il grant deve assegnare un piano, feature o crediti illimitati');
+    }
+    if (params.expiresAt && params.expiresAt <= (params.startsAt ?? new Date())) {
+      throw new Error("La scadenza del grant deve essere successiva all'inizio");
+    }
+
+    const row = await prisma.entitlement_grants.create({
+      data: {
+        id: createId(),
+        userId: params.userId,
+        plan: params.plan ?? null,
+        features: params.features ?? [],
+        unlimitedCredits: params.unlimitedCredits ?? false,
+        reason: params.reason,
+        grantedBy: params.grantedBy,
+        startsAt: params.startsAt ?? new Date(),
+        expiresAt: params.expiresAt ?? null,
+        updatedAt: new Date(),
+      },
+    });
+
+    await this.refresh(params.userId, 'ADMIN_GRANT');
+    return this.mapToGrant(row);
+  }
+
+  async revokeGrant(grantId: string, revokedBy: string): Promise<EntitlementGrant> {
+    const existing = await prisma.entitlement_grants.findUnique({ where: { id: grantId } });
+    if (!existing) {
+      throw new Error('Grant non trovato');
+    }
+    if (existing.revokedAt) {
+      return this.mapToGrant(existing);
+    }
+
+    const row = await prisma.entitlement_grants.update({
+      where: { id: grantId },
+      data: { revokedAt: new Date(), revokedBy, updatedAt: new Date() },
+    });
+
+    await this.refresh(row.userId, 'ADMIN_GRANT_REVOKED');
+    return this.mapToGrant(row);
+  }
+
+  async listGrants(userId: string): Promise<EntitlementGrant[]> {
+    const rows = await prisma.entitlement_grants.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map((row) => this.mapToGrant(row));
+  }
+
+  private async resolveAndRecord(userId: string, reason: string): Promise<UserEntitlements> {
+    const current = await this.resolve(userId);
+    const snapshot = await prisma.user_entitlements.findUnique({ where: { userId } });
+    const nextFingerprint = fingerprint(current);
+
+    if (snapshot?.fingerprint === nextFingerprint) {
+      return current;
+    }
+
+    const previous = reviveEntitlements(snapshot?.snapshot ?? null);
+    const json = current as unknown as Prisma.InputJsonValue;
+    const data = {
+      tier: current.tier,
+      source: current.source,
+      snapshot: json,
+      fingerprint: nextFingerprint,
+      resolvedAt: current.resolvedAt,
+      updatedAt: new Date(),
+    };
+
+    try {
+      const recorded = await prisma.$transaction(async (tx) => {
+        // Compare-and-set sullo snapshot letto: se un'altra istanza l'ha già aggiornato,
+        // la variazione è stata registrata da lei
+        if (snapshot) {
+          const { count } = await tx.user_entitlements.updateMany({
+            where: { userId, fingerprint: snapshot.fingerprint },
+            data,
+          });
+          if (count === 0) return false;
+        } else {
+          await tx.user_entitlements.create({ data: { userId, ...data } });
+        }
+
+        await tx.entitlement_changes.create({
+          data: {
+            id: createId(),
+            userId,
+            reason,
+            previousTier: previous?.tier ?? null,
+            tier: current.tier,
+            previousSource: previous?.source ?? null,
+            source: current.source,
+            previous: (previous ?? undefined) as unknown as Prisma.InputJsonValue | undefined,
+            current: json,
+          },
+        });
+        return true;
+      });
+
+      if (recorded) {
+        logger.warn(`[Entitlement] ${userId}: ${previous?.tier ?? 'none'} -> ${current.tier}`, {
+          reason,
+          source: current.source,
+        });
+      }
+    } catch (error: unknown) {
+      // Primo snapshot creato in parallelo da un'altra istanza: la variazione è già registrata
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    return current;
+  }
+
+  private parseFeatures(value: Prisma.JsonValue): EntitlementFeature[] {
+    return Array.isArray(value)
+      ? (value.filter((feature) => typeof feature === 'string') as EntitlementFeature[])
+      : [];
+  }
+
+  private mapToGrant(row: GrantRow): EntitlementGrant {
+    return {
+      id: row.id,
+      userId: row.userId,
+      plan: row.plan,
+      features: this.parseFeatures(row.features),
+      unlimitedCredits: row.unlimitedCredits,
+      reason: row.reason,
+      grantedBy: row.grantedBy,
+      startsAt: row.startsAt,
+      expiresAt: row.expiresAt,
+      revokedAt: row.revokedAt,
+      revokedBy: row.revokedBy,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private mapToChange(row: ChangeRow): EntitlementChange {
+    return {
+      id: row.id,
+      userId: row.userId,
+      reason: row.reason,
+      previousTier: row.previousTier as EntitlementTier | null,
+      tier: row.tier as EntitlementTier,
+      previousSource: row.previousSource as EntitlementSource | null,
+      source: row.source as EntitlementSource,
+      previous: reviveEntitlements(row.previous),
+      current: reviveEntitlements(row.current)!,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const entitlementService: EntitlementService = new EntitlementService();
@@ -0,0 +1,631 @@
+/**
+ * Health Ingestion Service
+ *
+ * Importazione idempotente dei campioni HealthKit / Health Connect:
+ * - ogni campione ha una dedupeKey (id sorgente o intervallo temporale) unica per utente,
+ *   quindi una nuova sincronizzazione aggiorna invece di duplicare
+ * - i campioni sovrapposti di sorgenti diverse (telefono vs smartwatch) vengono fusi
+ *   mantenendo quello della sorgente più affidabile; i candidati alla fusione sono caricati
+ *   con una query per blocco di campioni, e le scritture del blocco sono atomiche
+ * - cursori per tipo (health_sync_cursors) per inviare solo i campioni nuovi
+ *
+ * Sonno, HRV, frequenza a riposo e VO2max sono salvati in health_samples.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { logger } from './logger.service';
+import { prisma } from './prisma';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export type HealthDataType =
+  | 'steps'
+  | 'heartRate'
+  | 'activeCalories'
+  | 'weight'
+  | 'workout'
+  | 'sleep'
+  | 'hrv'
+  | 'restingHeartRate'
+  | 'vo2Max';
+
+export type SleepStage = 'IN_BED' | 'ASLEEP' | 'AWAKE' | 'LIGHT' | 'DEEP' | 'REM';
+
+export const SUPPORTED_HEALTH_DATA_TYPES: HealthDataType[] = [
+  'steps',
+  'heartRate',
+  'activeCalories',
+  'weight',
+  'workout',
+  'sleep',
+  'hrv',
+  'restingHeartRate',
+  'vo2Max',
+];
+
+export const SLEEP_STAGES: SleepStage[] = ['IN_BED', 'ASLEEP', 'AWAKE', 'LIGHT', 'DEEP', 'REM'];
+
+/**
+ * Campione grezzo inviato dal client. I campi usati dipendono dal tipo:
+ * - intervallo (steps, activeCalories, sleep, workout): startDate/endDate
+ * - puntuale (heartRate, weight, hrv, restingHeartRate, vo2Max): date
+ */
+export interface HealthSampleInput {
+  /** UUID HealthKit / metadata.id Health Connect */
+  sourceId?: string;
+  source?: string;
+  value?: number;
+  date?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Solo sleep */
+  stage?: string;
+  /** Solo workout */
+  activityType?: string;
+  duration?: number;
+  distance?: number;
+  calories?: number;
+}
+
+export interface HealthDataBatch {
+  dataType: string;
+  data: HealthSampleInput[];
+}
+
+export interface HealthSample {
+  dataType: HealthDataType;
+  source: string;
+  sourceId: string | null;
+  dedupeKey: string;
+  startDate: Date;
+  endDate: Date;
+  value: number;
+  stage: SleepStage | null;
+  workout: {
+    activityType: string;
+    duration: number;
+    distance: number | null;
+    calories: number | null;
+  } | null;
+}
+
+export interface HealthTypeIngestionResult {
+  received: number;
+  /** Inseriti o aggiornati */
+  stored: number;
+  /** Scartati perché coperti da una sorgente più affidabile */
+  merged: number;
+  /** Non validi */
+  rejected: number;
+}
+
+export interface HealthIngestionResult {
+  syncedDataTypes: HealthDataType[];
+  /** Tipi non supportati, ignorati senza far fallire la sincronizzazione */
+  skippedDataTypes: string[];
+  results: Partial<Record<HealthDataType, HealthTypeIngestionResult>>;
+  errors: string[];
+  /** Fine dell'ultimo campione ricevuto per tipo (ISO): il client invia solo quelli successivi */
+  cursors: Partial<Record<HealthDataType, string>>;
+}
+
+/** Campione già salvato, con l'intervallo usato per la fusione */
+export interface StoredHealthSample {
+  dedupeKey: string;
+  source: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface HealthSampleMergePlan {
+  /** Campioni da inserire o aggiornare */
+  upserts: HealthSample[];
+  /** dedupeKey dei campioni salvati sostituiti da una sorgente più affidabile */
+  deletions: string[];
+  merged: number;
+}
+
+/**
+ * Scritture restituite come PrismaPromise non eseguite: ingestType le applica in una
+ * transazione per blocco
+ */
+interface SampleStore {
+  upsert(userId: string, sample: HealthSample): Prisma.PrismaPromise<unknown>;
+  /** Campioni salvati (tutte le sorgenti) che intersecano l'intervallo [from, to] */
+  findInRange(userId: string, from: Date, to: Date): Promise<StoredHealthSample[]>;
+  deleteMany(userId: string, dedupeKeys: string[]): Prisma.PrismaPromise<unknown>;
+}
+
+/** Campioni elaborati per ciascuna query dei candidati alla fusione e transazione */
+const SAMPLE_CHUNK_SIZE = 200;
+/** Oltre questo limite il batch viene rifiutato: il client lo divide in più sincronizzazioni */
+export const MAX_HEALTH_SAMPLES_PER_BATCH = 5000;
+
+const TYPE_CONFIG: Record<HealthDataType, { kind: 'interval' | 'point'; mergeWindowMs: number }> =
+  {
+    steps: { kind: 'interval', mergeWindowMs: 0 },
+    activeCalories: { kind: 'interval', mergeWindowMs: 0 },
+    workout: { kind: 'interval', mergeWindowMs: 0 },
+    sleep: { kind: 'interval', mergeWindowMs: 0 },
+    heartRate: { kind: 'point', mergeWindowMs: MINUTE_MS },
+    hrv: { kind: 'point', mergeWindowMs: 5 * MINUTE_MS },
+    weight: { kind: 'point', mergeWindowMs: 5 * MINUTE_MS },
+    // Valori giornalieri: una sola misura per mezza giornata
+    restingHeartRate: { kind: 'point', mergeWindowMs: 12 * HOUR_MS },
+    vo2Max: { kind: 'point', mergeWindowMs: 12 * HOUR_MS },
+  };
+
+/** Sorgenti indossabili: misurano in modo continuo e hanno precedenza sul telefono */
+const WEARABLE_SOURCE_PATTERN = /watch|wear|garmin|fitbit|whoop|oura|polar|suunto|coros|band/i;
+const PHONE_SOURCE_PATTERN = /phone|android|pixel|galaxy|health connect/i;
+
+export function getSourcePriority(source: string): number {
+  if (WEARABLE_SOURCE_PATTERN.test(source)) return 2;
+  if (PHONE_SOURCE_PATTERN.test(source)) return 1;
+  return 0;
+}
+
+export function isHealthDataType(dataType: string): dataType is HealthDataType {
+  return (SUPPORTED_HEALTH_DATA_TYPES as string[]).includes(dataType);
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Normalizza un campione grezzo; null se non valido
+ */
+export function normalizeHealthSample(
+  dataType: HealthDataType,
+  input: HealthSampleInput
+): HealthSample | null {
+  const source = input.source?.trim() || 'unknown';
+  const sourceId = input.sourceId?.trim() || null;
+
+  const isPoint = TYPE_CONFIG[dataType].kind === 'point';
+  const startDate = parseDate(isPoint ? input.date : input.startDate);
+  const endDate = isPoint ? startDate : parseDate(input.endDate);
+  if (!startDate || !endDate || endDate < startDate) return null;
+
+  let value = input.value ?? 0;
+  let stage: SleepStage | null = null;
+  let workout: HealthSample['workout'] = null;
+
+  if (dataType === 'sleep') {
+    stage = SLEEP_STAGES.find((s) => s === input.stage?.toUpperCase()) ?? null;
+    if (!stage) return null;
+    // Durata della fase in minuti
+    value = (endDate.getTime() - startDate.getTime()) / MINUTE_MS;
+  } else if (dataType === 'workout') {
+    if (!input.activityType || !Number.isFinite(input.duration)) return null;
+    workout = {
+      activityType: input.activityType,
+      duration: input.duration!,
+      distance: input.distance ?? null,
+      calories: input.calories ?? null,
+    };
+    value = input.duration!;
+  } else if (!Number.isFinite(input.value) || value < 0) {
+    return null;
+  }
+
+  const naturalKey = [startDate.toISOString(), endDate.toISOString(), stage ?? input.activityType]
+    .filter(Boolean)
+    .join(':');
+
+  return {
+    dataType,
+    source,
+    sourceId,
+    dedupeKey: `${dataType}:${source}:${sourceId ?? naturalKey}`,
+    startDate,
+    endDate,
+    value,
+    stage,
+    workout,
+  };
+}
+
+function overlaps(
+  kind: 'interval' | 'point',
+  windowMs: number,
+  stored: StoredHealthSample,
+  sample: HealthSample
+): boolean {
+  if (stored.source === sample.source) return false;
+  if (kind === 'interval') {
+    return stored.startDate < sample.endDate && stored.endDate > sample.startDate;
+  }
+  return Math.abs(stored.startDate.getTime() - sample.startDate.getTime()) <= windowMs;
+}
+
+/**
+ * Fonde i campioni ricevuti con quelli salvati: tra campioni sovrapposti di sorgenti diverse
+ * resta quello della sorgente più affidabile, a parità di affidabilità quello già presente.
+ */
+export function planHealthSampleMerge(
+  dataType: HealthDataType,
+  samples: HealthSample[],
+  stored: StoredHealthSample[]
+): HealthSampleMergePlan {
+  const { kind, mergeWindowMs } = TYPE_CONFIG[dataType];
+  const plan: HealthSampleMergePlan = { upserts: [], deletions: [], merged: 0 };
+  let current = [...stored];
+
+  // Le sorgenti più affidabili per prime, così vincono anche all'interno dello stesso batch
+  const ordered = [...samples].sort(
+    (a, b) =>
+      getSourcePriority(b.source) - getSourcePriority(a.source) ||
+      a.startDate.getTime() - b.startDate.getTime()
+  );
+
+  for (const sample of ordered) {
+    const priority = getSourcePriority(sample.source);
+    const overlapping = current.filter((existing) =>
+      overlaps(kind, mergeWindowMs, existing, sample)
+    );
+
+    if (overlapping.some((existing) => getSourcePriority(existing.source) >= priority)) {
+      plan.merged++;
+      continue;
+    }
+
+    if (overlapping.length > 0) {
+      const replaced = new Set(overlapping.map((existing) => existing.dedupeKey));
+      plan.deletions.push(...replaced);
+      current = current.filter((existing) => !replaced.has(existing.dedupeKey));
+    }
+    current.push(sample);
+    plan.upserts.push(sample);
+  }
+
+  return plan;
+}
+
+const STORES: Record<HealthDataType, SampleStore> = {
+  steps: {
+    upsert(userId, sample) {
+      const data = {
+        steps: Math.round(sample.value),
+        date: sample.startDate,
+        endDate: sample.endDate,
+        source: sample.source,
+        sourceId: sample.sourceId,
+        updatedAt: new Date(),
+      };
+      return prisma.health_steps.upsert({
+        where: { userId_dedupeKey: { userId, dedupeKey: sample.dedupeKey } },
+        create: { userId, dedupeKey: sample.dedupeKey, ...data },
+        update: data,
+      });
+    },
+    async findInRange(userId, from, to) {
+      const rows = await prisma.health_steps.findMany({
+        where: { userId, date: { lte: to }, endDate: { gte: from } },
+        select: { dedupeKey: true, source: true, date: true, endDate: true },
+      });
+      return rows.map(({ date, ...row }) => ({ ...row, startDate: date }));
+    },
+    deleteMany(userId, dedupeKeys) {
+      return prisma.health_steps.deleteMany({ where: { userId, dedupeKey: { in: dedupeKeys } } });
+    },
+  },
+  activeCalories: {
+    upsert(userId, sample) {
+      const data = {
+        calories: sample.value,
+        date: sample.startDate,
+        endDate: sample.endDate,
+        source: sample.source,
+        sourceId: sample.sourceId,
+        updatedAt: new Date(),
+      };
+      return prisma.health_active_calories.upsert({
+        where: { userId_dedupeKey: { userId, dedupeKey: sample.dedupeKey } },
+        create: { userId, dedupeKey: sample.dedupeKey, ...data },
+        update: data,
+      });
+    },
+    async findInRange(userId, from, to) {
+      const rows = await prisma.health_active_calories.findMany({
+        where: { userId, date: { lte: to }, endDate: { gte: from } },
+        select: { dedupeKey: true, source: true, date: true, endDate: true },
+      });
+      return rows.map(({ date, ...row }) => ({ ...row, startDate: date }));
+    },
+    deleteMany(userId, dedupeKeys) {
+      return prisma.health_active_calories.deleteMany({
+        where: { userId, dedupeKey: { in: dedupeKeys } },
+      });
+    },
+  },
+  workout: {
+    upsert(userId, sample) {
+      const data = {
+        ...sample.workout!,
+        startDate: sample.startDate,
+        endDate: sample.endDate,
+        source: sample.source,
+        sourceId: sample.sourceId,
+      };
+      return prisma.health_workout.upsert({
+        where: { userId_dedupeKey: { userId, dedupeKey: sample.dedupeKey } },
+        create: { userId, dedupeKey: sample.dedupeKey, ...data },
+        update: data,
+      });
+    },
+    findInRange: (userId, from, to) =>
+      prisma.health_workout.findMany({
+        where: { userId, startDate: { lte: to }, endDate: { gte: from } },
+        select: { dedupeKey: true, source: true, startDate: true, endDate: true },
+      }),
+    deleteMany(userId, dedupeKeys) {
+      return prisma.health_workout.deleteMany({ where: { userId, dedupeKey: { in: dedupeKeys } } });
+    },
+  },
+  heartRate: {
+    upsert(userId, sample) {
+      const data = {
+        bpm: Math.round(sample.value),
+        recordedAt: sample.startDate,
+        source: sample.source,
+        sourceId: sample.sourceId,
+      };
+      return prisma.health_heart_rate.upsert({
+        where: { userId_dedupeKey: { userId, dedupeKey: sample.dedupeKey } },
+        create: { userId, dedupeKey: sample.dedupeKey, ...data },
+        update: data,
+      });
+    },
+    async findInRange(userId, from, to) {
+      const rows = await prisma.health_heart_rate.findMany({
+        where: { userId, recordedAt: { gte: from, lte: to } },
+        select: { dedupeKey: true, source: true, recordedAt: true },
+      });
+      return rows.map(({ recordedAt, ...row }) => ({
+        ...row,
+        startDate: recordedAt,
+        endDate: recordedAt,
+      }));
+    },
+    deleteMany(userId, dedupeKeys) {
+      return prisma.health_heart_rate.deleteMany({
+        where: { userId, dedupeKey: { in: dedupeKeys } },
+      });
+    },
+  },
+  weight: {
+    upsert(userId, sample) {
+      const data = {
+        weight: sample.value,
+        recordedAt: sample.startDate,
+        source: sample.source,
+        sourceId: sample.sourceId,
+      };
+      return prisma.health_weight.upsert({
+        where: { userId_dedupeKey: { userId, dedupeKey: sample.dedupeKey } },
+        create: { userId, dedupeKey: sample.dedupeKey, ...data },
+        update: data,
+      });
+    },
+    async findInRange(userId, from, to) {
+      const rows = await prisma.health_weight.findMany({
+        where: { userId, recordedAt: { gte: from, lte: to } },
+        select: { dedupeKey: true, source: true, recordedAt: true },
+      });
+      return rows.map(({ recordedAt, ...row }) => ({
+        ...row,
+        startDate: recordedAt,
+        endDate: recordedAt,
+      }));
+    },
+    deleteMany(userId, dedupeKeys) {
+      return prisma.health_weight.deleteMany({ where: { userId, dedupeKey: { in: dedupeKeys } } });
+    },
+  },
+  sleep: createGenericStore('sleep'),
+  hrv: createGenericStore('hrv'),
+  restingHeartRate: createGenericStore('restingHeartRate'),
+  vo2Max: createGenericStore('vo2Max'),
+};
+
+/**
+ * Store per i tipi salvati in health_samples (una riga per campione, discriminata da dataType)
+ */
+function createGenericStore(dataType: HealthDataType): SampleStore {
+  return {
+    upsert(userId, sample) {
+      const data = {
+        value: sample.value,
+        stage: sample.stage,
+        startDate: sample.startDate,
+        endDate: sample.endDate,
+        source: sample.source,
+        sourceId: sample.sourceId,
+        updatedAt: new Date(),
+      };
+      return prisma.health_samples.upsert({
+        where: { userId_dedupeKey: { userId, dedupeKey: sample.dedupeKey } },
+        create: { userId, dataType, dedupeKey: sample.dedupeKey, ...data },
+        update: data,
+      });
+    },
+    findInRange: (userId, from, to) =>
+      prisma.health_samples.findMany({
+        where: { userId, dataType, startDate: { lte: to }, endDate: { gte: from } },
+        select: { dedupeKey: true, source: true, startDate: true, endDate: true },
+      }),
+    deleteMany(userId, dedupeKeys) {
+      return prisma.health_samples.deleteMany({
+        where: { userId, dataType, dedupeKey: { in: dedupeKeys } },
+      });
+    },
+  };
+}
+
+export class HealthIngestionService {
+  /**
+   * Importa i batch di una sincronizzazione. Errori e tipi sconosciuti sono riportati per
+   * tipo senza interrompere gli altri.
+   */
+  async ingest(userId: string, batches: HealthDataBatch[]): Promise<HealthIngestionResult> {
+    const result: HealthIngestionResult = {
+      syncedDataTypes: [],
+      skippedDataTypes: [],
+      results: {},
+      errors: [],
+      cursors: {},
+    };
+    const latestByType: Partial<Record<HealthDataType, Date>> = {};
+
+    for (const { dataType, data } of batches) {
+      if (!isHealthDataType(dataType)) {
+        result.skippedDataTypes.push(dataType);
+        continue;
+      }
+
+      try {
+        const { stats, latest } = await this.ingestType(userId, dataType, data ?? []);
+        const previous = result.results[dataType];
+        result.results[dataType] = previous
+          ? {
+              received: previous.received + stats.received,
+              stored: previous.stored + stats.stored,
+              merged: previous.merged + stats.merged,
+              rejected: previous.rejected + stats.rejected,
+            }
+          : stats;
+        if (latest && (!latestByType[dataType] || latest > latestByType[dataType]!)) {
+          latestByType[dataType] = latest;
+        }
+        if (!result.syncedDataTypes.includes(dataType)) {
+          result.syncedDataTypes.push(dataType);
+        }
+      } catch (error: unknown) {
+        logger.error(`[HealthIngestion] Error syncing ${dataType}`, error, { userId });
+        result.errors.push(
+          `Error syncing ${dataType}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const cursors = await this.advanceCursors(userId, latestByType);
+    for (const [dataType, cursor] of cursors) {
+      result.cursors[dataType] = cursor.toISOString();
+    }
+
+    return result;
+  }
+
+  /**
+   * Cursori correnti dell'utente per tipo
+   */
+  async getCursors(userId: string): Promise<Partial<Record<HealthDataType, string>>> {
+    const rows = await prisma.health_sync_cursors.findMany({ where: { userId } });
+    const cursors: Partial<Record<HealthDataType, string>> = {};
+    for (const row of rows) {
+      if (isHealthDataType(row.dataType)) {
+        cursors[row.dataType] = row.cursor.toISOString();
+      }
+    }
+    return cursors;
+  }
+
+  private async ingestType(
+    userId: string,
+    dataType: HealthDataType,
+    data: HealthSampleInput[]
+  ): Promise<{ stats: HealthTypeIngestionResult; latest: Date | null }> {
+    if (data.length > MAX_HEALTH_SAMPLES_PER_BATCH) {
+      throw new Error(
+        `Troppi campioni (${data.length}): massimo ${MAX_HEALTH_SAMPLES_PER_BATCH} per tipo`
+      );
+    }
+
+    const stats: HealthTypeIngestionResult = {
+      received: data.length,
+      stored: 0,
+      merged: 0,
+      rejected: 0,
+    };
+    const store = STORES[dataType];
+    const { mergeWindowMs } = TYPE_CONFIG[dataType];
+    let latest: Date | null = null;
+
+    const samples: HealthSample[] = [];
+    for (const input of data) {
+      const sample = normalizeHealthSample(dataType, input);
+      if (sample) {
+        samples.push(sample);
+        if (!latest || sample.endDate > latest) {
+          latest = sample.endDate;
+        }
+      } else {
+        stats.rejected++;
+      }
+    }
+
+    // Blocchi contigui nel tempo: una sola query dei candidati alla fusione per blocco
+    samples.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    for (let offset = 0; offset < samples.length; offset += SAMPLE_CHUNK_SIZE) {
+      const chunk = samples.slice(offset, offset + SAMPLE_CHUNK_SIZE);
+      const from = new Date(chunk[0]!.startDate.getTime() - mergeWindowMs);
+      const to = new Date(
+        Math.max(...chunk.map((sample) => sample.endDate.getTime())) + mergeWindowMs
+      );
+
+      const stored = await store.findInRange(userId, from, to);
+      const plan = planHealthSampleMerge(dataType, chunk, stored);
+
+      // Sostituzioni e upsert insieme: un errore a metà non lascia campioni cancellati
+      // senza il loro sostituto
+      await prisma.$transaction([
+        ...(plan.deletions.length > 0 ? [store.deleteMany(userId, plan.deletions)] : []),
+        ...plan.upserts.map((sample) => store.upsert(userId, sample)),
+      ]);
+      stats.stored += plan.upserts.length;
+      stats.merged += plan.merged;
+    }
+
+    return { stats, latest };
+  }
+
+  /**
+   * Avanza i cursori (mai all'indietro) e restituisce quelli correnti per tutti i tipi
+   */
+  private async advanceCursors(
+    userId: string,
+    latestByType: Partial<Record<HealthDataType, Date>>
+  ): Promise<Map<HealthDataType, Date>> {
+    const rows = await prisma.health_sync_cursors.findMany({ where: { userId } });
+    const cursors = new Map<HealthDataType, Date>();
+    for (const row of rows) {
+      if (isHealthDataType(row.dataType)) {
+        cursors.set(row.dataType, row.cursor);
+      }
+    }
+
+    for (const [dataType, latest] of Object.entries(latestByType) as Array<
+      [HealthDataType, Date]
+    >) {
+      const current = cursors.get(dataType);
+      if (current && current >= latest) continue;
+
+      await prisma.health_sync_cursors.upsert({
+        where: { userId_dataType: { userId, dataType } },
+        create: { userId, dataType, cursor: latest, updatedAt: new Date() },
+        update: { cursor: latest, updatedAt: new Date() },
+      });
+      cursors.set(dataType, latest);
+    }
+
+    return cursors;
+  }
+}
+
+export const healthIngestionService: HealthIngestionService = new HealthIngestionService();
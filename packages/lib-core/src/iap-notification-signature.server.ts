@@ -0,0 +1,307 @@
+/**
+ * In-App Purchase Notification Signatures
+ *
+ * Verifica delle notifiche server-to-server degli store:
+ * - App Store Server Notifications v2: JWS ES256 con catena x5c (leaf, WWDR, root) fino alla
+ *   Apple Root CA G3, con le estensioni Apple richieste su leaf e intermedio
+ * - Google Play RTDN: push Pub/Sub con token OIDC firmato da Google (RS256)
+ */
+
+import { X509Certificate, createPublicKey, verify, type JsonWebKey } from 'crypto';
+
+/** Fingerprint SHA-256 della Apple Root CA - G3 */
+export const APPLE_ROOT_CA_G3_FINGERPRINT =
+  '63:34:3A:BF:B8:9A:6A:03:EB:B5:7E:9B:3F:5F:A7:BE:7C:4F:5C:75:6F:30:17:B3:A8:C4:88:C3:65:3E:91:79';
+
+/** Estensione Apple del certificato di firma delle notifiche (leaf) */
+export const APPLE_LEAF_OID = '1.2.840.113635.100.6.11.1';
+/** Estensione Apple del certificato intermedio WWDR */
+export const APPLE_INTERMEDIATE_OID = '1.2.840.113635.100.6.2.1';
+const KEY_USAGE_OID = '2.5.29.15';
+
+const GOOGLE_CERTS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+const DEFAULT_GOOGLE_CERTS_TTL_MS = 60 * 60 * 1000;
+/** Intervallo minimo tra due download delle chiavi per kid sconosciuti (token falsificati) */
+const GOOGLE_CERTS_REFETCH_COOLDOWN_MS = 60 * 1000;
+
+interface JwsHeader {
+  alg: string;
+  kid?: string;
+  x5c?: string[];
+}
+
+export interface GoogleOidcClaims {
+  iss: string;
+  aud: string;
+  exp: number;
+  iat: number;
+  email?: string;
+  email_verified?: boolean;
+}
+
+export interface AppleJwsOptions {
+  /** Fingerprint SHA-256 ammessi per la radice (default: env APPLE_ROOT_CA_FINGERPRINTS o G3) */
+  rootFingerprints?: string[];
+  /** Data di validità della catena se il payload non ha signedDate */
+  now?: Date;
+}
+
+export interface GoogleOidcOptions {
+  /** Audience configurata sulla push subscription Pub/Sub */
+  audience: string;
+  /** Service account della push subscription; se assente non viene controllato */
+  serviceAccountEmail?: string;
+  now?: Date;
+}
+
+let googleCertsCache: {
+  keys: Array<JsonWebKey & { kid?: string }>;
+  fetchedAt: number;
+  expiresAt: number;
+} | null = null;
+
+function splitJws(token: string): [string, string, string] {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Token JWS malformato');
+  }
+  return parts as [string, string, string];
+}
+
+function decodeJwsPart<T>(part: string): T {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8')) as T;
+}
+
+interface DerNode {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+function readDerNode(buffer: Buffer, offset: number): DerNode {
+  const tag = buffer[offset]!;
+  let length = buffer[offset + 1]!;
+  let start = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = buffer.readUIntBE(start, lengthBytes);
+    start += lengthBytes;
+  }
+  return { tag, start, end: start + length };
+}
+
+function readDerChildren(buffer: Buffer, parent: DerNode): DerNode[] {
+  const children: DerNode[] = [];
+  for (let offset = parent.start; offset < parent.end; ) {
+    const child = readDerNode(buffer, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+function decodeOid(bytes: Buffer): string {
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+  const [first = 0, ...rest] = arcs;
+  const root = Math.min(Math.floor(first / 40), 2);
+  return [root, first - root * 40, ...rest].join('.');
+}
+
+/**
+ * Estensioni X.509 v3 del certificato (OID -> contenuto dell'OCTET STRING).
+ * X509Certificate non espone le estensioni private, si legge il TBSCertificate in DER.
+ */
+function getCertificateExtensions(certificate: X509Certificate): Map<string, Buffer> {
+  const der = certificate.raw;
+  const [tbsCertificate] = readDerChildren(der, readDerNode(der, 0));
+  // [3] EXPLICIT Extensions
+  const field = readDerChildren(der, tbsCertificate!).find((node) => node.tag === 0xa3);
+  const extensions = new Map<string, Buffer>();
+  if (!field) return extensions;
+
+  for (const extension of readDerChildren(der, readDerNode(der, field.start))) {
+    const [oid, ...rest] = readDerChildren(der, extension);
+    // extnValue è sempre l'ultimo elemento, dopo il flag critical opzionale
+    const value = rest[rest.length - 1];
+    if (oid && value) {
+      extensions.set(
+        decodeOid(der.subarray(oid.start, oid.end)),
+        der.subarray(value.start, value.end)
+      );
+    }
+  }
+  return extensions;
+}
+
+/** keyUsage con keyCertSign (bit 5 del BIT STRING) */
+function hasKeyCertSign(extensions: Map<string, Buffer>): boolean {
+  const keyUsage = extensions.get(KEY_USAGE_OID);
+  if (!keyUsage) return false;
+  const bits = readDerNode(keyUsage, 0);
+  // Il primo byte del BIT STRING indica i bit inutilizzati
+  return bits.tag === 0x03 && ((keyUsage[bits.start + 1] ?? 0) & 0x04) !== 0;
+}
+
+function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[^a-fA-F0-9]/g, '').toUpperCase();
+}
+
+function getAppleRootFingerprints(options: AppleJwsOptions): string[] {
+  const configured = process.env.APPLE_ROOT_CA_FINGERPRINTS?.split(',').filter(Boolean);
+  return (options.rootFingerprints ?? configured ?? [APPLE_ROOT_CA_G3_FINGERPRINT]).map(
+    normalizeFingerprint
+  );
+}
+
+/**
+ * Verifica un JWS firmato dall'App Store (payload della notifica, transazione o rinnovo)
+ * e ne restituisce il payload decodificato.
+ * La catena è valutata alla data di firma (signedDate), come fa la libreria ufficiale Apple.
+ */
+export function verifyAppleJws<T>(token: string, options: AppleJwsOptions = {}): T {
+  const [encodedHeader, encodedPayload, encodedSignature] = splitJws(token);
+  const header = decodeJwsPart<JwsHeader>(encodedHeader);
+
+  if (header.alg !== 'ES256') {
+    throw new Error(`Algoritmo JWS non supportato: ${header.alg}`);
+  }
+  if (!header.x5c || header.x5c.length !== 3) {
+    throw new Error('Catena di certificati x5c mancante o incompleta');
+  }
+
+  const payload = decodeJwsPart<T & { signedDate?: unknown }>(encodedPayload);
+  const validAt =
+    typeof payload.signedDate === 'number'
+      ? new Date(payload.signedDate)
+      : (options.now ?? new Date());
+  const chain = header.x5c.map((der) => new X509Certificate(Buffer.from(der, 'base64')));
+  const [leaf, intermediate] = chain as [X509Certificate, X509Certificate, X509Certificate];
+
+  if (!getCertificateExtensions(leaf).has(APPLE_LEAF_OID)) {
+    throw new Error('Certificato di firma senza estensione Apple');
+  }
+  const intermediateExtensions = getCertificateExtensions(intermediate);
+  if (!intermediateExtensions.has(APPLE_INTERMEDIATE_OID)) {
+    throw new Error('Certificato intermedio senza estensione Apple WWDR');
+  }
+  if (!intermediate.ca || !hasKeyCertSign(intermediateExtensions)) {
+    throw new Error('Certificato intermedio non autorizzato a firmare certificati');
+  }
+
+  for (const [index, certificate] of chain.entries()) {
+    if (new Date(certificate.validFrom) > validAt || new Date(certificate.validTo) < validAt) {
+      throw new Error('Certificato della catena x5c scaduto o non ancora valido');
+    }
+
+    const issuer = chain[index + 1];
+    if (issuer && (!certificate.checkIssued(issuer) || !certificate.verify(issuer.publicKey))) {
+      throw new Error('Catena di certificati x5c non valida');
+    }
+  }
+
+  const root = chain[chain.length - 1]!;
+  if (!getAppleRootFingerprints(options).includes(normalizeFingerprint(root.fingerprint256))) {
+    throw new Error('Certificato radice non riconosciuto');
+  }
+
+  const valid = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: leaf.publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Firma JWS non valida');
+  }
+
+  return payload;
+}
+
+async function getGoogleSigningKey(kid: string): Promise<JsonWebKey> {
+  const findKey = () => googleCertsCache?.keys.find((key) => key.kid === kid);
+
+  const now = Date.now();
+  const expired = !googleCertsCache || googleCertsCache.expiresAt < now;
+  // Kid sconosciuto: possibile rotazione delle chiavi, al massimo un download per cooldown
+  const rotated =
+    !!googleCertsCache &&
+    !findKey() &&
+    now - googleCertsCache.fetchedAt >= GOOGLE_CERTS_REFETCH_COOLDOWN_MS;
+
+  if (expired || rotated) {
+    const response = await fetch(GOOGLE_CERTS_URL);
+    if (!response.ok) {
+      throw new Error(`Impossibile scaricare le chiavi Google: ${response.statusText}`);
+    }
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '')?.[1];
+    const { keys } = (await response.json()) as { keys: Array<JsonWebKey & { kid?: string }> };
+    googleCertsCache = {
+      keys,
+      fetchedAt: now,
+      expiresAt: now + (maxAge ? parseInt(maxAge, 10) * 1000 : DEFAULT_GOOGLE_CERTS_TTL_MS),
+    };
+  }
+
+  const key = findKey();
+  if (!key) {
+    throw new Error(`Chiave di firma Google sconosciuta: ${kid}`);
+  }
+  return key;
+}
+
+/**
+ * Verifica il token OIDC inviato da Pub/Sub (header Authorization: Bearer) per le RTDN
+ */
+export async function verifyGoogleOidcToken(
+  token: string,
+  options: GoogleOidcOptions
+): Promise<GoogleOidcClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = splitJws(token);
+  const header = decodeJwsPart<JwsHeader>(encodedHeader);
+
+  if (header.alg !== 'RS256' || !header.kid) {
+    throw new Error(`Token OIDC non supportato: ${header.alg}`);
+  }
+
+  const jwk = await getGoogleSigningKey(header.kid);
+  const valid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Firma del token OIDC non valida');
+  }
+
+  const claims = decodeJwsPart<GoogleOidcClaims>(encodedPayload);
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+
+  if (!GOOGLE_ISSUERS.includes(claims.iss)) {
+    throw new Error(`Issuer del token OIDC non valido: ${claims.iss}`);
+  }
+  if (claims.aud !== options.audience) {
+    throw new Error('Audience del token OIDC non valida');
+  }
+  if (claims.exp < nowSeconds) {
+    throw new Error('Token OIDC scaduto');
+  }
+  if (
+    options.serviceAccountEmail &&
+    (claims.email !== options.serviceAccountEmail || claims.email_verified !== true)
+  ) {
+    throw new Error('Service account del token OIDC non autorizzato');
+  }
+
+  return claims;
+}
@@ -0,0 +1,629 @@
+/**
+ * IAP Notification Service
+ *
+ * Notifiche server-to-server di App Store (Server Notifications v2) e Google Play (RTDN):
+ * rinnovi, rimborsi, periodi di grazia e cancellazioni fatti fuori dall'app.
+ *
+ * Ogni notifica viene normalizzata in un IapStoreEvent (mapping puro, verificabile con
+ * payload registrati) e applicato allo stesso record subscriptions collegato da
+ * verify-receipt/restore-purchases (storePlatform + storeTransactionId).
+ * Le notifiche sono registrate in iap_notifications: le riconsegne vengono ignorate,
+ * quelle fallite (o rimaste PROCESSING oltre il lock) rielaborate alla consegna successiva.
+ */
+
+import type { Prisma, SubscriptionPlan } from '@prisma/client';
+import { creditService } from './credit.service';
+import { dunningService } from './dunning.service';
+import { entitlementService } from './entitlement.service';
+import {
+  verifyAppleJws,
+  verifyGoogleOidcToken,
+  type GoogleOidcClaims,
+} from './iap-notification-signature.server';
+import { verifyGoogleReceipt, type VerificationResult } from './iap-verification.server';
+import { logger } from './logger.service';
+import { prisma } from './prisma';
+
+export type IapStorePlatform = 'APPLE' | 'GOOGLE';
+
+export type IapStoreAction =
+  | 'ACTIVATE'
+  | 'RENEW'
+  | 'AUTO_RENEW_CHANGED'
+  | 'BILLING_ISSUE'
+  | 'EXPIRE'
+  | 'REVOKE'
+  | 'IGNORE';
+
+export type IapNotificationStatus = 'PROCESSING' | 'PROCESSED' | 'IGNORED' | 'UNMATCHED' | 'FAILED';
+
+/**
+ * Evento normalizzato, indipendente dallo store
+ */
+export interface IapStoreEvent {
+  platform: IapStorePlatform;
+  notificationId: string;
+  type: string;
+  subtype: string | null;
+  action: IapStoreAction;
+  /** Apple originalTransactionId / Google purchaseToken */
+  storeTransactionId: string | null;
+  /** Id del singolo addebito (Apple transactionId / Google orderId): idempotenza dei crediti */
+  transactionId: string | null;
+  productId: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  willAutoRenew: boolean | null;
+  occurredAt: Date;
+}
+
+export interface IapNotificationResult {
+  duplicate: boolean;
+  status: IapNotificationStatus;
+  action: IapStoreAction;
+}
+
+/**
+ * Payload decodificato di App Store Server Notifications v2
+ */
+export interface AppleNotificationPayload {
+  notificationType: string;
+  subtype?: string;
+  notificationUUID: string;
+  signedDate: number;
+  data?: {
+    bundleId?: string;
+    environment?: string;
+    signedTransactionInfo?: string;
+    signedRenewalInfo?: string;
+  };
+}
+
+export interface AppleTransactionInfo {
+  transactionId: string;
+  originalTransactionId: string;
+  productId: string;
+  bundleId?: string;
+  purchaseDate: number;
+  expiresDate?: number;
+  revocationDate?: number;
+}
+
+export interface AppleRenewalInfo {
+  originalTransactionId: string;
+  autoRenewStatus: number;
+  isInBillingRetryPeriod?: boolean;
+  gracePeriodExpiresDate?: number;
+}
+
+/**
+ * DeveloperNotification di Google Play (campo data del messaggio Pub/Sub)
+ */
+export interface GoogleDeveloperNotification {
+  version: string;
+  packageName: string;
+  eventTimeMillis: string;
+  subscriptionNotification?: {
+    version: string;
+    notificationType: number;
+    purchaseToken: string;
+    subscriptionId: string;
+  };
+  voidedPurchaseNotification?: {
+    purchaseToken: string;
+    orderId: string;
+    productType: number;
+  };
+  testNotification?: { version: string };
+}
+
+export interface GooglePubSubPushBody {
+  message: { data: string; messageId: string; publishTime?: string };
+  subscription?: string;
+}
+
+/**
+ * Verifica delle firme, sostituibile per elaborare payload registrati
+ */
+export interface IapNotificationVerifier {
+  verifyAppleJws<T>(token: string): T;
+  verifyGoogleToken(token: string): Promise<GoogleOidcClaims>;
+  /** Stato corrente dell'abbonamento Google (le RTDN contengono solo il purchaseToken) */
+  fetchGoogleSubscription(
+    subscriptionId: string,
+    purchaseToken: string
+  ): Promise<VerificationResult['subscription'] | null>;
+}
+
+const APPLE_ACTIONS: Record<string, IapStoreAction> = {
+  SUBSCRIBED: 'ACTIVATE',
+  OFFER_REDEEMED: 'ACTIVATE',
+  DID_CHANGE_RENEWAL_PREF: 'ACTIVATE',
+  RENEWAL_EXTENDED: 'ACTIVATE',
+  DID_RENEW: 'RENEW',
+  DID_CHANGE_RENEWAL_STATUS: 'AUTO_RENEW_CHANGED',
+  DID_FAIL_TO_RENEW: 'BILLING_ISSUE',
+  EXPIRED: 'EXPIRE',
+  GRACE_PERIOD_EXPIRED: 'EXPIRE',
+  REFUND: 'REVOKE',
+  REVOKE: 'REVOKE',
+};
+
+/** subscriptionNotification.notificationType di Google Play */
+const GOOGLE_ACTIONS: Record<number, { type: string; action: IapStoreAction }> = {
+  1: { type: 'SUBSCRIPTION_RECOVERED', action: 'RENEW' },
+  2: { type: 'SUBSCRIPTION_RENEWED', action: 'RENEW' },
+  3: { type: 'SUBSCRIPTION_CANCELED', action: 'AUTO_RENEW_CHANGED' },
+  4: { type: 'SUBSCRIPTION_PURCHASED', action: 'ACTIVATE' },
+  5: { type: 'SUBSCRIPTION_ON_HOLD', action: 'EXPIRE' },
+  6: { type: 'SUBSCRIPTION_IN_GRACE_PERIOD', action: 'BILLING_ISSUE' },
+  7: { type: 'SUBSCRIPTION_RESTARTED', action: 'ACTIVATE' },
+  10: { type: 'SUBSCRIPTION_PAUSED', action: 'EXPIRE' },
+  12: { type: 'SUBSCRIPTION_REVOKED', action: 'REVOKE' },
+  13: { type: 'SUBSCRIPTION_EXPIRED', action: 'EXPIRE' },
+};
+
+/** Crediti mensili accreditati a ogni rinnovo IAP per piano */
+const IAP_RENEWAL_CREDITS: Partial<Record<SubscriptionPlan, number>> = { PLUS: 500 };
+
+const MAX_ERROR_LENGTH = 2000;
+
+/** Oltre questo tempo una notifica PROCESSING è considerata abbandonata (istanza interrotta) */
+const PROCESSING_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Ambiente App Store servito dal deployment (APPLE_IAP_ENVIRONMENT, default Production in
+ * produzione): le notifiche Sandbox non devono modificare abbonamenti di produzione
+ */
+function getAppleEnvironment(): string {
+  return (
+    process.env.APPLE_IAP_ENVIRONMENT ??
+    (process.env.NODE_ENV === 'production' ? 'Production' : 'Sandbox')
+  );
+}
+
+/**
+ * Piano dal productId dello store (stessa regola di verify-receipt)
+ */
+export function getPlanFromProductId(productId: string): SubscriptionPlan {
+  return productId === 'PRO' ? 'PRO' : 'PLUS';
+}
+
+/**
+ * Normalizza una notifica App Store già verificata
+ */
+export function mapAppleNotification(
+  payload: AppleNotificationPayload,
+  transaction: AppleTransactionInfo | null,
+  renewal: AppleRenewalInfo | null
+): IapStoreEvent {
+  const action = APPLE_ACTIONS[payload.notificationType] ?? 'IGNORE';
+  const willAutoRenew =
+    payload.notificationType === 'DID_CHANGE_RENEWAL_STATUS'
+      ? payload.subtype === 'AUTO_RENEW_ENABLED'
+      : renewal
+        ? renewal.autoRenewStatus === 1
+        : null;
+
+  return {
+    platform: 'APPLE',
+    notificationId: payload.notificationUUID,
+    type: payload.notificationType,
+    subtype: payload.subtype ?? null,
+    action,
+    storeTransactionId:
+      transaction?.originalTransactionId ?? renewal?.originalTransactionId ?? null,
+    transactionId: transaction?.transactionId ?? null,
+    productId: transaction?.productId ?? null,
+    periodStart: transaction ? new Date(transaction.purchaseDate) : null,
+    periodEnd: transaction?.expiresDate ? new Date(transaction.expiresDate) : null,
+    willAutoRenew,
+    occurredAt: new Date(payload.signedDate),
+  };
+}
+
+/**
+ * Normalizza una RTDN Google Play; state è lo stato letto dalla Play Developer API
+ */
+export function mapGoogleNotification(
+  notification: GoogleDeveloperNotification,
+  messageId: string,
+  state: VerificationResult['subscription'] | null
+): IapStoreEvent {
+  const base = {
+    platform: 'GOOGLE' as const,
+    notificationId: messageId,
+    subtype: null,
+    occurredAt: new Date(parseInt(notification.eventTimeMillis, 10)),
+  };
+
+  if (notification.voidedPurchaseNotification) {
+    const voided = notification.voidedPurchaseNotification;
+    return {
+      ...base,
+      type: 'VOIDED_PURCHASE',
+      // productType 1 = abbonamento; gli acquisti singoli non toccano subscriptions
+      action: voided.productType === 1 ? 'REVOKE' : 'IGNORE',
+      storeTransactionId: voided.purchaseToken,
+      transactionId: voided.orderId,
+      productId: null,
+      periodStart: null,
+      periodEnd: null,
+      willAutoRenew: null,
+    };
+  }
+
+  const subscription = notification.subscriptionNotification;
+  const mapped = subscription ? GOOGLE_ACTIONS[subscription.notificationType] : undefined;
+
+  return {
+    ...base,
+    type:
+      mapped?.type ??
+      (subscription ? `SUBSCRIPTION_${subscription.notificationType}` : 'TEST_NOTIFICATION'),
+    action: mapped?.action ?? 'IGNORE',
+    storeTransactionId: subscription?.purchaseToken ?? null,
+    transactionId: state?.transactionId ?? null,
+    productId: subscription?.subscriptionId ?? null,
+    periodStart: state ? new Date(state.purchaseDate) : null,
+    periodEnd: state?.expirationDate ? new Date(state.expirationDate) : null,
+    willAutoRenew: state ? state.willAutoRenew : null,
+  };
+}
+
+const defaultVerifier: IapNotificationVerifier = {
+  verifyAppleJws: <T>(token: string) => verifyAppleJws<T>(token),
+  verifyGoogleToken: (token) => {
+    const audience = process.env.GOOGLE_RTDN_AUDIENCE;
+    if (!audience) {
+      throw new Error('GOOGLE_RTDN_AUDIENCE non configurata');
+    }
+    return verifyGoogleOidcToken(token, {
+      audience,
+      serviceAccountEmail: process.env.GOOGLE_RTDN_SERVICE_ACCOUNT,
+    });
+  },
+  fetchGoogleSubscription: async (subscriptionId, purchaseToken) => {
+    const result = await verifyGoogleReceipt(subscriptionId, purchaseToken);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    return result.subscription ?? null;
+  },
+};
+
+export class IapNotificationService {
+  constructor(private readonly verifier: IapNotificationVerifier = defaultVerifier) {}
+
+  /**
+   * Verifica il signedPayload di App Store Server Notifications v2 (lancia se non valido)
+   */
+  decodeAppleNotification(signedPayload: string): IapStoreEvent {
+    const payload = this.verifier.verifyAppleJws<AppleNotificationPayload>(signedPayload);
+
+    const bundleId = process.env.APPLE_BUNDLE_ID;
+    if (!bundleId) {
+      throw new Error('APPLE_BUNDLE_ID non configurato');
+    }
+    const { bundleId: notificationBundleId, environment } = payload.data ?? {};
+    if (notificationBundleId !== bundleId) {
+      throw new Error(`Bundle id della notifica non valido: ${notificationBundleId ?? 'assente'}`);
+    }
+    const expectedEnvironment = getAppleEnvironment();
+    if (environment !== expectedEnvironment) {
+      throw new Error(
+        `Ambiente della notifica non valido: ${environment ?? 'assente'}` +
+          ` (atteso ${expectedEnvironment})`
+      );
+    }
+
+    const transaction = payload.data?.signedTransactionInfo
+      ? this.verifier.verifyAppleJws<AppleTransactionInfo>(payload.data.signedTransactionInfo)
+      : null;
+    const renewal = payload.data?.signedRenewalInfo
+      ? this.verifier.verifyAppleJws<AppleRenewalInfo>(payload.data.signedRenewalInfo)
+      : null;
+
+    return mapAppleNotification(payload, transaction, renewal);
+  }
+
+  /**
+   * Verifica il token OIDC della push Pub/Sub e decodifica la RTDN (lancia se non valida)
+   */
+  async decodeGoogleNotification(
+    authorization: string | null,
+    body: GooglePubSubPushBody
+  ): Promise<GoogleDeveloperNotification> {
+    const token = authorization?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      throw new Error('Token OIDC mancante');
+    }
+    await this.verifier.verifyGoogleToken(token);
+
+    const notification = JSON.parse(
+      Buffer.from(body.message.data, 'base64').toString('utf8')
+    ) as GoogleDeveloperNotification;
+
+    const packageName = process.env.GOOGLE_PLAY_PACKAGE_NAME;
+    if (packageName && notification.packageName !== packageName) {
+      throw new Error(`Package della notifica non valido: ${notification.packageName}`);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Legge lo stato corrente dalla Play Developer API e normalizza la RTDN
+   */
+  async resolveGoogleNotification(
+    notification: GoogleDeveloperNotification,
+    messageId: string
+  ): Promise<IapStoreEvent> {
+    const subscription = notification.subscriptionNotification;
+    const state = subscription
+      ? await this.verifier.fetchGoogleSubscription(
+          subscription.subscriptionId,
+          subscription.purchaseToken
+        )
+      : null;
+
+    return mapGoogleNotification(notification, messageId, state);
+  }
+
+  /**
+   * Registra e applica un evento. Le riconsegne di notifiche già elaborate sono ignorate;
+   * in caso di errore l'eccezione viene rilanciata perché lo store ritenti la consegna.
+   */
+  async handle(event: IapStoreEvent): Promise<IapNotificationResult> {
+    const id = `${event.platform}:${event.notificationId}`;
+
+    if (!(await this.claim(id, event))) {
+      logger.warn(`[IapNotification] Duplicate delivery ignored: ${id}`);
+      const existing = await prisma.iap_notifications.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+      return {
+        duplicate: true,
+        status: (existing?.status as IapNotificationStatus | undefined) ?? 'PROCESSED',
+        action: event.action,
+      };
+    }
+
+    try {
+      const { status, subscriptionId, userId } = await this.apply(event);
+
+      await prisma.iap_notifications.update({
+        where: { id },
+        data: {
+          status,
+          subscriptionId,
+          userId,
+          lastError: null,
+          processedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+      return { duplicate: false, status, action: event.action };
+    } catch (error: unknown) {
+      await prisma.iap_notifications.update({
+        where: { id },
+        data: {
+          status: 'FAILED',
+          lastError: (error instanceof Error ? error.message : String(error)).slice(
+            0,
+            MAX_ERROR_LENGTH
+          ),
+          updatedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Claim atomico: nuova notifica, oppure riconsegna di una notifica fallita o abbandonata.
+   * Ogni reclaim conta un tentativo, come stripe-webhook-inbox.
+   */
+  private async claim(id: string, event: IapStoreEvent): Promise<boolean> {
+    const now = new Date();
+    const { count } = await prisma.iap_notifications.createMany({
+      data: [
+        {
+          id,
+          platform: event.platform,
+          type: event.type,
+          subtype: event.subtype,
+          status: 'PROCESSING',
+          storeTransactionId: event.storeTransactionId,
+          transactionId: event.transactionId,
+          payload: event as unknown as Prisma.InputJsonValue,
+          attempts: 1,
+          receivedAt: now,
+          updatedAt: now,
+        },
+      ],
+      skipDuplicates: true,
+    });
+    if (count > 0) return true;
+
+    const { count: reclaimed } = await prisma.iap_notifications.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: 'FAILED' },
+          {
+            status: 'PROCESSING',
+            updatedAt: { lt: new Date(now.getTime() - PROCESSING_LOCK_TIMEOUT_MS) },
+          },
+        ],
+      },
+      data: { status: 'PROCESSING', attempts: { increment: 1 }, updatedAt: now },
+    });
+    return reclaimed > 0;
+  }
+
+  private async apply(event: IapStoreEvent): Promise<{
+    status: IapNotificationStatus;
+    subscriptionId: string | null;
+    userId: string | null;
+  }> {
+    if (event.action === 'IGNORE' || !event.storeTransactionId) {
+      return { status: 'IGNORED', subscriptionId: null, userId: null };
+    }
+
+    const subscription = await prisma.subscriptions.findFirst({
+      where: { storePlatform: event.platform, storeTransactionId: event.storeTransactionId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!subscription) {
+      // Acquisto non ancora collegato a un utente: verify-receipt creerà il record
+      logger.warn(`[IapNotification] No subscription for ${event.platform} ${event.type}`, {
+        storeTransactionId: event.storeTransactionId,
+      });
+      return { status: 'UNMATCHED', subscriptionId: null, userId: null };
+    }
+
+    const reason = `${event.platform} ${event.type}${event.subtype ? ` (${event.subtype})` : ''}`;
+
+    switch (event.action) {
+      case 'ACTIVATE':
+      case 'RENEW': {
+        const plan = event.productId ? getPlanFromProductId(event.productId) : subscription.plan;
+        await prisma.subscriptions.update({
+          where: { id: subscription.id },
+          data: {
+            status: 'ACTIVE',
+            plan,
+            ...(event.periodStart && { currentPeriodStart: event.periodStart }),
+            ...(event.periodEnd && { currentPeriodEnd: event.periodEnd }),
+            ...(event.willAutoRenew !== null && { cancelAtPeriodEnd: !event.willAutoRenew }),
+            graceUntil: null,
+            updatedAt: new Date(),
+          },
+        });
+
+        // Recupero e rinnovo accreditano con la stessa chiave iapTransactionId:
+        // l'addebito che chiude il dunning non viene accreditato due volte
+        await dunningService.recover(subscription.id, { transactionId: event.transactionId });
+        if (event.action === 'RENEW' && subscription.userId) {
+          await this.grantRenewalCredits(subscription.userId, plan, event);
+        }
+        break;
+      }
+
+      case 'AUTO_RENEW_CHANGED':
+        if (event.willAutoRenew !== null) {
+          await prisma.subscriptions.update({
+            where: { id: subscription.id },
+            data: { cancelAtPeriodEnd: !event.willAutoRenew, updatedAt: new Date() },
+          });
+        }
+        break;
+
+      case 'BILLING_ISSUE':
+        await dunningService.recordPaymentFailure({
+          subscriptionId: subscription.id,
+          provider: event.platform,
+          reference: event.transactionId ?? event.storeTransactionId,
+          occurredAt: event.occurredAt,
+        });
+        break;
+
+      case 'EXPIRE':
+        await dunningService.downgrade(subscription.id, reason, 'EXPIRED');
+        break;
+
+      case 'REVOKE':
+        await dunningService.downgrade(subscription.id, reason, 'CANCELLED');
+        if (subscription.userId && event.transactionId) {
+          await this.revokeRenewalCredits(subscription.userId, event);
+        }
+        break;
+    }
+
+    await entitlementService.refreshSafely(subscription.userId, `${event.platform}_${event.type}`);
+    return { status: 'PROCESSED', subscriptionId: subscription.id, userId: subscription.userId };
+  }
+
+  private async grantRenewalCredits(
+    userId: string,
+    plan: SubscriptionPlan,
+    event: IapStoreEvent
+  ): Promise<void> {
+    const credits = IAP_RENEWAL_CREDITS[plan] ?? 0;
+    if (credits <= 0 || !event.transactionId) return;
+
+    // Idempotenza: un solo accredito per addebito dello store
+    const alreadyCredited = await prisma.credit_transactions.findFirst({
+      where: {
+        userId,
+        type: 'SUBSCRIPTION_RENEWAL',
+        metadata: { path: ['iapTransactionId'], equals: event.transactionId },
+      },
+      select: { id: true },
+    });
+    if (alreadyCredited) return;
+
+    await creditService.addCredits({
+      userId,
+      amount: credits,
+      type: 'SUBSCRIPTION_RENEWAL',
+      description: `Rinnovo crediti mensili ${plan}`,
+      metadata: {
+        iapPlatform: event.platform,
+        iapTransactionId: event.transactionId,
+        iapNotificationId: event.notificationId,
+      },
+    });
+  }
+
+  /**
+   * Rimborso: storna i crediti accreditati con l'addebito rimborsato
+   */
+  private async revokeRenewalCredits(userId: string, event: IapStoreEvent): Promise<void> {
+    const [grant, alreadyRefunded] = await Promise.all([
+      prisma.credit_transactions.findFirst({
+        where: {
+          userId,
+          type: 'SUBSCRIPTION_RENEWAL',
+          metadata: { path: ['iapTransactionId'], equals: event.transactionId },
+        },
+        select: { id: true, amount: true },
+      }),
+      prisma.credit_transactions.findFirst({
+        where: {
+          userId,
+          type: 'REFUND',
+          metadata: { path: ['iapTransactionId'], equals: event.transactionId },
+        },
+        select: { id: true },
+      }),
+    ]);
+    if (!grant || alreadyRefunded) return;
+
+    const consumed = await creditService.consumeCredits({
+      userId,
+      amount: grant.amount,
+      type: 'REFUND',
+      description: `Storno crediti per rimborso ${event.platform}`,
+      metadata: {
+        originalTransactionId: grant.id,
+        iapTransactionId: event.transactionId,
+        iapNotificationId: event.notificationId,
+      },
+    });
+    if (!consumed) {
+      logger.warn('[IapNotification] Insufficient credits to revoke refunded renewal', {
+        userId,
+        transactionId: event.transactionId,
+      });
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const iapNotificationService: IapNotificationService = new IapNotificationService();
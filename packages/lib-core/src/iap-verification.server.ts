@@ -8,6 +8,7 @@ interface AppleVerificationResponse {
   status: number;
   latest_receipt_info?: Array<{
     original_transaction_id: string;
+    transaction_id: string;
     product_id: string;
     purchase_date_ms: string;
     expires_date_ms: string;
@@ -17,6 +18,8 @@ interface AppleVerificationResponse {
   pending_renewal_info?: Array<{
     auto_renew_status: string;
     product_id: string;
+    is_in_billing_retry_period?: string;
+    grace_period_expires_date_ms?: string;
   }>;
 }
 
@@ -39,11 +42,15 @@ export interface VerificationResult {
   subscription?: {
     productId: string;
     originalTransactionId: string;
+    /** Id del singolo addebito (transazione Apple, ordine Google) */
+    transactionId: string;
     purchaseDate: number;
     expirationDate: number;
     isInTrial: boolean;
     willAutoRenew: boolean;
     isCancelled: boolean;
+    /** Rinnovo fallito: lo store sta ritentando l'addebito (billing retry / pagamento in sospeso) */
+    hasBillingIssue: boolean;
   };
   error?: string;
 }
@@ -92,17 +99,20 @@ export async function verifyAppleReceipt(receiptData: string): Promise<Verificat
     // Get auto-renew status
     const renewalInfo = response.pending_renewal_info?.[0];
     const willAutoRenew = renewalInfo?.auto_renew_status === '1';
+    const hasBillingIssue = renewalInfo?.is_in_billing_retry_period === '1';
 
     return {
       valid: isActive && !isCancelled,
       subscription: {
         productId: latestReceipt.product_id,
         originalTransactionId: latestReceipt.original_transaction_id,
+        transactionId: latestReceipt.transaction_id,
         purchaseDate: parseInt(latestReceipt.purchase_date_ms),
         expirationDate,
         isInTrial: latestReceipt.is_trial_period === 'true',
         willAutoRenew,
         isCancelled,
+        hasBillingIssue,
       },
     };
   } catch (error: unknown) {
@@ -178,17 +188,21 @@ export async function verifyGoogleReceipt(
 
     // purchaseState: 0 = purchased, 1 = cancelled
     const isCancelled = data.purchaseState === 1;
+    // paymentState: 0 = pagamento in sospeso (rinnovo fallito, Google ritenta l'addebito)
+    const hasBillingIssue = data.paymentState === 0;
 
     return {
       valid: isActive && !isCancelled,
       subscription: {
         productId,
         originalTransactionId: data.orderId,
+        transactionId: data.orderId,
         purchaseDate,
         expirationDate,
         isInTrial: false, // Google doesn't provide trial info in subscription API
         willAutoRenew,
         isCancelled,
+        hasBillingIssue,
       },
     };
   } catch (error: unknown) {
@@ -20,6 +20,9 @@ export * from './credit.service';
 export { creditService } from './credit.service';
 export * from './subscription.service';
 export { subscriptionService } from './subscription.service';
+export * from './stripe-webhook-inbox.service';
+export * from './dunning.service';
+export * from './entitlement.service';
 export * from './auth';
 export * from './user-profile.service';
 export { userProfileService } from './user-profile.service';
@@ -29,6 +32,8 @@ export * from './onboarding.service';
 export { onboardingService } from './onboarding.service';
 export * from './user/onboarding-profile.service';
 export * from './calendar.service';
+export * from './calendar-recurrence';
+export * from './calendar-sync';
 export * from './invitation.service';
 export * from './consent.service';
 export * from './policy.service';
@@ -37,6 +42,12 @@ export * from './edge-config.service';
 export * from './feature-flags.service';
 export * from './feature-flags.evaluator';
 export * from './iap-verification.server';
+export * from './iap-notification-signature.server';
+export * from './public-fetch.server';
+export * from './dunning-notifier.server';
+export * from './iap-notification.service';
+export * from './health-ingestion.service';
+export * from './activity-event.service';
 export * from './direct-messaging.service';
 export * from './logger.service';
 export * from './types/safe-types';
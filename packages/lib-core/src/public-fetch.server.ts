@@ -0,0 +1,232 @@
+/**
+ * Public URL Fetch
+ *
+ * Fetch lato server di URL forniti dagli utenti (feed iCal, pagine ricetta).
+ * La richiesta deve poter raggiungere solo host pubblici:
+ * - solo https, senza credenziali nell'URL
+ * - l'host viene risolto e rifiutato se punta a reti private, loopback, link-local
+ *   (metadati cloud inclusi) o indirizzi riservati; ogni redirect viene rivalidato
+ * - lo stesso controllo è ripetuto sul lookup usato per aprire il socket, così un
+ *   DNS che cambia risposta tra validazione e connessione (rebinding) non passa
+ * - timeout complessivo e limite sulla dimensione della risposta
+ */
+
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { request, type IncomingMessage } from 'https';
+import { BlockList, isIP } from 'net';
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  // Non specificato, loopback e IPv4-compatible deprecati (::a.b.c.d)
+  ['::', 96],
+  // NAT64 può incapsulare indirizzi privati; gli IPv4-mapped (::ffff:a.b.c.d)
+  // vengono già confrontati da BlockList con le regole IPv4
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of BLOCKED_IPV6_SUBNETS) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface PublicFetchOptions {
+  headers?: Record<string, string>;
+  /** Timeout dell'intera richiesta, redirect e body inclusi (default 15s) */
+  timeoutMs?: number;
+  /** Dimensione massima del body in byte (default 5 MB) */
+  maxBytes?: number;
+}
+
+export interface PublicFetchResult {
+  /** URL finale dopo gli eventuali redirect */
+  url: URL;
+  status: number;
+  ok: boolean;
+  contentType: string | null;
+  text: string;
+}
+
+/**
+ * true se l'indirizzo IP è instradabile pubblicamente
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Lookup per il socket HTTPS: fallisce se uno degli indirizzi risolti non è pubblico
+ */
+export function lookupPublicAddress(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      callback(new Error(`URL non ammesso: ${hostname} non è un host pubblico`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+}
+
+/**
+ * Valida l'URL e risolve l'host: tutti gli indirizzi devono essere pubblici
+ */
+export async function assertPublicUrl(input: string | URL): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new Error('URL non valido');
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new Error('URL non valido: è supportato solo https');
+  }
+  if (url.username || url.password) {
+    throw new Error('URL non valido: le credenziali non sono ammesse');
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(
+        (entry) => entry.address
+      );
+    } catch {
+      throw new Error(`Host non risolvibile: ${hostname}`);
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`URL non ammesso: ${hostname} non è un host pubblico`);
+  }
+
+  return url;
+}
+
+/**
+ * GET senza redirect automatici; il socket si connette solo tramite lookupPublicAddress
+ */
+function requestPublicUrl(
+  url: URL,
+  headers: Record<string, string> | undefined,
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method: 'GET', headers, signal, lookup: lookupPublicAddress },
+      resolve
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+async function readLimitedText(response: IncomingMessage, maxBytes: number): Promise<string> {
+  const declaredLength = Number(response.headers['content-length'] ?? 0);
+  if (declaredLength > maxBytes) {
+    response.destroy();
+    throw new Error(`Risposta troppo grande (limite ${maxBytes} byte)`);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    total += chunk.byteLength;
+    if (total > maxBytes) {
+      response.destroy();
+      throw new Error(`Risposta troppo grande (limite ${maxBytes} byte)`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * GET di un URL pubblico con redirect rivalidati, timeout e limite di dimensione
+ */
+export async function fetchPublicUrl(
+  input: string | URL,
+  options: PublicFetchOptions = {}
+): Promise<PublicFetchResult> {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  let url = await assertPublicUrl(input);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestPublicUrl(url, options.headers, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Troppi redirect');
+      }
+      url = await assertPublicUrl(new URL(location, url));
+      continue;
+    }
+
+    return {
+      url,
+      status,
+      ok: status >= 200 && status < 300,
+      contentType: response.headers['content-type'] ?? null,
+      text: await readLimitedText(response, maxBytes),
+    };
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Stripe Webhook Inbox Service
+ *
+ * Inbox persistente degli eventi Stripe (stripe_webhook_events):
+ * - ogni evento viene registrato alla ricezione con il suo id (le riconsegne sono ignorate)
+ * - l'elaborazione avviene una sola volta, con claim atomico sullo stato
+ * - gli errori (e i lock abbandonati) vengono ritentati con backoff esponenziale fino a
+ *   MAX_ATTEMPTS, poi DEAD
+ * - i tipi non gestiti vengono salvati come UNHANDLED invece di essere scartati
+ */
+
+import type Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import { logger } from './logger.service';
+import { prisma } from './prisma';
+import {
+  isHandledWebhookEvent,
+  subscriptionService,
+  type SubscriptionService,
+} from './subscription.service';
+
+export type StripeWebhookEventStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'PROCESSED'
+  | 'FAILED'
+  | 'DEAD'
+  | 'UNHANDLED';
+
+export interface StripeWebhookEventRecord {
+  id: string;
+  type: string;
+  status: StripeWebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  livemode: boolean;
+  stripeCreatedAt: Date;
+  receivedAt: Date;
+  processedAt: Date | null;
+  payload?: Stripe.Event;
+}
+
+export interface StripeWebhookProcessSummary {
+  processed: number;
+  failed: number;
+  dead: number;
+  skipped: number;
+}
+
+/** Tentativi prima di marcare l'evento come DEAD */
+export const STRIPE_WEBHOOK_MAX_ATTEMPTS = 8;
+
+const BASE_BACKOFF_MS = 60 * 1000; // 1 minuto
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000; // 6 ore
+/** Oltre questo tempo un evento PROCESSING è considerato abbandonato (worker interrotto) */
+const PROCESSING_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * Ritardo prima del prossimo tentativo: 1m, 2m, 4m, ... fino a 6h
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+type WebhookEventRow = Prisma.stripe_webhook_eventsGetPayload<{}>;
+
+export class StripeWebhookInboxService {
+  constructor(private readonly subscriptions: SubscriptionService = subscriptionService) {}
+
+  /**
+   * Registra un evento ricevuto. Le riconsegne dello stesso id non creano duplicati.
+   */
+  async receive(
+    event: Stripe.Event
+  ): Promise<{ duplicate: boolean; status: StripeWebhookEventStatus }> {
+    const status: StripeWebhookEventStatus = isHandledWebhookEvent(event.type)
+      ? 'PENDING'
+      : 'UNHANDLED';
+    const now = new Date();
+
+    const { count } = await prisma.stripe_webhook_events.createMany({
+      data: [
+        {
+          id: event.id,
+          type: event.type,
+          status,
+          payload: event as unknown as Prisma.InputJsonValue,
+          attempts: 0,
+          livemode: event.livemode,
+          stripeCreatedAt: new Date(event.created * 1000),
+          receivedAt: now,
+          nextAttemptAt: status === 'PENDING' ? now : null,
+          updatedAt: now,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    if (count === 0) {
+      const existing = await prisma.stripe_webhook_events.findUnique({
+        where: { id: event.id },
+        select: { status: true },
+      });
+      logger.warn(`[StripeWebhookInbox] Duplicate delivery ignored: ${event.id}`);
+      return {
+        duplicate: true,
+        status: (existing?.status as StripeWebhookEventStatus | undefined) ?? status,
+      };
+    }
+
+    if (status === 'UNHANDLED') {
+      logger.warn(`[StripeWebhookInbox] Stored unhandled event type: ${event.type}`);
+    }
+
+    return { duplicate: false, status };
+  }
+
+  /**
+   * Elabora un evento se è dovuto (PENDING/FAILED con nextAttemptAt scaduto o lock abbandonato).
+   * Restituisce lo stato finale, o null se l'evento non era elaborabile.
+   */
+  async processEvent(eventId: string): Promise<StripeWebhookEventStatus | null> {
+    const now = new Date();
+
+    // Claim atomico: solo un worker passa lo stato a PROCESSING. Il tentativo viene
+    // contato subito, così anche un lock abbandonato (worker interrotto) consuma un tentativo
+    const { count } = await prisma.stripe_webhook_events.updateMany({
+      where: { id: eventId, ...this.dueWhere(now) },
+      data: { status: 'PROCESSING', attempts: { increment: 1 }, lockedAt: now, updatedAt: now },
+    });
+    if (count === 0) return null;
+
+    const row = await prisma.stripe_webhook_events.findUnique({ where: { id: eventId } });
+    if (!row) return null;
+
+    // Evento che interrompe il worker a ogni tentativo: non va rielaborato
+    if (row.attempts > STRIPE_WEBHOOK_MAX_ATTEMPTS) {
+      return this.recordFailure(
+        row,
+        new Error('Elaborazione interrotta: tentativi esauriti con lock scaduto')
+      );
+    }
+
+    try {
+      await this.subscriptions.handleWebhook(row.payload as unknown as Stripe.Event);
+
+      await prisma.stripe_webhook_events.update({
+        where: { id: eventId },
+        data: {
+          status: 'PROCESSED',
+          lastError: null,
+          nextAttemptAt: null,
+          lockedAt: null,
+          processedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+      return 'PROCESSED';
+    } catch (error: unknown) {
+      return this.recordFailure(row, error);
+    }
+  }
+
+  /**
+   * Worker: elabora in ordine di ricezione gli eventi dovuti
+   */
+  async processDue(limit = 25): Promise<StripeWebhookProcessSummary> {
+    const due = await prisma.stripe_webhook_events.findMany({
+      where: this.dueWhere(new Date()),
+      orderBy: { receivedAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const summary: StripeWebhookProcessSummary = { processed: 0, failed: 0, dead: 0, skipped: 0 };
+    for (const { id } of due) {
+      const status = await this.processEvent(id);
+      if (status === 'PROCESSED') summary.processed++;
+      else if (status === 'FAILED') summary.failed++;
+      else if (status === 'DEAD') summary.dead++;
+      else summary.skipped++;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Replay manuale (admin): rimette in coda l'evento e lo elabora subito.
+   * Gli eventi già PROCESSED richiedono force, perché i loro effetti verrebbero riapplicati.
+   */
+  async replay(
+    eventId: string,
+    options: { force?: boolean } = {}
+  ): Promise<StripeWebhookEventStatus | null> {
+    const row = await prisma.stripe_webhook_events.findUnique({
+      where: { id: eventId },
+      select: { status: true, type: true },
+    });
+    if (!row) {
+      throw new Error('Evento webhook non trovato');
+    }
+    if (row.status === 'PROCESSING') {
+      throw new Error('Evento webhook in elaborazione');
+    }
+    if (row.status === 'PROCESSED' && !options.force) {
+      throw new Error('Evento già elaborato: usare force per rielaborarlo');
+    }
+    if (!isHandledWebhookEvent(row.type)) {
+      throw new Error(`Tipo di evento non gestito: ${row.type}`);
+    }
+
+    await prisma.stripe_webhook_events.update({
+      where: { id: eventId },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+        updatedAt: new Date(),
+      },
+    });
+    logger.warn(`[StripeWebhookInbox] Replay requested for ${eventId} (${row.type})`);
+
+    return this.processEvent(eventId);
+  }
+
+  async getById(eventId: string): Promise<StripeWebhookEventRecord | null> {
+    const row = await prisma.stripe_webhook_events.findUnique({ where: { id: eventId } });
+    return row ? this.mapToRecord(row, true) : null;
+  }
+
+  async list(
+    options: {
+      status?: StripeWebhookEventStatus;
+      type?: string;
+      page?: number;
+      pageSize?: number;
+    } = {}
+  ): Promise<{ data: StripeWebhookEventRecord[]; total: number; page: number; pageSize: number }> {
+    const page = Math.max(options.page ?? 1, 1);
+    const pageSize = Math.min(Math.max(options.pageSize ?? 50, 1), 200);
+    const where: Prisma.stripe_webhook_eventsWhereInput = {
+      ...(options.status && { status: options.status }),
+      ...(options.type && { type: options.type }),
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.stripe_webhook_events.count({ where }),
+      prisma.stripe_webhook_events.findMany({
+        where,
+        orderBy: { receivedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return { data: rows.map((row) => this.mapToRecord(row, false)), total, page, pageSize };
+  }
+
+  /**
+   * Conteggi per stato (monitoraggio)
+   */
+  async getStats(): Promise<Record<StripeWebhookEventStatus, number>> {
+    const groups = await prisma.stripe_webhook_events.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    const stats: Record<StripeWebhookEventStatus, number> = {
+      PENDING: 0,
+      PROCESSING: 0,
+      PROCESSED: 0,
+      FAILED: 0,
+      DEAD: 0,
+      UNHANDLED: 0,
+    };
+    for (const group of groups) {
+      stats[group.status as StripeWebhookEventStatus] = group._count._all;
+    }
+    return stats;
+  }
+
+  private dueWhere(now: Date): Prisma.stripe_webhook_eventsWhereInput {
+    return {
+      OR: [
+        {
+          status: { in: ['PENDING', 'FAILED'] },
+          OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+        },
+        {
+          status: 'PROCESSING',
+          lockedAt: { lt: new Date(now.getTime() - PROCESSING_LOCK_TIMEOUT_MS) },
+        },
+      ],
+    };
+  }
+
+  private async recordFailure(
+    row: WebhookEventRow,
+    error: unknown
+  ): Promise<StripeWebhookEventStatus> {
+    // row.attempts include già il tentativo corrente (incrementato al claim)
+    const attempts = row.attempts;
+    const dead = attempts >= STRIPE_WEBHOOK_MAX_ATTEMPTS;
+    const message = (error instanceof Error ? error.message : String(error)).slice(
+      0,
+      MAX_ERROR_LENGTH
+    );
+
+    await prisma.stripe_webhook_events.update({
+      where: { id: row.id },
+      data: {
+        status: dead ? 'DEAD' : 'FAILED',
+        attempts,
+        lastError: message,
+        nextAttemptAt: dead ? null : new Date(Date.now() + getWebhookRetryDelayMs(attempts)),
+        lockedAt: null,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (dead) {
+      logger.error(`[StripeWebhookInbox] Event ${row.id} (${row.type}) marked DEAD`, error);
+    } else {
+      logger.warn(`[StripeWebhookInbox] Event ${row.id} failed (attempt ${attempts})`, {
+        error: message,
+      });
+    }
+
+    return dead ? 'DEAD' : 'FAILED';
+  }
+
+  private mapToRecord(row: WebhookEventRow, includePayload: boolean): StripeWebhookEventRecord {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status as StripeWebhookEventStatus,
+      attempts: row.attempts,
+      lastError: row.lastError,
+      nextAttemptAt: row.nextAttemptAt,
+      livemode: row.livemode,
+      stripeCreatedAt: row.stripeCreatedAt,
+      receivedAt: row.receivedAt,
+      processedAt: row.processedAt,
+      ...(includePayload && { payload: row.payload as unknown as Stripe.Event }),
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const stripeWebhookInboxService: StripeWebhookInboxService =
+  new StripeWebhookInboxService();
@@ -12,6 +12,8 @@ import { getSubscriptionPriceId, getCreditsFromPriceId } from '@onecoach/constan
 import type { ISubscriptionService } from '@onecoach/contracts'; 
 import { logger } from './logger.service';
 import { creditService } from './credit.service';
+import { dunningService } from './dunning.service';
+import { entitlementService } from './entitlement.service';
 import { SetupIntentService } from './setup-intent.service';
 import { getStripe } from './stripe';
 import { prisma } from './prisma';
@@ -50,6 +52,24 @@ export interface IMarketplaceService {
   updatePurchaseStatus(purchaseId: string, status: string): Promise<any>;
 }
 
+/**
+ * Tipi di evento Stripe elaborati da handleWebhook; gli altri vengono solo archiviati nell'inbox
+ */
+export const SUBSCRIPTION_WEBHOOK_EVENT_TYPES = [
+  'payment_intent.succeeded',
+  'payment_intent.refunded',
+  'charge.refunded',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.paid',
+  'invoice.payment_failed',
+] as const;
+
+export function isHandledWebhookEvent(type: string): boolean {
+  return (SUBSCRIPTION_WEBHOOK_EVENT_TYPES as readonly string[]).includes(type);
+}
+
 export interface SubscriptionDependencies {
   affiliateService?: IAffiliateService;
   promotionService?: IPromotionService;
@@ -173,18 +193,7 @@ export class SubscriptionService implements ISubscriptionService {
     plan: SubscriptionPlan;
     currentPeriodEnd: Date;
   } | null> {
-    const user = await prisma.users.findUnique({
-      where: { id: userId },
-      select: {
-        subscriptions: {
-          where: { status: 'ACTIVE' },
-          take: 1,
-          orderBy: { createdAt: 'desc' },
-        },
-      },
-    });
-
-    const subscription = user?.subscriptions[0];
+    const subscription = await this.findEntitledSubscription(userId);
     if (!subscription) return null;
 
     return {
@@ -264,12 +273,21 @@ export class SubscriptionService implements ISubscriptionService {
   }
 
   async getActiveSubscription(userId: string) {
-    const dbSub = await prisma.subscriptions.findFirst({
-      where: { userId, status: 'ACTIVE' },
-      orderBy: { createdAt: 'desc' },
-    });
-    if (!dbSub) return null;
-    return dbSub;
+    return this.findEntitledSubscription(userId);
+  }
+
+  /**
+   * Abbonamento che dà accesso all'utente secondo entitlementService
+   * (incluso PAST_DUE nel periodo di grazia; gli IAP con periodo scaduto non contano)
+   */
+  private async findEntitledSubscription(userId: string) {
+    const { sources } = await entitlementService.get(userId);
+    const subscriptionSource = sources.find(
+      ({ source }) => source === 'STRIPE' || source === 'IAP'
+    );
+    if (!subscriptionSource) return null;
+
+    return prisma.subscriptions.findUnique({ where: { id: subscriptionSource.referenceId } });
   }
 
   async createPortalSession(userId: string, returnUrl: string): Promise<string> {
@@ -293,6 +311,10 @@ export class SubscriptionService implements ISubscriptionService {
     return session.url;
   }
 
+  /**
+   * Elabora un evento Stripe. Chiamato dall'inbox (stripeWebhookInboxService), che garantisce
+   * un'unica elaborazione per event id; i singoli handler restano idempotenti per i retry.
+   */
   async handleWebhook(event: Stripe.Event): Promise<void> {
     logger.warn(`[SubscriptionService] Handling webhook: ${event.type}`);
 
@@ -312,7 +334,7 @@ export class SubscriptionService implements ISubscriptionService {
         break;
       }
       case 'customer.subscription.created': {
-        await this.handleSubscriptionCreated(event.data.object as Stripe.Subscription);
+        await this.handleSubscriptionCreated(event.data.object as Stripe.Subscription, event.id);
         break;
       }
       case 'customer.subscription.updated': {
@@ -324,7 +346,7 @@ export class SubscriptionService implements ISubscriptionService {
         break;
       }
       case 'invoice.paid': {
-        await this.handleInvoicePaid(event.data.object as Stripe.Invoice);
+        await this.handleInvoicePaid(event.data.object as Stripe.Invoice, event.id);
         break;
       }
       case 'invoice.payment_failed': {
@@ -341,7 +363,7 @@ export class SubscriptionService implements ISubscriptionService {
   // PRIVATE HANDLERS
   // ============================================
 
-  private async handleSubscriptionCreated(subscription: Stripe.Subscription) {
+  private async handleSubscriptionCreated(subscription: Stripe.Subscription, eventId: string) {
     const userId = subscription.metadata?.userId;
     const plan = subscription.metadata?.plan as SubscriptionPlan;
 
@@ -350,28 +372,24 @@ export class SubscriptionService implements ISubscriptionService {
       return;
     }
 
-    await prisma.subscriptions.create({
-      data: {
-        id: createId(),
-        userId,
-        plan,
-        status: 'ACTIVE',
-        stripeSubscriptionId: subscription.id,
-        stripeCustomerId: subscription.customer as string,
-        stripePriceId: subscription.items.data[0]?.price.id ?? '',
-        currentPeriodStart: new Date(((subscription as unknown as Record<string, number>).current_period_start ?? 0) * 1000),
-        currentPeriodEnd: new Date(((subscription as unknown as Record<string, number>).current_period_end ?? 0) * 1000),
-        updatedAt: new Date(),
-      },
+    // Ogni passo è idempotente da solo: un retry dopo un errore parziale completa
+    // i passi mancanti invece di fermarsi all'abbonamento già registrato
+    const existing = await prisma.subscriptions.findUnique({
+      where: { stripeSubscriptionId: subscription.id },
+      select: { id: true },
     });
+    if (existing) {
+      logger.warn('[Subscription] Subscription already created, resuming remaining steps', {
+        eventId,
+        stripeSubscriptionId: subscription.id,
+      });
+    } else {
+      await this.createSubscriptionRecord(subscription, userId, plan);
+    }
+    await entitlementService.refreshSafely(userId, 'STRIPE_SUBSCRIPTION_CREATED');
 
     if (plan === 'PLUS') {
-      await creditService.addCredits({
-        userId,
-        amount: 500,
-        type: 'SUBSCRIPTION_RENEWAL',
-        description: 'Crediti iniziali PLUS',
-      });
+      await this.grantInitialPlusCredits(userId, subscription.id, eventId);
     }
 
     // Handle affiliate referral if present
@@ -398,6 +416,54 @@ export class SubscriptionService implements ISubscriptionService {
     }
   }
 
+  private async createSubscriptionRecord(
+    subscription: Stripe.Subscription,
+    userId: string,
+    plan: SubscriptionPlan
+  ) {
+    await prisma.subscriptions.create({
+      data: {
+        id: createId(),
+        userId,
+        plan,
+        status: 'ACTIVE',
+        stripeSubscriptionId: subscription.id,
+        stripeCustomerId: subscription.customer as string,
+        stripePriceId: subscription.items.data[0]?.price.id ?? '',
+        currentPeriodStart: new Date(((subscription as unknown as Record<string, number>).current_period_start ?? 0) * 1000),
+        currentPeriodEnd: new Date(((subscription as unknown as Record<string, number>).current_period_end ?? 0) * 1000),
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Crediti iniziali PLUS, una sola volta per abbonamento Stripe
+   */
+  private async grantInitialPlusCredits(
+    userId: string,
+    stripeSubscriptionId: string,
+    eventId: string
+  ) {
+    const alreadyCredited = await prisma.credit_transactions.findFirst({
+      where: {
+        userId,
+        type: 'SUBSCRIPTION_RENEWAL',
+        metadata: { path: ['stripeSubscriptionId'], equals: stripeSubscriptionId },
+      },
+      select: { id: true },
+    });
+    if (alreadyCredited) return;
+
+    await creditService.addCredits({
+      userId,
+      amount: 500,
+      type: 'SUBSCRIPTION_RENEWAL',
+      description: 'Crediti iniziali PLUS',
+      metadata: { stripeSubscriptionId, stripeEventId: eventId },
+    });
+  }
+
   private async handleSubscriptionUpdate(subscription: Stripe.Subscription) {
     const dbSubscription = await prisma.subscriptions.findUnique({
       where: { stripeSubscriptionId: subscription.id },
@@ -413,11 +479,26 @@ export class SubscriptionService implements ISubscriptionService {
           currentPeriodStart: new Date(((subscription as unknown as Record<string, number>).current_period_start ?? 0) * 1000),
           currentPeriodEnd: new Date(((subscription as unknown as Record<string, number>).current_period_end ?? 0) * 1000),
           cancelAtPeriodEnd: subscription.cancel_at_period_end,
+          ...(newStatus === 'ACTIVE' && { graceUntil: null }),
           updatedAt: new Date(),
         },
       });
 
+      await entitlementService.refreshSafely(dbSubscription.userId, 'STRIPE_SUBSCRIPTION_UPDATED');
+
+      // Pagamento recuperato dopo un fallimento: chiude il dunning
+      if (newStatus === 'ACTIVE' && dbSubscription.status === 'PAST_DUE') {
+        await dunningService.recover(dbSubscription.id);
+      }
+
       if (newStatus === 'CANCELLED' || newStatus === 'EXPIRED') {
+        // Stripe ha smesso di ritentare (unpaid/canceled): downgrade definitivo
+        await dunningService.downgrade(
+          dbSubscription.id,
+          `Stripe subscription ${subscription.status}`,
+          newStatus
+        );
+
         if (dbSubscription.userId && this.deps.affiliateService) {
           await this.deps.affiliateService.handleSubscriptionCancellation({
             userId: dbSubscription.userId,
@@ -441,6 +522,11 @@ export class SubscriptionService implements ISubscriptionService {
       where: { stripeSubscriptionId: subscription.id },
     });
 
+    // Chiude eventuali casi di dunning aperti (downgrade definitivo)
+    for (const sub of dbSubscriptions) {
+      await dunningService.downgrade(sub.id, 'Stripe subscription deleted', 'CANCELLED');
+    }
+
     await Promise.all(
       dbSubscriptions
         .filter((sub) => sub.userId && this.deps.affiliateService)
@@ -453,21 +539,38 @@ export class SubscriptionService implements ISubscriptionService {
     );
   }
 
-  private async handleInvoicePaid(invoice: Stripe.Invoice) {
+  private async handleInvoicePaid(invoice: Stripe.Invoice, eventId: string) {
     const subscriptionId = (invoice as unknown as { subscription: string | null }).subscription;
     if (!subscriptionId) return;
     const subscription = await prisma.subscriptions.findFirst({
       where: { stripeSubscriptionId: subscriptionId },
     });
 
+    // Pagamento recuperato dopo un fallimento: riattiva l'accesso e chiude il dunning
+    if (subscription) {
+      await dunningService.recover(subscription.id);
+    }
+
     if (subscription && subscription.plan === 'PLUS' && subscription.userId) {
-      // Rinnovo crediti mensili PLUS
-      await creditService.addCredits({
-        userId: subscription.userId,
-        amount: 500,
-        type: 'SUBSCRIPTION_RENEWAL',
-        description: 'Rinnovo crediti mensili PLUS',
+      // Idempotenza: crediti già accreditati per questa invoice (es. retry dopo errore affiliate)
+      const alreadyCredited = await prisma.credit_transactions.findFirst({
+        where: {
+          userId: subscription.userId,
+          metadata: { path: ['stripeInvoiceId'], equals: invoice.id },
+        },
+        select: { id: true },
       });
+
+      if (!alreadyCredited) {
+        // Rinnovo crediti mensili PLUS
+        await creditService.addCredits({
+          userId: subscription.userId,
+          amount: 500,
+          type: 'SUBSCRIPTION_RENEWAL',
+          description: 'Rinnovo crediti mensili PLUS',
+          metadata: { stripeInvoiceId: invoice.id, stripeEventId: eventId },
+        });
+      }
     }
 
     if (subscription && subscription.userId && invoice.total && this.deps.affiliateService) {
@@ -488,12 +591,17 @@ export class SubscriptionService implements ISubscriptionService {
   private async handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
     const subscriptionId = (invoice as any).subscription as string | null;
     if (!subscriptionId) return;
-    await prisma.subscriptions.updateMany({
+    const subscription = await prisma.subscriptions.findUnique({
       where: { stripeSubscriptionId: subscriptionId },
-      data: {
-        status: 'PAST_DUE',
-        updatedAt: new Date(),
-      },
+      select: { id: true },
+    });
+    if (!subscription) return;
+
+    // PAST_DUE con periodo di grazia, promemoria e downgrade gestiti dal dunning
+    await dunningService.recordPaymentFailure({
+      subscriptionId: subscription.id,
+      provider: 'STRIPE',
+      reference: invoice.id,
     });
   }
 
@@ -517,6 +625,19 @@ export class SubscriptionService implements ISubscriptionService {
     }
 
     if (credits > 0) {
+      // Idempotenza: pagamento già registrato da un tentativo precedente
+      const existingPayment = await prisma.payments.findFirst({
+        where: { stripePaymentIntentId: paymentIntent.id, status: 'SUCCEEDED' },
+        select: { id: true },
+      });
+      if (existingPayment) {
+        logger.warn('[Subscription] Payment intent already processed', {
+          eventId,
+          paymentIntentId: paymentIntent.id,
+        });
+        return;
+      }
+
       await prisma.$transaction(async (tx) => {
         // Create OpenRouter subkey for credits purchase
         if (this.deps.openRouterSubkeyService) {
@@ -2,7 +2,9 @@
 // Re-esportiamo i tipi definiti nel servizio per evitare duplicazioni
 export type {
   CalendarAssignment,
+  CalendarAssignmentOccurrence,
   RecurrenceRule,
+  RecurrenceOverride,
   CreateCalendarAssignmentRequest,
   UpdateCalendarAssignmentRequest,
   QueryCalendarAssignmentsRequest,
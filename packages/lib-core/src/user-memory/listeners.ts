@@ -14,7 +14,12 @@ import { logger } from '@onecoach/lib-shared';
 // ============================================================================
 
 export interface WorkoutEvent {
-  type: 'PROGRAM_CREATED' | 'PROGRAM_COMPLETED' | 'SESSION_LOGGED' | 'FEEDBACK_GIVEN';
+  type:
+    | 'PROGRAM_CREATED'
+    | 'PROGRAM_COMPLETED'
+    | 'SESSION_LOGGED'
+    | 'FEEDBACK_GIVEN'
+    | 'PERSONAL_RECORD';
   userId: string;
   data: {
     programId?: string;
@@ -25,6 +30,15 @@ export interface WorkoutEvent {
     splitType?: string;
     feedback?: string;
     rating?: number;
+    sessionId?: string;
+    exerciseId?: string;
+    exerciseName?: string;
+    records?: Array<{
+      recordType: string;
+      reps: number | null;
+      value: number;
+      previousValue: number | null;
+    }>;
   };
 }
 
@@ -161,6 +175,30 @@ export async function handleWorkoutFeedback(event: WorkoutEvent): Promise<void>
   await userMemoryService.addHistoryItem(event.userId, 'workout', historyItem);
 }
 
+/**
+ * Handle personal record event
+ */
+export async function handleWorkoutPersonalRecord(event: WorkoutEvent): Promise<void> {
+  const historyItem: MemoryHistoryItem = {
+    id: '',
+    type: event.type,
+    domain: 'workout',
+    timestamp: new Date().toISOString(),
+    data: {
+      sessionId: event.data.sessionId,
+      exerciseId: event.data.exerciseId,
+      exerciseName: event.data.exerciseName,
+      records: event.data.records,
+    },
+    metadata: {
+      source: 'workout_session',
+      importance: 0.8,
+    },
+  };
+
+  await userMemoryService.addHistoryItem(event.userId, 'workout', historyItem);
+}
+
 // ============================================================================
 // NUTRITION EVENT LISTENERS
 // ============================================================================
@@ -401,6 +439,9 @@ export async function handleMemoryEvent(
         case 'PROGRAM_COMPLETED':
           await handleWorkoutProgramCompleted(event as WorkoutEvent);
           break;
+        case 'PERSONAL_RECORD':
+          await handleWorkoutPersonalRecord(event as WorkoutEvent);
+          break;
         case 'FEEDBACK_GIVEN':
           if ('programId' in event.data) {
             await handleWorkoutFeedback(event as WorkoutEvent);
@@ -173,6 +173,42 @@ export class TimelineService {
     });
   }
 
+  /**
+   * Track personal records of a session (one milestone per exercise)
+   */
+  async trackPersonalRecords(
+    userId: string,
+    event: {
+      sessionId: string;
+      exerciseId: string;
+      exerciseName: string;
+      date: Date;
+      records: Array<{ label: string; value: number; unit: string; previousValue: number | null }>;
+    }
+  ): Promise<void> {
+    if (event.records.length === 0) return;
+
+    await this.createEvent(userId, {
+      eventType: 'milestone',
+      domain: 'workout',
+      title: `Nuovo record: ${event.exerciseName}`,
+      description: event.records
+        .map(
+          (record) =>
+            `${record.label} ${record.value}${record.unit}` +
+            (record.previousValue !== null ? ` (prima ${record.previousValue}${record.unit})` : '')
+        )
+        .join(', '),
+      data: {
+        type: 'personal_record',
+        sessionId: event.sessionId,
+        exerciseId: event.exerciseId,
+        records: event.records,
+      },
+      date: event.date.toISOString().split('T')[0]!,
+    });
+  }
+
   /**
    * Get timeline events for user
    */
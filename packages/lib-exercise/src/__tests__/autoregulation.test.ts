@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+  recommendNextSet,
+  rpeToPercentage,
+  recommendRestSeconds,
+  summarizePreviousSession,
+} from '../autoregulation';
+
+const previousSession = [
+  { date: new Date('2026-01-05T10:00:00Z'), weight: 150, reps: 5, rpe: 8 },
+  { date: new Date('2026-01-12T10:00:00Z'), weight: 110, reps: 5, rpe: 7 },
+  { date: new Date('2026-01-12T10:10:00Z'), weight: 120, reps: 5, rpe: 8 },
+];
+
+describe('rpeToPercentage', () => {
+  it('legge la tabella RPE per ripetizioni + RIR', () => {
+    expect(rpeToPercentage(1, 10)).toBe(1);
+    expect(rpeToPercentage(5, 8)).toBeCloseTo(0.811, 3);
+  });
+
+  it('estrapola oltre la tabella', () => {
+    expect(rpeToPercentage(15, 10)).toBeCloseTo(0.605, 3);
+  });
+});
+
+describe('recommendRestSeconds', () => {
+  it('allunga il recupero dopo set vicini al cedimento', () => {
+    expect(recommendRestSeconds(5, 8)).toBe(180);
+    expect(recommendRestSeconds(5, 10)).toBe(240);
+    expect(recommendRestSeconds(8, 6)).toBe(90);
+    expect(recommendRestSeconds(12, null)).toBe(90);
+  });
+});
+
+describe('summarizePreviousSession', () => {
+  it('usa solo la sessione più recente e il set con e1RM migliore', () => {
+    const summary = summarizePreviousSession(previousSession);
+
+    expect(summary?.weight).toBe(120);
+    expect(summary?.estimatedOneRepMax).toBe(148);
+  });
+
+  it('restituisce null senza storico', () => {
+    expect(summarizePreviousSession([])).toBeNull();
+  });
+});
+
+describe('recommendNextSet', () => {
+  it('mantiene il carico quando il RPE è sul target', () => {
+    const result = recommendNextSet({ lastSet: { weight: 100, reps: 5, rpe: 8 } });
+
+    expect(result.action).toBe('MAINTAIN');
+    expect(result.nextWeight).toBe(100);
+    expect(result.nextReps).toBe(5);
+    expect(result.fatigue).toBe('MODERATE');
+    expect(result.reasons).toEqual(['RPE_ON_TARGET']);
+  });
+
+  it('accetta RIR al posto di RPE', () => {
+    const result = recommendNextSet({ lastSet: { weight: 100, reps: 5, rir: 2 } });
+
+    expect(result.action).toBe('MAINTAIN');
+    expect(result.estimatedOneRepMax).toBe(123.3);
+  });
+
+  it('aumenta il carico quando il set è troppo facile', () => {
+    const result = recommendNextSet({ lastSet: { weight: 100, reps: 5, rpe: 6 } });
+
+    expect(result.action).toBe('INCREASE');
+    expect(result.nextWeight).toBe(107.5);
+    expect(result.fatigue).toBe('LOW');
+    expect(result.restSeconds).toBe(150);
+    expect(result.reasons).toContain('RPE_BELOW_TARGET');
+  });
+
+  it('riduce carico e ripetizioni dopo un set a cedimento, limitando la variazione', () => {
+    const result = recommendNextSet({
+      lastSet: { weight: 100, reps: 3, rpe: 10 },
+      targetReps: 5,
+    });
+
+    expect(result.action).toBe('DECREASE');
+    expect(result.nextWeight).toBe(90);
+    expect(result.nextReps).toBe(3);
+    expect(result.fatigue).toBe('EXCESSIVE');
+    expect(result.restSeconds).toBe(240);
+    expect(result.reasons).toEqual(['RPE_ABOVE_TARGET', 'CHANGE_CAPPED']);
+  });
+
+  it("applica il fatigue drop quando l'e1RM cala rispetto alla sessione precedente", () => {
+    const result = recommendNextSet({
+      lastSet: { weight: 120, reps: 5, rpe: 10 },
+      history: previousSession,
+    });
+
+    expect(result.action).toBe('DECREASE');
+    expect(result.nextWeight).toBe(112.5);
+    expect(result.referenceOneRepMax).toBe(148);
+    expect(result.performanceChange).toBeCloseTo(-6.1, 1);
+    expect(result.reasons).toContain('FATIGUE_DROP');
+  });
+
+  it("chiude l'esercizio oltre la soglia di fatica", () => {
+    const result = recommendNextSet({
+      lastSet: { weight: 120, reps: 3, rpe: 10 },
+      targetReps: 5,
+      history: previousSession,
+    });
+
+    expect(result.action).toBe('STOP');
+    expect(result.performanceChange).toBe(-12);
+    expect(result.reasons).toContain('FATIGUE_STOP');
+  });
+
+  it('senza RPE usa la doppia progressione sulle ripetizioni', () => {
+    const above = recommendNextSet({ lastSet: { weight: 60, reps: 12 }, targetReps: 10 });
+    const below = recommendNextSet({ lastSet: { weight: 60, reps: 7 }, targetReps: 10 });
+
+    expect(above.action).toBe('INCREASE');
+    expect(above.nextWeight).toBe(62.5);
+    expect(above.reasons).toEqual(['NO_RPE', 'REPS_ABOVE_TARGET']);
+    expect(above.fatigue).toBe('UNKNOWN');
+    expect(below.action).toBe('DECREASE');
+    expect(below.nextWeight).toBe(57.5);
+  });
+
+  it('non aggiunge carico agli esercizi a corpo libero', () => {
+    const result = recommendNextSet({ lastSet: { weight: 0, reps: 15 }, targetReps: 10 });
+
+    expect(result.nextWeight).toBe(0);
+    expect(result.action).toBe('MAINTAIN');
+  });
+
+  it('scala il carico con la readiness del giorno', () => {
+    const result = recommendNextSet({
+      lastSet: { weight: 100, reps: 5, rpe: 8 },
+      loadMultiplier: 0.85,
+    });
+
+    expect(result.action).toBe('DECREASE');
+    expect(result.nextWeight).toBe(85);
+    expect(result.reasons).toEqual(['RPE_ON_TARGET', 'LOW_READINESS']);
+  });
+
+  it('non somma la riduzione da readiness sui set successivi', () => {
+    const withRpe = recommendNextSet({
+      lastSet: { weight: 85, reps: 5, rpe: 8 },
+      loadMultiplier: 0.85,
+      referenceWeight: 100,
+    });
+    const withoutRpe = recommendNextSet({
+      lastSet: { weight: 85, reps: 10 },
+      targetReps: 10,
+      loadMultiplier: 0.85,
+      referenceWeight: 100,
+    });
+
+    expect(withRpe.nextWeight).toBe(85);
+    expect(withRpe.action).toBe('MAINTAIN');
+    expect(withRpe.reasons).not.toContain('LOW_READINESS');
+    expect(withoutRpe.nextWeight).toBe(85);
+    expect(withoutRpe.action).toBe('MAINTAIN');
+  });
+
+  it('usa la sessione precedente come riferimento senza carico prescritto', () => {
+    const result = recommendNextSet({
+      lastSet: { weight: 120, reps: 5 },
+      history: previousSession,
+      loadMultiplier: 0.85,
+    });
+
+    expect(result.nextWeight).toBe(102.5);
+    expect(result.reasons).toEqual(['NO_RPE', 'LOW_READINESS']);
+  });
+
+  it('segnala i carichi sopra il massimale registrato', () => {
+    const result = recommendNextSet({
+      lastSet: { weight: 100, reps: 5, rpe: 6 },
+      recordedOneRepMax: 105,
+    });
+
+    expect(result.reasons).toContain('ABOVE_RECORDED_MAX');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeSessionBests,
+  detectPersonalRecords,
+  personalRecordKey,
+  type PersonalRecordBest,
+} from '../personal-records';
+
+const keys = (records: PersonalRecordBest[]) =>
+  records.map((record) => personalRecordKey(record.recordType, record.reps));
+
+describe('computeSessionBests', () => {
+  it('conta un set per tutti i rep max con ripetizioni inferiori', () => {
+    const bests = computeSessionBests([{ weight: 100, reps: 6 }]);
+
+    expect(keys(bests)).toEqual([
+      'REP_MAX:1',
+      'REP_MAX:3',
+      'REP_MAX:5',
+      'ESTIMATED_ONE_REP_MAX',
+      'SET_VOLUME',
+      'SESSION_VOLUME',
+    ]);
+  });
+
+  it('tiene il set migliore per chiave e somma il volume della sessione', () => {
+    const bests = computeSessionBests([
+      { weight: 100, reps: 5 },
+      { weight: 110, reps: 3 },
+      { weight: 80, reps: 10 },
+    ]);
+    const value = (key: string) =>
+      bests.find((best) => personalRecordKey(best.recordType, best.reps) === key);
+
+    expect(value('REP_MAX:5')).toMatchObject({ value: 100, weight: 100, setReps: 5 });
+    expect(value('REP_MAX:3')).toMatchObject({ value: 110, setReps: 3 });
+    expect(value('REP_MAX:10')).toMatchObject({ value: 80 });
+    expect(value('SET_VOLUME')).toMatchObject({ value: 800, weight: 80, setReps: 10 });
+    expect(value('SESSION_VOLUME')).toMatchObject({ value: 1630, weight: null, setReps: null });
+  });
+
+  it('ignora gli esercizi a corpo libero', () => {
+    expect(computeSessionBests([{ weight: 0, reps: 20 }])).toEqual([]);
+  });
+});
+
+describe('detectPersonalRecords', () => {
+  it('senza storico restituisce le baseline con previousValue null', () => {
+    const records = detectPersonalRecords([{ weight: 100, reps: 5 }], []);
+
+    expect(records).toHaveLength(6);
+    expect(records.every((record) => record.previousValue === null)).toBe(true);
+    expect(records.every((record) => record.improvement === null)).toBe(true);
+  });
+
+  it('restituisce solo le chiavi che superano il best precedente', () => {
+    const records = detectPersonalRecords(
+      [{ weight: 100, reps: 5 }],
+      [
+        { recordType: 'REP_MAX', reps: 1, value: 120 },
+        { recordType: 'REP_MAX', reps: 3, value: 100 },
+        { recordType: 'REP_MAX', reps: 5, value: 95 },
+        { recordType: 'ESTIMATED_ONE_REP_MAX', reps: null, value: 130 },
+        { recordType: 'SET_VOLUME', reps: null, value: 600 },
+        { recordType: 'SESSION_VOLUME', reps: null, value: 400 },
+      ]
+    );
+
+    expect(keys(records)).toEqual(['REP_MAX:5', 'SESSION_VOLUME']);
+    expect(records[0]).toMatchObject({ value: 100, previousValue: 95, improvement: 5.3 });
+    expect(records[1]).toMatchObject({ value: 500, previousValue: 400, improvement: 25 });
+  });
+
+  it('confronta con il migliore tra più best della stessa chiave', () => {
+    const records = detectPersonalRecords(
+      [{ weight: 100, reps: 5 }],
+      [
+        { recordType: 'REP_MAX', reps: 5, value: 90 },
+        { recordType: 'REP_MAX', reps: 5, value: 102.5 },
+      ]
+    );
+
+    expect(keys(records)).not.toContain('REP_MAX:5');
+    // Le chiavi senza storico restano baseline
+    expect(records.find((record) => record.recordType === 'SET_VOLUME')?.previousValue).toBeNull();
+  });
+});
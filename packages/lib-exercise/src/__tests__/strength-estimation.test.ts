@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bestOneRepMaxEstimate,
+  classifyStrength,
+  estimateOneRepMax,
+  resolveStrengthLift,
+  rpeTablePercentage,
+} from '../strength-estimation';
+
+describe('estimateOneRepMax', () => {
+  it('applica Epley e Brzycki', () => {
+    expect(estimateOneRepMax({ weight: 100, reps: 5 }, 'EPLEY')).toEqual({
+      oneRepMax: 116.7,
+      formula: 'EPLEY',
+    });
+    expect(estimateOneRepMax({ weight: 100, reps: 5 }, 'BRZYCKI')).toEqual({
+      oneRepMax: 112.5,
+      formula: 'BRZYCKI',
+    });
+  });
+
+  it('restituisce il peso sollevato per una singola', () => {
+    expect(estimateOneRepMax({ weight: 140, reps: 1 }, 'EPLEY')?.oneRepMax).toBe(140);
+    expect(estimateOneRepMax({ weight: 140, reps: 1 }, 'BRZYCKI')?.oneRepMax).toBe(140);
+  });
+
+  it('usa la tabella RPE su ripetizioni + RIR', () => {
+    // 5 reps a RPE 8 = 7 ripetizioni equivalenti = 81.1%
+    expect(estimateOneRepMax({ weight: 100, reps: 5, rpe: 8 }, 'RPE')).toEqual({
+      oneRepMax: 123.3,
+      formula: 'RPE',
+    });
+    // Il RIR esplicito prevale sull'RPE
+    expect(estimateOneRepMax({ weight: 100, reps: 5, rpe: 10, rir: 2 }, 'RPE')?.oneRepMax).toBe(
+      123.3
+    );
+  });
+
+  it('in AUTO usa la tabella RPE solo se il set ha RPE o RIR', () => {
+    expect(estimateOneRepMax({ weight: 100, reps: 5, rpe: 8 })?.formula).toBe('RPE');
+    expect(estimateOneRepMax({ weight: 100, reps: 5, rir: null })?.formula).toBe('EPLEY');
+  });
+
+  it('scarta set non stimabili', () => {
+    expect(estimateOneRepMax({ weight: 0, reps: 5 })).toBeNull();
+    expect(estimateOneRepMax({ weight: 100, reps: 2.5 })).toBeNull();
+    expect(estimateOneRepMax({ weight: 100, reps: 13 }, 'EPLEY')).toBeNull();
+    // Oltre la tabella con il RIR
+    expect(estimateOneRepMax({ weight: 100, reps: 10, rir: 3 })).toBeNull();
+    // RPE richiesto ma assente
+    expect(estimateOneRepMax({ weight: 100, reps: 5 }, 'RPE')).toBeNull();
+  });
+});
+
+describe('rpeTablePercentage', () => {
+  it('interpola gli RPE a mezzi punti', () => {
+    expect(rpeTablePercentage(1)).toBe(1);
+    expect(rpeTablePercentage(3.5)).toBeCloseTo(0.907, 3);
+    expect(rpeTablePercentage(0.5)).toBeNull();
+    expect(rpeTablePercentage(12.5)).toBeNull();
+  });
+});
+
+describe('bestOneRepMaxEstimate', () => {
+  it('restituisce il set con la stima più alta', () => {
+    const sets = [
+      { id: 'a', weight: 100, reps: 5 },
+      { id: 'b', weight: 110, reps: 3 },
+      { id: 'c', weight: 60, reps: 20 },
+    ];
+
+    expect(bestOneRepMaxEstimate(sets, 'EPLEY')).toEqual({
+      oneRepMax: 121,
+      formula: 'EPLEY',
+      set: sets[1],
+    });
+    expect(bestOneRepMaxEstimate([{ weight: 60, reps: 20 }])).toBeNull();
+  });
+});
+
+describe('resolveStrengthLift', () => {
+  it('riconosce i lift di riferimento ed esclude le varianti', () => {
+    expect(resolveStrengthLift('barbell-bench-press')).toBe('BENCH_PRESS');
+    expect(resolveStrengthLift('Overhead-Press')).toBe('OVERHEAD_PRESS');
+    expect(resolveStrengthLift('back-squat')).toBe('SQUAT');
+    expect(resolveStrengthLift('incline-bench-press')).toBeNull();
+    expect(resolveStrengthLift('romanian-deadlift')).toBeNull();
+    expect(resolveStrengthLift('bicep-curl')).toBeNull();
+  });
+});
+
+describe('classifyStrength', () => {
+  it('classifica il rapporto con il peso corporeo e calcola il livello successivo', () => {
+    expect(classifyStrength('BENCH_PRESS', 140, 80)).toEqual({
+      lift: 'BENCH_PRESS',
+      level: 'ADVANCED',
+      bodyweightRatio: 1.75,
+      nextLevel: 'ELITE',
+      nextLevelOneRepMax: 152,
+    });
+    expect(classifyStrength('SQUAT', 55, 60, 'FEMALE').level).toBe('NOVICE');
+  });
+
+  it('non ha un livello successivo oltre ELITE', () => {
+    expect(classifyStrength('DEADLIFT', 250, 80)).toMatchObject({
+      level: 'ELITE',
+      nextLevel: null,
+      nextLevelOneRepMax: null,
+    });
+  });
+
+  it('rifiuta un peso corporeo non positivo', () => {
+    expect(() => classifyStrength('SQUAT', 100, 0)).toThrow('Bodyweight must be positive');
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Autoregulation
+ *
+ * Motore deterministico per il set successivo durante l'allenamento live:
+ * - carico dal massimale stimato del giorno (e1RM dall'ultimo set con RPE/RIR)
+ *   e dalla tabella %1RM per le ripetizioni target al RPE target
+ * - soglie di fatica: calo percentuale dell'e1RM rispetto alla sessione precedente
+ *   o al massimale registrato → riduzione del carico o stop dell'esercizio
+ * - recupero in funzione delle ripetizioni target e del RPE dell'ultimo set
+ *
+ * Senza RPE si usa una progressione a ripetizioni (doppia progressione).
+ * Il risultato contiene solo numeri e codici: la formulazione spetta al coach AI.
+ */
+
+import {
+  MAX_ESTIMATION_REPS,
+  estimateOneRepMax,
+  rpeTablePercentage,
+  type EstimationSet,
+} from './strength-estimation';
+
+export type AutoregulationAction = 'INCREASE' | 'MAINTAIN' | 'DECREASE' | 'STOP';
+
+export type FatigueLevel = 'LOW' | 'MODERATE' | 'HIGH' | 'EXCESSIVE' | 'UNKNOWN';
+
+export type AutoregulationReason =
+  | 'RPE_BELOW_TARGET'
+  | 'RPE_ON_TARGET'
+  | 'RPE_ABOVE_TARGET'
+  | 'NO_RPE'
+  | 'REPS_ABOVE_TARGET'
+  | 'REPS_BELOW_TARGET'
+  | 'FATIGUE_DROP'
+  | 'FATIGUE_STOP'
+  | 'CHANGE_CAPPED'
+  | 'LOW_READINESS'
+  | 'ABOVE_RECORDED_MAX';
+
+export interface PreviousPerformance extends EstimationSet {
+  date: Date;
+}
+
+export interface AutoregulationInput {
+  lastSet: EstimationSet;
+  /** Ripetizioni prescritte (default: quelle dell'ultimo set) */
+  targetReps?: number;
+  /** RPE prescritto (default: 8) */
+  targetRpe?: number;
+  /** Massimale registrato dall'utente per l'esercizio */
+  recordedOneRepMax?: number | null;
+  /** Set delle sessioni precedenti per lo stesso esercizio (esclusa quella in corso) */
+  history?: PreviousPerformance[];
+  /** Incremento minimo del carico in kg (default: 2.5) */
+  loadIncrement?: number;
+  /** Moltiplicatore dei carichi da readiness/recupero del giorno (default: 1) */
+  loadMultiplier?: number;
+  /**
+   * Carico di riferimento a cui si applica loadMultiplier (es. carico prescritto dal piano).
+   * Default: miglior set della sessione precedente, altrimenti l'ultimo set
+   */
+  referenceWeight?: number | null;
+}
+
+export interface PreviousSessionSummary {
+  date: Date;
+  weight: number;
+  reps: number;
+  rpe: number | null;
+  estimatedOneRepMax: number;
+}
+
+export interface AutoregulationRecommendation {
+  action: AutoregulationAction;
+  nextWeight: number;
+  nextReps: number;
+  targetRpe: number;
+  restSeconds: number;
+  fatigue: FatigueLevel;
+  /** e1RM dell'ultimo set */
+  estimatedOneRepMax: number | null;
+  /** Massimale di riferimento (sessione precedente o registrato) */
+  referenceOneRepMax: number | null;
+  /** Variazione % dell'e1RM di oggi rispetto al riferimento */
+  performanceChange: number | null;
+  /** Carico suggerito in % del massimale di riferimento */
+  percentOfOneRepMax: number | null;
+  previousSession: PreviousSessionSummary | null;
+  reasons: AutoregulationReason[];
+}
+
+export const DEFAULT_TARGET_RPE = 8;
+export const DEFAULT_LOAD_INCREMENT = 2.5;
+
+/** Calo dell'e1RM oltre il quale si riduce il carico (fatigue drop) */
+export const FATIGUE_DROP_THRESHOLD = 0.05;
+/** Calo dell'e1RM oltre il quale l'esercizio va chiuso */
+export const FATIGUE_STOP_THRESHOLD = 0.1;
+/** Variazione massima del carico tra due set consecutivi */
+export const MAX_LOAD_CHANGE = 0.1;
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function roundPercentage(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
+
+function lastSetRpe(set: EstimationSet): number | null {
+  if (set.rpe !== null && set.rpe !== undefined) return set.rpe;
+  if (set.rir !== null && set.rir !== undefined) return 10 - set.rir;
+  return null;
+}
+
+/**
+ * %1RM per ripetizioni + RIR; oltre la tabella si estrapola di 2.5% per ripetizione
+ */
+export function rpeToPercentage(reps: number, rpe: number): number {
+  const effectiveReps = Math.max(1, reps + (10 - rpe));
+  const percentage = rpeTablePercentage(effectiveReps);
+  if (percentage !== null) return percentage;
+
+  const lastPercentage = rpeTablePercentage(MAX_ESTIMATION_REPS)!;
+  return Math.max(0.4, lastPercentage - (effectiveReps - MAX_ESTIMATION_REPS) * 0.025);
+}
+
+/**
+ * Livello di fatica dal RPE dell'ultimo set rispetto al target
+ */
+export function classifyFatigue(rpe: number | null, targetRpe: number): FatigueLevel {
+  if (rpe === null) return 'UNKNOWN';
+  if (rpe >= 10) return 'EXCESSIVE';
+  if (rpe >= targetRpe + 1) return 'HIGH';
+  if (rpe <= targetRpe - 1.5) return 'LOW';
+  return 'MODERATE';
+}
+
+/**
+ * Recupero: base per ripetizioni target, più lungo dopo set vicini al cedimento
+ */
+export function recommendRestSeconds(targetReps: number, rpe: number | null): number {
+  const base = targetReps <= 5 ? 180 : targetReps <= 10 ? 120 : 90;
+  if (rpe === null) return base;
+  if (rpe >= 9.5) return base + 60;
+  if (rpe >= 8.5) return base + 30;
+  if (rpe <= 6.5) return Math.max(60, base - 30);
+  return base;
+}
+
+/**
+ * Miglior set della sessione precedente più recente (per e1RM)
+ */
+export function summarizePreviousSession(
+  history: PreviousPerformance[]
+): PreviousSessionSummary | null {
+  if (history.length === 0) return null;
+
+  const latestDay = history
+    .map((set) => set.date.toISOString().split('T')[0]!)
+    .sort()
+    .pop()!;
+
+  let best: PreviousSessionSummary | null = null;
+  for (const set of history) {
+    if (set.date.toISOString().split('T')[0] !== latestDay) continue;
+    const estimate = estimateOneRepMax(set);
+    if (estimate && (!best || estimate.oneRepMax > best.estimatedOneRepMax)) {
+      best = {
+        date: set.date,
+        weight: set.weight,
+        reps: set.reps,
+        rpe: lastSetRpe(set),
+        estimatedOneRepMax: estimate.oneRepMax,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Calcola carico, ripetizioni e recupero del set successivo
+ */
+export function recommendNextSet(input: AutoregulationInput): AutoregulationRecommendation {
+  const { lastSet } = input;
+  const targetReps = input.targetReps ?? lastSet.reps;
+  const targetRpe = input.targetRpe ?? DEFAULT_TARGET_RPE;
+  const increment = input.loadIncrement ?? DEFAULT_LOAD_INCREMENT;
+  const reasons: AutoregulationReason[] = [];
+
+  const rpe = lastSetRpe(lastSet);
+  const fatigue = classifyFatigue(rpe, targetRpe);
+  const previousSession = summarizePreviousSession(input.history ?? []);
+  const referenceOneRepMax =
+    previousSession?.estimatedOneRepMax ?? input.recordedOneRepMax ?? null;
+  const estimate = rpe !== null ? estimateOneRepMax({ ...lastSet, rpe, rir: null }) : null;
+  const estimatedOneRepMax = estimate?.oneRepMax ?? null;
+
+  const performanceChange =
+    estimatedOneRepMax !== null && referenceOneRepMax
+      ? (estimatedOneRepMax - referenceOneRepMax) / referenceOneRepMax
+      : null;
+
+  let nextWeight: number;
+  let nextReps = targetReps;
+  let action: AutoregulationAction;
+
+  if (rpe === null || estimatedOneRepMax === null) {
+    // Doppia progressione: si aumenta quando le ripetizioni superano il target
+    if (rpe === null) reasons.push('NO_RPE');
+    if (lastSet.reps >= targetReps + 2) {
+      reasons.push('REPS_ABOVE_TARGET');
+      // A corpo libero (peso 0) non si aggiunge carico
+      nextWeight = lastSet.weight > 0 ? lastSet.weight + increment : 0;
+    } else if (lastSet.reps < targetReps) {
+      reasons.push('REPS_BELOW_TARGET');
+      nextWeight = roundTo(lastSet.weight * (1 - FATIGUE_DROP_THRESHOLD), increment);
+    } else {
+      nextWeight = lastSet.weight;
+    }
+  } else {
+    reasons.push(
+      fatigue === 'LOW'
+        ? 'RPE_BELOW_TARGET'
+        : rpe > targetRpe
+          ? 'RPE_ABOVE_TARGET'
+          : 'RPE_ON_TARGET'
+    );
+
+    const rawWeight = estimatedOneRepMax * rpeToPercentage(targetReps, targetRpe);
+    const minWeight = lastSet.weight * (1 - MAX_LOAD_CHANGE);
+    const maxWeight = lastSet.weight * (1 + MAX_LOAD_CHANGE);
+    if (rawWeight < minWeight || rawWeight > maxWeight) {
+      reasons.push('CHANGE_CAPPED');
+    }
+    nextWeight = roundTo(Math.min(maxWeight, Math.max(minWeight, rawWeight)), increment);
+
+    // Set al cedimento sotto il target: si scende anche di ripetizioni
+    if (fatigue === 'EXCESSIVE' && lastSet.reps < targetReps) {
+      nextReps = Math.max(1, lastSet.reps);
+    }
+  }
+
+  if (performanceChange !== null && performanceChange <= -FATIGUE_STOP_THRESHOLD) {
+    reasons.push('FATIGUE_STOP');
+  } else if (performanceChange !== null && performanceChange <= -FATIGUE_DROP_THRESHOLD) {
+    // Prestazione sotto la sessione precedente: niente aumenti
+    reasons.push('FATIGUE_DROP');
+    nextWeight = Math.min(
+      nextWeight,
+      roundTo(lastSet.weight * (1 - FATIGUE_DROP_THRESHOLD), increment)
+    );
+  }
+
+  // La readiness limita il carico rispetto al riferimento e non all'ultimo set:
+  // seguendo il suggerimento, la riduzione non si somma set dopo set
+  const loadMultiplier = input.loadMultiplier ?? 1;
+  if (loadMultiplier < 1 && nextWeight > 0) {
+    const referenceWeight = input.referenceWeight ?? previousSession?.weight ?? lastSet.weight;
+    const readinessCap = roundTo(referenceWeight * loadMultiplier, increment);
+    if (nextWeight > readinessCap) {
+      reasons.push('LOW_READINESS');
+      nextWeight = readinessCap;
+    }
+  }
+
+  if (input.recordedOneRepMax && nextWeight > input.recordedOneRepMax) {
+    reasons.push('ABOVE_RECORDED_MAX');
+  }
+
+  if (reasons.includes('FATIGUE_STOP')) {
+    action = 'STOP';
+  } else if (nextWeight > lastSet.weight) {
+    action = 'INCREASE';
+  } else if (nextWeight < lastSet.weight || nextReps < targetReps) {
+    action = 'DECREASE';
+  } else {
+    action = 'MAINTAIN';
+  }
+
+  return {
+    action,
+    nextWeight: Math.max(0, nextWeight),
+    nextReps,
+    targetRpe,
+    restSeconds: recommendRestSeconds(targetReps, rpe),
+    fatigue,
+    estimatedOneRepMax,
+    referenceOneRepMax,
+    performanceChange: performanceChange !== null ? roundPercentage(performanceChange) : null,
+    percentOfOneRepMax:
+      referenceOneRepMax || estimatedOneRepMax
+        ? roundPercentage(nextWeight / (referenceOneRepMax ?? estimatedOneRepMax!))
+        : null,
+    previousSession,
+    reasons,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Exercise Search Synonyms
+ *
+ * Gruppi di nomi equivalenti (gergo da palestra, abbreviazioni, nomi in altre lingue)
+ * usati per espandere le query di ricerca esercizi, in aggiunta ai searchTerms delle traduzioni.
+ */
+
+import type { SearchSynonymGroups } from '@onecoach/lib-core/db/full-text-search';
+
+export const EXERCISE_SEARCH_SYNONYMS: SearchSynonymGroups = [
+  ['panca piana', 'distensioni su panca', 'bench press', 'flat bench press', 'press de banca'],
+  ['panca inclinata', 'incline bench press', 'incline press'],
+  ['stacco da terra', 'stacchi', 'deadlift', 'peso muerto'],
+  ['stacco rumeno', 'romanian deadlift', 'rdl'],
+  ['squat', 'accosciata', 'back squat', 'sentadilla'],
+  ['trazioni', 'trazioni alla sbarra', 'pull up', 'pull-up', 'pullup', 'dominadas'],
+  ['trazioni presa supina', 'chin up', 'chin-up', 'chinup'],
+  ['lat machine', 'lat pulldown', 'pulldown'],
+  ['rematore', 'rematore con bilanciere', 'barbell row', 'bent over row', 'remo'],
+  ['lento avanti', 'military press', 'overhead press', 'ohp', 'shoulder press'],
+  ['affondi', 'affondo', 'lunge', 'lunges', 'zancadas'],
+  ['piegamenti', 'flessioni', 'push up', 'push-up', 'pushup'],
+  ['dip', 'dips', 'parallele', 'fondos'],
+  ['curl bicipiti', 'curl con bilanciere', 'bicep curl', 'biceps curl'],
+  ['french press', 'skull crusher', 'skullcrusher', 'estensioni tricipiti'],
+  ['hip thrust', 'ponte glutei', 'glute bridge'],
+  ['alzate laterali', 'lateral raise', 'lateral raises', 'side raise'],
+  ['leg press', 'pressa', 'pressa orizzontale'],
+  ['plank', 'plancia', 'tenuta isometrica'],
+];
@@ -1,4 +1,13 @@
 import { prisma } from '@onecoach/lib-core';
+import {
+  buildFullTextSearchSql,
+  expandSearchTerms,
+  prepareSearchTerm,
+  toSearchHighlight,
+  type FullTextSearchRow,
+  type FullTextSearchSql,
+  type SearchHighlight,
+} from '@onecoach/lib-core/db/full-text-search';
 import { createId, toSlug } from '@onecoach/lib-shared/utils';
 import type {
   CreateExerciseInput,
@@ -12,6 +21,7 @@ import type { LocalizedExercise, ExerciseTranslationView } from '@onecoach/types
 import type { Operation } from 'fast-json-patch';
 import { compare } from 'fast-json-patch';
 import { SimpleCache } from '@onecoach/lib-shared';
+import { EXERCISE_SEARCH_SYNONYMS } from './exercise-search-synonyms';
 
 const DEFAULT_LOCALE = 'en';
 // Cache disabilitata per debug e consistenza dati
@@ -162,10 +172,16 @@ type ExerciseListResult = Omit<ExercisesResponse, 'data'> & {
   total: number;
 };
 
-interface SearchResultRow {
-  id: string;
-  rank: number;
-  has_locale: boolean;
+/**
+ * Esercizio trovato dalla ricerca con i campi evidenziati della traduzione che ha prodotto il match
+ */
+export type ExerciseSearchHit = LocalizedExercise & { highlight: SearchHighlight };
+
+export interface ExerciseSearchResult {
+  data: ExerciseSearchHit[];
+  page: number;
+  pageSize: number;
+  total: number;
 }
 
 const listCache = new SimpleCache<string, ExerciseListResult>({
@@ -201,7 +217,7 @@ export class ExerciseService {
     const { locale, page, pageSize, search, includeTranslations, ...filters } = sanitized;
 
     if (search) {
-      const total = await this.countSearchFullText(search, { locale, filters });
+      const total = await this.countSearchFullText(search, { filters });
 
       if (total === 0) {
         return {
@@ -219,23 +235,8 @@ export class ExerciseService {
         filters,
       });
 
-      const pageIds = searchResults.map((row) => row.id);
-
-      const exercises = await prisma.exercises.findMany({
-        where: {
-          id: { in: pageIds },
-        },
-        select: EXERCISE_LIST_SELECT,
-      });
-
-      const exerciseById = new Map(exercises.map((exercise: any) => [exercise.id, exercise]));
-      const localized = pageIds
-        .map((id: any) => exerciseById.get(id))
-        .filter((exercise): exercise is ExerciseListRow => Boolean(exercise))
-        .map((exercise: any) => this.mapListRowToLocalized(exercise, locale));
-
       const result: ExerciseListResult = {
-        data: localized,
+        data: await this.loadSearchHits(searchResults, locale),
         page,
         pageSize,
         total,
@@ -272,42 +273,36 @@ export class ExerciseService {
     return result;
   }
 
+  /**
+   * Ricerca paginata con totale, sinonimi, fallback fuzzy e campi evidenziati
+   */
   static async search(
     term: string,
     options: Omit<ExerciseQueryParams, 'search'>
-  ): Promise<LocalizedExercise[]> {
+  ): Promise<ExerciseSearchResult> {
     const { locale, page, pageSize, ...filters } = this.sanitizeListOptions({
       ...options,
       search: term,
     });
+
+    const total = await this.countSearchFullText(term, { filters });
+    if (total === 0) {
+      return { data: [], page, pageSize, total };
+    }
+
     const searchResults = await this.searchFullText(term, {
       locale,
       limit: pageSize,
       offset: (page - 1) * pageSize,
       filters,
     });
-    
-    // Note: search() method returns just the paginated slice as LocalizedExercise[] without total count
-    // This maintains backward compatibility with the existing method signature
-    const uniqueIds = Array.from(new Set(searchResults.map((row: any) => row.id)));
-    const pageIds = uniqueIds; // searchFullText now returns paginated results directly without extra duplicates
 
-    if (!pageIds.length) {
-      return [];
-    }
-
-    // Usa select ottimizzata anche per la ricerca
-    const exercises = await prisma.exercises.findMany({
-      where: { id: { in: pageIds } },
-      select: EXERCISE_LIST_SELECT,
-    });
-
-    const exerciseById = new Map(exercises.map((exercise: any) => [exercise.id, exercise]));
-
-    return pageIds
-      .map((id: any) => exerciseById.get(id))
-      .filter((exercise): exercise is ExerciseListRow => Boolean(exercise))
-      .map((exercise: any) => this.mapListRowToLocalized(exercise, locale));
+    return {
+      data: await this.loadSearchHits(searchResults, locale),
+      page,
+      pageSize,
+      total,
+    };
   }
 
   static async getById(
@@ -999,29 +994,75 @@ export class ExerciseService {
     return where;
   }
 
+  /**
+   * Carica gli esercizi della pagina mantenendo l'ordine di rank
+   */
+  private static async loadSearchHits(
+    rows: FullTextSearchRow[],
+    locale: string
+  ): Promise<ExerciseSearchHit[]> {
+    if (!rows.length) {
+      return [];
+    }
+
+    // Usa select ottimizzata anche per la ricerca
+    const exercises = await prisma.exercises.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      select: EXERCISE_LIST_SELECT,
+    });
+
+    const exerciseById = new Map<string, ExerciseListRow>(
+      exercises.map((exercise: ExerciseListRow) => [exercise.id, exercise])
+    );
+    return rows.flatMap((row) => {
+      const exercise = exerciseById.get(row.id);
+      return exercise
+        ? [{ ...this.mapListRowToLocalized(exercise, locale), highlight: toSearchHighlight(row) }]
+        : [];
+    });
+  }
+
+  /**
+   * Frammenti SQL di ricerca sulle traduzioni (nome, descrizione e searchTerms come alias)
+   */
+  private static buildSearchSql(query: string, terms: string[]): FullTextSearchSql {
+    return buildFullTextSearchSql(query, terms, {
+      locale: Prisma.sql`et."locale"`,
+      name: Prisma.sql`et.name`,
+      description: Prisma.sql`et.description`,
+      aliases: Prisma.sql`array_to_string(et."searchTerms", ' ')`,
+    });
+  }
+
   private static async countSearchFullText(
     term: string,
     options: {
-      locale: string;
       filters: Partial<ExerciseQueryParams>;
     }
   ): Promise<number> {
-    const whereClause = this.getSearchConditions(term, options.locale, options.filters);
+    const query = prepareSearchTerm(term);
+    if (!query) {
+      return 0;
+    }
+
+    const search = this.buildSearchSql(query, expandSearchTerms(query, EXERCISE_SEARCH_SYNONYMS));
+    const whereClause = this.getSearchConditions(search, options.filters);
 
-    // Using a subquery because of the GROUP BY in the full text search logic
     const result = await prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`
-      SELECT COUNT(*)::bigint as count FROM (
-        SELECT e.id
-        FROM "exercises" e
-        INNER JOIN "exercise_translations" et ON et."exerciseId" = e.id
-        WHERE ${whereClause}
-        GROUP BY e.id
-      ) as sub
+      SELECT COUNT(DISTINCT e.id)::bigint as count
+      FROM "exercises" e
+      INNER JOIN "exercise_translations" et ON et."exerciseId" = e.id
+      WHERE ${whereClause}
     `);
 
     return Number(result[0]?.count ?? 0);
   }
 
+  /**
+   * Ricerca full-text su tutte le traduzioni (i nomi in altre lingue fanno da alias):
+   * configurazione text search per locale della traduzione, match fuzzy dopo quelli testuali,
+   * traduzioni nel locale richiesto pesate di più
+   */
   private static async searchFullText(
     term: string,
     options: {
@@ -1030,55 +1071,60 @@ export class ExerciseService {
       offset: number;
       filters: Partial<ExerciseQueryParams>;
     }
-  ): Promise<SearchResultRow[]> {
-    const query = term.trim();
+  ): Promise<FullTextSearchRow[]> {
+    const query = prepareSearchTerm(term);
     if (!query) {
       return [];
     }
 
+    const terms = expandSearchTerms(query, EXERCISE_SEARCH_SYNONYMS);
+    const search = this.buildSearchSql(query, terms);
+    const whereClause = this.getSearchConditions(search, options.filters);
+    // Evidenziazione calcolata solo sulla pagina, sulla traduzione migliore
+    const highlight = buildFullTextSearchSql(query, terms, {
+      locale: Prisma.sql`matches.matched_locale`,
+      name: Prisma.sql`matches.name`,
+      description: Prisma.sql`matches.description`,
+    });
 
-    // Use dynamic to_tsvector (like Food service) instead of indexed column
-    // This is more reliable as it doesn't require a pre-populated column
-    const preparedTerm = query.replace(/[:!&|']/g, ' ');
-    const whereClause = this.getSearchConditions(term, options.locale, options.filters);
-
-    const rows = await prisma.$queryRaw<SearchResultRow[]>(Prisma.sql`
+    return prisma.$queryRaw<FullTextSearchRow[]>(Prisma.sql`
       SELECT
-        e.id AS id,
-        MAX(CASE WHEN et."locale" = ${options.locale} THEN 1 ELSE 0 END)::boolean AS has_locale,
-        MAX(
-          ts_rank_cd(
-            to_tsvector('italian', et.name || ' ' || COALESCE(et.description, '')),
-            plainto_tsquery('italian', ${preparedTerm})
-          ) * CASE 
+        matches.id,
+        matches.rank,
+        matches.has_locale,
+        matches.fuzzy,
+        matches.matched_locale,
+        ${highlight.highlightName} AS highlight_name,
+        ${highlight.highlightDescription} AS highlight_description
+      FROM (
+        SELECT DISTINCT ON (e.id)
+          e.id AS id,
+          e."createdAt" AS created_at,
+          et."locale" AS matched_locale,
+          et.name AS name,
+          et.description AS description,
+          et."locale" = ${options.locale} AS has_locale,
+          NOT ${search.textMatch} AS fuzzy,
+          ${search.rank} * CASE
             WHEN et."locale" = ${options.locale} THEN 2.0
             WHEN et."locale" = ${DEFAULT_LOCALE} THEN 1.0
             ELSE 0.5
-          END
-        ) AS rank
-      FROM "exercises" e
-      INNER JOIN "exercise_translations" et ON et."exerciseId" = e.id
-      WHERE ${whereClause}
-      GROUP BY e.id
-      ORDER BY rank DESC, e."createdAt" DESC
+          END AS rank
+        FROM "exercises" e
+        INNER JOIN "exercise_translations" et ON et."exerciseId" = e.id
+        WHERE ${whereClause}
+        ORDER BY e.id, fuzzy ASC, rank DESC
+      ) AS matches
+      ORDER BY matches.fuzzy ASC, matches.rank DESC, matches.created_at DESC
       LIMIT ${options.limit} OFFSET ${options.offset}
     `);
-
-    return rows;
   }
 
   private static getSearchConditions(
-    term: string,
-    locale: string,
+    search: FullTextSearchSql,
     filters: Partial<ExerciseQueryParams>
   ): Prisma.Sql {
-    const query = term.trim();
-    const preparedTerm = query.replace(/[:!&|']/g, ' ');
-
-    const conditions: Prisma.Sql[] = [
-      Prisma.sql`(et."locale" = ${locale} OR et."locale" = ${DEFAULT_LOCALE})`,
-      Prisma.sql`to_tsvector('italian', et.name || ' ' || COALESCE(et.description, '')) @@ plainto_tsquery('italian', ${preparedTerm})`,
-    ];
+    const conditions: Prisma.Sql[] = [search.match];
 
     if (!filters.includeUnapproved) {
       conditions.push(Prisma.sql`e."approvalStatus" = 'APPROVED'::"ExerciseApprovalStatus"`);
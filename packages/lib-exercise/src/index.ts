@@ -9,6 +9,10 @@ export * from './exercise.service';
 export * from './exercise-admin.service';
 export * from './exercise-id-resolver.service';
 export * from './one-rep-max.service';
+export * from './one-rep-max-estimator.service';
+export * from './strength-estimation';
+export * from './autoregulation';
+export * from './personal-records';
 
 // Re-export types for convenience
 export type { LocalizedExercise, ExerciseTranslationView } from '@onecoach/types';
@@ -0,0 +1,356 @@
+/**
+ * One Rep Max Estimator Service
+ *
+ * Massimali stimati (e1RM) dai set registrati in exercise_performance_records:
+ * - proposte di aggiornamento di user_one_rep_max quando compare un nuovo best
+ *   (accettandole si passa da OneRepMaxService.upsert, che crea la versione)
+ * - classificazione dei lift rispetto agli standard relativi al peso corporeo
+ *
+ * NOMENCLATURA:
+ * - catalogExerciseId: ID dell'esercizio nel catalogo (exercises.id)
+ */
+
+import { prisma, logger } from '@onecoach/lib-core';
+import type { user_one_rep_max_proposals } from '@prisma/client';
+import { OneRepMaxService, type ServiceResult } from './one-rep-max.service';
+import type { UserOneRepMaxWithExercise } from '@onecoach/types';
+import {
+  bestOneRepMaxEstimate,
+  classifyStrength,
+  resolveStrengthLift,
+  type OneRepMaxFormula,
+  type StrengthClassification,
+  type StrengthStandardSex,
+} from './strength-estimation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Finestra di default per la ricerca di nuovi best */
+const DEFAULT_LOOKBACK_DAYS = 90;
+/** Miglioramento minimo rispetto al massimale salvato per proporre un aggiornamento */
+const MIN_IMPROVEMENT_KG = 0.5;
+
+export type OneRepMaxProposal = Omit<
+  user_one_rep_max_proposals,
+  'estimatedOneRepMax' | 'currentOneRepMax' | 'weight' | 'rpe'
+> & {
+  estimatedOneRepMax: number;
+  currentOneRepMax: number | null;
+  weight: number;
+  rpe: number | null;
+};
+
+export interface DetectNewBestsOptions {
+  catalogExerciseIds?: string[];
+  since?: Date;
+  formula?: OneRepMaxFormula;
+}
+
+export interface LiftStrengthStandard extends StrengthClassification {
+  catalogExerciseId: string;
+  oneRepMax: number;
+  /** Fonte del massimale usato: salvato o stimato dai set recenti */
+  source: 'RECORDED' | 'ESTIMATED';
+}
+
+function toProposal(proposal: user_one_rep_max_proposals): OneRepMaxProposal {
+  return {
+    ...proposal,
+    estimatedOneRepMax: Number(proposal.estimatedOneRepMax),
+    currentOneRepMax:
+      proposal.currentOneRepMax !== null ? Number(proposal.currentOneRepMax) : null,
+    weight: Number(proposal.weight),
+    rpe: proposal.rpe !== null ? Number(proposal.rpe) : null,
+  };
+}
+
+export class OneRepMaxEstimatorService {
+  /**
+   * Miglior e1RM per esercizio dai set registrati dopo `since`
+   */
+  private static async findBestEstimates(userId: string, options: DetectNewBestsOptions) {
+    const since = options.since ?? new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * DAY_MS);
+
+    const records = await prisma.exercise_performance_records.findMany({
+      where: {
+        userId,
+        date: { gte: since },
+        ...(options.catalogExerciseIds?.length && {
+          exerciseId: { in: options.catalogExerciseIds },
+        }),
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const byExercise = new Map<string, typeof records>();
+    for (const record of records) {
+      const list = byExercise.get(record.exerciseId) ?? [];
+      list.push(record);
+      byExercise.set(record.exerciseId, list);
+    }
+
+    return Array.from(byExercise.entries()).flatMap(([exerciseId, exerciseRecords]) => {
+      const best = bestOneRepMaxEstimate(
+        exerciseRecords.map((record) => ({
+          record,
+          weight: Number(record.weight),
+          reps: record.reps,
+          rpe: record.rpe !== null ? Number(record.rpe) : null,
+        })),
+        options.formula
+      );
+      return best ? [{ exerciseId, ...best }] : [];
+    });
+  }
+
+  /**
+   * Cerca nuovi best nei set registrati e crea (o aggiorna) le proposte pendenti.
+   * Un set già proposto, o un valore non superiore a una proposta accettata o
+   * rifiutata, non genera una nuova proposta.
+   */
+  static async detectNewBests(
+    userId: string,
+    options: DetectNewBestsOptions = {}
+  ): Promise<ServiceResult<OneRepMaxProposal[]>> {
+    try {
+      const estimates = await this.findBestEstimates(userId, options);
+      if (estimates.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const exerciseIds = estimates.map((e) => e.exerciseId);
+      const [maxes, previous] = await Promise.all([
+        prisma.user_one_rep_max.findMany({
+          where: { userId, exerciseId: { in: exerciseIds } },
+        }),
+        prisma.user_one_rep_max_proposals.findMany({
+          where: { userId, exerciseId: { in: exerciseIds } },
+        }),
+      ]);
+      const maxByExercise = new Map(maxes.map((m) => [m.exerciseId, Number(m.oneRepMax)]));
+      const pendingByExercise = new Map(
+        previous.filter((p) => p.status === 'PENDING').map((p) => [p.exerciseId, p])
+      );
+
+      // Le proposte già accettate o rifiutate non vengono riproposte
+      const resolved = previous.filter((p) => p.status !== 'PENDING');
+      const resolvedRecordIds = new Set(resolved.map((p) => p.sourceRecordId));
+      const resolvedBestByExercise = new Map<string, number>();
+      for (const proposal of resolved) {
+        const value = Number(proposal.estimatedOneRepMax);
+        const best = resolvedBestByExercise.get(proposal.exerciseId);
+        if (best === undefined || value > best) {
+          resolvedBestByExercise.set(proposal.exerciseId, value);
+        }
+      }
+
+      const proposals: OneRepMaxProposal[] = [];
+
+      for (const estimate of estimates) {
+        const current = maxByExercise.get(estimate.exerciseId) ?? null;
+        if (current !== null && estimate.oneRepMax < current + MIN_IMPROVEMENT_KG) continue;
+
+        if (resolvedRecordIds.has(estimate.set.record.id)) continue;
+        const resolvedBest = resolvedBestByExercise.get(estimate.exerciseId);
+        if (resolvedBest !== undefined && estimate.oneRepMax <= resolvedBest) continue;
+
+        const existing = pendingByExercise.get(estimate.exerciseId);
+        if (existing && Number(existing.estimatedOneRepMax) >= estimate.oneRepMax) continue;
+
+        const data = {
+          estimatedOneRepMax: estimate.oneRepMax,
+          currentOneRepMax: current,
+          formula: estimate.formula,
+          sourceRecordId: estimate.set.record.id,
+          weight: estimate.set.weight,
+          reps: estimate.set.reps,
+          rpe: estimate.set.rpe ?? null,
+          performedAt: estimate.set.record.date,
+        };
+
+        const proposal = existing
+          ? await prisma.user_one_rep_max_proposals.update({ where: { id: existing.id }, data })
+          : await prisma.user_one_rep_max_proposals.create({
+              data: { userId, exerciseId: estimate.exerciseId, status: 'PENDING', ...data },
+            });
+
+        proposals.push(toProposal(proposal));
+      }
+
+      return { success: true, data: proposals };
+    } catch (error: unknown) {
+      logger.error('[OneRepMaxEstimatorService.detectNewBests]', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore nella stima dei massimali',
+      };
+    }
+  }
+
+  /**
+   * Proposte pendenti dell'utente, dalla più recente
+   */
+  static async getPendingProposals(userId: string): Promise<ServiceResult<OneRepMaxProposal[]>> {
+    try {
+      const proposals = await prisma.user_one_rep_max_proposals.findMany({
+        where: { userId, status: 'PENDING' },
+        orderBy: { performedAt: 'desc' },
+      });
+
+      return { success: true, data: proposals.map(toProposal) };
+    } catch (error: unknown) {
+      logger.error('[OneRepMaxEstimatorService.getPendingProposals]', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore nel recupero delle proposte',
+      };
+    }
+  }
+
+  /**
+   * Accetta la proposta: aggiorna il massimale (con nuova versione)
+   */
+  static async acceptProposal(
+    userId: string,
+    proposalId: string
+  ): Promise<ServiceResult<UserOneRepMaxWithExercise>> {
+    try {
+      const proposal = await prisma.user_one_rep_max_proposals.findFirst({
+        where: { id: proposalId, userId, status: 'PENDING' },
+      });
+
+      if (!proposal) {
+        return { success: false, error: 'Proposta non trovata' };
+      }
+
+      const rpe = proposal.rpe !== null ? ` @ RPE ${Number(proposal.rpe)}` : '';
+      const result = await OneRepMaxService.upsert(userId, {
+        catalogExerciseId: proposal.exerciseId,
+        oneRepMax: Number(proposal.estimatedOneRepMax),
+        notes: `Stimato (${proposal.formula}) da ${Number(proposal.weight)} kg × ${proposal.reps}${rpe}`,
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      await prisma.user_one_rep_max_proposals.update({
+        where: { id: proposal.id },
+        data: { status: 'ACCEPTED', resolvedAt: new Date() },
+      });
+
+      return result;
+    } catch (error: unknown) {
+      logger.error('[OneRepMaxEstimatorService.acceptProposal]', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Errore nell'accettazione della proposta",
+      };
+    }
+  }
+
+  static async dismissProposal(userId: string, proposalId: string): Promise<ServiceResult<void>> {
+    try {
+      const { count } = await prisma.user_one_rep_max_proposals.updateMany({
+        where: { id: proposalId, userId, status: 'PENDING' },
+        data: { status: 'DISMISSED', resolvedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return { success: false, error: 'Proposta non trovata' };
+      }
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error('[OneRepMaxEstimatorService.dismissProposal]', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore nel rifiuto della proposta',
+      };
+    }
+  }
+
+  /**
+   * Classifica i lift principali dell'utente rispetto agli standard.
+   * Usa il maggiore tra massimale salvato e e1RM recente.
+   */
+  static async getStrengthStandards(
+    userId: string,
+    options: { sex?: StrengthStandardSex; formula?: OneRepMaxFormula } = {}
+  ): Promise<ServiceResult<LiftStrengthStandard[]>> {
+    try {
+      const [profile, measurement] = await Promise.all([
+        prisma.user_profiles.findUnique({
+          where: { userId },
+          select: { sex: true, weightKg: true },
+        }),
+        prisma.body_measurements.findFirst({
+          where: { userId, weight: { not: null } },
+          orderBy: { date: 'desc' },
+          select: { weight: true },
+        }),
+      ]);
+
+      const bodyweight = Number(measurement?.weight ?? profile?.weightKg ?? 0);
+      if (!(bodyweight > 0)) {
+        return { success: false, error: 'Peso corporeo non disponibile' };
+      }
+
+      const sex =
+        options.sex ??
+        (profile?.sex === 'MALE' || profile?.sex === 'FEMALE' ? profile.sex : undefined);
+      if (!sex) {
+        return { success: false, error: 'Sesso non impostato nel profilo' };
+      }
+
+      const [maxes, estimates] = await Promise.all([
+        prisma.user_one_rep_max.findMany({
+          where: { userId },
+          include: { exercises: { select: { slug: true } } },
+        }),
+        this.findBestEstimates(userId, { formula: options.formula }),
+      ]);
+
+      const candidates = new Map<string, { oneRepMax: number; source: 'RECORDED' | 'ESTIMATED' }>();
+      for (const max of maxes) {
+        candidates.set(max.exerciseId, { oneRepMax: Number(max.oneRepMax), source: 'RECORDED' });
+      }
+      for (const estimate of estimates) {
+        const recorded = candidates.get(estimate.exerciseId);
+        if (!recorded || estimate.oneRepMax > recorded.oneRepMax) {
+          candidates.set(estimate.exerciseId, { oneRepMax: estimate.oneRepMax, source: 'ESTIMATED' });
+        }
+      }
+
+      const slugs = new Map(maxes.map((m) => [m.exerciseId, m.exercises.slug]));
+      const missing = [...candidates.keys()].filter((id) => !slugs.has(id));
+      if (missing.length > 0) {
+        const exercises = await prisma.exercises.findMany({
+          where: { id: { in: missing } },
+          select: { id: true, slug: true },
+        });
+        for (const exercise of exercises) slugs.set(exercise.id, exercise.slug);
+      }
+
+      const standards: LiftStrengthStandard[] = [];
+      for (const [catalogExerciseId, { oneRepMax, source }] of candidates) {
+        const lift = resolveStrengthLift(slugs.get(catalogExerciseId) ?? '');
+        if (!lift) continue;
+
+        standards.push({
+          catalogExerciseId,
+          oneRepMax,
+          source,
+          ...classifyStrength(lift, oneRepMax, bodyweight, sex),
+        });
+      }
+
+      return { success: true, data: standards };
+    } catch (error: unknown) {
+      logger.error('[OneRepMaxEstimatorService.getStrengthStandards]', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Errore nel calcolo degli standard',
+      };
+    }
+  }
+}
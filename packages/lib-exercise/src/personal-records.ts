@@ -0,0 +1,164 @@
+/**
+ * Personal Records
+ *
+ * Rilevamento puro dei record personali di una sessione rispetto ai best storici:
+ * - REP_MAX: peso più alto sollevato per almeno N ripetizioni (1RM, 3RM, 5RM, 10RM)
+ * - ESTIMATED_ONE_REP_MAX: miglior e1RM dei set (vedi strength-estimation)
+ * - SET_VOLUME: miglior volume di un singolo set (peso × ripetizioni)
+ * - SESSION_VOLUME: volume totale dell'esercizio nella sessione
+ *
+ * Un set da 6 ripetizioni vale anche per 5RM, 3RM e 1RM. Gli esercizi a corpo
+ * libero (peso 0) non generano record.
+ */
+
+import { estimateOneRepMax, type EstimationSet } from './strength-estimation';
+
+export type PersonalRecordType =
+  | 'REP_MAX'
+  | 'ESTIMATED_ONE_REP_MAX'
+  | 'SET_VOLUME'
+  | 'SESSION_VOLUME';
+
+export const REP_MAX_TARGETS = [1, 3, 5, 10] as const;
+
+export interface PersonalRecordBest {
+  recordType: PersonalRecordType;
+  /** Ripetizioni del rep max (null per gli altri tipi) */
+  reps: number | null;
+  value: number;
+}
+
+export interface SessionPersonalBest extends PersonalRecordBest {
+  /** Set che ha prodotto il valore (null per SESSION_VOLUME) */
+  weight: number | null;
+  setReps: number | null;
+}
+
+export interface DetectedPersonalRecord extends SessionPersonalBest {
+  /** Best precedente; null al primo valore registrato */
+  previousValue: number | null;
+  /** Miglioramento % rispetto al best precedente */
+  improvement: number | null;
+}
+
+function roundValue(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Chiave univoca del record (tipo + ripetizioni)
+ */
+export function personalRecordKey(recordType: PersonalRecordType, reps: number | null): string {
+  return reps !== null ? `${recordType}:${reps}` : recordType;
+}
+
+/**
+ * Etichetta breve per notifiche e timeline (es. "5RM", "e1RM")
+ */
+export function personalRecordLabel(recordType: PersonalRecordType, reps: number | null): string {
+  switch (recordType) {
+    case 'REP_MAX':
+      return `${reps}RM`;
+    case 'ESTIMATED_ONE_REP_MAX':
+      return 'e1RM';
+    case 'SET_VOLUME':
+      return 'volume set';
+    case 'SESSION_VOLUME':
+      return 'volume sessione';
+  }
+}
+
+/**
+ * Best di una sessione per un esercizio, uno per chiave
+ */
+export function computeSessionBests(sets: EstimationSet[]): SessionPersonalBest[] {
+  const valid = sets.filter((set) => set.weight > 0 && set.reps > 0);
+  if (valid.length === 0) return [];
+
+  const bests: SessionPersonalBest[] = [];
+  const keep = (candidate: SessionPersonalBest) => {
+    const index = bests.findIndex(
+      (best) => best.recordType === candidate.recordType && best.reps === candidate.reps
+    );
+    if (index === -1) {
+      bests.push(candidate);
+    } else if (candidate.value > bests[index]!.value) {
+      bests[index] = candidate;
+    }
+  };
+
+  for (const set of valid) {
+    for (const target of REP_MAX_TARGETS) {
+      if (set.reps >= target) {
+        keep({
+          recordType: 'REP_MAX',
+          reps: target,
+          value: set.weight,
+          weight: set.weight,
+          setReps: set.reps,
+        });
+      }
+    }
+
+    const estimate = estimateOneRepMax(set);
+    if (estimate) {
+      keep({
+        recordType: 'ESTIMATED_ONE_REP_MAX',
+        reps: null,
+        value: estimate.oneRepMax,
+        weight: set.weight,
+        setReps: set.reps,
+      });
+    }
+
+    keep({
+      recordType: 'SET_VOLUME',
+      reps: null,
+      value: roundValue(set.weight * set.reps),
+      weight: set.weight,
+      setReps: set.reps,
+    });
+  }
+
+  bests.push({
+    recordType: 'SESSION_VOLUME',
+    reps: null,
+    value: roundValue(valid.reduce((sum, set) => sum + set.weight * set.reps, 0)),
+    weight: null,
+    setReps: null,
+  });
+
+  return bests;
+}
+
+/**
+ * Record della sessione che superano i best storici dell'esercizio.
+ * Senza storico per una chiave il valore viene restituito con previousValue null
+ * (baseline da salvare, non da celebrare).
+ */
+export function detectPersonalRecords(
+  sets: EstimationSet[],
+  previousBests: PersonalRecordBest[]
+): DetectedPersonalRecord[] {
+  const previousByKey = new Map<string, number>();
+  for (const best of previousBests) {
+    const key = personalRecordKey(best.recordType, best.reps);
+    previousByKey.set(key, Math.max(previousByKey.get(key) ?? 0, best.value));
+  }
+
+  const records: DetectedPersonalRecord[] = [];
+  for (const best of computeSessionBests(sets)) {
+    const previousValue = previousByKey.get(personalRecordKey(best.recordType, best.reps));
+    if (previousValue === undefined) {
+      records.push({ ...best, previousValue: null, improvement: null });
+    } else if (best.value > previousValue) {
+      records.push({
+        ...best,
+        previousValue,
+        improvement: roundValue(((best.value - previousValue) / previousValue) * 100),
+      });
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,209 @@
+/**
+ * Strength Estimation
+ *
+ * Calcoli puri per il massimale stimato (e1RM) a partire dai set registrati
+ * e per la classificazione dei massimali rispetto al peso corporeo.
+ *
+ * Formule:
+ * - EPLEY: peso × (1 + reps / 30)
+ * - BRZYCKI: peso × 36 / (37 − reps)
+ * - RPE: tabella %1RM in funzione di reps + RIR (RIR = 10 − RPE)
+ * - AUTO: RPE se il set ha RPE/RIR, altrimenti Epley
+ *
+ * Le stime oltre MAX_ESTIMATION_REPS ripetizioni (incluso il RIR) sono troppo
+ * imprecise e vengono scartate.
+ */
+
+export type OneRepMaxFormula = 'EPLEY' | 'BRZYCKI' | 'RPE' | 'AUTO';
+
+export const ONE_REP_MAX_FORMULAS: OneRepMaxFormula[] = ['AUTO', 'EPLEY', 'BRZYCKI', 'RPE'];
+
+export const MAX_ESTIMATION_REPS = 12;
+
+export interface EstimationSet {
+  weight: number;
+  reps: number;
+  /** Rate of Perceived Exertion (6-10) */
+  rpe?: number | null;
+  /** Reps In Reserve, alternativo a RPE */
+  rir?: number | null;
+}
+
+export interface OneRepMaxEstimate {
+  oneRepMax: number;
+  formula: Exclude<OneRepMaxFormula, 'AUTO'>;
+}
+
+/**
+ * %1RM a RPE 10 per 1..12 ripetizioni (tabella RTS). Con RIR > 0 si legge
+ * la colonna delle ripetizioni equivalenti (reps + RIR).
+ */
+const RPE_10_PERCENTAGES = [
+  1.0, 0.955, 0.922, 0.892, 0.863, 0.837, 0.811, 0.786, 0.762, 0.739, 0.707, 0.68,
+];
+
+function roundEstimate(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function repsInReserve(set: EstimationSet): number | null {
+  if (set.rir !== null && set.rir !== undefined) return Math.max(0, set.rir);
+  if (set.rpe !== null && set.rpe !== undefined) return Math.max(0, 10 - set.rpe);
+  return null;
+}
+
+/**
+ * %1RM per ripetizioni equivalenti (reps + RIR); null fuori tabella
+ */
+export function rpeTablePercentage(effectiveReps: number): number | null {
+  if (effectiveReps < 1 || effectiveReps > RPE_10_PERCENTAGES.length) return null;
+
+  // RPE a mezzi punti: interpolazione lineare tra le colonne adiacenti
+  const lower = Math.floor(effectiveReps);
+  const upper = Math.ceil(effectiveReps);
+  const lowerPct = RPE_10_PERCENTAGES[lower - 1]!;
+  const upperPct = RPE_10_PERCENTAGES[upper - 1]!;
+  return lowerPct + (upperPct - lowerPct) * (effectiveReps - lower);
+}
+
+/**
+ * Stima il massimale da un singolo set; null se il set non è stimabile
+ */
+export function estimateOneRepMax(
+  set: EstimationSet,
+  formula: OneRepMaxFormula = 'AUTO'
+): OneRepMaxEstimate | null {
+  const { weight, reps } = set;
+  if (!(weight > 0) || !Number.isInteger(reps) || reps < 1) return null;
+
+  const rir = repsInReserve(set);
+  const useRpe = formula === 'RPE' || (formula === 'AUTO' && rir !== null);
+
+  if (useRpe) {
+    if (rir === null) return null;
+    const percentage = rpeTablePercentage(reps + rir);
+    return percentage ? { oneRepMax: roundEstimate(weight / percentage), formula: 'RPE' } : null;
+  }
+
+  if (reps > MAX_ESTIMATION_REPS) return null;
+  if (reps === 1) {
+    return { oneRepMax: weight, formula: formula === 'BRZYCKI' ? 'BRZYCKI' : 'EPLEY' };
+  }
+
+  if (formula === 'BRZYCKI') {
+    return { oneRepMax: roundEstimate((weight * 36) / (37 - reps)), formula: 'BRZYCKI' };
+  }
+
+  return { oneRepMax: roundEstimate(weight * (1 + reps / 30)), formula: 'EPLEY' };
+}
+
+/**
+ * Set con la stima più alta
+ */
+export function bestOneRepMaxEstimate<T extends EstimationSet>(
+  sets: T[],
+  formula: OneRepMaxFormula = 'AUTO'
+): (OneRepMaxEstimate & { set: T }) | null {
+  let best: (OneRepMaxEstimate & { set: T }) | null = null;
+
+  for (const set of sets) {
+    const estimate = estimateOneRepMax(set, formula);
+    if (estimate && (!best || estimate.oneRepMax > best.oneRepMax)) {
+      best = { ...estimate, set };
+    }
+  }
+
+  return best;
+}
+
+// ================================
+// STRENGTH STANDARDS
+// ================================
+
+export type StrengthLift = 'SQUAT' | 'BENCH_PRESS' | 'DEADLIFT' | 'OVERHEAD_PRESS' | 'BARBELL_ROW';
+
+export type StrengthLevel = 'BEGINNER' | 'NOVICE' | 'INTERMEDIATE' | 'ADVANCED' | 'ELITE';
+
+export type StrengthStandardSex = 'MALE' | 'FEMALE';
+
+const STRENGTH_LEVELS: StrengthLevel[] = ['BEGINNER', 'NOVICE', 'INTERMEDIATE', 'ADVANCED', 'ELITE'];
+
+/**
+ * Soglie minime (1RM / peso corporeo) per NOVICE, INTERMEDIATE, ADVANCED, ELITE
+ */
+const STRENGTH_STANDARDS: Record<StrengthStandardSex, Record<StrengthLift, number[]>> = {
+  MALE: {
+    SQUAT: [1.0, 1.5, 2.0, 2.5],
+    BENCH_PRESS: [0.75, 1.0, 1.5, 1.9],
+    DEADLIFT: [1.25, 1.75, 2.25, 3.0],
+    OVERHEAD_PRESS: [0.5, 0.7, 0.95, 1.2],
+    BARBELL_ROW: [0.6, 0.9, 1.2, 1.5],
+  },
+  FEMALE: {
+    SQUAT: [0.75, 1.1, 1.5, 1.9],
+    BENCH_PRESS: [0.5, 0.7, 0.95, 1.2],
+    DEADLIFT: [1.0, 1.3, 1.75, 2.25],
+    OVERHEAD_PRESS: [0.35, 0.5, 0.65, 0.85],
+    BARBELL_ROW: [0.4, 0.6, 0.85, 1.1],
+  },
+};
+
+/**
+ * Pattern sullo slug dell'esercizio di catalogo per i lift con standard
+ */
+const LIFT_SLUG_PATTERNS: Array<[StrengthLift, RegExp]> = [
+  ['OVERHEAD_PRESS', /(overhead|military|shoulder)-press/],
+  ['BENCH_PRESS', /bench-press/],
+  ['DEADLIFT', /deadlift/],
+  ['SQUAT', /squat/],
+  ['BARBELL_ROW', /(barbell|bent-over)-row/],
+];
+
+/**
+ * Lift di riferimento per uno slug, se esiste uno standard (varianti escluse)
+ */
+export function resolveStrengthLift(slug: string): StrengthLift | null {
+  const normalized = slug.toLowerCase();
+  if (/(dumbbell|machine|smith|split|goblet|romanian|stiff|incline|decline)/.test(normalized)) {
+    return null;
+  }
+  return LIFT_SLUG_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0] ?? null;
+}
+
+export interface StrengthClassification {
+  lift: StrengthLift;
+  level: StrengthLevel;
+  /** 1RM / peso corporeo */
+  bodyweightRatio: number;
+  nextLevel: StrengthLevel | null;
+  /** Massimale necessario per il livello successivo, in kg */
+  nextLevelOneRepMax: number | null;
+}
+
+/**
+ * Classifica un massimale rispetto al peso corporeo
+ */
+export function classifyStrength(
+  lift: StrengthLift,
+  oneRepMax: number,
+  bodyweightKg: number,
+  sex: StrengthStandardSex = 'MALE'
+): StrengthClassification {
+  if (!(bodyweightKg > 0)) {
+    throw new Error('Bodyweight must be positive');
+  }
+
+  const thresholds = STRENGTH_STANDARDS[sex][lift];
+  const ratio = oneRepMax / bodyweightKg;
+  const reached = thresholds.filter((threshold) => ratio >= threshold).length;
+  const nextThreshold = thresholds[reached];
+
+  return {
+    lift,
+    level: STRENGTH_LEVELS[reached]!,
+    bodyweightRatio: Math.round(ratio * 100) / 100,
+    nextLevel: STRENGTH_LEVELS[reached + 1] ?? null,
+    nextLevelOneRepMax:
+      nextThreshold !== undefined ? roundEstimate(nextThreshold * bodyweightKg) : null,
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  barcodeVariants,
+  computeGtinCheckDigit,
+  isValidGtin,
+  normalizeBarcode,
+} from '../barcode';
+
+describe('computeGtinCheckDigit', () => {
+  it('calcola il modulo 10 con pesi 3/1 da destra', () => {
+    expect(computeGtinCheckDigit('03600029145')).toBe(2);
+    expect(computeGtinCheckDigit('400638133393')).toBe(1);
+    expect(computeGtinCheckDigit('9638507')).toBe(4);
+    expect(computeGtinCheckDigit('1003600029145')).toBe(9);
+  });
+});
+
+describe('isValidGtin', () => {
+  it('accetta EAN-8, UPC-A, EAN-13 e GTIN-14 con cifra di controllo corretta', () => {
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('036000291452')).toBe(true);
+    expect(isValidGtin('4006381333931')).toBe(true);
+    expect(isValidGtin('10036000291459')).toBe(true);
+  });
+
+  it('rifiuta cifre di controllo errate, lunghezze non GTIN e caratteri non numerici', () => {
+    expect(isValidGtin('4006381333932')).toBe(false);
+    expect(isValidGtin('40063813339')).toBe(false);
+    expect(isValidGtin('400638133393A')).toBe(false);
+  });
+});
+
+describe('normalizeBarcode', () => {
+  it('porta UPC-A a GTIN-13 con uno zero iniziale', () => {
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+  });
+
+  it('riduce a GTIN-13 i GTIN-14 con indicatore 0', () => {
+    expect(normalizeBarcode('00036000291452')).toBe('0036000291452');
+    expect(normalizeBarcode('04006381333931')).toBe('4006381333931');
+    // Indicatore diverso da 0: imballo multiplo, resta a 14 cifre
+    expect(normalizeBarcode('10036000291459')).toBe('10036000291459');
+  });
+
+  it('lascia invariati EAN-13 ed EAN-8', () => {
+    expect(normalizeBarcode('4006381333931')).toBe('4006381333931');
+    expect(normalizeBarcode('96385074')).toBe('96385074');
+  });
+
+  it('ignora spazi e trattini', () => {
+    expect(normalizeBarcode(' 4 006381-333931 ')).toBe('4006381333931');
+  });
+
+  it('restituisce null per valori vuoti o non validi', () => {
+    expect(normalizeBarcode(null)).toBeNull();
+    expect(normalizeBarcode('')).toBeNull();
+    expect(normalizeBarcode('036000291453')).toBeNull();
+  });
+});
+
+describe('barcodeVariants', () => {
+  it('include le forme GTIN-14 e UPC-A del codice canonico', () => {
+    expect(barcodeVariants('0036000291452')).toEqual([
+      '0036000291452',
+      '00036000291452',
+      '036000291452',
+    ]);
+    expect(barcodeVariants('4006381333931')).toEqual(['4006381333931', '04006381333931']);
+    expect(barcodeVariants('96385074')).toEqual(['96385074']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findFoodPortion,
+  getPortionLabel,
+  parseFoodPortions,
+  resolveQuantityInGrams,
+  tryResolveQuantityInGrams,
+  type FoodPortion,
+} from '../food-portions';
+
+const egg: FoodPortion = {
+  unit: 'medium',
+  grams: 50,
+  names: { it: ['uovo medio', 'uova medie'], en: ['medium egg', 'medium eggs'] },
+  isDefault: true,
+};
+const large: FoodPortion = {
+  unit: 'large',
+  grams: 60,
+  names: { it: ['uovo grande', 'uova grandi'] },
+};
+const riceCup: FoodPortion = { unit: 'cup', grams: 185 };
+
+describe('resolveQuantityInGrams', () => {
+  it('converte le unità di massa e i loro alias', () => {
+    expect(resolveQuantityInGrams(1.5, 'kg')).toEqual({ grams: 1500 });
+    expect(resolveQuantityInGrams(200, 'Grammi')).toEqual({ grams: 200 });
+    expect(resolveQuantityInGrams(2, 'oz').grams).toBeCloseTo(56.699, 3);
+    expect(resolveQuantityInGrams(100)).toEqual({ grams: 100 });
+  });
+
+  it('converte i volumi con la densità dell’alimento, 1 g/ml se assente', () => {
+    expect(resolveQuantityInGrams(2, 'cucchiai', { densityGPerMl: 0.92 }).grams).toBeCloseTo(
+      27.6,
+      5
+    );
+    expect(resolveQuantityInGrams(250, 'ml')).toEqual({ grams: 250 });
+    expect(resolveQuantityInGrams(1, 'fl oz', { densityGPerMl: 0 }).grams).toBeCloseTo(29.57, 2);
+  });
+
+  it('risolve le porzioni per chiave e per nome localizzato, anche al plurale', () => {
+    const food = { portions: [egg, large] };
+
+    expect(resolveQuantityInGrams(2, 'uova medie', food, 'it')).toEqual({
+      grams: 100,
+      portion: egg,
+    });
+    expect(resolveQuantityInGrams(2, 'medium eggs', food, 'it').grams).toBe(100);
+    expect(resolveQuantityInGrams(1, 'Uovo grande', food).grams).toBe(60);
+    expect(resolveQuantityInGrams(3, 'large', food).grams).toBe(180);
+  });
+
+  it('fa prevalere la porzione dell’alimento sulle misure standard', () => {
+    expect(resolveQuantityInGrams(1, 'tazza', { portions: [riceCup] })).toEqual({
+      grams: 185,
+      portion: riceCup,
+    });
+  });
+
+  it('rifiuta quantità non valide e unità non convertibili', () => {
+    expect(() => resolveQuantityInGrams(-1, 'g')).toThrow('Quantità non valida: -1');
+    expect(() => resolveQuantityInGrams(Number.NaN, 'g')).toThrow('Quantità non valida');
+    expect(() => resolveQuantityInGrams(2, 'fetta')).toThrow(
+      'Unità "fetta" non supportata per questo alimento'
+    );
+    expect(tryResolveQuantityInGrams(2, 'fetta')).toBeNull();
+  });
+});
+
+describe('findFoodPortion', () => {
+  it('usa la porzione di default per "porzione" o unità vuota', () => {
+    expect(findFoodPortion('porzione', [large, egg])).toBe(egg);
+    expect(findFoodPortion('', [large])).toBe(large);
+    expect(findFoodPortion('porzione', [])).toBeUndefined();
+  });
+});
+
+describe('getPortionLabel', () => {
+  it('restituisce singolare, plurale o la chiave come fallback', () => {
+    expect(getPortionLabel(egg, 'it')).toBe('uovo medio');
+    expect(getPortionLabel(egg, 'it', 3)).toBe('uova medie');
+    expect(getPortionLabel(egg, 'fr')).toBe('medium');
+  });
+});
+
+describe('parseFoodPortions', () => {
+  it('accetta solo porzioni valide', () => {
+    expect(parseFoodPortions([{ unit: 'slice', grams: 30 }])).toEqual([
+      { unit: 'slice', grams: 30 },
+    ]);
+    expect(parseFoodPortions([{ unit: 'slice', grams: 0 }])).toEqual([]);
+    expect(parseFoodPortions(null)).toEqual([]);
+  });
+});
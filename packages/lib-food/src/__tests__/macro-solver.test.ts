@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  filterSolverFoods,
+  fitQuantities,
+  solveDay,
+  solveMeal,
+  type SolverFood,
+} from '../macro-solver';
+
+vi.mock('../food.service', () => ({
+  normalizeFoodName: (name: string) => name.toLowerCase().trim(),
+}));
+
+function food(
+  id: string,
+  macrosPer100g: { calories: number; protein: number; carbs: number; fats: number },
+  extra: Partial<SolverFood> = {}
+): SolverFood {
+  return { id, name: id, macrosPer100g, ...extra };
+}
+
+const chicken = food(
+  'pollo',
+  { calories: 165, protein: 31, carbs: 0, fats: 3.6 },
+  { categories: ['carne'] }
+);
+const rice = food('riso', { calories: 130, protein: 2.7, carbs: 28, fats: 0.3 });
+const oil = food('olio', { calories: 884, protein: 0, carbs: 0, fats: 100 });
+const tuna = food(
+  'tonno',
+  { calories: 116, protein: 26, carbs: 0, fats: 1 },
+  { categories: ['pesce'], allergens: ['fish'] }
+);
+const pasta = food(
+  'pasta',
+  { calories: 350, protein: 12, carbs: 72, fats: 1.5 },
+  { allergens: ['glutine'] }
+);
+
+const lunch = { calories: 600, protein: 40, carbs: 60, fats: 20 };
+
+describe('filterSolverFoods', () => {
+  it('esclude per id, per termine su nome e categorie e per allergene', () => {
+    const foods = [chicken, rice, oil, tuna, pasta];
+
+    expect(filterSolverFoods(foods, { excludeFoodIds: ['olio'] }).map((f) => f.id)).toEqual([
+      'pollo',
+      'riso',
+      'tonno',
+      'pasta',
+    ]);
+    expect(filterSolverFoods(foods, { exclusions: ['Carne'] }).map((f) => f.id)).not.toContain(
+      'pollo'
+    );
+    expect(
+      filterSolverFoods(foods, { allergies: ['fish', 'glutine'] }).map((f) => f.id)
+    ).toEqual(['pollo', 'riso', 'olio']);
+  });
+
+  it('non usa gli allergeni per le esclusioni generiche', () => {
+    expect(filterSolverFoods([tuna], { exclusions: ['fish'] })).toEqual([tuna]);
+  });
+
+  it('scarta gli alimenti senza calorie utilizzabili', () => {
+    const water = food('acqua', { calories: 0, protein: 0, carbs: 0, fats: 0 });
+
+    expect(filterSolverFoods([water, rice])).toEqual([rice]);
+  });
+});
+
+describe('fitQuantities', () => {
+  it('trova grammature multiple dello step entro la tolleranza', () => {
+    const solution = fitQuantities([chicken, rice, oil], lunch);
+
+    expect(solution?.withinTolerance).toBe(true);
+    expect(solution?.foods.every((f) => f.grams % 5 === 0)).toBe(true);
+    expect(Math.abs(solution!.totals.calories - lunch.calories)).toBeLessThanOrEqual(30);
+  });
+
+  it('rispetta la tolleranza richiesta', () => {
+    // Solo pollo: carboidrati a zero contro un target di 60 g
+    expect(fitQuantities([chicken], lunch)?.withinTolerance).toBe(false);
+    expect(
+      fitQuantities([chicken], lunch, {
+        tolerance: { calories: 1, protein: 1, carbs: 1, fats: 1 },
+      })?.withinTolerance
+    ).toBe(true);
+  });
+
+  it('scarta gli alimenti con minGrams > maxGrams dopo l’arrotondamento allo step', () => {
+    // 12 g → 20 g e 18 g → 10 g con step 10
+    const narrow = { ...rice, minGrams: 12, maxGrams: 18, step: 10 };
+
+    expect(fitQuantities([narrow], lunch)).toBeNull();
+    expect(fitQuantities([narrow, chicken], lunch)?.foods.map((f) => f.foodId)).toEqual([
+      'pollo',
+    ]);
+  });
+
+  it('limita le grammature ai minimi e massimi arrotondati', () => {
+    const capped = { ...rice, minGrams: 23, maxGrams: 98, step: 10 };
+    const grams = (calories: number) =>
+      fitQuantities([capped], {
+        calories,
+        protein: (calories / 130) * 2.7,
+        carbs: (calories / 130) * 28,
+        fats: (calories / 130) * 0.3,
+      })?.foods[0]?.grams;
+
+    expect(grams(1300)).toBe(90);
+    expect(grams(13)).toBe(30);
+  });
+});
+
+describe('solveMeal', () => {
+  it('ordina le alternative mettendo prima quelle entro tolleranza', () => {
+    const solutions = solveMeal([chicken, rice, oil, tuna, pasta], lunch, { maxAlternatives: 10 });
+    const firstOutside = solutions.findIndex((s) => !s.withinTolerance);
+
+    expect(solutions[0]?.withinTolerance).toBe(true);
+    expect(solutions.slice(firstOutside).every((s) => !s.withinTolerance)).toBe(true);
+  });
+
+  it('non propone alimenti esclusi o con allergeni', () => {
+    const solutions = solveMeal([chicken, rice, oil, tuna, pasta], lunch, {
+      allergies: ['fish'],
+      excludeFoodIds: ['pasta'],
+    });
+    const used = new Set(solutions.flatMap((s) => s.foods.map((f) => f.foodId)));
+
+    expect(used.has('tonno')).toBe(false);
+    expect(used.has('pasta')).toBe(false);
+  });
+
+  it('è deterministico', () => {
+    const foods = [chicken, rice, oil, tuna, pasta];
+
+    expect(solveMeal(foods, lunch)).toEqual(solveMeal(foods, lunch));
+  });
+});
+
+describe('solveDay', () => {
+  it('somma i target dei pasti e varia gli alimenti tra un pasto e l’altro', () => {
+    const day = solveDay(
+      [
+        { name: 'Pranzo', target: lunch },
+        { name: 'Cena', target: lunch },
+      ],
+      [chicken, rice, oil, tuna, pasta]
+    );
+
+    expect(day.target).toEqual({ calories: 1200, protein: 80, carbs: 120, fats: 40 });
+    const [first, second] = day.meals.map((m) => m.solution?.foods.map((f) => f.foodId) ?? []);
+    expect(first).not.toEqual(second);
+  });
+});
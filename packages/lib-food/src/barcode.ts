@@ -0,0 +1,57 @@
+/**
+ * Barcode (GTIN)
+ *
+ * Validazione e normalizzazione dei codici a barre alimentari:
+ * - EAN-8 resta a 8 cifre
+ * - UPC-A (12 cifre) ed EAN-13 vengono salvati come GTIN-13 (UPC-A → "0" + UPC-A)
+ * - GTIN-14 con indicatore "0" viene ridotto a GTIN-13
+ *
+ * food_items.barcode contiene sempre la forma canonica, così la ricerca usa
+ * direttamente l'indice sulla colonna.
+ */
+
+/**
+ * Cifra di controllo GTIN (modulo 10, pesi 3/1 da destra)
+ */
+export function computeGtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * true se il codice (8, 12, 13 o 14 cifre) ha una cifra di controllo valida
+ */
+export function isValidGtin(code: string): boolean {
+  if (!/^\d+$/.test(code) || ![8, 12, 13, 14].includes(code.length)) return false;
+  return computeGtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Forma canonica del barcode, oppure null se non è un GTIN valido
+ */
+export function normalizeBarcode(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  let code = raw.replace(/[\s-]/g, '');
+  if (!isValidGtin(code)) return null;
+
+  if (code.length === 14 && code.startsWith('0')) code = code.slice(1);
+  if (code.length === 12) code = `0${code}`;
+  return code;
+}
+
+/**
+ * Forme equivalenti del barcode canonico (per righe salvate prima della normalizzazione)
+ */
+export function barcodeVariants(canonical: string): string[] {
+  const variants = [canonical];
+  if (canonical.length === 13) {
+    variants.push(`0${canonical}`);
+    if (canonical.startsWith('0')) variants.push(canonical.slice(1));
+  }
+  return variants;
+}
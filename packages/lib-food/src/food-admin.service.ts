@@ -8,6 +8,9 @@
 
 import { prisma } from '@onecoach/lib-core';
 import { FoodService, normalizeFoodName } from './food.service';
+import { foodPortionsSchema, type FoodPortion } from './food-portions';
+import { nutrientValuesSchema } from './nutrients';
+import { barcodeVariants, normalizeBarcode } from './barcode';
 import { createFoodSchema, type CreateFoodInput, type UpdateFoodInput } from '@onecoach/schemas';
 import { z } from 'zod';
 // import { FoodGenerationAgent, createAIAgentConfig, createAgentInstance } from '@onecoach/one-agent';
@@ -23,7 +26,15 @@ import { z } from 'zod';
  * Schema per import payload (estende createFoodSchema)
  * IMPORTANTE: name, description, macrosPer100g, servingSize sono OBBLIGATORI
  */
-const foodImportSchemaBase = createFoodSchema;
+const foodImportSchemaBase = createFoodSchema.extend({
+  portions: foodPortionsSchema.optional(),
+  densityGPerMl: z.number().positive().max(5).optional(),
+  /** Micronutrienti per 100g, salvati in macrosPer100g.nutrients */
+  nutrients: nutrientValuesSchema.optional(),
+  translations: z
+    .record(z.string(), z.object({ name: z.string().min(1), description: z.string().optional() }))
+    .optional(),
+});
 
 // Validazione esplicita per assicurarsi che i campi obbligatori siano sempre presenti
 export const foodImportSchema = foodImportSchemaBase.superRefine((data, ctx) => {
@@ -86,11 +97,17 @@ export const foodImportSchema = foodImportSchemaBase.superRefine((data, ctx) =>
 
 export type FoodImportPayload = z.infer<typeof foodImportSchema>;
 
+interface FoodImportExtraFields {
+  portions?: FoodPortion[];
+  densityGPerMl?: number;
+  translations?: Record<string, { name: string; description?: string }>;
+}
+
 interface NormalizedImportRecord {
   name: string;
   nameNormalized: string;
-  createInput: CreateFoodInput;
-  updateInput: UpdateFoodInput;
+  createInput: CreateFoodInput & FoodImportExtraFields;
+  updateInput: UpdateFoodInput & FoodImportExtraFields;
   categoryIds: string[];
 }
 
@@ -378,11 +395,18 @@ export class FoodAdminService {
 
       options.onProgress?.(i + 1, normalizedRecords.length);
       try {
-        // Verifica se esiste già un alimento con lo stesso nome normalizzato
-        const existing = await prisma.food_items.findFirst({
-          where: { nameNormalized: record.nameNormalized },
-          select: { id: true, name: true },
-        });
+        // Con barcode la deduplica avviene solo sul barcode (anche nelle forme non
+        // canoniche): prodotti diversi possono avere lo stesso nome normalizzato
+        const barcode = record.createInput.barcode;
+        const existing = barcode
+          ? await prisma.food_items.findFirst({
+              where: { barcode: { in: barcodeVariants(barcode) } },
+              select: { id: true, name: true },
+            })
+          : await prisma.food_items.findFirst({
+              where: { nameNormalized: record.nameNormalized },
+              select: { id: true, name: true },
+            });
 
         if (!existing) {
           // Crea nuovo alimento
@@ -462,28 +486,40 @@ export class FoodAdminService {
     // Brand: usa brandName o default "Generic"
     const brandName = payload.brandName?.trim() || 'Generic';
 
-    const createInput: CreateFoodInput = {
+    // Barcode in forma canonica; quelli non validi vengono scartati
+    const barcode = normalizeBarcode(payload.barcode) ?? undefined;
+
+    const macrosPer100g = payload.nutrients
+      ? { ...payload.macrosPer100g, nutrients: payload.nutrients }
+      : payload.macrosPer100g;
+
+    const createInput: CreateFoodInput & FoodImportExtraFields = {
       name,
       description,
-      macrosPer100g: payload.macrosPer100g,
+      translations: payload.translations,
+      macrosPer100g,
       servingSize: payload.servingSize,
       unit: payload.unit || 'g',
       brandName,
       categoryIds: validatedCategoryIds.length > 0 ? validatedCategoryIds : undefined,
       imageUrl: payload.imageUrl,
-      barcode: payload.barcode,
+      barcode,
+      portions: payload.portions,
+      densityGPerMl: payload.densityGPerMl,
     };
 
-    const updateInput: UpdateFoodInput = {
+    const updateInput: UpdateFoodInput & FoodImportExtraFields = {
       name,
       description,
-      macrosPer100g: payload.macrosPer100g,
+      macrosPer100g,
       servingSize: payload.servingSize,
       unit: payload.unit || 'g',
       brandName,
       categoryIds: validatedCategoryIds.length > 0 ? validatedCategoryIds : undefined,
       imageUrl: payload.imageUrl,
-      barcode: payload.barcode,
+      barcode,
+      portions: payload.portions,
+      densityGPerMl: payload.densityGPerMl,
     };
 
     return {
@@ -0,0 +1,496 @@
+/**
+ * Food Dump Import Service
+ *
+ * Import massivo di dump in stile Open Food Facts (CSV/TSV o JSONL) in food_items:
+ * - ogni prodotto viene mappato in FoodImportPayload e passa da FoodAdminService.import
+ *   (stesse regole di deduplica: barcode, o nome normalizzato se il barcode manca)
+ * - elaborazione a chunk con checkpoint su food_import_runs: un run interrotto
+ *   (o limitato con maxChunks) riprende dal cursore salvato
+ * - il dump viene letto in streaming riga per riga, senza caricarlo in memoria
+ *
+ * Server-only: esportato solo come subpath (@onecoach/lib-food/food-dump-import.service).
+ */
+
+import { prisma, logger } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+import { SUPPORTED_FOOD_LOCALES } from '@onecoach/constants';
+import { FoodAdminService, foodImportSchema, type FoodImportPayload } from './food-admin.service';
+import { normalizeBarcode } from './barcode';
+import {
+  NUTRIENT_DEFINITIONS,
+  NUTRIENT_KEYS,
+  type NutrientDefinition,
+  type NutrientKey,
+  type NutrientValues,
+} from './nutrients';
+
+export type FoodDumpFormat = 'csv' | 'jsonl';
+
+export type FoodDumpImportStatus = 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'FAILED';
+
+export interface FoodDumpImportOptions {
+  format: FoodDumpFormat;
+  /** Run da riprendere; se assente ne viene creato uno nuovo */
+  runId?: string;
+  /** Record per chunk (un checkpoint per chunk) */
+  chunkSize?: number;
+  /** Ferma il run (PAUSED) dopo N chunk */
+  maxChunks?: number;
+  /** Locale principale per nome e descrizione */
+  locale?: string;
+  mergeExisting?: boolean;
+  userId?: string;
+  sourceName?: string;
+}
+
+export interface FoodDumpImportError {
+  /** Numero del record nel dump (header escluso) */
+  record: number;
+  code?: string;
+  name?: string;
+  reason: string;
+}
+
+export interface FoodDumpImportReport {
+  runId: string;
+  status: FoodDumpImportStatus;
+  format: FoodDumpFormat;
+  /** Record del dump già elaborati (punto di ripresa) */
+  cursor: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  chunks: number;
+  skipReasons: Record<string, number>;
+  errors: FoodDumpImportError[];
+}
+
+type DumpRow = Record<string, unknown>;
+
+const DEFAULT_CHUNK_SIZE = 200;
+const MAX_STORED_ERRORS = 100;
+/** Limite per singola riga: protegge dal buffering di un dump senza a capo */
+const MAX_LINE_LENGTH = 1024 * 1024;
+const KJ_PER_KCAL = 4.184;
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Split di una riga CSV/TSV con campi tra virgolette (RFC 4180, senza a capo nei campi)
+ */
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+function readNumber(row: DumpRow, key: string): number | undefined {
+  const nutriments = row.nutriments as DumpRow | undefined;
+  const raw = row[key] ?? nutriments?.[key];
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function readString(row: DumpRow, key: string): string | undefined {
+  const value = row[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Colonne OFF per nutriente. Il dump esprime tutti i valori in grammi per 100g,
+ * convertiti nell'unità di NUTRIENT_DEFINITIONS.
+ */
+const OFF_NUTRIENT_COLUMNS: Record<NutrientKey, string> = {
+  sodium: 'sodium_100g',
+  sugar: 'sugars_100g',
+  saturatedFat: 'saturated-fat_100g',
+  cholesterol: 'cholesterol_100g',
+  potassium: 'potassium_100g',
+  calcium: 'calcium_100g',
+  iron: 'iron_100g',
+  magnesium: 'magnesium_100g',
+  zinc: 'zinc_100g',
+  vitaminA: 'vitamin-a_100g',
+  vitaminC: 'vitamin-c_100g',
+  vitaminD: 'vitamin-d_100g',
+  vitaminB12: 'vitamin-b12_100g',
+};
+
+const GRAMS_TO_UNIT: Record<NutrientDefinition['unit'], number> = { g: 1, mg: 1000, 'µg': 1e6 };
+
+/** Grammi di sale per grammo di sodio */
+const SALT_PER_SODIUM = 2.5;
+
+function mapOpenFoodFactsNutrients(row: DumpRow): NutrientValues {
+  const nutrients: NutrientValues = {};
+  for (const key of NUTRIENT_KEYS) {
+    let grams = readNumber(row, OFF_NUTRIENT_COLUMNS[key]);
+    if (key === 'sodium' && grams === undefined) {
+      const salt = readNumber(row, 'salt_100g');
+      grams = salt !== undefined ? salt / SALT_PER_SODIUM : undefined;
+    }
+    if (grams === undefined || grams < 0 || grams > 100) continue;
+    nutrients[key] = round(grams * GRAMS_TO_UNIT[NUTRIENT_DEFINITIONS[key].unit]);
+  }
+  return nutrients;
+}
+
+/**
+ * Mappa un prodotto Open Food Facts in payload di import; stringa = motivo dello scarto
+ */
+export function mapOpenFoodFactsProduct(
+  row: DumpRow,
+  locale: string = 'it'
+): FoodImportPayload | string {
+  const barcode = normalizeBarcode(readString(row, 'code') ?? String(row.code ?? ''));
+  if (!barcode) return 'invalid_barcode';
+
+  const localizedName = (l: string) => readString(row, `product_name_${l}`);
+  const name = localizedName(locale) ?? readString(row, 'product_name') ?? localizedName('en');
+  if (!name || name.length < 2) return 'missing_name';
+
+  const kcal = readNumber(row, 'energy-kcal_100g');
+  const kj = readNumber(row, 'energy-kj_100g') ?? readNumber(row, 'energy_100g');
+  const calories = kcal ?? (kj !== undefined ? kj / KJ_PER_KCAL : undefined);
+  const protein = readNumber(row, 'proteins_100g');
+  const carbs = readNumber(row, 'carbohydrates_100g');
+  const fats = readNumber(row, 'fat_100g');
+  if (calories === undefined || protein === undefined || carbs === undefined || fats === undefined) {
+    return 'missing_nutrition';
+  }
+  // Valori impossibili per 100g (errori di inserimento nel dump)
+  if (calories > 900 || protein + carbs + fats > 100.5) return 'implausible_nutrition';
+
+  const fiber = readNumber(row, 'fiber_100g');
+  const nutrients = mapOpenFoodFactsNutrients(row);
+  const brandName = readString(row, 'brands')?.split(',')[0]?.trim();
+  const genericName =
+    readString(row, `generic_name_${locale}`) ?? readString(row, 'generic_name') ?? '';
+  const description =
+    genericName.length >= 10
+      ? genericName
+      : `${name}${brandName ? ` - ${brandName}` : ''} (prodotto confezionato, EAN ${barcode})`;
+
+  const servingQuantity = readNumber(row, 'serving_quantity');
+  const serving =
+    servingQuantity !== undefined && servingQuantity >= 1 && servingQuantity <= 10000
+      ? servingQuantity
+      : undefined;
+
+  const translations: Record<string, { name: string }> = {};
+  for (const l of SUPPORTED_FOOD_LOCALES as readonly string[]) {
+    const translated = localizedName(l);
+    if (translated) translations[l] = { name: translated };
+  }
+
+  return {
+    name,
+    description,
+    macrosPer100g: {
+      calories: Math.round(calories),
+      protein: round(protein),
+      carbs: round(carbs),
+      fats: round(fats),
+      ...(fiber !== undefined && { fiber: round(fiber) }),
+    },
+    servingSize: serving !== undefined ? Math.round(serving) : 100,
+    unit: 'g',
+    barcode,
+    brandName,
+    imageUrl: readString(row, 'image_url'),
+    translations,
+    ...(Object.keys(nutrients).length > 0 && { nutrients }),
+    ...(serving !== undefined && {
+      portions: [
+        {
+          unit: 'serving',
+          grams: serving,
+          names: { it: ['porzione', 'porzioni'], en: ['serving', 'servings'] },
+          isDefault: true,
+        },
+      ],
+    }),
+  } as FoodImportPayload;
+}
+
+/**
+ * Righe di uno stream UTF-8, lette man mano che arrivano i chunk
+ */
+async function* readStreamLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      if (buffer.length > MAX_LINE_LENGTH) {
+        throw new Error(`Riga del dump troppo lunga (limite ${MAX_LINE_LENGTH} caratteri)`);
+      }
+      yield* lines;
+    }
+    if (buffer !== '') yield buffer;
+  } finally {
+    // Interrompe la lettura anche quando il run si ferma prima della fine (maxChunks)
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+// ============================================
+// SERVICE
+// ============================================
+
+function toReport(run: {
+  id: string;
+  status: string;
+  format: string;
+  cursor: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  chunks: number;
+  skipReasons: Prisma.JsonValue;
+  errors: Prisma.JsonValue;
+}): FoodDumpImportReport {
+  return {
+    runId: run.id,
+    status: run.status as FoodDumpImportStatus,
+    format: run.format as FoodDumpFormat,
+    cursor: run.cursor,
+    created: run.created,
+    updated: run.updated,
+    skipped: run.skipped,
+    failed: run.failed,
+    chunks: run.chunks,
+    skipReasons: (run.skipReasons as Record<string, number> | null) ?? {},
+    errors: (run.errors as unknown as FoodDumpImportError[] | null) ?? [],
+  };
+}
+
+export class FoodDumpImportService {
+  static async getRun(runId: string): Promise<FoodDumpImportReport | null> {
+    const run = await prisma.food_import_runs.findUnique({ where: { id: runId } });
+    return run ? toReport(run) : null;
+  }
+
+  /**
+   * Importa un dump in streaming (es. body della richiesta)
+   */
+  static async importStream(
+    stream: ReadableStream<Uint8Array>,
+    options: FoodDumpImportOptions
+  ): Promise<FoodDumpImportReport> {
+    return this.importLines(readStreamLines(stream), options);
+  }
+
+  /**
+   * Importa le righe di un dump a chunk, salvando il cursore dopo ogni chunk
+   */
+  static async importLines(
+    lines: AsyncIterable<string> | Iterable<string>,
+    options: FoodDumpImportOptions
+  ): Promise<FoodDumpImportReport> {
+    const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    const locale = options.locale ?? 'it';
+
+    const existingRun = options.runId
+      ? await prisma.food_import_runs.findUnique({ where: { id: options.runId } })
+      : null;
+    if (options.runId && !existingRun) {
+      throw new Error('Run di import non trovato');
+    }
+    if (existingRun && existingRun.format !== options.format) {
+      throw new Error(`Il run è in formato ${existingRun.format}, non ${options.format}`);
+    }
+    if (existingRun?.status === 'COMPLETED') {
+      return toReport(existingRun);
+    }
+
+    const run =
+      existingRun ??
+      (await prisma.food_import_runs.create({
+        data: {
+          source: 'OPEN_FOOD_FACTS',
+          sourceName: options.sourceName ?? null,
+          format: options.format,
+          status: 'RUNNING',
+          userId: options.userId ?? null,
+          skipReasons: {},
+          errors: [],
+        },
+      }));
+
+    const report = toReport(run);
+    report.status = 'RUNNING';
+    const resumeFrom = report.cursor;
+
+    let header: string[] | null = null;
+    let delimiter = ',';
+    let recordIndex = 0;
+    let chunk: Array<{ record: number; payload: FoodImportPayload }> = [];
+
+    const pushError = (error: FoodDumpImportError) => {
+      if (report.errors.length < MAX_STORED_ERRORS) report.errors.push(error);
+    };
+
+    const checkpoint = async (status: FoodDumpImportStatus) => {
+      report.status = status;
+      await prisma.food_import_runs.update({
+        where: { id: report.runId },
+        data: {
+          status,
+          cursor: report.cursor,
+          created: report.created,
+          updated: report.updated,
+          skipped: report.skipped,
+          failed: report.failed,
+          chunks: report.chunks,
+          skipReasons: report.skipReasons,
+          errors: report.errors as unknown as Prisma.InputJsonValue,
+          ...(status === 'COMPLETED' && { finishedAt: new Date() }),
+        },
+      });
+    };
+
+    const flush = async (cursor: number) => {
+      if (chunk.length > 0) {
+        const result = await FoodAdminService.import(
+          chunk.map((c) => c.payload),
+          { userId: options.userId, mergeExisting: options.mergeExisting }
+        );
+        report.created += result.created;
+        report.updated += result.updated;
+        report.skipped += result.skipped;
+        report.failed += result.errors.length;
+        for (const error of result.errors) {
+          const source = chunk.find((c) => c.payload.name === error.name);
+          pushError({
+            record: source?.record ?? cursor,
+            code: source?.payload.barcode,
+            name: error.name,
+            reason: error.reason,
+          });
+        }
+      }
+      chunk = [];
+      report.cursor = cursor;
+      report.chunks += 1;
+      await checkpoint('RUNNING');
+    };
+
+    try {
+      let chunksThisCall = 0;
+
+      for await (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (line === '') continue;
+
+        // L'header CSV va letto anche quando si riprende un run
+        if (options.format === 'csv' && !header) {
+          delimiter = line.includes('\t') ? '\t' : ',';
+          header = splitDelimitedLine(line, delimiter).map((h) => h.trim());
+          continue;
+        }
+
+        recordIndex++;
+        if (recordIndex <= resumeFrom) continue;
+
+        let row: DumpRow;
+        try {
+          if (options.format === 'jsonl') {
+            row = JSON.parse(line) as DumpRow;
+          } else {
+            const values = splitDelimitedLine(line, delimiter);
+            row = Object.fromEntries(header!.map((key, i) => [key, values[i] ?? '']));
+          }
+        } catch {
+          report.failed += 1;
+          pushError({ record: recordIndex, reason: 'Riga non valida' });
+          continue;
+        }
+
+        const mapped = mapOpenFoodFactsProduct(row, locale);
+        if (typeof mapped === 'string') {
+          report.skipped += 1;
+          report.skipReasons[mapped] = (report.skipReasons[mapped] ?? 0) + 1;
+        } else {
+          const validation = foodImportSchema.safeParse(mapped);
+          if (validation.success) {
+            chunk.push({ record: recordIndex, payload: validation.data });
+          } else {
+            report.failed += 1;
+            pushError({
+              record: recordIndex,
+              code: mapped.barcode,
+              name: mapped.name,
+              reason: validation.error.issues.map((issue) => issue.message).join('; '),
+            });
+          }
+        }
+
+        if (chunk.length >= chunkSize) {
+          await flush(recordIndex);
+          chunksThisCall++;
+          if (options.maxChunks && chunksThisCall >= options.maxChunks) {
+            await checkpoint('PAUSED');
+            return report;
+          }
+        }
+      }
+
+      if (chunk.length > 0 || recordIndex > report.cursor) {
+        await flush(Math.max(recordIndex, report.cursor));
+      }
+      await checkpoint('COMPLETED');
+      return report;
+    } catch (error: unknown) {
+      logger.error('[FoodDumpImportService.importLines]', error);
+      pushError({
+        record: report.cursor,
+        reason: error instanceof Error ? error.message : 'Errore sconosciuto',
+      });
+      // I contatori restano quelli dell'ultimo checkpoint, coerenti con il cursore
+      await prisma.food_import_runs.update({
+        where: { id: report.runId },
+        data: { status: 'FAILED', errors: report.errors as unknown as Prisma.InputJsonValue },
+      });
+      throw error;
+    }
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { FoodService, normalizeFoodName } from './food.service';
+import { normalizeBarcode } from './barcode';
 import type { FoodItem, FoodMatchResult, LabelExtractionResult } from '@onecoach/types';
 
 const BM25_SIMILARITY_THRESHOLD = 0.3;
@@ -121,7 +122,8 @@ export class FoodMatchingService {
       description: extractedData.name,
       macrosPer100g,
       servingSize: extractedData.servingSize ?? 0,
-      barcode: extractedData.barcode,
+      // Barcode letti male (check digit errato) non vengono salvati
+      barcode: normalizeBarcode(extractedData.barcode) ?? undefined,
       metadata: {
         brand: extractedData.brand,
         ...extractedData.metadata,
@@ -137,14 +139,13 @@ export class FoodMatchingService {
   private static async matchExact(data: LabelExtractionResult): Promise<FoodMatchResult> {
     const nameNormalized = normalizeFoodName(data.name);
 
-    // Match per barcode se disponibile
+    // Match per barcode se disponibile (lookup indicizzato)
     if (data.barcode) {
-      const foods = await FoodService.searchFoods(data.barcode, { limit: 1 });
-      const firstFood = foods[0];
-      if (firstFood && firstFood.barcode === data.barcode) {
+      const food = await FoodService.getFoodByBarcode(data.barcode);
+      if (food) {
         return {
           matched: true,
-          foodItem: firstFood,
+          foodItem: food,
           matchType: 'exact',
           confidence: 1.0,
         };
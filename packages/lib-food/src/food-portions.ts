@@ -0,0 +1,214 @@
+/**
+ * Food Portions
+ *
+ * Conversione di quantità in grammi a partire da:
+ * - unità di massa (g, kg, mg, oz, lb)
+ * - unità di volume e misure casalinghe (ml, l, cup, tbsp, tsp, ...), tramite densità
+ * - porzioni specifiche dell'alimento (fetta, pezzo, "1 uovo medio"), salvate su food_items
+ *
+ * Le porzioni hanno nomi per locale, incluse le forme plurali, così "2 uova" e
+ * "2 eggs" risolvono la stessa porzione.
+ */
+
+import { z } from 'zod';
+
+export interface FoodPortion {
+  /** Chiave stabile della porzione (es. "piece", "slice", "medium") */
+  unit: string;
+  /** Grammi per una porzione */
+  grams: number;
+  /** Nomi per locale, singolare e plurale (es. { it: ['uovo medio', 'uova medie'] }) */
+  names?: Record<string, string[]>;
+  isDefault?: boolean;
+}
+
+export interface FoodPortionSource {
+  portions?: FoodPortion[] | null;
+  /** Densità in g/ml; se assente si assume 1 g/ml */
+  densityGPerMl?: number | null;
+}
+
+export interface ResolvedQuantity {
+  grams: number;
+  /** Porzione usata, se l'unità è una porzione dell'alimento */
+  portion?: FoodPortion;
+}
+
+export const foodPortionSchema = z.object({
+  unit: z.string().trim().min(1).max(50),
+  grams: z.number().positive().max(10000),
+  names: z.record(z.string(), z.array(z.string().trim().min(1))).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export const foodPortionsSchema = z.array(foodPortionSchema).max(30);
+
+const MASS_UNITS_G: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  mg: 0.001,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const VOLUME_UNITS_ML: Record<string, number> = {
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  tsp: 5,
+  tbsp: 15,
+  cup: 240,
+  floz: 29.5735,
+};
+
+/** Alias (it/en, singolare/plurale) → unità canonica */
+const UNIT_ALIASES: Record<string, string> = {
+  gr: 'g',
+  gram: 'g',
+  grams: 'g',
+  grammo: 'g',
+  grammi: 'g',
+  kilo: 'kg',
+  chilo: 'kg',
+  chili: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  chilogrammo: 'kg',
+  chilogrammi: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  millilitro: 'ml',
+  millilitri: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  litro: 'l',
+  litri: 'l',
+  liter: 'l',
+  liters: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  cucchiaino: 'tsp',
+  cucchiaini: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  cucchiaio: 'tbsp',
+  cucchiai: 'tbsp',
+  cups: 'cup',
+  tazza: 'cup',
+  tazze: 'cup',
+  'fl oz': 'floz',
+};
+
+// Stessa normalizzazione di normalizeFoodName (food.service importa questo modulo)
+function normalizeUnit(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function canonicalUnit(unit: string): string {
+  const normalized = normalizeUnit(unit);
+  return UNIT_ALIASES[normalized] ?? normalized.replace(/\s+/g, '');
+}
+
+function portionNames(portion: FoodPortion, locale?: string): string[] {
+  const entries = Object.entries(portion.names ?? {});
+  // Prima il locale richiesto, poi gli altri
+  entries.sort(([a], [b]) => Number(b === locale) - Number(a === locale));
+  return [portion.unit, ...entries.flatMap(([, names]) => names)].map(normalizeUnit);
+}
+
+/**
+ * Porzione dell'alimento corrispondente all'unità indicata (chiave o nome localizzato)
+ */
+export function findFoodPortion(
+  unit: string,
+  portions: FoodPortion[] | null | undefined,
+  locale?: string
+): FoodPortion | undefined {
+  if (!portions?.length) return undefined;
+
+  const normalized = normalizeUnit(unit);
+  if (normalized === '' || ['portion', 'porzione', 'serving'].includes(normalized)) {
+    return portions.find((p) => p.isDefault) ?? portions[0];
+  }
+  return portions.find((portion) => portionNames(portion, locale).includes(normalized));
+}
+
+/**
+ * Come resolveQuantityInGrams, ma restituisce null se l'unità non è convertibile
+ * per l'alimento (es. "pz" senza porzione definita)
+ */
+export function tryResolveQuantityInGrams(
+  quantity: number,
+  unit: string = 'g',
+  food: FoodPortionSource = {},
+  locale?: string
+): ResolvedQuantity | null {
+  if (!Number.isFinite(quantity) || quantity < 0) {
+    throw new Error(`Quantità non valida: ${quantity}`);
+  }
+
+  const canonical = canonicalUnit(unit || 'g');
+  const massFactor = MASS_UNITS_G[canonical];
+  if (massFactor !== undefined) {
+    return { grams: quantity * massFactor };
+  }
+
+  const portion =
+    findFoodPortion(unit, food.portions, locale) ?? findFoodPortion(canonical, food.portions);
+  if (portion) {
+    return { grams: quantity * portion.grams, portion };
+  }
+
+  const volumeFactor = VOLUME_UNITS_ML[canonical];
+  if (volumeFactor !== undefined) {
+    const density = food.densityGPerMl && food.densityGPerMl > 0 ? food.densityGPerMl : 1;
+    return { grams: quantity * volumeFactor * density };
+  }
+
+  return null;
+}
+
+/**
+ * Converte quantità + unità in grammi per un alimento.
+ * Le porzioni dell'alimento hanno precedenza sulle misure standard
+ * (es. "cup" di riso definita sull'alimento invece di 240 ml × densità).
+ */
+export function resolveQuantityInGrams(
+  quantity: number,
+  unit: string = 'g',
+  food: FoodPortionSource = {},
+  locale?: string
+): ResolvedQuantity {
+  const resolved = tryResolveQuantityInGrams(quantity, unit, food, locale);
+  if (!resolved) {
+    throw new Error(`Unità "${unit}" non supportata per questo alimento`);
+  }
+  return resolved;
+}
+
+/**
+ * Nome della porzione nel locale richiesto (fallback sulla chiave)
+ */
+export function getPortionLabel(portion: FoodPortion, locale: string, quantity = 1): string {
+  const names = portion.names?.[locale];
+  if (!names?.length) return portion.unit;
+  return (quantity === 1 ? names[0] : (names[1] ?? names[0])) ?? portion.unit;
+}
+
+/**
+ * Porzioni valide da un valore JSON (colonna food_items.portions)
+ */
+export function parseFoodPortions(value: unknown): FoodPortion[] {
+  const parsed = foodPortionsSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
@@ -0,0 +1,26 @@
+/**
+ * Food Search Synonyms
+ *
+ * Gruppi di nomi equivalenti usati per espandere le query di ricerca alimenti.
+ * I nomi nelle altre lingue vengono comunque trovati tramite le traduzioni;
+ * qui servono i sinonimi che le traduzioni non coprono (nomi comuni, abbreviazioni).
+ */
+
+import type { SearchSynonymGroups } from '@onecoach/lib-core/db/full-text-search';
+
+export const FOOD_SEARCH_SYNONYMS: SearchSynonymGroups = [
+  ['petto di pollo', 'pollo petto', 'chicken breast', 'pechuga de pollo'],
+  ['fiocchi di avena', "fiocchi d'avena", 'avena', 'oats', 'oatmeal', 'porridge'],
+  ['albume', 'albumi', 'egg white', 'egg whites', 'chiara d uovo'],
+  ['uovo', 'uova', 'egg', 'eggs'],
+  ['yogurt greco', 'greek yogurt', 'yogurt colato'],
+  ['fesa di tacchino', 'petto di tacchino', 'turkey breast'],
+  ['patata dolce', 'patate dolci', 'patata americana', 'sweet potato', 'batata'],
+  ['riso basmati', 'basmati rice', 'basmati'],
+  ['burro di arachidi', "burro d'arachidi", 'peanut butter'],
+  ['olio evo', 'olio extravergine di oliva', 'olio extra vergine', 'extra virgin olive oil'],
+  ['fiocchi di latte', 'cottage cheese', 'fiocchi di formaggio'],
+  ['proteine whey', 'siero del latte', 'whey protein', 'whey'],
+  ['bresaola', 'carne salada'],
+  ['gallette di riso', 'gallette', 'rice cakes', 'rice cake'],
+];
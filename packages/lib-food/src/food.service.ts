@@ -1,7 +1,7 @@
 /**
  * Food Service
  *
- * Servizio per gestione catalogo alimenti con search BM25
+ * Servizio per gestione catalogo alimenti con ricerca full-text (per locale, fuzzy, sinonimi)
  * Segue pattern ExerciseService per consistenza
  *
  * NOTE: This file does not use 'server-only' because it's exported from lib-food
@@ -11,13 +11,30 @@
  * safely used in client components.
  */
 
-import { prisma } from '@onecoach/lib-core';
+import { prisma, logger } from '@onecoach/lib-core';
+import {
+  buildFullTextSearchSql,
+  expandSearchTerms,
+  prepareSearchTerm,
+  toSearchHighlight,
+  type FullTextSearchRow,
+  type SearchHighlight,
+} from '@onecoach/lib-core/db/full-text-search';
 import { Prisma } from '@prisma/client';
 import { createId } from '@onecoach/lib-shared/id-generator';
 import type { FoodItem } from '@onecoach/types';
 import type { Macros } from '@onecoach/types';
 import { SUPPORTED_FOOD_LOCALES } from '@onecoach/constants';
 import type { FoodsResponse } from '@onecoach/lib-api';
+import {
+  parseFoodPortions,
+  tryResolveQuantityInGrams,
+  type FoodPortion,
+  type FoodPortionSource,
+} from './food-portions';
+import { barcodeVariants, normalizeBarcode } from './barcode';
+import { getNutrientsPer100g, scaleNutrients, type MacrosWithNutrients } from './nutrients';
+import { FOOD_SEARCH_SYNONYMS } from './food-search-synonyms';
 
 const DEFAULT_LOCALE = 'it';
 
@@ -35,14 +52,21 @@ interface FoodListOptions {
   locale?: string;
 }
 
+/**
+ * FoodItem con porzioni specifiche e densità (food_items.portions / densityGPerMl)
+ */
+export type FoodItemWithPortions = FoodItem & {
+  portions: FoodPortion[];
+  densityGPerMl: number | null;
+};
+
 // Allineato con FoodsResponse da lib-api per consistenza strutturale
 // Rimuoviamo FoodListResult e usiamo direttamente FoodsResponse
 
-interface SearchResultRow {
-  id: string;
-  has_locale: boolean;
-  rank: number;
-}
+/**
+ * Risultato di ricerca con i campi evidenziati della traduzione che ha prodotto il match
+ */
+export type FoodSearchHit = FoodItemWithPortions & { highlight: SearchHighlight };
 
 // Tipo per il risultato Prisma con include flessibile
 // Accetta qualsiasi risultato Prisma che abbia almeno food_item_translations
@@ -59,11 +83,6 @@ type FoodItemWithRelations = Prisma.food_itemsGetPayload<{
   mainMacro?: Prisma.JsonValue;
 };
 
-// Cache per average document length (BM25)
-let cachedAvgDocLength: number | null = null;
-let avgDocLengthCacheTime: number = 0;
-const AVG_DOC_LENGTH_CACHE_TTL_MS = 3600000; // 1 hour
-
 /**
  * Normalizza nome alimento per matching
  */
@@ -78,22 +97,24 @@ export function normalizeFoodName(name: string): string {
 }
 
 /**
- * Calcola macros per quantità data da macrosPer100g
+ * Calcola macros per quantità data da macrosPer100g.
+ * L'unità può essere di massa, di volume (convertita con la densità dell'alimento)
+ * o una porzione dell'alimento (es. "fetta", "medium egg").
+ * Le unità non convertibili sono trattate come grammi, come prima delle porzioni.
+ * I micronutrienti (macrosPer100g.nutrients) vengono scalati sugli stessi grammi.
  */
 export function calculateMacrosFromQuantity(
   macrosPer100g: Macros,
   quantity: number,
-  unit: string = 'g'
-): Macros {
-  // Converti quantity in grammi se necessario
-  let quantityInGrams = quantity;
-  if (unit === 'kg') quantityInGrams = quantity * 1000;
-  else if (unit === 'ml' && macrosPer100g.calories) {
-    // Assumiamo 1ml ≈ 1g per liquidi (approssimazione)
-    quantityInGrams = quantity;
-  }
+  unit: string = 'g',
+  food: FoodPortionSource = {},
+  locale?: string
+): MacrosWithNutrients {
+  const quantityInGrams =
+    tryResolveQuantityInGrams(quantity, unit, food, locale)?.grams ?? quantity;
 
   const multiplier = quantityInGrams / 100;
+  const nutrients = getNutrientsPer100g(macrosPer100g);
 
   return {
     calories: Math.round(macrosPer100g.calories * multiplier * 100) / 100, // Round to 2 decimals
@@ -103,6 +124,8 @@ export function calculateMacrosFromQuantity(
     fiber: macrosPer100g.fiber
       ? Math.round(macrosPer100g.fiber * multiplier * 100) / 100
       : undefined,
+    nutrients:
+      Object.keys(nutrients).length > 0 ? scaleNutrients(nutrients, quantityInGrams) : undefined,
   };
 }
 
@@ -110,7 +133,7 @@ export class FoodService {
   /**
    * Recupera alimento per ID
    */
-  static async getFoodById(id: string): Promise<FoodItem | null> {
+  static async getFoodById(id: string): Promise<FoodItemWithPortions | null> {
     const food = await prisma.food_items.findUnique({
       where: { id },
       include: {
@@ -128,10 +151,41 @@ export class FoodService {
     return this.mapToFoodItem(food);
   }
 
+  /**
+   * Recupera alimento per barcode (EAN-8, UPC-A, EAN-13, GTIN-14)
+   * Lookup indicizzato sulla forma canonica; null se il codice non è valido
+   */
+  static async getFoodByBarcode(
+    barcode: string,
+    locale: string = DEFAULT_LOCALE
+  ): Promise<FoodItemWithPortions | null> {
+    const canonical = normalizeBarcode(barcode);
+    if (!canonical) return null;
+
+    const food = await prisma.food_items.findFirst({
+      where: { barcode: { in: barcodeVariants(canonical) } },
+      include: {
+        food_item_translations: {
+          where: { locale: { in: [locale, DEFAULT_LOCALE] } },
+        },
+        brand: true,
+        categories: { include: { food_categories: true } },
+      },
+    });
+
+    if (!food) return null;
+
+    // Preferisce la traduzione nel locale richiesto
+    food.food_item_translations.sort(
+      (a, b) => Number(b.locale === locale) - Number(a.locale === locale)
+    );
+    return this.mapToFoodItem(food);
+  }
+
   /**
    * Recupera multipli alimenti per IDs (batch lookup)
    */
-  static async getFoodsByIds(ids: string[]): Promise<FoodItem[]> {
+  static async getFoodsByIds(ids: string[]): Promise<FoodItemWithPortions[]> {
     if (ids.length === 0) return [];
 
     const foods = await prisma.food_items.findMany({
@@ -217,24 +271,32 @@ export class FoodService {
   }
 
   /**
-   * Cerca alimenti con BM25 search
+   * Cerca alimenti con full-text per locale, sinonimi e fallback fuzzy (errori di battitura)
    */
-  static async searchFoods(query: string, options: SearchFoodOptions = {}): Promise<FoodItem[]> {
-    const locale = options.locale || DEFAULT_LOCALE;
-    const limit = options.limit || 20;
+  static async searchFoods(
+    query: string,
+    options: SearchFoodOptions = {}
+  ): Promise<FoodSearchHit[]> {
+    const locale = this.resolveSearchLocale(options.locale);
+    const pageSize = options.pageSize || options.limit || 20;
+    const page = options.page || 1;
 
     // Null safety for query parameter
     if (!query || typeof query !== 'string' || !query.trim()) {
       return [];
     }
 
-    const searchResults = await this.searchFullText(query, { locale, limit });
+    const searchResults = await this.searchFullText(query, {
+      locale,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
 
     if (searchResults.length === 0) {
       return [];
     }
 
-    const foodIds = searchResults.map((r: SearchResultRow) => r.id);
+    const foodIds = searchResults.map((r: FullTextSearchRow) => r.id);
     const foods = await prisma.food_items.findMany({
       where: { id: { in: foodIds } },
       include: {
@@ -247,12 +309,28 @@ export class FoodService {
       },
     });
 
-    // Mantieni ordine BM25
+    // Mantieni ordine di rank
     const foodMap = new Map<string, FoodItemWithRelations>(foods.map((f: any) => [f.id, f]));
-    return searchResults
-      .map((r: any) => foodMap.get(r.id))
-      .filter((f): f is FoodItemWithRelations => f !== undefined)
-      .map((f: any) => this.mapToFoodItem(f));
+    return searchResults.flatMap((r: FullTextSearchRow) => {
+      const food = foodMap.get(r.id);
+      return food ? [{ ...this.mapToFoodItem(food), highlight: toSearchHighlight(r) }] : [];
+    });
+  }
+
+  /**
+   * Come searchFoods, con il totale dei risultati per la paginazione
+   */
+  static async searchFoodsPaginated(
+    query: string,
+    options: SearchFoodOptions = {}
+  ): Promise<{ data: FoodSearchHit[]; total: number; page: number; pageSize: number }> {
+    const pageSize = options.pageSize || options.limit || 20;
+    const page = options.page || 1;
+
+    const total = query?.trim() ? await this.countFullText(query) : 0;
+    const data = total > 0 ? await this.searchFoods(query, { ...options, page, pageSize }) : [];
+
+    return { data, total, page, pageSize };
   }
 
   /**
@@ -261,7 +339,7 @@ export class FoodService {
   static async createFood(data: {
     name: string;
     description: string; // REQUIRED
-    macrosPer100g: Macros;
+    macrosPer100g: MacrosWithNutrients;
     servingSize: number; // REQUIRED
     unit?: string;
     barcode?: string;
@@ -271,9 +349,14 @@ export class FoodService {
     brandId?: string;
     brandName?: string;
     categoryIds?: string[];
-  }): Promise<FoodItem> {
+    portions?: FoodPortion[];
+    densityGPerMl?: number;
+    /** Nome/descrizione per locale; i locale mancanti usano name e description */
+    translations?: Record<string, { name: string; description?: string }>;
+  }): Promise<FoodItemWithPortions> {
     const nameNormalized = normalizeFoodName(data.name);
     const locale = data.locale || DEFAULT_LOCALE;
+    const barcode = this.resolveBarcode(data.barcode);
 
     // Calcola percentuali macro
     const totalKcal = Math.max(1, data.macrosPer100g.calories || 0);
@@ -311,11 +394,13 @@ export class FoodService {
         id: createId(),
         name: data.name,
         nameNormalized,
-        barcode: data.barcode,
+        barcode,
         macrosPer100g: data.macrosPer100g as unknown as Prisma.InputJsonValue,
         servingSize: data.servingSize,
         unit: data.unit || 'g',
         metadata: data.metadata as Prisma.InputJsonValue,
+        portions: (data.portions ?? []) as unknown as Prisma.InputJsonValue,
+        densityGPerMl: data.densityGPerMl ?? null,
         imageUrl: data.imageUrl,
         brandId: resolvedBrandId || null, // Use brandId directly instead of relation
         mainMacro: mainMacro as unknown as Prisma.InputJsonValue, // REQUIRED - campo presente nello schema
@@ -326,8 +411,8 @@ export class FoodService {
           create: SUPPORTED_FOOD_LOCALES.map((locale: string) => ({
             id: createId(),
             locale,
-            name: data.name, // Same name for all locales
-            description: data.description, // Same description for all locales (can be enhanced later with AI translation)
+            name: data.translations?.[locale]?.name || data.name, // Fallback: same name for all locales
+            description: data.translations?.[locale]?.description || data.description, // Fallback: same description (can be enhanced later with AI translation)
           })),
         },
         ...(data.categoryIds && data.categoryIds.length
@@ -362,7 +447,7 @@ export class FoodService {
     data: {
       name?: string;
       description: string; // REQUIRED - always required even in updates
-      macrosPer100g?: Macros;
+      macrosPer100g?: MacrosWithNutrients;
       servingSize?: number;
       unit?: string;
       barcode?: string; // Optional - only for packaged foods
@@ -371,8 +456,10 @@ export class FoodService {
       brandId?: string;
       brandName?: string;
       categoryIds?: string[];
+      portions?: FoodPortion[];
+      densityGPerMl?: number | null;
     }
-  ): Promise<FoodItem> {
+  ): Promise<FoodItemWithPortions> {
     const updateData: Prisma.food_itemsUpdateInput = {
       ...(data.name && { name: data.name, nameNormalized: normalizeFoodName(data.name) }),
       ...(data.macrosPer100g && {
@@ -380,11 +467,15 @@ export class FoodService {
       }),
       ...(data.servingSize !== undefined && { servingSize: data.servingSize }),
       ...(data.unit && { unit: data.unit }),
-      ...(data.barcode !== undefined && { barcode: data.barcode }),
+      ...(data.barcode !== undefined && { barcode: this.resolveBarcode(data.barcode) }),
       ...(data.metadata !== undefined && {
         metadata: data.metadata as Prisma.InputJsonValue,
       }),
       ...(data.imageUrl !== undefined && { imageUrl: data.imageUrl }),
+      ...(data.portions !== undefined && {
+        portions: data.portions as unknown as Prisma.InputJsonValue,
+      }),
+      ...(data.densityGPerMl !== undefined && { densityGPerMl: data.densityGPerMl }),
       updatedAt: new Date(),
     };
 
@@ -452,9 +543,33 @@ export class FoodService {
       },
     });
 
+    // Ricette che usano l'alimento (import dinamico: recipe.service importa questo modulo).
+    // L'alimento è già salvato: un errore nel ricalcolo non deve far fallire l'update
+    if (data.macrosPer100g || data.portions !== undefined || data.densityGPerMl !== undefined) {
+      try {
+        const { RecipeService } = await import('./recipe.service');
+        await RecipeService.recomputeForFood(id);
+      } catch (error: unknown) {
+        logger.error(`[FoodService.updateFood] Ricalcolo ricette fallito per ${id}`, error);
+      }
+    }
+
     return this.mapToFoodItem(food);
   }
 
+  /**
+   * Barcode canonico per il salvataggio; vuoto → null, non valido → errore
+   */
+  private static resolveBarcode(barcode: string | null | undefined): string | null {
+    if (!barcode || barcode.trim() === '') return null;
+
+    const canonical = normalizeBarcode(barcode);
+    if (!canonical) {
+      throw new Error(`Barcode non valido: ${barcode}`);
+    }
+    return canonical;
+  }
+
   /**
    * Calcola mainMacro dai macros
    */
@@ -559,67 +674,109 @@ export class FoodService {
   }
 
   /**
-   * Search full-text con BM25
+   * Locale di ricerca: solo quelli supportati dal catalogo, altrimenti il default
+   */
+  private static resolveSearchLocale(locale?: string): string {
+    const normalized = locale?.toLowerCase();
+    return normalized && (SUPPORTED_FOOD_LOCALES as readonly string[]).includes(normalized)
+      ? normalized
+      : DEFAULT_LOCALE;
+  }
+
+  /**
+   * Frammenti SQL di ricerca sulle traduzioni (alias fit)
+   */
+  private static buildSearchSql(query: string, terms: string[]) {
+    return buildFullTextSearchSql(query, terms, {
+      locale: Prisma.sql`fit."locale"`,
+      name: Prisma.sql`fit.name`,
+      description: Prisma.sql`fit.description`,
+    });
+  }
+
+  /**
+   * Ricerca full-text: ogni traduzione usa la configurazione del proprio locale,
+   * i match solo fuzzy seguono quelli testuali e le traduzioni nel locale richiesto pesano di più
    */
   private static async searchFullText(
     term: string,
     options: {
       locale: string;
       limit: number;
+      offset: number;
     }
-  ): Promise<SearchResultRow[]> {
-    const query = term.trim();
+  ): Promise<FullTextSearchRow[]> {
+    const query = prepareSearchTerm(term);
     if (!query) {
       return [];
     }
 
-    const preparedTerm = query.replace(/[:!&|']/g, ' ');
-
-    // Get average document length for BM25 (cached for 1 hour)
-    let avgLen = 50.0;
-    const now = Date.now();
-
-    if (cachedAvgDocLength && now - avgDocLengthCacheTime < AVG_DOC_LENGTH_CACHE_TTL_MS) {
-      avgLen = cachedAvgDocLength;
-    } else {
-      const avgDocLength = await prisma.$queryRaw<[{ avg_length: number }]>(Prisma.sql`
-        SELECT AVG(LENGTH(name || ' ' || COALESCE(description, '')))::numeric AS avg_length
-        FROM "food_item_translations"
-      `);
-      avgLen = avgDocLength[0]?.avg_length ?? 50.0;
-      cachedAvgDocLength = avgLen;
-      avgDocLengthCacheTime = now;
-    }
+    const terms = expandSearchTerms(query, FOOD_SEARCH_SYNONYMS);
+    const search = this.buildSearchSql(query, terms);
+    // Evidenziazione calcolata solo sulla pagina, sulla traduzione migliore
+    const highlight = buildFullTextSearchSql(query, terms, {
+      locale: Prisma.sql`matches.matched_locale`,
+      name: Prisma.sql`matches.name`,
+      description: Prisma.sql`matches.description`,
+    });
 
-    const rows = await prisma.$queryRaw<SearchResultRow[]>(Prisma.sql`
+    return prisma.$queryRaw<FullTextSearchRow[]>(Prisma.sql`
       SELECT
-        fi.id AS id,
-        MAX(CASE WHEN fit."locale" = ${options.locale} THEN 1 ELSE 0 END)::boolean AS has_locale,
-        MAX(
-          ts_rank_cd(
-            to_tsvector('italian', fit.name || ' ' || COALESCE(fit.description, '')),
-            plainto_tsquery('italian', ${preparedTerm})
-          ) * CASE 
+        matches.id,
+        matches.rank,
+        matches.has_locale,
+        matches.fuzzy,
+        matches.matched_locale,
+        ${highlight.highlightName} AS highlight_name,
+        ${highlight.highlightDescription} AS highlight_description
+      FROM (
+        SELECT DISTINCT ON (fi.id)
+          fi.id AS id,
+          fi."createdAt" AS created_at,
+          fit."locale" AS matched_locale,
+          fit.name AS name,
+          fit.description AS description,
+          fit."locale" = ${options.locale} AS has_locale,
+          NOT ${search.textMatch} AS fuzzy,
+          ${search.rank} * CASE
             WHEN fit."locale" = ${options.locale} THEN 2.0
             WHEN fit."locale" = ${DEFAULT_LOCALE} THEN 1.0
             ELSE 0.5
-          END
-        ) AS rank
+          END AS rank
+        FROM "food_items" fi
+        INNER JOIN "food_item_translations" fit ON fit."foodItemId" = fi.id
+        WHERE ${search.match}
+        ORDER BY fi.id, fuzzy ASC, rank DESC
+      ) AS matches
+      ORDER BY matches.fuzzy ASC, matches.rank DESC, matches.created_at DESC
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `);
+  }
+
+  /**
+   * Numero di alimenti che soddisfano la ricerca (stessi criteri di searchFullText)
+   */
+  private static async countFullText(term: string): Promise<number> {
+    const query = prepareSearchTerm(term);
+    if (!query) {
+      return 0;
+    }
+
+    const search = this.buildSearchSql(query, expandSearchTerms(query, FOOD_SEARCH_SYNONYMS));
+    const result = await prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`
+      SELECT COUNT(DISTINCT fi.id)::bigint AS count
       FROM "food_items" fi
       INNER JOIN "food_item_translations" fit ON fit."foodItemId" = fi.id
-      WHERE to_tsvector('italian', fit.name || ' ' || COALESCE(fit.description, '')) @@ plainto_tsquery('italian', ${preparedTerm})
-      GROUP BY fi.id
-      ORDER BY rank DESC, fi."createdAt" DESC
-      LIMIT ${options.limit}
+      WHERE ${search.match}
     `);
 
-    return rows;
+    return Number(result[0]?.count ?? 0);
   }
 
   /**
    * Mappa Prisma model a FoodItem type
    */
-  private static mapToFoodItem(food: FoodItemWithRelations): FoodItem {
+  private static mapToFoodItem(food: FoodItemWithRelations): FoodItemWithPortions {
     // Gestisce sia array che singolo elemento per food_item_translations
     const translations = Array.isArray(food.food_item_translations)
       ? food.food_item_translations
@@ -638,6 +795,8 @@ export class FoodService {
       macrosPer100g: food.macrosPer100g as unknown as Macros,
       servingSize: food.servingSize ? Number(food.servingSize) : 0,
       unit: food.unit,
+      portions: parseFoodPortions(food.portions),
+      densityGPerMl: food.densityGPerMl ? Number(food.densityGPerMl) : null,
       imageUrl: food.imageUrl || undefined,
       brandId: food.brandId || undefined,
       mainMacro: (mainMacro || { type: 'BALANCED', percentage: 0 }) as {
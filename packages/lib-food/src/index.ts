@@ -6,6 +6,13 @@
  */
 
 export * from './food.service';
+export * from './food-portions';
+export * from './nutrients';
+export * from './barcode';
 export * from './food-admin.service';
 export * from './food-matching.service';
 export * from './food-vision.service';
+export * from './macro-solver';
+export * from './meal-solver.service';
+export * from './nutrient-target.service';
+export * from './recipe.service';
@@ -0,0 +1,500 @@
+/**
+ * Macro Solver
+ *
+ * Solver deterministico che sceglie alimenti e grammature per raggiungere
+ * il target di calorie e macro di un pasto (o di una giornata) entro le tolleranze.
+ *
+ * Per ogni combinazione di 2..maxFoods alimenti del pool di candidati:
+ * 1. fit continuo delle grammature (minimi quadrati pesati, coordinate descent con limiti)
+ * 2. arrotondamento allo step di porzione e ricerca locale ±step
+ * 3. punteggio sulla deviazione relativa da ciascun target
+ *
+ * Stessi input → stesse soluzioni, nello stesso ordine.
+ */
+
+import type { Macros } from '@onecoach/types';
+import { normalizeFoodName } from './food.service';
+import { getNutrientsPer100g, scaleNutrients, type MacrosWithNutrients } from './nutrients';
+
+export interface MacroTarget {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+/** Tolleranza come frazione del target (0.1 = ±10%) */
+export type MacroTolerance = MacroTarget;
+
+export const DEFAULT_MACRO_TOLERANCE: MacroTolerance = {
+  calories: 0.05,
+  protein: 0.1,
+  carbs: 0.1,
+  fats: 0.15,
+};
+
+export interface SolverFood {
+  id: string;
+  name: string;
+  macrosPer100g: Macros;
+  categories?: string[];
+  allergens?: string[];
+  /** Limiti e step di porzione specifici dell'alimento, in grammi */
+  minGrams?: number;
+  maxGrams?: number;
+  step?: number;
+}
+
+export interface MealSolverOptions {
+  tolerance?: Partial<MacroTolerance>;
+  excludeFoodIds?: string[];
+  /** Termini esclusi, confrontati con nome e categorie */
+  exclusions?: string[];
+  /** Allergeni, confrontati con allergeni, nome e categorie */
+  allergies?: string[];
+  preferredFoodIds?: string[];
+  /** Termini preferiti, confrontati con nome e categorie */
+  preferences?: string[];
+  /** Alimenti penalizzati (non esclusi), per variare tra pasti */
+  avoidFoodIds?: string[];
+  minFoods?: number;
+  maxFoods?: number;
+  step?: number;
+  minGrams?: number;
+  maxGrams?: number;
+  /** Numero massimo di candidati combinati tra loro */
+  poolSize?: number;
+  maxAlternatives?: number;
+}
+
+export interface SolvedFood {
+  foodId: string;
+  name: string;
+  grams: number;
+  /** Macro e micronutrienti per la grammatura scelta */
+  macros: MacrosWithNutrients;
+}
+
+export interface MealSolution {
+  foods: SolvedFood[];
+  totals: MacroTarget;
+  /** totals − target */
+  deviation: MacroTarget;
+  withinTolerance: boolean;
+  score: number;
+}
+
+export interface DayMealTarget {
+  name: string;
+  target: MacroTarget;
+}
+
+export interface DayMealSolution extends DayMealTarget {
+  solution: MealSolution | null;
+  alternatives: MealSolution[];
+}
+
+export interface DaySolution {
+  meals: DayMealSolution[];
+  target: MacroTarget;
+  totals: MacroTarget;
+  withinTolerance: boolean;
+}
+
+const MACRO_KEYS = ['calories', 'protein', 'carbs', 'fats'] as const;
+/** Peso di ciascun macro nel punteggio */
+const MACRO_WEIGHTS = [2, 1.5, 1, 1];
+/** Scala minima per la deviazione relativa (target nulli o molto piccoli) */
+const MACRO_SCALE_FLOOR = [50, 5, 5, 5];
+/** Deviazione assoluta sempre tollerata (kcal, g) */
+const MACRO_ABSOLUTE_SLACK = [20, 3, 3, 2];
+
+const PREFERENCE_BONUS = 0.01;
+const AVOID_PENALTY = 0.02;
+const FIT_SWEEPS = 60;
+const LOCAL_SEARCH_PASSES = 20;
+
+type Vector = [number, number, number, number];
+
+interface PreparedFood {
+  food: SolverFood;
+  /** Macro per grammo, nell'ordine di MACRO_KEYS */
+  perGram: Vector;
+  minGrams: number;
+  maxGrams: number;
+  step: number;
+  preferred: boolean;
+  avoided: boolean;
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toVector(target: MacroTarget): Vector {
+  return [target.calories, target.protein, target.carbs, target.fats];
+}
+
+function fromVector(values: number[]): MacroTarget {
+  return {
+    calories: Math.round(values[0] ?? 0),
+    protein: round(values[1] ?? 0),
+    carbs: round(values[2] ?? 0),
+    fats: round(values[3] ?? 0),
+  };
+}
+
+/**
+ * Macro per 100g, accettando anche la chiave legacy `fat`
+ */
+function readPer100g(macros: Macros): Vector {
+  const raw = macros as unknown as Record<string, unknown>;
+  const value = (key: string) => {
+    const n = Number(raw[key]);
+    return Number.isFinite(n) && n > 0 ? n : 0;
+  };
+  const protein = value('protein');
+  const carbs = value('carbs');
+  const fats = value('fats') || value('fat');
+  const calories = value('calories') || protein * 4 + carbs * 4 + fats * 9;
+  return [calories, protein, carbs, fats];
+}
+
+function normalizedTerms(terms: string[] | undefined): string[] {
+  return (terms ?? []).map(normalizeFoodName).filter((term) => term.length > 0);
+}
+
+function matchesAny(haystack: string[], terms: string[]): boolean {
+  return terms.some((term) => haystack.some((value) => value.includes(term)));
+}
+
+function foodHaystack(food: SolverFood, withAllergens: boolean): string[] {
+  return [
+    food.name,
+    ...(food.categories ?? []),
+    ...(withAllergens ? (food.allergens ?? []) : []),
+  ].map(normalizeFoodName);
+}
+
+/**
+ * Rimuove alimenti esclusi, con allergeni o senza macro utilizzabili
+ */
+export function filterSolverFoods(
+  foods: SolverFood[],
+  options: MealSolverOptions = {}
+): SolverFood[] {
+  const excludedIds = new Set(options.excludeFoodIds ?? []);
+  const exclusions = normalizedTerms(options.exclusions);
+  const allergies = normalizedTerms(options.allergies);
+
+  return foods.filter((food) => {
+    if (excludedIds.has(food.id)) return false;
+    if (readPer100g(food.macrosPer100g)[0] <= 0) return false;
+    if (exclusions.length > 0 && matchesAny(foodHaystack(food, false), exclusions)) return false;
+    if (allergies.length > 0 && matchesAny(foodHaystack(food, true), allergies)) return false;
+    return true;
+  });
+}
+
+function prepareFoods(foods: SolverFood[], options: MealSolverOptions): PreparedFood[] {
+  const preferredIds = new Set(options.preferredFoodIds ?? []);
+  const preferences = normalizedTerms(options.preferences);
+  const avoidedIds = new Set(options.avoidFoodIds ?? []);
+  const seen = new Set<string>();
+
+  return foods.flatMap((food) => {
+    if (seen.has(food.id)) return [];
+    seen.add(food.id);
+
+    const step = Math.max(1, food.step ?? options.step ?? 5);
+    const minGrams = Math.ceil((food.minGrams ?? options.minGrams ?? 10) / step) * step;
+    const maxGrams = Math.floor((food.maxGrams ?? options.maxGrams ?? 400) / step) * step;
+    if (maxGrams < minGrams || maxGrams <= 0) return [];
+
+    return [
+      {
+        food,
+        perGram: readPer100g(food.macrosPer100g).map((v) => v / 100) as Vector,
+        minGrams,
+        maxGrams,
+        step,
+        preferred:
+          preferredIds.has(food.id) ||
+          (preferences.length > 0 && matchesAny(foodHaystack(food, false), preferences)),
+        avoided: avoidedIds.has(food.id),
+      },
+    ];
+  });
+}
+
+/**
+ * Macro dominante per quota energetica (0 = proteine, 1 = carboidrati, 2 = grassi)
+ */
+function dominantMacro(food: PreparedFood): number {
+  const [, protein, carbs, fats] = food.perGram;
+  const energy = [protein * 4, carbs * 4, fats * 9];
+  return energy.indexOf(Math.max(...energy));
+}
+
+/**
+ * Pool di candidati: preferiti prima, poi alternanza proteine/carboidrati/grassi
+ * rispettando l'ordine di input (rilevanza decisa dal chiamante)
+ */
+function selectPool(foods: PreparedFood[], poolSize: number): PreparedFood[] {
+  const ordered = [
+    ...foods.filter((f) => f.preferred && !f.avoided),
+    ...foods.filter((f) => !f.preferred && !f.avoided),
+    ...foods.filter((f) => f.avoided),
+  ];
+  const buckets: PreparedFood[][] = [[], [], []];
+  for (const food of ordered) buckets[dominantMacro(food)]!.push(food);
+
+  const pool: PreparedFood[] = [];
+  for (let i = 0; pool.length < poolSize && buckets.some((b) => b.length > i); i++) {
+    for (const bucket of buckets) {
+      const food = bucket[i];
+      if (food && pool.length < poolSize) pool.push(food);
+    }
+  }
+  return pool;
+}
+
+function resolveTolerance(options: MealSolverOptions): Vector {
+  return toVector({ ...DEFAULT_MACRO_TOLERANCE, ...options.tolerance });
+}
+
+function totalsOf(foods: PreparedFood[], grams: number[]): Vector {
+  const totals: Vector = [0, 0, 0, 0];
+  foods.forEach((food, i) => {
+    for (let m = 0; m < 4; m++) totals[m]! += food.perGram[m]! * grams[i]!;
+  });
+  return totals;
+}
+
+function scoreTotals(totals: Vector, target: Vector): number {
+  let score = 0;
+  for (let m = 0; m < 4; m++) {
+    const scale = Math.max(target[m]!, MACRO_SCALE_FLOOR[m]!);
+    const relative = (totals[m]! - target[m]!) / scale;
+    score += MACRO_WEIGHTS[m]! * relative * relative;
+  }
+  return score;
+}
+
+function isWithinTolerance(totals: Vector, target: Vector, tolerance: Vector): boolean {
+  return totals.every(
+    (value, m) =>
+      Math.abs(value - target[m]!) <= Math.max(target[m]! * tolerance[m]!, MACRO_ABSOLUTE_SLACK[m]!)
+  );
+}
+
+/**
+ * Fit continuo con limiti: coordinate descent sui minimi quadrati pesati
+ */
+function fitContinuous(foods: PreparedFood[], target: Vector): number[] {
+  const coefficients = target.map(
+    (t, m) => MACRO_WEIGHTS[m]! / Math.max(t, MACRO_SCALE_FLOOR[m]!) ** 2
+  );
+  const grams = foods.map((food) => {
+    const share = target[0]! / foods.length / Math.max(food.perGram[0]!, 1e-6);
+    return Math.min(food.maxGrams, Math.max(food.minGrams, share));
+  });
+  const residual = totalsOf(foods, grams).map((v, m) => v - target[m]!);
+
+  for (let sweep = 0; sweep < FIT_SWEEPS; sweep++) {
+    let maxChange = 0;
+    foods.forEach((food, i) => {
+      let gradient = 0;
+      let curvature = 0;
+      for (let m = 0; m < 4; m++) {
+        gradient += coefficients[m]! * food.perGram[m]! * residual[m]!;
+        curvature += coefficients[m]! * food.perGram[m]! ** 2;
+      }
+      if (curvature <= 0) return;
+
+      const next = Math.min(
+        food.maxGrams,
+        Math.max(food.minGrams, grams[i]! - gradient / curvature)
+      );
+      const change = next - grams[i]!;
+      if (change === 0) return;
+
+      for (let m = 0; m < 4; m++) residual[m]! += food.perGram[m]! * change;
+      grams[i] = next;
+      maxChange = Math.max(maxChange, Math.abs(change));
+    });
+    if (maxChange < 0.01) break;
+  }
+
+  return grams;
+}
+
+/**
+ * Arrotonda allo step di porzione e migliora con spostamenti di ±step
+ */
+function roundToSteps(foods: PreparedFood[], grams: number[], target: Vector): number[] {
+  const rounded = grams.map((g, i) => {
+    const food = foods[i]!;
+    return Math.min(food.maxGrams, Math.max(food.minGrams, Math.round(g / food.step) * food.step));
+  });
+
+  let best = scoreTotals(totalsOf(foods, rounded), target);
+  for (let pass = 0; pass < LOCAL_SEARCH_PASSES; pass++) {
+    let improved = false;
+    foods.forEach((food, i) => {
+      for (const delta of [food.step, -food.step]) {
+        const candidate = rounded[i]! + delta;
+        if (candidate < food.minGrams || candidate > food.maxGrams) continue;
+
+        const previous = rounded[i]!;
+        rounded[i] = candidate;
+        const score = scoreTotals(totalsOf(foods, rounded), target);
+        if (score < best - 1e-9) {
+          best = score;
+          improved = true;
+        } else {
+          rounded[i] = previous;
+        }
+      }
+    });
+    if (!improved) break;
+  }
+
+  return rounded;
+}
+
+function buildSolution(
+  foods: PreparedFood[],
+  grams: number[],
+  target: Vector,
+  tolerance: Vector
+): MealSolution {
+  const totals = totalsOf(foods, grams);
+  const bonus = foods.reduce(
+    (acc, food) =>
+      acc + (food.avoided ? AVOID_PENALTY : 0) - (food.preferred ? PREFERENCE_BONUS : 0),
+    0
+  );
+
+  return {
+    foods: foods.map((food, i) => {
+      const macros: MacrosWithNutrients = fromVector(food.perGram.map((v) => v * grams[i]!));
+      const nutrients = getNutrientsPer100g(food.food.macrosPer100g);
+      if (Object.keys(nutrients).length > 0) {
+        macros.nutrients = scaleNutrients(nutrients, grams[i]!);
+      }
+      return { foodId: food.food.id, name: food.food.name, grams: grams[i]!, macros };
+    }),
+    totals: fromVector(totals),
+    deviation: fromVector(totals.map((v, m) => v - target[m]!)),
+    withinTolerance: isWithinTolerance(totals, target, tolerance),
+    score: round(scoreTotals(totals, target) + bonus, 6),
+  };
+}
+
+function compareSolutions(a: MealSolution, b: MealSolution): number {
+  if (a.withinTolerance !== b.withinTolerance) return a.withinTolerance ? -1 : 1;
+  if (a.score !== b.score) return a.score - b.score;
+  const keyA = a.foods.map((f) => f.foodId).join('|');
+  const keyB = b.foods.map((f) => f.foodId).join('|');
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+}
+
+function* combinations<T>(items: T[], size: number, start = 0): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - size; i++) {
+    for (const rest of combinations(items, size - 1, i + 1)) {
+      yield [items[i]!, ...rest];
+    }
+  }
+}
+
+/**
+ * Grammature per un insieme fisso di alimenti (es. ribilanciare un pasto esistente)
+ */
+export function fitQuantities(
+  foods: SolverFood[],
+  target: MacroTarget,
+  options: MealSolverOptions = {}
+): MealSolution | null {
+  const prepared = prepareFoods(foods, options);
+  if (prepared.length === 0) return null;
+
+  const targetVector = toVector(target);
+  const grams = roundToSteps(prepared, fitContinuous(prepared, targetVector), targetVector);
+  return buildSolution(prepared, grams, targetVector, resolveTolerance(options));
+}
+
+/**
+ * Alternative ordinate per un pasto: prima quelle entro tolleranza, poi per punteggio
+ */
+export function solveMeal(
+  foods: SolverFood[],
+  target: MacroTarget,
+  options: MealSolverOptions = {}
+): MealSolution[] {
+  const minFoods = Math.max(1, options.minFoods ?? 2);
+  const maxFoods = Math.max(minFoods, options.maxFoods ?? 3);
+  const pool = selectPool(
+    prepareFoods(filterSolverFoods(foods, options), options),
+    options.poolSize ?? 18
+  );
+  const targetVector = toVector(target);
+  const tolerance = resolveTolerance(options);
+
+  const solutions: MealSolution[] = [];
+  for (let size = minFoods; size <= Math.min(maxFoods, pool.length); size++) {
+    for (const combo of combinations(pool, size)) {
+      const grams = roundToSteps(combo, fitContinuous(combo, targetVector), targetVector);
+      solutions.push(buildSolution(combo, grams, targetVector, tolerance));
+    }
+  }
+
+  return solutions.sort(compareSolutions).slice(0, options.maxAlternatives ?? 5);
+}
+
+/**
+ * Risolve i pasti in sequenza, penalizzando gli alimenti già usati nella giornata
+ */
+export function solveDay(
+  meals: DayMealTarget[],
+  foods: SolverFood[],
+  options: MealSolverOptions = {}
+): DaySolution {
+  const used = new Set(options.avoidFoodIds ?? []);
+  const solved: DayMealSolution[] = [];
+
+  for (const meal of meals) {
+    const alternatives = solveMeal(foods, meal.target, { ...options, avoidFoodIds: [...used] });
+    const solution = alternatives[0] ?? null;
+    solution?.foods.forEach((food) => used.add(food.foodId));
+    solved.push({ ...meal, solution, alternatives });
+  }
+
+  const sum = (values: MacroTarget[]) =>
+    fromVector(MACRO_KEYS.map((key) => values.reduce((acc, v) => acc + v[key], 0)));
+  const target = sum(meals.map((m) => m.target));
+  const totals = sum(solved.map((m) => m.solution?.totals ?? fromVector([0, 0, 0, 0])));
+
+  return {
+    meals: solved,
+    target,
+    totals,
+    withinTolerance: isWithinTolerance(
+      toVector(totals),
+      toVector(target),
+      resolveTolerance(options)
+    ),
+  };
+}
+
+/**
+ * Scala un target (es. dopo un aggiustamento calorico della giornata)
+ */
+export function scaleMacroTarget(target: MacroTarget, factor: number): MacroTarget {
+  return fromVector(toVector(target).map((v) => v * factor));
+}
@@ -0,0 +1,92 @@
+/**
+ * Meal Solver Service
+ *
+ * Carica dal catalogo i candidati per il macro solver (alimenti comuni,
+ * preferiti per ID e per termine) e li converte in SolverFood.
+ */
+
+import type { FoodItem } from '@onecoach/types';
+import { FoodService } from './food.service';
+import {
+  solveDay,
+  solveMeal,
+  type DayMealTarget,
+  type DaySolution,
+  type MacroTarget,
+  type MealSolution,
+  type MealSolverOptions,
+  type SolverFood,
+} from './macro-solver';
+
+interface LoadCandidatesOptions {
+  preferredFoodIds?: string[];
+  preferences?: string[];
+  locale?: string;
+  /** Numero di alimenti comuni da caricare */
+  limit?: number;
+}
+
+export class MealSolverService {
+  /**
+   * Converte un FoodItem; allergeni e categorie arrivano da metadata
+   */
+  static toSolverFood(food: FoodItem): SolverFood {
+    const metadata = (food.metadata ?? {}) as Record<string, unknown>;
+    const categories = Array.isArray(metadata.categories)
+      ? (metadata.categories as Array<{ name?: string; slug?: string }>).flatMap((c) =>
+          [c.name, c.slug].filter((v): v is string => typeof v === 'string')
+        )
+      : [];
+    const allergens = Array.isArray(metadata.allergens)
+      ? (metadata.allergens as unknown[]).filter((v): v is string => typeof v === 'string')
+      : [];
+
+    return {
+      id: food.id,
+      name: food.name,
+      macrosPer100g: food.macrosPer100g,
+      categories,
+      allergens,
+    };
+  }
+
+  /**
+   * Candidati in ordine di rilevanza: preferiti per ID, per termine, poi comuni
+   */
+  static async loadCandidates(options: LoadCandidatesOptions = {}): Promise<SolverFood[]> {
+    const [byId, byTerm, common] = await Promise.all([
+      FoodService.getFoodsByIds(options.preferredFoodIds ?? []),
+      Promise.all(
+        (options.preferences ?? []).map((term) =>
+          FoodService.searchFoods(term, { locale: options.locale, limit: 10 })
+        )
+      ),
+      FoodService.getCommonFoods(options.limit ?? 200),
+    ]);
+
+    const seen = new Set<string>();
+    return [...byId, ...byTerm.flat(), ...common].flatMap((food) => {
+      if (seen.has(food.id)) return [];
+      seen.add(food.id);
+      return [this.toSolverFood(food)];
+    });
+  }
+
+  static async solveMeal(
+    target: MacroTarget,
+    options: MealSolverOptions & { locale?: string } = {}
+  ): Promise<MealSolution[]> {
+    const foods = await this.loadCandidates(options);
+    return solveMeal(foods, target, options);
+  }
+
+  static async solveDay(
+    meals: DayMealTarget[],
+    options: MealSolverOptions & { locale?: string } = {}
+  ): Promise<DaySolution> {
+    const foods = await this.loadCandidates(options);
+    return solveDay(meals, foods, options);
+  }
+}
+
+export const mealSolverService = MealSolverService;
@@ -0,0 +1,76 @@
+/**
+ * Nutrient Target Service
+ *
+ * Riferimenti giornalieri di micronutrienti per utente: default per sesso più
+ * override salvati su user_profiles.nutrientTargets (es. sodio limitato per
+ * ipertensione, ferro aumentato per carenza), modificabili dall'atleta o dal coach.
+ */
+
+import { prisma } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+import { createId } from '@onecoach/lib-shared/id-generator';
+import { parseNutrients, resolveDailyReferences, type NutrientValues } from './nutrients';
+
+export interface UserNutrientTargets {
+  userId: string;
+  sex: string | null;
+  /** Override impostati sul profilo */
+  overrides: NutrientValues;
+  /** Riferimenti effettivi (default + override) */
+  references: NutrientValues;
+}
+
+export class NutrientTargetService {
+  static async getTargets(userId: string): Promise<UserNutrientTargets> {
+    const profile = await prisma.user_profiles.findUnique({
+      where: { userId },
+      select: { sex: true, nutrientTargets: true },
+    });
+
+    const overrides = parseNutrients(profile?.nutrientTargets);
+    return {
+      userId,
+      sex: profile?.sex ?? null,
+      overrides,
+      references: resolveDailyReferences(profile?.sex, overrides),
+    };
+  }
+
+  static async getDailyReferences(userId: string): Promise<NutrientValues> {
+    return (await this.getTargets(userId)).references;
+  }
+
+  /**
+   * Aggiorna gli override: valore numerico = imposta, null = torna al default.
+   * Con replace=true sostituisce tutti gli override esistenti.
+   */
+  static async updateTargets(
+    userId: string,
+    changes: Record<string, number | null>,
+    options: { replace?: boolean } = {}
+  ): Promise<UserNutrientTargets> {
+    const current = options.replace ? {} : (await this.getTargets(userId)).overrides;
+    const next: NutrientValues = { ...current };
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete next[key];
+      } else if (Number.isFinite(value) && value >= 0) {
+        next[key] = value;
+      } else {
+        throw new Error(`Valore non valido per ${key}: ${value}`);
+      }
+    }
+
+    const nutrientTargets = next as unknown as Prisma.InputJsonValue;
+    await prisma.user_profiles.upsert({
+      where: { userId },
+      create: { id: createId(), userId, nutrientTargets, updatedAt: new Date() },
+      update: { nutrientTargets, updatedAt: new Date() },
+    });
+
+    return this.getTargets(userId);
+  }
+}
+
+export const nutrientTargetService = NutrientTargetService;
@@ -0,0 +1,211 @@
+/**
+ * Nutrients
+ *
+ * Modello estendibile dei micronutrienti. I valori per 100g sono salvati in
+ * macrosPer100g.nutrients (stessa colonna JSON dei macro), ciascuno nell'unità
+ * indicata in NUTRIENT_DEFINITIONS, e seguono le quantità come i macro:
+ * calculateMacrosFromQuantity, totali di pasto/giorno, actualDailyMacros.
+ *
+ * Chiavi non presenti in NUTRIENT_DEFINITIONS vengono conservate e sommate,
+ * ma non hanno un riferimento giornaliero di default.
+ */
+
+import { z } from 'zod';
+import type { Macros } from '@onecoach/types';
+
+export type NutrientKey =
+  | 'sodium'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'cholesterol'
+  | 'potassium'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'zinc'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12';
+
+/** Valori per nutriente; chiavi aggiuntive ammesse */
+export type NutrientValues = Partial<Record<NutrientKey, number>> & Record<string, number>;
+
+export type MacrosWithNutrients = Macros & { nutrients?: NutrientValues };
+
+export interface NutrientDefinition {
+  unit: 'g' | 'mg' | 'µg';
+  labels: { it: string; en: string };
+  /**
+   * LIMIT: da non superare (sodio, zuccheri, ...)
+   * TARGET: da raggiungere (ferro, calcio, ...)
+   */
+  kind: 'LIMIT' | 'TARGET';
+}
+
+export const NUTRIENT_DEFINITIONS: Record<NutrientKey, NutrientDefinition> = {
+  sodium: { unit: 'mg', labels: { it: 'Sodio', en: 'Sodium' }, kind: 'LIMIT' },
+  sugar: { unit: 'g', labels: { it: 'Zuccheri', en: 'Sugar' }, kind: 'LIMIT' },
+  saturatedFat: { unit: 'g', labels: { it: 'Grassi saturi', en: 'Saturated fat' }, kind: 'LIMIT' },
+  cholesterol: { unit: 'mg', labels: { it: 'Colesterolo', en: 'Cholesterol' }, kind: 'LIMIT' },
+  potassium: { unit: 'mg', labels: { it: 'Potassio', en: 'Potassium' }, kind: 'TARGET' },
+  calcium: { unit: 'mg', labels: { it: 'Calcio', en: 'Calcium' }, kind: 'TARGET' },
+  iron: { unit: 'mg', labels: { it: 'Ferro', en: 'Iron' }, kind: 'TARGET' },
+  magnesium: { unit: 'mg', labels: { it: 'Magnesio', en: 'Magnesium' }, kind: 'TARGET' },
+  zinc: { unit: 'mg', labels: { it: 'Zinco', en: 'Zinc' }, kind: 'TARGET' },
+  vitaminA: { unit: 'µg', labels: { it: 'Vitamina A', en: 'Vitamin A' }, kind: 'TARGET' },
+  vitaminC: { unit: 'mg', labels: { it: 'Vitamina C', en: 'Vitamin C' }, kind: 'TARGET' },
+  vitaminD: { unit: 'µg', labels: { it: 'Vitamina D', en: 'Vitamin D' }, kind: 'TARGET' },
+  vitaminB12: { unit: 'µg', labels: { it: 'Vitamina B12', en: 'Vitamin B12' }, kind: 'TARGET' },
+};
+
+export const NUTRIENT_KEYS = Object.keys(NUTRIENT_DEFINITIONS) as NutrientKey[];
+
+export const nutrientValuesSchema = z.record(z.string().min(1).max(50), z.number().min(0));
+
+export type NutrientReferenceSex = 'MALE' | 'FEMALE';
+
+/**
+ * Assunzioni giornaliere di riferimento per adulti (valori EFSA/NRV arrotondati)
+ */
+const DEFAULT_DAILY_REFERENCES: Record<NutrientReferenceSex, Record<NutrientKey, number>> = {
+  MALE: {
+    sodium: 2000,
+    sugar: 50,
+    saturatedFat: 20,
+    cholesterol: 300,
+    potassium: 3500,
+    calcium: 1000,
+    iron: 11,
+    magnesium: 350,
+    zinc: 11,
+    vitaminA: 750,
+    vitaminC: 110,
+    vitaminD: 15,
+    vitaminB12: 4,
+  },
+  FEMALE: {
+    sodium: 2000,
+    sugar: 45,
+    saturatedFat: 18,
+    cholesterol: 300,
+    potassium: 3500,
+    calcium: 950,
+    iron: 16,
+    magnesium: 300,
+    zinc: 8,
+    vitaminA: 650,
+    vitaminC: 95,
+    vitaminD: 15,
+    vitaminB12: 4,
+  },
+};
+
+function roundNutrient(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Nutrienti validi da un valore JSON (numeri finiti e non negativi)
+ */
+export function parseNutrients(value: unknown): NutrientValues {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const nutrients: NutrientValues = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    const n = Number(raw);
+    if (raw !== null && raw !== '' && Number.isFinite(n) && n >= 0) nutrients[key] = n;
+  }
+  return nutrients;
+}
+
+/**
+ * Nutrienti per 100g di un alimento (da macrosPer100g.nutrients)
+ */
+export function getNutrientsPer100g(macrosPer100g: Macros | null | undefined): NutrientValues {
+  return parseNutrients((macrosPer100g as MacrosWithNutrients | null | undefined)?.nutrients);
+}
+
+/**
+ * Scala i nutrienti per 100g sui grammi indicati
+ */
+export function scaleNutrients(per100g: NutrientValues, grams: number): NutrientValues {
+  const scaled: NutrientValues = {};
+  for (const [key, value] of Object.entries(per100g)) {
+    scaled[key] = roundNutrient((value * grams) / 100);
+  }
+  return scaled;
+}
+
+/**
+ * Somma nutrienti (es. alimenti di un pasto, pasti di un giorno)
+ */
+export function sumNutrients(values: Array<NutrientValues | null | undefined>): NutrientValues {
+  const total: NutrientValues = {};
+  for (const entry of values) {
+    for (const [key, value] of Object.entries(parseNutrients(entry))) {
+      total[key] = roundNutrient((total[key] ?? 0) + value);
+    }
+  }
+  return total;
+}
+
+/**
+ * Riferimenti giornalieri: default per sesso (user_profiles.sex; MALE se non noto o OTHER)
+ * + override del profilo (user_profiles.nutrientTargets)
+ */
+export function resolveDailyReferences(
+  sex: NutrientReferenceSex | string | null | undefined,
+  overrides: unknown = {}
+): NutrientValues {
+  const defaults = DEFAULT_DAILY_REFERENCES[sex === 'FEMALE' ? 'FEMALE' : 'MALE'];
+  return { ...defaults, ...parseNutrients(overrides) };
+}
+
+export interface NutrientIntakeComparison {
+  nutrient: string;
+  amount: number;
+  reference: number;
+  unit: NutrientDefinition['unit'] | null;
+  kind: NutrientDefinition['kind'] | null;
+  /** amount / reference × 100 */
+  percent: number;
+  status: 'LOW' | 'OK' | 'HIGH';
+}
+
+/**
+ * Confronta l'assunzione con i riferimenti.
+ * LIMIT: HIGH oltre il 100%; TARGET: LOW sotto l'80%.
+ */
+export function compareNutrientIntake(
+  intake: NutrientValues,
+  references: NutrientValues
+): NutrientIntakeComparison[] {
+  return Object.entries(references)
+    .filter(([, reference]) => reference > 0)
+    .map(([nutrient, reference]) => {
+      const definition = NUTRIENT_DEFINITIONS[nutrient as NutrientKey] as
+        | NutrientDefinition
+        | undefined;
+      const amount = intake[nutrient] ?? 0;
+      const percent = Math.round((amount / reference) * 100);
+      const status =
+        definition?.kind === 'LIMIT'
+          ? percent > 100
+            ? 'HIGH'
+            : 'OK'
+          : percent < 80
+            ? 'LOW'
+            : 'OK';
+
+      return {
+        nutrient,
+        amount: roundNutrient(amount),
+        reference,
+        unit: definition?.unit ?? null,
+        kind: definition?.kind ?? null,
+        percent,
+        status,
+      };
+    });
+}
@@ -0,0 +1,425 @@
+/**
+ * Recipe Import Service
+ *
+ * Import di ricette da testo, pagine web o file tramite la pipeline di lib-import-core:
+ * - pagine web: dati strutturati schema.org/Recipe (JSON-LD) quando presenti,
+ *   altrimenti testo della pagina analizzato dall'AI
+ * - testo, PDF, immagini: parsing AI con ImportedRecipeSchema
+ *
+ * Gli ingredienti vengono associati al catalogo (FoodMatchingService) e la ricetta
+ * salvata con RecipeService, che calcola i macro per porzione.
+ *
+ * @module lib-food/recipe-import
+ */
+
+import {
+  BaseImportService,
+  parseWithVisionAI,
+  type AIParseContext,
+  type BaseImportResult,
+  type ImportFile,
+  type ImportFileType,
+  type ImportOptions,
+} from '@onecoach/lib-import-core';
+import { fetchPublicUrl } from '@onecoach/lib-core/public-fetch.server';
+import { z } from 'zod';
+import type { FoodItem } from '@onecoach/types';
+import { FoodService } from './food.service';
+import { FoodMatchingService } from './food-matching.service';
+import { resolveQuantityInGrams } from './food-portions';
+import { RecipeService, type Recipe, type RecipeIngredientInput } from './recipe.service';
+
+// ==================== SCHEMAS ====================
+
+export const ImportedRecipeSchema = z.object({
+  name: z.string().min(2),
+  description: z.string().optional(),
+  instructions: z.string().optional(),
+  servings: z.number().int().min(1).optional(),
+  yieldGrams: z.number().positive().optional(),
+  sourceUrl: z.string().optional(),
+  ingredients: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        quantity: z.number().positive(),
+        unit: z.string().default('g'),
+        /** Stima in grammi, usata se l'unità non è convertibile per l'alimento */
+        grams: z.number().positive().optional(),
+        macrosPer100g: z
+          .object({
+            calories: z.number(),
+            protein: z.number(),
+            carbs: z.number(),
+            fats: z.number(),
+          })
+          .optional(),
+      })
+    )
+    .min(1),
+});
+
+export type ImportedRecipe = z.infer<typeof ImportedRecipeSchema>;
+
+export interface ResolvedRecipeImport {
+  recipe: ImportedRecipe;
+  ingredients: RecipeIngredientInput[];
+  unmatchedIngredients: string[];
+}
+
+export interface RecipeImportResult extends BaseImportResult {
+  recipeId?: string;
+  recipe?: Recipe;
+  /** Ingredienti non associati al catalogo (esclusi dalla ricetta) */
+  unmatchedIngredients: string[];
+}
+
+// ==================== PROMPT ====================
+
+const RECIPE_EXTRACTION_PROMPT = `Estrai la ricetta dal contenuto fornito.
+
+OUTPUT FORMAT (JSON):
+{
+  "name": "Overnight oats",
+  "description": "breve descrizione (opzionale)",
+  "instructions": "passaggi della preparazione (opzionale)",
+  "servings": 2,
+  "yieldGrams": 450,
+  "ingredients": [
+    { "name": "fiocchi d'avena", "quantity": 80, "unit": "g", "grams": 80,
+      "macrosPer100g": { "calories": 372, "protein": 13.5, "carbs": 58.7, "fats": 7 } }
+  ]
+}
+
+REGOLE:
+1. Un elemento per ingrediente; nome generico dell'alimento, senza quantità né note di preparazione
+2. unit: g, ml, cup, tbsp, tsp oppure una porzione (es. "uovo", "fetta")
+3. grams: stima del peso in grammi della quantità indicata
+4. macrosPer100g: valori tipici dell'alimento crudo per 100g
+5. servings: numero di porzioni indicato (default 1); yieldGrams solo se il peso finale è indicato
+6. Ignora ingredienti "q.b." o facoltativi senza quantità
+
+Restituisci SOLO JSON valido.`;
+
+// ==================== SOURCES ====================
+
+/** Le pagine ricetta superano raramente qualche centinaio di KB */
+const MAX_RECIPE_PAGE_BYTES = 3 * 1024 * 1024;
+
+const UNICODE_FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75, '⅓': 1 / 3 };
+
+const INGREDIENT_LINE_REGEX =
+  /^\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?|[½¼¾⅓])\s*([a-zA-Zàèéìòù.]+)?\s+(?:(?:di|of)\s+)?(.+)$/;
+
+const KNOWN_UNITS = new Set([
+  'g',
+  'gr',
+  'kg',
+  'mg',
+  'ml',
+  'cl',
+  'dl',
+  'l',
+  'oz',
+  'lb',
+  'lbs',
+  'tsp',
+  'tbsp',
+  'cup',
+  'cups',
+  'cucchiaio',
+  'cucchiai',
+  'cucchiaino',
+  'cucchiaini',
+  'tazza',
+  'tazze',
+]);
+
+function parseAmount(raw: string): number {
+  const fraction = UNICODE_FRACTIONS[raw];
+  if (fraction !== undefined) return fraction;
+
+  const [whole, frac] = raw.includes(' ') ? raw.split(/\s+/) : [undefined, raw];
+  const value = frac!.includes('/')
+    ? Number(frac!.split('/')[0]) / Number(frac!.split('/')[1])
+    : Number(frac!.replace(',', '.'));
+  return (whole ? Number(whole) : 0) + value;
+}
+
+/**
+ * "200 g di farina" → { quantity: 200, unit: 'g', name: 'farina' }; null se senza quantità
+ */
+export function parseIngredientLine(
+  line: string
+): { name: string; quantity: number; unit: string } | null {
+  const match = INGREDIENT_LINE_REGEX.exec(line.trim());
+  if (!match) return null;
+
+  const quantity = parseAmount(match[1]!);
+  const unitToken = match[2]?.toLowerCase().replace(/\.$/, '');
+  const isUnit = unitToken !== undefined && KNOWN_UNITS.has(unitToken);
+  const name = (isUnit ? match[3]! : `${match[2] ?? ''} ${match[3]!}`)
+    .replace(/\(.*?\)/g, '')
+    .split(',')[0]!
+    .trim();
+
+  if (!Number.isFinite(quantity) || quantity <= 0 || name.length < 2) return null;
+  // Senza unità: quantità in pezzi, risolta con le porzioni dell'alimento
+  return { name, quantity, unit: isUnit ? unitToken : 'piece' };
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) {
+    const parts = value.map((v) => toText(v)).filter((v): v is string => Boolean(v));
+    return parts.length > 0 ? parts.join('\n') : undefined;
+  }
+  if (value && typeof value === 'object' && 'text' in value) return toText(value.text);
+  return undefined;
+}
+
+function findJsonLdRecipe(node: unknown): Record<string, unknown> | null {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJsonLdRecipe(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== 'object') return null;
+
+  const record = node as Record<string, unknown>;
+  const type = record['@type'];
+  if (type === 'Recipe' || (Array.isArray(type) && type.includes('Recipe'))) return record;
+  return findJsonLdRecipe(record['@graph']);
+}
+
+/**
+ * Ricetta dai dati strutturati schema.org (JSON-LD) della pagina.
+ * null se assenti o se qualche ingrediente non ha una quantità leggibile.
+ */
+export function extractJsonLdRecipe(html: string, sourceUrl?: string): ImportedRecipe | null {
+  const scripts = html.matchAll(
+    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  );
+
+  for (const [, json] of scripts) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json!);
+    } catch {
+      continue;
+    }
+
+    const recipe = findJsonLdRecipe(data);
+    if (!recipe) continue;
+
+    const lines = Array.isArray(recipe.recipeIngredient)
+      ? (recipe.recipeIngredient as unknown[]).filter((l): l is string => typeof l === 'string')
+      : [];
+    const ingredients = lines.map(parseIngredientLine);
+    if (ingredients.length === 0 || ingredients.some((i) => i === null)) return null;
+
+    const servings = parseInt(toText(recipe.recipeYield)?.match(/\d+/)?.[0] ?? '', 10);
+    const parsed = ImportedRecipeSchema.safeParse({
+      name: toText(recipe.name),
+      description: toText(recipe.description),
+      instructions: toText(recipe.recipeInstructions),
+      servings: Number.isFinite(servings) && servings > 0 ? servings : undefined,
+      sourceUrl,
+      ingredients,
+    });
+    return parsed.success ? parsed.data : null;
+  }
+
+  return null;
+}
+
+/**
+ * Testo leggibile di una pagina HTML (per il parsing AI)
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|li|h\d|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+/**
+ * File di import da testo libero
+ */
+export function recipeTextToImportFile(text: string, name = 'recipe.txt'): ImportFile {
+  return {
+    name,
+    mimeType: 'text/plain',
+    content: Buffer.from(text, 'utf-8').toString('base64'),
+  };
+}
+
+/**
+ * Scarica una pagina ricetta come file di import (text/html).
+ * L'URL arriva dall'utente: solo host pubblici https, con timeout e limite di dimensione.
+ */
+export async function fetchRecipeImportFile(url: string): Promise<ImportFile> {
+  const response = await fetchPublicUrl(url, {
+    headers: { Accept: 'text/html' },
+    maxBytes: MAX_RECIPE_PAGE_BYTES,
+  });
+  if (!response.ok) {
+    throw new Error(`Impossibile scaricare la ricetta (${response.status})`);
+  }
+
+  return {
+    name: response.url.toString(),
+    mimeType: 'text/html',
+    content: Buffer.from(response.text, 'utf-8').toString('base64'),
+  };
+}
+
+function fileTypeFor(mimeType: string): ImportFileType {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return 'document';
+}
+
+/**
+ * AI context per le ricette; le pagine HTML usano prima il JSON-LD
+ */
+export function createRecipeAIContext(sourceUrl?: string): AIParseContext<ImportedRecipe> {
+  return {
+    parseWithAI: async (content, mimeType, prompt, userId, settlement) => {
+      if (!userId) throw new Error('userId richiesto per il parsing AI');
+
+      let contentBase64 = content;
+      let contentMimeType = mimeType.toLowerCase();
+
+      if (contentMimeType === 'text/html') {
+        const html = Buffer.from(content, 'base64').toString('utf-8');
+        const structured = extractJsonLdRecipe(html, sourceUrl);
+        if (structured) return structured;
+
+        contentBase64 = Buffer.from(htmlToText(html), 'utf-8').toString('base64');
+        contentMimeType = 'text/plain';
+      }
+
+      const parsed = await parseWithVisionAI({
+        contentBase64,
+        mimeType: contentMimeType,
+        prompt,
+        schema: ImportedRecipeSchema,
+        userId,
+        fileType: fileTypeFor(contentMimeType),
+        settlement,
+      });
+      return sourceUrl ? { ...parsed, sourceUrl } : parsed;
+    },
+  };
+}
+
+// ==================== SERVICE ====================
+
+export class RecipeImportService extends BaseImportService<
+  ImportedRecipe,
+  ResolvedRecipeImport,
+  RecipeImportResult
+> {
+  protected getLoggerName(): string {
+    return 'RecipeImport';
+  }
+
+  protected buildPrompt(_options?: Partial<ImportOptions>): string {
+    return RECIPE_EXTRACTION_PROMPT;
+  }
+
+  /**
+   * Associa gli ingredienti al catalogo: con macro stimate si usa il matching
+   * a 3 livelli (con creazione), altrimenti solo la ricerca
+   */
+  protected async processParsed(
+    parsed: ImportedRecipe,
+    _userId: string,
+    options?: Partial<ImportOptions>
+  ): Promise<ResolvedRecipeImport> {
+    const ingredients: RecipeIngredientInput[] = [];
+    const unmatchedIngredients: string[] = [];
+    const locale = options?.locale?.split('-')[0];
+
+    for (const ingredient of parsed.ingredients) {
+      let food: FoodItem | undefined;
+      if (ingredient.macrosPer100g) {
+        food = (
+          await FoodMatchingService.findOrCreateFood({
+            name: ingredient.name,
+            macrosPer100g: ingredient.macrosPer100g,
+          })
+        ).foodItem;
+      } else {
+        food = (await FoodService.searchFoods(ingredient.name, { locale, limit: 1 }))[0];
+      }
+
+      if (!food) {
+        unmatchedIngredients.push(ingredient.name);
+        continue;
+      }
+
+      // Unità non convertibile per l'alimento: si usa la stima in grammi
+      const catalogFood = await FoodService.getFoodById(food.id);
+      let quantity = ingredient.quantity;
+      let unit = ingredient.unit;
+      try {
+        resolveQuantityInGrams(quantity, unit, catalogFood ?? {}, locale);
+      } catch {
+        if (!ingredient.grams) {
+          unmatchedIngredients.push(`${ingredient.quantity} ${ingredient.unit} ${ingredient.name}`);
+          continue;
+        }
+        quantity = ingredient.grams;
+        unit = 'g';
+      }
+
+      ingredients.push({ foodItemId: food.id, quantity, unit });
+    }
+
+    if (ingredients.length === 0) {
+      throw new Error('Nessun ingrediente della ricetta trovato nel catalogo');
+    }
+
+    return { recipe: parsed, ingredients, unmatchedIngredients };
+  }
+
+  protected async persist(
+    processed: ResolvedRecipeImport,
+    userId: string
+  ): Promise<Partial<RecipeImportResult>> {
+    const { recipe } = processed;
+    const created = await RecipeService.create(userId, {
+      name: recipe.name,
+      description: recipe.description,
+      instructions: recipe.instructions,
+      servings: recipe.servings,
+      // La resa indicata non vale più se mancano ingredienti
+      yieldGrams: processed.unmatchedIngredients.length === 0 ? recipe.yieldGrams : undefined,
+      sourceUrl: recipe.sourceUrl?.startsWith('http') ? recipe.sourceUrl : undefined,
+      ingredients: processed.ingredients,
+    });
+
+    return {
+      recipeId: created.id,
+      recipe: created,
+      unmatchedIngredients: processed.unmatchedIngredients,
+    };
+  }
+
+  protected createErrorResult(errors: string[]): Partial<RecipeImportResult> {
+    return {
+      success: false,
+      errors,
+      unmatchedIngredients: [],
+    };
+  }
+}
@@ -0,0 +1,475 @@
+/**
+ * Recipe Service
+ *
+ * Ricette come alimenti composti: ingredienti del catalogo con quantità,
+ * resa (peso finale dopo la cottura) e numero di porzioni.
+ *
+ * Macro per porzione e per 100g sono salvati su recipes e ricalcolati quando
+ * cambiano gli ingredienti o un food_item usato come ingrediente
+ * (FoodService.updateFood → recomputeForFood).
+ */
+
+import { prisma } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+import { createId } from '@onecoach/lib-shared/id-generator';
+import { z } from 'zod';
+import {
+  FoodService,
+  calculateMacrosFromQuantity,
+  normalizeFoodName,
+  type FoodItemWithPortions,
+} from './food.service';
+import { resolveQuantityInGrams, type FoodPortion } from './food-portions';
+import { parseNutrients, sumNutrients, type MacrosWithNutrients } from './nutrients';
+
+export const recipeIngredientInputSchema = z.object({
+  foodItemId: z.string().min(1),
+  quantity: z.number().positive(),
+  unit: z.string().trim().min(1).default('g'),
+  notes: z.string().max(200).optional(),
+});
+
+export const recipeInputSchema = z.object({
+  name: z.string().trim().min(2).max(200),
+  description: z.string().max(2000).optional(),
+  instructions: z.string().max(10000).optional(),
+  /** Default 1 */
+  servings: z.number().int().min(1).max(100).optional(),
+  /** Peso finale in grammi (es. dopo la cottura); se assente = somma degli ingredienti */
+  yieldGrams: z.number().positive().max(100000).nullable().optional(),
+  ingredients: z.array(recipeIngredientInputSchema).min(1).max(60),
+  sourceUrl: z.string().url().optional(),
+  isPublic: z.boolean().optional(),
+});
+
+export const recipeUpdateSchema = recipeInputSchema.partial();
+
+export type RecipeIngredientInput = z.input<typeof recipeIngredientInputSchema>;
+export type RecipeInput = z.input<typeof recipeInputSchema>;
+export type RecipeUpdateInput = z.input<typeof recipeUpdateSchema>;
+
+export interface RecipeIngredient {
+  foodItemId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  grams: number;
+  notes?: string;
+  macros: MacrosWithNutrients;
+}
+
+export interface Recipe {
+  id: string;
+  userId: string | null;
+  name: string;
+  description: string | null;
+  instructions: string | null;
+  servings: number;
+  /** Somma dei grammi degli ingredienti */
+  totalGrams: number;
+  /** Peso finale indicato (resa); null = totalGrams */
+  yieldGrams: number | null;
+  servingGrams: number;
+  macrosPerServing: MacrosWithNutrients;
+  macrosPer100g: MacrosWithNutrients;
+  ingredients: RecipeIngredient[];
+  sourceUrl: string | null;
+  isPublic: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecipeNutrition {
+  ingredients: RecipeIngredient[];
+  totalGrams: number;
+  /** Peso finale usato per porzioni e valori per 100g */
+  finalGrams: number;
+  servingGrams: number;
+  totals: MacrosWithNutrients;
+  macrosPerServing: MacrosWithNutrients;
+  macrosPer100g: MacrosWithNutrients;
+}
+
+type RecipeRow = Prisma.recipesGetPayload<{
+  include: { recipe_ingredients: { include: { food_items: true } } };
+}>;
+
+const RECIPE_INCLUDE = {
+  recipe_ingredients: {
+    orderBy: { position: 'asc' },
+    include: { food_items: true },
+  },
+} satisfies Prisma.recipesInclude;
+
+function roundMacro(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function scaleMacros(macros: MacrosWithNutrients, factor: number): MacrosWithNutrients {
+  const nutrients = parseNutrients(macros.nutrients);
+  return {
+    calories: Math.round(macros.calories * factor),
+    protein: roundMacro(macros.protein * factor),
+    carbs: roundMacro(macros.carbs * factor),
+    fats: roundMacro(macros.fats * factor),
+    fiber: macros.fiber !== undefined ? roundMacro(macros.fiber * factor) : undefined,
+    nutrients:
+      Object.keys(nutrients).length > 0
+        ? Object.fromEntries(
+            Object.entries(nutrients).map(([key, value]) => [key, roundMacro(value * factor)])
+          )
+        : undefined,
+  };
+}
+
+/**
+ * Porzione "serving" della ricetta, usata per convertire quantità come "1 porzione"
+ */
+export function getRecipeServingPortion(recipe: Pick<Recipe, 'servingGrams'>): FoodPortion {
+  return {
+    unit: 'serving',
+    grams: recipe.servingGrams,
+    names: { it: ['porzione', 'porzioni'], en: ['serving', 'servings'] },
+    isDefault: true,
+  };
+}
+
+/**
+ * Calcola grammi e macro degli ingredienti, totali, per porzione e per 100g di resa
+ */
+export function computeRecipeNutrition(
+  ingredients: Array<{
+    food: Pick<
+      FoodItemWithPortions,
+      'id' | 'name' | 'macrosPer100g' | 'portions' | 'densityGPerMl'
+    >;
+    quantity: number;
+    unit: string;
+    notes?: string;
+  }>,
+  servings: number,
+  yieldGrams?: number | null
+): RecipeNutrition {
+  const computed = ingredients.map(({ food, quantity, unit, notes }) => {
+    const { grams } = resolveQuantityInGrams(quantity, unit, food);
+    const macros = calculateMacrosFromQuantity(food.macrosPer100g, grams, 'g');
+    return {
+      foodItemId: food.id,
+      name: food.name,
+      quantity,
+      unit,
+      grams: Math.round(grams * 10) / 10,
+      ...(notes && { notes }),
+      macros,
+    };
+  });
+
+  const totals: MacrosWithNutrients = computed.reduce<MacrosWithNutrients>(
+    (acc, { macros }) => ({
+      calories: acc.calories + macros.calories,
+      protein: acc.protein + macros.protein,
+      carbs: acc.carbs + macros.carbs,
+      fats: acc.fats + macros.fats,
+      fiber: (acc.fiber ?? 0) + (macros.fiber ?? 0),
+    }),
+    { calories: 0, protein: 0, carbs: 0, fats: 0, fiber: 0 }
+  );
+  totals.nutrients = sumNutrients(computed.map((i) => i.macros.nutrients));
+
+  const totalGrams = computed.reduce((sum, i) => sum + i.grams, 0);
+  const finalYield = yieldGrams && yieldGrams > 0 ? yieldGrams : totalGrams;
+  const safeServings = Math.max(1, servings);
+
+  return {
+    ingredients: computed,
+    totalGrams: Math.round(totalGrams),
+    finalGrams: Math.round(finalYield),
+    servingGrams: Math.round((finalYield / safeServings) * 10) / 10,
+    totals: scaleMacros(totals, 1),
+    macrosPerServing: scaleMacros(totals, 1 / safeServings),
+    macrosPer100g: finalYield > 0 ? scaleMacros(totals, 100 / finalYield) : scaleMacros(totals, 0),
+  };
+}
+
+export class RecipeService {
+  static async getById(id: string): Promise<Recipe | null> {
+    const recipe = await prisma.recipes.findUnique({
+      where: { id },
+      include: RECIPE_INCLUDE,
+    });
+    return recipe ? this.mapToRecipe(recipe) : null;
+  }
+
+  /**
+   * Ricetta visibile all'utente (propria o pubblica)
+   */
+  static async getAccessible(id: string, userId?: string): Promise<Recipe | null> {
+    const recipe = await this.getById(id);
+    if (!recipe) return null;
+    return recipe.isPublic || recipe.userId === userId ? recipe : null;
+  }
+
+  /**
+   * Ricette dell'utente e pubbliche per nome
+   */
+  static async search(
+    query: string,
+    options: { userId?: string; limit?: number } = {}
+  ): Promise<Recipe[]> {
+    const normalized = normalizeFoodName(query ?? '');
+    const recipes = await prisma.recipes.findMany({
+      where: {
+        ...(normalized && { nameNormalized: { contains: normalized } }),
+        OR: [{ isPublic: true }, ...(options.userId ? [{ userId: options.userId }] : [])],
+      },
+      include: RECIPE_INCLUDE,
+      orderBy: { updatedAt: 'desc' },
+      take: options.limit ?? 20,
+    });
+    return recipes.map((r) => this.mapToRecipe(r));
+  }
+
+  static async create(userId: string, input: RecipeInput): Promise<Recipe> {
+    const data = recipeInputSchema.parse(input);
+    const servings = data.servings ?? 1;
+    const nutrition = await this.computeFromInput({ ...data, servings });
+
+    const recipe = await prisma.recipes.create({
+      data: {
+        id: createId(),
+        userId,
+        name: data.name,
+        nameNormalized: normalizeFoodName(data.name),
+        description: data.description ?? null,
+        instructions: data.instructions ?? null,
+        servings,
+        yieldGrams: data.yieldGrams ?? null,
+        sourceUrl: data.sourceUrl ?? null,
+        isPublic: data.isPublic ?? false,
+        ...this.toNutritionColumns(nutrition),
+        recipe_ingredients: {
+          create: nutrition.ingredients.map((ingredient, position) => ({
+            id: createId(),
+            foodItemId: ingredient.foodItemId,
+            quantity: ingredient.quantity,
+            unit: ingredient.unit,
+            grams: ingredient.grams,
+            notes: ingredient.notes ?? null,
+            position,
+          })),
+        },
+        updatedAt: new Date(),
+      },
+      include: RECIPE_INCLUDE,
+    });
+
+    return this.mapToRecipe(recipe);
+  }
+
+  /**
+   * Aggiorna ricetta (solo proprietario); ingredienti, se presenti, vengono sostituiti
+   */
+  static async update(id: string, userId: string, input: RecipeUpdateInput): Promise<Recipe> {
+    const existing = await this.getById(id);
+    if (!existing) throw new Error('Ricetta non trovata');
+    if (existing.userId !== userId) throw new Error('Non autorizzato a modificare questa ricetta');
+
+    const data = recipeUpdateSchema.parse(input);
+    const nutrition = await this.computeFromInput({
+      servings: data.servings ?? existing.servings,
+      yieldGrams: data.yieldGrams !== undefined ? data.yieldGrams : existing.yieldGrams,
+      ingredients:
+        data.ingredients ??
+        existing.ingredients.map((i) => ({
+          foodItemId: i.foodItemId,
+          quantity: i.quantity,
+          unit: i.unit,
+          notes: i.notes,
+        })),
+    });
+
+    const recipe = await prisma.$transaction(async (tx) => {
+      if (data.ingredients) {
+        await tx.recipe_ingredients.deleteMany({ where: { recipeId: id } });
+        await tx.recipe_ingredients.createMany({
+          data: nutrition.ingredients.map((ingredient, position) => ({
+            id: createId(),
+            recipeId: id,
+            foodItemId: ingredient.foodItemId,
+            quantity: ingredient.quantity,
+            unit: ingredient.unit,
+            grams: ingredient.grams,
+            notes: ingredient.notes ?? null,
+            position,
+          })),
+        });
+      }
+
+      return tx.recipes.update({
+        where: { id },
+        data: {
+          ...(data.name && { name: data.name, nameNormalized: normalizeFoodName(data.name) }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.instructions !== undefined && { instructions: data.instructions }),
+          ...(data.servings !== undefined && { servings: data.servings }),
+          ...(data.yieldGrams !== undefined && { yieldGrams: data.yieldGrams }),
+          ...(data.sourceUrl !== undefined && { sourceUrl: data.sourceUrl }),
+          ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+          ...this.toNutritionColumns(nutrition),
+          updatedAt: new Date(),
+        },
+        include: RECIPE_INCLUDE,
+      });
+    });
+
+    return this.mapToRecipe(recipe);
+  }
+
+  static async delete(id: string, userId: string): Promise<void> {
+    const existing = await prisma.recipes.findUnique({ where: { id }, select: { userId: true } });
+    if (!existing) throw new Error('Ricetta non trovata');
+    if (existing.userId !== userId) throw new Error('Non autorizzato a eliminare questa ricetta');
+
+    await prisma.recipes.delete({ where: { id } });
+  }
+
+  /**
+   * Ricalcola grammi e macro dagli alimenti attuali del catalogo
+   */
+  static async recompute(id: string): Promise<Recipe | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const nutrition = await this.computeFromInput({
+      servings: existing.servings,
+      yieldGrams: existing.yieldGrams,
+      ingredients: existing.ingredients.map((i) => ({
+        foodItemId: i.foodItemId,
+        quantity: i.quantity,
+        unit: i.unit,
+        notes: i.notes,
+      })),
+    });
+
+    const recipe = await prisma.$transaction(async (tx) => {
+      for (const [position, ingredient] of nutrition.ingredients.entries()) {
+        await tx.recipe_ingredients.updateMany({
+          where: { recipeId: id, position },
+          data: { grams: ingredient.grams },
+        });
+      }
+      return tx.recipes.update({
+        where: { id },
+        data: { ...this.toNutritionColumns(nutrition), updatedAt: new Date() },
+        include: RECIPE_INCLUDE,
+      });
+    });
+
+    return this.mapToRecipe(recipe);
+  }
+
+  /**
+   * Ricalcola tutte le ricette che usano l'alimento come ingrediente
+   */
+  static async recomputeForFood(foodItemId: string): Promise<number> {
+    const rows = await prisma.recipe_ingredients.findMany({
+      where: { foodItemId },
+      select: { recipeId: true },
+      distinct: ['recipeId'],
+    });
+
+    for (const { recipeId } of rows) {
+      await this.recompute(recipeId);
+    }
+    return rows.length;
+  }
+
+  /**
+   * Macro per una quantità di ricetta: porzioni ("1 porzione", "serving") o unità di massa
+   */
+  static calculateMacrosForQuantity(
+    recipe: Pick<Recipe, 'macrosPer100g' | 'servingGrams'>,
+    quantity: number,
+    unit: string = 'serving',
+    locale?: string
+  ): { grams: number; macros: MacrosWithNutrients } {
+    const { grams } = resolveQuantityInGrams(
+      quantity,
+      unit,
+      { portions: [getRecipeServingPortion(recipe)] },
+      locale
+    );
+    return {
+      grams: Math.round(grams),
+      macros: calculateMacrosFromQuantity(recipe.macrosPer100g, grams, 'g'),
+    };
+  }
+
+  private static async computeFromInput(data: {
+    servings: number;
+    yieldGrams?: number | null;
+    ingredients: RecipeIngredientInput[];
+  }): Promise<RecipeNutrition> {
+    const foodIds = [...new Set(data.ingredients.map((i) => i.foodItemId))];
+    const foods = new Map((await FoodService.getFoodsByIds(foodIds)).map((f) => [f.id, f]));
+
+    return computeRecipeNutrition(
+      data.ingredients.map((ingredient) => {
+        const food = foods.get(ingredient.foodItemId);
+        if (!food) throw new Error(`Ingrediente ${ingredient.foodItemId} non trovato nel catalogo`);
+        return {
+          food,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit ?? 'g',
+          notes: ingredient.notes,
+        };
+      }),
+      data.servings,
+      data.yieldGrams
+    );
+  }
+
+  private static toNutritionColumns(nutrition: RecipeNutrition) {
+    return {
+      totalGrams: nutrition.totalGrams,
+      servingGrams: nutrition.servingGrams,
+      macrosPerServing: nutrition.macrosPerServing as unknown as Prisma.InputJsonValue,
+      macrosPer100g: nutrition.macrosPer100g as unknown as Prisma.InputJsonValue,
+    };
+  }
+
+  private static mapToRecipe(recipe: RecipeRow): Recipe {
+    return {
+      id: recipe.id,
+      userId: recipe.userId,
+      name: recipe.name,
+      description: recipe.description,
+      instructions: recipe.instructions,
+      servings: recipe.servings,
+      totalGrams: Number(recipe.totalGrams),
+      yieldGrams: recipe.yieldGrams !== null ? Number(recipe.yieldGrams) : null,
+      servingGrams: Number(recipe.servingGrams),
+      macrosPerServing: recipe.macrosPerServing as unknown as MacrosWithNutrients,
+      macrosPer100g: recipe.macrosPer100g as unknown as MacrosWithNutrients,
+      ingredients: recipe.recipe_ingredients.map((ingredient) => {
+        const foodMacros = ingredient.food_items.macrosPer100g as unknown as MacrosWithNutrients;
+        const grams = Number(ingredient.grams);
+        return {
+          foodItemId: ingredient.foodItemId,
+          name: ingredient.food_items.name,
+          quantity: Number(ingredient.quantity),
+          unit: ingredient.unit,
+          grams,
+          ...(ingredient.notes && { notes: ingredient.notes }),
+          macros: calculateMacrosFromQuantity(foodMacros, grams, 'g'),
+        };
+      }),
+      sourceUrl: recipe.sourceUrl,
+      isPublic: recipe.isPublic,
+      createdAt: recipe.createdAt.toISOString(),
+      updatedAt: recipe.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const recipeService = RecipeService;
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { creditService, stopRenewal } = vi.hoisted(() => {
+  const stopRenewal = vi.fn();
+  return {
+    stopRenewal,
+    creditService: {
+      keepReservationAlive: vi.fn(() => stopRenewal),
+      captureReservation: vi.fn(),
+      releaseReservation: vi.fn(),
+    },
+  };
+});
+
+vi.mock('@onecoach/lib-core', () => ({ creditService }));
+
+import { ImportCreditSettlement } from '../credit-settlement';
+
+describe('ImportCreditSettlement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rinnova le prenotazioni differite e le addebita una sola volta', async () => {
+    const settlement = new ImportCreditSettlement();
+    settlement.defer('res-1');
+    settlement.defer('res-1');
+    settlement.defer('res-2');
+
+    expect(creditService.keepReservationAlive).toHaveBeenCalledTimes(2);
+
+    await settlement.capture();
+    await settlement.capture();
+
+    expect(stopRenewal).toHaveBeenCalledTimes(2);
+    expect(creditService.captureReservation.mock.calls).toEqual([['res-1'], ['res-2']]);
+  });
+
+  it('rilascia le prenotazioni e restituisce quelle non rilasciate', async () => {
+    creditService.releaseReservation
+      .mockRejectedValueOnce(new Error('Reservation is already expired'))
+      .mockResolvedValueOnce({});
+    const settlement = new ImportCreditSettlement();
+    settlement.defer('res-1');
+    settlement.defer('res-2');
+
+    await expect(settlement.release('Import fallito: persist')).resolves.toEqual(['res-1']);
+    expect(creditService.releaseReservation).toHaveBeenCalledWith(
+      'res-2',
+      'Import fallito: persist'
+    );
+    expect(creditService.captureReservation).not.toHaveBeenCalled();
+  });
+});
@@ -14,12 +14,14 @@ import type {
     ImportProgress,
     ImportProgressStep,
     AIParseContext,
+    CreditSettlement,
     ImportContext,
     BaseImportResult,
     ImportServiceConfig,
 } from './types';
 import { IMPORT_LIMITS } from './types';
 import { createMimeRouter } from './mime-router';
+import { ImportCreditSettlement } from './credit-settlement';
 
 /**
  * Abstract base class for domain-specific import services.
@@ -71,6 +73,9 @@ export abstract class BaseImportService<TAIRaw extends object, TParsed extends o
      * 2. Parse with AI (shared routing, domain prompt) -> TAIRaw
      * 3. Process parsed data (domain-specific) -> TParsed
      * 4. Persist to database (domain-specific)
+     *
+     * Credits reserved while parsing are captured only after persist succeeds
+     * and released if any later step fails.
      */
     async import(
         files: ImportFile[],
@@ -79,6 +84,7 @@ export abstract class BaseImportService<TAIRaw extends object, TParsed extends o
     ): Promise<TResult> {
         const warnings: string[] = [];
         const errors: string[] = [];
+        const settlement = new ImportCreditSettlement();
 
         try {
             // Step 1: Validation
@@ -95,7 +101,7 @@ export abstract class BaseImportService<TAIRaw extends object, TParsed extends o
                 message: 'Parsing con AI...',
                 progress: 0.25,
             });
-            const rawParsed = await this.parseFiles(files, userId, options);
+            const rawParsed = await this.parseFiles(files, userId, options, settlement);
 
             // Step 3: Processing -> transforms TAIRaw to TParsed
             this.emit({
@@ -112,6 +118,7 @@ export abstract class BaseImportService<TAIRaw extends object, TParsed extends o
                 progress: 0.75,
             });
             const result = await this.persist(processed, userId);
+            await settlement.capture();
 
             // Complete
             this.emit({
@@ -130,6 +137,14 @@ export abstract class BaseImportService<TAIRaw extends object, TParsed extends o
             });
             errors.push(message);
 
+            const unreleased = await settlement.release(`Import fallito: ${message}`);
+            if (unreleased.length > 0) {
+                this.logger.warn('Credit reservation release failed', {
+                    requestId: this.context.requestId,
+                    reservationIds: unreleased,
+                });
+            }
+
             this.emit({
                 step: 'error',
                 message: `Errore: ${message}`,
@@ -203,13 +218,14 @@ export abstract class BaseImportService<TAIRaw extends object, TParsed extends o
     protected async parseFiles(
         files: ImportFile[],
         userId: string,
-        options?: Partial<ImportOptions>
+        options?: Partial<ImportOptions>,
+        settlement?: CreditSettlement
     ): Promise<TAIRaw> {
         const prompt = this.buildPrompt(options);
 
         // Create unified handler that uses AI context
         const handler = async (content: string, mimeType: string): Promise<TAIRaw> => {
-            return this.aiContext.parseWithAI(content, mimeType, prompt, userId);
+            return this.aiContext.parseWithAI(content, mimeType, prompt, userId, settlement);
         };
 
         // Build MIME router with TAIRaw type
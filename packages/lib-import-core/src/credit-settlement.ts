@@ -0,0 +1,53 @@
+/**
+ * Import Credit Settlement
+ *
+ * Holds the credit reservations opened while parsing an import and settles them
+ * once the whole workflow is over: captured after persist, released on failure.
+ *
+ * @module lib-import-core/credit-settlement
+ */
+
+import { creditService } from '@onecoach/lib-core';
+import type { CreditSettlement } from './types';
+
+export class ImportCreditSettlement implements CreditSettlement {
+  /** Reservation id -> stop function of its renewal timer */
+  private readonly pending = new Map<string, () => void>();
+
+  defer(reservationId: string): void {
+    if (this.pending.has(reservationId)) return;
+    this.pending.set(reservationId, creditService.keepReservationAlive(reservationId));
+  }
+
+  /**
+   * Capture every deferred reservation (call only after persist succeeded)
+   */
+  async capture(): Promise<void> {
+    for (const reservationId of this.drain()) {
+      await creditService.captureReservation(reservationId);
+    }
+  }
+
+  /**
+   * Release every deferred reservation.
+   * @returns the ids whose release failed (left to the expiry sweep)
+   */
+  async release(reason: string): Promise<string[]> {
+    const failed: string[] = [];
+    for (const reservationId of this.drain()) {
+      try {
+        await creditService.releaseReservation(reservationId, reason);
+      } catch {
+        failed.push(reservationId);
+      }
+    }
+    return failed;
+  }
+
+  private drain(): string[] {
+    const ids = [...this.pending.keys()];
+    for (const stopRenewal of this.pending.values()) stopRenewal();
+    this.pending.clear();
+    return ids;
+  }
+}
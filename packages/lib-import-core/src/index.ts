@@ -3,4 +3,5 @@ export * from './mime-router';
 export * from './vision';
 export * from './tracked-ai-context';
 export * from './base-import.service';
+export * from './credit-settlement';
 export * from './schemas';
@@ -41,7 +41,7 @@ export function createTrackedAIContext<T extends object>(
   const aiLogger = baseLogger.child(loggerPrefix);
 
   return {
-    parseWithAI: async (content: string, mimeType: string, prompt: string): Promise<T> => {
+    parseWithAI: async (content, mimeType, prompt, parseUserId, settlement): Promise<T> => {
       aiLogger.info('AI parse request', {
         requestId,
         userId,
@@ -50,7 +50,13 @@ export function createTrackedAIContext<T extends object>(
       });
 
       try {
-        const result = await delegate.parseWithAI(content, mimeType, prompt);
+        const result = await delegate.parseWithAI(
+          content,
+          mimeType,
+          prompt,
+          parseUserId ?? userId,
+          settlement
+        );
 
         // Extract metadata for logging (generic approach)
         const metadata = extractResultMetadata(result);
@@ -40,9 +40,24 @@ export type ImportProgress = {
  * @template TParsed - The parsed output type (must be an object to support spread)
  */
 export type AIParseContext<TParsed extends object = Record<string, unknown>> = {
-  parseWithAI: (content: string, mimeType: string, prompt: string, userId?: string) => Promise<TParsed>;
+  parseWithAI: (
+    content: string,
+    mimeType: string,
+    prompt: string,
+    userId?: string,
+    settlement?: CreditSettlement
+  ) => Promise<TParsed>;
 };
 
+/**
+ * Collects credit reservations whose capture is deferred to the caller
+ * (e.g. BaseImportService captures them only after persist).
+ */
+export interface CreditSettlement {
+  /** Hand over a HELD reservation: the settlement renews it until capture or release */
+  defer(reservationId: string): void;
+}
+
 export type MimeHandler<TParsed> = (content: string, mimeType: string) => Promise<TParsed>;
 
 export type MimeRouterHandlers<TParsed> = {
@@ -72,6 +87,8 @@ export type VisionParseParams<T> = {
   creditCost?: number;
   /** Progress callback for streaming updates */
   onProgress?: (message: string, progress: number) => void;
+  /** Defer the credit capture to the caller instead of capturing right after parsing */
+  settlement?: CreditSettlement;
 };
 
 export const IMPORT_LIMITS = {
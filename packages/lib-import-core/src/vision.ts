@@ -124,6 +124,7 @@ export async function parseWithVisionAI<T>(params: VisionParseParams<T>): Promis
     modelId: overrideModelId,
     apiKey: overrideApiKey,
     onProgress,
+    settlement,
   } = params;
 
   // Load config
@@ -134,56 +135,63 @@ export async function parseWithVisionAI<T>(params: VisionParseParams<T>): Promis
 
   logger.info('[VisionCore] Starting parse', { userId, fileType, model: initialModel, creditCost });
 
-  // Check and consume credits upfront
-  const hasCredits = await creditService.checkCredits(userId, creditCost);
-  if (!hasCredits) throw new Error(`Crediti insufficienti. Richiesti: ${creditCost}`);
-
-  await creditService.consumeCredits({
+  // Reserve credits upfront: captured on success (or by the settlement owner), released on failure
+  const reservation = await creditService.reserveCredits({
     userId,
     amount: creditCost,
-    type: 'CONSUMPTION',
     description: `AI Vision: ${fileType}`,
     metadata: { operation: `vision_parse_${fileType}`, provider: 'openrouter', model: initialModel },
   });
+  if (!reservation) throw new Error(`Crediti insufficienti. Richiesti: ${creditCost}`);
+
+  // Retries can outlast the reservation TTL: keep it HELD until settled
+  const stopRenewal = creditService.keepReservationAlive(reservation.id);
 
   // Retry with fallback
   let currentModel = initialModel;
   let lastError: Error | null = null;
 
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    try {
-      onProgress?.(`Parsing con AI (${currentModel})...`, 0.3 + attempt * 0.1);
+  try {
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      let result: T;
+      try {
+        onProgress?.(`Parsing con AI (${currentModel})...`, 0.3 + attempt * 0.1);
+
+        result = isTextMimeType(mimeType)
+          ? await callTextAI({ contentBase64, mimeType, prompt, schema, modelId: currentModel, apiKey })
+          : await callVisionAI({ contentBase64, mimeType, prompt, schema, modelId: currentModel, apiKey });
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        logger.warn('[VisionCore] Attempt failed', { attempt: attempt + 1, error: lastError.message });
+
+        // Switch to fallback on first failure
+        if (attempt === 0 && currentModel !== config.fallbackModel) {
+          currentModel = config.fallbackModel;
+        }
+
+        // Wait before retry
+        if (attempt < config.maxRetries) {
+          await sleep(config.retryDelayBaseMs * Math.pow(2, attempt));
+        }
+        continue;
+      }
 
-      const result = isTextMimeType(mimeType)
-        ? await callTextAI({ contentBase64, mimeType, prompt, schema, modelId: currentModel, apiKey })
-        : await callVisionAI({ contentBase64, mimeType, prompt, schema, modelId: currentModel, apiKey });
+      if (settlement) {
+        settlement.defer(reservation.id);
+      } else {
+        await creditService.captureReservation(reservation.id);
+      }
 
       logger.info('[VisionCore] Parse successful', { userId, fileType, attempts: attempt + 1 });
       onProgress?.('Parsing completato', 1);
       return result;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      logger.warn('[VisionCore] Attempt failed', { attempt: attempt + 1, error: lastError.message });
-
-      // Switch to fallback on first failure
-      if (attempt === 0 && currentModel !== config.fallbackModel) {
-        currentModel = config.fallbackModel;
-      }
-
-      // Wait before retry
-      if (attempt < config.maxRetries) {
-        await sleep(config.retryDelayBaseMs * Math.pow(2, attempt));
-      }
     }
+  } finally {
+    stopRenewal();
   }
 
-  // Refund credits on failure
-  await creditService.addCredits({
-    userId,
-    amount: creditCost,
-    type: 'ADMIN_ADJUSTMENT',
-    description: 'Rimborso parsing fallito',
-  });
+  // Release reserved credits on failure
+  await creditService.releaseReservation(reservation.id, 'Parsing fallito');
 
   throw lastError ?? new Error('All retry attempts failed');
 }
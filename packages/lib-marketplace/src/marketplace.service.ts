@@ -6,7 +6,7 @@
  */
 
 import { Prisma } from '@prisma/client';
-import { prisma } from '@onecoach/lib-core';
+import { prisma, activityEventService } from '@onecoach/lib-core';
 import type {
   MarketplacePlanType,
   PurchaseStatus,
@@ -420,6 +420,11 @@ class MarketplaceService implements IMarketplaceService {
           totalPurchases: { increment: 1 },
         },
       });
+
+      await activityEventService.record(purchase.userId, 'PLAN_PURCHASED', {
+        purchaseId: purchase.id,
+        marketplacePlanId: purchase.marketplacePlanId,
+      });
     }
 
     return purchase;
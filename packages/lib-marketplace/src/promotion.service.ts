@@ -5,7 +5,7 @@
  * Segue principi KISS, SOLID, DRY
  */
 
-import { prisma } from '@onecoach/lib-core';
+import { entitlementService, prisma } from '@onecoach/lib-core';
 import { getStripe } from '@onecoach/lib-core/stripe';
 import { creditService } from '@onecoach/lib-core/credit.service';
 import { createId } from '@onecoach/lib-shared';
@@ -341,6 +341,8 @@ export class PromotionService {
       userId,
       bonusCredits: promotion.bonusCredits,
     });
+
+    await entitlementService.refreshSafely(userId, 'PROMOTION_BONUS_CREDITS');
   }
 
   /**
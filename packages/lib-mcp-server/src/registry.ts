@@ -297,7 +297,7 @@ const toolMetadataMap: Record<string, Partial<ToolMetadata>> = {
     requiredContext: ['userId'],
     complexity: 'moderate',
     sideEffects: 'read',
-    tags: ['engagement', 'activity', 'retention'],
+    tags: ['engagement', 'activity', 'retention', 'cohort', 'adoption'],
   },
   analytics_goal_projection: {
     category: 'analytics',
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateHabitStreaks,
+  dateKeyToLogDate,
+  toLocalDateKey,
+  type HabitLogEntry,
+} from '../habit-streak';
+
+// Mercoledì 11 marzo 2026
+const now = new Date('2026-03-11T10:00:00.000Z');
+
+function done(...keys: string[]): HabitLogEntry[] {
+  return keys.map((key) => ({ date: dateKeyToLogDate(key), completed: true }));
+}
+
+function range(from: string, days: number): string[] {
+  const start = dateKeyToLogDate(from).getTime();
+  return Array.from({ length: days }, (_, i) =>
+    new Date(start + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+}
+
+const dailyLogs = done(...range('2026-03-01', 5), ...range('2026-03-07', 4));
+
+describe('calculateHabitStreaks', () => {
+  it('DAILY: un giorno mancato azzera lo streak, oggi resta aperto', () => {
+    expect(calculateHabitStreaks({ frequency: 'DAILY' }, dailyLogs, { now })).toEqual({
+      currentStreak: 4,
+      bestStreak: 5,
+      streakUnit: 'day',
+      periodProgress: { completed: 0, target: 1 },
+      completedToday: false,
+    });
+  });
+
+  it('tollera i periodi mancati entro gracePeriods', () => {
+    const result = calculateHabitStreaks({ frequency: 'DAILY', gracePeriods: 1 }, dailyLogs, {
+      now,
+    });
+
+    expect(result.currentStreak).toBe(9);
+    expect(result.bestStreak).toBe(9);
+  });
+
+  it('i giorni congelati non interrompono lo streak', () => {
+    const logs = [
+      ...dailyLogs,
+      { date: dateKeyToLogDate('2026-03-06'), completed: false, frozen: true },
+    ];
+
+    expect(calculateHabitStreaks({ frequency: 'DAILY' }, logs, { now }).currentStreak).toBe(9);
+  });
+
+  it('SPECIFIC_DAYS: conta solo i giorni pianificati', () => {
+    const logs = done('2026-03-02', '2026-03-04', '2026-03-06', '2026-03-09', '2026-03-11');
+    const schedule = { frequency: 'SPECIFIC_DAYS' as const, weekdays: [1, 3, 5] };
+    const result = calculateHabitStreaks(schedule, logs, { now });
+
+    expect(result.currentStreak).toBe(5);
+    expect(result.completedToday).toBe(true);
+    expect(result.periodProgress).toEqual({ completed: 1, target: 1 });
+  });
+
+  it('TIMES_PER_WEEK: una settimana sotto target azzera lo streak', () => {
+    const logs = done(
+      '2026-02-23',
+      '2026-02-25',
+      '2026-02-27',
+      '2026-03-02',
+      '2026-03-04',
+      '2026-03-09',
+      '2026-03-10'
+    );
+
+    expect(
+      calculateHabitStreaks({ frequency: 'TIMES_PER_WEEK', timesPerWeek: 3 }, logs, { now })
+    ).toEqual({
+      currentStreak: 0,
+      bestStreak: 1,
+      streakUnit: 'week',
+      periodProgress: { completed: 2, target: 3 },
+      completedToday: false,
+    });
+  });
+
+  it('usa il giorno di calendario del timezone dell’utente', () => {
+    const lateEvening = new Date('2026-03-11T23:30:00.000Z');
+    const logs = done('2026-03-11', '2026-03-12');
+
+    expect(
+      calculateHabitStreaks({ frequency: 'DAILY' }, logs, {
+        now: lateEvening,
+        timezone: 'Europe/Rome',
+      })
+    ).toMatchObject({ currentStreak: 2, completedToday: true });
+    // In UTC il 12 è ancora futuro e viene ignorato
+    expect(calculateHabitStreaks({ frequency: 'DAILY' }, logs, { now: lateEvening })).toMatchObject(
+      { currentStreak: 1, periodProgress: { completed: 1, target: 1 } }
+    );
+  });
+
+  it('calcola il best streak su tutto lo storico', () => {
+    const logs = done(...range('2023-08-20', 500), ...range('2026-03-08', 3));
+    const result = calculateHabitStreaks({ frequency: 'DAILY' }, logs, { now });
+
+    expect(result.bestStreak).toBe(500);
+    expect(result.currentStreak).toBe(3);
+  });
+
+  it('senza log restituisce streak a zero', () => {
+    expect(calculateHabitStreaks({ frequency: 'WEEKLY' }, [], { now })).toMatchObject({
+      currentStreak: 0,
+      bestStreak: 0,
+      periodProgress: { completed: 0, target: 1 },
+    });
+  });
+});
+
+describe('date helpers', () => {
+  it('toLocalDateKey applica il timezone', () => {
+    const date = new Date('2026-03-11T23:30:00.000Z');
+
+    expect(toLocalDateKey(date)).toBe('2026-03-11');
+    expect(toLocalDateKey(date, 'Europe/Rome')).toBe('2026-03-12');
+    expect(toLocalDateKey(date, 'America/New_York')).toBe('2026-03-11');
+  });
+
+  it('dateKeyToLogDate rifiuta formati e giorni non validi', () => {
+    expect(dateKeyToLogDate('2026-03-11').toISOString()).toBe('2026-03-11T00:00:00.000Z');
+    expect(() => dateKeyToLogDate('2026/03/11')).toThrow('expected YYYY-MM-DD');
+    expect(() => dateKeyToLogDate('2026-02-30')).toThrow('Invalid date "2026-02-30"');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Habit Streak Calculator
+ *
+ * Calcolo puro degli streak per periodo di HabitFrequency, nel timezone dell'utente.
+ * I log sono salvati come date di calendario (mezzanotte UTC del giorno locale),
+ * quindi ogni log corrisponde a una chiave 'YYYY-MM-DD'.
+ *
+ * - DAILY: un periodo per giorno, target 1
+ * - SPECIFIC_DAYS: un periodo per ogni giorno in `weekdays`, target 1
+ * - WEEKLY: un periodo per settimana ISO (lun-dom), target 1
+ * - TIMES_PER_WEEK: un periodo per settimana ISO, target `timesPerWeek`
+ *
+ * Un periodo mancato non interrompe lo streak finché i mancati consecutivi
+ * restano entro `gracePeriods`; i giorni congelati (freeze) sono neutri.
+ */
+
+import type { HabitFrequency } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HABIT_TIMEZONE = 'UTC';
+
+export interface HabitSchedule {
+  frequency: HabitFrequency;
+  /** Solo TIMES_PER_WEEK */
+  timesPerWeek?: number | null;
+  /** Solo SPECIFIC_DAYS: 0 = domenica ... 6 = sabato */
+  weekdays?: number[] | null;
+  /** Periodi mancati consecutivi tollerati senza perdere lo streak */
+  gracePeriods?: number | null;
+}
+
+export interface HabitLogEntry {
+  date: Date;
+  completed: boolean;
+  frozen?: boolean | null;
+}
+
+export type HabitPeriodStatus = 'met' | 'missed' | 'frozen' | 'open';
+
+export interface HabitStreakResult {
+  currentStreak: number;
+  bestStreak: number;
+  streakUnit: 'day' | 'week';
+  /** Completamenti e target del periodo corrente */
+  periodProgress: { completed: number; target: number };
+  /** Giorno corrente (nel timezone) completato */
+  completedToday: boolean;
+}
+
+// ================================
+// DATE HELPERS
+// ================================
+
+/**
+ * Chiave 'YYYY-MM-DD' del giorno di calendario di `date` nel timezone indicato
+ */
+export function toLocalDateKey(date: Date, timezone: string = DEFAULT_HABIT_TIMEZONE): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/**
+ * Chiave del log salvato (colonna date = mezzanotte UTC del giorno locale)
+ */
+export function logDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Data da salvare per un giorno di calendario
+ */
+export function dateKeyToLogDate(key: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(key)) {
+    throw new Error(`Invalid date "${key}", expected YYYY-MM-DD`);
+  }
+  const date = new Date(`${key}T00:00:00.000Z`);
+  if (Number.isNaN(date.getTime()) || logDateKey(date) !== key) {
+    throw new Error(`Invalid date "${key}"`);
+  }
+  return date;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function addDays(key: string, days: number): string {
+  return logDateKey(new Date(dateKeyToLogDate(key).getTime() + days * DAY_MS));
+}
+
+function weekday(key: string): number {
+  return dateKeyToLogDate(key).getUTCDay();
+}
+
+/**
+ * Lunedì della settimana ISO che contiene il giorno
+ */
+function weekStart(key: string): string {
+  return addDays(key, -((weekday(key) + 6) % 7));
+}
+
+// ================================
+// STREAKS
+// ================================
+
+function targetFor(schedule: HabitSchedule): number {
+  if (schedule.frequency === 'TIMES_PER_WEEK') {
+    return Math.min(Math.max(schedule.timesPerWeek ?? 1, 1), 7);
+  }
+  return 1;
+}
+
+function isWeekly(frequency: HabitFrequency): boolean {
+  return frequency === 'WEEKLY' || frequency === 'TIMES_PER_WEEK';
+}
+
+function isScheduledDay(schedule: HabitSchedule, key: string): boolean {
+  if (schedule.frequency !== 'SPECIFIC_DAYS') return true;
+  const weekdays = schedule.weekdays?.length ? schedule.weekdays : [0, 1, 2, 3, 4, 5, 6];
+  return weekdays.includes(weekday(key));
+}
+
+/**
+ * Stato di ogni periodo dal primo log fino ad oggi, in ordine cronologico
+ */
+export function buildHabitPeriods(
+  schedule: HabitSchedule,
+  logs: HabitLogEntry[],
+  todayKey: string
+): Array<{ start: string; status: HabitPeriodStatus; completed: number }> {
+  const completedDays = new Set<string>();
+  const frozenDays = new Set<string>();
+  for (const log of logs) {
+    const key = logDateKey(new Date(log.date));
+    if (key > todayKey) continue;
+    if (log.completed) completedDays.add(key);
+    else if (log.frozen) frozenDays.add(key);
+  }
+
+  const allKeys = [...completedDays, ...frozenDays].sort();
+  const firstKey = allKeys[0];
+  if (!firstKey) return [];
+
+  const target = targetFor(schedule);
+  const periods: Array<{ start: string; status: HabitPeriodStatus; completed: number }> = [];
+
+  if (isWeekly(schedule.frequency)) {
+    const currentWeek = weekStart(todayKey);
+    for (let start = weekStart(firstKey); start <= currentWeek; start = addDays(start, 7)) {
+      let completed = 0;
+      let frozen = false;
+      for (let i = 0; i < 7; i++) {
+        const key = addDays(start, i);
+        if (completedDays.has(key)) completed++;
+        if (frozenDays.has(key)) frozen = true;
+      }
+
+      const status: HabitPeriodStatus =
+        completed >= target ? 'met' : start === currentWeek ? 'open' : frozen ? 'frozen' : 'missed';
+      periods.push({ start, status, completed });
+    }
+    return periods;
+  }
+
+  for (let key = firstKey; key <= todayKey; key = addDays(key, 1)) {
+    if (!isScheduledDay(schedule, key)) continue;
+
+    const completed = completedDays.has(key) ? 1 : 0;
+    const status: HabitPeriodStatus =
+      completed >= target ? 'met' : key === todayKey ? 'open' : frozenDays.has(key) ? 'frozen' : 'missed';
+    periods.push({ start: key, status, completed });
+  }
+
+  return periods;
+}
+
+/**
+ * Calcola streak corrente e migliore per la frequenza dell'habit nel timezone dell'utente
+ */
+export function calculateHabitStreaks(
+  schedule: HabitSchedule,
+  logs: HabitLogEntry[],
+  options: { timezone?: string; now?: Date } = {}
+): HabitStreakResult {
+  const todayKey = toLocalDateKey(options.now ?? new Date(), options.timezone);
+  const periods = buildHabitPeriods(schedule, logs, todayKey);
+  const grace = Math.max(schedule.gracePeriods ?? 0, 0);
+
+  let streak = 0;
+  let bestStreak = 0;
+  let consecutiveMisses = 0;
+
+  for (const period of periods) {
+    switch (period.status) {
+      case 'met':
+        streak++;
+        consecutiveMisses = 0;
+        bestStreak = Math.max(bestStreak, streak);
+        break;
+      case 'missed':
+        consecutiveMisses++;
+        if (consecutiveMisses > grace) {
+          streak = 0;
+          consecutiveMisses = 0;
+        }
+        break;
+      case 'frozen':
+      case 'open':
+        break;
+    }
+  }
+
+  const currentPeriod = periods.at(-1);
+  const currentPeriodStart = isWeekly(schedule.frequency) ? weekStart(todayKey) : todayKey;
+  const completedToday = logs.some(
+    (log) => log.completed && logDateKey(new Date(log.date)) === todayKey
+  );
+
+  return {
+    currentStreak: streak,
+    bestStreak,
+    streakUnit: isWeekly(schedule.frequency) ? 'week' : 'day',
+    periodProgress: {
+      completed: currentPeriod?.start === currentPeriodStart ? currentPeriod.completed : 0,
+      target: targetFor(schedule),
+    },
+    completedToday,
+  };
+}
@@ -5,104 +5,135 @@
  * Usa Prisma direttamente invece di API HTTP calls
  */
 
-import { prisma } from '@onecoach/lib-core';
-import type { HabitFrequency } from '@prisma/client';
+import { prisma, activityEventService } from '@onecoach/lib-core';
+import type { HabitFrequency, agenda_habit_logs, agenda_habits } from '@prisma/client';
+import {
+  calculateHabitStreaks,
+  dateKeyToLogDate,
+  DEFAULT_HABIT_TIMEZONE,
+  isValidTimezone,
+  toLocalDateKey,
+} from './habit-streak';
+import type { HabitLogEntry } from './habit-streak';
 
-export interface CreateHabitInput {
+/**
+ * Storico completo dei log (solo i campi usati dagli streak): il best streak
+ * può risalire a qualsiasi periodo, quindi non si tronca la finestra
+ */
+const STREAK_LOGS_INCLUDE = {
+  agenda_habit_logs: {
+    select: { date: true, completed: true, frozen: true },
+    orderBy: { date: 'asc' as const },
+  },
+};
+
+/** Giorni di freeze al mese quando l'habit non specifica un limite */
+const DEFAULT_FREEZE_DAYS_PER_MONTH = 2;
+
+export interface HabitScheduleInput {
+  /** Solo TIMES_PER_WEEK */
+  timesPerWeek?: number;
+  /** Solo SPECIFIC_DAYS: 0 = domenica ... 6 = sabato */
+  weekdays?: number[];
+  /** Periodi mancati consecutivi tollerati */
+  gracePeriods?: number;
+  freezeDaysPerMonth?: number;
+  /** Timezone IANA dell'utente (es. Europe/Rome) */
+  timezone?: string;
+}
+
+export interface CreateHabitInput extends HabitScheduleInput {
   title: string;
   frequency: HabitFrequency;
   description?: string;
   color?: string;
 }
 
-export interface UpdateHabitInput {
+export interface UpdateHabitInput extends HabitScheduleInput {
   title?: string;
   description?: string;
   frequency?: HabitFrequency;
   color?: string;
 }
 
+export interface LogHabitInput {
+  /** Giorno di calendario YYYY-MM-DD nel timezone dell'habit (default: oggi) */
+  date?: string;
+  completed: boolean;
+}
+
 export interface HabitWithDetails {
   id: string;
   title: string;
   description: string | null;
   frequency: HabitFrequency;
+  timesPerWeek: number | null;
+  weekdays: number[];
+  gracePeriods: number;
+  timezone: string;
   color: string | null;
   currentStreak: number;
   bestStreak: number;
+  streakUnit: 'day' | 'week';
+  periodProgress: { completed: number; target: number };
   completedToday: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+type HabitWithLogs = agenda_habits & { agenda_habit_logs: HabitLogEntry[] };
+
+function toHabitDetails(habit: HabitWithLogs): HabitWithDetails {
+  const timezone = habit.timezone ?? DEFAULT_HABIT_TIMEZONE;
+  const streaks = calculateHabitStreaks(habit, habit.agenda_habit_logs, { timezone });
+
+  return {
+    id: habit.id,
+    title: habit.name,
+    description: habit.description,
+    frequency: habit.frequency,
+    timesPerWeek: habit.timesPerWeek,
+    weekdays: habit.weekdays ?? [],
+    gracePeriods: habit.gracePeriods ?? 0,
+    timezone,
+    color: habit.color,
+    ...streaks,
+    createdAt: habit.createdAt,
+    updatedAt: habit.updatedAt,
+  };
+}
+
 /**
- * Calcola lo streak corrente e migliore basandosi sui log
+ * Valida e normalizza la configurazione di frequenza
  */
-function calculateStreaks(logs: Array<{ date: Date; completed: boolean }>): {
-  currentStreak: number;
-  bestStreak: number;
-} {
-  if (logs.length === 0) {
-    return { currentStreak: 0, bestStreak: 0 };
+function normalizeSchedule(frequency: HabitFrequency, input: HabitScheduleInput) {
+  if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+    throw new Error(`Invalid timezone: ${input.timezone}`);
   }
 
-  // Ordina i log per data decrescente
-  const sortedLogs = [...logs]
-    .filter((l: any) => l.completed)
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-  if (sortedLogs.length === 0) {
-    return { currentStreak: 0, bestStreak: 0 };
-  }
-
-  let currentStreak = 0;
-  let bestStreak = 0;
-  let tempStreak = 0;
-  let lastDate: Date | null = null;
-
-  for (const log of sortedLogs) {
-    const logDate = new Date(log.date);
-    logDate.setHours(0, 0, 0, 0);
-
-    if (lastDate === null) {
-      tempStreak = 1;
-      lastDate = logDate;
-    } else {
-      const diffDays = Math.round((lastDate.getTime() - logDate.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (diffDays === 1) {
-        tempStreak++;
-      } else {
-        if (tempStreak > bestStreak) {
-          bestStreak = tempStreak;
-        }
-        tempStreak = 1;
-      }
-      lastDate = logDate;
+  if (frequency === 'TIMES_PER_WEEK') {
+    const times = input.timesPerWeek;
+    if (times === undefined || times < 1 || times > 7) {
+      throw new Error('timesPerWeek must be between 1 and 7 for TIMES_PER_WEEK habits');
     }
   }
 
-  if (tempStreak > bestStreak) {
-    bestStreak = tempStreak;
-  }
-
-  // Verifica se lo streak corrente è attivo (ultimo log è oggi o ieri)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const firstLog = sortedLogs[0];
-  if (firstLog) {
-    const lastLogDate = new Date(firstLog.date);
-    lastLogDate.setHours(0, 0, 0, 0);
-    const daysSinceLastLog = Math.round(
-      (today.getTime() - lastLogDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (daysSinceLastLog <= 1) {
-      currentStreak = tempStreak;
+  if (frequency === 'SPECIFIC_DAYS') {
+    const weekdays = input.weekdays ?? [];
+    if (weekdays.length === 0 || weekdays.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new Error('weekdays must contain values between 0 (Sunday) and 6 for SPECIFIC_DAYS habits');
     }
   }
 
-  return { currentStreak, bestStreak };
+  return {
+    timesPerWeek: frequency === 'TIMES_PER_WEEK' ? input.timesPerWeek : null,
+    weekdays: frequency === 'SPECIFIC_DAYS' ? [...new Set(input.weekdays)].sort((a, b) => a - b) : [],
+    ...(input.gracePeriods !== undefined && { gracePeriods: Math.max(0, input.gracePeriods) }),
+    ...(input.freezeDaysPerMonth !== undefined && {
+      freezeDaysPerMonth: Math.max(0, input.freezeDaysPerMonth),
+    }),
+    ...(input.timezone !== undefined && { timezone: input.timezone }),
+  };
 }
 
 class HabitService {
@@ -116,64 +147,25 @@ class HabitService {
         description: input.description,
         frequency: input.frequency,
         color: input.color,
+        ...normalizeSchedule(input.frequency, input),
         userId,
       },
     });
 
-    return {
-      id: habit.id,
-      title: habit.name,
-      description: habit.description,
-      frequency: habit.frequency,
-      color: habit.color,
-      currentStreak: 0,
-      bestStreak: 0,
-      completedToday: false,
-      createdAt: habit.createdAt,
-      updatedAt: habit.updatedAt,
-    };
+    return toHabitDetails({ ...habit, agenda_habit_logs: [] });
   }
 
   /**
    * Lista tutte le habit dell'utente
    */
   async list(userId: string): Promise<HabitWithDetails[]> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     const habits = await prisma.agenda_habits.findMany({
       where: { userId },
-      include: {
-        agenda_habit_logs: {
-          orderBy: { date: 'desc' },
-          take: 100, // Ultimi 100 log per calcolare streaks
-        },
-      },
+      include: STREAK_LOGS_INCLUDE,
       orderBy: { createdAt: 'desc' },
     });
 
-    return habits.map((habit: any) => {
-      const todayLog = habit.agenda_habit_logs.find((log: any) => {
-        const logDate = new Date(log.date);
-        logDate.setHours(0, 0, 0, 0);
-        return logDate.getTime() === today.getTime() && log.completed;
-      });
-
-      const { currentStreak, bestStreak } = calculateStreaks(habit.agenda_habit_logs);
-
-      return {
-        id: habit.id,
-        title: habit.name,
-        description: habit.description,
-        frequency: habit.frequency,
-        color: habit.color,
-        currentStreak,
-        bestStreak,
-        completedToday: !!todayLog,
-        createdAt: habit.createdAt,
-        updatedAt: habit.updatedAt,
-      };
-    });
+    return habits.map(toHabitDetails);
   }
 
   /**
@@ -192,8 +184,14 @@ class HabitService {
       return null;
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const frequency = input.frequency ?? existingHabit.frequency;
+    const schedule = normalizeSchedule(frequency, {
+      timesPerWeek: input.timesPerWeek ?? existingHabit.timesPerWeek ?? undefined,
+      weekdays: input.weekdays ?? existingHabit.weekdays ?? undefined,
+      gracePeriods: input.gracePeriods,
+      freezeDaysPerMonth: input.freezeDaysPerMonth,
+      timezone: input.timezone,
+    });
 
     const habit = await prisma.agenda_habits.update({
       where: { id: habitId },
@@ -202,35 +200,12 @@ class HabitService {
         description: input.description,
         frequency: input.frequency,
         color: input.color,
+        ...schedule,
       },
-      include: {
-        agenda_habit_logs: {
-          orderBy: { date: 'desc' },
-          take: 100,
-        },
-      },
-    });
-
-    const todayLog = habit.agenda_habit_logs.find((log: any) => {
-      const logDate = new Date(log.date);
-      logDate.setHours(0, 0, 0, 0);
-      return logDate.getTime() === today.getTime() && log.completed;
+      include: STREAK_LOGS_INCLUDE,
     });
 
-    const { currentStreak, bestStreak } = calculateStreaks(habit.agenda_habit_logs);
-
-    return {
-      id: habit.id,
-      title: habit.name,
-      description: habit.description,
-      frequency: habit.frequency,
-      color: habit.color,
-      currentStreak,
-      bestStreak,
-      completedToday: !!todayLog,
-      createdAt: habit.createdAt,
-      updatedAt: habit.updatedAt,
-    };
+    return toHabitDetails(habit);
   }
 
   /**
@@ -253,88 +228,150 @@ class HabitService {
   }
 
   /**
-   * Toggle completamento habit per oggi
+   * Toggle completamento habit per oggi (nel timezone dell'habit)
    */
   async toggle(userId: string, habitId: string): Promise<HabitWithDetails | null> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     const habit = await prisma.agenda_habits.findFirst({
       where: { id: habitId, userId },
-      include: {
-        agenda_habit_logs: {
-          orderBy: { date: 'desc' },
-          take: 100,
-        },
-      },
     });
 
     if (!habit) {
       return null;
     }
 
-    const todayLog = habit.agenda_habit_logs.find((log: any) => {
-      const logDate = new Date(log.date);
-      logDate.setHours(0, 0, 0, 0);
-      return logDate.getTime() === today.getTime();
+    const dateKey = toLocalDateKey(new Date(), habit.timezone ?? DEFAULT_HABIT_TIMEZONE);
+    const existingLog = await this.findLog(habitId, dateKey);
+
+    return this.log(userId, habitId, { date: dateKey, completed: !existingLog?.completed });
+  }
+
+  /**
+   * Registra (o annulla) il completamento per un giorno, anche passato.
+   * Non sono ammesse date future rispetto al timezone dell'habit.
+   */
+  async log(
+    userId: string,
+    habitId: string,
+    input: LogHabitInput
+  ): Promise<HabitWithDetails | null> {
+    const habit = await prisma.agenda_habits.findFirst({
+      where: { id: habitId, userId },
     });
 
-    if (todayLog) {
-      // Toggle: se era completato rimuovilo, altrimenti segnalo come completato
-      if (todayLog.completed) {
+    if (!habit) {
+      return null;
+    }
+
+    const todayKey = toLocalDateKey(new Date(), habit.timezone ?? DEFAULT_HABIT_TIMEZONE);
+    const dateKey = input.date ?? todayKey;
+    const date = dateKeyToLogDate(dateKey);
+
+    if (dateKey > todayKey) {
+      throw new Error('Cannot log a habit for a future date');
+    }
+
+    const existingLog = await this.findLog(habitId, dateKey);
+
+    if (!input.completed) {
+      if (existingLog) {
         await prisma.agenda_habit_logs.delete({
-          where: { id: todayLog.id },
-        });
-      } else {
-        await prisma.agenda_habit_logs.update({
-          where: { id: todayLog.id },
-          data: { completed: true },
+          where: { id: existingLog.id },
         });
       }
+    } else if (existingLog) {
+      await prisma.agenda_habit_logs.update({
+        where: { id: existingLog.id },
+        data: { completed: true, frozen: false },
+      });
     } else {
-      // Crea nuovo log per oggi
       await prisma.agenda_habit_logs.create({
         data: {
           habitId,
-          date: today,
+          date,
           completed: true,
+          frozen: false,
         },
       });
     }
 
-    // Rileggi habit aggiornata
-    const updatedHabit = await prisma.agenda_habits.findFirst({
-      where: { id: habitId },
-      include: {
-        agenda_habit_logs: {
-          orderBy: { date: 'desc' },
-          take: 100,
-        },
-      },
+    await activityEventService.record(userId, 'HABIT_TOGGLED', {
+      habitId,
+      date: dateKey,
+      completed: input.completed,
     });
 
-    if (!updatedHabit) return null;
+    return this.getWithDetails(habitId);
+  }
+
+  /**
+   * Congela un giorno (es. malattia, viaggio): il periodo non conta e non interrompe lo streak.
+   * Limitato da freezeDaysPerMonth.
+   */
+  async freeze(userId: string, habitId: string, date?: string): Promise<HabitWithDetails | null> {
+    const habit = await prisma.agenda_habits.findFirst({
+      where: { id: habitId, userId },
+    });
+
+    if (!habit) {
+      return null;
+    }
+
+    const todayKey = toLocalDateKey(new Date(), habit.timezone ?? DEFAULT_HABIT_TIMEZONE);
+    const dateKey = date ?? todayKey;
+    const logDate = dateKeyToLogDate(dateKey);
+    const existingLog = await this.findLog(habitId, dateKey);
+
+    if (existingLog?.completed) {
+      throw new Error('Cannot freeze a day that is already completed');
+    }
+
+    if (!existingLog?.frozen) {
+      const monthStart = dateKeyToLogDate(`${dateKey.slice(0, 7)}-01`);
+      const nextMonthStart = new Date(monthStart);
+      nextMonthStart.setUTCMonth(nextMonthStart.getUTCMonth() + 1);
+
+      const usedFreezes = await prisma.agenda_habit_logs.count({
+        where: { habitId, frozen: true, date: { gte: monthStart, lt: nextMonthStart } },
+      });
+      const allowed = habit.freezeDaysPerMonth ?? DEFAULT_FREEZE_DAYS_PER_MONTH;
+
+      if (usedFreezes >= allowed) {
+        throw new Error(`Freeze limit reached (${allowed} days per month)`);
+      }
+    }
 
-    const newTodayLog = updatedHabit.agenda_habit_logs.find((log: any) => {
-      const logDate = new Date(log.date);
-      logDate.setHours(0, 0, 0, 0);
-      return logDate.getTime() === today.getTime() && log.completed;
+    if (existingLog) {
+      await prisma.agenda_habit_logs.update({
+        where: { id: existingLog.id },
+        data: { completed: false, frozen: true },
+      });
+    } else {
+      await prisma.agenda_habit_logs.create({
+        data: {
+          habitId,
+          date: logDate,
+          completed: false,
+          frozen: true,
+        },
+      });
+    }
+
+    return this.getWithDetails(habitId);
+  }
+
+  private async findLog(habitId: string, dateKey: string): Promise<agenda_habit_logs | null> {
+    return await prisma.agenda_habit_logs.findFirst({
+      where: { habitId, date: dateKeyToLogDate(dateKey) },
+    });
+  }
+
+  private async getWithDetails(habitId: string): Promise<HabitWithDetails | null> {
+    const habit = await prisma.agenda_habits.findFirst({
+      where: { id: habitId },
+      include: STREAK_LOGS_INCLUDE,
     });
 
-    const { currentStreak, bestStreak } = calculateStreaks(updatedHabit.agenda_habit_logs);
-
-    return {
-      id: updatedHabit.id,
-      title: updatedHabit.name,
-      description: updatedHabit.description,
-      frequency: updatedHabit.frequency,
-      color: updatedHabit.color,
-      currentStreak,
-      bestStreak,
-      completedToday: !!newTodayLog,
-      createdAt: updatedHabit.createdAt,
-      updatedAt: updatedHabit.updatedAt,
-    };
+    return habit ? toHabitDetails(habit) : null;
   }
 }
 
@@ -212,7 +212,7 @@ Regole:
 
 export function createOneAgendaAIContext(userId: string): AIParseContext<ImportedOneAgenda> {
   return {
-    parseWithAI: (content: string, mimeType: string, prompt: string) =>
+    parseWithAI: (content, mimeType, prompt, _userId, settlement) =>
       parseWithVisionAI<ImportedOneAgenda>({
         contentBase64: content,
         mimeType,
@@ -220,6 +220,7 @@ export function createOneAgendaAIContext(userId: string): AIParseContext<Importe
         schema: ImportedOneAgendaSchema,
         userId,
         fileType: mimeType.startsWith('image/') ? 'image' : mimeType === 'application/pdf' ? 'pdf' : 'document',
+        settlement,
       }),
   };
 }
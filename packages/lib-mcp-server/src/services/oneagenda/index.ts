@@ -18,7 +18,14 @@ export type {
 } from './milestone.service';
 
 export { habitService } from './habit.service';
-export type { CreateHabitInput, UpdateHabitInput, HabitWithDetails } from './habit.service';
+export type {
+  CreateHabitInput,
+  UpdateHabitInput,
+  HabitScheduleInput,
+  LogHabitInput,
+  HabitWithDetails,
+} from './habit.service';
+export * from './habit-streak';
 
 export {
   OneAgendaImportService,
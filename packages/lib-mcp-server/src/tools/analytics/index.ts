@@ -8,6 +8,8 @@
  * - workout_sessions: uses startedAt/completedAt (no date, no status, no totalVolume)
  * - users: uses status enum (ACTIVE, SUSPENDED, DELETED), not isActive boolean
  * - user_one_rep_max: uses oneRepMax, lastUpdated (no estimatedOneRepMax)
+ * - strength trends use e1RM estimated from exercise_performance_records
+ * - engagement uses the user_activity_events log (not users.updatedAt)
  *
  * @module lib-mcp-server/tools/analytics
  */
@@ -15,6 +17,18 @@
 import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
 import { prisma } from '@onecoach/lib-core';
+import { coachAthleteService } from '@onecoach/lib-coach';
+import { dailyEstimatedOneRepMax } from '@onecoach/lib-analytics/estimated-strength';
+import { getDailyReadiness } from '@onecoach/lib-analytics/readiness.service';
+import {
+  getEngagementReport,
+  type EngagementScope,
+} from '@onecoach/lib-analytics/engagement.service';
+import {
+  hasAthletePermission,
+  requireAthleteAccess,
+  resolveCoachId,
+} from '../../utils/athlete-access';
 
 // ============================================================================
 // ATHLETE ANALYTICS
@@ -28,10 +42,16 @@ type AnalyticsAthleteOverviewParams = z.infer<typeof analyticsAthleteOverviewPar
 
 export const analyticsAthleteOverviewTool: McpTool<AnalyticsAthleteOverviewParams> = {
   name: 'analytics_athlete_overview',
-  description: 'Gets comprehensive analytics overview for an athlete',
+  description: 'Gets comprehensive analytics overview for an athlete in the coach roster',
   parameters: analyticsAthleteOverviewParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = analyticsAthleteOverviewParams.parse(rawArgs);
+    await requireAthleteAccess(context, args.athleteId);
+    const canViewMeasurements = await hasAthletePermission(
+      context,
+      args.athleteId,
+      'viewBodyMeasurements'
+    );
     const since = new Date();
     since.setDate(since.getDate() - args.days);
 
@@ -62,14 +82,16 @@ export const analyticsAthleteOverviewTool: McpTool<AnalyticsAthleteOverviewParam
           actualDailyMacros: true,
         },
       }),
-      prisma.body_measurements.findMany({
-        where: {
-          userId: args.athleteId,
-          date: { gte: since },
-        },
-        orderBy: { date: 'desc' },
-        take: 10,
-      }),
+      canViewMeasurements
+        ? prisma.body_measurements.findMany({
+            where: {
+              userId: args.athleteId,
+              date: { gte: since },
+            },
+            orderBy: { date: 'desc' },
+            take: 10,
+          })
+        : Promise.resolve([]),
     ]);
 
     if (!athlete) {
@@ -97,7 +119,7 @@ export const analyticsAthleteOverviewTool: McpTool<AnalyticsAthleteOverviewParam
 - Giorni tracciati: ${nutritionLogs.length}
 - Aderenza: ${nutritionLogs.length > 0 ? Math.round((nutritionLogs.length / args.days) * 100) : 0}%
 
-⚖️ **Misurazioni:** ${bodyMeasurements.length} registrate`,
+⚖️ **Misurazioni:** ${canViewMeasurements ? `${bodyMeasurements.length} registrate` : 'non condivise'}`,
         },
       ],
       analytics: {
@@ -127,10 +149,11 @@ type AnalyticsWorkoutProgressParams = z.infer<typeof analyticsWorkoutProgressPar
 
 export const analyticsWorkoutProgressTool: McpTool<AnalyticsWorkoutProgressParams> = {
   name: 'analytics_workout_progress',
-  description: 'Analyzes workout progress and trends',
+  description: 'Analyzes workout progress and trends for an athlete in the coach roster',
   parameters: analyticsWorkoutProgressParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = analyticsWorkoutProgressParams.parse(rawArgs);
+    await requireAthleteAccess(context, args.athleteId);
     const since = new Date();
     since.setDate(since.getDate() - args.days);
 
@@ -224,30 +247,29 @@ export const analyticsCoachDashboardTool: McpTool<AnalyticsCoachDashboardParams>
   parameters: analyticsCoachDashboardParams,
   execute: async (rawArgs, context: McpContext) => {
     const args = analyticsCoachDashboardParams.parse(rawArgs);
-    const coachId = args.coachId ?? context.userId;
+    const coachId = resolveCoachId(context);
 
-    if (!coachId) {
-      throw new Error('Coach ID required');
+    if (args.coachId && args.coachId !== coachId && !context.isAdmin) {
+      throw new Error('Unauthorized: cannot read another coach dashboard');
     }
 
-    // Users with role USER are athletes (no ATHLETE role exists)
-    const [totalAthletes, activeAthletes, nutritionPlans, workoutPrograms] = await Promise.all([
-      prisma.users.count({
-        where: { role: 'USER' },
-      }),
+    // Athletes are the users in the coach roster with an active relationship
+    const athleteIds = await coachAthleteService.listAthleteIds(args.coachId ?? coachId);
+    const [activeAthletes, nutritionPlans, workoutPrograms] = await Promise.all([
       prisma.users.count({
         where: {
-          role: 'USER',
+          id: { in: athleteIds },
           status: 'ACTIVE',
         },
       }),
       prisma.nutrition_plans.count({
-        where: { status: 'ACTIVE' },
+        where: { userId: { in: athleteIds }, status: 'ACTIVE' },
       }),
       prisma.workout_programs.count({
-        where: { status: 'ACTIVE' },
+        where: { userId: { in: athleteIds }, status: 'ACTIVE' },
       }),
     ]);
+    const totalAthletes = athleteIds.length;
 
     return {
       content: [
@@ -282,10 +304,13 @@ type AnalyticsAthleteComparisonParams = z.infer<typeof analyticsAthleteCompariso
 
 export const analyticsAthleteComparisonTool: McpTool<AnalyticsAthleteComparisonParams> = {
   name: 'analytics_athlete_comparison',
-  description: 'Compares metrics across multiple athletes',
+  description: 'Compares metrics across multiple athletes in the coach roster',
   parameters: analyticsAthleteComparisonParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = analyticsAthleteComparisonParams.parse(rawArgs);
+    await Promise.all(
+      args.athleteIds.map((athleteId: string) => requireAthleteAccess(context, athleteId))
+    );
     const since = new Date();
     since.setDate(since.getDate() - args.days);
 
@@ -366,12 +391,14 @@ export const analyticsRevenueTool: McpTool<AnalyticsRevenueParams> = {
   parameters: analyticsRevenueParams,
   execute: async (rawArgs, context: McpContext) => {
     const args = analyticsRevenueParams.parse(rawArgs);
-    const coachId = args.coachId ?? context.userId;
+    const currentCoachId = resolveCoachId(context);
 
-    if (!coachId) {
-      throw new Error('Coach ID required');
+    if (args.coachId && args.coachId !== currentCoachId && !context.isAdmin) {
+      throw new Error('Unauthorized: cannot read another coach revenue');
     }
 
+    const coachId = args.coachId ?? currentCoachId;
+
     const periodDays: Record<string, number> = {
       week: 7,
       month: 30,
@@ -434,54 +461,99 @@ export const analyticsRevenueTool: McpTool<AnalyticsRevenueParams> = {
 
 const analyticsEngagementParams = z.object({
   days: z.number().int().min(7).max(90).default(30),
+  cohortWeeks: z.number().int().min(1).max(26).default(8),
+  coachId: z
+    .string()
+    .optional()
+    .describe('Admin only: limit metrics to the athletes of this coach'),
 });
 type AnalyticsEngagementParams = z.infer<typeof analyticsEngagementParams>;
 
 export const analyticsEngagementTool: McpTool<AnalyticsEngagementParams> = {
   name: 'analytics_engagement',
-  description: 'Gets platform engagement metrics',
+  description:
+    'Gets engagement metrics from the activity log: DAU/WAU/MAU, stickiness, weekly cohort retention and feature adoption. Platform-wide for admins, scoped to own athletes for coaches',
   parameters: analyticsEngagementParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = analyticsEngagementParams.parse(rawArgs);
-    const since = new Date();
-    since.setDate(since.getDate() - args.days);
 
-    const [activeUsers, workoutSessions, nutritionLogs, conversations] = await Promise.all([
-      prisma.users.count({
-        where: {
-          status: 'ACTIVE',
-          updatedAt: { gte: since },
+    let scope: EngagementScope = {};
+    if (!context.isAdmin) {
+      const coachId = resolveCoachId(context);
+      if (args.coachId && args.coachId !== coachId) {
+        throw new Error('Unauthorized: cannot read another coach engagement');
+      }
+      scope = { userIds: await coachAthleteService.listAthleteIds(coachId) };
+    } else if (args.coachId) {
+      scope = { userIds: await coachAthleteService.listAthleteIds(args.coachId) };
+    }
+
+    const report = await getEngagementReport(scope, {
+      days: args.days,
+      cohortWeeks: args.cohortWeeks,
+    });
+    const { dau, wau, mau, stickiness } = report.activeUsers;
+    const latestCohort = report.cohorts[report.cohorts.length - 1];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📊 **Engagement** (${args.days} giorni${scope.userIds ? ', atleti' : ''})
+
+👥 **Utenti attivi:** DAU ${dau} · WAU ${wau} · MAU ${mau}
+📌 **Stickiness:** ${stickiness}%
+📅 **Coorti:** ${report.cohorts.length}${latestCohort ? ` (ultima: ${latestCohort.size} iscritti)` : ''}
+🧩 **Adozione:**
+${report.features.map((f) => `- ${f.eventType}: ${f.users} utenti (${f.adoptionRate}%)`).join('\n')}`,
         },
-      }),
-      prisma.workout_sessions.count({
-        where: { startedAt: { gte: since } },
-      }),
-      prisma.nutrition_day_logs.count({
-        where: { date: { gte: since } },
-      }),
-      prisma.conversations.count({
-        where: { updatedAt: { gte: since } },
-      }),
-    ]);
+      ],
+      engagement: report,
+    };
+  },
+};
+
+// ============================================================================
+// READINESS
+// ============================================================================
+
+const analyticsReadinessParams = z.object({
+  athleteId: z.string().optional().describe('Athlete id (coach only). Defaults to the current user.'),
+});
+type AnalyticsReadinessParams = z.infer<typeof analyticsReadinessParams>;
+
+export const analyticsReadinessTool: McpTool<AnalyticsReadinessParams> = {
+  name: 'analytics_readiness',
+  description:
+    "Gets today's readiness/recovery score (0-100) from HRV and resting HR vs baseline, last night's sleep and acute:chronic training load. Use it before suggesting loads or intensity for today's workout.",
+  parameters: analyticsReadinessParams,
+  execute: async (rawArgs, context: McpContext) => {
+    const args = analyticsReadinessParams.parse(rawArgs);
+    const userId = args.athleteId
+      ? await requireAthleteAccess(context, args.athleteId)
+      : context.userId;
+    if (!userId) {
+      throw new Error('Unauthorized: User ID required');
+    }
+
+    const readiness = await getDailyReadiness(userId);
+    const { hrv, restingHeartRate, sleep, trainingLoad } = readiness.components;
 
     return {
       content: [
         {
           type: 'text',
-          text: `📊 **Engagement** (${args.days} giorni)
+          text: `🔋 **Readiness ${readiness.date}:** ${readiness.score ?? 'n/d'}/100 (${readiness.status})
+
+💓 HRV: ${hrv.value !== null ? `${Math.round(hrv.value)} ms` : 'n/d'}${hrv.baseline !== null ? ` (baseline ${Math.round(hrv.baseline)})` : ''}
+❤️ FC a riposo: ${restingHeartRate.value !== null ? `${Math.round(restingHeartRate.value)} bpm` : 'n/d'}${restingHeartRate.baseline !== null ? ` (baseline ${Math.round(restingHeartRate.baseline)})` : ''}
+😴 Sonno: ${sleep.minutesAsleep !== null ? `${Math.floor(sleep.minutesAsleep / 60)}h ${sleep.minutesAsleep % 60}m` : 'n/d'}
+🏋️ Carico acuto/cronico: ${trainingLoad.ratio ?? 'n/d'}
 
-👥 **Utenti attivi:** ${activeUsers}
-🏋️ **Sessioni workout:** ${workoutSessions}
-🥗 **Log nutrizione:** ${nutritionLogs}
-💬 **Conversazioni:** ${conversations}`,
+${readiness.recommendation}`,
         },
       ],
-      engagement: {
-        activeUsers,
-        workoutSessions,
-        nutritionLogs,
-        conversations,
-      },
+      readiness,
     };
   },
 };
@@ -495,15 +567,28 @@ const analyticsGoalProjectionParams = z.object({
   goalType: z.enum(['weight', 'strength', 'habit']),
   targetValue: z.number(),
   targetDate: z.string().optional(),
+  exerciseId: z
+    .string()
+    .optional()
+    .describe('Catalog exercise ID, required for strength goals (target is an e1RM in kg)'),
 });
 type AnalyticsGoalProjectionParams = z.infer<typeof analyticsGoalProjectionParams>;
 
 export const analyticsGoalProjectionTool: McpTool<AnalyticsGoalProjectionParams> = {
   name: 'analytics_goal_projection',
-  description: 'Projects goal achievement based on current trends',
+  description: 'Projects goal achievement based on current trends for an athlete in the coach roster',
   parameters: analyticsGoalProjectionParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = analyticsGoalProjectionParams.parse(rawArgs);
+    await requireAthleteAccess(
+      context,
+      args.athleteId,
+      args.goalType === 'weight'
+        ? 'viewBodyMeasurements'
+        : args.goalType === 'strength'
+          ? 'readMaxes'
+          : undefined
+    );
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
@@ -528,20 +613,31 @@ export const analyticsGoalProjectionTool: McpTool<AnalyticsGoalProjectionParams>
         trend = (last - first) / measurements.length; // daily trend
       }
     } else if (args.goalType === 'strength') {
-      // user_one_rep_max uses oneRepMax, not estimatedOneRepMax
-      const records = await prisma.user_one_rep_max.findMany({
+      if (!args.exerciseId) {
+        throw new Error('exerciseId is required for strength projections');
+      }
+
+      // Trend su e1RM stimato dai set registrati (miglior set per giorno)
+      const records = await prisma.exercise_performance_records.findMany({
         where: {
           userId: args.athleteId,
-          lastUpdated: { gte: thirtyDaysAgo },
+          exerciseId: args.exerciseId,
+          date: { gte: thirtyDaysAgo },
         },
-        orderBy: { lastUpdated: 'asc' },
+        orderBy: { date: 'asc' },
+        select: { exerciseId: true, date: true, weight: true, reps: true, rpe: true },
       });
 
-      if (records.length >= 2) {
-        const first = records[0]?.oneRepMax?.toNumber() ?? 0;
-        const last = records[records.length - 1]?.oneRepMax?.toNumber() ?? 0;
-        currentValue = last;
-        trend = (last - first) / 30; // daily trend
+      const points = dailyEstimatedOneRepMax(records);
+      const first = points[0];
+      const last = points[points.length - 1];
+      if (first && last && points.length >= 2) {
+        const days = Math.max(
+          1,
+          (last.date.getTime() - first.date.getTime()) / (24 * 60 * 60 * 1000)
+        );
+        currentValue = last.estimatedOneRepMax;
+        trend = (last.estimatedOneRepMax - first.estimatedOneRepMax) / days; // daily trend
       }
     }
 
@@ -586,6 +682,7 @@ export const analyticsTools = [
   analyticsRevenueTool,
   analyticsEngagementTool,
   analyticsGoalProjectionTool,
+  analyticsReadinessTool,
 ] satisfies McpTool<any, any>[];
 
 import { arrayToToolRecord } from '../../utils/helpers';
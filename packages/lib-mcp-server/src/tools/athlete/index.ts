@@ -10,7 +10,15 @@
 import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
 import { prisma, type Prisma } from '@onecoach/lib-core';
+import { coachAthleteService, planAssignmentService } from '@onecoach/lib-coach';
+import { NutrientTargetService } from '@onecoach/lib-food';
+import { getPersonalRecordHistory } from '@onecoach/lib-analytics/personal-records.service';
 import { arrayToToolRecord } from '../../utils/helpers';
+import {
+  hasAthletePermission,
+  requireAthleteAccess,
+  resolveCoachId,
+} from '../../utils/athlete-access';
 
 // ============================================================================
 // ATHLETE LIST & PROFILE TOOLS
@@ -18,6 +26,10 @@ import { arrayToToolRecord } from '../../utils/helpers';
 
 const athleteListParams = z.object({
   status: z.enum(['ACTIVE', 'SUSPENDED', 'DELETED', 'ALL']).default('ACTIVE'),
+  relationshipStatus: z
+    .enum(['ACTIVE', 'PENDING', 'ALL'])
+    .default('ACTIVE')
+    .describe('Stato della relazione coach-atleta (PENDING = invito non ancora accettato)'),
   limit: z.number().int().min(1).max(100).default(50),
   offset: z.number().int().min(0).default(0),
 });
@@ -25,19 +37,23 @@ type AthleteListParams = z.infer<typeof athleteListParams>;
 
 export const athleteListTool: McpTool<AthleteListParams> = {
   name: 'athlete_list',
-  description: 'Lists all athletes for the current coach',
+  description: 'Lists the athletes in the roster of the current coach',
   parameters: athleteListParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteListParams.parse(rawArgs);
+    const roster = await coachAthleteService.listAthletes(resolveCoachId(context), {
+      status: args.relationshipStatus,
+    });
+
     const where: Prisma.usersWhereInput = {
-      role: 'USER',
+      id: { in: roster.map((r) => r.athlete.id) },
     };
 
     if (args.status !== 'ALL') {
       where.status = args.status;
     }
 
-    const athletes = await prisma.users.findMany({
+    const users = await prisma.users.findMany({
       where,
       take: args.limit,
       skip: args.offset,
@@ -58,6 +74,33 @@ export const athleteListTool: McpTool<AthleteListParams> = {
       orderBy: { name: 'asc' },
     });
 
+    const rosterByAthlete = new Map(roster.map((r) => [r.athlete.id, r]));
+    const athletes = users.map(({ user_profiles: profile, ...user }) => {
+      const relationship = rosterByAthlete.get(user.id);
+      const relationshipFields = {
+        relationshipId: relationship?.relationshipId,
+        relationshipStatus: relationship?.status,
+      };
+
+      // Invito non ancora accettato: l'atleta non ha ancora concesso l'accesso ai suoi dati
+      if (relationship?.status !== 'ACTIVE') {
+        return { id: user.id, name: user.name, email: user.email, ...relationshipFields };
+      }
+
+      return {
+        ...user,
+        ...relationshipFields,
+        permissions: relationship.permissions,
+        user_profiles: profile && {
+          workoutGoals: profile.workoutGoals,
+          ...(relationship.permissions.viewBodyMeasurements && {
+            weightKg: profile.weightKg,
+            heightCm: profile.heightCm,
+          }),
+        },
+      };
+    });
+
     return {
       content: [
         {
@@ -67,7 +110,11 @@ export const athleteListTool: McpTool<AthleteListParams> = {
               ? `Trovati ${athletes.length} atleti:\n${athletes
                   .map(
                     (a: any) =>
-                      `- ${a.name ?? 'N/A'} (${a.email}) - ${a.status === 'ACTIVE' ? '🟢' : '🔴'} ${a.status}`
+                      `- ${a.name ?? 'N/A'} (${a.email}) - ${
+                        a.relationshipStatus === 'PENDING'
+                          ? '⏳ invito in attesa'
+                          : `${a.status === 'ACTIVE' ? '🟢' : '🔴'} ${a.status}`
+                      }`
                   )
                   .join('\n')}`
               : 'Nessun atleta trovato',
@@ -85,10 +132,17 @@ type AthleteGetProfileParams = z.infer<typeof athleteGetProfileParams>;
 
 export const athleteGetProfileTool: McpTool<AthleteGetProfileParams> = {
   name: 'athlete_get_profile',
-  description: 'Gets detailed profile of an athlete',
+  description:
+    'Gets detailed profile of an athlete in the coach roster (weight and height require viewBodyMeasurements)',
   parameters: athleteGetProfileParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteGetProfileParams.parse(rawArgs);
+    await requireAthleteAccess(context, args.athleteId);
+    const canViewBody = await hasAthletePermission(
+      context,
+      args.athleteId,
+      'viewBodyMeasurements'
+    );
     const athlete = await prisma.users.findUnique({
       where: { id: args.athleteId },
       include: {
@@ -110,7 +164,11 @@ export const athleteGetProfileTool: McpTool<AthleteGetProfileParams> = {
       throw new Error('Atleta non trovato');
     }
 
-    const profile = athlete.user_profiles;
+    // Peso e altezza sono misurazioni corporee: visibili solo con viewBodyMeasurements
+    const profile =
+      athlete.user_profiles && !canViewBody
+        ? { ...athlete.user_profiles, weightKg: null, heightCm: null }
+        : athlete.user_profiles;
 
     return {
       content: [
@@ -121,16 +179,18 @@ export const athleteGetProfileTool: McpTool<AthleteGetProfileParams> = {
 📊 Status: ${athlete.status === 'ACTIVE' ? '🟢 Attivo' : '🔴'} ${athlete.status}
 
 📏 **Profilo:**
-- Peso: ${profile?.weightKg ?? 'N/A'} kg
-- Altezza: ${profile?.heightCm ?? 'N/A'} cm
-- Obiettivi: ${profile?.workoutGoals?.join(', ') ?? 'N/A'}
+${
+  canViewBody
+    ? `- Peso: ${profile?.weightKg ?? 'N/A'} kg\n- Altezza: ${profile?.heightCm ?? 'N/A'} cm\n`
+    : ''
+}- Obiettivi: ${profile?.workoutGoals?.join(', ') ?? 'N/A'}
 
 📋 **Piani attivi:**
 - Nutrizione: ${athlete.nutrition_plans.length} piani
 - Allenamento: ${athlete.workout_programs.length} programmi`,
         },
       ],
-      athlete,
+      athlete: { ...athlete, user_profiles: profile },
     };
   },
 };
@@ -143,17 +203,32 @@ const athleteUpdateProfileParams = z.object({
   workoutGoals: z.array(z.string()).optional(),
   nutritionGoals: z.array(z.string()).optional(),
   activityLevel: z.enum(['SEDENTARY', 'LIGHT', 'MODERATE', 'ACTIVE', 'VERY_ACTIVE']).optional(),
+  nutrientTargets: z
+    .record(z.string(), z.number().min(0).nullable())
+    .optional()
+    .describe(
+      'Riferimenti giornalieri personalizzati (es. { sodium: 1500, iron: 25 }); null = torna al default'
+    ),
 });
 type AthleteUpdateProfileParams = z.infer<typeof athleteUpdateProfileParams>;
 
 export const athleteUpdateProfileTool: McpTool<AthleteUpdateProfileParams> = {
   name: 'athlete_update_profile',
-  description: 'Updates an athlete profile',
+  description: 'Updates the profile of an athlete in the coach roster (requires editProfile)',
   parameters: athleteUpdateProfileParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteUpdateProfileParams.parse(rawArgs);
-    const { athleteId, name, weightKg, heightCm, workoutGoals, nutritionGoals, activityLevel } =
-      args;
+    await requireAthleteAccess(context, args.athleteId, 'editProfile');
+    const {
+      athleteId,
+      name,
+      weightKg,
+      heightCm,
+      workoutGoals,
+      nutritionGoals,
+      activityLevel,
+      nutrientTargets,
+    } = args;
 
     // Update user if name provided
     if (name) {
@@ -187,6 +262,10 @@ export const athleteUpdateProfileTool: McpTool<AthleteUpdateProfileParams> = {
       });
     }
 
+    if (nutrientTargets) {
+      await NutrientTargetService.updateTargets(athleteId, nutrientTargets);
+    }
+
     return {
       content: [{ type: 'text', text: '✅ Profilo atleta aggiornato' }],
     };
@@ -205,10 +284,11 @@ type AthleteGetMaxesParams = z.infer<typeof athleteGetMaxesParams>;
 
 export const athleteGetMaxesTool: McpTool<AthleteGetMaxesParams> = {
   name: 'athlete_get_maxes',
-  description: 'Gets one rep max records for an athlete',
+  description: 'Gets one rep max records for an athlete (requires readMaxes)',
   parameters: athleteGetMaxesParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteGetMaxesParams.parse(rawArgs);
+    await requireAthleteAccess(context, args.athleteId, 'readMaxes');
     const where: Prisma.user_one_rep_maxWhereInput = {
       userId: args.athleteId,
     };
@@ -252,10 +332,11 @@ type AthleteSetMaxParams = z.infer<typeof athleteSetMaxParams>;
 
 export const athleteSetMaxTool: McpTool<AthleteSetMaxParams> = {
   name: 'athlete_set_max',
-  description: 'Sets or updates a one rep max for an athlete',
+  description: 'Sets or updates a one rep max for an athlete (requires editMaxes)',
   parameters: athleteSetMaxParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteSetMaxParams.parse(rawArgs);
+    await requireAthleteAccess(context, args.athleteId, 'editMaxes');
     // Check if exists
     const existing = await prisma.user_one_rep_max.findFirst({
       where: {
@@ -305,24 +386,30 @@ export const athleteSetMaxTool: McpTool<AthleteSetMaxParams> = {
 
 const athleteGetProgressParams = z.object({
   athleteId: z.string(),
-  type: z.enum(['weight', 'strength', 'workouts', 'all']).default('all'),
+  type: z.enum(['weight', 'strength', 'workouts', 'records', 'all']).default('all'),
   days: z.number().int().min(7).max(365).default(30),
 });
 type AthleteGetProgressParams = z.infer<typeof athleteGetProgressParams>;
 
 export const athleteGetProgressTool: McpTool<AthleteGetProgressParams> = {
   name: 'athlete_get_progress',
-  description: 'Gets progress data for an athlete',
+  description:
+    'Gets progress data for an athlete, including personal records (weight requires viewBodyMeasurements, strength and records require readMaxes)',
   parameters: athleteGetProgressParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteGetProgressParams.parse(rawArgs);
+    await requireAthleteAccess(context, args.athleteId);
     const since = new Date();
     since.setDate(since.getDate() - args.days);
 
     const results: Record<string, unknown> = {};
+    const [canViewWeight, canReadMaxes] = await Promise.all([
+      hasAthletePermission(context, args.athleteId, 'viewBodyMeasurements'),
+      hasAthletePermission(context, args.athleteId, 'readMaxes'),
+    ]);
 
     // Weight progress from body_measurements
-    if (args.type === 'weight' || args.type === 'all') {
+    if ((args.type === 'weight' || args.type === 'all') && canViewWeight) {
       results.weight = await prisma.body_measurements.findMany({
         where: {
           userId: args.athleteId,
@@ -335,7 +422,7 @@ export const athleteGetProgressTool: McpTool<AthleteGetProgressParams> = {
     }
 
     // Strength progress from user_one_rep_max
-    if (args.type === 'strength' || args.type === 'all') {
+    if ((args.type === 'strength' || args.type === 'all') && canReadMaxes) {
       results.strength = await prisma.user_one_rep_max.findMany({
         where: {
           userId: args.athleteId,
@@ -362,6 +449,11 @@ export const athleteGetProgressTool: McpTool<AthleteGetProgressParams> = {
       });
     }
 
+    // Personal records (rep max, e1RM, volume) battuti nel periodo
+    if ((args.type === 'records' || args.type === 'all') && canReadMaxes) {
+      results.personalRecords = await getPersonalRecordHistory(args.athleteId, { since });
+    }
+
     return {
       content: [
         {
@@ -370,7 +462,8 @@ export const athleteGetProgressTool: McpTool<AthleteGetProgressParams> = {
 
 ${args.type === 'weight' || args.type === 'all' ? `⚖️ Misurazioni peso: ${(results.weight as unknown[])?.length ?? 0}` : ''}
 ${args.type === 'strength' || args.type === 'all' ? `💪 Aggiornamenti 1RM: ${(results.strength as unknown[])?.length ?? 0}` : ''}
-${args.type === 'workouts' || args.type === 'all' ? `🏋️ Sessioni workout: ${(results.workouts as unknown[])?.length ?? 0}` : ''}`,
+${args.type === 'workouts' || args.type === 'all' ? `🏋️ Sessioni workout: ${(results.workouts as unknown[])?.length ?? 0}` : ''}
+${args.type === 'records' || args.type === 'all' ? `🏆 Record personali: ${(results.personalRecords as unknown[])?.length ?? 0}` : ''}`,
         },
       ],
       progress: results,
@@ -391,37 +484,196 @@ type AthleteAssignPlanParams = z.infer<typeof athleteAssignPlanParams>;
 
 export const athleteAssignPlanTool: McpTool<AthleteAssignPlanParams> = {
   name: 'athlete_assign_plan',
-  description: 'Assigns a nutrition or workout plan to an athlete',
+  description:
+    'Assigns a nutrition or workout plan of the coach to an athlete as a linked copy (requires editPlans). The coach keeps the original as template.',
   parameters: athleteAssignPlanParams,
-  execute: async (rawArgs, _context: McpContext) => {
+  execute: async (rawArgs, context: McpContext) => {
     const args = athleteAssignPlanParams.parse(rawArgs);
-    if (args.planType === 'nutrition') {
-      await prisma.nutrition_plans.update({
-        where: { id: args.planId },
-        data: {
-          userId: args.athleteId,
-          status: 'ACTIVE',
-          updatedAt: new Date(),
+    await requireAthleteAccess(context, args.athleteId, 'editPlans');
+
+    const { assignment, assignedPlanId } = await planAssignmentService.assignPlan({
+      coachId: resolveCoachId(context),
+      athleteId: args.athleteId,
+      planType: args.planType === 'nutrition' ? 'NUTRITION' : 'WORKOUT',
+      planId: args.planId,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Piano ${args.planType} assegnato all'atleta (copia v${assignment.sourceVersion} del template)`,
         },
-      });
-    } else {
-      await prisma.workout_programs.update({
-        where: { id: args.planId },
-        data: {
-          userId: args.athleteId,
-          status: 'ACTIVE',
-          updatedAt: new Date(),
+      ],
+      assignment,
+      assignedPlanId,
+    };
+  },
+};
+
+const athletePlanDriftParams = z.object({
+  planType: z.enum(['nutrition', 'workout']),
+  planId: z.string().describe('ID del piano template del coach'),
+});
+type AthletePlanDriftParams = z.infer<typeof athletePlanDriftParams>;
+
+export const athletePlanDriftTool: McpTool<AthletePlanDriftParams> = {
+  name: 'athlete_plan_drift',
+  description:
+    'Shows how the athletes copies of a coach template differ from it (template updates not delivered, athlete edits)',
+  parameters: athletePlanDriftParams,
+  execute: async (rawArgs, context: McpContext) => {
+    const args = athletePlanDriftParams.parse(rawArgs);
+    const drifts = await planAssignmentService.getDrift(
+      resolveCoachId(context),
+      args.planType === 'nutrition' ? 'NUTRITION' : 'WORKOUT',
+      args.planId
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            drifts.length > 0
+              ? `📋 **Copie assegnate:** ${drifts.length}\n${drifts
+                  .map(
+                    (d) =>
+                      `- ${d.athleteId}: v${d.sourceVersion}/${d.latestVersion}` +
+                      `${d.templateUpdated ? ' 🔄 template aggiornato' : ''}` +
+                      `${d.athleteModified ? ' ✏️ modificata' : ''}` +
+                      ` (${d.changes.length} differenze)`
+                  )
+                  .join('\n')}`
+              : 'Nessuna copia assegnata per questo piano',
         },
-      });
+      ],
+      drifts,
+    };
+  },
+};
+
+const athletePushPlanUpdateParams = z.object({
+  planType: z.enum(['nutrition', 'workout']),
+  planId: z.string().describe('ID del piano template del coach'),
+  athleteIds: z
+    .array(z.string())
+    .optional()
+    .describe('Atleti a cui propagare l\'aggiornamento (default: tutti)'),
+  changeLog: z.string().optional(),
+  overwriteModified: z
+    .boolean()
+    .default(false)
+    .describe('Sovrascrive anche le copie modificate dall\'atleta'),
+});
+type AthletePushPlanUpdateParams = z.infer<typeof athletePushPlanUpdateParams>;
+
+export const athletePushPlanUpdateTool: McpTool<AthletePushPlanUpdateParams> = {
+  name: 'athlete_push_plan_update',
+  description: 'Pushes the current version of a coach template to the athletes copies',
+  parameters: athletePushPlanUpdateParams,
+  execute: async (rawArgs, context: McpContext) => {
+    const args = athletePushPlanUpdateParams.parse(rawArgs);
+    if (args.athleteIds) {
+      await Promise.all(
+        args.athleteIds.map((athleteId: string) =>
+          requireAthleteAccess(context, athleteId, 'editPlans')
+        )
+      );
     }
 
+    const result = await planAssignmentService.pushTemplateUpdate({
+      coachId: resolveCoachId(context),
+      planType: args.planType === 'nutrition' ? 'NUTRITION' : 'WORKOUT',
+      templateId: args.planId,
+      athleteIds: args.athleteIds,
+      changeLog: args.changeLog,
+      overwriteModified: args.overwriteModified,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Template v${result.version} propagato a ${result.updated.length} atleti${
+            result.skipped.length > 0 ? ` (${result.skipped.length} saltati)` : ''
+          }`,
+        },
+      ],
+      result,
+    };
+  },
+};
+
+// ============================================================================
+// ROSTER TOOLS
+// ============================================================================
+
+const athleteInviteParams = z.object({
+  athleteId: z.string().optional(),
+  athleteEmail: z.string().email().optional(),
+  message: z.string().max(500).optional(),
+  permissions: z
+    .object({
+      readMaxes: z.boolean().optional(),
+      editMaxes: z.boolean().optional(),
+      editPlans: z.boolean().optional(),
+      editProfile: z.boolean().optional(),
+      viewBodyMeasurements: z.boolean().optional(),
+    })
+    .optional()
+    .describe("Permessi richiesti all'atleta, applicati all'accettazione dell'invito"),
+});
+type AthleteInviteParams = z.infer<typeof athleteInviteParams>;
+
+export const athleteInviteTool: McpTool<AthleteInviteParams> = {
+  name: 'athlete_invite',
+  description: 'Invites an existing user (by id or email) to join the coach roster',
+  parameters: athleteInviteParams,
+  execute: async (rawArgs, context: McpContext) => {
+    const args = athleteInviteParams.parse(rawArgs);
+    const relationship = await coachAthleteService.invite({
+      coachId: resolveCoachId(context),
+      athleteId: args.athleteId,
+      athleteEmail: args.athleteEmail,
+      message: args.message,
+      permissions: args.permissions,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Piano ${args.planType} assegnato all'atleta`,
+          text: `📨 Invito inviato. L'atleta deve accettarlo prima che tu possa accedere ai suoi dati.`,
         },
       ],
+      relationship,
+    };
+  },
+};
+
+const athleteRevokeParams = z.object({
+  athleteId: z.string(),
+});
+type AthleteRevokeParams = z.infer<typeof athleteRevokeParams>;
+
+export const athleteRevokeTool: McpTool<AthleteRevokeParams> = {
+  name: 'athlete_revoke',
+  description: 'Removes an athlete from the coach roster (or cancels a pending invitation)',
+  parameters: athleteRevokeParams,
+  execute: async (rawArgs, context: McpContext) => {
+    const args = athleteRevokeParams.parse(rawArgs);
+    const coachId = resolveCoachId(context);
+    const relationship = await coachAthleteService.getOpenRelationship(coachId, args.athleteId);
+
+    if (!relationship) {
+      throw new Error('Atleta non presente nel roster');
+    }
+
+    await coachAthleteService.revoke(relationship.id, coachId);
+
+    return {
+      content: [{ type: 'text', text: '✅ Atleta rimosso dal roster' }],
     };
   },
 };
@@ -438,6 +690,10 @@ export const athleteTools = [
   athleteSetMaxTool,
   athleteGetProgressTool,
   athleteAssignPlanTool,
+  athletePlanDriftTool,
+  athletePushPlanUpdateTool,
+  athleteInviteTool,
+  athleteRevokeTool,
 ] satisfies McpTool<any, any>[];
 
 export const athleteToolsRecord = arrayToToolRecord(athleteTools);
@@ -11,6 +11,7 @@
 
 import { z } from 'zod';
 import { prisma } from '@onecoach/lib-core';
+import { RecipeService } from '@onecoach/lib-food';
 import type { McpTool } from '../../types';
 
 // ============================================================================
@@ -116,6 +117,11 @@ Returns matching exercises with their IDs and names.`,
 const searchFoodCatalogParams = z.object({
   query: z.string().describe('Search query - food name'),
   limit: z.number().optional().default(10).describe('Maximum results to return'),
+  includeRecipes: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Also return saved recipes (own and public)'),
 });
 
 export const searchFoodCatalogTool: McpTool<
@@ -128,10 +134,11 @@ Use this tool when you need to:
 - Find a food by name (e.g., "chicken", "rice", "salmon")
 - Get the catalog ID needed to add a food to a nutrition plan
 - Get nutritional information (protein, carbs, fats per 100g)
+- Find saved recipes (use recipeId instead of foodId to add or log them)
 
-Returns matching foods with their IDs, names, and macros.`,
+Returns matching foods and recipes with their IDs, names, and macros.`,
   parameters: searchFoodCatalogParams,
-  execute: async ({ query, limit }) => {
+  execute: async ({ query, limit, includeRecipes }, context) => {
     const normalizedQuery = query.toLowerCase().trim();
     const limitValue = limit ?? 10;
     
@@ -154,18 +161,32 @@ Returns matching foods with their IDs, names, and macros.`,
         take: limitValue,
       });
 
-      if (foods.length === 0) {
+      const recipes =
+        includeRecipes === false
+          ? []
+          : await RecipeService.search(query, { userId: context.userId, limit: limitValue });
+
+      if (foods.length === 0 && recipes.length === 0) {
         return {
           success: true,
           found: 0,
           message: `No foods found matching "${query}". Try a different search term.`,
           foods: [],
+          recipes: [],
         };
       }
 
       return {
         success: true,
-        found: foods.length,
+        found: foods.length + recipes.length,
+        recipes: recipes.map((r) => ({
+          recipeId: r.id, // Usare recipeId al posto di foodId
+          name: r.name,
+          servings: r.servings,
+          servingGrams: r.servingGrams,
+          macrosPerServing: r.macrosPerServing,
+          macrosPer100g: r.macrosPer100g,
+        })),
         foods: foods.map((f) => {
           const macros = f.macrosPer100g as { protein?: number; carbs?: number; fats?: number; calories?: number } | null;
           return {
@@ -26,8 +26,8 @@ export const foodReadTool: McpTool = {
     }
 
     if (args.search) {
-      return await foodService.searchFoods(args.search, {
-        limit: args.pageSize,
+      return await foodService.searchFoodsPaginated(args.search, {
+        pageSize: args.pageSize,
         page: args.page,
         locale: 'it', // Defaulting to Italian as per FoodService default
       });
@@ -18,6 +18,7 @@ import { oneagendaTools as oneagendaToolsList } from './oneagenda';
 import { nutritionPlanTools } from './nutrition/plan';
 import { nutritionDayMealTools } from './nutrition/day-meal';
 import { nutritionTrackingTools } from './nutrition/tracking';
+import { nutritionRecipeTools } from './nutrition/recipe';
 import { athleteTools } from './athlete';
 import { marketplaceTools } from './marketplace';
 import { analyticsTools } from './analytics';
@@ -37,6 +38,7 @@ const oneagendaToolsRecord = arrayToToolRecord(oneagendaToolsList);
 const nutritionPlanToolsRecord = arrayToToolRecord(nutritionPlanTools);
 const nutritionDayMealToolsRecord = arrayToToolRecord(nutritionDayMealTools);
 const nutritionTrackingToolsRecord = arrayToToolRecord(nutritionTrackingTools);
+const nutritionRecipeToolsRecord = arrayToToolRecord(nutritionRecipeTools);
 const athleteToolsRecord = arrayToToolRecord(athleteTools);
 const marketplaceToolsRecord = arrayToToolRecord(marketplaceTools);
 const analyticsToolsRecord = arrayToToolRecord(analyticsTools);
@@ -84,6 +86,8 @@ export const allTools: Record<string, McpTool> = {
   ...nutritionDayMealToolsRecord,
   // Nutrition tracking tools
   ...nutritionTrackingToolsRecord,
+  // Nutrition recipe tools
+  ...nutritionRecipeToolsRecord,
   // Athlete management tools
   ...athleteToolsRecord,
   // Marketplace & Affiliate tools
@@ -136,6 +140,7 @@ export const toolCategories = {
     ...nutritionPlanTools.map((t: any) => t.name),
     ...nutritionDayMealTools.map((t: any) => t.name),
     ...nutritionTrackingTools.map((t: any) => t.name),
+    ...nutritionRecipeTools.map((t: any) => t.name),
   ],
   athlete: athleteTools.map((t: any) => t.name),
   marketplace: marketplaceTools.map((t: any) => t.name),
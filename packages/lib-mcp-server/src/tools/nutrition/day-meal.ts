@@ -9,6 +9,20 @@
 import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
 import { prisma, type Prisma } from '@onecoach/lib-core';
+import {
+  FoodService,
+  MealSolverService,
+  RecipeService,
+  calculateMacrosFromQuantity,
+  fitQuantities,
+  scaleMacroTarget,
+  solveMeal,
+  sumNutrients,
+  type MacroTarget,
+  type MacrosWithNutrients,
+  type MealSolution,
+  type NutrientValues,
+} from '@onecoach/lib-food';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -16,6 +30,8 @@ import { prisma, type Prisma } from '@onecoach/lib-core';
 
 interface MealFood {
   foodId: string;
+  /** Presente se l'alimento è una ricetta (foodId = recipeId) */
+  recipeId?: string;
   name: string;
   quantity: number;
   unit: string;
@@ -24,6 +40,7 @@ interface MealFood {
     protein: number;
     carbs: number;
     fat: number;
+    nutrients?: NutrientValues;
   };
 }
 
@@ -71,6 +88,54 @@ function serializeWeeks(weeks: Week[]): Prisma.InputJsonValue {
   return JSON.parse(JSON.stringify(weeks)) as Prisma.InputJsonValue;
 }
 
+// Helper: target del pasto per il solver (fallback sui totali degli alimenti attuali)
+function getMealTarget(meal: Meal): MacroTarget | null {
+  const current = meal.foods.reduce(
+    (acc, f) => ({
+      calories: acc.calories + (f.macros?.calories ?? 0),
+      protein: acc.protein + (f.macros?.protein ?? 0),
+      carbs: acc.carbs + (f.macros?.carbs ?? 0),
+      fats: acc.fats + (f.macros?.fat ?? 0),
+    }),
+    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+  );
+  const target: MacroTarget = {
+    calories: meal.targetCalories || current.calories,
+    protein: meal.targetMacros?.protein ?? current.protein,
+    carbs: meal.targetMacros?.carbs ?? current.carbs,
+    fats: meal.targetMacros?.fat ?? current.fats,
+  };
+  return target.calories > 0 ? target : null;
+}
+
+// Helper: soluzione del solver → alimenti del piano (grammi, chiave `fat`)
+function toMealFoods(solution: MealSolution): MealFood[] {
+  return solution.foods.map((f) => ({
+    foodId: f.foodId,
+    name: f.name,
+    quantity: f.grams,
+    unit: 'g',
+    macros: {
+      calories: f.macros.calories,
+      protein: f.macros.protein,
+      carbs: f.macros.carbs,
+      fat: f.macros.fats,
+      nutrients: f.macros.nutrients,
+    },
+  }));
+}
+
+// Helper: micronutrienti totali degli alimenti dei pasti
+function sumFoodNutrients(meals: Meal[]): NutrientValues {
+  return sumNutrients(meals.flatMap((m) => m.foods.map((f) => f.macros?.nutrients)));
+}
+
+function formatSolution(solution: MealSolution): string {
+  const { totals } = solution;
+  return `${solution.foods.map((f) => `${f.name} ${f.grams}g`).join(' + ')}
+  ${totals.calories} kcal | P: ${totals.protein}g | C: ${totals.carbs}g | F: ${totals.fats}g${solution.withinTolerance ? '' : ' ⚠️ fuori tolleranza'}`;
+}
+
 // ============================================================================
 // DAY TOOLS
 // ============================================================================
@@ -118,6 +183,7 @@ ${day.meals.map((m: any) => `- ${m.time} ${m.name}: ${m.targetCalories} kcal`).j
         },
       ],
       day,
+      nutrients: sumFoodNutrients(day.meals),
     };
   },
 };
@@ -131,6 +197,12 @@ export const nutritionUpdateDayTool: McpTool = {
     dayNumber: z.number().int().min(1).max(7),
     calorieAdjustment: z.number().optional(),
     notes: z.string().optional(),
+    rebalanceFoods: z
+      .boolean()
+      .optional()
+      .describe(
+        'Ricalcola le grammature degli alimenti sui target dei pasti (default: solo con calorieAdjustment)'
+      ),
   }),
   execute: async (args, _context: McpContext) => {
     const plan = await prisma.nutrition_plans.findUnique({
@@ -160,11 +232,55 @@ export const nutritionUpdateDayTool: McpTool = {
     if (args.calorieAdjustment) {
       day.totalCalories += args.calorieAdjustment;
       const adjustmentFactor = day.totalCalories / (day.totalCalories - args.calorieAdjustment);
-      day.meals.forEach((meal: any) => {
-        meal.targetCalories = Math.round(meal.targetCalories * adjustmentFactor);
+      day.meals.forEach((meal) => {
+        const scaled = scaleMacroTarget(
+          {
+            calories: meal.targetCalories,
+            protein: meal.targetMacros?.protein ?? 0,
+            carbs: meal.targetMacros?.carbs ?? 0,
+            fats: meal.targetMacros?.fat ?? 0,
+          },
+          adjustmentFactor
+        );
+        meal.targetCalories = scaled.calories;
+        if (meal.targetMacros) {
+          meal.targetMacros = {
+            protein: Math.round(scaled.protein),
+            carbs: Math.round(scaled.carbs),
+            fat: Math.round(scaled.fats),
+          };
+        }
       });
     }
 
+    // Ricalcola le grammature degli alimenti esistenti sui nuovi target
+    let rebalancedMeals = 0;
+    if (args.rebalanceFoods ?? Boolean(args.calorieAdjustment)) {
+      const foodIds = [...new Set(day.meals.flatMap((m) => m.foods.map((f) => f.foodId)))];
+      const catalog = new Map(
+        (await FoodService.getFoodsByIds(foodIds)).map((f) => [
+          f.id,
+          MealSolverService.toSolverFood(f),
+        ])
+      );
+
+      for (const meal of day.meals) {
+        const target = getMealTarget(meal);
+        const foods = meal.foods.flatMap((f) => {
+          const food = catalog.get(f.foodId);
+          return food ? [food] : [];
+        });
+        if (!target || foods.length === 0 || foods.length !== meal.foods.length) continue;
+
+        const solution = fitQuantities(foods, target);
+        if (!solution || solution.foods.length !== meal.foods.length) continue;
+
+        // Il solver lavora in grammi: le quantità sono salvate in 'g'
+        meal.foods = toMealFoods(solution);
+        rebalancedMeals++;
+      }
+    }
+
     weeks[weekIndex]!.days[dayIndex] = day;
 
     await prisma.nutrition_plans.update({
@@ -179,7 +295,9 @@ export const nutritionUpdateDayTool: McpTool = {
       content: [
         {
           type: 'text',
-          text: `✅ Giorno ${args.dayNumber} aggiornato (${day.totalCalories} kcal)`,
+          text: `✅ Giorno ${args.dayNumber} aggiornato (${day.totalCalories} kcal)${
+            rebalancedMeals > 0 ? `\n⚖️ Grammature ricalcolate in ${rebalancedMeals} pasti` : ''
+          }`,
         },
       ],
       day,
@@ -307,6 +425,7 @@ export const nutritionGetMealTool: McpTool = {
       }),
       { calories: 0, protein: 0, carbs: 0, fat: 0 }
     );
+    const nutrients = sumFoodNutrients([meal]);
 
     return {
       content: [
@@ -322,30 +441,53 @@ ${meal.foods.map((f: any) => `- ${f.name}: ${f.quantity}${f.unit} (${f.macros.ca
         },
       ],
       meal,
+      totalMacros: { ...totalMacros, nutrients },
     };
   },
 };
 
 export const nutritionAddFoodToMealTool: McpTool = {
   name: 'nutrition_add_food_to_meal',
-  description: 'Adds a food item to a meal',
-  parameters: z.object({
-    planId: z.string(),
-    weekNumber: z.number().int().min(1),
-    dayNumber: z.number().int().min(1).max(7),
-    mealName: z.string(),
-    foodId: z.string(),
-    quantity: z.number().positive(),
-    unit: z.string().default('g'),
-  }),
-  execute: async (args, _context: McpContext) => {
-    // Fetch food item
-    const foodItem = await prisma.food_items.findUnique({
-      where: { id: args.foodId },
-    });
-
-    if (!foodItem) {
-      throw new Error('Alimento non trovato nel database');
+  description: 'Adds a food item or a saved recipe to a meal',
+  parameters: z
+    .object({
+      planId: z.string(),
+      weekNumber: z.number().int().min(1),
+      dayNumber: z.number().int().min(1).max(7),
+      mealName: z.string(),
+      foodId: z.string().optional(),
+      recipeId: z.string().optional().describe('Ricetta salvata (in alternativa a foodId)'),
+      quantity: z.number().positive(),
+      unit: z
+        .string()
+        .default('g')
+        .describe('g, ml, cup, tbsp, o porzione (es. "uovo", "slice"); per le ricette "porzione"'),
+    })
+    .refine((data) => Boolean(data.foodId) !== Boolean(data.recipeId), {
+      message: 'Indicare foodId oppure recipeId',
+    }),
+  execute: async (args, context: McpContext) => {
+    // Alimento del catalogo o ricetta (macro per porzione / per 100g)
+    let item: { id: string; name: string; macros: MacrosWithNutrients; isRecipe: boolean };
+    if (args.recipeId) {
+      const recipe = await RecipeService.getAccessible(args.recipeId, context.userId);
+      if (!recipe) {
+        throw new Error('Ricetta non trovata');
+      }
+      const { macros } = RecipeService.calculateMacrosForQuantity(recipe, args.quantity, args.unit);
+      item = { id: recipe.id, name: recipe.name, macros, isRecipe: true };
+    } else {
+      const foodItem = await FoodService.getFoodById(args.foodId!);
+      if (!foodItem) {
+        throw new Error('Alimento non trovato nel database');
+      }
+      const macros = calculateMacrosFromQuantity(
+        foodItem.macrosPer100g,
+        args.quantity,
+        args.unit,
+        foodItem
+      );
+      item = { id: foodItem.id, name: foodItem.name, macros, isRecipe: false };
     }
 
     const plan = await prisma.nutrition_plans.findUnique({
@@ -379,24 +521,19 @@ export const nutritionAddFoodToMealTool: McpTool = {
       throw new Error(`Pasto "${args.mealName}" non trovato`);
     }
 
-    // Calculate macros based on quantity
-    const macrosBase = foodItem.macrosPer100g as {
-      calories: number;
-      protein: number;
-      carbs: number;
-      fat: number;
-    } | null;
-    const multiplier = args.quantity / 100;
+    const { macros } = item;
     const calculatedMacros = {
-      calories: Math.round((macrosBase?.calories ?? 0) * multiplier),
-      protein: Math.round((macrosBase?.protein ?? 0) * multiplier * 10) / 10,
-      carbs: Math.round((macrosBase?.carbs ?? 0) * multiplier * 10) / 10,
-      fat: Math.round((macrosBase?.fat ?? 0) * multiplier * 10) / 10,
+      calories: Math.round(macros.calories),
+      protein: Math.round(macros.protein * 10) / 10,
+      carbs: Math.round(macros.carbs * 10) / 10,
+      fat: Math.round(macros.fats * 10) / 10,
+      nutrients: macros.nutrients,
     };
 
     const newFood: MealFood = {
-      foodId: args.foodId,
-      name: foodItem.name,
+      foodId: item.id,
+      ...(item.isRecipe && { recipeId: item.id }),
+      name: item.name,
       quantity: args.quantity,
       unit: args.unit,
       macros: calculatedMacros,
@@ -416,7 +553,7 @@ export const nutritionAddFoodToMealTool: McpTool = {
       content: [
         {
           type: 'text',
-          text: `✅ Aggiunto ${foodItem.name} (${args.quantity}${args.unit}) a ${args.mealName}
+          text: `✅ Aggiunto ${item.name} (${args.quantity}${args.unit}) a ${args.mealName}
 
 📊 +${calculatedMacros.calories} kcal | P: +${calculatedMacros.protein}g | C: +${calculatedMacros.carbs}g | F: +${calculatedMacros.fat}g`,
         },
@@ -499,13 +636,20 @@ export const nutritionRemoveFoodFromMealTool: McpTool = {
 
 export const nutritionSwapMealTool: McpTool = {
   name: 'nutrition_swap_meal',
-  description: 'Swaps a meal with alternatives matching similar macros',
+  description:
+    'Finds alternative food combinations (with gram quantities) matching the meal calorie and macro targets, optionally applying the best one',
   parameters: z.object({
     planId: z.string(),
     weekNumber: z.number().int().min(1),
     dayNumber: z.number().int().min(1).max(7),
     mealName: z.string(),
-    preferences: z.array(z.string()).optional(),
+    preferences: z.array(z.string()).optional().describe('Alimenti o categorie preferiti'),
+    preferredFoodIds: z.array(z.string()).optional(),
+    exclusions: z.array(z.string()).optional().describe('Alimenti o categorie da escludere'),
+    allergies: z.array(z.string()).optional(),
+    maxFoods: z.number().int().min(1).max(5).default(3),
+    maxAlternatives: z.number().int().min(1).max(10).default(3),
+    apply: z.boolean().default(false).describe("Sostituisce il pasto con l'alternativa migliore"),
   }),
   execute: async (args, _context: McpContext) => {
     const plan = await prisma.nutrition_plans.findUnique({
@@ -517,59 +661,80 @@ export const nutritionSwapMealTool: McpTool = {
     }
 
     const weeks = parseWeeks(plan.weeks);
-    const week = weeks.find((w: any) => w.weekNumber === args.weekNumber);
+    const weekIndex = weeks.findIndex((w) => w.weekNumber === args.weekNumber);
 
-    if (!week) {
+    if (weekIndex === -1) {
       throw new Error(`Settimana ${args.weekNumber} non trovata`);
     }
 
-    const day = week.days.find((d: any) => d.dayNumber === args.dayNumber);
+    const day = weeks[weekIndex]!.days.find((d) => d.dayNumber === args.dayNumber);
 
     if (!day) {
       throw new Error(`Giorno ${args.dayNumber} non trovato`);
     }
 
-    const meal = day.meals.find((m: any) => m.name.toLowerCase() === args.mealName.toLowerCase());
+    const meal = day.meals.find((m) => m.name.toLowerCase() === args.mealName.toLowerCase());
 
     if (!meal) {
       throw new Error(`Pasto "${args.mealName}" non trovato`);
     }
 
-    // Find alternative foods with similar calories
-    const targetCalories = meal.targetCalories;
-    const calorieRange = targetCalories * 0.2; // 20% tolerance
+    const target = getMealTarget(meal);
 
-    const alternatives = await prisma.food_items.findMany({
-      where: {
-        macrosPer100g: {
-          path: ['calories'],
-          gte: targetCalories - calorieRange,
-          lte: targetCalories + calorieRange,
+    if (!target) {
+      throw new Error(`Il pasto "${meal.name}" non ha un target calorico`);
+    }
+
+    // Restrizioni del piano + esclusioni della richiesta; gli alimenti attuali non sono alternative
+    const planRestrictions = Array.isArray(plan.restrictions)
+      ? (plan.restrictions as unknown[]).filter((r): r is string => typeof r === 'string')
+      : [];
+    const solverOptions = {
+      preferences: args.preferences,
+      preferredFoodIds: args.preferredFoodIds,
+      exclusions: [...planRestrictions, ...(args.exclusions ?? [])],
+      allergies: args.allergies,
+      excludeFoodIds: meal.foods.map((f) => f.foodId),
+      maxFoods: args.maxFoods,
+      maxAlternatives: args.maxAlternatives,
+    };
+    const candidates = await MealSolverService.loadCandidates(solverOptions);
+    const alternatives = solveMeal(candidates, target, solverOptions);
+    const best = alternatives[0];
+
+    if (args.apply && best) {
+      meal.foods = toMealFoods(best);
+
+      await prisma.nutrition_plans.update({
+        where: { id: args.planId },
+        data: {
+          weeks: serializeWeeks(weeks),
+          updatedAt: new Date(),
         },
-      },
-      take: 10,
-    });
+      });
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `🔄 **Alternative per ${meal.name}** (Target: ${targetCalories} kcal)
+          text: `🔄 **Alternative per ${meal.name}** (Target: ${target.calories} kcal | P: ${target.protein}g | C: ${target.carbs}g | F: ${target.fats}g)
 
 ${
-  alternatives
-    .map((a: any) => {
-      const macros = a.macrosPer100g as { calories: number } | null;
-      return `- ${a.name}: ${macros?.calories ?? 0} kcal/100g`;
-    })
-    .join('\n') || 'Nessuna alternativa trovata'
+  alternatives.map((a, i) => `${i + 1}. ${formatSolution(a)}`).join('\n') ||
+  'Nessuna alternativa trovata'
 }
 
-Usa \`nutrition_add_food_to_meal\` per aggiungere un\'alternativa.`,
+${
+  args.apply && best
+    ? `✅ Pasto sostituito con l'alternativa 1`
+    : "Usa `nutrition_swap_meal` con `apply: true` per applicare l'alternativa migliore."
+}`,
         },
       ],
       alternatives,
       currentMeal: meal,
+      target,
     };
   },
 };
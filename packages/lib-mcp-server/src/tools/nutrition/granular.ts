@@ -11,6 +11,13 @@ import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
 import { prisma, type Prisma } from '@onecoach/lib-core';
 import { fuzzyMatch, successResult } from '@onecoach/lib-copilot-framework';
+import {
+  FoodService,
+  calculateMacrosFromQuantity,
+  scaleNutrients,
+  sumNutrients,
+  type NutrientValues,
+} from '@onecoach/lib-food';
 
 // =====================================================
 // Type Definitions (Mirrors day-meal.ts)
@@ -26,6 +33,7 @@ interface MealFood {
     protein: number;
     carbs: number;
     fat: number;
+    nutrients?: NutrientValues;
   };
 }
 
@@ -51,6 +59,7 @@ interface Day {
     protein: number;
     carbs: number;
     fat: number;
+    nutrients?: NutrientValues;
   };
 }
 
@@ -109,7 +118,7 @@ const NutritionModificationChangesSchema = z.object({
   quantity: z.number().positive().optional().describe(
     'Food quantity. Example: "200g" → 200'
   ),
-  unit: z.string().optional().describe('Unit (g, ml, pz)'),
+  unit: z.string().optional().describe('Unit (g, ml, cup, tbsp) or food portion (e.g. "uovo", "fetta")'),
 });
 
 const nutritionApplyModificationParams = z.object({
@@ -225,20 +234,36 @@ Examples:
         
         const food = meal.foods[foodIndex]!;
         
-        if (changes?.quantity) {
+        if (changes?.quantity || changes?.unit) {
           const oldQuantity = food.quantity;
-          food.quantity = changes.quantity;
+          food.quantity = changes.quantity ?? food.quantity;
+          food.unit = changes.unit ?? food.unit;
           
-          // Recalculate macros
-          const multiplier = changes.quantity / oldQuantity;
-          food.macros.calories = Math.round(food.macros.calories * multiplier);
-          food.macros.protein = Math.round(food.macros.protein * multiplier * 10) / 10;
-          food.macros.carbs = Math.round(food.macros.carbs * multiplier * 10) / 10;
-          food.macros.fat = Math.round(food.macros.fat * multiplier * 10) / 10;
+          // Recalculate macros: dal catalogo (porzioni/densità), altrimenti in proporzione
+          const foodItem = await FoodService.getFoodById(food.foodId);
+          if (foodItem) {
+            const macros = calculateMacrosFromQuantity(foodItem.macrosPer100g, food.quantity, food.unit, foodItem);
+            food.macros = {
+              calories: Math.round(macros.calories),
+              protein: Math.round(macros.protein * 10) / 10,
+              carbs: Math.round(macros.carbs * 10) / 10,
+              fat: Math.round(macros.fats * 10) / 10,
+              nutrients: macros.nutrients,
+            };
+          } else if (!changes.unit) {
+            const multiplier = food.quantity / oldQuantity;
+            food.macros.calories = Math.round(food.macros.calories * multiplier);
+            food.macros.protein = Math.round(food.macros.protein * multiplier * 10) / 10;
+            food.macros.carbs = Math.round(food.macros.carbs * multiplier * 10) / 10;
+            food.macros.fat = Math.round(food.macros.fat * multiplier * 10) / 10;
+            if (food.macros.nutrients) {
+              food.macros.nutrients = scaleNutrients(food.macros.nutrients, multiplier * 100);
+            }
+          } else {
+            throw new Error(`Alimento "${food.name}" non trovato nel catalogo: impossibile convertire l'unità`);
+          }
         }
         
-        if (changes?.unit) food.unit = changes.unit;
-        
         message = `Aggiornato ${food.name}: ${food.quantity}${food.unit}`;
         break;
       }
@@ -247,15 +272,14 @@ Examples:
         if (mealIndex === -1) throw new Error('Nome pasto richiesto per add_food');
         if (!args.newFoodId) throw new Error('newFoodId richiesto per add_food');
         
-        const foodItem = await prisma.food_items.findUnique({ where: { id: args.newFoodId }});
+        const foodItem = await FoodService.getFoodById(args.newFoodId);
         if (!foodItem) throw new Error('Alimento non trovato');
         
         const qty = args.newFoodQuantity ?? 100;
         const unit = args.newFoodUnit ?? 'g';
         
-        // Calculate macros
-        const macrosBase = foodItem.macrosPer100g as any;
-        const multiplier = qty / 100;
+        // Calculate macros (porzioni e densità dell'alimento)
+        const macros = calculateMacrosFromQuantity(foodItem.macrosPer100g, qty, unit, foodItem);
         
          const newFood: MealFood = {
           foodId: foodItem.id,
@@ -263,10 +287,11 @@ Examples:
           quantity: qty,
           unit: unit,
           macros: {
-            calories: Math.round((macrosBase?.calories ?? 0) * multiplier),
-            protein: Math.round((macrosBase?.protein ?? 0) * multiplier * 10) / 10,
-            carbs: Math.round((macrosBase?.carbs ?? 0) * multiplier * 10) / 10,
-            fat: Math.round((macrosBase?.fat ?? 0) * multiplier * 10) / 10,
+            calories: Math.round(macros.calories),
+            protein: Math.round(macros.protein * 10) / 10,
+            carbs: Math.round(macros.carbs * 10) / 10,
+            fat: Math.round(macros.fats * 10) / 10,
+            nutrients: macros.nutrients,
           }
         };
         
@@ -315,7 +340,8 @@ Examples:
         calories: Math.round(dayCals),
         protein: Math.round(dayP),
         carbs: Math.round(dayC),
-        fat: Math.round(dayF)
+        fat: Math.round(dayF),
+        nutrients: sumNutrients(day.meals.flatMap(m => m.foods.map(f => f.macros.nutrients)))
     };
 
     // 6. Save
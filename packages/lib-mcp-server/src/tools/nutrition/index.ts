@@ -12,6 +12,7 @@ export * from './day-meal';
 export * from './tracking';
 export * from './import';
 export * from './granular';
+export * from './recipe';
 
 // Re-export tool arrays for convenience
 import { nutritionPlanTools } from './plan';
@@ -19,6 +20,7 @@ import { nutritionDayMealTools } from './day-meal';
 import { nutritionTrackingTools } from './tracking';
 import { nutritionImportTool } from './import';
 import { nutritionApplyModificationTool } from './granular';
+import { nutritionRecipeTools } from './recipe';
 
 /**
  * All nutrition-related MCP tools
@@ -29,4 +31,5 @@ export const allNutritionTools = [
   ...nutritionTrackingTools,
   nutritionImportTool,
   nutritionApplyModificationTool,
+  ...nutritionRecipeTools,
 ];
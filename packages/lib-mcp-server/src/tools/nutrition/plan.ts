@@ -10,6 +10,7 @@ import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
 import { prisma, type Prisma } from '@onecoach/lib-core';
 import { isValidUUID, createMcpTextResponse, safeHandleMemoryEvent } from '../../utils/helpers';
+import { MealSolverService, solveDay, type DaySolution } from '@onecoach/lib-food';
 
 // ============================================================================
 // PLAN GENERATION TOOL
@@ -60,6 +61,13 @@ const nutritionGeneratePlanSchema = z.object({
     .describe(
       'Distribuzione pasti opzionale. Se non specificata, AI determinerà distribuzione ottimale'
     ),
+  allergies: z.array(z.string()).optional(),
+  populateFoods: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Con targetMacros completi, compone i pasti con alimenti e grammature calcolati dal solver'
+    ),
 });
 
 type NutritionGeneratePlanArgs = z.infer<typeof nutritionGeneratePlanSchema>;
@@ -83,6 +91,8 @@ export const nutritionGeneratePlanTool: McpTool<NutritionGeneratePlanArgs> = {
       mealsPerDay,
       targetMacros: providedMacros,
       mealDistribution: providedMealDistribution,
+      allergies,
+      populateFoods,
     } = args;
 
     // Usa context.userId come fallback per athleteId (evita placeholder come "athlete_12345")
@@ -112,6 +122,49 @@ export const nutritionGeneratePlanTool: McpTool<NutritionGeneratePlanArgs> = {
       providedMealDistribution?.map((m: any) => m.caloriePercentage ?? 1 / mealsPerDayCount) ??
       Array(mealsPerDayCount).fill(1 / mealsPerDayCount);
 
+    // Con target completi le quantità le calcola il solver (una giornata per giorno
+    // della settimana, evitando di ripetere gli alimenti del giorno precedente)
+    const daySolutions: DaySolution[] = [];
+    if (
+      populateFoods &&
+      providedMacros?.calories &&
+      providedMacros.protein &&
+      providedMacros.carbs &&
+      providedMacros.fats
+    ) {
+      const solverOptions = {
+        preferences,
+        exclusions: restrictions,
+        allergies,
+        maxAlternatives: 1,
+      };
+      const candidates = await MealSolverService.loadCandidates(solverOptions);
+      const mealTargets = mealNames.map((mealName, i) => {
+        const pct = mealCalorieDistribution[i] ?? 1 / mealsPerDayCount;
+        return {
+          name: mealName,
+          target: {
+            calories: Math.round(targetMacros.calories * pct),
+            protein: Math.round(targetMacros.protein * pct),
+            carbs: Math.round(targetMacros.carbs * pct),
+            fats: Math.round(targetMacros.fat * pct),
+          },
+        };
+      });
+
+      for (let d = 0; d < 7; d++) {
+        const previous = daySolutions[d - 1];
+        daySolutions.push(
+          solveDay(mealTargets, candidates, {
+            ...solverOptions,
+            avoidFoodIds: previous?.meals.flatMap(
+              (m) => m.solution?.foods.map((f) => f.foodId) ?? []
+            ),
+          })
+        );
+      }
+    }
+
     // Generate weeks structure (stored as JSON)
     // AI will populate meals with actual foods and determine optimal timing
     const weeks: Prisma.InputJsonValue[] = [];
@@ -124,6 +177,7 @@ export const nutritionGeneratePlanTool: McpTool<NutritionGeneratePlanArgs> = {
         const meals = mealNames.map((mealName, i) => {
           const mealTime = providedMealDistribution?.[i]?.time;
           const mealCalPct = mealCalorieDistribution[i] ?? 1 / mealsPerDayCount;
+          const solution = daySolutions[d]?.meals[i]?.solution;
 
           return {
             name: mealName,
@@ -138,7 +192,19 @@ export const nutritionGeneratePlanTool: McpTool<NutritionGeneratePlanArgs> = {
                   fat: Math.round(targetMacros.fat * mealCalPct),
                 }
               : null, // AI will calculate
-            foods: [] as Prisma.InputJsonValue[], // AI will populate
+            foods: (solution?.foods.map((f) => ({
+              foodId: f.foodId,
+              name: f.name,
+              quantity: f.grams,
+              unit: 'g',
+              macros: {
+                calories: f.macros.calories,
+                protein: f.macros.protein,
+                carbs: f.macros.carbs,
+                fat: f.macros.fats,
+                nutrients: f.macros.nutrients,
+              },
+            })) ?? []) as Prisma.InputJsonValue[], // AI will populate if empty
           };
         });
 
@@ -204,10 +270,13 @@ ${
 
 📅 Durata: ${durationWeeks} settimane
 🍽️ ${mealsPerDayCount} pasti al giorno
-
+${
+  daySolutions.length > 0
+    ? `⚖️ Alimenti e grammature calcolati: ${daySolutions.filter((d) => d.withinTolerance).length}/7 giorni entro le tolleranze\n`
+    : ''
+}
 💡 **Nota:** La struttura base è stata creata. L'AI determinerà autonomamente:
-${!providedMacros ? '- Calcolo BMR/TDEE e macro target ottimali\n' : ''}${!providedMealDistribution ? '- Distribuzione calorie tra i pasti\n' : ''}- Selezione alimenti basata su preferenze e restrizioni
-- Variazione settimanale per sostenibilità
+${!providedMacros ? '- Calcolo BMR/TDEE e macro target ottimali\n' : ''}${!providedMealDistribution ? '- Distribuzione calorie tra i pasti\n' : ''}${daySolutions.length === 0 ? '- Selezione alimenti basata su preferenze e restrizioni\n' : ''}- Variazione settimanale per sostenibilità
 - Timing pasti ottimale`,
       {
         plan,
@@ -0,0 +1,108 @@
+/**
+ * MCP Nutrition Recipe Tools
+ *
+ * Ricette come alimenti composti: creazione, lettura e import da testo/URL.
+ *
+ * @module lib-mcp-server/tools/nutrition/recipe
+ */
+
+import { z } from 'zod';
+import type { McpTool, McpContext } from '../../types';
+import { RecipeService, recipeInputSchema } from '@onecoach/lib-food';
+import {
+  RecipeImportService,
+  createRecipeAIContext,
+  fetchRecipeImportFile,
+  recipeTextToImportFile,
+} from '@onecoach/lib-food/recipe-import.service';
+import { randomUUID } from 'crypto';
+import { logger } from '@onecoach/lib-core';
+
+export const nutritionCreateRecipeTool: McpTool = {
+  name: 'nutrition_create_recipe',
+  description:
+    'Creates a recipe from catalog foods. Macros per serving are computed from ingredients, servings and optional cooked yield (yieldGrams)',
+  parameters: recipeInputSchema,
+  execute: async (args, context: McpContext) => {
+    if (!context.userId) {
+      throw new Error('Unauthorized: User ID required');
+    }
+
+    const recipe = await RecipeService.create(context.userId, args);
+
+    const kcal = Math.round(recipe.macrosPerServing.calories);
+    return {
+      success: true,
+      recipe,
+      message: `Ricetta "${recipe.name}" creata: ${kcal} kcal per porzione`,
+    };
+  },
+};
+
+export const nutritionGetRecipeTool: McpTool = {
+  name: 'nutrition_get_recipe',
+  description: 'Gets a recipe with ingredients and macros per serving and per 100g',
+  parameters: z.object({
+    recipeId: z.string(),
+  }),
+  execute: async (args, context: McpContext) => {
+    const recipe = await RecipeService.getAccessible(args.recipeId, context.userId);
+    if (!recipe) {
+      throw new Error('Ricetta non trovata');
+    }
+
+    return recipe;
+  },
+};
+
+export const nutritionImportRecipeTool: McpTool = {
+  name: 'nutrition_import_recipe',
+  description:
+    'Imports a recipe from free text or a web page URL, matching ingredients to the food catalog',
+  parameters: z
+    .object({
+      text: z.string().min(1).max(50000).optional().describe('Testo della ricetta'),
+      url: z.string().url().optional().describe('Pagina web della ricetta (https)'),
+      locale: z.string().optional(),
+    })
+    .refine((args) => Boolean(args.text) !== Boolean(args.url), {
+      message: 'Specificare text oppure url',
+    }),
+  execute: async (args, context: McpContext) => {
+    if (!context.userId) {
+      throw new Error('Authentication required');
+    }
+
+    const file = args.url
+      ? await fetchRecipeImportFile(args.url)
+      : recipeTextToImportFile(args.text ?? '');
+
+    const importService = new RecipeImportService({
+      aiContext: createRecipeAIContext(args.url),
+      onProgress: (progress) => {
+        logger.warn(`[RecipeImport] ${progress.step}: ${progress.message}`);
+      },
+      context: { userId: context.userId, requestId: randomUUID() },
+    });
+
+    const result = await importService.import([file], context.userId, { locale: args.locale });
+
+    if (!result.success) {
+      throw new Error(result.errors?.join('\n') || 'Import fallito');
+    }
+
+    return {
+      success: true,
+      recipeId: result.recipeId,
+      recipe: result.recipe,
+      unmatchedIngredients: result.unmatchedIngredients,
+      warnings: result.warnings,
+    };
+  },
+};
+
+export const nutritionRecipeTools = [
+  nutritionCreateRecipeTool,
+  nutritionGetRecipeTool,
+  nutritionImportRecipeTool,
+];
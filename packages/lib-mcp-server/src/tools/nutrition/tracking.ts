@@ -9,7 +9,35 @@
 
 import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
-import { prisma } from '@onecoach/lib-core';
+import { prisma, activityEventService } from '@onecoach/lib-core';
+import {
+  FoodService,
+  NutrientTargetService,
+  RecipeService,
+  calculateMacrosFromQuantity,
+  compareNutrientIntake,
+  parseNutrients,
+  sumNutrients,
+  tryResolveQuantityInGrams,
+  type NutrientValues,
+} from '@onecoach/lib-food';
+
+/**
+ * Media dei nutrienti sui giorni con dati (i giorni senza micronutrienti non abbassano la media)
+ */
+function averageNutrients(days: NutrientValues[]): NutrientValues {
+  const counts: Record<string, number> = {};
+  for (const day of days) {
+    for (const key of Object.keys(day)) counts[key] = (counts[key] ?? 0) + 1;
+  }
+
+  const total = sumNutrients(days);
+  const average: NutrientValues = {};
+  for (const [key, value] of Object.entries(total)) {
+    average[key] = Math.round((value / (counts[key] ?? 1)) * 10) / 10;
+  }
+  return average;
+}
 
 // ============================================================================
 // TRACKING TOOLS
@@ -17,7 +45,8 @@ import { prisma } from '@onecoach/lib-core';
 
 export const nutritionLogIntakeTool: McpTool = {
   name: 'nutrition_log_intake',
-  description: 'Logs actual food intake for a day',
+  description:
+    'Logs actual food intake for a day. Quantities accept grams, household measures (cup, tbsp) or food portions (e.g. 2 "eggs", 1 "slice"). Saved recipes are logged with recipeId and servings',
   parameters: z.object({
     planId: z.string(),
     weekNumber: z.number().int().min(1),
@@ -28,16 +57,27 @@ export const nutritionLogIntakeTool: McpTool = {
         name: z.string(),
         foods: z.array(
           z.object({
-            foodId: z.string(),
+            foodId: z.string().optional(),
+            recipeId: z
+              .string()
+              .optional()
+              .describe('Ricetta salvata (in alternativa a foodId); unit "porzione" o grammi'),
             name: z.string(),
             quantity: z.number().positive(),
-            unit: z.string().default('g'),
-            macros: z.object({
-              calories: z.number(),
-              protein: z.number(),
-              carbs: z.number(),
-              fat: z.number(),
-            }),
+            unit: z.string().default('g').describe('g, ml, cup, tbsp, o porzione (es. "uovo", "slice")'),
+            macros: z
+              .object({
+                calories: z.number(),
+                protein: z.number(),
+                carbs: z.number(),
+                fat: z.number(),
+                nutrients: z
+                  .record(z.string(), z.number().min(0))
+                  .optional()
+                  .describe('Micronutrienti (sodium mg, sugar g, iron mg, ...)'),
+              })
+              .optional()
+              .describe('Se omessi, calcolati dal catalogo in base a quantità e unità'),
           })
         ),
       })
@@ -50,15 +90,96 @@ export const nutritionLogIntakeTool: McpTool = {
       throw new Error('Unauthorized: User ID required');
     }
 
+    // Grammi e macro dal catalogo (porzioni e densità dell'alimento) o dalla ricetta
+    const entries = args.meals.flatMap((m) => m.foods);
+    const catalog = new Map(
+      (
+        await FoodService.getFoodsByIds([
+          ...new Set(entries.flatMap((f) => (f.foodId && !f.recipeId ? [f.foodId] : []))),
+        ])
+      ).map((f) => [f.id, f])
+    );
+    const recipes = new Map(
+      await Promise.all(
+        [...new Set(entries.flatMap((f) => (f.recipeId ? [f.recipeId] : [])))].map(
+          async (id) => [id, await RecipeService.getAccessible(id, context.userId)] as const
+        )
+      )
+    );
+
+    const meals = args.meals.map((meal) => ({
+      ...meal,
+      foods: meal.foods.map((food) => {
+        const recipe = food.recipeId ? recipes.get(food.recipeId) : undefined;
+        if (recipe) {
+          const { grams, macros } = RecipeService.calculateMacrosForQuantity(
+            recipe,
+            food.quantity,
+            food.unit
+          );
+          return {
+            ...food,
+            grams,
+            macros: {
+              ...(food.macros ?? {
+                calories: Math.round(macros.calories),
+                protein: Math.round(macros.protein * 10) / 10,
+                carbs: Math.round(macros.carbs * 10) / 10,
+                fat: Math.round(macros.fats * 10) / 10,
+              }),
+              nutrients: food.macros?.nutrients ?? macros.nutrients,
+            },
+          };
+        }
+
+        const item = food.foodId && !food.recipeId ? catalog.get(food.foodId) : undefined;
+        if (!item) {
+          if (!food.macros) {
+            throw new Error(`Alimento "${food.name}" non trovato: macro obbligatorie`);
+          }
+          return { ...food, macros: food.macros };
+        }
+
+        // I grammi servono solo a calcolare le macro: con macro fornite
+        // un'unità non convertibile (es. "pz") non blocca il log
+        const resolved = tryResolveQuantityInGrams(food.quantity, food.unit, item);
+        if (!resolved) {
+          if (!food.macros) {
+            throw new Error(
+              `Unità "${food.unit}" non supportata per "${food.name}": macro obbligatorie`
+            );
+          }
+          return { ...food, macros: food.macros };
+        }
+
+        const grams = resolved.grams;
+        const macros = calculateMacrosFromQuantity(item.macrosPer100g, grams, 'g');
+        return {
+          ...food,
+          grams: Math.round(grams),
+          macros: {
+            ...(food.macros ?? {
+              calories: Math.round(macros.calories),
+              protein: Math.round(macros.protein * 10) / 10,
+              carbs: Math.round(macros.carbs * 10) / 10,
+              fat: Math.round(macros.fats * 10) / 10,
+            }),
+            nutrients: food.macros?.nutrients ?? macros.nutrients,
+          },
+        };
+      }),
+    }));
+
     // Calculate total macros
     const totalMacros = {
       calories: 0,
       protein: 0,
       carbs: 0,
       fat: 0,
+      nutrients: sumNutrients(meals.flatMap((m) => m.foods.map((f) => f.macros.nutrients))),
     };
 
-    for (const meal of args.meals) {
+    for (const meal of meals) {
       for (const food of meal.foods) {
         totalMacros.calories += food.macros.calories;
         totalMacros.protein += food.macros.protein;
@@ -72,7 +193,7 @@ export const nutritionLogIntakeTool: McpTool = {
         id: `${args.planId}-${args.weekNumber}-${args.dayNumber}-${args.date}`,
       },
       update: {
-        meals: args.meals,
+        meals,
         actualDailyMacros: totalMacros,
         waterIntake: args.waterIntake,
         notes: args.notes,
@@ -84,7 +205,7 @@ export const nutritionLogIntakeTool: McpTool = {
         weekNumber: args.weekNumber,
         dayNumber: args.dayNumber,
         date: new Date(args.date),
-        meals: args.meals,
+        meals,
         actualDailyMacros: totalMacros,
         waterIntake: args.waterIntake,
         notes: args.notes,
@@ -92,6 +213,14 @@ export const nutritionLogIntakeTool: McpTool = {
       },
     });
 
+    if (context.userId) {
+      await activityEventService.record(context.userId, 'MEAL_LOGGED', {
+        planId: args.planId,
+        date: args.date,
+        meals: meals.length,
+      });
+    }
+
     return {
       content: [
         {
@@ -103,7 +232,7 @@ export const nutritionLogIntakeTool: McpTool = {
 - Proteine: ${totalMacros.protein}g
 - Carboidrati: ${totalMacros.carbs}g
 - Grassi: ${totalMacros.fat}g
-${args.waterIntake ? `💧 Acqua: ${args.waterIntake}L` : ''}`,
+${totalMacros.nutrients.sodium !== undefined ? `- Sodio: ${totalMacros.nutrients.sodium}mg\n` : ''}${args.waterIntake ? `💧 Acqua: ${args.waterIntake}L` : ''}`,
         },
       ],
       log,
@@ -150,21 +279,27 @@ export const nutritionGetTrackingTool: McpTool = {
       fat: 0,
     };
 
+    const dailyNutrients: NutrientValues[] = [];
+
     for (const log of logs) {
       const macros = log.actualDailyMacros as {
         calories: number;
         protein: number;
         carbs: number;
         fat: number;
+        nutrients?: NutrientValues;
       } | null;
       if (macros) {
         avgMacros.calories += macros.calories;
         avgMacros.protein += macros.protein;
         avgMacros.carbs += macros.carbs;
         avgMacros.fat += macros.fat;
+        dailyNutrients.push(parseNutrients(macros.nutrients));
       }
     }
 
+    const avgNutrients = averageNutrients(dailyNutrients);
+
     if (totalDays > 0) {
       avgMacros.calories = Math.round(avgMacros.calories / totalDays);
       avgMacros.protein = Math.round(avgMacros.protein / totalDays);
@@ -189,7 +324,7 @@ export const nutritionGetTrackingTool: McpTool = {
         },
       ],
       logs,
-      summary: { totalDays, avgMacros },
+      summary: { totalDays, avgMacros, avgNutrients },
     };
   },
 };
@@ -205,7 +340,7 @@ export const nutritionGetAdherenceReportTool: McpTool = {
     // Get the plan with targets
     const plan = await prisma.nutrition_plans.findUnique({
       where: { id: args.planId },
-      select: { targetMacros: true, name: true, durationWeeks: true },
+      select: { targetMacros: true, name: true, durationWeeks: true, userId: true },
     });
 
     if (!plan) {
@@ -234,16 +369,32 @@ export const nutritionGetAdherenceReportTool: McpTool = {
     let totalCaloriesLogged = 0;
     let totalProteinLogged = 0;
     let daysLogged = 0;
+    const dailyNutrients: NutrientValues[] = [];
 
     for (const log of logs) {
-      const macros = log.actualDailyMacros as { calories: number; protein: number } | null;
+      const macros = log.actualDailyMacros as {
+        calories: number;
+        protein: number;
+        nutrients?: NutrientValues;
+      } | null;
       if (macros) {
         totalCaloriesLogged += macros.calories;
         totalProteinLogged += macros.protein;
         daysLogged++;
+        dailyNutrients.push(parseNutrients(macros.nutrients));
       }
     }
 
+    // Micronutrienti vs riferimenti del profilo (solo quelli presenti nei log)
+    const avgNutrients = averageNutrients(dailyNutrients);
+    const nutrientReferences = plan.userId
+      ? await NutrientTargetService.getDailyReferences(plan.userId)
+      : {};
+    const nutrientAdherence = compareNutrientIntake(avgNutrients, nutrientReferences).filter(
+      (entry) => avgNutrients[entry.nutrient] !== undefined
+    );
+    const nutrientAlerts = nutrientAdherence.filter((entry) => entry.status !== 'OK');
+
     const avgCalories = daysLogged > 0 ? Math.round(totalCaloriesLogged / daysLogged) : 0;
     const avgProtein = daysLogged > 0 ? Math.round(totalProteinLogged / daysLogged) : 0;
 
@@ -268,7 +419,16 @@ ${args.weekNumber ? `📅 Settimana ${args.weekNumber}` : '📅 Intero piano'}
 📈 **Media vs Target:**
 - Calorie: ${avgCalories}/${targetMacros.calories} kcal (${calorieAdherence}%)
 - Proteine: ${avgProtein}/${targetMacros.protein}g (${proteinAdherence}%)
-
+${
+  nutrientAlerts.length > 0
+    ? `\n🧪 **Micronutrienti fuori riferimento:**\n${nutrientAlerts
+        .map(
+          (entry) =>
+            `- ${entry.nutrient}: ${entry.amount}/${entry.reference}${entry.unit ?? ''} (${entry.percent}%, ${entry.status === 'HIGH' ? 'sopra il limite' : 'sotto il riferimento'})`
+        )
+        .join('\n')}\n`
+    : ''
+}
 ${
   calorieAdherence >= 90 && calorieAdherence <= 110
     ? '✅ Ottimo lavoro! In target'
@@ -289,6 +449,9 @@ ${
         calorieAdherence,
         proteinAdherence,
         targetMacros,
+        avgNutrients,
+        nutrientReferences,
+        nutrientAdherence,
       },
     };
   },
@@ -438,26 +438,52 @@ export const reorderTasksTool: McpTool = {
 // HABIT TOOLS
 // ============================================================================
 
+const habitFrequencySchema = z.enum(['DAILY', 'WEEKLY', 'TIMES_PER_WEEK', 'SPECIFIC_DAYS']);
+
+const habitScheduleShape = {
+  timesPerWeek: z
+    .number()
+    .int()
+    .min(1)
+    .max(7)
+    .optional()
+    .describe('Target completions per week (TIMES_PER_WEEK only)'),
+  weekdays: z
+    .array(z.number().int().min(0).max(6))
+    .optional()
+    .describe('Scheduled weekdays, 0 = Sunday ... 6 = Saturday (SPECIFIC_DAYS only)'),
+  gracePeriods: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Consecutive missed days/weeks tolerated before the streak breaks'),
+  freezeDaysPerMonth: z.number().int().min(0).optional().describe('Freeze days allowed per month'),
+  timezone: z.string().optional().describe("User's IANA timezone (e.g. Europe/Rome)"),
+};
+
+const habitDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .optional()
+  .describe("Calendar day YYYY-MM-DD in the habit's timezone (default: today)");
+
 export const createHabitTool: McpTool = {
   name: 'oneagenda_create_habit',
   description: 'Creates a new habit in OneAgenda',
   parameters: z.object({
     title: z.string().describe('The title of the habit'),
-    frequency: z.enum(['DAILY', 'WEEKLY']).describe('The frequency'),
+    frequency: habitFrequencySchema.describe('The frequency'),
     description: z.string().optional().describe('Description'),
     color: z.string().optional().describe('Color hex code'),
+    ...habitScheduleShape,
   }),
   execute: async (args, context) => {
     if (!context.userId) {
       throw new Error('Unauthorized: User ID required');
     }
 
-    const habit = await habitService.create(context.userId, {
-      title: args.title,
-      frequency: args.frequency,
-      description: args.description,
-      color: args.color,
-    });
+    const habit = await habitService.create(context.userId, args);
 
     return {
       content: [{ type: 'text', text: `Habit created: ${habit.title} (ID: ${habit.id})` }],
@@ -473,8 +499,9 @@ export const updateHabitTool: McpTool = {
     habitId: z.string().describe('The habit ID to update'),
     title: z.string().optional().describe('New title'),
     description: z.string().optional().describe('New description'),
-    frequency: z.enum(['DAILY', 'WEEKLY']).optional().describe('New frequency'),
+    frequency: habitFrequencySchema.optional().describe('New frequency'),
     color: z.string().optional().describe('New color hex code'),
+    ...habitScheduleShape,
   }),
   execute: async (args, context) => {
     if (!context.userId) {
@@ -543,6 +570,66 @@ export const toggleHabitTool: McpTool = {
   },
 };
 
+export const logHabitTool: McpTool = {
+  name: 'oneagenda_log_habit',
+  description: 'Marks a habit as completed or not completed for a given day, including past days',
+  parameters: z.object({
+    habitId: z.string().describe('The habit ID'),
+    date: habitDateSchema,
+    completed: z.boolean().default(true).describe('Whether the habit was completed that day'),
+  }),
+  execute: async (args, context) => {
+    if (!context.userId) {
+      throw new Error('Unauthorized: User ID required');
+    }
+
+    const habit = await habitService.log(context.userId, args.habitId, {
+      date: args.date,
+      completed: args.completed,
+    });
+
+    if (!habit) {
+      throw new Error('Habit not found or access denied');
+    }
+
+    const statusText = args.completed ? 'completed' : 'uncompleted';
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Habit "${habit.title}" ${statusText} for ${args.date ?? 'today'} (streak: ${habit.currentStreak} ${habit.streakUnit}s)`,
+        },
+      ],
+      habit,
+    };
+  },
+};
+
+export const freezeHabitTool: McpTool = {
+  name: 'oneagenda_freeze_habit',
+  description: 'Freezes a day for a habit so it neither counts nor breaks the streak',
+  parameters: z.object({
+    habitId: z.string().describe('The habit ID'),
+    date: habitDateSchema,
+  }),
+  execute: async (args, context) => {
+    if (!context.userId) {
+      throw new Error('Unauthorized: User ID required');
+    }
+
+    const habit = await habitService.freeze(context.userId, args.habitId, args.date);
+
+    if (!habit) {
+      throw new Error('Habit not found or access denied');
+    }
+
+    return {
+      content: [{ type: 'text', text: `Habit "${habit.title}" frozen for ${args.date ?? 'today'}` }],
+      habit,
+    };
+  },
+};
+
 export const listHabitsTool: McpTool = {
   name: 'oneagenda_list_habits',
   description: 'Lists all habits with streak and completion info',
@@ -651,6 +738,8 @@ export const oneagendaTools: McpTool[] = [
   updateHabitTool,
   deleteHabitTool,
   toggleHabitTool,
+  logHabitTool,
+  freezeHabitTool,
   listHabitsTool,
   // Granular Modifications
   agendaApplyModificationTool,
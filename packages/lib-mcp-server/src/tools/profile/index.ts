@@ -11,7 +11,7 @@
 
 import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
-import { userProfileService, prisma } from '@onecoach/lib-core';
+import { entitlementService, userProfileService, prisma } from '@onecoach/lib-core';
 import { createId } from '@onecoach/lib-shared';
 
 // ============================================================================
@@ -92,6 +92,38 @@ ${args.includeSnapshots && result.snapshots ? `\n📊 Snapshot: ${result.snapsho
   },
 };
 
+const profileGetEntitlementsSchema = z.object({});
+
+type ProfileGetEntitlementsArgs = z.infer<typeof profileGetEntitlementsSchema>;
+
+export const profileGetEntitlementsTool: McpTool<ProfileGetEntitlementsArgs> = {
+  name: 'profile_get_entitlements',
+  description:
+    'Returns what the user can do right now: plan tier, enabled features, credit allowances and expiry. Use this before suggesting premium features instead of guessing from the subscription.',
+  parameters: profileGetEntitlementsSchema,
+  execute: async (_args: ProfileGetEntitlementsArgs, context: McpContext) => {
+    if (!context.userId) {
+      throw new Error('Unauthorized: User ID required');
+    }
+
+    const entitlements = await entitlementService.get(context.userId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔑 **Piano ${entitlements.tier}**${entitlements.status === 'GRACE_PERIOD' ? ' (pagamento in sospeso)' : ''}
+
+Feature: ${entitlements.features.join(', ')}
+Crediti: ${entitlements.credits.unlimited ? 'illimitati' : `${entitlements.credits.monthlyAllowance} al mese`}
+${entitlements.expiresAt ? `Scadenza: ${entitlements.expiresAt.toISOString().split('T')[0]}` : ''}`,
+        },
+      ],
+      entitlements,
+    };
+  },
+};
+
 const profileUpdateSchema = z.object({
   age: z.number().int().min(1).max(150).optional(),
   sex: z.enum(['MALE', 'FEMALE', 'OTHER']).optional(),
@@ -642,6 +674,7 @@ ID: ${args.id}`,
 
 export const profileTools = [
   profileGetTool,
+  profileGetEntitlementsTool,
   profileUpdateTool,
   profileUpdateBatchTool,
   bodyMeasurementCreateTool,
@@ -15,7 +15,17 @@
 import { z } from 'zod';
 import type { McpTool, McpContext } from '../../types';
 import { prisma } from '@onecoach/lib-core';
+import { getDailyReadiness, type DailyReadiness } from '@onecoach/lib-analytics/readiness.service';
+import {
+  recommendNextSet,
+  recommendRestSeconds,
+  type AutoregulationRecommendation,
+  type PreviousPerformance,
+} from '@onecoach/lib-exercise/autoregulation';
+import { getExerciseSets } from '@onecoach/one-workout';
 import { logger } from '@onecoach/lib-shared';
+import { toExerciseArrayTyped } from '@onecoach/lib-shared/prisma-type-guards';
+import { resolveExerciseByName } from '../../utils/exercise-catalog.utils';
 
 // =====================================================
 // Helper: Get Live Session from Context
@@ -55,6 +65,138 @@ function getLiveSessionFromContext(context: McpContext): LiveSessionFromContext
   return liveSession;
 }
 
+// =====================================================
+// Helper: Today's Readiness
+// =====================================================
+
+/**
+ * Readiness di oggi per adattare i carichi; null se non disponibile
+ */
+async function getTodayReadiness(context: McpContext): Promise<DailyReadiness | null> {
+  if (!context.userId) return null;
+
+  try {
+    return await getDailyReadiness(context.userId);
+  } catch (error) {
+    logger.warn('[LiveCoaching] ⚠️ Readiness unavailable', { error });
+    return null;
+  }
+}
+
+/**
+ * Carico prescritto dalla sessione per il set corrente: riferimento della riduzione da
+ * readiness; null se la sessione non lo prevede
+ */
+async function loadPlannedWeight(
+  context: McpContext,
+  liveSession: LiveSessionFromContext
+): Promise<number | null> {
+  const { sessionId, currentExerciseIndex, currentSetIndex } = liveSession;
+  if (!context.userId || !sessionId || currentExerciseIndex === null) return null;
+
+  try {
+    const session = await prisma.workout_sessions.findFirst({
+      where: { id: sessionId, userId: context.userId },
+      select: { exercises: true },
+    });
+    if (!session) return null;
+
+    const exercise = toExerciseArrayTyped(session.exercises)[currentExerciseIndex];
+    if (!exercise) return null;
+
+    // SSOT: usa getExerciseSets() invece di exercise.sets
+    const weights = getExerciseSets(exercise).map((set) => set.weight ?? 0);
+    const planned = weights[currentSetIndex ?? 0] || weights.find((w) => w > 0);
+    return planned && planned > 0 ? planned : null;
+  } catch (error) {
+    logger.warn('[LiveCoaching] ⚠️ Planned weight unavailable', { error });
+    return null;
+  }
+}
+
+// =====================================================
+// Helper: Exercise History (autoregulation)
+// =====================================================
+
+const HISTORY_LOOKBACK_DAYS = 90;
+
+interface ExerciseHistory {
+  catalogExerciseId: string | null;
+  recordedOneRepMax: number | null;
+  previousPerformances: PreviousPerformance[];
+}
+
+/**
+ * Set delle sessioni precedenti (esclusa quella di oggi) e massimale registrato
+ * per l'esercizio corrente
+ */
+async function loadExerciseHistory(
+  context: McpContext,
+  exerciseName: string | null
+): Promise<ExerciseHistory> {
+  const empty: ExerciseHistory = {
+    catalogExerciseId: null,
+    recordedOneRepMax: null,
+    previousPerformances: [],
+  };
+  if (!context.userId || !exerciseName) return empty;
+
+  try {
+    const resolved = await resolveExerciseByName(exerciseName);
+    if (!resolved) return empty;
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const since = new Date(startOfToday.getTime() - HISTORY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const [records, oneRepMax] = await Promise.all([
+      prisma.exercise_performance_records.findMany({
+        where: {
+          userId: context.userId,
+          exerciseId: resolved.catalogExerciseId,
+          date: { gte: since, lt: startOfToday },
+        },
+        orderBy: { date: 'desc' },
+        take: 50,
+      }),
+      prisma.user_one_rep_max.findFirst({
+        where: { userId: context.userId, exerciseId: resolved.catalogExerciseId },
+      }),
+    ]);
+
+    return {
+      catalogExerciseId: resolved.catalogExerciseId,
+      recordedOneRepMax: oneRepMax ? Number(oneRepMax.oneRepMax) : null,
+      previousPerformances: records.map((record) => ({
+        date: record.date,
+        weight: Number(record.weight),
+        reps: record.reps,
+        rpe: record.rpe !== null ? Number(record.rpe) : null,
+      })),
+    };
+  } catch (error) {
+    logger.warn('[LiveCoaching] ⚠️ Exercise history unavailable', { error, exerciseName });
+    return empty;
+  }
+}
+
+/**
+ * Testo base della raccomandazione (i numeri non vanno modificati dal modello)
+ */
+function describeRecommendation(recommendation: AutoregulationRecommendation): string {
+  if (recommendation.action === 'STOP') {
+    return `Prestazione in calo del ${Math.abs(recommendation.performanceChange ?? 0)}% rispetto alla sessione precedente: chiudi l'esercizio.`;
+  }
+
+  const verb = {
+    INCREASE: 'Aumenta a',
+    DECREASE: 'Riduci a',
+    MAINTAIN: 'Mantieni',
+  }[recommendation.action];
+
+  return `${verb} ${recommendation.nextWeight}kg x ${recommendation.nextReps} @RPE ${recommendation.targetRpe}, recupero ${recommendation.restSeconds}s.`;
+}
+
 // =====================================================
 // Tool: Read Session State
 // =====================================================
@@ -139,7 +281,7 @@ Provides insights on:
 - Volume trend (are they hitting target reps?)
 - Intensity progression (weight changes)
 - Fatigue indicators (RPE progression, form degradation)
-- Comparison to previous sessions on same exercises
+- Comparison to previous sessions on same exercises (e1RM vs last session and recorded 1RM)
 
 Use this when the user asks how they're doing or wants feedback.`,
   parameters: sessionAnalyzeParams,
@@ -170,6 +312,8 @@ Use this when the user asks how they're doing or wants feedback.`,
       },
     };
 
+    let recommendation: AutoregulationRecommendation | null = null;
+
     if (lastSet) {
       analysis.lastSetPerformance = {
         weight: lastSet.weight,
@@ -179,12 +323,29 @@ Use this when the user asks how they're doing or wants feedback.`,
           ? lastSet.rpe >= 9 ? 'high' : lastSet.rpe >= 7 ? 'moderate' : 'low'
           : 'unknown',
       };
+
+      // Confronto con le sessioni precedenti sullo stesso esercizio
+      const history = await loadExerciseHistory(context, currentExerciseName);
+      recommendation = recommendNextSet({
+        lastSet,
+        recordedOneRepMax: history.recordedOneRepMax,
+        history: history.previousPerformances,
+      });
+      analysis.comparisonToPrevious = {
+        previousSession: recommendation.previousSession,
+        recordedOneRepMax: history.recordedOneRepMax,
+        estimatedOneRepMax: recommendation.estimatedOneRepMax,
+        performanceChangePercent: recommendation.performanceChange,
+      };
+      analysis.autoregulation = recommendation;
     }
 
     // Coaching suggestions based on analysis
     const suggestions: string[] = [];
     
-    if (lastSet?.rpe && lastSet.rpe >= 9) {
+    if (recommendation && recommendation.action !== 'MAINTAIN') {
+      suggestions.push(describeRecommendation(recommendation));
+    } else if (lastSet?.rpe && lastSet.rpe >= 9) {
       suggestions.push('RPE alto - considera ridurre il peso o le reps per il prossimo set');
     }
     
@@ -221,12 +382,14 @@ export const workoutCoachSuggestTool: McpTool<CoachSuggestParams> = {
   description: `Provides coaching suggestions for the current workout.
 
 Suggestion types:
-- next_weight: Recommends weight for the next set based on RPE/performance
-- rest_time: Suggests optimal rest time based on fatigue and exercise type
+- next_weight: Recommends load and reps for the next set from RPE/RIR, previous sessions, 1RM and today's readiness
+- rest_time: Suggests optimal rest time based on reps and RPE of the last set
 - technique: Provides form cues for the current exercise
 - motivation: Gives motivational feedback
 - general: Overall coaching advice
 
+Load, reps and rest come from a deterministic autoregulation engine: phrase them for the user without changing the numbers.
+
 Use this when the user asks for advice or recommendations.`,
   parameters: coachSuggestParams,
   execute: async (args, context) => {
@@ -243,6 +406,11 @@ Use this when the user asks for advice or recommendations.`,
     }
 
     const { lastSet, currentExerciseName, restTimeRemaining, completedSets, totalSets } = liveSession;
+    const readiness =
+      requestType === 'next_weight' || requestType === 'general'
+        ? await getTodayReadiness(context)
+        : null;
+    const lowReadiness = readiness && readiness.loadMultiplier < 1 ? readiness : null;
 
     let suggestion = '';
     let details: Record<string, unknown> = {};
@@ -250,32 +418,38 @@ Use this when the user asks for advice or recommendations.`,
     switch (requestType) {
       case 'next_weight':
         if (lastSet) {
-          if (lastSet.rpe && lastSet.rpe < 7) {
-            const increase = Math.round(lastSet.weight * 0.05 * 2) / 2; // Round to 0.5kg
-            suggestion = `Puoi aumentare il peso. Suggerisco ${lastSet.weight + increase}kg per il prossimo set.`;
-            details = { currentWeight: lastSet.weight, suggestedWeight: lastSet.weight + increase };
-          } else if (lastSet.rpe && lastSet.rpe >= 9) {
-            const decrease = Math.round(lastSet.weight * 0.1 * 2) / 2;
-            suggestion = `RPE alto, considera ridurre a ${lastSet.weight - decrease}kg per mantenere la qualità.`;
-            details = { currentWeight: lastSet.weight, suggestedWeight: lastSet.weight - decrease };
-          } else {
-            suggestion = `Mantieni ${lastSet.weight}kg - la progressione sembra ottimale.`;
-            details = { currentWeight: lastSet.weight, suggestedWeight: lastSet.weight };
+          const [history, plannedWeight] = await Promise.all([
+            loadExerciseHistory(context, currentExerciseName),
+            lowReadiness ? loadPlannedWeight(context, liveSession) : null,
+          ]);
+          const recommendation = recommendNextSet({
+            lastSet,
+            recordedOneRepMax: history.recordedOneRepMax,
+            history: history.previousPerformances,
+            loadMultiplier: readiness?.loadMultiplier,
+            referenceWeight: plannedWeight,
+          });
+          suggestion = describeRecommendation(recommendation);
+          if (lowReadiness && recommendation.action !== 'STOP') {
+            suggestion += ` Carico ridotto per la readiness di oggi (${lowReadiness.score}/100).`;
           }
+          details = {
+            currentWeight: lastSet.weight,
+            suggestedWeight: recommendation.nextWeight,
+            suggestedReps: recommendation.nextReps,
+            suggestedRestSeconds: recommendation.restSeconds,
+            autoregulation: recommendation,
+          };
         } else {
           suggestion = 'Completa il primo set per ricevere suggerimenti sul peso.';
+          if (lowReadiness) {
+            suggestion += ` ${lowReadiness.recommendation}`;
+          }
         }
         break;
 
       case 'rest_time':
-        const baseRest = 90; // Default rest time
-        let suggestedRest = baseRest;
-        
-        if (lastSet?.rpe) {
-          if (lastSet.rpe >= 9) suggestedRest = 180;
-          else if (lastSet.rpe >= 7) suggestedRest = 120;
-          else suggestedRest = 90;
-        }
+        const suggestedRest = recommendRestSeconds(lastSet?.reps ?? 8, lastSet?.rpe ?? null);
         
         suggestion = `Riposo suggerito: ${suggestedRest} secondi`;
         if (restTimeRemaining > 0) {
@@ -308,6 +482,9 @@ Use this when the user asks for advice or recommendations.`,
         } else {
           suggestion += 'Puoi spingere un po\' di più se ti senti bene.';
         }
+        if (lowReadiness) {
+          suggestion += ` ${lowReadiness.recommendation}`;
+        }
         break;
     }
 
@@ -316,6 +493,9 @@ Use this when the user asks for advice or recommendations.`,
       type: requestType,
       suggestion,
       details,
+      readiness: readiness
+        ? { score: readiness.score, status: readiness.status, loadMultiplier: readiness.loadMultiplier }
+        : undefined,
       currentExercise: currentExerciseName,
     };
   },
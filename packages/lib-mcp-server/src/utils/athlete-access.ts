@@ -0,0 +1,54 @@
+/**
+ * Athlete Access Helpers
+ *
+ * Risolve gli athleteId passati ai tool athlete_* / analytics_* attraverso
+ * il roster coach–atleta. Un atleta può sempre leggere i propri dati,
+ * gli admin bypassano il roster.
+ *
+ * @module lib-mcp-server/utils/athlete-access
+ */
+
+import { coachAthleteService, type CoachAthletePermission } from '@onecoach/lib-coach';
+import type { McpContext } from '../types';
+
+/**
+ * Coach che esegue il tool: coachId esplicito nel contesto, altrimenti l'utente corrente
+ */
+export function resolveCoachId(context: McpContext): string {
+  const coachId = context.coachId ?? context.userId;
+  if (!coachId) {
+    throw new Error('Unauthorized: coach identity required');
+  }
+  return coachId;
+}
+
+/**
+ * Verifica che il chiamante possa operare sull'atleta indicato e ritorna l'athleteId
+ */
+export async function requireAthleteAccess(
+  context: McpContext,
+  athleteId: string,
+  permission?: CoachAthletePermission
+): Promise<string> {
+  if (context.isAdmin || athleteId === context.userId) {
+    return athleteId;
+  }
+
+  await coachAthleteService.assertAccess(resolveCoachId(context), athleteId, permission);
+  return athleteId;
+}
+
+/**
+ * Variante non bloccante per dati opzionali (es. misurazioni in una overview)
+ */
+export async function hasAthletePermission(
+  context: McpContext,
+  athleteId: string,
+  permission: CoachAthletePermission
+): Promise<boolean> {
+  if (context.isAdmin || athleteId === context.userId) {
+    return true;
+  }
+
+  return coachAthleteService.hasPermission(resolveCoachId(context), athleteId, permission);
+}
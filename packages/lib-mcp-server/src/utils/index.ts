@@ -8,3 +8,4 @@ export * from './schema-converter';
 export * from './error-handler';
 export * from './helpers';
 export * from './transport';
+export * from './athlete-access';
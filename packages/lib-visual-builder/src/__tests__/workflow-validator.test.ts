@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest';
+import { validateWorkflowGraph } from '../workflow-validator';
+import type { Skill, Workflow, WorkflowEdge, WorkflowNode } from '../types';
+
+function node(id: string, type: string, config: Record<string, unknown> = {}): WorkflowNode {
+  return { id, type, label: id, config } as unknown as WorkflowNode;
+}
+
+function edge(
+  sourceId: string,
+  targetId: string,
+  extra: { label?: string; condition?: unknown; order?: number } = {}
+): WorkflowEdge {
+  return {
+    id: `${sourceId}->${targetId}`,
+    sourceId,
+    targetId,
+    label: extra.label ?? null,
+    condition: extra.condition ?? null,
+    order: extra.order ?? 0,
+  } as unknown as WorkflowEdge;
+}
+
+function workflow(nodes: WorkflowNode[], edges: WorkflowEdge[], entryNodeId = 'a'): Workflow {
+  return { id: 'wf-1', entryNodeId, nodes, edges } as unknown as Workflow;
+}
+
+const codes = (result: ReturnType<typeof validateWorkflowGraph>) =>
+  result.diagnostics.map((d) => d.code);
+
+describe('validateWorkflowGraph', () => {
+  it('accetta un grafo lineare senza diagnostiche', () => {
+    const result = validateWorkflowGraph(
+      workflow([node('a', 'agent', { prompt: 'Ciao' }), node('b', 'agent')], [edge('a', 'b')])
+    );
+
+    expect(result).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('segnala workflow vuoti, entry node mancante e tipi sconosciuti', () => {
+    expect(codes(validateWorkflowGraph(workflow([], [])))).toEqual(['empty_workflow']);
+
+    const result = validateWorkflowGraph(workflow([node('a', 'webhook')], [], 'missing'));
+
+    expect(result.valid).toBe(false);
+    expect(codes(result)).toEqual(['missing_entry_node', 'unknown_node_type']);
+  });
+
+  it('segnala archi pendenti e nodi irraggiungibili', () => {
+    const result = validateWorkflowGraph(
+      workflow([node('a', 'agent'), node('b', 'agent')], [edge('a', 'ghost')])
+    );
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'dangling_edge', edgeIds: ['a->ghost'], nodeIds: ['a'] }),
+      expect.objectContaining({ code: 'unreachable_node', severity: 'warning', nodeIds: ['b'] }),
+    ]);
+  });
+
+  describe('cicli (Tarjan)', () => {
+    it('rifiuta un ciclo senza nodo loop indicando nodi e archi coinvolti', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [node('a', 'agent'), node('b', 'agent'), node('c', 'agent'), node('d', 'agent')],
+          [edge('a', 'b'), edge('b', 'c'), edge('c', 'b'), edge('c', 'd')]
+        )
+      );
+
+      const cycle = result.diagnostics.find((d) => d.code === 'cycle_without_loop');
+      expect(result.valid).toBe(false);
+      expect(cycle?.nodeIds.sort()).toEqual(['b', 'c']);
+      expect(cycle?.edgeIds.sort()).toEqual(['b->c', 'c->b']);
+    });
+
+    it('rifiuta anche un nodo che punta a sé stesso', () => {
+      const result = validateWorkflowGraph(workflow([node('a', 'agent')], [edge('a', 'a')]));
+
+      expect(codes(result)).toEqual(['cycle_without_loop']);
+    });
+
+    it('ammette un ciclo che passa da un nodo loop', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [node('a', 'loop', { maxIterations: 3 }), node('b', 'agent'), node('c', 'agent')],
+          [
+            edge('a', 'b', { condition: { branch: 'body' } }),
+            edge('b', 'a'),
+            edge('a', 'c', { label: 'exit' }),
+          ]
+        )
+      );
+
+      expect(result).toEqual({ valid: true, diagnostics: [] });
+    });
+
+    it('individua più cicli indipendenti', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [node('a', 'agent'), node('b', 'agent'), node('c', 'agent'), node('d', 'agent')],
+          [edge('a', 'b'), edge('b', 'a'), edge('a', 'c'), edge('c', 'd'), edge('d', 'c')]
+        )
+      );
+
+      expect(codes(result)).toEqual(['cycle_without_loop', 'cycle_without_loop']);
+    });
+  });
+
+  describe('nodi decision', () => {
+    const predicate = { field: 'input.score', operator: 'gte', value: 10 };
+
+    it('richiede un arco di default', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [node('a', 'decision'), node('b', 'agent')],
+          [edge('a', 'b', { condition: predicate })]
+        )
+      );
+
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'decision_not_exhaustive',
+          severity: 'error',
+          edgeIds: ['a->b'],
+        }),
+      ]);
+    });
+
+    it('accetta come default un arco senza condition o con { default: true }', () => {
+      for (const fallback of [null, { default: true }, {}]) {
+        const result = validateWorkflowGraph(
+          workflow(
+            [node('a', 'decision'), node('b', 'agent'), node('c', 'agent')],
+            [edge('a', 'b', { condition: predicate }), edge('a', 'c', { condition: fallback })]
+          )
+        );
+
+        expect(result.valid).toBe(true);
+      }
+    });
+
+    it('rifiuta gli archi con una condition non valida', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [node('a', 'decision'), node('b', 'agent'), node('c', 'agent')],
+          [edge('a', 'b', { condition: { branch: 'true' } }), edge('a', 'c')]
+        )
+      );
+
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ code: 'invalid_condition', edgeIds: ['a->b'] }),
+      ]);
+    });
+  });
+
+  describe('nodi condition e loop', () => {
+    it('segnala come warning il ramo mancante di una condition', () => {
+      const result = validateWorkflowGraph(
+        workflow([node('a', 'condition'), node('b', 'agent')], [edge('a', 'b', { label: 'true' })])
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ code: 'missing_branch', severity: 'warning' }),
+      ]);
+    });
+
+    it('richiede il ramo body del loop e rami con nome valido', () => {
+      const result = validateWorkflowGraph(
+        workflow([node('a', 'loop'), node('b', 'agent')], [edge('a', 'b', { label: 'dopo' })])
+      );
+
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ code: 'invalid_condition', edgeIds: ['a->b'] }),
+        expect.objectContaining({ code: 'missing_branch', severity: 'error' }),
+      ]);
+    });
+  });
+
+  describe('nodi skill', () => {
+    const skill = {
+      id: 'skill-1',
+      name: 'Calcolo macro',
+      inputSchema: { properties: { kcal: {}, goal: {} }, required: ['kcal', 'goal'] },
+      outputSchema: { properties: { protein: {} } },
+    } as unknown as Skill;
+
+    it('segnala skill non configurate o non disponibili', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [node('a', 'skill'), node('b', 'skill', { skillId: 'missing' })],
+          [edge('a', 'b')]
+        ),
+        [skill]
+      );
+
+      expect(codes(result)).toEqual(['skill_not_configured', 'skill_not_found']);
+    });
+
+    it('verifica input obbligatori e riferimenti ai nodi a monte', () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [
+            node('a', 'agent'),
+            node('b', 'skill', {
+              skillId: 'skill-1',
+              input: { kcal: '{{nodes.a.calories}}', note: '{{nodes.c.text}}' },
+            }),
+            node('c', 'agent'),
+          ],
+          [edge('a', 'b'), edge('b', 'c')]
+        ),
+        [skill]
+      );
+
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'skill_input_missing',
+          message: expect.stringContaining('"goal"'),
+        }),
+        expect.objectContaining({ code: 'skill_input_unresolved', nodeIds: ['b', 'a'] }),
+        expect.objectContaining({ code: 'skill_input_unresolved', nodeIds: ['b', 'c'] }),
+      ]);
+    });
+
+    it("accetta i campi dichiarati nell'outputSchema di una skill a monte", () => {
+      const result = validateWorkflowGraph(
+        workflow(
+          [
+            node('a', 'skill', { skillId: 'skill-1', input: { kcal: 2000, goal: 'cut' } }),
+            node('b', 'skill', {
+              skillId: 'skill-1',
+              input: { kcal: '{{nodes.a.protein}}', goal: '{{input.goal}}' },
+            }),
+          ],
+          [edge('a', 'b')]
+        ),
+        [skill]
+      );
+
+      expect(result).toEqual({ valid: true, diagnostics: [] });
+    });
+  });
+});
@@ -6,3 +6,6 @@
 export * from './types';
 export * from './hooks';
 export * from './visual-builder.service';
+export * from './workflow-engine';
+export * from './workflow-run.service';
+export * from './workflow-validator';
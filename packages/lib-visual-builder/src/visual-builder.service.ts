@@ -8,6 +8,11 @@
 import { prisma } from '@onecoach/lib-core';
 import { Prisma } from '@prisma/client';
 import type { user_skills, user_workflows, workflow_nodes, workflow_edges } from '@prisma/client';
+import {
+  validateWorkflowGraph,
+  WorkflowValidationError,
+  type WorkflowValidationResult,
+} from './workflow-validator';
 
 /**
  * Skill input data for creation/update
@@ -508,25 +513,38 @@ export class VisualBuilderService {
   }
 
   /**
-   * Deploy a workflow (mark as active)
+   * Validate a workflow graph without deploying it
    */
-  static async deployWorkflow(workflowId: string, userId: string): Promise<user_workflows> {
+  static async validateWorkflow(
+    workflowId: string,
+    userId: string
+  ): Promise<WorkflowValidationResult> {
     const workflow = await this.getWorkflow(workflowId, userId);
 
     if (!workflow) {
       throw new Error('Workflow not found or unauthorized');
     }
 
-    // Validate workflow has nodes and edges
-    if (workflow.nodes.length === 0) {
-      throw new Error('Workflow must have at least one node');
+    return await this.validateLoadedWorkflow(workflow, userId);
+  }
+
+  /**
+   * Deploy a workflow (mark as active).
+   * Throws WorkflowValidationError with diagnostics if the graph has errors.
+   */
+  static async deployWorkflow(workflowId: string, userId: string): Promise<user_workflows> {
+    const workflow = await this.getWorkflow(workflowId, userId);
+
+    if (!workflow) {
+      throw new Error('Workflow not found or unauthorized');
     }
 
-    if (!workflow.entryNodeId) {
-      throw new Error('Workflow must have an entry node');
+    const validation = await this.validateLoadedWorkflow(workflow, userId);
+    if (!validation.valid) {
+      throw new WorkflowValidationError(validation.diagnostics);
     }
 
-    // Code generation will be handled by CodeGeneratorService
+    // Execution is handled by WorkflowRunService
     return await prisma.user_workflows.update({
       where: { id: workflowId },
       data: {
@@ -535,4 +553,26 @@ export class VisualBuilderService {
       },
     });
   }
+
+  private static async validateLoadedWorkflow(
+    workflow: user_workflows & { nodes: workflow_nodes[]; edges: workflow_edges[] },
+    userId: string
+  ): Promise<WorkflowValidationResult> {
+    const skillIds = workflow.nodes
+      .filter((node) => node.type === 'skill')
+      .map((node) => (node.config as { skillId?: string } | null)?.skillId)
+      .filter((id): id is string => !!id);
+
+    const skills = skillIds.length
+      ? await prisma.user_skills.findMany({
+          where: {
+            id: { in: skillIds },
+            isActive: true,
+            OR: [{ userId }, { isPublic: true }],
+          },
+        })
+      : [];
+
+    return validateWorkflowGraph(workflow, skills);
+  }
 }
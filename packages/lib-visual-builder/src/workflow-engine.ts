@@ -0,0 +1,390 @@
+/**
+ * Workflow Engine
+ *
+ * Runtime puro (senza accesso al DB) per i workflow del visual builder.
+ * Cammina il grafo workflow_nodes/workflow_edges a partire da entryNodeId,
+ * esegue un nodo per step e sceglie gli archi in uscita valutando le `condition`.
+ *
+ * Formato delle condition sugli archi:
+ * - predicato:   { field: 'nodes.n1.score', operator: 'gte', value: 10 }
+ * - composizione: { all: [...] } | { any: [...] } | { not: {...} }
+ * - selettore di ramo (nodi condition/loop): { branch: 'true' | 'false' | 'body' | 'exit' }
+ * - ramo di default (nodi decision): { default: true } oppure nessuna condition
+ */
+
+import type { NodeType, WorkflowEdge, WorkflowNode } from './types';
+
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'in'
+  | 'exists'
+  | 'truthy';
+
+export type WorkflowCondition =
+  | { field: string; operator: ConditionOperator; value?: unknown }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] }
+  | { not: WorkflowCondition };
+
+/**
+ * Stato persistito di una run (workflow_runs.state)
+ */
+export interface WorkflowRunState {
+  /** Nodi in attesa di esecuzione (FIFO) */
+  queue: string[];
+  /** Output dell'ultima esecuzione di ogni nodo */
+  nodeOutputs: Record<string, unknown>;
+  /** Variabili impostate dai nodi (config.assign) */
+  variables: Record<string, unknown>;
+  /** Contatori dei nodi loop */
+  loops: Record<string, { iteration: number }>;
+  lastOutput?: unknown;
+}
+
+/**
+ * Scope visibile a template e condition
+ */
+export interface WorkflowScope {
+  input: Record<string, unknown>;
+  variables: Record<string, unknown>;
+  nodes: Record<string, unknown>;
+  last: unknown;
+  loop?: { index: number; item?: unknown };
+}
+
+export interface NodeExecutionResult {
+  output: unknown;
+  /** Ramo scelto (nodi condition/loop): seleziona gli archi con lo stesso `branch` o label */
+  branch?: string;
+}
+
+export interface NodeExecutionContext {
+  userId: string;
+  runId: string;
+  workflowId: string;
+  state: WorkflowRunState;
+  outgoing: WorkflowEdge[];
+  signal?: AbortSignal;
+}
+
+export type NodeExecutor = (
+  node: WorkflowNode,
+  scope: WorkflowScope,
+  context: NodeExecutionContext
+) => Promise<NodeExecutionResult>;
+
+export type NodeExecutors = Record<NodeType, NodeExecutor>;
+
+export const MAX_LOOP_ITERATIONS = 100;
+
+// ================================
+// STATE & SCOPE
+// ================================
+
+export function createInitialRunState(entryNodeId: string): WorkflowRunState {
+  return {
+    queue: [entryNodeId],
+    nodeOutputs: {},
+    variables: {},
+    loops: {},
+  };
+}
+
+/**
+ * Costruisce lo scope per template e condition.
+ * `loop` punta al loop attivo più interno (l'ultimo in cui si è entrati).
+ */
+export function buildScope(input: Record<string, unknown>, state: WorkflowRunState): WorkflowScope {
+  const scope: WorkflowScope = {
+    input,
+    variables: state.variables,
+    nodes: state.nodeOutputs,
+    last: state.lastOutput,
+  };
+
+  const activeLoopId = Object.keys(state.loops).at(-1);
+  const activeLoop = activeLoopId ? state.loops[activeLoopId] : undefined;
+  if (activeLoopId && activeLoop) {
+    const loopOutput = state.nodeOutputs[activeLoopId] as { item?: unknown } | undefined;
+    scope.loop = { index: activeLoop.iteration - 1, item: loopOutput?.item };
+  }
+
+  return scope;
+}
+
+/**
+ * Legge un valore annidato con path puntato (supporta indici di array: items.0.name)
+ */
+export function getPath(source: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>((current, key) => {
+      if (current === null || current === undefined) return undefined;
+      return (current as Record<string, unknown>)[key];
+    }, source);
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.$-]+)\s*\}\}/g;
+const SINGLE_TEMPLATE_PATTERN = /^\{\{\s*([\w.$-]+)\s*\}\}$/;
+
+/**
+ * Risolve ricorsivamente i placeholder {{path}} contro lo scope.
+ * Una stringa composta da un solo placeholder mantiene il tipo del valore.
+ */
+export function resolveTemplate<T = unknown>(value: T, scope: WorkflowScope): T {
+  if (typeof value === 'string') {
+    const single = value.match(SINGLE_TEMPLATE_PATTERN);
+    if (single?.[1]) {
+      return getPath(scope, single[1]) as T;
+    }
+    return value.replace(TEMPLATE_PATTERN, (_match, path: string) => {
+      const resolved = getPath(scope, path);
+      if (resolved === undefined || resolved === null) return '';
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    }) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplate(item, scope)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [
+        k,
+        resolveTemplate(v, scope),
+      ])
+    ) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Estrae i path referenziati dai placeholder {{path}} (usato dal validator)
+ */
+export function extractTemplatePaths(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(TEMPLATE_PATTERN), (match) => match[1]).filter(
+      (path): path is string => !!path
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => extractTemplatePaths(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).flatMap((item) =>
+      extractTemplatePaths(item)
+    );
+  }
+  return [];
+}
+
+// ================================
+// CONDITIONS
+// ================================
+
+export function isBranchSelector(condition: unknown): condition is { branch: string } {
+  return (
+    !!condition && typeof condition === 'object' && typeof (condition as { branch?: unknown }).branch === 'string'
+  );
+}
+
+export function isDefaultCondition(condition: unknown): boolean {
+  return (
+    condition === null ||
+    condition === undefined ||
+    (typeof condition === 'object' &&
+      ((condition as { default?: unknown }).default === true ||
+        Object.keys(condition as object).length === 0))
+  );
+}
+
+export function isPredicate(condition: unknown): condition is WorkflowCondition {
+  if (!condition || typeof condition !== 'object') return false;
+  const c = condition as Record<string, unknown>;
+  return (
+    (typeof c.field === 'string' && typeof c.operator === 'string') ||
+    Array.isArray(c.all) ||
+    Array.isArray(c.any) ||
+    (!!c.not && typeof c.not === 'object')
+  );
+}
+
+export function evaluateCondition(condition: WorkflowCondition, scope: WorkflowScope): boolean {
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateCondition(c, scope));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateCondition(c, scope));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, scope);
+  }
+
+  const actual = getPath(scope, condition.field);
+  const expected = resolveTemplate(condition.value, scope);
+
+  switch (condition.operator) {
+    case 'eq':
+      return actual === expected || JSON.stringify(actual) === JSON.stringify(expected);
+    case 'neq':
+      return !(actual === expected || JSON.stringify(actual) === JSON.stringify(expected));
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    case 'contains':
+      if (typeof actual === 'string') return actual.includes(String(expected));
+      return Array.isArray(actual) && actual.includes(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'truthy':
+      return !!actual;
+    default:
+      throw new Error(`Unsupported condition operator: ${String(condition.operator)}`);
+  }
+}
+
+// ================================
+// EDGE SELECTION
+// ================================
+
+/**
+ * Sceglie i nodi successivi in base al tipo di nodo e al risultato dell'esecuzione.
+ * - decision: primo arco (per order) con predicato vero, altrimenti il ramo di default
+ * - condition/loop: archi il cui branch (o label) coincide con il ramo scelto
+ * - agent/skill: tutti gli archi senza condition o con predicato vero (fan-out)
+ */
+export function selectNextNodes(
+  node: WorkflowNode,
+  outgoing: WorkflowEdge[],
+  result: NodeExecutionResult,
+  scope: WorkflowScope
+): string[] {
+  const edges = [...outgoing].sort((a, b) => a.order - b.order);
+
+  if (result.branch !== undefined) {
+    return edges
+      .filter((edge) =>
+        isBranchSelector(edge.condition)
+          ? edge.condition.branch === result.branch
+          : edge.label === result.branch
+      )
+      .map((edge) => edge.targetId);
+  }
+
+  if ((node.type as NodeType) === 'decision') {
+    const match = edges.find((edge) => isPredicate(edge.condition) && evaluateCondition(edge.condition, scope));
+    const fallback = edges.find((edge) => isDefaultCondition(edge.condition));
+    const chosen = match ?? fallback;
+    return chosen ? [chosen.targetId] : [];
+  }
+
+  return edges
+    .filter((edge) =>
+      isPredicate(edge.condition) ? evaluateCondition(edge.condition, scope) : true
+    )
+    .map((edge) => edge.targetId);
+}
+
+// ================================
+// BUILT-IN EXECUTORS
+// ================================
+
+/**
+ * Nodi di controllo: non hanno effetti esterni, quindi sono implementati qui.
+ * agent e skill sono forniti dal WorkflowRunService (richiedono AI e DB).
+ */
+export const controlNodeExecutors: Pick<NodeExecutors, 'decision' | 'condition' | 'loop'> = {
+  decision: async (node, scope, context) => {
+    const next = selectNextNodes(node, context.outgoing, { output: null }, scope);
+    return { output: { selectedNodeIds: next } };
+  },
+
+  condition: async (node, scope) => {
+    const config = (node.config ?? {}) as { condition?: WorkflowCondition };
+    if (!config.condition || !isPredicate(config.condition)) {
+      throw new Error(`Condition node "${node.label}" has no valid condition`);
+    }
+    const passed = evaluateCondition(config.condition, scope);
+    return { output: { passed }, branch: passed ? 'true' : 'false' };
+  },
+
+  loop: async (node, scope, context) => {
+    const config = (node.config ?? {}) as {
+      maxIterations?: number;
+      over?: string;
+      until?: WorkflowCondition;
+    };
+    const counter = context.state.loops[node.id] ?? { iteration: 0 };
+    const items = config.over ? getPath(scope, config.over) : undefined;
+    const limit = Math.min(
+      config.maxIterations ?? MAX_LOOP_ITERATIONS,
+      Array.isArray(items) ? items.length : MAX_LOOP_ITERATIONS
+    );
+    const done =
+      counter.iteration >= limit ||
+      (config.over !== undefined && !Array.isArray(items)) ||
+      (config.until !== undefined && counter.iteration > 0 && evaluateCondition(config.until, scope));
+
+    if (done) {
+      delete context.state.loops[node.id];
+      return { output: { iterations: counter.iteration }, branch: 'exit' };
+    }
+
+    context.state.loops[node.id] = { iteration: counter.iteration + 1 };
+    return {
+      output: {
+        index: counter.iteration,
+        item: Array.isArray(items) ? items[counter.iteration] : undefined,
+      },
+      branch: 'body',
+    };
+  },
+};
+
+/**
+ * Applica al run state le assegnazioni dichiarate nel config del nodo:
+ * config.assign = { varName: '{{nodes.n1.text}}' }
+ */
+export function applyAssignments(
+  node: WorkflowNode,
+  state: WorkflowRunState,
+  scope: WorkflowScope
+): void {
+  const assign = (node.config as { assign?: Record<string, unknown> } | null)?.assign;
+  if (!assign) return;
+
+  for (const [key, value] of Object.entries(assign)) {
+    state.variables[key] = resolveTemplate(value, scope);
+  }
+}
+
+/**
+ * Input effettivi di un nodo (persistiti sullo step): il config con i placeholder
+ * risolti contro lo scope, senza `assign` che viene applicato dopo l'esecuzione
+ */
+export function resolveNodeInput(
+  node: WorkflowNode,
+  scope: WorkflowScope
+): Record<string, unknown> {
+  const config = Object.fromEntries(
+    Object.entries(node.config ?? {}).filter(([key]) => key !== 'assign')
+  );
+
+  return resolveTemplate(config, scope);
+}
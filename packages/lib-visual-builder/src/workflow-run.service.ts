@@ -0,0 +1,471 @@
+/**
+ * Workflow Run Service
+ *
+ * Esegue i workflow deployati: crea le run, esegue un nodo per step,
+ * persiste stato e output dei nodi (workflow_runs / workflow_run_steps)
+ * e gestisce la cancellazione.
+ */
+
+import { generateText, type LanguageModel } from 'ai';
+import { AIProviderFactory, prisma, type AIProviderType } from '@onecoach/lib-core';
+import { Prisma } from '@prisma/client';
+import type { WorkflowRunStatus, workflow_run_steps, workflow_runs } from '@prisma/client';
+import type { NodeType, WorkflowEdge, WorkflowNode } from './types';
+import {
+  applyAssignments,
+  buildScope,
+  controlNodeExecutors,
+  createInitialRunState,
+  resolveNodeInput,
+  resolveTemplate,
+  selectNextNodes,
+  type NodeExecutor,
+  type NodeExecutors,
+  type WorkflowRunState,
+} from './workflow-engine';
+
+/**
+ * Guardia contro grafi che non terminano (loop senza uscita, cicli)
+ */
+const MAX_STEPS_PER_RUN = 500;
+
+const DEFAULT_AGENT_MODEL = { provider: 'openrouter' as AIProviderType, model: 'google/gemini-2.5-flash' };
+
+const TERMINAL_STATUSES: WorkflowRunStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+export type WorkflowRun = workflow_runs;
+export type WorkflowRunStep = workflow_run_steps;
+
+export interface WorkflowRunWithSteps extends workflow_runs {
+  steps: workflow_run_steps[];
+}
+
+export interface StepResult {
+  run: workflow_runs;
+  step: workflow_run_steps | null;
+  done: boolean;
+}
+
+/**
+ * Handler registrati per le skill con implementation.handler
+ */
+export type SkillHandler = (
+  input: Record<string, unknown>,
+  context: { userId: string; runId: string; skillId: string }
+) => Promise<unknown>;
+
+const skillHandlers = new Map<string, SkillHandler>();
+
+interface AgentNodeConfig {
+  provider?: AIProviderType;
+  model?: string;
+  system?: string;
+  prompt?: string;
+  temperature?: number;
+}
+
+interface SkillNodeConfig {
+  skillId?: string;
+  input?: Record<string, unknown>;
+}
+
+interface SkillImplementation {
+  handler?: string;
+  /** Skill dichiarativa: output = mapping risolto contro { input, ...scope } */
+  mapping?: Record<string, unknown>;
+}
+
+const agentExecutor: NodeExecutor = async (node, scope, context) => {
+  const config = (node.config ?? {}) as AgentNodeConfig;
+  const prompt = resolveTemplate(config.prompt ?? '', scope);
+
+  if (!prompt) {
+    throw new Error(`Agent node "${node.label}" has no prompt`);
+  }
+
+  const model = (await AIProviderFactory.getModel(
+    config.provider ?? DEFAULT_AGENT_MODEL.provider,
+    config.model ?? DEFAULT_AGENT_MODEL.model
+  )) as LanguageModel;
+
+  const result = await generateText({
+    model,
+    system: config.system ? resolveTemplate(config.system, scope) : undefined,
+    prompt,
+    temperature: config.temperature,
+    abortSignal: context.signal,
+  });
+
+  return { output: { text: result.text, usage: result.usage } };
+};
+
+const skillExecutor: NodeExecutor = async (node, scope, context) => {
+  const config = (node.config ?? {}) as SkillNodeConfig;
+
+  if (!config.skillId) {
+    throw new Error(`Skill node "${node.label}" has no skillId`);
+  }
+
+  const skill = await prisma.user_skills.findFirst({
+    where: {
+      id: config.skillId,
+      isActive: true,
+      OR: [{ userId: context.userId }, { isPublic: true }],
+    },
+  });
+
+  if (!skill) {
+    throw new Error(`Skill ${config.skillId} not found or not deployed`);
+  }
+
+  const input = resolveTemplate(config.input ?? {}, scope);
+  const implementation = (skill.implementation ?? {}) as SkillImplementation;
+
+  if (implementation.handler) {
+    const handler = skillHandlers.get(implementation.handler);
+    if (!handler) {
+      throw new Error(`No handler registered for skill "${implementation.handler}"`);
+    }
+    return {
+      output: await handler(input, {
+        userId: context.userId,
+        runId: context.runId,
+        skillId: skill.id,
+      }),
+    };
+  }
+
+  if (implementation.mapping) {
+    return { output: resolveTemplate(implementation.mapping, { ...scope, input }) };
+  }
+
+  throw new Error(`Skill "${skill.name}" has no executable implementation`);
+};
+
+const defaultExecutors: NodeExecutors = {
+  agent: agentExecutor,
+  skill: skillExecutor,
+  ...controlNodeExecutors,
+};
+
+/**
+ * Workflow Run Service
+ */
+export class WorkflowRunService {
+  /**
+   * Register a code handler for skills whose implementation is { handler: name }
+   */
+  static registerSkillHandler(name: string, handler: SkillHandler): void {
+    skillHandlers.set(name, handler);
+  }
+
+  /**
+   * Start a run of a deployed workflow (does not execute any node yet)
+   */
+  static async startRun(
+    workflowId: string,
+    userId: string,
+    input: Record<string, unknown> = {}
+  ): Promise<workflow_runs> {
+    const workflow = await prisma.user_workflows.findFirst({
+      where: {
+        id: workflowId,
+        OR: [{ userId }, { isPublic: true }],
+      },
+    });
+
+    if (!workflow) {
+      throw new Error('Workflow not found or unauthorized');
+    }
+
+    if (!workflow.isActive) {
+      throw new Error('Workflow is not deployed');
+    }
+
+    if (!workflow.entryNodeId) {
+      throw new Error('Workflow must have an entry node');
+    }
+
+    return await prisma.workflow_runs.create({
+      data: {
+        workflowId,
+        userId,
+        status: 'PENDING',
+        input: input as Prisma.InputJsonValue,
+        state: createInitialRunState(workflow.entryNodeId) as unknown as Prisma.InputJsonValue,
+        stepCount: 0,
+      },
+    });
+  }
+
+  /**
+   * Execute the next node in the run queue
+   */
+  static async step(
+    runId: string,
+    userId: string,
+    options: { executors?: Partial<NodeExecutors>; signal?: AbortSignal } = {}
+  ): Promise<StepResult> {
+    const run = await this.getOwnedRun(runId, userId);
+
+    if (TERMINAL_STATUSES.includes(run.status)) {
+      return { run, step: null, done: true };
+    }
+
+    const state = run.state as unknown as WorkflowRunState;
+    const nodeId = state.queue.shift();
+
+    if (!nodeId) {
+      const completed = await this.finishRun(run.id, 'COMPLETED', state);
+      return { run: completed, step: null, done: true };
+    }
+
+    if (run.stepCount >= MAX_STEPS_PER_RUN) {
+      const failed = await this.finishRun(
+        run.id,
+        'FAILED',
+        state,
+        `Step limit of ${MAX_STEPS_PER_RUN} exceeded`
+      );
+      return { run: failed, step: null, done: true };
+    }
+
+    const [node, outgoing] = await Promise.all([
+      prisma.workflow_nodes.findFirst({ where: { id: nodeId, workflowId: run.workflowId } }),
+      prisma.workflow_edges.findMany({ where: { workflowId: run.workflowId, sourceId: nodeId } }),
+    ]);
+
+    if (!node) {
+      const failed = await this.finishRun(run.id, 'FAILED', state, `Node ${nodeId} not found`);
+      return { run: failed, step: null, done: true };
+    }
+
+    const input = (run.input ?? {}) as Record<string, unknown>;
+    const scope = buildScope(input, state);
+
+    // Claim dello step: con due esecutori sulla stessa run solo il primo esegue il nodo.
+    // La coda senza il nodo e lo step RUNNING vengono salvati insieme, così chi legge
+    // la run dopo il claim non riesegue il nodo né avanza finché lo step è in corso.
+    const step = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.workflow_runs.updateMany({
+        where: {
+          id: run.id,
+          stepCount: run.stepCount,
+          status: { in: ['PENDING', 'RUNNING'] },
+          steps: { none: { status: 'RUNNING' } },
+        },
+        data: {
+          status: 'RUNNING',
+          state: state as unknown as Prisma.InputJsonValue,
+          stepCount: { increment: 1 },
+          currentNodeId: node.id,
+          ...(run.startedAt ? {} : { startedAt: new Date() }),
+        },
+      });
+
+      if (claimed.count === 0) return null;
+
+      return await tx.workflow_run_steps.create({
+        data: {
+          runId: run.id,
+          nodeId: node.id,
+          nodeType: node.type,
+          sequence: run.stepCount + 1,
+          status: 'RUNNING',
+          input: resolveNodeInput(node as WorkflowNode, scope) as Prisma.InputJsonValue,
+          startedAt: new Date(),
+        },
+      });
+    });
+
+    if (!step) {
+      const current = await prisma.workflow_runs.findUniqueOrThrow({ where: { id: run.id } });
+      return { run: current, step: null, done: TERMINAL_STATUSES.includes(current.status) };
+    }
+
+    const executors = { ...defaultExecutors, ...options.executors };
+    const executor = executors[node.type as NodeType];
+
+    try {
+      if (!executor) {
+        throw new Error(`Unsupported node type: ${node.type}`);
+      }
+
+      const result = await executor(node as WorkflowNode, scope, {
+        userId,
+        runId: run.id,
+        workflowId: run.workflowId,
+        state,
+        outgoing: outgoing as WorkflowEdge[],
+        signal: options.signal,
+      });
+
+      state.nodeOutputs[node.id] = result.output;
+      state.lastOutput = result.output;
+
+      const nextScope = buildScope(input, state);
+      applyAssignments(node as WorkflowNode, state, nextScope);
+      state.queue.push(...selectNextNodes(node as WorkflowNode, outgoing as WorkflowEdge[], result, nextScope));
+
+      const [updatedStep, resumed] = await prisma.$transaction([
+        prisma.workflow_run_steps.update({
+          where: { id: step.id },
+          data: {
+            status: 'COMPLETED',
+            output: (result.output ?? null) as Prisma.InputJsonValue,
+            completedAt: new Date(),
+          },
+        }),
+        // Condizionale: una cancellazione arrivata durante lo step non viene sovrascritta
+        prisma.workflow_runs.updateMany({
+          where: { id: run.id, status: { not: 'CANCELLED' } },
+          data: {
+            state: state as unknown as Prisma.InputJsonValue,
+            currentNodeId: state.queue[0] ?? null,
+          },
+        }),
+      ]);
+
+      if (resumed.count === 0) {
+        const cancelled = await this.finishRun(run.id, 'CANCELLED', state);
+        return { run: cancelled, step: updatedStep, done: true };
+      }
+
+      if (state.queue.length === 0) {
+        const completed = await this.finishRun(run.id, 'COMPLETED', state);
+        return { run: completed, step: updatedStep, done: true };
+      }
+
+      const updatedRun = await prisma.workflow_runs.findUniqueOrThrow({ where: { id: run.id } });
+      return { run: updatedRun, step: updatedStep, done: false };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      const failedStep = await prisma.workflow_run_steps.update({
+        where: { id: step.id },
+        data: { status: 'FAILED', error: message, completedAt: new Date() },
+      });
+      const failedRun = await this.finishRun(run.id, 'FAILED', state, message);
+
+      return { run: failedRun, step: failedStep, done: true };
+    }
+  }
+
+  /**
+   * Execute steps until the run terminates, is cancelled or maxSteps is reached
+   */
+  static async run(
+    runId: string,
+    userId: string,
+    options: { maxSteps?: number; executors?: Partial<NodeExecutors>; signal?: AbortSignal } = {}
+  ): Promise<workflow_runs> {
+    const maxSteps = options.maxSteps ?? MAX_STEPS_PER_RUN;
+    let result: StepResult | null = null;
+
+    for (let i = 0; i < maxSteps; i++) {
+      if (options.signal?.aborted) break;
+
+      result = await this.step(runId, userId, options);
+      // Senza step eseguito la run è terminata o in carico a un altro esecutore
+      if (result.done || !result.step) break;
+    }
+
+    return result?.run ?? (await this.getOwnedRun(runId, userId));
+  }
+
+  /**
+   * Start a run and execute it to completion
+   */
+  static async execute(
+    workflowId: string,
+    userId: string,
+    input: Record<string, unknown> = {},
+    options: { executors?: Partial<NodeExecutors>; signal?: AbortSignal } = {}
+  ): Promise<workflow_runs> {
+    const run = await this.startRun(workflowId, userId, input);
+    return await this.run(run.id, userId, options);
+  }
+
+  /**
+   * Cancel a run. The step in progress completes, no further node is executed.
+   */
+  static async cancelRun(runId: string, userId: string): Promise<workflow_runs> {
+    const run = await this.getOwnedRun(runId, userId);
+
+    if (TERMINAL_STATUSES.includes(run.status)) {
+      throw new Error(`Run is already ${run.status.toLowerCase()}`);
+    }
+
+    return await prisma.workflow_runs.update({
+      where: { id: run.id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Get a run with its steps
+   */
+  static async getRun(runId: string, userId: string): Promise<WorkflowRunWithSteps | null> {
+    return await prisma.workflow_runs.findFirst({
+      where: { id: runId, userId },
+      include: {
+        steps: {
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    });
+  }
+
+  /**
+   * List runs of a workflow
+   */
+  static async listRuns(workflowId: string, userId: string, limit = 20): Promise<workflow_runs[]> {
+    return await prisma.workflow_runs.findMany({
+      where: { workflowId, userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private static async getOwnedRun(runId: string, userId: string): Promise<workflow_runs> {
+    const run = await prisma.workflow_runs.findFirst({
+      where: { id: runId, userId },
+    });
+
+    if (!run) {
+      throw new Error('Run not found or unauthorized');
+    }
+
+    return run;
+  }
+
+  private static async finishRun(
+    runId: string,
+    status: WorkflowRunStatus,
+    state: WorkflowRunState,
+    error?: string
+  ): Promise<workflow_runs> {
+    const data = {
+      state: state as unknown as Prisma.InputJsonValue,
+      output: (state.lastOutput ?? null) as Prisma.InputJsonValue,
+      error: error ?? null,
+      currentNodeId: null,
+    };
+
+    // Una cancellazione arrivata durante lo step ha la precedenza sullo stato finale
+    const finished = await prisma.workflow_runs.updateMany({
+      where: { id: runId, status: { not: 'CANCELLED' } },
+      data: { ...data, status, completedAt: new Date() },
+    });
+
+    if (finished.count === 0) {
+      return await prisma.workflow_runs.update({ where: { id: runId }, data });
+    }
+
+    return await prisma.workflow_runs.findUniqueOrThrow({ where: { id: runId } });
+  }
+}
@@ -0,0 +1,443 @@
+/**
+ * Workflow Validator
+ *
+ * Analisi statica dei grafi user_workflows prima del deploy.
+ * Produce diagnostiche strutturate legate a node/edge id, così il builder UI
+ * può evidenziare i problemi invece di fallire a runtime.
+ */
+
+import type { NodeType, Skill, Workflow, WorkflowEdge, WorkflowNode } from './types';
+import {
+  extractTemplatePaths,
+  isBranchSelector,
+  isDefaultCondition,
+  isPredicate,
+} from './workflow-engine';
+
+export type WorkflowDiagnosticSeverity = 'error' | 'warning';
+
+export type WorkflowDiagnosticCode =
+  | 'empty_workflow'
+  | 'missing_entry_node'
+  | 'unknown_node_type'
+  | 'dangling_edge'
+  | 'unreachable_node'
+  | 'cycle_without_loop'
+  | 'invalid_condition'
+  | 'decision_not_exhaustive'
+  | 'missing_branch'
+  | 'skill_not_configured'
+  | 'skill_not_found'
+  | 'skill_input_missing'
+  | 'skill_input_unresolved';
+
+export interface WorkflowDiagnostic {
+  code: WorkflowDiagnosticCode;
+  severity: WorkflowDiagnosticSeverity;
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean;
+  diagnostics: WorkflowDiagnostic[];
+}
+
+/**
+ * Sollevata da deployWorkflow quando la validazione contiene errori
+ */
+export class WorkflowValidationError extends Error {
+  constructor(public readonly diagnostics: WorkflowDiagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === 'error');
+    super(
+      `Workflow validation failed with ${errors.length} error(s): ${errors
+        .map((d) => d.message)
+        .join('; ')}`
+    );
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+const NODE_TYPES: NodeType[] = ['agent', 'skill', 'decision', 'loop', 'condition'];
+
+/**
+ * Chiavi di output note per i nodi built-in (vedi executor in workflow-engine / workflow-run.service)
+ */
+const BUILTIN_OUTPUT_KEYS: Partial<Record<NodeType, string[]>> = {
+  agent: ['text', 'usage'],
+  decision: ['selectedNodeIds'],
+  condition: ['passed'],
+  loop: ['index', 'item', 'iterations'],
+};
+
+interface JsonObjectSchema {
+  properties?: Record<string, unknown>;
+  required?: string[];
+}
+
+function asObjectSchema(schema: unknown): JsonObjectSchema | null {
+  if (!schema || typeof schema !== 'object') return null;
+  const s = schema as JsonObjectSchema;
+  if (!s.properties && !s.required) return null;
+  return {
+    properties: s.properties && typeof s.properties === 'object' ? s.properties : undefined,
+    required: Array.isArray(s.required) ? s.required : [],
+  };
+}
+
+function diagnostic(
+  code: WorkflowDiagnosticCode,
+  severity: WorkflowDiagnosticSeverity,
+  message: string,
+  ids: { nodeIds?: string[]; edgeIds?: string[] } = {}
+): WorkflowDiagnostic {
+  return {
+    code,
+    severity,
+    message,
+    nodeIds: ids.nodeIds ?? [],
+    edgeIds: ids.edgeIds ?? [],
+  };
+}
+
+/**
+ * Componenti fortemente connesse (Tarjan), per individuare i cicli
+ */
+function stronglyConnectedComponents(
+  nodeIds: string[],
+  successors: Map<string, string[]>
+): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowlinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) ?? []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowlinks.set(id, Math.min(lowlinks.get(id)!, lowlinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowlinks.set(id, Math.min(lowlinks.get(id)!, indices.get(next)!));
+      }
+    }
+
+    if (lowlinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  for (const id of nodeIds) {
+    if (!indices.has(id)) visit(id);
+  }
+
+  return components;
+}
+
+function reachableFrom(start: string, successors: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of successors.get(current) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Valida il grafo di un workflow.
+ * `skills` deve contenere le skill accessibili all'utente referenziate dai nodi skill.
+ */
+export function validateWorkflowGraph(
+  workflow: Workflow,
+  skills: Skill[] = []
+): WorkflowValidationResult {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const nodesById = new Map<string, WorkflowNode>(workflow.nodes.map((node) => [node.id, node]));
+  const skillsById = new Map<string, Skill>(skills.map((skill) => [skill.id, skill]));
+
+  if (workflow.nodes.length === 0) {
+    diagnostics.push(diagnostic('empty_workflow', 'error', 'Workflow must have at least one node'));
+    return { valid: false, diagnostics };
+  }
+
+  if (!workflow.entryNodeId) {
+    diagnostics.push(
+      diagnostic('missing_entry_node', 'error', 'Workflow must have an entry node')
+    );
+  } else if (!nodesById.has(workflow.entryNodeId)) {
+    diagnostics.push(
+      diagnostic('missing_entry_node', 'error', `Entry node ${workflow.entryNodeId} does not exist`)
+    );
+  }
+
+  for (const node of workflow.nodes) {
+    if (!NODE_TYPES.includes(node.type as NodeType)) {
+      diagnostics.push(
+        diagnostic('unknown_node_type', 'error', `Node "${node.label}" has unknown type "${node.type}"`, {
+          nodeIds: [node.id],
+        })
+      );
+    }
+  }
+
+  // Archi pendenti: il resto dell'analisi usa solo archi validi
+  const edges: WorkflowEdge[] = [];
+  for (const edge of workflow.edges) {
+    const missing = [edge.sourceId, edge.targetId].filter((id) => !nodesById.has(id));
+    if (missing.length > 0) {
+      diagnostics.push(
+        diagnostic('dangling_edge', 'error', `Edge references missing node(s): ${missing.join(', ')}`, {
+          edgeIds: [edge.id],
+          nodeIds: [edge.sourceId, edge.targetId].filter((id) => nodesById.has(id)),
+        })
+      );
+      continue;
+    }
+    edges.push(edge);
+  }
+
+  const outgoing = new Map<string, WorkflowEdge[]>();
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.sourceId, [...(outgoing.get(edge.sourceId) ?? []), edge]);
+    successors.set(edge.sourceId, [...(successors.get(edge.sourceId) ?? []), edge.targetId]);
+    predecessors.set(edge.targetId, [...(predecessors.get(edge.targetId) ?? []), edge.sourceId]);
+  }
+
+  // Nodi irraggiungibili dall'entry node
+  if (workflow.entryNodeId && nodesById.has(workflow.entryNodeId)) {
+    const reachable = reachableFrom(workflow.entryNodeId, successors);
+    for (const node of workflow.nodes) {
+      if (!reachable.has(node.id)) {
+        diagnostics.push(
+          diagnostic('unreachable_node', 'warning', `Node "${node.label}" is not reachable from the entry node`, {
+            nodeIds: [node.id],
+          })
+        );
+      }
+    }
+  }
+
+  // Cicli: ammessi solo se passano da un nodo loop (che ha un limite di iterazioni)
+  for (const component of stronglyConnectedComponents(
+    workflow.nodes.map((node) => node.id),
+    successors
+  )) {
+    const members = new Set(component);
+    const cycleEdges = edges.filter((edge) => members.has(edge.sourceId) && members.has(edge.targetId));
+    if (cycleEdges.length === 0) continue;
+
+    const hasLoop = component.some((id) => nodesById.get(id)?.type === 'loop');
+    if (!hasLoop) {
+      const labels = component.map((id) => `"${nodesById.get(id)?.label ?? id}"`).join(' → ');
+      diagnostics.push(
+        diagnostic('cycle_without_loop', 'error', `Cycle without a loop node: ${labels}`, {
+          nodeIds: component,
+          edgeIds: cycleEdges.map((edge) => edge.id),
+        })
+      );
+    }
+  }
+
+  for (const node of workflow.nodes) {
+    const nodeEdges = outgoing.get(node.id) ?? [];
+
+    switch (node.type as NodeType) {
+      case 'decision': {
+        for (const edge of nodeEdges) {
+          if (!isPredicate(edge.condition) && !isDefaultCondition(edge.condition)) {
+            diagnostics.push(
+              diagnostic('invalid_condition', 'error', `Edge from decision "${node.label}" has an invalid condition`, {
+                nodeIds: [node.id],
+                edgeIds: [edge.id],
+              })
+            );
+          }
+        }
+        if (nodeEdges.length > 0 && !nodeEdges.some((edge) => isDefaultCondition(edge.condition))) {
+          diagnostics.push(
+            diagnostic(
+              'decision_not_exhaustive',
+              'error',
+              `Decision "${node.label}" has no default edge: the run stops when no condition matches`,
+              { nodeIds: [node.id], edgeIds: nodeEdges.map((edge) => edge.id) }
+            )
+          );
+        }
+        break;
+      }
+
+      case 'condition':
+      case 'loop': {
+        const expected = node.type === 'condition' ? ['true', 'false'] : ['body', 'exit'];
+        const branches = new Set(
+          nodeEdges.map((edge) =>
+            isBranchSelector(edge.condition) ? edge.condition.branch : edge.label
+          )
+        );
+        for (const edge of nodeEdges) {
+          const branch = isBranchSelector(edge.condition) ? edge.condition.branch : edge.label;
+          if (!branch || !expected.includes(branch)) {
+            diagnostics.push(
+              diagnostic(
+                'invalid_condition',
+                'error',
+                `Edge from ${node.type} "${node.label}" must select a branch (${expected.join(' | ')})`,
+                { nodeIds: [node.id], edgeIds: [edge.id] }
+              )
+            );
+          }
+        }
+        // Il ramo body di un loop è obbligatorio; gli altri rami mancanti terminano la run
+        const required = node.type === 'loop' ? ['body'] : expected;
+        for (const branch of required.filter((b) => !branches.has(b))) {
+          diagnostics.push(
+            diagnostic(
+              'missing_branch',
+              node.type === 'loop' ? 'error' : 'warning',
+              `${node.type === 'loop' ? 'Loop' : 'Condition'} "${node.label}" has no "${branch}" edge`,
+              { nodeIds: [node.id] }
+            )
+          );
+        }
+        break;
+      }
+
+      case 'skill':
+        diagnostics.push(...validateSkillNode(node, nodesById, predecessors, skillsById));
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  return {
+    valid: !diagnostics.some((d) => d.severity === 'error'),
+    diagnostics,
+  };
+}
+
+/**
+ * Verifica che l'inputSchema della skill sia soddisfatto da config.input
+ * e che i riferimenti {{nodes.<id>.<campo>}} puntino a nodi a monte che producono quel campo
+ */
+function validateSkillNode(
+  node: WorkflowNode,
+  nodesById: Map<string, WorkflowNode>,
+  predecessors: Map<string, string[]>,
+  skillsById: Map<string, Skill>
+): WorkflowDiagnostic[] {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const config = (node.config ?? {}) as { skillId?: string; input?: Record<string, unknown> };
+
+  if (!config.skillId) {
+    return [
+      diagnostic('skill_not_configured', 'error', `Skill node "${node.label}" has no skill selected`, {
+        nodeIds: [node.id],
+      }),
+    ];
+  }
+
+  const skill = skillsById.get(config.skillId);
+  if (!skill) {
+    return [
+      diagnostic('skill_not_found', 'error', `Skill ${config.skillId} used by "${node.label}" not found or not deployed`, {
+        nodeIds: [node.id],
+      }),
+    ];
+  }
+
+  const input = config.input ?? {};
+  const inputSchema = asObjectSchema(skill.inputSchema);
+
+  for (const field of inputSchema?.required ?? []) {
+    if (input[field] === undefined) {
+      diagnostics.push(
+        diagnostic(
+          'skill_input_missing',
+          'error',
+          `Required input "${field}" of skill "${skill.name}" is not mapped in "${node.label}"`,
+          { nodeIds: [node.id] }
+        )
+      );
+    }
+  }
+
+  const upstream = reachableFrom(node.id, predecessors);
+  upstream.delete(node.id);
+
+  for (const [field, value] of Object.entries(input)) {
+    for (const path of extractTemplatePaths(value)) {
+      const [root, sourceId, outputKey] = path.split('.');
+      if (root !== 'nodes' || !sourceId) continue;
+
+      const source = nodesById.get(sourceId);
+      if (!source || !upstream.has(sourceId)) {
+        diagnostics.push(
+          diagnostic(
+            'skill_input_unresolved',
+            'error',
+            `Input "${field}" of "${node.label}" references node ${sourceId}, which does not run before it`,
+            { nodeIds: [node.id, ...(source ? [sourceId] : [])] }
+          )
+        );
+        continue;
+      }
+
+      if (!outputKey) continue;
+
+      const availableKeys = outputKeysOf(source, skillsById);
+      if (availableKeys && !availableKeys.includes(outputKey)) {
+        diagnostics.push(
+          diagnostic(
+            'skill_input_unresolved',
+            'error',
+            `Input "${field}" of "${node.label}" expects "${outputKey}", which "${source.label}" does not output`,
+            { nodeIds: [node.id, sourceId] }
+          )
+        );
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Campi di output noti di un nodo; null se non determinabili staticamente
+ */
+function outputKeysOf(node: WorkflowNode, skillsById: Map<string, Skill>): string[] | null {
+  if (node.type === 'skill') {
+    const skillId = (node.config as { skillId?: string } | null)?.skillId;
+    const skill = skillId ? skillsById.get(skillId) : undefined;
+    const outputSchema = asObjectSchema(skill?.outputSchema);
+    return outputSchema?.properties ? Object.keys(outputSchema.properties) : null;
+  }
+
+  return BUILTIN_OUTPUT_KEYS[node.type as NodeType] ?? null;
+}